@@ -0,0 +1,166 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { db } from "@/lib/db"
+import { cards } from "@/lib/db/schema"
+import { getProductVariants, recalcProductAggregates } from "@/lib/db/queries"
+import { encryptCardKey, hashCardKey } from "@/lib/card-crypto"
+import { CARD_IMPORT_CHUNK_SIZE, CARD_PREVIEW_CHUNK_SIZE, MAX_CARD_KEY_LENGTH } from "@/lib/card-import"
+import { and, eq, inArray, isNull, or } from "drizzle-orm"
+import { revalidatePath, updateTag } from "next/cache"
+
+export interface CardImportRow {
+    key: string
+    /** Absolute expiry from the file; falls back to the import's default */
+    expiresAt?: number | null
+}
+
+export interface ExistingCardMatch {
+    /** Index into the keys that were checked */
+    index: number
+    used: boolean
+}
+
+// D1 allows ~100 bound variables per statement; each lookup binds key + hash
+const LOOKUP_CHUNK = 45
+// Drizzle binds every insertable column (~9), so 100/9 ≈ 11 rows per INSERT
+const INSERT_BATCH = 10
+
+async function resolveVariantId(productId: string, variantIdRaw: number | string | null | undefined): Promise<{ variantId: number | null } | { error: string }> {
+    const variants = await getProductVariants(productId)
+    if (!variants.length) return { variantId: null }
+    const variantId = variants.find((v) => v.id === Number(variantIdRaw))?.id ?? null
+    return variantId ? { variantId } : { error: "admin.cards.variantRequired" }
+}
+
+/** Rows of this product already holding any of `keys`, matched by hash (or by value for rows not yet hashed) */
+async function findExistingCards(productId: string, keys: string[]) {
+    const matches = new Map<string, boolean>()
+    for (let i = 0; i < keys.length; i += LOOKUP_CHUNK) {
+        const batch = keys.slice(i, i + LOOKUP_CHUNK)
+        const hashes = await Promise.all(batch.map((key) => hashCardKey(key)))
+        const byHash = new Map(hashes.map((hash, index) => [hash, batch[index]]))
+        const rows = await db.select({ cardKey: cards.cardKey, keyHash: cards.keyHash, isUsed: cards.isUsed })
+            .from(cards)
+            .where(and(
+                eq(cards.productId, productId),
+                or(inArray(cards.keyHash, hashes), and(isNull(cards.keyHash), inArray(cards.cardKey, batch)))
+            ))
+        for (const row of rows) {
+            const key = (row.keyHash && byHash.get(row.keyHash)) || row.cardKey
+            matches.set(key, (matches.get(key) ?? false) || !!row.isUsed)
+        }
+    }
+    return matches
+}
+
+/** Dry run: which of these keys the product already has, in stock or sold */
+export async function previewCardImport(productId: string, keys: string[]) {
+    await checkAdmin('manage_products')
+    if (!productId) return { success: false as const, error: 'common.error' }
+    if (keys.length > CARD_PREVIEW_CHUNK_SIZE) return { success: false as const, error: 'admin.cards.import.errors.tooMany' }
+
+    const normalized = keys.map((key) => String(key || '').trim())
+    const existing = await findExistingCards(productId, normalized.filter(Boolean))
+    const matches: ExistingCardMatch[] = []
+    normalized.forEach((key, index) => {
+        if (existing.has(key)) matches.push({ index, used: existing.get(key)! })
+    })
+    return { success: true as const, existing: matches }
+}
+
+/**
+ * Insert one chunk of an import. The page sends the file in
+ * CARD_IMPORT_CHUNK_SIZE pieces so it can report progress; `skipDuplicates`
+ * re-checks against stock here since earlier chunks may have added them.
+ */
+export async function importCards(input: {
+    productId: string
+    variantId?: number | string | null
+    cards: CardImportRow[]
+    /** Applied to cards without their own expiry */
+    defaultExpiryMinutes?: number | null
+    /** Drop keys repeated in the chunk or already on the product */
+    skipDuplicates?: boolean
+}) {
+    const admin = await checkAdmin('manage_products')
+    const { productId } = input
+    if (!productId) return { success: false as const, error: 'common.error' }
+    if (input.cards.length > CARD_IMPORT_CHUNK_SIZE) return { success: false as const, error: 'admin.cards.import.errors.tooMany' }
+
+    const defaultMinutes = input.defaultExpiryMinutes ?? null
+    if (defaultMinutes !== null && (!Number.isInteger(defaultMinutes) || defaultMinutes <= 0)) {
+        return { success: false as const, error: 'admin.cards.expiryInvalid' }
+    }
+
+    // Products with variants keep one card pool per variant
+    const variant = await resolveVariantId(productId, input.variantId)
+    if ('error' in variant) return { success: false as const, error: variant.error }
+
+    const now = Date.now()
+    const defaultExpiresAt = defaultMinutes ? new Date(now + defaultMinutes * 60 * 1000) : null
+    const seen = new Set<string>()
+    const rows: Array<{ key: string; expiresAt: Date | null }> = []
+    let invalid = 0
+    let skipped = 0
+    for (const card of input.cards) {
+        const key = String(card.key || '').trim()
+        if (!key || key.length > MAX_CARD_KEY_LENGTH || (card.expiresAt && card.expiresAt <= now)) {
+            invalid++
+            continue
+        }
+        if (input.skipDuplicates && seen.has(key)) {
+            skipped++
+            continue
+        }
+        seen.add(key)
+        rows.push({ key, expiresAt: card.expiresAt ? new Date(card.expiresAt) : defaultExpiresAt })
+    }
+
+    let toInsert = rows
+    if (input.skipDuplicates) {
+        const existing = await findExistingCards(productId, rows.map((row) => row.key))
+        toInsert = rows.filter((row) => !existing.has(row.key))
+        skipped += rows.length - toInsert.length
+    }
+
+    for (let i = 0; i < toInsert.length; i += INSERT_BATCH) {
+        const batch = toInsert.slice(i, i + INSERT_BATCH)
+        await db.insert(cards).values(
+            await Promise.all(batch.map(async (row) => ({
+                productId,
+                variantId: variant.variantId,
+                cardKey: await encryptCardKey(row.key),
+                keyHash: await hashCardKey(row.key),
+                expiresAt: row.expiresAt
+            })))
+        )
+    }
+
+    if (toInsert.length) {
+        await recordAdminAudit(admin, 'cards.add', {
+            targetType: 'product',
+            targetId: productId,
+            details: { count: toInsert.length, skipped, invalid, variantId: variant.variantId, defaultExpiresAt }
+        })
+        try {
+            await recalcProductAggregates(productId)
+        } catch {
+            // best effort
+        }
+
+        revalidatePath('/admin/products')
+        revalidatePath('/admin/settings')
+        revalidatePath(`/admin/cards/${productId}`)
+        revalidatePath('/')
+        try {
+            updateTag('home:products')
+            updateTag('home:product-categories')
+        } catch {
+            // best effort; not available outside server actions (Telegram bot)
+        }
+    }
+
+    return { success: true as const, inserted: toInsert.length, skipped, invalid }
+}
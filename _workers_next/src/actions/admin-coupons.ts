@@ -0,0 +1,106 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { db } from "@/lib/db"
+import { coupons } from "@/lib/db/schema"
+import { ensureCouponTables } from "@/lib/db/queries"
+import { normalizeCouponCode } from "@/lib/coupons"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+
+function parseOptionalInt(value: FormDataEntryValue | null) {
+    const n = Number.parseInt(String(value || ''), 10)
+    return Number.isFinite(n) && n > 0 ? n : null
+}
+
+function parseOptionalDate(value: FormDataEntryValue | null) {
+    const raw = String(value || '').trim()
+    if (!raw) return null
+    const date = new Date(raw)
+    return Number.isNaN(date.getTime()) ? null : date
+}
+
+export async function saveCoupon(formData: FormData) {
+    const admin = await checkAdmin('manage_products')
+    await ensureCouponTables()
+
+    const idRaw = formData.get('id') as string | null
+    const code = normalizeCouponCode(formData.get('code') as string | null)
+    const type = formData.get('type') === 'fixed' ? 'fixed' : 'percent'
+    const value = Number(formData.get('value'))
+    const scopeRaw = String(formData.get('scope') || 'all')
+    const scope = scopeRaw === 'product' || scopeRaw === 'category' ? scopeRaw : 'all'
+    const scopeValue = String(formData.get('scopeValue') || '')
+        .split(',')
+        .map((v) => v.trim())
+        .filter(Boolean)
+        .join(',') || null
+    const minSpendRaw = Number(formData.get('minSpend') || 0)
+    const minSpend = Number.isFinite(minSpendRaw) && minSpendRaw > 0 ? minSpendRaw.toFixed(2) : null
+    const maxUses = parseOptionalInt(formData.get('maxUses'))
+    const perUserLimit = parseOptionalInt(formData.get('perUserLimit'))
+    const allowPoints = formData.get('allowPoints') !== 'false'
+    const isActive = formData.get('isActive') !== 'false'
+    const startsAt = parseOptionalDate(formData.get('startsAt'))
+    const endsAt = parseOptionalDate(formData.get('endsAt'))
+
+    if (!code || !/^[A-Z0-9_-]{3,32}$/.test(code)) throw new Error("Coupon code must be 3-32 letters, digits, - or _")
+    if (!Number.isFinite(value) || value <= 0) throw new Error("Discount value must be greater than 0")
+    if (type === 'percent' && value > 100) throw new Error("Percentage discount cannot exceed 100")
+    if (scope !== 'all' && !scopeValue) throw new Error("Scope value is required")
+    if (startsAt && endsAt && endsAt.getTime() <= startsAt.getTime()) throw new Error("End time must be after start time")
+
+    const existing = await db.query.coupons.findFirst({ where: eq(coupons.code, code), columns: { id: true } })
+    const id = idRaw ? Number.parseInt(idRaw, 10) : null
+    if (existing && existing.id !== id) throw new Error("Coupon code already exists")
+
+    const values = {
+        code,
+        type,
+        value: type === 'fixed' ? value.toFixed(2) : String(value),
+        scope,
+        scopeValue: scope === 'all' ? null : scopeValue,
+        minSpend,
+        maxUses,
+        perUserLimit,
+        allowPoints,
+        isActive,
+        startsAt,
+        endsAt,
+        updatedAt: new Date()
+    }
+
+    const before = id ? await db.query.coupons.findFirst({ where: eq(coupons.id, id) }) : null
+    if (id) {
+        await db.update(coupons).set(values).where(eq(coupons.id, id))
+    } else {
+        await db.insert(coupons).values({ ...values, usedCount: 0, createdAt: new Date() })
+    }
+    const { updatedAt: _beforeUpdated, ...beforeValues } = before || {}
+    const { updatedAt: _afterUpdated, ...afterValues } = values
+    await recordAdminAudit(admin, id ? 'coupons.update' : 'coupons.create', {
+        targetType: 'coupon',
+        targetId: id || code,
+        before: before ? beforeValues : null,
+        after: afterValues
+    })
+
+    revalidatePath('/admin/coupons')
+}
+
+export async function toggleCouponActive(id: number, isActive: boolean) {
+    const admin = await checkAdmin('manage_products')
+    await ensureCouponTables()
+    await db.update(coupons).set({ isActive, updatedAt: new Date() }).where(eq(coupons.id, id))
+    await recordAdminAudit(admin, 'coupons.toggle', { targetType: 'coupon', targetId: id, details: { isActive } })
+    revalidatePath('/admin/coupons')
+}
+
+export async function deleteCoupon(id: number) {
+    const admin = await checkAdmin('manage_products')
+    await ensureCouponTables()
+    await db.delete(coupons).where(eq(coupons.id, id))
+    await recordAdminAudit(admin, 'coupons.delete', { targetType: 'coupon', targetId: id })
+    revalidatePath('/admin/coupons')
+}
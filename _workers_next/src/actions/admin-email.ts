@@ -0,0 +1,56 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { setSetting } from "@/lib/db/queries"
+import { emailTemplateSettingKey, processEmailOutbox, retryOutboxEmail } from "@/lib/email"
+import { emailLanguage, isEmailTemplateKind } from "@/lib/email-templates"
+import { revalidatePath } from "next/cache"
+
+const MAX_TEMPLATE_LENGTH = 50000
+
+export async function saveEmailTemplate(input: { kind: string; language: string; subject: string; body: string }) {
+    const admin = await checkAdmin('edit_settings')
+    if (!isEmailTemplateKind(input.kind)) return { success: false as const, error: 'admin.emailTemplates.errors.kind' }
+    const language = emailLanguage(input.language)
+    const subject = String(input.subject || '').trim()
+    const body = String(input.body || '').trim()
+    if (!subject || !body) return { success: false as const, error: 'admin.emailTemplates.errors.required' }
+    if (subject.length > 300 || body.length > MAX_TEMPLATE_LENGTH) return { success: false as const, error: 'admin.emailTemplates.errors.tooLong' }
+
+    await setSetting(emailTemplateSettingKey(input.kind, language), JSON.stringify({ subject, body }))
+    await recordAdminAudit(admin, 'notifications.email_template', {
+        targetType: 'email_template',
+        targetId: `${input.kind}:${language}`,
+        details: { subject }
+    })
+    revalidatePath('/admin/notifications')
+    return { success: true as const }
+}
+
+/** Drop the saved copy so the built-in template is used again */
+export async function resetEmailTemplate(kind: string, language: string) {
+    const admin = await checkAdmin('edit_settings')
+    if (!isEmailTemplateKind(kind)) return { success: false as const, error: 'admin.emailTemplates.errors.kind' }
+    const lang = emailLanguage(language)
+    await setSetting(emailTemplateSettingKey(kind, lang), '')
+    await recordAdminAudit(admin, 'notifications.email_template_reset', { targetType: 'email_template', targetId: `${kind}:${lang}` })
+    revalidatePath('/admin/notifications')
+    return { success: true as const }
+}
+
+export async function retryOutboxEmailAction(id: number) {
+    const admin = await checkAdmin('edit_settings')
+    const result = await retryOutboxEmail(id)
+    await recordAdminAudit(admin, 'notifications.email_retry', { targetType: 'email_outbox', targetId: id })
+    revalidatePath('/admin/notifications')
+    return result?.success ? { success: true as const } : { success: false as const, error: result && !result.success ? result.error : 'Not found' }
+}
+
+/** Work through due outbox rows now instead of waiting for the next email */
+export async function flushEmailOutbox() {
+    await checkAdmin('edit_settings')
+    const attempted = await processEmailOutbox(50)
+    revalidatePath('/admin/notifications')
+    return { success: true as const, attempted }
+}
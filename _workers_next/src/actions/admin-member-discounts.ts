@@ -0,0 +1,79 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { db } from "@/lib/db"
+import { memberDiscounts } from "@/lib/db/schema"
+import { ensureMemberDiscountsTable } from "@/lib/db/queries"
+import { normalizeUserTag } from "@/lib/member-discounts"
+import { eq } from "drizzle-orm"
+import { revalidatePath, updateTag } from "next/cache"
+
+function revalidateMemberPricing() {
+    revalidatePath('/admin/member-discounts')
+    revalidatePath('/')
+    updateTag('home:products')
+}
+
+export async function saveMemberDiscount(formData: FormData) {
+    const admin = await checkAdmin('manage_products')
+    await ensureMemberDiscountsTable()
+
+    const idRaw = formData.get('id') as string | null
+    const name = String(formData.get('name') || '').trim()
+    const productId = String(formData.get('productId') || '').trim() || null
+    const levelRaw = String(formData.get('minTrustLevel') || '').trim()
+    const minTrustLevel = levelRaw === '' ? null : Number.parseInt(levelRaw, 10)
+    const userTag = normalizeUserTag(formData.get('userTag') as string | null)
+    const percentOff = Number(formData.get('percentOff'))
+    const isActive = formData.get('isActive') !== 'false'
+
+    if (!name) throw new Error("Name is required")
+    if (!Number.isInteger(percentOff) || percentOff <= 0 || percentOff > 100) throw new Error("Discount must be a whole percentage between 1 and 100")
+    if (minTrustLevel !== null && (!Number.isInteger(minTrustLevel) || minTrustLevel < 0 || minTrustLevel > 4)) throw new Error("Trust level must be between 0 and 4")
+    if (minTrustLevel === null && !userTag) throw new Error("Set a trust level, a user tag, or both")
+
+    const values = {
+        name: name.slice(0, 100),
+        productId,
+        minTrustLevel,
+        userTag,
+        percentOff,
+        isActive,
+        updatedAt: new Date()
+    }
+
+    const id = idRaw ? Number.parseInt(idRaw, 10) : null
+    const before = id ? await db.query.memberDiscounts.findFirst({ where: eq(memberDiscounts.id, id) }) : null
+    if (id) {
+        await db.update(memberDiscounts).set(values).where(eq(memberDiscounts.id, id))
+    } else {
+        await db.insert(memberDiscounts).values({ ...values, createdAt: new Date() })
+    }
+    const { updatedAt: _beforeUpdated, ...beforeValues } = before || {}
+    const { updatedAt: _afterUpdated, ...afterValues } = values
+    await recordAdminAudit(admin, id ? 'member_discounts.update' : 'member_discounts.create', {
+        targetType: 'member_discount',
+        targetId: id || values.name,
+        before: before ? beforeValues : null,
+        after: afterValues
+    })
+
+    revalidateMemberPricing()
+}
+
+export async function toggleMemberDiscountActive(id: number, isActive: boolean) {
+    const admin = await checkAdmin('manage_products')
+    await ensureMemberDiscountsTable()
+    await db.update(memberDiscounts).set({ isActive, updatedAt: new Date() }).where(eq(memberDiscounts.id, id))
+    await recordAdminAudit(admin, 'member_discounts.toggle', { targetType: 'member_discount', targetId: id, details: { isActive } })
+    revalidateMemberPricing()
+}
+
+export async function deleteMemberDiscount(id: number) {
+    const admin = await checkAdmin('manage_products')
+    await ensureMemberDiscountsTable()
+    await db.delete(memberDiscounts).where(eq(memberDiscounts.id, id))
+    await recordAdminAudit(admin, 'member_discounts.delete', { targetType: 'member_discount', targetId: id })
+    revalidateMemberPricing()
+}
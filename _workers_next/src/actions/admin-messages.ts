@@ -4,7 +4,9 @@ import { db } from "@/lib/db"
 import { adminMessages, loginUsers, userNotifications, broadcastMessages, broadcastReads } from "@/lib/db/schema"
 import { eq, sql } from "drizzle-orm"
 import { checkAdmin } from "@/actions/admin"
+import { recordAdminAudit } from "@/lib/audit"
 import { revalidatePath } from "next/cache"
+import { queueBroadcastEmails } from "@/lib/email"
 
 type TargetType = "all" | "username" | "userId"
 
@@ -62,8 +64,10 @@ export async function sendAdminMessage(params: {
     targetValue?: string
     title: string
     body: string
+    /** Also email every targeted user that has an address on file */
+    sendEmail?: boolean
 }) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
 
     const title = (params.title || '').trim()
     const body = (params.body || '').trim()
@@ -90,6 +94,7 @@ export async function sendAdminMessage(params: {
     const now = new Date()
     const chunkSize = 40 // keep SQL variables well under D1 SQLite variable limit
     let sentCount = 0
+    let emails: string[] = []
 
     const insertChunk = async (ids: string[]) => {
         for (let i = 0; i < ids.length; i += chunkSize) {
@@ -119,6 +124,10 @@ export async function sendAdminMessage(params: {
         })
         const totalRow = await db.select({ count: sql<number>`count(*)` }).from(loginUsers)
         const totalUsers = Number(totalRow[0]?.count || 0)
+        if (params.sendEmail) {
+            const rows = await db.select({ email: loginUsers.email }).from(loginUsers).where(sql`${loginUsers.email} IS NOT NULL`)
+            emails = rows.map((r) => r.email || '')
+        }
         await db.insert(adminMessages).values({
             targetType,
             targetValue: null,
@@ -127,12 +136,14 @@ export async function sendAdminMessage(params: {
             sender,
             createdAt: now
         })
+        const emailed = await queueMessageEmails(title, body, emails)
         revalidatePath("/admin/messages")
-        return { success: true, count: totalUsers }
+        await recordAdminAudit(admin, 'messages.send', { targetType: 'all', details: { title, count: totalUsers, emailed } })
+        return { success: true, count: totalUsers, emailed }
     } else if (targetType === "username") {
         const username = targetValue.toLowerCase()
         const rows = await db
-            .select({ id: loginUsers.userId })
+            .select({ id: loginUsers.userId, email: loginUsers.email })
             .from(loginUsers)
             .where(sql`LOWER(${loginUsers.username}) = ${username}`)
             .limit(1)
@@ -141,9 +152,10 @@ export async function sendAdminMessage(params: {
             return { success: false, error: "admin.messages.userNotFound" }
         }
         await insertChunk(ids)
+        if (params.sendEmail) emails = rows.map((r) => r.email || '')
     } else {
         const rows = await db
-            .select({ id: loginUsers.userId })
+            .select({ id: loginUsers.userId, email: loginUsers.email })
             .from(loginUsers)
             .where(eq(loginUsers.userId, targetValue))
             .limit(1)
@@ -152,6 +164,7 @@ export async function sendAdminMessage(params: {
             return { success: false, error: "admin.messages.userNotFound" }
         }
         await insertChunk(ids)
+        if (params.sendEmail) emails = rows.map((r) => r.email || '')
     }
 
     await db.insert(adminMessages).values({
@@ -163,20 +176,36 @@ export async function sendAdminMessage(params: {
         createdAt: new Date()
     })
 
+    const emailed = await queueMessageEmails(title, body, emails)
+    await recordAdminAudit(admin, 'messages.send', { targetType, targetId: targetValue, details: { title, count: sentCount, emailed } })
+
     revalidatePath("/admin/messages")
-    return { success: true, count: sentCount }
+    return { success: true, count: sentCount, emailed }
+}
+
+// Email is a courtesy copy: a misconfigured transport must not fail the in-app message
+async function queueMessageEmails(title: string, body: string, emails: string[]) {
+    if (!emails.some(Boolean)) return 0
+    try {
+        const result = await queueBroadcastEmails(title, body, emails)
+        return result.success ? result.queued : 0
+    } catch (e) {
+        console.error('[Messages] Email broadcast failed:', e)
+        return 0
+    }
 }
 
 export async function deleteAdminMessage(id: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
     await ensureAdminMessagesTable()
     await db.delete(adminMessages).where(eq(adminMessages.id, id))
+    await recordAdminAudit(admin, 'messages.delete', { targetType: 'admin_message', targetId: id })
     revalidatePath("/admin/messages")
     return { success: true }
 }
 
 export async function clearAdminMessages() {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
     await ensureAdminMessagesTable()
     await db.delete(adminMessages)
     try {
@@ -186,6 +215,7 @@ export async function clearAdminMessages() {
     } catch {
         // ignore
     }
+    await recordAdminAudit(admin, 'messages.clear', { targetType: 'admin_message' })
     revalidatePath("/admin/messages")
     return { success: true }
 }
@@ -0,0 +1,148 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { db } from "@/lib/db"
+import { notificationChannels } from "@/lib/db/schema"
+import { ensureNotificationChannelsTable, getSetting, setSetting } from "@/lib/db/queries"
+import { getNotificationChannel, sendTestNotification } from "@/lib/notifications"
+import { parseTelegramChatIds, registerTelegramBot, unregisterTelegramBot } from "@/lib/telegram-bot"
+import { isChannelType, isNotificationEvent, missingChannelField, normalizeChannelConfig } from "@/lib/notification-channels"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+
+export async function saveNotificationChannel(input: {
+    id?: number | null
+    type: string
+    name: string
+    config: Record<string, string>
+    events: string[]
+    language: string
+}) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureNotificationChannelsTable()
+
+    if (!isChannelType(input.type)) return { success: false as const, error: 'admin.notificationChannels.errors.type' }
+    const config = normalizeChannelConfig(input.type, input.config || {})
+    const missing = missingChannelField(input.type, config)
+    if (missing) return { success: false as const, error: 'admin.notificationChannels.errors.required', field: missing }
+    const events = Array.from(new Set((input.events || []).filter(isNotificationEvent)))
+    const name = String(input.name || '').trim().slice(0, 60) || input.type
+    const language = input.language === 'en' ? 'en' : 'zh'
+
+    const values = {
+        type: input.type,
+        name,
+        config: JSON.stringify(config),
+        events: JSON.stringify(events),
+        language,
+        updatedAt: new Date()
+    }
+    if (input.id) {
+        const before = await db.query.notificationChannels.findFirst({ where: eq(notificationChannels.id, input.id) })
+        if (!before) return { success: false as const, error: 'common.error' }
+        await db.update(notificationChannels).set(values).where(eq(notificationChannels.id, input.id))
+        await recordAdminAudit(admin, 'notifications.channel_update', {
+            targetType: 'notification_channel',
+            targetId: input.id,
+            before: { type: before.type, name: before.name, events: before.events, language: before.language },
+            after: { type: values.type, name, events: values.events, language },
+            // Config holds credentials, so only note that it changed
+            details: before.config !== values.config ? { configChanged: true } : null
+        })
+    } else {
+        const [created] = await db.insert(notificationChannels).values({ ...values, isActive: true, createdAt: new Date() })
+            .returning({ id: notificationChannels.id })
+        await recordAdminAudit(admin, 'notifications.channel_create', {
+            targetType: 'notification_channel',
+            targetId: created?.id,
+            details: { type: input.type, name, events }
+        })
+    }
+
+    revalidatePath('/admin/notifications')
+    return { success: true as const }
+}
+
+export async function toggleNotificationChannel(id: number, isActive: boolean) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureNotificationChannelsTable()
+    await db.update(notificationChannels).set({ isActive, updatedAt: new Date() }).where(eq(notificationChannels.id, id))
+    await recordAdminAudit(admin, 'notifications.channel_toggle', { targetType: 'notification_channel', targetId: id, details: { isActive } })
+    revalidatePath('/admin/notifications')
+}
+
+export async function deleteNotificationChannel(id: number) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureNotificationChannelsTable()
+    const before = await db.query.notificationChannels.findFirst({ where: eq(notificationChannels.id, id) })
+    await db.delete(notificationChannels).where(eq(notificationChannels.id, id))
+    await recordAdminAudit(admin, 'notifications.channel_delete', {
+        targetType: 'notification_channel',
+        targetId: id,
+        details: { type: before?.type, name: before?.name }
+    })
+    revalidatePath('/admin/notifications')
+}
+
+export async function testNotificationChannel(id: number) {
+    const admin = await checkAdmin('edit_settings')
+    const channel = await getNotificationChannel(id)
+    if (!channel) return { success: false as const, error: 'Channel not found' }
+    await recordAdminAudit(admin, 'notifications.test', { targetType: channel.type, targetId: id })
+    return sendTestNotification(channel)
+}
+
+/**
+ * Point the Telegram admin bot at this channel's bot token: registers the
+ * webhook with a fresh secret token. Only one channel powers the bot.
+ */
+export async function connectTelegramBot(channelId: number) {
+    const admin = await checkAdmin('edit_settings')
+    const channel = await getNotificationChannel(channelId)
+    if (!channel || channel.type !== 'telegram' || !channel.config.botToken) {
+        return { success: false as const, error: 'admin.telegramBot.errors.channel' }
+    }
+    if (!process.env.NEXT_PUBLIC_APP_URL) return { success: false as const, error: 'admin.telegramBot.errors.appUrl' }
+
+    // Telegram only accepts [A-Za-z0-9_-] in secret_token
+    const secret = Array.from(crypto.getRandomValues(new Uint8Array(24)), (b) => b.toString(16).padStart(2, '0')).join('')
+    const result = await registerTelegramBot(channel.config.botToken, secret, channel.language)
+    if (!result.success) return { success: false as const, error: 'admin.telegramBot.errors.register', detail: result.error }
+
+    const previousId = await getSetting('telegram_bot_channel_id')
+    if (previousId && Number(previousId) !== channelId) {
+        const previous = await getNotificationChannel(Number(previousId))
+        // A different bot token would otherwise keep posting to us with a stale secret
+        if (previous?.config.botToken && previous.config.botToken !== channel.config.botToken) {
+            await unregisterTelegramBot(previous.config.botToken).catch(() => null)
+        }
+    }
+    await setSetting('telegram_bot_channel_id', String(channelId))
+    await setSetting('telegram_bot_secret', secret)
+    await recordAdminAudit(admin, 'notifications.bot_connect', { targetType: 'notification_channel', targetId: channelId })
+    revalidatePath('/admin/notifications')
+    return { success: true as const }
+}
+
+export async function disconnectTelegramBot() {
+    const admin = await checkAdmin('edit_settings')
+    const channelId = await getSetting('telegram_bot_channel_id')
+    const channel = channelId ? await getNotificationChannel(Number(channelId)) : null
+    if (channel?.config.botToken) await unregisterTelegramBot(channel.config.botToken).catch(() => null)
+    await setSetting('telegram_bot_channel_id', '')
+    await setSetting('telegram_bot_secret', '')
+    await recordAdminAudit(admin, 'notifications.bot_disconnect', { targetType: 'notification_channel', targetId: channelId || null })
+    revalidatePath('/admin/notifications')
+}
+
+/** Extra chats (besides the channel's own) allowed to send commands */
+export async function saveTelegramBotChats(raw: string) {
+    const admin = await checkAdmin('edit_settings')
+    const before = await getSetting('telegram_bot_chat_ids')
+    const value = parseTelegramChatIds(raw).join(',')
+    await setSetting('telegram_bot_chat_ids', value)
+    await recordAdminAudit(admin, 'notifications.bot_chats', { before: { chatIds: before || '' }, after: { chatIds: value } })
+    revalidatePath('/admin/notifications')
+    return { success: true as const }
+}
@@ -1,28 +1,37 @@
 'use server'
 
 import { db } from "@/lib/db"
-import { cards, orders, refundRequests, loginUsers } from "@/lib/db/schema"
+import { cards, orders, refundRequests } from "@/lib/db/schema"
 import { and, eq, sql } from "drizzle-orm"
 import { revalidatePath, updateTag } from "next/cache"
 import { checkAdmin } from "@/actions/admin"
-import { recalcProductAggregates, recalcProductAggregatesForMany, createUserNotification } from "@/lib/db/queries"
+import { releaseCouponForOrder } from "@/lib/coupons"
+import { adminActor, deleteOrderEvents, transitionOrderStatus } from "@/lib/order-status"
+import { getOrderPaymentProvider } from "@/lib/payment-providers"
+import { awardOrderCashback, changePoints } from "@/lib/points"
+import { rewardReferralForOrder } from "@/lib/referrals"
+import { recordAdminAudit } from "@/lib/audit"
+import { sendPaymentReminderEmail } from "@/lib/email"
+import { recalcOrderProductAggregates, recalcProductAggregatesForMany, getOrderProductIds, createUserNotification } from "@/lib/db/queries"
 
 export async function markOrderPaid(orderId: string) {
-  await checkAdmin()
+  const admin = await checkAdmin('manage_orders')
   if (!orderId) throw new Error("Missing order id")
 
   const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId), columns: { productId: true } })
-  await db.update(orders).set({
-    status: 'paid',
-    paidAt: new Date(),
-  }).where(eq(orders.orderId, orderId))
+  await transitionOrderStatus(orderId, 'paid', {
+    actor: adminActor(admin.username),
+    reason: 'Marked paid manually',
+    set: { paidAt: new Date() }
+  })
+  await recordAdminAudit(admin, 'orders.mark_paid', { targetType: 'order', targetId: orderId })
 
   revalidatePath('/admin/orders')
   revalidatePath(`/admin/orders/${orderId}`)
   revalidatePath(`/order/${orderId}`)
   if (order?.productId) {
     try {
-      await recalcProductAggregates(order.productId)
+      await recalcOrderProductAggregates(orderId, order.productId)
     } catch {
       // best effort
     }
@@ -35,19 +44,31 @@ export async function markOrderPaid(orderId: string) {
 }
 
 export async function markOrderDelivered(orderId: string) {
-  await checkAdmin()
+  const admin = await checkAdmin('manage_orders')
   if (!orderId) throw new Error("Missing order id")
 
   const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId) })
   if (!order) throw new Error("Order not found")
   if (!order.cardKey) throw new Error("Missing card key; cannot mark delivered")
 
-  await db.update(orders).set({
-    status: 'delivered',
-    deliveredAt: new Date(),
-  }).where(eq(orders.orderId, orderId))
+  const { changed, from } = await transitionOrderStatus(orderId, 'delivered', {
+    actor: adminActor(admin.username),
+    reason: 'Marked delivered manually',
+    set: { deliveredAt: new Date() }
+  })
+  await recordAdminAudit(admin, 'orders.mark_delivered', {
+    targetType: 'order',
+    targetId: orderId,
+    before: { status: from },
+    after: { status: changed ? 'delivered' : from }
+  })
 
-  if (order.userId) {
+  if (changed) {
+    await awardOrderCashback(order, adminActor(admin.username))
+    await rewardReferralForOrder(order, adminActor(admin.username))
+  }
+
+  if (changed && order.userId) {
     await createUserNotification({
       userId: order.userId,
       type: 'order_delivered',
@@ -68,7 +89,7 @@ export async function markOrderDelivered(orderId: string) {
   revalidatePath(`/order/${orderId}`)
   if (order?.productId) {
     try {
-      await recalcProductAggregates(order.productId)
+      await recalcOrderProductAggregates(orderId, order.productId)
     } catch {
       // best effort
     }
@@ -81,23 +102,33 @@ export async function markOrderDelivered(orderId: string) {
 }
 
 export async function cancelOrder(orderId: string) {
-  await checkAdmin()
+  const admin = await checkAdmin('manage_orders')
   if (!orderId) throw new Error("Missing order id")
 
   // No transaction - D1 doesn't support SQL transactions
-  // 1. Refund points if used
   const order = await db.query.orders.findFirst({
     where: eq(orders.orderId, orderId),
     columns: { userId: true, pointsUsed: true, productId: true }
   })
 
-  if (order?.userId && order.pointsUsed && order.pointsUsed > 0) {
-    await db.update(loginUsers)
-      .set({ points: sql`${loginUsers.points} + ${order.pointsUsed}` })
-      .where(eq(loginUsers.userId, order.userId))
+  // 1. Move to cancelled first so points and coupons are only returned once
+  const { changed, from } = await transitionOrderStatus(orderId, 'cancelled', {
+    actor: adminActor(admin.username),
+    reason: 'Cancelled by admin'
+  })
+  await recordAdminAudit(admin, 'orders.cancel', {
+    targetType: 'order',
+    targetId: orderId,
+    before: { status: from },
+    after: { status: changed ? 'cancelled' : from }
+  })
+
+  // 2. Refund points if used
+  if (changed && order?.userId && order.pointsUsed && order.pointsUsed > 0) {
+    await changePoints(order.userId, order.pointsUsed, { reason: 'order_cancel', orderId, actor: adminActor(admin.username) })
   }
 
-  await db.update(orders).set({ status: 'cancelled' }).where(eq(orders.orderId, orderId))
+  if (changed) await releaseCouponForOrder(orderId)
   try {
     await db.run(sql.raw(`ALTER TABLE cards ADD COLUMN reserved_order_id TEXT`));
   } catch { /* duplicate column */ }
@@ -112,7 +143,7 @@ export async function cancelOrder(orderId: string) {
   revalidatePath(`/order/${orderId}`)
   if (order?.productId) {
     try {
-      await recalcProductAggregates(order.productId)
+      await recalcOrderProductAggregates(orderId, order.productId)
     } catch {
       // best effort
     }
@@ -125,23 +156,49 @@ export async function cancelOrder(orderId: string) {
 }
 
 export async function updateOrderEmail(orderId: string, email: string | null) {
-  await checkAdmin()
+  const admin = await checkAdmin('manage_orders')
   if (!orderId) throw new Error("Missing order id")
   const next = (email || '').trim()
+  const current = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId), columns: { email: true } })
   await db.update(orders).set({ email: next || null }).where(eq(orders.orderId, orderId))
+  await recordAdminAudit(admin, 'orders.update_email', {
+    targetType: 'order',
+    targetId: orderId,
+    before: { email: current?.email ?? null },
+    after: { email: next || null }
+  })
   revalidatePath('/admin/orders')
   revalidatePath(`/admin/orders/${orderId}`)
 }
 
-async function deleteOneOrder(orderId: string) {
+export async function sendPaymentReminder(orderId: string) {
+  const admin = await checkAdmin('manage_orders')
+  if (!orderId) throw new Error("Missing order id")
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.orderId, orderId),
+    columns: { status: true, email: true, productName: true, amount: true }
+  })
+  if (!order) throw new Error("Order not found")
+  if (order.status !== 'pending') throw new Error("Only pending orders can be reminded")
+  if (!order.email) throw new Error("Order has no email")
+
+  const result = await sendPaymentReminderEmail({
+    to: order.email,
+    orderId,
+    productName: order.productName || 'Product',
+    amount: order.amount
+  })
+  if (!result.success) throw new Error(result.error)
+  await recordAdminAudit(admin, 'orders.payment_reminder', { targetType: 'order', targetId: orderId, details: { email: order.email } })
+}
+
+async function deleteOneOrder(orderId: string, actor: string) {
   const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId) })
   if (!order) return
 
   // Refund points if used
   if (order.userId && order.pointsUsed && order.pointsUsed > 0) {
-    await db.update(loginUsers)
-      .set({ points: sql`${loginUsers.points} + ${order.pointsUsed}` })
-      .where(eq(loginUsers.userId, order.userId))
+    await changePoints(order.userId, order.pointsUsed, { reason: 'order_delete', orderId, actor })
   }
 
   // Release reserved card if any
@@ -162,24 +219,25 @@ async function deleteOneOrder(orderId: string) {
     // table may not exist yet
   }
 
+  await deleteOrderEvents(orderId)
   await db.delete(orders).where(eq(orders.orderId, orderId))
 }
 
 export async function deleteOrder(orderId: string) {
-  await checkAdmin()
+  const admin = await checkAdmin('manage_orders')
   if (!orderId) throw new Error("Missing order id")
 
   const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId), columns: { productId: true } })
-  await deleteOneOrder(orderId)
+  const productIds = order?.productId ? await getOrderProductIds(orderId, order.productId) : []
+  await deleteOneOrder(orderId, adminActor(admin.username))
+  await recordAdminAudit(admin, 'orders.delete', { targetType: 'order', targetId: orderId })
 
   revalidatePath('/admin/orders')
   revalidatePath(`/admin/orders/${orderId}`)
-  if (order?.productId) {
-    try {
-      await recalcProductAggregates(order.productId)
-    } catch {
-      // best effort
-    }
+  try {
+    await recalcProductAggregatesForMany(productIds)
+  } catch {
+    // best effort
   }
   try {
     updateTag('home:products')
@@ -189,7 +247,7 @@ export async function deleteOrder(orderId: string) {
 }
 
 export async function deleteOrders(orderIds: string[]) {
-  await checkAdmin()
+  const admin = await checkAdmin('manage_orders')
   const ids = (orderIds || []).map((s) => String(s).trim()).filter(Boolean)
   if (!ids.length) return
 
@@ -197,9 +255,14 @@ export async function deleteOrders(orderIds: string[]) {
 
   for (const id of ids) {
     const order = await db.query.orders.findFirst({ where: eq(orders.orderId, id), columns: { productId: true } })
-    if (order?.productId) touchedProducts.push(order.productId)
-    await deleteOneOrder(id)
+    if (order?.productId) touchedProducts.push(...await getOrderProductIds(id, order.productId))
+    await deleteOneOrder(id, adminActor(admin.username))
   }
+  await recordAdminAudit(admin, 'orders.delete_many', {
+    targetType: 'order',
+    targetId: ids.length === 1 ? ids[0] : null,
+    details: { orderIds: ids.join(','), count: ids.length }
+  })
 
   revalidatePath('/admin/orders')
   try {
@@ -214,24 +277,27 @@ export async function deleteOrders(orderIds: string[]) {
   }
 }
 
-import { queryOrderStatus } from "@/lib/epay"
-
 export async function verifyOrderRefundStatus(orderId: string) {
-  await checkAdmin()
+  const admin = await checkAdmin('approve_refunds')
   if (!orderId) throw new Error("Missing order id")
 
   try {
-    const result = await queryOrderStatus(orderId)
+    const provider = await getOrderPaymentProvider(orderId)
+    const result = await provider.queryStatus(orderId)
 
     if (result.success) {
       // status 0 = Refunded
       if (result.status === 0) {
         const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId), columns: { productId: true } })
-        await db.update(orders).set({ status: 'refunded' }).where(eq(orders.orderId, orderId))
+        await transitionOrderStatus(orderId, 'refunded', {
+          actor: adminActor(admin.username),
+          reason: 'Gateway reports the payment as refunded'
+        })
+        await recordAdminAudit(admin, 'refunds.verify', { targetType: 'order', targetId: orderId, details: { status: 'refunded' } })
         revalidatePath('/admin/orders')
         if (order?.productId) {
           try {
-            await recalcProductAggregates(order.productId)
+            await recalcOrderProductAggregates(orderId, order.productId)
           } catch {
             // best effort
           }
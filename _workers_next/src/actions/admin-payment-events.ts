@@ -0,0 +1,90 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { db } from "@/lib/db"
+import { orders } from "@/lib/db/schema"
+import { getPaymentEvent, recordPaymentEvent } from "@/lib/payment-events"
+import { processOrderFulfillment } from "@/lib/order-processing"
+import { adminActor } from "@/lib/order-status"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+
+// Fulfillment only runs for unpaid orders; a paid order short on stock is finished from the order page
+const REPLAYABLE_STATUSES = ['pending', 'cancelled']
+
+/**
+ * Re-run fulfillment for a stored callback. Only events whose signature was
+ * verified and that reported a successful trade can be replayed.
+ */
+export async function replayPaymentEvent(id: number) {
+    const admin = await checkAdmin('manage_orders')
+
+    const event = await getPaymentEvent(id)
+    if (!event) return { success: false, error: 'admin.paymentEvents.notFound' }
+    if (!event.signatureValid || event.tradeStatus !== 'TRADE_SUCCESS' || !event.orderId) {
+        return { success: false, error: 'admin.paymentEvents.notReplayable' }
+    }
+
+    const order = await db.query.orders.findFirst({
+        where: eq(orders.orderId, event.orderId),
+        columns: { orderId: true, status: true }
+    })
+    if (!order) return { success: false, error: 'admin.paymentEvents.orderMissing' }
+    if (!REPLAYABLE_STATUSES.includes(order.status || 'pending')) {
+        return { success: false, error: 'admin.paymentEvents.alreadyProcessed' }
+    }
+
+    const replay = {
+        orderId: event.orderId,
+        outTradeNo: event.outTradeNo,
+        provider: event.provider,
+        source: 'replay' as const,
+        method: 'ADMIN',
+        rawParams: { replayOf: event.id },
+        signatureValid: true,
+        tradeStatus: event.tradeStatus,
+        tradeNo: event.tradeNo,
+        amount: event.amount,
+        statusBefore: order.status,
+    }
+
+    let fulfillment: { status?: string }
+    try {
+        fulfillment = await processOrderFulfillment(event.orderId, Number(event.amount), event.tradeNo || '', adminActor(admin.username))
+    } catch (e: any) {
+        const after = await db.query.orders.findFirst({ where: eq(orders.orderId, event.orderId), columns: { status: true } })
+        await recordPaymentEvent({ ...replay, result: 'error', statusAfter: after?.status, error: e?.message || String(e) })
+        await recordAdminAudit(admin, 'orders.replay_payment', {
+            targetType: 'order',
+            targetId: event.orderId,
+            details: { paymentEventId: event.id, result: 'error', error: e?.message || String(e) }
+        })
+        revalidatePath('/admin/payment-events')
+        return { success: false, error: e?.message || 'common.error' }
+    }
+
+    // A concurrent callback may have fulfilled the order between the check above and the replay
+    const processed = fulfillment?.status === 'processed'
+    const after = await db.query.orders.findFirst({ where: eq(orders.orderId, event.orderId), columns: { status: true } })
+    await recordPaymentEvent({
+        ...replay,
+        result: processed ? 'processed' : 'ignored',
+        statusAfter: after?.status,
+        error: processed ? null : `Fulfillment returned ${fulfillment?.status || 'nothing'}`
+    })
+    await recordAdminAudit(admin, 'orders.replay_payment', {
+        targetType: 'order',
+        targetId: event.orderId,
+        before: { status: order.status },
+        after: { status: after?.status ?? null },
+        details: { paymentEventId: event.id, result: fulfillment?.status ?? null }
+    })
+
+    revalidatePath('/admin/payment-events')
+    revalidatePath('/admin/orders')
+    revalidatePath(`/admin/orders/${event.orderId}`)
+    revalidatePath(`/order/${event.orderId}`)
+    if (!processed) return { success: false, error: 'admin.paymentEvents.alreadyProcessed' }
+    return { success: true, status: after?.status || null }
+}
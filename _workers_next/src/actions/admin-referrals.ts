@@ -0,0 +1,47 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { auditSettings } from "@/lib/audit"
+import { setSetting } from "@/lib/db/queries"
+import { revalidatePath } from "next/cache"
+
+export async function saveReferralSettings(input: {
+    enabled: boolean
+    inviterReward: number
+    inviteeReward: number
+    minOrderAmount: number
+    minTrustLevel: number
+    monthlyCap: number
+}) {
+    const admin = await checkAdmin('edit_settings')
+
+    const inviterReward = Number(input.inviterReward)
+    const inviteeReward = Number(input.inviteeReward)
+    const minOrderAmount = Number(input.minOrderAmount)
+    const minTrustLevel = Number(input.minTrustLevel)
+    const monthlyCap = Number(input.monthlyCap)
+
+    if (!Number.isInteger(inviterReward) || inviterReward < 0) throw new Error("Inviter reward must be a non-negative whole number")
+    if (!Number.isInteger(inviteeReward) || inviteeReward < 0) throw new Error("Invitee reward must be a non-negative whole number")
+    if (!Number.isFinite(minOrderAmount) || minOrderAmount < 0) throw new Error("Minimum order amount must be zero or more")
+    if (!Number.isInteger(minTrustLevel) || minTrustLevel < 0 || minTrustLevel > 4) throw new Error("Trust level must be between 0 and 4")
+    if (!Number.isInteger(monthlyCap) || monthlyCap < 0) throw new Error("Monthly cap must be a non-negative whole number")
+
+    await auditSettings(admin, 'settings.referrals', {
+        referral_enabled: input.enabled ? 'true' : 'false',
+        referral_inviter_reward: String(inviterReward),
+        referral_invitee_reward: String(inviteeReward),
+        referral_min_order_amount: String(minOrderAmount),
+        referral_min_trust_level: String(minTrustLevel),
+        referral_monthly_cap: String(monthlyCap),
+    })
+    await setSetting('referral_enabled', input.enabled ? 'true' : 'false')
+    await setSetting('referral_inviter_reward', String(inviterReward))
+    await setSetting('referral_invitee_reward', String(inviteeReward))
+    await setSetting('referral_min_order_amount', String(minOrderAmount))
+    await setSetting('referral_min_trust_level', String(minTrustLevel))
+    await setSetting('referral_monthly_cap', String(monthlyCap))
+
+    revalidatePath('/admin/referrals')
+    revalidatePath('/profile')
+}
@@ -0,0 +1,56 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { db } from "@/lib/db"
+import { adminRoles, loginUsers } from "@/lib/db/schema"
+import { ensureAdminRolesTable } from "@/lib/db/queries"
+import { isAdminUsername } from "@/lib/admin-auth"
+import { isAdminRole } from "@/lib/admin-roles"
+import { recordAdminAudit } from "@/lib/audit"
+import { eq, sql } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+
+export async function grantAdminRole(rawUsername: string, role: string) {
+    const admin = await checkAdmin('manage_roles')
+    await ensureAdminRolesTable()
+
+    const username = String(rawUsername || '').trim().replace(/^@/, '')
+    if (!username) throw new Error("Username is required")
+    if (!isAdminRole(role)) throw new Error("Invalid role")
+    if (isAdminUsername(username)) throw new Error("Owners from ADMIN_USERS cannot be changed here")
+
+    const user = await db.query.loginUsers.findFirst({
+        where: sql`lower(${loginUsers.username}) = ${username.toLowerCase()}`,
+        columns: { userId: true, username: true }
+    })
+    if (!user) throw new Error("User not found; they need to sign in once first")
+    if (user.userId === admin.id) throw new Error("You cannot change your own role")
+
+    const current = await db.query.adminRoles.findFirst({ where: eq(adminRoles.userId, user.userId), columns: { role: true } })
+    await db.insert(adminRoles)
+        .values({ userId: user.userId, role, grantedBy: admin.username || null, createdAt: new Date(), updatedAt: new Date() })
+        .onConflictDoUpdate({
+            target: adminRoles.userId,
+            set: { role, grantedBy: admin.username || null, updatedAt: new Date() }
+        })
+
+    await recordAdminAudit(admin, 'roles.grant', {
+        targetType: 'user',
+        targetId: user.userId,
+        before: { username: user.username, role: current?.role ?? null },
+        after: { username: user.username, role }
+    })
+
+    revalidatePath('/admin/roles')
+}
+
+export async function revokeAdminRole(userId: string) {
+    const admin = await checkAdmin('manage_roles')
+    await ensureAdminRolesTable()
+    if (userId === admin.id) throw new Error("You cannot change your own role")
+
+    const current = await db.query.adminRoles.findFirst({ where: eq(adminRoles.userId, userId), columns: { role: true } })
+    await db.delete(adminRoles).where(eq(adminRoles.userId, userId))
+    await recordAdminAudit(admin, 'roles.revoke', { targetType: 'user', targetId: userId, before: { role: current?.role ?? null }, after: { role: null } })
+    revalidatePath('/admin/roles')
+}
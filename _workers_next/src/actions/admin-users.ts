@@ -1,19 +1,73 @@
 'use server'
 
 import { checkAdmin } from "./admin"
-import { updateUserPoints } from "@/lib/db/queries"
+import { db } from "@/lib/db"
+import { loginUsers } from "@/lib/db/schema"
+import { updateUserTag } from "@/lib/db/queries"
+import { recordAdminAudit } from "@/lib/audit"
+import { getPointsTransactions, reconcilePointsLedger, setPointsBalance } from "@/lib/points"
+import { adminActor } from "@/lib/order-status"
+import { normalizeUserTag } from "@/lib/member-discounts"
+import { eq } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 
+async function userAuditSnapshot(userId: string) {
+    const user = await db.query.loginUsers.findFirst({
+        where: eq(loginUsers.userId, userId),
+        columns: { points: true, tag: true, isBlocked: true }
+    }).catch(() => undefined)
+    return user ? { points: user.points, tag: user.tag, isBlocked: !!user.isBlocked } : null
+}
+
 export async function saveUserPoints(userId: string, points: number) {
+    const admin = await checkAdmin('manage_users')
+    const value = Math.floor(Number(points))
+    if (!Number.isFinite(value) || value < 0) throw new Error("Invalid points")
+    const before = await userAuditSnapshot(userId)
+    await setPointsBalance(userId, value, { reason: 'admin_adjust', actor: adminActor(admin.username) })
+    await recordAdminAudit(admin, 'users.points', { targetType: 'user', targetId: userId, before, after: await userAuditSnapshot(userId) })
+    revalidatePath('/admin/users')
+}
+
+export async function getUserPointsHistory(userId: string, offset = 0) {
     await checkAdmin()
-    await updateUserPoints(userId, points)
+    const items = await getPointsTransactions(userId, 50, Math.max(0, Math.floor(Number(offset) || 0)))
+    return items.map((item) => ({
+        id: item.id,
+        delta: item.delta,
+        balanceAfter: item.balanceAfter,
+        reason: item.reason,
+        orderId: item.orderId,
+        actor: item.actor,
+        note: item.note,
+        createdAt: item.createdAt
+    }))
+}
+
+export async function runPointsReconciliation() {
+    const admin = await checkAdmin('manage_users')
+    const result = await reconcilePointsLedger()
+    await recordAdminAudit(admin, 'users.reconcile_points', { details: { mismatches: result.mismatches.length } })
+    revalidatePath('/admin/users')
+    return result
+}
+
+export async function saveUserTag(userId: string, tag: string) {
+    const admin = await checkAdmin('manage_users')
+    const normalized = normalizeUserTag(tag)
+    if (normalized && normalized.length > 32) throw new Error("Tag is too long")
+    const before = await userAuditSnapshot(userId)
+    await updateUserTag(userId, normalized)
+    await recordAdminAudit(admin, 'users.tag', { targetType: 'user', targetId: userId, before, after: await userAuditSnapshot(userId) })
     revalidatePath('/admin/users')
 }
 
 export async function toggleBlock(userId: string, isBlocked: boolean) {
     // Lazy import to avoid circular dependency if possible, but queries is fine
     const { toggleUserBlock } = await import("@/lib/db/queries")
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
+    const before = await userAuditSnapshot(userId)
     await toggleUserBlock(userId, isBlocked)
+    await recordAdminAudit(admin, isBlocked ? 'users.block' : 'users.unblock', { targetType: 'user', targetId: userId, before, after: await userAuditSnapshot(userId) })
     revalidatePath('/admin/users')
 }
@@ -0,0 +1,104 @@
+'use server'
+
+import { checkAdmin } from "./admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { db } from "@/lib/db"
+import { webhookDeliveries, webhookEndpoints } from "@/lib/db/schema"
+import { ensureWebhookTables } from "@/lib/db/queries"
+import {
+    generateWebhookSecret,
+    isWebhookEvent,
+    retryWebhookDelivery as retryDelivery,
+    sendTestWebhook,
+    validateWebhookUrl,
+} from "@/lib/webhooks"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+
+function normalizeEvents(events: string[]) {
+    return Array.from(new Set(events.filter(isWebhookEvent)))
+}
+
+export async function saveWebhookEndpoint(input: { id?: number | null; url: string; description?: string | null; events: string[] }) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureWebhookTables()
+
+    const url = String(input.url || '').trim()
+    const urlError = validateWebhookUrl(url)
+    if (urlError) return { success: false as const, error: urlError }
+    const events = normalizeEvents(input.events || [])
+    if (!events.length) return { success: false as const, error: 'admin.webhooks.errors.noEvents' }
+    const description = String(input.description || '').trim().slice(0, 200) || null
+
+    const values = { url, description, events: JSON.stringify(events), updatedAt: new Date() }
+    if (input.id) {
+        const before = await db.query.webhookEndpoints.findFirst({ where: eq(webhookEndpoints.id, input.id) })
+        if (!before) return { success: false as const, error: 'common.error' }
+        await db.update(webhookEndpoints).set(values).where(eq(webhookEndpoints.id, input.id))
+        await recordAdminAudit(admin, 'webhooks.update', {
+            targetType: 'webhook',
+            targetId: input.id,
+            before: { url: before.url, description: before.description, events: before.events },
+            after: { url, description, events: values.events }
+        })
+    } else {
+        const [created] = await db.insert(webhookEndpoints).values({
+            ...values,
+            secret: generateWebhookSecret(),
+            isActive: true,
+            createdAt: new Date()
+        }).returning({ id: webhookEndpoints.id })
+        await recordAdminAudit(admin, 'webhooks.create', {
+            targetType: 'webhook',
+            targetId: created?.id,
+            details: { url, events }
+        })
+    }
+
+    revalidatePath('/admin/notifications')
+    return { success: true as const }
+}
+
+export async function toggleWebhookEndpoint(id: number, isActive: boolean) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureWebhookTables()
+    await db.update(webhookEndpoints).set({ isActive, updatedAt: new Date() }).where(eq(webhookEndpoints.id, id))
+    await recordAdminAudit(admin, 'webhooks.toggle', { targetType: 'webhook', targetId: id, details: { isActive } })
+    revalidatePath('/admin/notifications')
+}
+
+export async function rotateWebhookSecret(id: number) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureWebhookTables()
+    await db.update(webhookEndpoints).set({ secret: generateWebhookSecret(), updatedAt: new Date() }).where(eq(webhookEndpoints.id, id))
+    await recordAdminAudit(admin, 'webhooks.rotate_secret', { targetType: 'webhook', targetId: id })
+    revalidatePath('/admin/notifications')
+}
+
+export async function deleteWebhookEndpoint(id: number) {
+    const admin = await checkAdmin('edit_settings')
+    await ensureWebhookTables()
+    const before = await db.query.webhookEndpoints.findFirst({ where: eq(webhookEndpoints.id, id) })
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.endpointId, id))
+    await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id))
+    await recordAdminAudit(admin, 'webhooks.delete', { targetType: 'webhook', targetId: id, details: { url: before?.url } })
+    revalidatePath('/admin/notifications')
+}
+
+export async function testWebhookEndpoint(id: number) {
+    await checkAdmin('edit_settings')
+    const result = await sendTestWebhook(id)
+    revalidatePath('/admin/notifications')
+    if (!result) return { success: false as const, error: 'Endpoint not found' }
+    return result.ok
+        ? { success: true as const, status: result.status }
+        : { success: false as const, error: result.error || 'Unknown error' }
+}
+
+export async function retryWebhookDelivery(id: number) {
+    const admin = await checkAdmin('edit_settings')
+    const retried = await retryDelivery(id)
+    if (retried) await recordAdminAudit(admin, 'webhooks.retry', { targetType: 'webhook_delivery', targetId: id })
+    revalidatePath('/admin/notifications')
+    return { success: retried }
+}
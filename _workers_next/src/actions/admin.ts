@@ -2,24 +2,205 @@
 
 import { auth } from "@/lib/auth"
 import { db } from "@/lib/db"
-import { products, cards, reviews, categories } from "@/lib/db/schema"
+import { products, cards, orders, reviews, categories, productVariants, productPriceTiers } from "@/lib/db/schema"
 import { eq, sql, inArray, and, or, isNull, lte } from "drizzle-orm"
-import { sendTelegramMessage } from "@/lib/notifications"
 import { revalidatePath, updateTag } from "next/cache"
-import { setSetting, getSetting, recalcProductAggregates, recalcProductAggregatesForMany, getProductForAdmin } from "@/lib/db/queries"
-import { isAdminUsername } from "@/lib/admin-auth"
+import { setSetting, getSetting, recalcProductAggregates, recalcProductAggregatesForMany, getProductForAdmin, getProductVariants, ensureProductVariantsTable, ensurePriceTiersTable, refreshProductScheduleBoundary } from "@/lib/db/queries"
+import { getActingAdmin, getAdminAccess, hasCapability } from "@/lib/admin-auth"
+import type { AdminCapability } from "@/lib/admin-roles"
+import { isPaymentProviderId } from "@/lib/payment-providers"
+import { isValidTimeZone, parseStreakBonuses } from "@/lib/checkin"
+import { auditSettings, recordAdminAudit } from "@/lib/audit"
+import { parseSoldOutAction } from "@/lib/stock-levels"
 import { unstable_noStore } from "next/cache"
 
-export async function checkAdmin() {
-    const session = await auth()
-    const user = session?.user
-    if (!user || !isAdminUsername(user.username)) {
+/**
+ * Any staff role may read admin data; pass a capability for actions that
+ * change something.
+ */
+export async function checkAdmin(capability?: AdminCapability) {
+    const acting = getActingAdmin()
+    const user = acting ? acting.user : (await auth())?.user
+    const access = acting ? acting.access : await getAdminAccess(user)
+    if (!user || !access) {
         throw new Error("Unauthorized")
     }
+    if (capability && !hasCapability(access, capability)) {
+        throw new Error("Forbidden")
+    }
+    return { ...user, role: access.role }
+}
+
+interface VariantInput {
+    id?: number
+    name: string
+    price: string
+    compareAtPrice: string | null
+    purchaseLimit: number | null
+    isActive: boolean
+}
+
+function parseVariants(raw: FormDataEntryValue | null): VariantInput[] {
+    if (!raw) return []
+    let rows: any[]
+    try {
+        rows = JSON.parse(String(raw))
+    } catch {
+        throw new Error("Invalid variants")
+    }
+    if (!Array.isArray(rows)) throw new Error("Invalid variants")
+
+    return rows.map((row) => {
+        const name = String(row?.name || '').trim()
+        const price = Number(row?.price)
+        if (!name || !Number.isFinite(price) || price < 0) {
+            throw new Error("Each variant needs a name and a valid price")
+        }
+        const compareAt = Number(row?.compareAtPrice)
+        const limit = Number.parseInt(String(row?.purchaseLimit ?? ''), 10)
+        return {
+            id: Number.isInteger(Number(row?.id)) && Number(row.id) > 0 ? Number(row.id) : undefined,
+            name: name.slice(0, 100),
+            price: price.toFixed(2),
+            compareAtPrice: Number.isFinite(compareAt) && compareAt > 0 ? compareAt.toFixed(2) : null,
+            purchaseLimit: Number.isFinite(limit) && limit > 0 ? limit : null,
+            isActive: row?.isActive !== false
+        }
+    })
+}
+
+function parsePriceTiers(raw: FormDataEntryValue | null) {
+    if (!raw) return []
+    let rows: any[]
+    try {
+        rows = JSON.parse(String(raw))
+    } catch {
+        throw new Error("Invalid price tiers")
+    }
+    if (!Array.isArray(rows)) throw new Error("Invalid price tiers")
+
+    const seen = new Set<number>()
+    return rows.map((row) => {
+        const minQuantity = Number(row?.minQuantity)
+        const price = Number(row?.price)
+        if (!Number.isInteger(minQuantity) || minQuantity < 2) {
+            throw new Error("Tier quantities must be whole numbers of at least 2")
+        }
+        if (!Number.isFinite(price) || price < 0) {
+            throw new Error("Each tier needs a valid price")
+        }
+        if (seen.has(minQuantity)) throw new Error("Tier quantities must be unique")
+        seen.add(minQuantity)
+        return { minQuantity, price: price.toFixed(2) }
+    })
+}
+
+function parseOptionalDate(value: FormDataEntryValue | null) {
+    const raw = String(value ?? '').trim()
+    if (!raw) return null
+    const date = new Date(raw)
+    if (Number.isNaN(date.getTime())) throw new Error("Invalid date")
+    return date
+}
+
+/** Publish window and flash sale fields; an empty sale price turns the sale off */
+function parseSchedule(formData: FormData) {
+    const publishAt = parseOptionalDate(formData.get('publishAt'))
+    const unpublishAt = parseOptionalDate(formData.get('unpublishAt'))
+    if (publishAt && unpublishAt && unpublishAt.getTime() <= publishAt.getTime()) {
+        throw new Error("Unpublish time must be after publish time")
+    }
+
+    const salePriceRaw = String(formData.get('salePrice') ?? '').trim()
+    if (!salePriceRaw) {
+        return { publishAt, unpublishAt, salePrice: null, saleStartsAt: null, saleEndsAt: null, saleQuantity: null }
+    }
+    const salePrice = Number(salePriceRaw)
+    if (!Number.isFinite(salePrice) || salePrice < 0) throw new Error("Invalid flash sale price")
+    const saleStartsAt = parseOptionalDate(formData.get('saleStartsAt')) || new Date()
+    const saleEndsAt = parseOptionalDate(formData.get('saleEndsAt'))
+    if (!saleEndsAt) throw new Error("A flash sale needs an end time")
+    if (saleEndsAt.getTime() <= saleStartsAt.getTime()) throw new Error("Flash sale must end after it starts")
+    const quantity = Number.parseInt(String(formData.get('saleQuantity') ?? ''), 10)
+
+    return {
+        publishAt,
+        unpublishAt,
+        salePrice: salePrice.toFixed(2),
+        saleStartsAt,
+        saleEndsAt,
+        saleQuantity: Number.isFinite(quantity) && quantity > 0 ? quantity : null
+    }
+}
+
+async function replacePriceTiers(productId: string, tiers: { minQuantity: number; price: string }[]) {
+    await ensurePriceTiersTable()
+    await db.delete(productPriceTiers).where(eq(productPriceTiers.productId, productId))
+    if (!tiers.length) return
+    await db.insert(productPriceTiers).values(
+        tiers.map((tier) => ({ productId, minQuantity: tier.minQuantity, price: tier.price, createdAt: new Date() }))
+    )
+}
+
+/**
+ * Bring the product's variants in line with the form. Variants dropped from the
+ * form are deleted, unless cards or orders still point at them; those are only
+ * deactivated so their pool and history stay intact.
+ */
+async function syncProductVariants(productId: string, rows: VariantInput[]) {
+    await ensureProductVariantsTable()
+    const existing = await getProductVariants(productId)
+    const keepIds = new Set<number>()
+
+    for (const [index, row] of rows.entries()) {
+        const values = {
+            name: row.name,
+            price: row.price,
+            compareAtPrice: row.compareAtPrice,
+            purchaseLimit: row.purchaseLimit,
+            isActive: row.isActive,
+            sortOrder: index
+        }
+        if (row.id && existing.some((v) => v.id === row.id)) {
+            await db.update(productVariants).set(values).where(eq(productVariants.id, row.id))
+            keepIds.add(row.id)
+        } else {
+            await db.insert(productVariants).values({ ...values, productId, createdAt: new Date() })
+        }
+    }
+
+    for (const variant of existing) {
+        if (keepIds.has(variant.id)) continue
+        const [cardRef, orderRef] = await Promise.all([
+            db.select({ id: cards.id }).from(cards).where(eq(cards.variantId, variant.id)).limit(1),
+            db.select({ orderId: orders.orderId }).from(orders).where(eq(orders.variantId, variant.id)).limit(1)
+        ])
+        if (cardRef.length || orderRef.length) {
+            await db.update(productVariants).set({ isActive: false }).where(eq(productVariants.id, variant.id))
+        } else {
+            await db.delete(productVariants).where(eq(productVariants.id, variant.id))
+        }
+    }
+}
+
+// Stock and rating columns are derived, so they stay out of the audit diff
+async function productAuditSnapshot(id: string) {
+    try {
+        const row = await db.query.products.findFirst({ where: eq(products.id, id) })
+        if (!row) return null
+        const { stockCount, lockedCount, soldCount, rating, reviewCount, stockAlert, soldOutState, ...rest } = row as any
+        const variants = await getProductVariants(id).catch(() => [])
+        return {
+            ...rest,
+            variants: variants.map((v) => `${v.name}:${v.price}${v.isActive === false ? ' (off)' : ''}`).join(', ') || null
+        }
+    } catch {
+        return null
+    }
 }
 
 export async function saveProduct(formData: FormData) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
 
     const existingId = formData.get('id') as string
     const customSlug = (formData.get('slug') as string)?.trim()
@@ -46,6 +227,9 @@ export async function saveProduct(formData: FormData) {
     const category = formData.get('category') as string
     const image = formData.get('image') as string
     const purchaseLimit = formData.get('purchaseLimit') ? parseInt(formData.get('purchaseLimit') as string) : null
+    const lowStockRaw = Number.parseInt((formData.get('lowStockThreshold') as string | null) || '', 10)
+    // Empty means the shop-wide threshold applies
+    const lowStockThreshold = Number.isInteger(lowStockRaw) && lowStockRaw >= 0 ? lowStockRaw : null
     const isHot = formData.get('isHot') === 'on'
     const isShared = formData.get('isShared') === 'on'
     const purchaseWarning = (formData.get('purchaseWarning') as string | null)?.trim() || null
@@ -55,6 +239,13 @@ export async function saveProduct(formData: FormData) {
     if (![ -1, 0, 1, 2, 3 ].includes(visibilityLevel)) {
         throw new Error("Invalid visibility level")
     }
+    const variants = parseVariants(formData.get('variants'))
+    const priceTiers = parsePriceTiers(formData.get('priceTiers'))
+    const schedule = parseSchedule(formData)
+    if (schedule.salePrice && variants.some((v) => v.isActive)) {
+        throw new Error("Flash sales are not available for products with variants")
+    }
+    const auditBefore = existingId ? await productAuditSnapshot(id) : null
 
     const doSave = async () => {
         // Auto-create category if it doesn't exist
@@ -79,7 +270,9 @@ export async function saveProduct(formData: FormData) {
             purchaseWarning,
             isHot,
             isShared,
-            visibilityLevel
+            visibilityLevel,
+            lowStockThreshold,
+            ...schedule
         }).onConflictDoUpdate({
             target: products.id,
             set: {
@@ -93,7 +286,9 @@ export async function saveProduct(formData: FormData) {
                 purchaseWarning,
                 isHot,
                 isShared,
-                visibilityLevel
+                visibilityLevel,
+                lowStockThreshold,
+                ...schedule
             }
         })
     }
@@ -115,6 +310,27 @@ export async function saveProduct(formData: FormData) {
         try {
             await db.run(sql.raw(`ALTER TABLE products ADD COLUMN visibility_level INTEGER DEFAULT -1`));
         } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN publish_at INTEGER`));
+        } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN unpublish_at INTEGER`));
+        } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN sale_price TEXT`));
+        } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN sale_starts_at INTEGER`));
+        } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN sale_ends_at INTEGER`));
+        } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN sale_quantity INTEGER`));
+        } catch { /* column exists */ }
+        try {
+            await db.run(sql.raw(`ALTER TABLE products ADD COLUMN low_stock_threshold INTEGER`));
+        } catch { /* column exists */ }
     }
 
     try {
@@ -129,6 +345,22 @@ export async function saveProduct(formData: FormData) {
         }
     }
 
+    await syncProductVariants(id, variants)
+    await replacePriceTiers(id, priceTiers)
+
+    await recordAdminAudit(admin, existingId ? 'products.update' : 'products.create', {
+        targetType: 'product',
+        targetId: id,
+        before: auditBefore,
+        after: await productAuditSnapshot(id)
+    })
+
+    try {
+        await refreshProductScheduleBoundary()
+    } catch {
+        // best effort
+    }
+
     try {
         await recalcProductAggregates(id)
     } catch {
@@ -152,8 +384,16 @@ export async function getProductForAdminAction(id: string) {
 }
 
 export async function deleteProduct(id: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
+    const auditBefore = await productAuditSnapshot(id)
+    try {
+        await db.delete(productVariants).where(eq(productVariants.productId, id))
+        await db.delete(productPriceTiers).where(eq(productPriceTiers.productId, id))
+    } catch {
+        // table may not exist yet
+    }
     await db.delete(products).where(eq(products.id, id))
+    await recordAdminAudit(admin, 'products.delete', { targetType: 'product', targetId: id, before: auditBefore, after: null })
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
     revalidatePath('/')
@@ -164,8 +404,10 @@ export async function deleteProduct(id: string) {
 }
 
 export async function toggleProductStatus(id: string, isActive: boolean) {
-    await checkAdmin()
-    await db.update(products).set({ isActive }).where(eq(products.id, id))
+    const admin = await checkAdmin('manage_products')
+    // A manual toggle takes over from the sold-out rule, so restocking will not re-list it
+    await db.update(products).set({ isActive, soldOutState: null }).where(eq(products.id, id))
+    await recordAdminAudit(admin, 'products.toggle', { targetType: 'product', targetId: id, details: { isActive } })
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
     revalidatePath('/')
@@ -174,8 +416,9 @@ export async function toggleProductStatus(id: string, isActive: boolean) {
 }
 
 export async function reorderProduct(id: string, newOrder: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
     await db.update(products).set({ sortOrder: newOrder }).where(eq(products.id, id))
+    await recordAdminAudit(admin, 'products.reorder', { targetType: 'product', targetId: id, details: { sortOrder: newOrder } })
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
     revalidatePath('/')
@@ -183,71 +426,8 @@ export async function reorderProduct(id: string, newOrder: number) {
     updateTag('home:product-categories')
 }
 
-export async function addCards(formData: FormData) {
-    await checkAdmin()
-
-    const productId = formData.get('product_id') as string
-    const rawCards = formData.get('cards') as string
-    const hoursRaw = String(formData.get('expires_hours') || '').trim()
-    const minutesRaw = String(formData.get('expires_minutes') || '').trim()
-    const hasStructured = hoursRaw !== '' || minutesRaw !== ''
-
-    let expiresInMs: number | null = null
-
-    if (hasStructured) {
-        const hours = hoursRaw === '' ? 0 : Number(hoursRaw)
-        const minutes = minutesRaw === '' ? 0 : Number(minutesRaw)
-        const validInts = Number.isInteger(hours) && Number.isInteger(minutes)
-        if (!validInts || hours < 0 || minutes < 0 || minutes > 59) {
-            return { success: false, error: "admin.cards.expiryInvalid" }
-        }
-        const totalMinutes = hours * 60 + minutes
-        if (totalMinutes <= 0) {
-            return { success: false, error: "admin.cards.expiryInvalid" }
-        }
-        expiresInMs = totalMinutes * 60 * 1000
-    }
-
-    const expiresAt = expiresInMs ? new Date(Date.now() + expiresInMs) : null
-
-    const cardList = rawCards
-        .split(/[\n,]+/)
-        .map(c => c.trim())
-        .filter(c => c)
-
-    if (cardList.length === 0) return { success: true }
-
-    // D1 has a limit on SQL variables (around 100 bindings per query)
-    // Drizzle generates bindings for all columns (~8), so 100/8 ≈ 12 max
-    const BATCH_SIZE = 10
-    for (let i = 0; i < cardList.length; i += BATCH_SIZE) {
-        const batch = cardList.slice(i, i + BATCH_SIZE)
-        await db.insert(cards).values(
-            batch.map(key => ({
-                productId,
-                cardKey: key,
-                expiresAt
-            }))
-        )
-    }
-    try {
-        await recalcProductAggregates(productId)
-    } catch {
-        // best effort
-    }
-
-    revalidatePath('/admin/products')
-    revalidatePath('/admin/settings')
-    revalidatePath(`/admin/cards/${productId}`)
-    revalidatePath('/')
-    updateTag('home:products')
-    updateTag('home:product-categories')
-
-    return { success: true }
-}
-
 export async function deleteCard(cardId: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
 
     // Only delete unused cards
     const card = await db.query.cards.findFirst({
@@ -266,6 +446,7 @@ export async function deleteCard(cardId: number) {
     }
 
     await db.delete(cards).where(eq(cards.id, cardId))
+    await recordAdminAudit(admin, 'cards.delete', { targetType: 'card', targetId: cardId, details: { productId: card.productId } })
     try {
         await recalcProductAggregates(card.productId)
     } catch {
@@ -281,7 +462,7 @@ export async function deleteCard(cardId: number) {
 }
 
 export async function deleteCards(cardIds: number[]) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
 
     if (!cardIds.length) return
 
@@ -308,6 +489,11 @@ export async function deleteCards(cardIds: number[]) {
                 )
             )
     }
+    await recordAdminAudit(admin, 'cards.delete_many', {
+        targetType: 'product',
+        targetId: Array.from(new Set(productIds)).join(',') || null,
+        details: { cardIds: cardIds.join(','), count: cardIds.length }
+    })
     try {
         await recalcProductAggregatesForMany(productIds)
     } catch {
@@ -323,7 +509,7 @@ export async function deleteCards(cardIds: number[]) {
 }
 
 export async function saveShopName(rawName: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
 
     const name = rawName.trim()
     if (!name) {
@@ -333,6 +519,7 @@ export async function saveShopName(rawName: string) {
         throw new Error("Shop name is too long")
     }
 
+    await auditSettings(admin, 'settings.shop', { shop_name: name })
     try {
         await setSetting('shop_name', name)
     } catch (error: any) {
@@ -361,13 +548,14 @@ export async function saveShopName(rawName: string) {
 }
 
 export async function saveShopDescription(rawDesc: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
 
     const desc = rawDesc.trim()
     if (desc.length > 200) {
         throw new Error("Description is too long")
     }
 
+    await auditSettings(admin, 'settings.shop', { shop_description: desc })
     await setSetting('shop_description', desc)
     revalidatePath('/')
     revalidatePath('/admin/products')
@@ -377,13 +565,14 @@ export async function saveShopDescription(rawDesc: string) {
 }
 
 export async function saveShopLogo(logoUrl: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
 
     const url = logoUrl.trim()
     if (url && url.length > 500) {
         throw new Error("Logo URL is too long")
     }
 
+    await auditSettings(admin, 'settings.shop', { shop_logo: url })
     await setSetting('shop_logo', url)
     await setSetting('shop_logo_updated_at', String(Date.now()))
     revalidatePath('/')
@@ -395,23 +584,63 @@ export async function saveShopLogo(logoUrl: string) {
 }
 
 export async function saveRefundReclaimCards(enabled: boolean) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
+    await auditSettings(admin, 'settings.refunds', { refund_reclaim_cards: enabled ? 'true' : 'false' })
     await setSetting('refund_reclaim_cards', enabled ? 'true' : 'false')
     revalidatePath('/admin/settings')
 }
 
+export async function saveRefundPointsRate(raw: string) {
+    const admin = await checkAdmin('edit_settings')
+    const n = Number(String(raw || '').trim())
+    if (!Number.isFinite(n) || n <= 0 || n > 10000) {
+        throw new Error("Conversion rate must be a positive number")
+    }
+    await auditSettings(admin, 'settings.refunds', { refund_points_rate: String(n) })
+    await setSetting('refund_points_rate', String(n))
+    revalidatePath('/admin/settings')
+    revalidatePath('/admin/refunds')
+}
+
+export async function savePaymentSettings(config: { provider: string; gatewayUrl: string; payType: string }) {
+    const admin = await checkAdmin('edit_settings')
+
+    if (!isPaymentProviderId(config.provider)) {
+        throw new Error("Unknown payment provider")
+    }
+    const gatewayUrl = String(config.gatewayUrl || '').trim()
+    const payType = String(config.payType || '').trim() || 'alipay'
+
+    if (config.provider === 'epay') {
+        if (!/^https?:\/\/\S+$/i.test(gatewayUrl)) throw new Error("Gateway URL must start with http:// or https://")
+        if (!/^[a-z0-9_]{1,32}$/i.test(payType)) throw new Error("Invalid payment type")
+        if (!process.env.EPAY_MERCHANT_ID || !process.env.EPAY_MERCHANT_KEY) {
+            throw new Error("EPAY_MERCHANT_ID / EPAY_MERCHANT_KEY are not configured")
+        }
+    }
+
+    await auditSettings(admin, 'settings.payment', { epay_gateway_url: gatewayUrl, epay_pay_type: payType, payment_provider: config.provider })
+    await setSetting('epay_gateway_url', gatewayUrl)
+    await setSetting('epay_pay_type', payType)
+    // Only affects new orders; existing ones keep the provider they were created with
+    await setSetting('payment_provider', config.provider)
+    revalidatePath('/admin/settings')
+}
+
 export async function deleteReview(reviewId: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
     await db.delete(reviews).where(eq(reviews.id, reviewId))
+    await recordAdminAudit(admin, 'reviews.delete', { targetType: 'review', targetId: reviewId })
     revalidatePath('/admin/reviews')
     updateTag('home:ratings')
     revalidatePath('/')
 }
 
 export async function saveLowStockThreshold(raw: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
     const n = Number.parseInt(String(raw || '').trim(), 10)
     const value = Number.isFinite(n) && n > 0 ? String(n) : '5'
+    await auditSettings(admin, 'settings.stock', { low_stock_threshold: value })
     await setSetting('low_stock_threshold', value)
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
@@ -419,10 +648,19 @@ export async function saveLowStockThreshold(raw: string) {
     updateTag('home:product-categories')
 }
 
+export async function saveSoldOutAction(raw: string) {
+    const admin = await checkAdmin('edit_settings')
+    const value = parseSoldOutAction(raw)
+    await auditSettings(admin, 'settings.stock', { sold_out_action: value })
+    await setSetting('sold_out_action', value)
+    revalidatePath('/admin/settings')
+}
+
 export async function saveCheckinReward(raw: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
     const n = Number.parseInt(String(raw || '').trim(), 10)
     const value = Number.isFinite(n) && n > 0 ? String(n) : '10'
+    await auditSettings(admin, 'settings.checkin', { checkin_reward: value })
     await setSetting('checkin_reward', value)
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
@@ -430,8 +668,65 @@ export async function saveCheckinReward(raw: string) {
     updateTag('home:product-categories')
 }
 
+export async function saveCheckinRules(input: { timeZone: string; streakBonuses: string; makeUpCost: string; makeUpDays: string }) {
+    const admin = await checkAdmin('edit_settings')
+    const timeZone = String(input.timeZone || '').trim() || 'UTC'
+    if (!isValidTimeZone(timeZone)) {
+        throw new Error("Unknown time zone")
+    }
+    const bonuses = parseStreakBonuses(input.streakBonuses)
+    if (String(input.streakBonuses || '').trim() && !bonuses.length) {
+        throw new Error("Streak bonuses must look like 7:20, 30:100")
+    }
+    const makeUpCost = Number(String(input.makeUpCost || '').trim() || '0')
+    const makeUpDays = Number(String(input.makeUpDays || '').trim() || '0')
+    if (!Number.isInteger(makeUpCost) || makeUpCost < 0) {
+        throw new Error("Make-up cost must be a whole number")
+    }
+    if (!Number.isInteger(makeUpDays) || makeUpDays < 0 || makeUpDays > 31) {
+        throw new Error("Make-up window must be between 0 and 31 days")
+    }
+    await auditSettings(admin, 'settings.checkin', {
+        checkin_timezone: timeZone,
+        checkin_streak_bonuses: JSON.stringify(bonuses),
+        checkin_makeup_cost: String(makeUpCost),
+        checkin_makeup_days: String(makeUpDays),
+    })
+    await setSetting('checkin_timezone', timeZone)
+    await setSetting('checkin_streak_bonuses', JSON.stringify(bonuses))
+    await setSetting('checkin_makeup_cost', String(makeUpCost))
+    await setSetting('checkin_makeup_days', String(makeUpDays))
+    revalidatePath('/admin/settings')
+    revalidatePath('/profile')
+}
+
+export async function savePointsRewards(input: { cashbackPercent: string; expiryDays: string; reminderDays: string }) {
+    const admin = await checkAdmin('edit_settings')
+    const parse = (raw: string, max: number, label: string) => {
+        const n = Number(String(raw || '').trim() || '0')
+        if (!Number.isInteger(n) || n < 0 || n > max) {
+            throw new Error(`${label} must be a whole number between 0 and ${max}`)
+        }
+        return String(n)
+    }
+    const cashbackPercent = parse(input.cashbackPercent, 100, 'Cashback percent')
+    const expiryDays = parse(input.expiryDays, 3650, 'Expiry days')
+    const reminderDays = parse(input.reminderDays, 365, 'Reminder days')
+    await auditSettings(admin, 'settings.points', {
+        points_cashback_percent: cashbackPercent,
+        points_expiry_days: expiryDays,
+        points_expiry_reminder_days: reminderDays,
+    })
+    await setSetting('points_cashback_percent', cashbackPercent)
+    await setSetting('points_expiry_days', expiryDays)
+    await setSetting('points_expiry_reminder_days', reminderDays)
+    revalidatePath('/admin/settings')
+    revalidatePath('/profile')
+}
+
 export async function saveCheckinEnabled(enabled: boolean) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
+    await auditSettings(admin, 'settings.checkin', { checkin_enabled: enabled ? 'true' : 'false' })
     await setSetting('checkin_enabled', enabled ? 'true' : 'false')
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
@@ -441,7 +736,8 @@ export async function saveCheckinEnabled(enabled: boolean) {
 }
 
 export async function saveNoIndex(enabled: boolean) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
+    await auditSettings(admin, 'settings.seo', { noindex_enabled: enabled ? 'true' : 'false' })
     await setSetting('noindex_enabled', enabled ? 'true' : 'false')
     revalidatePath('/admin/products')
     revalidatePath('/admin/settings')
@@ -451,7 +747,8 @@ export async function saveNoIndex(enabled: boolean) {
 }
 
 export async function saveWishlistEnabled(enabled: boolean) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
+    await auditSettings(admin, 'settings.wishlist', { wishlist_enabled: enabled ? 'true' : 'false' })
     await setSetting('wishlist_enabled', enabled ? 'true' : 'false')
     revalidatePath('/admin/settings')
     revalidatePath('/')
@@ -459,22 +756,24 @@ export async function saveWishlistEnabled(enabled: boolean) {
 }
 
 export async function saveRegistryHideNav(enabled: boolean) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
     const optIn = await getSetting('registry_opt_in')
     const shouldHide = enabled && optIn !== 'true'
+    await auditSettings(admin, 'settings.registry', { registry_hide_nav: shouldHide ? 'true' : 'false' })
     await setSetting('registry_hide_nav', shouldHide ? 'true' : 'false')
     revalidatePath('/admin/settings')
     revalidatePath('/')
 }
 
 export async function saveShopFooter(footer: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
 
     const text = footer.trim()
     if (text.length > 500) {
         throw new Error("Footer text is too long")
     }
 
+    await auditSettings(admin, 'settings.shop', { shop_footer: text })
     await setSetting('shop_footer', text)
     revalidatePath('/admin/settings')
     revalidatePath('/')
@@ -485,12 +784,13 @@ export async function saveShopFooter(footer: string) {
 const VALID_THEME_COLORS = ['purple', 'indigo', 'blue', 'cyan', 'teal', 'green', 'lime', 'amber', 'orange', 'red', 'rose', 'pink', 'black']
 
 export async function saveThemeColor(color: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
 
     if (!VALID_THEME_COLORS.includes(color)) {
         throw new Error("Invalid theme color")
     }
 
+    await auditSettings(admin, 'settings.shop', { theme_color: color })
     await setSetting('theme_color', color)
     revalidatePath('/admin/settings')
     revalidatePath('/')
@@ -499,42 +799,45 @@ export async function saveThemeColor(color: string) {
 }
 
 export async function saveNotificationSettings(formData: FormData) {
-    await checkAdmin()
-
-    const token = (formData.get('telegramBotToken') as string || '').trim()
-    const chatId = (formData.get('telegramChatId') as string || '').trim()
-    const language = (formData.get('telegramLanguage') as string || 'zh').trim()
-
-    await setSetting('telegram_bot_token', token)
-    await setSetting('telegram_chat_id', chatId)
-    await setSetting('telegram_language', language)
-
-    // Email settings
-    const resendApiKey = (formData.get('resendApiKey') as string || '').trim()
-    const resendFromEmail = (formData.get('resendFromEmail') as string || '').trim()
-    const resendFromName = (formData.get('resendFromName') as string || '').trim()
-    const resendEnabled = formData.get('resendEnabled') === 'true'
-    const emailLanguageRaw = (formData.get('emailLanguage') as string || '').trim()
-    const emailLanguage = emailLanguageRaw === 'en' ? 'en' : 'zh'
+    const admin = await checkAdmin('edit_settings')
+
+    // Telegram and other admin channels are managed in actions/admin-notification-channels
+    const text = (key: string) => (formData.get(key) as string || '').trim()
+    const transportRaw = text('emailTransport')
+    const emailTransport = transportRaw === 'smtp' || transportRaw === 'http' ? transportRaw : 'resend'
+    const smtpPort = Number.parseInt(text('smtpPort'), 10)
+    const values = {
+        email_transport: emailTransport,
+        resend_api_key: text('resendApiKey'),
+        resend_from_email: text('resendFromEmail'),
+        resend_from_name: text('resendFromName'),
+        resend_enabled: formData.get('resendEnabled') === 'true' ? 'true' : 'false',
+        email_language: text('emailLanguage') === 'en' ? 'en' : 'zh',
+        smtp_host: text('smtpHost'),
+        smtp_port: Number.isInteger(smtpPort) && smtpPort > 0 && smtpPort < 65536 ? String(smtpPort) : '465',
+        smtp_secure: text('smtpSecure') === 'starttls' ? 'starttls' : 'tls',
+        smtp_username: text('smtpUsername'),
+        smtp_password: text('smtpPassword'),
+        email_http_url: text('emailHttpUrl'),
+        email_http_token: text('emailHttpToken'),
+    }
+    if (values.email_http_url && !/^https?:\/\//i.test(values.email_http_url)) {
+        throw new Error("Mail API URL must start with http:// or https://")
+    }
 
-    await setSetting('resend_api_key', resendApiKey)
-    await setSetting('resend_from_email', resendFromEmail)
-    await setSetting('resend_from_name', resendFromName)
-    await setSetting('resend_enabled', resendEnabled ? 'true' : 'false')
-    await setSetting('email_language', emailLanguage)
+    await auditSettings(admin, 'settings.email', values)
+    for (const [key, value] of Object.entries(values)) {
+        await setSetting(key, value)
+    }
 
     revalidatePath('/admin/notifications')
 }
 
-export async function testNotification() {
-    await checkAdmin()
-    return await sendTelegramMessage("🔔 Test notification from LDC Shop")
-}
-
 export async function testEmailNotification(to: string) {
-    await checkAdmin()
-    const { testResendEmail } = await import("@/lib/email")
-    return await testResendEmail(to)
+    const admin = await checkAdmin('edit_settings')
+    await recordAdminAudit(admin, 'notifications.test', { targetType: 'email', targetId: to })
+    const { sendTestEmail } = await import("@/lib/email")
+    return await sendTestEmail(to)
 }
 
 async function ensureCategoriesTable() {
@@ -552,7 +855,7 @@ async function ensureCategoriesTable() {
 }
 
 export async function saveCategory(formData: FormData) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
     await ensureCategoriesTable()
 
     const idRaw = formData.get('id') as string | null
@@ -568,6 +871,12 @@ export async function saveCategory(formData: FormData) {
         await db.insert(categories).values({ name, icon, sortOrder, updatedAt: new Date() })
     }
 
+    await recordAdminAudit(admin, idRaw ? 'categories.update' : 'categories.create', {
+        targetType: 'category',
+        targetId: idRaw || name,
+        details: { name, icon, sortOrder }
+    })
+
     revalidatePath('/admin/categories')
     revalidatePath('/')
     updateTag('home:categories')
@@ -576,9 +885,10 @@ export async function saveCategory(formData: FormData) {
 }
 
 export async function deleteCategory(id: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
     await ensureCategoriesTable()
     await db.delete(categories).where(eq(categories.id, id))
+    await recordAdminAudit(admin, 'categories.delete', { targetType: 'category', targetId: id })
     revalidatePath('/admin/categories')
     revalidatePath('/')
     updateTag('home:categories')
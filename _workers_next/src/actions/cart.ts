@@ -0,0 +1,115 @@
+'use server'
+
+import { auth } from "@/lib/auth"
+import { db } from "@/lib/db"
+import { products } from "@/lib/db/schema"
+import { addCartItem, clearCartItems, getCartItems, getProductVariants, mergeGuestCart, setCartItemQuantity, type CartOwner } from "@/lib/db/queries"
+import { CART_COOKIE, MAX_CART_LINES } from "@/lib/cart"
+import { isWithinPublishWindow } from "@/lib/flash-sale"
+import { eq } from "drizzle-orm"
+import { cookies } from "next/headers"
+import { revalidatePath } from "next/cache"
+
+const CART_COOKIE_MAX_AGE = 30 * 24 * 60 * 60
+
+async function resolveCartOwner(createGuestSession = false): Promise<CartOwner> {
+    const session = await auth()
+    const userId = session?.user?.id || null
+    const cookieStore = await cookies()
+    let sessionId = cookieStore.get(CART_COOKIE)?.value || null
+
+    if (userId && sessionId) {
+        try {
+            await mergeGuestCart(sessionId, userId)
+            cookieStore.delete(CART_COOKIE)
+        } catch {
+            // best effort, guest items stay on the cookie cart
+        }
+        sessionId = null
+    }
+
+    if (!userId && !sessionId && createGuestSession) {
+        sessionId = crypto.randomUUID()
+        cookieStore.set(CART_COOKIE, sessionId, {
+            path: '/',
+            sameSite: 'lax',
+            secure: true,
+            httpOnly: true,
+            maxAge: CART_COOKIE_MAX_AGE
+        })
+    }
+
+    return { userId, sessionId }
+}
+
+export async function getCart() {
+    const owner = await resolveCartOwner()
+    return await getCartItems(owner)
+}
+
+export async function addToCart(productId: string, quantity: number = 1) {
+    const qty = Number(quantity)
+    if (!Number.isInteger(qty) || qty <= 0) {
+        return { success: false, error: 'buy.invalidQuantity' }
+    }
+
+    const product = await db.query.products.findFirst({
+        where: eq(products.id, productId),
+        columns: { id: true, isActive: true, fulfillmentType: true, purchaseLimit: true, publishAt: true, unpublishAt: true }
+    })
+    if (!product || product.isActive === false || !isWithinPublishWindow(product)) return { success: false, error: 'buy.productNotFound' }
+    if (product.fulfillmentType === 'siyuan_token') return { success: false, error: 'cart.notSupported' }
+    // Each variant has its own price and card pool; those are bought one at a time
+    if ((await getProductVariants(productId, { activeOnly: true })).length) return { success: false, error: 'cart.variantUnsupported' }
+
+    const owner = await resolveCartOwner(true)
+    const items = await getCartItems(owner)
+    const existing = items.find((item) => item.productId === productId)
+
+    if (!existing && items.length >= MAX_CART_LINES) {
+        return { success: false, error: 'cart.tooManyItems' }
+    }
+    const purchaseLimit = product.purchaseLimit && product.purchaseLimit > 0 ? product.purchaseLimit : null
+    if (purchaseLimit && (existing?.quantity || 0) + qty > purchaseLimit) {
+        return { success: false, error: 'buy.limitExceeded' }
+    }
+
+    await addCartItem(owner, productId, qty)
+    revalidatePath('/cart')
+    return { success: true }
+}
+
+export async function updateCartItem(itemId: number, quantity: number) {
+    const qty = Number(quantity)
+    if (!Number.isInteger(qty) || qty < 0) {
+        return { success: false, error: 'buy.invalidQuantity' }
+    }
+
+    const owner = await resolveCartOwner()
+    const items = await getCartItems(owner)
+    const item = items.find((row) => row.id === itemId)
+    if (!item) return { success: false, error: 'cart.itemNotFound' }
+
+    const purchaseLimit = item.purchaseLimit && item.purchaseLimit > 0 ? item.purchaseLimit : null
+    if (purchaseLimit && qty > purchaseLimit) {
+        return { success: false, error: 'buy.limitExceeded' }
+    }
+
+    await setCartItemQuantity(owner, itemId, qty)
+    revalidatePath('/cart')
+    return { success: true }
+}
+
+export async function removeFromCart(itemId: number) {
+    const owner = await resolveCartOwner()
+    await setCartItemQuantity(owner, itemId, 0)
+    revalidatePath('/cart')
+    return { success: true }
+}
+
+export async function clearCart() {
+    const owner = await resolveCartOwner()
+    await clearCartItems(owner)
+    revalidatePath('/cart')
+    return { success: true }
+}
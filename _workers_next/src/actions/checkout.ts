@@ -2,9 +2,10 @@
 
 import { auth } from "@/lib/auth"
 import { db } from "@/lib/db"
-import { products, cards, orders, loginUsers } from "@/lib/db/schema"
-import { cancelExpiredOrders, cleanupExpiredCardsIfNeeded, recalcProductAggregates, getLoginUserEmail, createUserNotification } from "@/lib/db/queries"
-import { generateOrderId, generateSign } from "@/lib/crypto"
+import { products, cards, orders, orderItems, loginUsers } from "@/lib/db/schema"
+import { cancelExpiredOrders, cleanupExpiredCardsIfNeeded, recalcProductAggregates, recalcProductAggregatesForMany, getLoginUserEmail, createUserNotification, getCartItems, getLiveCardStats, clearCartItems, getProductVariants, getProductPriceTiers, getFlashSales, syncProductScheduleIfNeeded } from "@/lib/db/queries"
+import { generateOrderId } from "@/lib/crypto"
+import { decryptCardKeys, encryptCardKey } from "@/lib/card-crypto"
 import { eq, sql, and, or, isNull, lt, gt } from "drizzle-orm"
 import { cookies } from "next/headers"
 import { updateTag } from "next/cache"
@@ -13,10 +14,206 @@ import { notifyAdminPaymentSuccess, notifyAdminFulfillmentFailed } from "@/lib/n
 import { sendOrderEmail } from "@/lib/email"
 import { INFINITE_STOCK, RESERVATION_TTL_MS } from "@/lib/constants"
 import { generateSiyuanShareToken, isSiyuanShareConfigured, SiyuanShareUserNotFoundError } from "@/lib/siyuan-share"
+import { CART_COOKIE, CART_PRODUCT_ID } from "@/lib/cart"
+import { getActivePaymentProviderId, getOrderPaymentProvider, getPaymentProvider } from "@/lib/payment-providers"
+import { claimCouponUse, normalizeCouponCode, quoteCoupon, recordCouponRedemption, releaseCouponForOrder, unclaimCouponUse, type CouponQuote } from "@/lib/coupons"
+import { processOrderFulfillment, rewardOrderDelivery } from "@/lib/order-processing"
+import { tieredTotal } from "@/lib/pricing"
+import { isWithinPublishWindow } from "@/lib/flash-sale"
+import { getActiveMemberDiscounts, getMemberContext, pickMemberDiscount, quoteMemberDiscount, type MemberDiscountQuote } from "@/lib/member-discounts"
+import { changePoints, expireUserPoints } from "@/lib/points"
+import { deleteOrderEvents, gatewayActor, recordOrderCreated, systemActor, transitionOrderStatus, userActor } from "@/lib/order-status"
 
 const MAX_ORDER_QUANTITY = 10000
 
-export async function createOrder(productId: string, quantity: number = 1, email?: string, usePoints: boolean = false) {
+/**
+ * Reserve `quantity` unused cards of a product for an order. Free cards are claimed
+ * first; expired reservations are only taken over once their order is confirmed unpaid.
+ * With a variantId only that variant's pool is used.
+ * Throws `stock_locked` when not enough cards could be reserved.
+ */
+async function reserveCards(productId: string, orderId: string, quantity: number, variantId?: number | null) {
+    const reservedCards: { id: number, key: string }[] = []
+    const hasVariant = variantId !== null && variantId !== undefined
+    const variantFilter = hasVariant ? sql`AND variant_id = ${variantId}` : sql``
+
+    for (let i = 0; i < quantity; i++) {
+        let attempts = 0
+        const maxAttempts = 3
+        let success = false
+
+        while (attempts < maxAttempts && !success) {
+            attempts++
+
+            // A. Try strictly free card (single atomic UPDATE ... RETURNING)
+            const nowMs = Date.now();
+            const claimResult: any = await db.run(sql`
+                UPDATE cards
+                SET reserved_order_id = ${orderId}, reserved_at = ${nowMs}
+                WHERE id = (
+                    SELECT id FROM cards
+                    WHERE product_id = ${productId}
+                      AND (is_used = 0 OR is_used IS NULL)
+                      AND reserved_at IS NULL
+                      AND (expires_at IS NULL OR expires_at > ${nowMs})
+                      ${variantFilter}
+                    LIMIT 1
+                )
+                RETURNING id, card_key
+            `);
+
+            const claimedRows = claimResult?.results || claimResult?.rows || [];
+            if (claimedRows.length > 0) {
+                const row = claimedRows[0];
+                const id = Number(row.id);
+                const key = row.card_key ?? row.cardKey;
+                reservedCards.push({ id, key });
+                success = true;
+                continue;
+            }
+
+            // B. Fallback: Expired reservation
+            const fiveMinutesAgo = new Date(Date.now() - RESERVATION_TTL_MS);
+            const nowMsExpired = Date.now();
+            const expiredCandidates = await db.select({
+                id: cards.id,
+                cardKey: cards.cardKey,
+                reservedOrderId: cards.reservedOrderId
+            })
+                .from(cards)
+                .where(and(
+                    eq(cards.productId, productId),
+                    hasVariant ? eq(cards.variantId, variantId!) : undefined,
+                    or(eq(cards.isUsed, false), isNull(cards.isUsed)),
+                    lt(cards.reservedAt, fiveMinutesAgo),
+                    or(isNull(cards.expiresAt), gt(cards.expiresAt, new Date(nowMsExpired)))
+                ))
+                .limit(1);
+
+            if (expiredCandidates.length === 0) {
+                break
+            }
+
+            const candidate = expiredCandidates[0]
+            const candidateCardId = candidate.id
+            const candidateOrderId = candidate.reservedOrderId
+
+            let isPaid = false
+            let paidVia: string | null = null
+            try {
+                if (candidateOrderId) {
+                    const provider = await getOrderPaymentProvider(candidateOrderId)
+                    const statusRes = await provider.queryStatus(candidateOrderId)
+                    if (statusRes.success && statusRes.status === 1) {
+                        isPaid = true
+                        paidVia = provider.id
+                    }
+                }
+            } catch {
+                // ignore
+            }
+
+            if (isPaid) {
+                await db.update(cards)
+                    .set({ isUsed: true, usedAt: new Date() })
+                    .where(eq(cards.id, candidateCardId));
+                await transitionOrderStatus(candidateOrderId!, 'paid', {
+                    actor: gatewayActor(paidVia),
+                    reason: 'Payment confirmed while reclaiming its expired reservation',
+                    from: ['pending'],
+                    set: { paidAt: new Date() }
+                });
+                continue
+            } else {
+                // Steal the expired card only if it is still expired and unchanged
+                const now = new Date();
+                const updated = await db.update(cards)
+                    .set({ reservedOrderId: orderId, reservedAt: now })
+                    .where(and(
+                        eq(cards.id, candidateCardId),
+                        or(eq(cards.isUsed, false), isNull(cards.isUsed)),
+                        lt(cards.reservedAt, fiveMinutesAgo),
+                        candidateOrderId
+                            ? eq(cards.reservedOrderId, candidateOrderId)
+                            : isNull(cards.reservedOrderId)
+                    ))
+                    .returning({ id: cards.id, cardKey: cards.cardKey });
+
+                if (updated.length > 0) {
+                    reservedCards.push({ id: updated[0].id, key: updated[0].cardKey });
+                    success = true;
+                }
+            }
+        } // end while
+
+        if (!success) {
+            throw new Error('stock_locked')
+        }
+    } // end for
+
+    return reservedCards
+}
+
+async function releaseReservedCards(orderId: string) {
+    await db.update(cards)
+        .set({ reservedOrderId: null, reservedAt: null })
+        .where(and(eq(cards.reservedOrderId, orderId), or(isNull(cards.isUsed), eq(cards.isUsed, false))))
+}
+
+// With a variantId only that variant's orders count; cart orders never carry a variant
+async function getPurchasedQuantity(productId: string, userId?: string | null, email?: string | null, variantId?: number | null) {
+    const userConditions = []
+    if (userId) userConditions.push(eq(orders.userId, userId))
+    if (email) userConditions.push(eq(orders.email, email))
+    if (userConditions.length === 0) return 0
+
+    const countResult = await db.select({
+        totalQuantity: sql<number>`coalesce(sum(${orders.quantity} - coalesce(${orders.refundedQuantity}, 0)), count(*))`
+    })
+        .from(orders)
+        .where(and(
+            eq(orders.productId, productId),
+            variantId ? eq(orders.variantId, variantId) : undefined,
+            or(...userConditions),
+            or(eq(orders.status, 'paid'), eq(orders.status, 'delivered'), eq(orders.status, 'partially_refunded'))
+        ))
+    let total = Number(countResult[0]?.totalQuantity || 0)
+    if (variantId) return total
+
+    // Units bought through cart orders
+    try {
+        const itemResult = await db.select({
+            totalQuantity: sql<number>`coalesce(sum(${orderItems.quantity} - coalesce(${orderItems.refundedQuantity}, 0)), 0)`
+        })
+            .from(orderItems)
+            .innerJoin(orders, eq(orderItems.orderId, orders.orderId))
+            .where(and(
+                eq(orderItems.productId, productId),
+                or(...userConditions),
+                or(eq(orders.status, 'paid'), eq(orders.status, 'delivered'), eq(orders.status, 'partially_refunded'))
+            ))
+        total += Number(itemResult[0]?.totalQuantity || 0)
+    } catch {
+        // order_items may not exist yet
+    }
+
+    return total
+}
+
+// Member discount of each cart line, keyed by product id
+async function quoteCartMemberDiscounts(items: { productId: string; price: string; quantity: number }[], user?: { id?: string | null; trustLevel?: unknown } | null) {
+    const quotes = new Map<string, MemberDiscountQuote>()
+    const member = await getMemberContext(user)
+    if (!member) return quotes
+    const rules = await getActiveMemberDiscounts()
+    for (const item of items) {
+        const quote = quoteMemberDiscount(pickMemberDiscount(rules, item.productId, member), Number(item.price) * Number(item.quantity))
+        if (quote) quotes.set(item.productId, quote)
+    }
+    return quotes
+}
+
+export async function createOrder(productId: string, quantity: number = 1, email?: string, usePoints: boolean = false, couponCode?: string, variantId?: number | null) {
     const session = await auth()
     const user = session?.user
     const normalizedQuantity = Number(quantity)
@@ -28,7 +225,7 @@ export async function createOrder(productId: string, quantity: number = 1, email
     quantity = normalizedQuantity
 
     // 1. Get Product
-    const product = await db.query.products.findFirst({
+    const baseProduct = await db.query.products.findFirst({
         where: eq(products.id, productId),
         columns: {
             id: true,
@@ -36,10 +233,38 @@ export async function createOrder(productId: string, quantity: number = 1, email
             price: true,
             purchaseLimit: true,
             isShared: true,
-            fulfillmentType: true
+            fulfillmentType: true,
+            category: true,
+            publishAt: true,
+            unpublishAt: true,
+            salePrice: true,
+            saleStartsAt: true,
+            saleEndsAt: true,
+            saleQuantity: true
         }
     })
-    if (!product) return { success: false, error: 'buy.productNotFound' }
+    if (!baseProduct || !isWithinPublishWindow(baseProduct)) return { success: false, error: 'buy.productNotFound' }
+
+    // Products with active variants must be bought as one of them
+    const activeVariants = await getProductVariants(productId, { activeOnly: true })
+    const variant = activeVariants.length
+        ? activeVariants.find((v) => v.id === Number(variantId)) || null
+        : null
+    if (activeVariants.length && !variant) {
+        return { success: false, error: variantId ? 'buy.variantNotFound' : 'buy.variantRequired' }
+    }
+
+    // The variant's price, limit and label stand in for the product's from here on
+    const variantLimit = variant?.purchaseLimit && variant.purchaseLimit > 0 ? variant.purchaseLimit : null
+    const product = variant
+        ? {
+            ...baseProduct,
+            name: `${baseProduct.name} - ${variant.name}`,
+            price: variant.price,
+            purchaseLimit: variantLimit ?? baseProduct.purchaseLimit
+        }
+        : baseProduct
+    const variantCardFilter = variant ? eq(cards.variantId, variant.id) : undefined
 
     const purchaseLimit = product.purchaseLimit && product.purchaseLimit > 0 ? product.purchaseLimit : null
     const maxQuantity = purchaseLimit ?? MAX_ORDER_QUANTITY
@@ -71,11 +296,49 @@ export async function createOrder(productId: string, quantity: number = 1, email
         // Best effort cleanup
     }
 
+    try {
+        await syncProductScheduleIfNeeded()
+    } catch {
+        // Best effort cache refresh
+    }
+
+    // A running flash sale replaces the price and volume tiers for its remaining units
+    const flashSale = variant ? null : (await getFlashSales([baseProduct])).get(productId) || null
+    const onFlashSale = flashSale?.status === 'active'
+    if (onFlashSale && flashSale.remaining !== null && quantity > flashSale.remaining) {
+        return { success: false, error: 'buy.flashSaleRemaining' }
+    }
+
     // Points Calculation
     let pointsToUse = 0
-    let finalAmount = Number(product.price) * quantity
+    // Volume tiers apply to the product price; a variant's price is used as-is
+    const priceTiers = variant || onFlashSale ? [] : await getProductPriceTiers(productId)
+    let finalAmount = tieredTotal(onFlashSale ? flashSale.price : product.price, priceTiers, quantity)
+
+    // Member pricing (trust level / user tag) is applied before coupons
+    const memberRule = pickMemberDiscount(await getActiveMemberDiscounts(), productId, await getMemberContext(user))
+    const memberQuote = quoteMemberDiscount(memberRule, finalAmount)
+    if (memberQuote) {
+        finalAmount = Math.max(0, Number((finalAmount - memberQuote.discount).toFixed(2)))
+    }
+
+    // Coupon is applied before points
+    let couponQuote: CouponQuote | null = null
+    if (normalizeCouponCode(couponCode)) {
+        const quoted = await quoteCoupon({
+            code: couponCode!,
+            lines: [{ productId, category: product.category, amount: finalAmount }],
+            userId: user?.id,
+            email: email || user?.email
+        })
+        if (!quoted.success) return { success: false, error: quoted.error }
+        if (usePoints && !quoted.quote.allowPoints) return { success: false, error: 'coupon.pointsNotAllowed' }
+        couponQuote = quoted.quote
+        finalAmount = Math.max(0, Number((finalAmount - couponQuote.discount).toFixed(2)))
+    }
 
     if (usePoints && user?.id) {
+        await expireUserPoints(user.id)
         const userRec = await db.query.loginUsers.findFirst({
             where: eq(loginUsers.userId, user.id),
             columns: { points: true }
@@ -90,6 +353,7 @@ export async function createOrder(productId: string, quantity: number = 1, email
     }
 
     const isZeroPrice = finalAmount <= 0
+    const paymentProviderId = await getActivePaymentProviderId()
     const profileEmail = (!email && user?.id) ? await getLoginUserEmail(user.id) : null
     const resolvedEmail = email || profileEmail || user?.email || null
 
@@ -108,6 +372,7 @@ export async function createOrder(productId: string, quantity: number = 1, email
                 .from(cards)
                 .where(and(
                     eq(cards.productId, productId),
+                    variantCardFilter,
                     or(isNull(cards.isUsed), eq(cards.isUsed, false))
                 ));
             // If we have at least 1 card, treat as infinite stock
@@ -119,6 +384,7 @@ export async function createOrder(productId: string, quantity: number = 1, email
             .from(cards)
             .where(and(
                 eq(cards.productId, productId),
+                variantCardFilter,
                 or(isNull(cards.isUsed), eq(cards.isUsed, false)),
                 or(isNull(cards.reservedAt), lt(cards.reservedAt, new Date(Date.now() - RESERVATION_TTL_MS)))
             ))
@@ -131,32 +397,9 @@ export async function createOrder(productId: string, quantity: number = 1, email
 
     // 3. Check Purchase Limit
     if (product.purchaseLimit && product.purchaseLimit > 0) {
-        const currentUserId = user?.id
-        const currentUserEmail = email || user?.email
-
-        if (currentUserId || currentUserEmail) {
-            const conditions = [eq(orders.productId, productId)]
-            const userConditions = []
-
-            if (currentUserId) userConditions.push(eq(orders.userId, currentUserId))
-            if (currentUserEmail) userConditions.push(eq(orders.email, currentUserEmail))
-
-            if (userConditions.length > 0) {
-                const countResult = await db.select({
-                    totalQuantity: sql<number>`coalesce(sum(${orders.quantity}), count(*))`
-                })
-                    .from(orders)
-                    .where(and(
-                        eq(orders.productId, productId),
-                        or(...userConditions),
-                        or(eq(orders.status, 'paid'), eq(orders.status, 'delivered'))
-                    ))
-
-                const existingCount = countResult[0]?.totalQuantity || 0
-                if (existingCount + quantity > product.purchaseLimit) {
-                    return { success: false, error: 'buy.limitExceeded' }
-                }
-            }
+        const existingCount = await getPurchasedQuantity(productId, user?.id, email || user?.email, variantLimit ? variant!.id : null)
+        if (existingCount + quantity > product.purchaseLimit) {
+            return { success: false, error: 'buy.limitExceeded' }
         }
     }
 
@@ -164,8 +407,6 @@ export async function createOrder(productId: string, quantity: number = 1, email
     const orderId = generateOrderId()
 
     const reserveAndCreate = async () => {
-        const { queryOrderStatus } = await import("@/lib/epay")
-
         const reservedCards: { id: number, key: string }[] = []
 
         // Dynamic fulfillment (siyuan_token): NO card reservation needed
@@ -189,6 +430,7 @@ export async function createOrder(productId: string, quantity: number = 1, email
                 .from(cards)
                 .where(and(
                     eq(cards.productId, productId),
+                    variantCardFilter,
                     or(isNull(cards.isUsed), eq(cards.isUsed, false)),
                     or(isNull(cards.expiresAt), gt(cards.expiresAt, new Date(nowMs)))
                 ))
@@ -207,114 +449,11 @@ export async function createOrder(productId: string, quantity: number = 1, email
             // We do NOT update DB to reserve.
         } else {
             // Normal Product Reservation Logic
-            for (let i = 0; i < quantity; i++) {
-                let attempts = 0
-                const maxAttempts = 3
-                let success = false
-
-                while (attempts < maxAttempts && !success) {
-                    attempts++
-
-                    // A. Try strictly free card (single atomic UPDATE ... RETURNING)
-                    const nowMs = Date.now();
-                    const claimResult: any = await db.run(sql`
-                        UPDATE cards
-                        SET reserved_order_id = ${orderId}, reserved_at = ${nowMs}
-                        WHERE id = (
-                            SELECT id FROM cards
-                            WHERE product_id = ${productId}
-                              AND (is_used = 0 OR is_used IS NULL)
-                              AND reserved_at IS NULL
-                              AND (expires_at IS NULL OR expires_at > ${nowMs})
-                            LIMIT 1
-                        )
-                        RETURNING id, card_key
-                    `);
-
-                    const claimedRows = claimResult?.results || claimResult?.rows || [];
-                    if (claimedRows.length > 0) {
-                        const row = claimedRows[0];
-                        const id = Number(row.id);
-                        const key = row.card_key ?? row.cardKey;
-                        reservedCards.push({ id, key });
-                        success = true;
-                        continue;
-                    }
-
-                    // B. Fallback: Expired reservation
-                    const fiveMinutesAgo = new Date(Date.now() - RESERVATION_TTL_MS);
-                    const nowMsExpired = Date.now();
-                    const expiredCandidates = await db.select({
-                        id: cards.id,
-                        cardKey: cards.cardKey,
-                        reservedOrderId: cards.reservedOrderId
-                    })
-                        .from(cards)
-                        .where(and(
-                            eq(cards.productId, productId),
-                            or(eq(cards.isUsed, false), isNull(cards.isUsed)),
-                            lt(cards.reservedAt, fiveMinutesAgo),
-                            or(isNull(cards.expiresAt), gt(cards.expiresAt, new Date(nowMsExpired)))
-                        ))
-                        .limit(1);
-
-                    if (expiredCandidates.length === 0) {
-                        break
-                    }
-
-                    const candidate = expiredCandidates[0]
-                    const candidateCardId = candidate.id
-                    const candidateOrderId = candidate.reservedOrderId
-
-                    let isPaid = false
-                    try {
-                        if (candidateOrderId) {
-                            const statusRes = await queryOrderStatus(candidateOrderId)
-                            if (statusRes.success && statusRes.status === 1) {
-                                isPaid = true
-                            }
-                        }
-                    } catch {
-                        // ignore
-                    }
-
-                    if (isPaid) {
-                        await db.update(cards)
-                            .set({ isUsed: true, usedAt: new Date() })
-                            .where(eq(cards.id, candidateCardId));
-                        await db.update(orders)
-                            .set({ status: 'paid', paidAt: new Date() })
-                            .where(and(eq(orders.orderId, candidateOrderId!), eq(orders.status, 'pending')));
-                        continue
-                    } else {
-                        // Steal the expired card only if it is still expired and unchanged
-                        const now = new Date();
-                        const updated = await db.update(cards)
-                            .set({ reservedOrderId: orderId, reservedAt: now })
-                            .where(and(
-                                eq(cards.id, candidateCardId),
-                                or(eq(cards.isUsed, false), isNull(cards.isUsed)),
-                                lt(cards.reservedAt, fiveMinutesAgo),
-                                candidateOrderId
-                                    ? eq(cards.reservedOrderId, candidateOrderId)
-                                    : isNull(cards.reservedOrderId)
-                            ))
-                            .returning({ id: cards.id, cardKey: cards.cardKey });
-
-                        if (updated.length > 0) {
-                            reservedCards.push({ id: updated[0].id, key: updated[0].cardKey });
-                            success = true;
-                        }
-                    }
-                } // end while
-
-                if (!success) {
-                    throw new Error('stock_locked')
-                }
-            } // end for
+            reservedCards.push(...await reserveCards(productId, orderId, quantity, variant?.id))
         }
 
-        const joinedKeys = reservedCards.map(c => c.key).join('\n')
+        // Only zero-price orders deliver right away; paid ones get their keys at fulfillment
+        const joinedKeys = isZeroPrice ? (await decryptCardKeys(reservedCards.map(c => c.key))).join('\n') : ''
 
         await createOrderRecord(reservedCards, joinedKeys, isZeroPrice, pointsToUse, finalAmount, user, session?.user?.name, email, product, orderId, quantity)
     };
@@ -325,12 +464,13 @@ export async function createOrder(productId: string, quantity: number = 1, email
 
         try {
             if (pointsToUse > 0) {
-                const updatedUser = await db.update(loginUsers)
-                    .set({ points: sql`${loginUsers.points} - ${pointsToUse}` })
-                    .where(and(eq(loginUsers.userId, user!.id!), sql`${loginUsers.points} >= ${pointsToUse}`))
-                    .returning({ points: loginUsers.points });
+                const balance = await changePoints(user!.id!, -pointsToUse, {
+                    reason: 'order_payment',
+                    orderId,
+                    actor: userActor(username || user?.username)
+                }, { requireBalance: true });
 
-                if (!updatedUser.length) {
+                if (balance === null) {
                     throw new Error('insufficient_points');
                 }
 
@@ -382,21 +522,32 @@ export async function createOrder(productId: string, quantity: number = 1, email
                     orderId,
                     productId: product.id,
                     productName: product.name,
+                    variantId: variant?.id ?? null,
+                    variantName: variant?.name ?? null,
+                    memberDiscount: memberQuote ? memberQuote.discount.toFixed(2) : null,
+                    memberDiscountRule: memberQuote?.label ?? null,
                     amount: finalAmount.toString(),
                     email: resolvedEmail,
                     userId: user?.id || null,
                     username: username || user?.username || null,
                     status: orderStatus,
-                    cardKey: finalCardKeys || null,
+                    cardKey: await encryptCardKey(finalCardKeys || null),
                     cardIds: isDynamic ? null : cardIdsValue,
                     paidAt: new Date(),
                     deliveredAt: orderStatus === 'delivered' ? new Date() : null,
                     tradeNo: 'POINTS_REDEMPTION',
                     pointsUsed: pointsToUse,
                     quantity: qty,
+                    couponCode: couponQuote?.code || null,
+                    discountAmount: couponQuote ? couponQuote.discount.toFixed(2) : null,
                     createdAt: new Date()
                 });
                 orderInserted = true
+                await recordOrderCreated(orderId, orderStatus, userActor(username || user?.username), 'Paid with points');
+                // Same post-delivery rewards as a paid order; dynamic orders get them once the token exists
+                if (orderStatus === 'delivered') {
+                    await rewardOrderDelivery({ orderId, userId: user?.id || null, username: username || user?.username || null, amount: finalAmount.toString() }, userActor(username || user?.username));
+                }
 
                 // For dynamic products, generate token in background
                 if (isDynamic && user?.id) {
@@ -416,13 +567,12 @@ export async function createOrder(productId: string, quantity: number = 1, email
                             });
                             const generatedKeys = tokens.join('\n');
 
-                            await db.update(orders)
-                                .set({
-                                    status: 'delivered',
-                                    deliveredAt: new Date(),
-                                    cardKey: generatedKeys
-                                })
-                                .where(eq(orders.orderId, orderId));
+                            const { changed } = await transitionOrderStatus(orderId, 'delivered', {
+                                actor: systemActor,
+                                reason: 'Share token generated',
+                                set: { deliveredAt: new Date(), cardKey: await encryptCardKey(generatedKeys) }
+                            });
+                            if (changed) await rewardOrderDelivery({ orderId, userId, username: userUsername, amount: finalAmount.toString() }, systemActor);
 
                             console.log(`[Checkout] Async token generation success for order ${orderId}`);
 
@@ -466,9 +616,12 @@ export async function createOrder(productId: string, quantity: number = 1, email
                             let refundedPoints = false;
                             if (orderPointsUsed > 0) {
                                 try {
-                                    await db.update(loginUsers)
-                                        .set({ points: sql`${loginUsers.points} + ${orderPointsUsed}` })
-                                        .where(eq(loginUsers.userId, userId));
+                                    await changePoints(userId, orderPointsUsed, {
+                                        reason: 'order_refund',
+                                        orderId,
+                                        actor: systemActor,
+                                        note: 'Share token generation failed'
+                                    });
                                     refundedPoints = true;
                                     console.log(`[Checkout] Refunded ${orderPointsUsed} points for order ${orderId}`);
                                 } catch (e) {
@@ -477,9 +630,11 @@ export async function createOrder(productId: string, quantity: number = 1, email
                             }
 
                             // Mark order as refunded
-                            await db.update(orders)
-                                .set({ status: 'refunded' })
-                                .where(eq(orders.orderId, orderId));
+                            await transitionOrderStatus(orderId, 'refunded', {
+                                actor: systemActor,
+                                reason: `Share token generation failed: ${err.message}`
+                            });
+                            await releaseCouponForOrder(orderId);
 
                             // Notify admin
                             await notifyAdminFulfillmentFailed({
@@ -548,6 +703,10 @@ export async function createOrder(productId: string, quantity: number = 1, email
                     orderId,
                     productId: product.id,
                     productName: product.name,
+                    variantId: variant?.id ?? null,
+                    variantName: variant?.name ?? null,
+                    memberDiscount: memberQuote ? memberQuote.discount.toFixed(2) : null,
+                    memberDiscountRule: memberQuote?.label ?? null,
                     amount: finalAmount.toString(),
                     email: resolvedEmail,
                     userId: user?.id || null,
@@ -555,18 +714,20 @@ export async function createOrder(productId: string, quantity: number = 1, email
                     status: 'pending',
                     pointsUsed: pointsToUse,
                     currentPaymentId: orderId, // Store current payment ID
+                    paymentProvider: paymentProviderId,
                     cardIds: cardIdsValue,
                     quantity: qty,
+                    couponCode: couponQuote?.code || null,
+                    discountAmount: couponQuote ? couponQuote.discount.toFixed(2) : null,
                     createdAt: new Date()
                 });
                 orderInserted = true
+                await recordOrderCreated(orderId, 'pending', userActor(username || user?.username));
             }
         } catch (error) {
             if (pointsDeducted && !orderInserted && user?.id) {
                 try {
-                    await db.update(loginUsers)
-                        .set({ points: sql`${loginUsers.points} + ${pointsToUse}` })
-                        .where(eq(loginUsers.userId, user.id))
+                    await changePoints(user.id, pointsToUse, { reason: 'order_rollback', orderId, actor: systemActor })
                 } catch {
                     // Best effort rollback
                 }
@@ -575,8 +736,25 @@ export async function createOrder(productId: string, quantity: number = 1, email
         }
     }
 
+    if (couponQuote && !(await claimCouponUse(couponQuote.couponId))) {
+        return { success: false, error: 'coupon.exhausted' }
+    }
+
     try {
         await reserveAndCreate();
+        if (couponQuote) {
+            try {
+                await recordCouponRedemption({
+                    couponId: couponQuote.couponId,
+                    orderId,
+                    userId: user?.id,
+                    email: resolvedEmail,
+                    discount: couponQuote.discount
+                })
+            } catch (error) {
+                console.error('[Checkout] Coupon redemption record failed:', error)
+            }
+        }
         try {
             await recalcProductAggregates(productId)
         } catch {
@@ -588,11 +766,18 @@ export async function createOrder(productId: string, quantity: number = 1, email
             // best effort
         }
     } catch (error: any) {
+        if (couponQuote) {
+            try {
+                await unclaimCouponUse(couponQuote.couponId)
+            } catch {
+                // best effort
+            }
+        }
         if (error?.message === 'stock_locked') {
             return { success: false, error: 'buy.stockLocked' };
         }
         if (error?.message === 'insufficient_points') {
-            return { success: false, error: 'Points mismatch, please try again.' };
+            return { success: false, error: 'buy.pointsMismatch' };
         }
         if (error instanceof SiyuanShareUserNotFoundError) {
             return { success: false, error: error.message };
@@ -604,7 +789,7 @@ export async function createOrder(productId: string, quantity: number = 1, email
             return { success: false, error: '服务暂不可用，请联系管理员' };
         }
         console.error('[Checkout] Unexpected error:', error);
-        return { success: false, error: '购买失败，请稍后重试' };
+        return { success: false, error: 'buy.purchaseFailed' };
     }
 
     if (isZeroPrice) {
@@ -618,24 +803,18 @@ export async function createOrder(productId: string, quantity: number = 1, email
     const cookieStore = await cookies()
     cookieStore.set('ldc_pending_order', orderId, { secure: true, path: '/', sameSite: 'lax' })
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
-    const payParams: Record<string, any> = {
-        pid: process.env.MERCHANT_ID!,
-        type: 'epay',
-        out_trade_no: orderId,
-        notify_url: `${baseUrl}/api/notify`,
-        return_url: `${baseUrl}/callback/${orderId}`,
+    const provider = await getPaymentProvider(paymentProviderId)
+    const payment = provider.createPayment({
+        outTradeNo: orderId,
+        orderId,
         name: product.name,
-        money: Number(finalAmount).toFixed(2),
-        sign_type: 'MD5'
-    }
-
-    payParams.sign = generateSign(payParams, process.env.MERCHANT_KEY!)
+        money: Number(finalAmount).toFixed(2)
+    })
 
     return {
         success: true,
-        url: process.env.PAY_URL || 'https://credit.linux.do/epay/pay/submit.php',
-        params: payParams
+        url: payment.url,
+        params: payment.params
     }
 }
 
@@ -652,30 +831,353 @@ export async function getRetryPaymentParams(orderId: string) {
     if (!order) return { success: false, error: 'buy.productNotFound' }
     if (order.status !== 'pending') return { success: false, error: 'order.status.paid' }
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
-
     const uniqueTradeNo = `${order.orderId}_retry${Date.now()}`;
 
     await db.update(orders)
         .set({ currentPaymentId: uniqueTradeNo })
         .where(eq(orders.orderId, orderId))
 
-    const payParams: Record<string, any> = {
-        pid: process.env.MERCHANT_ID!,
-        type: 'epay',
-        out_trade_no: uniqueTradeNo,
-        notify_url: `${baseUrl}/api/notify`,
-        return_url: `${baseUrl}/callback/${order.orderId}`,
+    // Retry through the gateway the order was created with
+    const provider = await getPaymentProvider(order.paymentProvider)
+    const payment = provider.createPayment({
+        outTradeNo: uniqueTradeNo,
+        orderId: order.orderId,
         name: order.productName,
-        money: Number(order.amount).toFixed(2),
-        sign_type: 'MD5'
+        money: Number(order.amount).toFixed(2)
+    })
+
+    return {
+        success: true,
+        url: payment.url,
+        params: payment.params
     }
+}
 
-    payParams.sign = generateSign(payParams, process.env.MERCHANT_KEY!)
+/**
+ * Check a coupon code before placing the order so the dialog can show the discount.
+ * Pass a productId for a single-product purchase, or omit it to quote the current cart.
+ */
+export async function previewCoupon(code: string, productId?: string, quantity: number = 1, email?: string, variantId?: number | null) {
+    const session = await auth()
+    const user = session?.user
+    if (!normalizeCouponCode(code)) return { success: false, error: 'coupon.invalid' }
+
+    let lines: { productId: string; category: string | null; amount: number }[] = []
+    if (productId) {
+        const product = await db.query.products.findFirst({
+            where: eq(products.id, productId),
+            columns: { id: true, price: true, category: true, salePrice: true, saleStartsAt: true, saleEndsAt: true, saleQuantity: true }
+        })
+        if (!product) return { success: false, error: 'buy.productNotFound' }
+        const qty = Number(quantity)
+        if (!Number.isInteger(qty) || qty <= 0) return { success: false, error: 'buy.invalidQuantity' }
+        const variant = variantId
+            ? (await getProductVariants(productId, { activeOnly: true })).find((v) => v.id === Number(variantId))
+            : null
+        if (variantId && !variant) return { success: false, error: 'buy.variantNotFound' }
+        const flashSale = variant ? null : (await getFlashSales([product])).get(productId)
+        const amount = variant
+            ? Number(variant.price) * qty
+            : flashSale?.status === 'active'
+                ? tieredTotal(flashSale.price, [], qty)
+                : tieredTotal(product.price, await getProductPriceTiers(productId), qty)
+        const memberRule = pickMemberDiscount(await getActiveMemberDiscounts(), productId, await getMemberContext(user))
+        const memberQuote = quoteMemberDiscount(memberRule, amount)
+        lines = [{ productId, category: product.category, amount: memberQuote ? amount - memberQuote.discount : amount }]
+    } else {
+        const cookieStore = await cookies()
+        const owner = user?.id
+            ? { userId: user.id }
+            : { sessionId: cookieStore.get(CART_COOKIE)?.value || null }
+        const items = await getCartItems(owner)
+        if (!items.length) return { success: false, error: 'cart.empty' }
+        const memberQuotes = await quoteCartMemberDiscounts(items, user)
+        lines = items.map((item) => ({
+            productId: item.productId,
+            category: item.category,
+            amount: Number(item.price) * Number(item.quantity) - (memberQuotes.get(item.productId)?.discount || 0)
+        }))
+    }
+
+    const quoted = await quoteCoupon({ code, lines, userId: user?.id, email: email || user?.email })
+    if (!quoted.success) return { success: false, error: quoted.error }
+    return {
+        success: true,
+        code: quoted.quote.code,
+        discount: quoted.quote.discount,
+        allowPoints: quoted.quote.allowPoints
+    }
+}
+
+export async function checkoutCart(email?: string, usePoints: boolean = false, couponCode?: string) {
+    const session = await auth()
+    const user = session?.user
+    const cookieStore = await cookies()
+    const owner = user?.id
+        ? { userId: user.id }
+        : { sessionId: cookieStore.get(CART_COOKIE)?.value || null }
+
+    const items = await getCartItems(owner)
+    if (!items.length) return { success: false, error: 'cart.empty' }
+
+    if (user?.id) {
+        const userRec = await db.query.loginUsers.findFirst({
+            where: eq(loginUsers.userId, user.id),
+            columns: { isBlocked: true }
+        })
+        if (userRec?.isBlocked) {
+            return { success: false, error: 'buy.userBlocked' }
+        }
+    }
+
+    const productIds = items.map((item) => item.productId)
+    for (const pid of productIds) {
+        try {
+            await cleanupExpiredCardsIfNeeded(undefined, pid)
+            await cancelExpiredOrders({ productId: pid })
+        } catch {
+            // Best effort cleanup
+        }
+    }
+    try {
+        await syncProductScheduleIfNeeded()
+    } catch {
+        // Best effort cache refresh
+    }
+
+    const stats = await getLiveCardStats(productIds)
+    const resolvedEmail = email || (user?.id ? await getLoginUserEmail(user.id) : null) || user?.email || null
+
+    let totalAmount = 0
+    let totalQuantity = 0
+    for (const item of items) {
+        const quantity = Number(item.quantity)
+        if (item.isActive === false || !isWithinPublishWindow(item)) return { success: false, error: 'cart.unavailable' }
+        if (item.flashSale?.status === 'active' && item.flashSale.remaining !== null && quantity > item.flashSale.remaining) {
+            return { success: false, error: 'buy.flashSaleRemaining' }
+        }
+        if (item.fulfillmentType === 'siyuan_token') return { success: false, error: 'cart.notSupported' }
+        if ((await getProductVariants(item.productId, { activeOnly: true })).length) return { success: false, error: 'cart.variantUnsupported' }
+        if (!Number.isInteger(quantity) || quantity <= 0) return { success: false, error: 'buy.invalidQuantity' }
+
+        const purchaseLimit = item.purchaseLimit && item.purchaseLimit > 0 ? item.purchaseLimit : null
+        if (quantity > (purchaseLimit ?? MAX_ORDER_QUANTITY)) {
+            return { success: false, error: purchaseLimit ? 'buy.limitExceeded' : 'buy.quantityTooLarge' }
+        }
+        if (purchaseLimit) {
+            const existingCount = await getPurchasedQuantity(item.productId, user?.id, email || user?.email)
+            if (existingCount + quantity > purchaseLimit) {
+                return { success: false, error: 'buy.limitExceeded' }
+            }
+        }
+
+        const stat = stats.get(item.productId) || { unused: 0, available: 0, locked: 0 }
+        const stock = item.isShared ? (stat.unused > 0 ? INFINITE_STOCK : 0) : stat.available
+        if (stock < quantity) return { success: false, error: 'buy.outOfStock' }
+
+        totalAmount += Number(item.price) * quantity
+        totalQuantity += quantity
+    }
+
+    const memberQuotes = await quoteCartMemberDiscounts(items, user)
+    const memberDiscount = Array.from(memberQuotes.values()).reduce((sum, quote) => sum + quote.discount, 0)
+    const memberDiscountRule = Array.from(new Set(Array.from(memberQuotes.values()).map((quote) => quote.label))).join(', ') || null
+
+    let pointsToUse = 0
+    let finalAmount = Math.max(0, Number((totalAmount - memberDiscount).toFixed(2)))
+
+    let couponQuote: CouponQuote | null = null
+    if (normalizeCouponCode(couponCode)) {
+        const quoted = await quoteCoupon({
+            code: couponCode!,
+            lines: items.map((item) => ({
+                productId: item.productId,
+                category: item.category,
+                amount: Number(item.price) * Number(item.quantity) - (memberQuotes.get(item.productId)?.discount || 0)
+            })),
+            userId: user?.id,
+            email: email || user?.email
+        })
+        if (!quoted.success) return { success: false, error: quoted.error }
+        if (usePoints && !quoted.quote.allowPoints) return { success: false, error: 'coupon.pointsNotAllowed' }
+        couponQuote = quoted.quote
+        finalAmount = Math.max(0, Number((finalAmount - couponQuote.discount).toFixed(2)))
+    }
+
+    if (usePoints && user?.id) {
+        await expireUserPoints(user.id)
+        const userRec = await db.query.loginUsers.findFirst({
+            where: eq(loginUsers.userId, user.id),
+            columns: { points: true }
+        })
+        const currentPoints = userRec?.points || 0
+        if (currentPoints > 0) {
+            pointsToUse = Math.min(currentPoints, Math.ceil(finalAmount))
+            finalAmount = Math.max(0, finalAmount - pointsToUse)
+        }
+    }
+    const isZeroPrice = finalAmount <= 0
+    const paymentProviderId = await getActivePaymentProviderId()
+
+    const orderId = generateOrderId()
+    const orderName = items.length === 1 ? items[0].name : `${items[0].name} +${items.length - 1}`
+    const reservedIds: number[] = []
+    let pointsDeducted = false
+    let orderInserted = false
+
+    if (couponQuote && !(await claimCouponUse(couponQuote.couponId))) {
+        return { success: false, error: 'coupon.exhausted' }
+    }
+
+    try {
+        // Every line must be reserved before the order exists; shared cards are picked at delivery
+        for (const item of items) {
+            if (item.isShared) continue
+            const reserved = await reserveCards(item.productId, orderId, Number(item.quantity))
+            reservedIds.push(...reserved.map((c) => c.id))
+        }
+
+        if (pointsToUse > 0) {
+            const balance = await changePoints(user!.id!, -pointsToUse, {
+                reason: 'order_payment',
+                orderId,
+                actor: userActor(user?.username || user?.name)
+            }, { requireBalance: true })
+            if (balance === null) {
+                throw new Error('insufficient_points')
+            }
+            pointsDeducted = true
+        }
+
+        await db.insert(orders).values({
+            orderId,
+            productId: CART_PRODUCT_ID,
+            productName: orderName,
+            amount: finalAmount.toString(),
+            email: resolvedEmail,
+            userId: user?.id || null,
+            username: user?.username || user?.name || null,
+            status: 'pending',
+            pointsUsed: pointsToUse,
+            currentPaymentId: orderId,
+            paymentProvider: isZeroPrice ? null : paymentProviderId,
+            cardIds: reservedIds.length > 0 ? reservedIds.join(',') : null,
+            quantity: totalQuantity,
+            couponCode: couponQuote?.code || null,
+            discountAmount: couponQuote ? couponQuote.discount.toFixed(2) : null,
+            memberDiscount: memberDiscount > 0 ? memberDiscount.toFixed(2) : null,
+            memberDiscountRule,
+            createdAt: new Date()
+        })
+        orderInserted = true
+        await recordOrderCreated(orderId, 'pending', userActor(user?.username || user?.name), 'Cart checkout')
+
+        if (couponQuote) {
+            await recordCouponRedemption({
+                couponId: couponQuote.couponId,
+                orderId,
+                userId: user?.id,
+                email: resolvedEmail,
+                discount: couponQuote.discount
+            })
+        }
+
+        const BATCH_SIZE = 10
+        const lineValues = items.map((item) => ({
+            orderId,
+            productId: item.productId,
+            productName: item.name,
+            price: item.price,
+            quantity: Number(item.quantity),
+            amount: (Number(item.price) * Number(item.quantity)).toFixed(2),
+            createdAt: new Date()
+        }))
+        for (let i = 0; i < lineValues.length; i += BATCH_SIZE) {
+            await db.insert(orderItems).values(lineValues.slice(i, i + BATCH_SIZE))
+        }
+    } catch (error: any) {
+        try {
+            await releaseReservedCards(orderId)
+        } catch {
+            // Reservations expire on their own
+        }
+        if (orderInserted) {
+            try {
+                await db.delete(orders).where(eq(orders.orderId, orderId))
+                await deleteOrderEvents(orderId)
+            } catch {
+                // best effort
+            }
+        }
+        if (couponQuote) {
+            try {
+                if (!(await releaseCouponForOrder(orderId))) {
+                    await unclaimCouponUse(couponQuote.couponId)
+                }
+            } catch {
+                // best effort
+            }
+        }
+        if (pointsDeducted && user?.id) {
+            try {
+                await changePoints(user.id, pointsToUse, { reason: 'order_rollback', orderId, actor: systemActor })
+            } catch {
+                // Best effort rollback
+            }
+        }
+        try {
+            await recalcProductAggregatesForMany(productIds)
+        } catch {
+            // best effort
+        }
+        if (error?.message === 'stock_locked') {
+            return { success: false, error: 'buy.stockLocked' }
+        }
+        if (error?.message === 'insufficient_points') {
+            return { success: false, error: 'buy.pointsMismatch' }
+        }
+        console.error('[Checkout] Cart checkout failed:', error)
+        return { success: false, error: 'buy.purchaseFailed' }
+    }
+
+    try {
+        await clearCartItems(owner, productIds)
+    } catch {
+        // best effort
+    }
+    try {
+        await recalcProductAggregatesForMany(productIds)
+    } catch {
+        // best effort
+    }
+    try {
+        updateTag('home:products')
+    } catch {
+        // best effort
+    }
+
+    if (isZeroPrice) {
+        await processOrderFulfillment(orderId, 0, 'POINTS_REDEMPTION', userActor(user?.username || user?.name))
+        return {
+            success: true,
+            url: `${process.env.NEXT_PUBLIC_APP_URL || ''}/order/${orderId}`,
+            isZeroPrice: true
+        }
+    }
+
+    cookieStore.set('ldc_pending_order', orderId, { secure: true, path: '/', sameSite: 'lax' })
+
+    const provider = await getPaymentProvider(paymentProviderId)
+    const payment = provider.createPayment({
+        outTradeNo: orderId,
+        orderId,
+        name: orderName,
+        money: Number(finalAmount).toFixed(2)
+    })
 
     return {
         success: true,
-        url: process.env.PAY_URL || 'https://credit.linux.do/epay/pay/submit.php',
-        params: payParams
+        url: payment.url,
+        params: payment.params
     }
 }
@@ -4,7 +4,9 @@ import { db } from "@/lib/db"
 import { sql } from "drizzle-orm"
 import { revalidatePath, updateTag } from "next/cache"
 import { checkAdmin } from "@/actions/admin"
+import { recordAdminAudit } from "@/lib/audit"
 import { recalcProductAggregatesForMany } from "@/lib/db/queries"
+import { encryptExistingCardKeys } from "@/lib/card-keys"
 import { products } from "@/lib/db/schema"
 
 async function executeStatement(statement: string) {
@@ -17,11 +19,28 @@ async function executeStatement(statement: string) {
     }
 }
 
+// Tables an import may write to; anything else in the file is skipped
+const IMPORT_TABLES = new Set([
+    'products', 'product_variants', 'product_price_tiers', 'member_discounts', 'categories',
+    'cards', 'orders', 'order_items', 'reviews', 'refund_requests',
+    'login_users', 'daily_checkins_v2', 'points_transactions', 'referrals',
+    'coupons', 'coupon_redemptions', 'payment_events', 'order_events',
+    'user_notifications', 'user_messages', 'admin_messages', 'broadcast_messages', 'broadcast_reads',
+    'settings', 'admin_roles', 'admin_audit_log', 'webhook_endpoints', 'notification_channels',
+])
+// Credentials and access control: restoring these is for owners only
+const OWNER_ONLY_TABLES = new Set(['settings', 'admin_roles', 'admin_audit_log', 'webhook_endpoints', 'notification_channels'])
+
+function canImportTable(table: string, role: string) {
+    return IMPORT_TABLES.has(table) && (role === 'owner' || !OWNER_ONLY_TABLES.has(table))
+}
+
 async function repairTimestamps() {
     const timestampColumns = [
-        { table: 'products', cols: ['created_at'] },
+        { table: 'products', cols: ['created_at', 'publish_at', 'unpublish_at', 'sale_starts_at', 'sale_ends_at'] },
         { table: 'cards', cols: ['created_at', 'reserved_at', 'expires_at', 'used_at'] },
         { table: 'orders', cols: ['created_at', 'paid_at', 'delivered_at'] },
+        { table: 'order_items', cols: ['created_at'] },
         { table: 'login_users', cols: ['created_at', 'last_login_at'] },
         { table: 'daily_checkins_v2', cols: ['created_at'] },
         { table: 'settings', cols: ['updated_at'] },
@@ -33,6 +52,21 @@ async function repairTimestamps() {
         { table: 'admin_messages', cols: ['created_at'] },
         { table: 'broadcast_messages', cols: ['created_at'] },
         { table: 'broadcast_reads', cols: ['created_at'] },
+        { table: 'coupons', cols: ['starts_at', 'ends_at', 'created_at', 'updated_at'] },
+        { table: 'coupon_redemptions', cols: ['created_at'] },
+        { table: 'payment_events', cols: ['created_at'] },
+        { table: 'order_events', cols: ['created_at'] },
+        { table: 'product_variants', cols: ['created_at'] },
+        { table: 'product_price_tiers', cols: ['created_at'] },
+        { table: 'member_discounts', cols: ['created_at', 'updated_at'] },
+        { table: 'points_transactions', cols: ['created_at', 'expires_at', 'expiry_notified_at'] },
+        { table: 'referrals', cols: ['created_at', 'rewarded_at'] },
+        { table: 'admin_roles', cols: ['created_at', 'updated_at'] },
+        { table: 'admin_audit_log', cols: ['created_at'] },
+        { table: 'webhook_endpoints', cols: ['created_at', 'updated_at'] },
+        { table: 'webhook_deliveries', cols: ['created_at', 'updated_at', 'next_attempt_at'] },
+        { table: 'email_outbox', cols: ['created_at', 'updated_at', 'next_attempt_at', 'sent_at'] },
+        { table: 'notification_channels', cols: ['created_at', 'updated_at'] },
     ]
 
     for (const { table, cols } of timestampColumns) {
@@ -54,17 +88,34 @@ async function repairTimestamps() {
 }
 
 export async function repairDataAction() {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
     try {
         await repairTimestamps()
+        await recordAdminAudit(admin, 'data.repair')
         return { success: true }
     } catch (e: any) {
         return { success: false, error: e.message }
     }
 }
 
+export async function encryptCardKeysAction() {
+    const admin = await checkAdmin('edit_settings')
+    try {
+        const result = await encryptExistingCardKeys()
+        if (result.processed > 0) {
+            await recordAdminAudit(admin, 'data.encrypt_card_keys', { details: { processed: result.processed, encrypted: result.enabled } })
+        }
+        revalidatePath('/admin/data')
+        return { success: true as const, ...result }
+    } catch (e: any) {
+        return { success: false as const, error: e.message as string }
+    }
+}
+
 export async function importData(formData: FormData) {
-    await checkAdmin()
+    // An import can rewrite settings and roles, so it needs both write capabilities, not just export_data
+    await checkAdmin('manage_roles')
+    const admin = await checkAdmin('edit_settings')
 
     const file = formData.get('file') as File
     if (!file) {
@@ -94,6 +145,7 @@ export async function importData(formData: FormData) {
             // Cards
             productId: 'product_id',
             cardKey: 'card_key',
+            keyHash: 'key_hash',
             isUsed: 'is_used',
             reservedOrderId: 'reserved_order_id',
             reservedAt: 'reserved_at',
@@ -112,6 +164,7 @@ export async function importData(formData: FormData) {
             // Login Users
             lastLoginAt: 'last_login_at',
             isBlocked: 'is_blocked',
+            referralCode: 'referral_code',
             // Refund Requests
             adminUsername: 'admin_username',
             adminNote: 'admin_note',
@@ -124,6 +177,7 @@ export async function importData(formData: FormData) {
 
         let successCount = 0
         let errorCount = 0
+        let skippedCount = 0
 
         for (const line of lines) {
             const trimmed = line.trim()
@@ -144,6 +198,10 @@ export async function importData(formData: FormData) {
                     'daily_checkins': 'daily_checkins_v2'
                 }
                 const targetTable = tableMap[table] || table
+                if (!canImportTable(targetTable, admin.role)) {
+                    skippedCount++
+                    continue
+                }
 
                 // Map columns
                 const newColumns = columns.map(c => columnMap[c] || c)
@@ -166,6 +224,11 @@ export async function importData(formData: FormData) {
                 }
             } else if (trimmed.toUpperCase().startsWith('INSERT')) {
                 // Try executing other INSERTs directly if they match simple format
+                const target = trimmed.match(/^INSERT\s+(?:OR\s+\w+\s+)?INTO\s+["`]?(\w+)/i)?.[1]
+                if (!target || !canImportTable(target, admin.role)) {
+                    skippedCount++
+                    continue
+                }
                 try {
                     await executeStatement(trimmed)
                     successCount++
@@ -177,6 +240,11 @@ export async function importData(formData: FormData) {
 
         // Run repair regardless of insert success to fix any existing data issues
         await repairTimestamps()
+        await recordAdminAudit(admin, 'data.import', {
+            targetType: 'file',
+            targetId: file.name || null,
+            details: { size: file.size, statements: successCount, errors: errorCount, skipped: skippedCount }
+        })
 
         try {
             const productRows = await db.select({ id: products.id }).from(products);
@@ -1,13 +1,15 @@
 'use server'
 
 import { auth } from "@/lib/auth"
-import { queryOrderStatus } from "@/lib/epay"
+import { getPaymentProvider } from "@/lib/payment-providers"
 import { processOrderFulfillment } from "@/lib/order-processing"
 import { revalidatePath } from "next/cache"
 import { db } from "@/lib/db"
 import { orders, cards } from "@/lib/db/schema"
 import { eq } from "drizzle-orm"
-import { withOrderColumnFallback, recalcProductAggregates } from "@/lib/db/queries"
+import { withOrderColumnFallback, recalcOrderProductAggregates } from "@/lib/db/queries"
+import { releaseCouponForOrder } from "@/lib/coupons"
+import { transitionOrderStatus, userActor } from "@/lib/order-status"
 import { cookies } from "next/headers"
 import { updateTag } from "next/cache"
 
@@ -19,7 +21,7 @@ export async function checkOrderStatus(orderId: string) {
     const order = await withOrderColumnFallback(async () => {
         return await db.query.orders.findFirst({
             where: eq(orders.orderId, orderId),
-            columns: { userId: true, status: true, amount: true, currentPaymentId: true }
+            columns: { userId: true, status: true, amount: true, currentPaymentId: true, paymentProvider: true }
         })
     })
 
@@ -44,7 +46,8 @@ export async function checkOrderStatus(orderId: string) {
     try {
         // Use the latest payment ID (retry ID) if available, otherwise fallback to orderId
         const tradeNoToCheck = order.currentPaymentId || orderId
-        const result = await queryOrderStatus(tradeNoToCheck)
+        const provider = await getPaymentProvider(order.paymentProvider)
+        const result = await provider.queryStatus(tradeNoToCheck)
 
         if (result.success && result.status === 1) { // 1 = Paid
             // trade_no might be in result.data or result.trade_no?
@@ -84,21 +87,26 @@ export async function cancelPendingOrder(orderId: string) {
     if (order.status !== 'pending') return { success: false, error: 'order.cannotCancel' }
 
     try {
+        // Update order status; a payment that landed meanwhile wins
+        const { changed } = await transitionOrderStatus(orderId, 'cancelled', {
+            actor: userActor(session.user.username || session.user.name),
+            reason: 'Cancelled by customer',
+            from: ['pending']
+        })
+        if (!changed) return { success: false, error: 'order.cannotCancel' }
+
         // Release reserved cards
         await db.update(cards)
             .set({ reservedOrderId: null, reservedAt: null })
             .where(eq(cards.reservedOrderId, orderId))
 
-        // Update order status
-        await db.update(orders)
-            .set({ status: 'cancelled' })
-            .where(eq(orders.orderId, orderId))
+        await releaseCouponForOrder(orderId)
 
         revalidatePath(`/order/${orderId}`)
         revalidatePath('/orders')
         if (order.productId) {
             try {
-                await recalcProductAggregates(order.productId)
+                await recalcOrderProductAggregates(orderId, order.productId)
             } catch {
                 // best effort
             }
@@ -3,11 +3,13 @@
 import { auth } from "@/lib/auth"
 import { db } from "@/lib/db"
 import { orders } from "@/lib/db/schema"
-import { generateOrderId, generateSign } from "@/lib/crypto"
+import { generateOrderId } from "@/lib/crypto"
 import { cookies } from "next/headers"
 import { PAYMENT_PRODUCT_ID, PAYMENT_PRODUCT_NAME } from "@/lib/payment"
 import { withOrderColumnFallback } from "@/lib/db/queries"
 import { getAdminUsernames } from "@/lib/admin-auth"
+import { getActivePaymentProvider } from "@/lib/payment-providers"
+import { recordOrderCreated, userActor } from "@/lib/order-status"
 
 function normalizeAmount(input: number | string) {
     const parsed = Number.parseFloat(String(input))
@@ -37,6 +39,7 @@ export async function createPaymentOrder(amountInput: number | string, payeeInpu
 
     const orderId = generateOrderId()
     const amount = normalized.toFixed(2)
+    const provider = await getActivePaymentProvider()
 
     await withOrderColumnFallback(async () => {
         await db.insert(orders).values({
@@ -50,30 +53,25 @@ export async function createPaymentOrder(amountInput: number | string, payeeInpu
             payee,
             status: 'pending',
             currentPaymentId: orderId,
+            paymentProvider: provider.id,
             createdAt: new Date()
         })
     })
+    await recordOrderCreated(orderId, 'pending', userActor(user?.username))
 
     const cookieStore = await cookies()
     cookieStore.set('ldc_pending_order', orderId, { secure: true, path: '/', sameSite: 'lax' })
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000')
-    const payParams: Record<string, any> = {
-        pid: process.env.MERCHANT_ID!,
-        type: 'epay',
-        out_trade_no: orderId,
-        notify_url: `${baseUrl}/api/notify`,
-        return_url: `${baseUrl}/callback/${orderId}`,
+    const payment = provider.createPayment({
+        outTradeNo: orderId,
+        orderId,
         name: PAYMENT_PRODUCT_NAME,
-        money: amount,
-        sign_type: 'MD5'
-    }
-
-    payParams.sign = generateSign(payParams, process.env.MERCHANT_KEY!)
+        money: amount
+    })
 
     return {
         success: true,
-        url: process.env.PAY_URL || 'https://credit.linux.do/epay/pay/submit.php',
-        params: payParams
+        url: payment.url,
+        params: payment.params
     }
 }
@@ -2,10 +2,13 @@
 
 import { auth } from "@/lib/auth"
 import { db } from "@/lib/db"
-import { loginUsers } from "@/lib/db/schema"
-import { ensureLoginUsersSchema, getSetting } from "@/lib/db/queries"
-import { and, eq, isNull, lt, or, sql } from "drizzle-orm"
+import { dailyCheckins, loginUsers } from "@/lib/db/schema"
+import { ensureDailyCheckinsSchema, ensureLoginUsersSchema, getSetting } from "@/lib/db/queries"
+import { eq } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
+import { changePoints, getPointsTransactions } from "@/lib/points"
+import { checkinDay, countStreak, getCheckinDays, getCheckinRules, getMakeUpStreakBonuses, getStreakBonus, isDayString, shiftDay } from "@/lib/checkin"
+import { userActor } from "@/lib/order-status"
 
 export async function checkIn() {
     const session = await auth()
@@ -23,53 +26,148 @@ export async function checkIn() {
 
     try {
         await ensureLoginUsersSchema()
+        await ensureDailyCheckinsSchema()
         const nowMs = Date.now()
-        const nowDate = new Date(nowMs)
-        const todayStartUtcMs = Date.UTC(
-            nowDate.getUTCFullYear(),
-            nowDate.getUTCMonth(),
-            nowDate.getUTCDate()
-        )
-        const yesterdayStartUtcMs = todayStartUtcMs - 86400000
-
-        // 2. Get Reward Amount
-        const rewardStr = await getSetting('checkin_reward')
-        const reward = parseInt(rewardStr || '10', 10)
-
-        // 3. Perform Check-in & Award Points (atomic guard in DB)
-        const updated = await db.update(loginUsers)
-            .set({
-                points: sql`${loginUsers.points} + ${reward}`,
-                lastCheckinAt: new Date(nowMs),
-                consecutiveDays: sql`CASE 
-                    WHEN ${loginUsers.lastCheckinAt} IS NOT NULL 
-                        AND ${loginUsers.lastCheckinAt} >= ${yesterdayStartUtcMs}
-                        AND ${loginUsers.lastCheckinAt} < ${todayStartUtcMs}
-                    THEN COALESCE(${loginUsers.consecutiveDays}, 0) + 1
-                    ELSE 1
-                END`
-            })
-            .where(and(
-                eq(loginUsers.userId, userId),
-                or(
-                    isNull(loginUsers.lastCheckinAt),
-                    lt(loginUsers.lastCheckinAt, new Date(todayStartUtcMs))
-                )
-            ))
-            .returning({ consecutiveDays: loginUsers.consecutiveDays });
-
-        if (!updated.length) {
+        const rules = await getCheckinRules()
+        const today = checkinDay(nowMs, rules.timeZone)
+
+        // 1. Claim today; the unique (user, day) index makes a second check-in a no-op
+        const inserted = await db.insert(dailyCheckins)
+            .values({ userId, day: today, isMakeup: false, createdAt: new Date(nowMs) })
+            .onConflictDoNothing()
+            .returning({ id: dailyCheckins.id })
+
+        if (!inserted.length) {
             return { success: false, error: "Already checked in today" }
         }
 
+        // 2. Streak includes any made-up days
+        const consecutiveDays = await countStreak(userId, today)
+        const bonus = getStreakBonus(consecutiveDays, rules.streakBonuses)
+        await db.update(loginUsers)
+            .set({ lastCheckinAt: new Date(nowMs), consecutiveDays })
+            .where(eq(loginUsers.userId, userId))
+
+        // 3. Award points
+        const actor = userActor(session.user.username || session.user.name)
+        await changePoints(userId, rules.reward, { reason: 'checkin', actor })
+        if (bonus > 0) {
+            await changePoints(userId, bonus, { reason: 'checkin_streak', actor, note: `Day ${consecutiveDays} streak` })
+        }
+
         revalidatePath('/')
-        return { success: true, points: reward, consecutiveDays: updated[0]?.consecutiveDays ?? 1 }
+        return { success: true, points: rules.reward + bonus, bonus, consecutiveDays }
     } catch (error: any) {
         console.error("Check-in error:", error)
         return { success: false, error: `Check-in failed: ${error?.message || 'Unknown error'}` }
     }
 }
 
+/**
+ * Fill a missed day inside the make-up window by paying points. It keeps the
+ * streak alive but earns no check-in reward of its own; streak bonuses the
+ * joined run now passes are paid here, since no later check-in lands on them.
+ */
+export async function makeUpCheckIn(day: string) {
+    const session = await auth()
+    if (!session?.user?.id) {
+        return { success: false, error: "Not logged in" }
+    }
+    if (await getSetting('checkin_enabled') === 'false') {
+        return { success: false, error: "Check-in is currently disabled" }
+    }
+
+    const userId = session.user.id
+    try {
+        await ensureLoginUsersSchema()
+        await ensureDailyCheckinsSchema()
+        const rules = await getCheckinRules()
+        if (!rules.makeUpCost) return { success: false, error: 'makeUpDisabled' }
+
+        const today = checkinDay(Date.now(), rules.timeZone)
+        const target = String(day || '').trim()
+        if (!isDayString(target) || target >= today || target < shiftDay(today, -rules.makeUpDays)) {
+            return { success: false, error: 'makeUpOutOfRange' }
+        }
+        const streakBefore = await countStreak(userId, today) || await countStreak(userId, shiftDay(today, -1))
+
+        const inserted = await db.insert(dailyCheckins)
+            .values({ userId, day: target, isMakeup: true, createdAt: new Date() })
+            .onConflictDoNothing()
+            .returning({ id: dailyCheckins.id })
+        if (!inserted.length) return { success: false, error: 'makeUpTaken' }
+
+        const balance = await changePoints(userId, -rules.makeUpCost, {
+            reason: 'checkin_makeup',
+            actor: userActor(session.user.username || session.user.name),
+            note: target
+        }, { requireBalance: true })
+        if (balance === null) {
+            await db.delete(dailyCheckins).where(eq(dailyCheckins.id, inserted[0].id))
+            return { success: false, error: 'insufficientPoints' }
+        }
+
+        // The made-up day may have joined two runs together
+        const consecutiveDays = await countStreak(userId, today) || await countStreak(userId, shiftDay(today, -1))
+        await db.update(loginUsers)
+            .set({ consecutiveDays })
+            .where(eq(loginUsers.userId, userId))
+
+        let bonus = 0
+        let points = balance
+        if (consecutiveDays > streakBefore) {
+            const runBefore = await countStreak(userId, shiftDay(target, -1))
+            for (const crossed of getMakeUpStreakBonuses(consecutiveDays, [runBefore, streakBefore], rules.streakBonuses)) {
+                const after = await changePoints(userId, crossed.bonus, {
+                    reason: 'checkin_streak',
+                    actor: userActor(session.user.username || session.user.name),
+                    note: `Day ${crossed.days} streak (make-up)`
+                })
+                bonus += crossed.bonus
+                if (typeof after === 'number') points = after
+            }
+        }
+
+        revalidatePath('/profile')
+        return { success: true, cost: rules.makeUpCost, points, bonus, consecutiveDays }
+    } catch (error: any) {
+        console.error("Make-up check-in error:", error)
+        return { success: false, error: `Check-in failed: ${error?.message || 'Unknown error'}` }
+    }
+}
+
+/** One month of check-ins (YYYY-MM, defaults to the current month) for the profile calendar */
+export async function getCheckinCalendar(month?: string) {
+    const session = await auth()
+    if (!session?.user?.id) return { success: false as const }
+
+    const userId = session.user.id
+    const rules = await getCheckinRules()
+    const today = checkinDay(Date.now(), rules.timeZone)
+    const target = month && /^\d{4}-\d{2}$/.test(month) && isDayString(`${month}-01`) ? month : today.slice(0, 7)
+    const from = `${target}-01`
+    const to = shiftDay(`${shiftDay(from, 31).slice(0, 7)}-01`, -1)
+
+    try {
+        const days = await getCheckinDays(userId, from, to)
+        const streak = await countStreak(userId, today) || await countStreak(userId, shiftDay(today, -1))
+        return {
+            success: true as const,
+            month: target,
+            today,
+            days: days.map((d) => ({ day: d.day, makeUp: !!d.isMakeup })),
+            streak,
+            reward: rules.reward,
+            streakBonuses: rules.streakBonuses,
+            makeUpCost: rules.makeUpCost,
+            makeUpFrom: rules.makeUpCost ? shiftDay(today, -rules.makeUpDays) : null,
+        }
+    } catch (error: any) {
+        console.error('[CheckinCalendar] Error:', error?.message)
+        return { success: false as const }
+    }
+}
+
 export async function getUserPoints() {
     const session = await auth()
     if (!session?.user?.id) return 0
@@ -82,6 +180,24 @@ export async function getUserPoints() {
     return user?.points || 0
 }
 
+export async function getMyPointsHistory(offset = 0) {
+    const session = await auth()
+    if (!session?.user?.id) return { success: false, items: [] }
+
+    const items = await getPointsTransactions(session.user.id, 20, Math.max(0, Math.floor(Number(offset) || 0)))
+    return {
+        success: true,
+        items: items.map((item) => ({
+            id: item.id,
+            delta: item.delta,
+            balanceAfter: item.balanceAfter,
+            reason: item.reason,
+            orderId: item.orderId,
+            createdAt: item.createdAt
+        }))
+    }
+}
+
 export async function getCheckinStatus() {
     const session = await auth()
     if (!session?.user?.id) return { checkedIn: false }
@@ -102,8 +218,9 @@ export async function getCheckinStatus() {
             return { checkedIn: false }
         }
 
-        const lastCheckinDate = new Date(user.lastCheckinAt).toISOString().split('T')[0];
-        const todayDate = new Date().toISOString().split('T')[0];
+        const { timeZone } = await getCheckinRules()
+        const lastCheckinDate = checkinDay(new Date(user.lastCheckinAt).getTime(), timeZone)
+        const todayDate = checkinDay(Date.now(), timeZone)
 
         return { checkedIn: lastCheckinDate === todayDate }
     } catch (error: any) {
@@ -6,10 +6,16 @@ import { orders, refundRequests } from "@/lib/db/schema"
 import { and, desc, eq, sql } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 import { checkAdmin } from "@/actions/admin"
+import { recordAdminAudit } from "@/lib/audit"
 import { products } from "@/lib/db/schema"
 import { notifyAdminRefundRequest } from "@/lib/notifications"
-import { markOrderRefunded, proxyRefund } from "@/actions/refund"
-import { createUserNotification } from "@/lib/db/queries"
+import { sendRefundResultEmail } from "@/lib/email"
+import { emitWebhookEvent } from "@/lib/webhooks"
+import { markOrderPartiallyRefunded, markOrderRefunded, proxyPartialRefund, proxyRefund, refundOrderAsPoints } from "@/actions/refund"
+import { createUserNotification, ensureRefundColumns } from "@/lib/db/queries"
+import { REFUND_ALREADY_HANDLED, quoteRefund, type RefundSelection } from "@/lib/refunds"
+
+type RefundMethod = 'gateway' | 'points'
 
 async function ensureRefundRequestsTable() {
   await db.run(sql`
@@ -22,15 +28,26 @@ async function ensureRefundRequestsTable() {
       status TEXT DEFAULT 'pending',
       admin_username TEXT,
       admin_note TEXT,
+      refund_amount TEXT,
+      refund_quantity INTEGER,
+      card_ids TEXT,
+      refund_method TEXT,
+      refund_points INTEGER,
       created_at INTEGER DEFAULT (unixepoch() * 1000),
       updated_at INTEGER DEFAULT (unixepoch() * 1000),
       processed_at INTEGER
     );
     CREATE INDEX IF NOT EXISTS refund_requests_order_id_idx ON refund_requests(order_id);
   `)
+  await ensureRefundColumns()
 }
 
-export async function requestRefund(orderId: string, reason: string) {
+/**
+ * Ask for a refund. Passing `cardIds` asks for just those keys back;
+ * otherwise the whole remaining order is requested. `method` is the buyer's
+ * preference between money back and store credit.
+ */
+export async function requestRefund(orderId: string, reason: string, cardIds?: number[], method: RefundMethod = 'gateway') {
   const session = await auth()
   const user = session?.user
   if (!user?.id) throw new Error("Unauthorized")
@@ -42,7 +59,9 @@ export async function requestRefund(orderId: string, reason: string) {
   if (order.userId !== user.id) throw new Error("Unauthorized")
 
   const status = order.status || 'pending'
-  if (status !== 'paid' && status !== 'delivered') throw new Error("Order is not refundable")
+  if (status !== 'paid' && status !== 'delivered' && status !== 'partially_refunded') throw new Error("Order is not refundable")
+
+  const quote = quoteRefund(order, cardIds?.length ? { cardIds } : { quantity: Number(order.quantity || 1) - Number(order.refundedQuantity || 0) })
 
   const existing = await db.query.refundRequests.findFirst({
     where: and(eq(refundRequests.orderId, orderId), eq(refundRequests.userId, user.id)),
@@ -52,15 +71,19 @@ export async function requestRefund(orderId: string, reason: string) {
     return { ok: true }
   }
 
-  await db.insert(refundRequests).values({
+  const [created] = await db.insert(refundRequests).values({
     orderId,
     userId: user.id,
     username: user.username || null,
     reason: (reason || '').trim() || null,
     status: 'pending',
+    refundAmount: quote.amount.toFixed(2),
+    refundQuantity: quote.quantity,
+    cardIds: quote.cardIds.length ? quote.cardIds.join(',') : null,
+    refundMethod: method === 'points' ? 'points' : 'gateway',
     createdAt: new Date(),
     updatedAt: new Date(),
-  })
+  }).returning({ id: refundRequests.id })
 
   const product = await db.query.products.findFirst({
     where: eq(products.id, order.productId),
@@ -70,47 +93,78 @@ export async function requestRefund(orderId: string, reason: string) {
   await notifyAdminRefundRequest({
     orderId,
     productName: product?.name || 'Unknown',
-    amount: order.amount,
+    amount: quote.amount.toFixed(2),
     username: user.username,
     reason: reason || null
   })
+  await emitWebhookEvent('refund.requested', {
+    refundRequest: {
+      id: created?.id ?? null,
+      orderId,
+      userId: user.id,
+      username: user.username || null,
+      reason: (reason || '').trim() || null,
+      amount: quote.amount.toFixed(2),
+      quantity: quote.quantity,
+      method: method === 'points' ? 'points' : 'gateway',
+    }
+  })
 
   revalidatePath(`/order/${orderId}`)
   revalidatePath('/admin/refunds')
   return { ok: true }
 }
 
-export async function adminApproveRefund(requestId: number, adminNote?: string) {
-  await checkAdmin()
+/**
+ * Approve a request and refund it right away. `method` overrides what the
+ * buyer asked for; store credit never touches the payment gateway.
+ */
+export async function adminApproveRefund(requestId: number, adminNote?: string, method?: RefundMethod) {
+  const admin = await checkAdmin('approve_refunds')
   await ensureRefundRequestsTable()
 
-  const session = await auth()
-  const username = session?.user?.username || null
+  const username = admin.username || null
 
   const req = await db.query.refundRequests.findFirst({
     where: eq(refundRequests.id, requestId),
-    columns: { orderId: true, status: true }
+    columns: { orderId: true, status: true, refundAmount: true, refundQuantity: true, cardIds: true, refundMethod: true }
   })
   if (!req) {
     throw new Error("Refund request not found")
   }
 
   const order = await db.query.orders.findFirst({
-    where: eq(orders.orderId, req.orderId),
-    columns: { orderId: true, tradeNo: true, amount: true, userId: true, productName: true }
+    where: eq(orders.orderId, req.orderId)
   })
   if (!order) {
     throw new Error("Order not found")
   }
 
-  await db.update(refundRequests).set({
+  const refundMethod: RefundMethod = (method || req.refundMethod) === 'points' ? 'points' : 'gateway'
+  if (refundMethod === 'points' && !order.userId) {
+    throw new Error("Store credit needs a signed-in buyer")
+  }
+
+  // Claim the request first so a second approval (another admin, a repeated tap) cannot refund twice
+  const claimed = await db.update(refundRequests).set({
     status: 'approved',
     adminUsername: username,
     adminNote: adminNote || null,
+    refundMethod,
     updatedAt: new Date(),
-  }).where(eq(refundRequests.id, requestId))
+  }).where(and(eq(refundRequests.id, requestId), eq(refundRequests.status, 'pending')))
+    .returning({ id: refundRequests.id })
+  if (!claimed.length) {
+    throw new Error(REFUND_ALREADY_HANDLED)
+  }
+  await recordAdminAudit(admin, 'refunds.approve', {
+    targetType: 'refund_request',
+    targetId: requestId,
+    before: { status: req.status },
+    after: { status: 'approved', refundMethod, adminNote: adminNote || null }
+  })
 
-  if (order.userId) {
+  if (order.userId && refundMethod === 'gateway') {
     await createUserNotification({
       userId: order.userId,
       type: 'refund_approved',
@@ -125,17 +179,59 @@ export async function adminApproveRefund(requestId: number, adminNote?: string)
       }
     })
   }
+  if (refundMethod === 'gateway') {
+    await sendRefundResultEmail({
+      to: order.email,
+      orderId: order.orderId,
+      productName: order.productName || 'Product',
+      approved: true,
+      amount: req.refundAmount || order.amount
+    })
+  }
 
   revalidatePath('/admin/refunds')
 
+  // A request for part of the order only refunds that part
+  let selection: RefundSelection | null = null
+  if (req.refundQuantity) {
+    selection = {
+      amount: req.refundAmount,
+      quantity: req.refundQuantity,
+      cardIds: (req.cardIds || '').split(',').map(Number).filter((id) => id > 0),
+    }
+    try {
+      if (quoteRefund(order, selection).isFull) selection = null
+    } catch (e: any) {
+      return { ok: true, processed: false, error: e?.message || 'refund_failed' }
+    }
+  }
+
+  if (refundMethod === 'points') {
+    try {
+      const result = await refundOrderAsPoints(order.orderId, selection)
+      await db.update(refundRequests).set({
+        status: 'processed',
+        refundPoints: result.points,
+        processedAt: new Date(),
+        updatedAt: new Date(),
+      }).where(eq(refundRequests.id, requestId))
+      return { ok: true, processed: true }
+    } catch (e: any) {
+      return { ok: true, processed: false, error: e?.message || 'refund_failed' }
+    }
+  }
+
   // Auto refund for approved requests
   if (!order.tradeNo || Number(order.amount) <= 0) {
-    await markOrderRefunded(order.orderId)
+    if (selection) await markOrderPartiallyRefunded(order.orderId, selection)
+    else await markOrderRefunded(order.orderId)
     return { ok: true, processed: true }
   }
 
   try {
-    const result = await proxyRefund(order.orderId)
+    const result = selection
+      ? await proxyPartialRefund(order.orderId, selection)
+      : await proxyRefund(order.orderId)
     if (result?.processed) {
       return { ok: true, processed: true }
     }
@@ -146,11 +242,10 @@ export async function adminApproveRefund(requestId: number, adminNote?: string)
 }
 
 export async function adminRejectRefund(requestId: number, adminNote?: string) {
-  await checkAdmin()
+  const admin = await checkAdmin('approve_refunds')
   await ensureRefundRequestsTable()
 
-  const session = await auth()
-  const username = session?.user?.username || null
+  const username = admin.username || null
 
   const req = await db.query.refundRequests.findFirst({
     where: eq(refundRequests.id, requestId),
@@ -162,15 +257,24 @@ export async function adminRejectRefund(requestId: number, adminNote?: string) {
 
   const order = await db.query.orders.findFirst({
     where: eq(orders.orderId, req.orderId),
-    columns: { orderId: true, userId: true, productName: true }
+    columns: { orderId: true, userId: true, productName: true, email: true }
   })
 
-  await db.update(refundRequests).set({
+  const claimed = await db.update(refundRequests).set({
     status: 'rejected',
     adminUsername: username,
     adminNote: adminNote || null,
     updatedAt: new Date(),
-  }).where(eq(refundRequests.id, requestId))
+  }).where(and(eq(refundRequests.id, requestId), eq(refundRequests.status, 'pending')))
+    .returning({ id: refundRequests.id })
+  if (!claimed.length) {
+    throw new Error(REFUND_ALREADY_HANDLED)
+  }
+  await recordAdminAudit(admin, 'refunds.reject', {
+    targetType: 'refund_request',
+    targetId: requestId,
+    details: { orderId: req.orderId, adminNote: adminNote || null }
+  })
 
   if (order?.userId) {
     const note = (adminNote || "").trim()
@@ -189,6 +293,15 @@ export async function adminRejectRefund(requestId: number, adminNote?: string) {
       }
     })
   }
+  if (order) {
+    await sendRefundResultEmail({
+      to: order.email,
+      orderId: order.orderId,
+      productName: order.productName || 'Product',
+      approved: false,
+      adminNote: (adminNote || '').trim() || null
+    })
+  }
 
   revalidatePath('/admin/refunds')
 }
@@ -1,11 +1,182 @@
 'use server'
 
 import { db } from "@/lib/db"
-import { cards, orders, refundRequests, loginUsers, products } from "@/lib/db/schema"
-import { and, eq, sql, inArray } from "drizzle-orm"
+import { cards, orders, refundRequests, products } from "@/lib/db/schema"
+import { and, eq, or, sql, inArray } from "drizzle-orm"
 import { revalidatePath, updateTag } from "next/cache"
-import { getSetting, recalcProductAggregates } from "@/lib/db/queries"
+import { createUserNotification, getSetting, recalcOrderProductAggregates, withOrderColumnFallback } from "@/lib/db/queries"
 import { checkAdmin } from "@/actions/admin"
+import { recordAdminAudit } from "@/lib/audit"
+import { releaseCouponForOrder } from "@/lib/coupons"
+import { adminActor, recordOrderNote, systemActor, transitionOrderStatus } from "@/lib/order-status"
+import { emitOrderWebhooks } from "@/lib/webhooks"
+import { getPaymentProvider } from "@/lib/payment-providers"
+import { changePoints, clawbackOrderCashback, getCancelReturnedPoints } from "@/lib/points"
+import { getRefundRemaining, parseCardIdList, quoteRefund, getRefundPointsRate, recordRefundedLineQuantities, releaseRefundedCards, toStoreCredit, type RefundQuote, type RefundSelection } from "@/lib/refunds"
+import { decryptCardKey, hashCardKey } from "@/lib/card-crypto"
+
+type OrderRow = typeof orders.$inferSelect
+
+async function findOrder(orderId: string) {
+    return await withOrderColumnFallback(() => db.query.orders.findFirst({ where: eq(orders.orderId, orderId) }))
+}
+
+async function shouldReclaimCards(order: OrderRow) {
+    let reclaimCards = true
+    try {
+        const v = await getSetting('refund_reclaim_cards')
+        reclaimCards = v !== 'false'
+    } catch {
+        reclaimCards = true
+    }
+    if (reclaimCards && order.productId) {
+        const product = await db.query.products.findFirst({
+            where: eq(products.id, order.productId),
+            columns: { isShared: true }
+        })
+        if (product?.isShared) reclaimCards = false
+    }
+    return reclaimCards
+}
+
+// Shared and dynamic products have no per-order cards to hand back
+async function hasOwnCards(order: OrderRow) {
+    if (!order.productId) return false
+    const product = await db.query.products.findFirst({
+        where: eq(products.id, order.productId),
+        columns: { isShared: true, fulfillmentType: true }
+    })
+    if (!product) return true // cart orders keep their own cards
+    return !product.isShared && product.fulfillmentType !== 'siyuan_token'
+}
+
+async function refreshAfterRefund(order: OrderRow) {
+    if (order.productId) {
+        try {
+            await recalcOrderProductAggregates(order.orderId, order.productId)
+        } catch {
+            // best effort
+        }
+    }
+    revalidatePath('/admin/orders')
+    revalidatePath(`/admin/orders/${order.orderId}`)
+    revalidatePath('/admin/refunds')
+    revalidatePath(`/order/${order.orderId}`)
+    try {
+        updateTag('home:products')
+    } catch {
+        // best effort
+    }
+}
+
+/**
+ * Move an order to `refunded`. Whatever earlier partial refunds already
+ * returned (points, cards) is not returned a second time.
+ */
+async function finalizeFullRefund(order: OrderRow, actor: string, reason: string, reclaimCards: boolean) {
+    const remaining = getRefundRemaining(order)
+    const { changed } = await transitionOrderStatus(order.orderId, 'refunded', {
+        actor,
+        reason,
+        set: {
+            refundedAmount: Number(order.amount).toFixed(2),
+            refundedQuantity: order.quantity,
+            refundedPoints: order.pointsUsed,
+        }
+    })
+    if (!changed) return false
+
+    // Refund points if used, minus what cancelling the order already returned
+    const points = order.status === 'cancelled'
+        ? Math.max(0, remaining.points - await getCancelReturnedPoints(order.orderId))
+        : remaining.points
+    if (order.userId && points > 0) {
+        await changePoints(order.userId, points, { reason: 'order_refund', orderId: order.orderId, actor })
+    }
+    await clawbackOrderCashback(order, 'all', actor)
+
+    // Give the coupon use back
+    await releaseCouponForOrder(order.orderId)
+
+    // Reclaim cards back to stock (best effort)
+    if (reclaimCards) {
+        const ids = parseCardIdList(order.cardIds).filter((id) => !remaining.refundedCardIds.has(id))
+        if (ids.length > 0) {
+            await db.update(cards).set({ isUsed: false, usedAt: null, reservedOrderId: null, reservedAt: null })
+                .where(inArray(cards.id, ids))
+        } else if (order.cardKey && remaining.refundedCardIds.size === 0) {
+            const plain = await decryptCardKey(order.cardKey)
+            const keys = plain.split('\n').map((k: string) => k.trim()).filter((k: string) => k !== '')
+            if (keys.length > 0) {
+                const uniqueKeys = Array.from(new Set(keys)) as string[]
+                // Encrypted stock only matches by hash; rows not yet migrated still match by value
+                const hashes = await Promise.all(uniqueKeys.map((key) => hashCardKey(key)))
+                await db.update(cards).set({ isUsed: false, usedAt: null, reservedOrderId: null, reservedAt: null })
+                    .where(and(eq(cards.productId, order.productId), or(inArray(cards.keyHash, hashes), inArray(cards.cardKey, uniqueKeys))))
+            }
+        }
+    }
+    return true
+}
+
+/**
+ * Record a partial refund: bump the refunded totals, move the order to
+ * `partially_refunded` (or note a further one), return the points share and
+ * reclaim or void the selected cards.
+ */
+async function applyPartialRefund(order: OrderRow, quote: RefundQuote, selection: RefundSelection, actor: string, note?: string) {
+    const remaining = getRefundRemaining(order)
+    const previousQuantity = Number(order.refundedQuantity || 0)
+    const set = {
+        refundedAmount: (Number(order.refundedAmount || 0) + quote.amount).toFixed(2),
+        refundedQuantity: previousQuantity + quote.quantity,
+        refundedPoints: Number(order.refundedPoints || 0) + quote.points,
+        refundedCardIds: [...remaining.refundedCardIds, ...quote.cardIds].join(',') || null,
+    }
+    const reason = note || `Partial refund of ${quote.amount.toFixed(2)} for ${quote.quantity} unit(s)`
+
+    if (order.status === 'partially_refunded') {
+        // Compare-and-set on the running totals so two refunds cannot both apply
+        const updated = await db.update(orders)
+            .set(set)
+            .where(and(
+                eq(orders.orderId, order.orderId),
+                eq(orders.status, 'partially_refunded'),
+                sql`COALESCE(${orders.refundedQuantity}, 0) = ${previousQuantity}`,
+                sql`COALESCE(${orders.refundedAmount}, '') = ${order.refundedAmount || ''}`
+            ))
+            .returning({ orderId: orders.orderId })
+        if (!updated.length) throw new Error("Order changed while refunding, please retry")
+        await recordOrderNote(order.orderId, 'partially_refunded', actor, reason)
+        await emitOrderWebhooks(order.orderId, 'partially_refunded', 'partially_refunded')
+    } else {
+        const { changed } = await transitionOrderStatus(order.orderId, 'partially_refunded', {
+            actor,
+            reason,
+            from: ['paid', 'delivered'],
+            set
+        })
+        if (!changed) throw new Error("Order is not refundable")
+    }
+
+    if (order.userId && quote.points > 0) {
+        await changePoints(order.userId, quote.points, { reason: 'order_refund', orderId: order.orderId, actor })
+    }
+    await clawbackOrderCashback(order, quote.amount, actor)
+
+    if (quote.cardIds.length && await hasOwnCards(order)) {
+        await releaseRefundedCards(quote.cardIds, selection.cardAction === 'reclaim' ? 'reclaim' : 'void')
+        await recordRefundedLineQuantities(order.orderId, quote.cardIds)
+    }
+
+    // Approved partial requests for this order are now done
+    try {
+        await db.update(refundRequests).set({ status: 'processed', processedAt: new Date(), updatedAt: new Date() })
+            .where(and(eq(refundRequests.orderId, order.orderId), eq(refundRequests.status, 'approved')))
+    } catch {
+        // ignore (table may not exist)
+    }
+}
 
 /**
  * Internal refund function - calls payment gateway and marks order as refunded.
@@ -13,14 +184,7 @@ import { checkAdmin } from "@/actions/admin"
  * Returns { success: boolean, error?: string }
  */
 export async function internalAutoRefund(orderId: string): Promise<{ success: boolean; error?: string }> {
-    const pid = process.env.MERCHANT_ID
-    const key = process.env.MERCHANT_KEY
-
-    if (!pid || !key) {
-        return { success: false, error: 'Missing merchant config' }
-    }
-
-    const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId) })
+    const order = await findOrder(orderId)
     if (!order) {
         return { success: false, error: 'Order not found' }
     }
@@ -29,37 +193,20 @@ export async function internalAutoRefund(orderId: string): Promise<{ success: bo
     }
 
     try {
-        const body = new URLSearchParams({
-            pid,
-            key,
-            trade_no: order.tradeNo,
-            out_trade_no: order.orderId,
-            money: Number(order.amount).toFixed(2),
+        const provider = await getPaymentProvider(order.paymentProvider)
+        const result = await provider.refund({
+            tradeNo: order.tradeNo,
+            outTradeNo: order.orderId,
+            money: getRefundRemaining(order).amount.toFixed(2),
         })
 
-        const resp = await fetch('https://credit.linux.do/epay/api.php', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-            body
-        })
-
-        const text = await resp.text()
-
-        let success = false
-        try {
-            const json = JSON.parse(text)
-            success = json?.code === 1 || json?.status === 'success' || json?.msg === 'success'
-        } catch {
-            success = /success/i.test(text)
-        }
-
-        if (success) {
+        if (result.success) {
             // Mark order as refunded
-            await markOrderRefundedInternal(orderId, order)
+            await markOrderRefundedInternal(order)
             return { success: true }
         }
 
-        return { success: false, error: `Gateway returned: ${text.slice(0, 200)}` }
+        return { success: false, error: `Gateway returned: ${result.message.slice(0, 200)}` }
     } catch (e: any) {
         return { success: false, error: e.message }
     }
@@ -68,22 +215,14 @@ export async function internalAutoRefund(orderId: string): Promise<{ success: bo
 /**
  * Internal function to mark order as refunded (no admin check)
  */
-async function markOrderRefundedInternal(orderId: string, order: any) {
-    // Refund points if used
-    if (order.userId && order.pointsUsed && order.pointsUsed > 0) {
-        await db.update(loginUsers)
-            .set({ points: sql`${loginUsers.points} + ${order.pointsUsed}` })
-            .where(eq(loginUsers.userId, order.userId))
-    }
-
-    // Update order status
-    await db.update(orders).set({ status: 'refunded' }).where(eq(orders.orderId, orderId))
-
+async function markOrderRefundedInternal(order: OrderRow) {
     // For dynamic products, no cards to reclaim
-    // Recalc aggregates
+    const changed = await finalizeFullRefund(order, systemActor, 'Automatic refund after fulfillment failure', false)
+    if (!changed) return
+
     if (order.productId) {
         try {
-            await recalcProductAggregates(order.productId)
+            await recalcOrderProductAggregates(order.orderId, order.productId)
         } catch {
             // best effort
         }
@@ -91,63 +230,21 @@ async function markOrderRefundedInternal(orderId: string, order: any) {
 }
 
 export async function markOrderRefunded(orderId: string) {
-    await checkAdmin()
+    const admin = await checkAdmin('approve_refunds')
 
     // No transaction - D1 doesn't support SQL transactions in HTTP api easily
-    const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId) })
+    const order = await findOrder(orderId)
     if (!order) throw new Error("Order not found")
 
-    // Refund points if used
-    if (order.userId && order.pointsUsed && order.pointsUsed > 0) {
-        await db.update(loginUsers)
-            .set({ points: sql`${loginUsers.points} + ${order.pointsUsed}` })
-            .where(eq(loginUsers.userId, order.userId))
-    }
-
-    // Update order status
-    await db.update(orders).set({ status: 'refunded' }).where(eq(orders.orderId, orderId))
-
-    // Reclaim card back to stock (best effort)
-    let reclaimCards = true
-    try {
-        const v = await getSetting('refund_reclaim_cards')
-        reclaimCards = v !== 'false'
-    } catch {
-        reclaimCards = true
-    }
-    if (reclaimCards) {
-        if (order.productId) {
-            const product = await db.query.products.findFirst({
-                where: eq(products.id, order.productId),
-                columns: { isShared: true }
-            });
-            if (product?.isShared) {
-                reclaimCards = false;
-            }
-        }
-    }
-
-    if (reclaimCards) {
-        const rawIds = order.cardIds || '';
-        const parsedIds = rawIds
-            .split(',')
-            .map((id) => Number(id.trim()))
-            .filter((id) => Number.isFinite(id));
-
-        const uniqueIds = Array.from(new Set(parsedIds));
-
-        if (uniqueIds.length > 0) {
-            await db.update(cards).set({ isUsed: false, usedAt: null, reservedOrderId: null, reservedAt: null })
-                .where(inArray(cards.id, uniqueIds));
-        } else if (order.cardKey) {
-            const keys = order.cardKey.split('\n').map((k: string) => k.trim()).filter((k: string) => k !== '')
-            if (keys.length > 0) {
-                const uniqueKeys = Array.from(new Set(keys)) as string[]
-                await db.update(cards).set({ isUsed: false, usedAt: null, reservedOrderId: null, reservedAt: null })
-                    .where(and(eq(cards.productId, order.productId), inArray(cards.cardKey, uniqueKeys)))
-            }
-        }
-    }
+    // An already refunded order keeps its points and cards as they are
+    const changed = await finalizeFullRefund(order, adminActor(admin.username), 'Refunded by admin', await shouldReclaimCards(order))
+    await recordAdminAudit(admin, 'refunds.full', {
+        targetType: 'order',
+        targetId: orderId,
+        before: { status: order.status },
+        after: { status: changed ? 'refunded' : order.status }
+    })
+    if (!changed) return { success: true }
 
     // Mark refund request processed if table exists
     try {
@@ -157,69 +254,158 @@ export async function markOrderRefunded(orderId: string) {
         // ignore (table may not exist)
     }
 
-    revalidatePath('/admin/orders')
-    revalidatePath('/admin/refunds')
-    revalidatePath(`/order/${orderId}`)
+    await refreshAfterRefund(order)
+    return { success: true }
+}
 
-    if (order.productId) {
-        try {
-            await recalcProductAggregates(order.productId)
-        } catch {
-            // best effort
-        }
+export async function proxyRefund(orderId: string) {
+    const admin = await checkAdmin('approve_refunds')
+
+    const order = await findOrder(orderId)
+    if (!order) throw new Error("Order not found")
+    if (!order.tradeNo) throw new Error("Missing trade_no")
+
+    const provider = await getPaymentProvider(order.paymentProvider)
+    const result = await provider.refund({
+        tradeNo: order.tradeNo,
+        outTradeNo: order.orderId,
+        money: getRefundRemaining(order).amount.toFixed(2),
+    })
+    await recordAdminAudit(admin, 'refunds.gateway', {
+        targetType: 'order',
+        targetId: orderId,
+        details: { amount: getRefundRemaining(order).amount.toFixed(2), success: result.success, message: result.message || null }
+    })
+
+    if (result.success) {
+        await markOrderRefunded(orderId)
+        return { ok: true, processed: true, message: result.message }
     }
-    try {
-        updateTag('home:products')
-    } catch {
-        // best effort
+
+    return { ok: true, processed: false, message: result.message }
+}
+
+/**
+ * Record a partial refund that was already paid out (or needs no money back).
+ * A selection covering everything left is handled as a full refund.
+ */
+export async function markOrderPartiallyRefunded(orderId: string, selection: RefundSelection) {
+    const admin = await checkAdmin('approve_refunds')
+
+    const order = await findOrder(orderId)
+    if (!order) throw new Error("Order not found")
+    const status = order.status || 'pending'
+    if (status !== 'paid' && status !== 'delivered' && status !== 'partially_refunded') {
+        throw new Error("Order is not refundable")
     }
 
+    const quote = quoteRefund(order, selection)
+    if (quote.isFull) return await markOrderRefunded(orderId)
+
+    await applyPartialRefund(order, quote, selection, adminActor(admin.username))
+    await recordAdminAudit(admin, 'refunds.partial', {
+        targetType: 'order',
+        targetId: orderId,
+        details: { amount: quote.amount.toFixed(2), quantity: quote.quantity, cardIds: quote.cardIds.join(',') || null }
+    })
+    await refreshAfterRefund(order)
     return { success: true }
 }
 
-export async function proxyRefund(orderId: string) {
-    await checkAdmin()
-
-    const pid = process.env.MERCHANT_ID
-    const key = process.env.MERCHANT_KEY
-    if (!pid || !key) throw new Error("Missing merchant config")
+/** Send part of the payment back through the gateway, then record it */
+export async function proxyPartialRefund(orderId: string, selection: RefundSelection) {
+    const admin = await checkAdmin('approve_refunds')
 
-    const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId) })
+    const order = await findOrder(orderId)
     if (!order) throw new Error("Order not found")
     if (!order.tradeNo) throw new Error("Missing trade_no")
 
-    const body = new URLSearchParams({
-        pid,
-        key,
-        trade_no: order.tradeNo,
-        out_trade_no: order.orderId,
-        money: Number(order.amount).toFixed(2),
-    })
+    const quote = quoteRefund(order, selection)
+    if (quote.isFull) return await proxyRefund(orderId)
 
-    const resp = await fetch('https://credit.linux.do/epay/api.php', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body
-    })
+    if (quote.amount > 0) {
+        const provider = await getPaymentProvider(order.paymentProvider)
+        const result = await provider.refund({
+            tradeNo: order.tradeNo,
+            outTradeNo: order.orderId,
+            money: quote.amount.toFixed(2),
+        })
+        await recordAdminAudit(admin, 'refunds.gateway', {
+            targetType: 'order',
+            targetId: orderId,
+            details: { amount: quote.amount.toFixed(2), success: result.success, message: result.message || null }
+        })
+        if (!result.success) {
+            return { ok: true, processed: false, message: result.message }
+        }
+        await markOrderPartiallyRefunded(orderId, { ...selection, amount: quote.amount, quantity: quote.quantity })
+        return { ok: true, processed: true, message: result.message }
+    }
 
-    const text = await resp.text()
+    await markOrderPartiallyRefunded(orderId, { ...selection, amount: quote.amount, quantity: quote.quantity })
+    return { ok: true, processed: true, message: '' }
+}
 
-    let success = false
-    try {
-        const json = JSON.parse(text)
-        success = json?.code === 1 || json?.status === 'success' || json?.msg === 'success'
-    } catch {
-        success = /success/i.test(text)
+/**
+ * Refund as store credit: the money part goes to the buyer's points balance at
+ * the configured rate instead of back through the gateway. Without a selection
+ * everything still refundable on the order is credited.
+ */
+export async function refundOrderAsPoints(orderId: string, selection?: RefundSelection | null) {
+    const admin = await checkAdmin('approve_refunds')
+
+    const order = await findOrder(orderId)
+    if (!order) throw new Error("Order not found")
+    if (!order.userId) throw new Error("Store credit needs a signed-in buyer")
+    const status = order.status || 'pending'
+    if (status !== 'paid' && status !== 'delivered' && status !== 'partially_refunded') {
+        throw new Error("Order is not refundable")
     }
 
-    if (!resp.ok) {
-        throw new Error(`Refund proxy failed (${resp.status})`)
+    const remaining = getRefundRemaining(order)
+    const quote = quoteRefund(order, selection || { quantity: remaining.quantity, amount: remaining.amount })
+    const credit = toStoreCredit(quote.amount, await getRefundPointsRate())
+    const actor = adminActor(admin.username)
+    const reason = `Refunded ${quote.amount.toFixed(2)} as ${credit} points`
+
+    if (quote.isFull) {
+        const changed = await finalizeFullRefund(order, actor, reason, await shouldReclaimCards(order))
+        if (!changed) return { success: true, points: 0 }
+        try {
+            await db.update(refundRequests).set({ status: 'processed', processedAt: new Date(), updatedAt: new Date() })
+                .where(eq(refundRequests.orderId, orderId))
+        } catch {
+            // ignore (table may not exist)
+        }
+    } else {
+        await applyPartialRefund(order, quote, selection || {}, actor, reason)
     }
 
-    if (success) {
-        await markOrderRefunded(orderId)
-        return { ok: true, processed: true, message: text.slice(0, 500) }
+    await recordAdminAudit(admin, 'refunds.points', {
+        targetType: 'order',
+        targetId: orderId,
+        details: { amount: quote.amount.toFixed(2), quantity: quote.quantity, points: credit, full: quote.isFull }
+    })
+
+    if (credit > 0) {
+        await changePoints(order.userId, credit, { reason: 'refund_credit', orderId: order.orderId, actor, note: reason })
     }
 
-    return { ok: true, processed: false, message: text.slice(0, 500) }
+    await createUserNotification({
+        userId: order.userId,
+        type: 'refund_points',
+        titleKey: 'profile.notifications.refundPointsTitle',
+        contentKey: 'profile.notifications.refundPointsBody',
+        data: {
+            params: {
+                orderId: order.orderId,
+                productName: order.productName || 'Product',
+                points: credit
+            },
+            href: `/order/${order.orderId}`
+        }
+    })
+
+    await refreshAfterRefund(order)
+    return { success: true, points: credit }
 }
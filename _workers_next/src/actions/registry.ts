@@ -1,6 +1,7 @@
 "use server"
 
 import { checkAdmin } from "@/actions/admin"
+import { recordAdminAudit } from "@/lib/audit"
 import { getSetting, setSetting } from "@/lib/db/queries"
 import { ensureRegistryInstanceId, getRegistryBaseUrl, normalizeOrigin } from "@/lib/registry"
 import { revalidatePath } from "next/cache"
@@ -11,14 +12,15 @@ interface RegistryResult {
 }
 
 export async function dismissRegistryPrompt(): Promise<RegistryResult> {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
     await setSetting("registry_prompted", "true")
     await setSetting("registry_opt_in", "false")
+    await recordAdminAudit(admin, 'settings.registry', { targetType: 'settings', details: { registry_opt_in: 'false' } })
     return { ok: true }
 }
 
 export async function joinRegistry(origin: string): Promise<RegistryResult> {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
     const baseUrl = getRegistryBaseUrl()
     if (!baseUrl) {
         return { ok: false, error: "registry_not_configured" }
@@ -67,6 +69,7 @@ export async function joinRegistry(origin: string): Promise<RegistryResult> {
     await setSetting("registry_hide_nav", "false")
     await setSetting("registry_prompted", "true")
     await setSetting("registry_last_submit_at", String(Date.now()))
+    await recordAdminAudit(admin, 'settings.registry', { targetType: 'settings', details: { registry_opt_in: 'true', registry_origin: normalized } })
 
     revalidatePath("/nav")
     revalidatePath("/navi")
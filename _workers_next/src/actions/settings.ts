@@ -5,6 +5,7 @@ import { revalidatePath, updateTag } from "next/cache"
 import { db } from "@/lib/db"
 import { sql } from "drizzle-orm"
 import { checkAdmin } from "@/actions/admin"
+import { auditSettings } from "@/lib/audit"
 
 export type AnnouncementConfig = {
     content: string
@@ -31,13 +32,14 @@ function parseAnnouncement(raw: string | null): AnnouncementConfig | null {
 }
 
 export async function saveAnnouncement(config: AnnouncementConfig) {
-    await checkAdmin()
+    const admin = await checkAdmin('edit_settings')
 
     const content = String(config.content || '')
     const startAt = config.startAt ? String(config.startAt) : null
     const endAt = config.endAt ? String(config.endAt) : null
 
     const payload = JSON.stringify({ content, startAt, endAt })
+    await auditSettings(admin, 'settings.announcement', { announcement: payload })
     try {
         await setSetting('announcement', payload)
     } catch (error: any) {
@@ -5,6 +5,7 @@ import { userMessages, loginUsers } from "@/lib/db/schema"
 import { eq, sql } from "drizzle-orm"
 import { auth } from "@/lib/auth"
 import { checkAdmin } from "@/actions/admin"
+import { recordAdminAudit } from "@/lib/audit"
 import { revalidatePath } from "next/cache"
 
 async function ensureUserMessagesTable() {
@@ -71,25 +72,28 @@ export async function getUnreadUserMessageCount() {
 }
 
 export async function markUserMessageRead(id: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
     await ensureUserMessagesTable()
     await db.update(userMessages).set({ isRead: true }).where(eq(userMessages.id, id))
+    await recordAdminAudit(admin, 'messages.read_inbox', { targetType: 'user_message', targetId: id })
     revalidatePath("/admin/messages")
     return { success: true }
 }
 
 export async function deleteUserMessage(id: number) {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
     await ensureUserMessagesTable()
     await db.delete(userMessages).where(eq(userMessages.id, id))
+    await recordAdminAudit(admin, 'messages.delete_inbox', { targetType: 'user_message', targetId: id })
     revalidatePath("/admin/messages")
     return { success: true }
 }
 
 export async function clearUserMessages() {
-    await checkAdmin()
+    const admin = await checkAdmin('manage_users')
     await ensureUserMessagesTable()
     await db.delete(userMessages)
+    await recordAdminAudit(admin, 'messages.clear_inbox', { targetType: 'user_message' })
     revalidatePath("/admin/messages")
     return { success: true }
 }
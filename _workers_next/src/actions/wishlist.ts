@@ -6,6 +6,7 @@ import { loginUsers } from "@/lib/db/schema"
 import { eq, sql } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 import { getSetting } from "@/lib/db/queries"
+import { recordAdminAudit } from "@/lib/audit"
 
 async function safeAddColumn(table: string, column: string, definition: string) {
     try {
@@ -174,11 +175,12 @@ export async function toggleWishlistVote(itemId: number) {
 
 export async function deleteWishlistItem(id: number) {
     const { checkAdmin } = await import("./admin")
-    await checkAdmin()
+    const admin = await checkAdmin('manage_products')
 
     await db.run(sql`
         DELETE FROM wishlist_items WHERE id = ${id}
     `)
+    await recordAdminAudit(admin, 'wishlist.delete', { targetType: 'wishlist_item', targetId: id })
 
     revalidatePath("/")
     revalidatePath("/wishlist")
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { getAdminAccess, hasCapability } from "@/lib/admin-auth"
+import { exportAdminAuditLog, parseAuditFilters } from "@/lib/audit"
+
+function csvEscape(value: any): string {
+  if (value === null || value === undefined) return ""
+  const str = String(value)
+  if (/[",\n]/.test(str)) return `"${str.replace(/"/g, '""')}"`
+  return str
+}
+
+export async function GET(req: Request) {
+  const session = await auth()
+  const access = await getAdminAccess(session?.user)
+  if (!access) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasCapability(access, "manage_roles") || !hasCapability(access, "export_data")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(req.url)
+  const filters = parseAuditFilters((key) => searchParams.get(key))
+
+  try {
+    const rows = await exportAdminAuditLog(filters)
+    const headers = ["id", "created_at", "admin_id", "admin_username", "action", "target_type", "target_id", "changes"]
+    const lines = [headers.join(",")]
+    for (const row of rows) {
+      lines.push([
+        row.id,
+        row.createdAt ? row.createdAt.toISOString() : "",
+        row.adminId,
+        row.adminUsername,
+        row.action,
+        row.targetType,
+        row.targetId,
+        row.changes,
+      ].map(csvEscape).join(","))
+    }
+    const stamp = new Date().toISOString().slice(0, 10)
+    return new NextResponse(lines.join("\n") + "\n", {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="admin-audit-${stamp}.csv"`,
+      },
+    })
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Export failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { getAdminAuditLog, getAuditAdmins, parseAuditFilters } from "@/lib/audit"
+import { hasCapability, requireAdminPage } from "@/lib/admin-auth"
+import { AdminAuditContent } from "@/components/admin/audit-content"
+import { unstable_noStore } from "next/cache"
+
+function parseIntParam(value: unknown, fallback: number) {
+    const num = typeof value === 'string' ? Number.parseInt(value, 10) : NaN
+    return Number.isFinite(num) && num > 0 ? num : fallback
+}
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+    if (!value) return undefined
+    return Array.isArray(value) ? value[0] : value
+}
+
+export default async function AdminAuditPage(props: {
+    searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+    unstable_noStore()
+    const access = await requireAdminPage('manage_roles')
+    const searchParams = await props.searchParams
+
+    const filters = parseAuditFilters((key) => firstParam(searchParams[key]))
+    const page = parseIntParam(firstParam(searchParams.page), 1)
+    const pageSize = 50
+
+    const [{ rows, total }, admins] = await Promise.all([
+        getAdminAuditLog({ ...filters, page, pageSize }),
+        getAuditAdmins(),
+    ])
+
+    return (
+        <AdminAuditContent
+            entries={rows.map((e) => ({
+                id: e.id,
+                adminUsername: e.adminUsername,
+                action: e.action,
+                targetType: e.targetType,
+                targetId: e.targetId,
+                changes: e.changes,
+                createdAt: e.createdAt ? e.createdAt.getTime() : null,
+            }))}
+            admins={admins}
+            total={total}
+            page={page}
+            pageSize={pageSize}
+            filters={{
+                admin: filters.admin || '',
+                action: filters.action || 'all',
+                q: filters.q || '',
+                from: filters.fromDay,
+                to: filters.toDay,
+            }}
+            canExport={hasCapability(access, 'export_data')}
+        />
+    )
+}
@@ -4,9 +4,11 @@ import { desc, sql } from "drizzle-orm"
 import { cleanupExpiredCardsIfNeeded, getProductForAdmin } from "@/lib/db/queries"
 import { notFound } from "next/navigation"
 import { CardsContent } from "@/components/admin/cards-content"
+import { cardKeyForAdmin, requireAdminPage } from "@/lib/admin-auth"
 
 export default async function CardsPage({ params }: { params: Promise<{ id: string }> }) {
     const { id } = await params
+    const access = await requireAdminPage()
     const product = await getProductForAdmin(id)
     if (!product) return notFound()
 
@@ -54,7 +56,8 @@ export default async function CardsPage({ params }: { params: Promise<{ id: stri
         <CardsContent
             productId={id}
             productName={product.name}
-            unusedCards={unusedCards.map((c: any) => ({ id: c.id, cardKey: c.cardKey }))}
+            unusedCards={await Promise.all(unusedCards.map(async (c: any) => ({ id: c.id, cardKey: (await cardKeyForAdmin(access, c.cardKey)) ?? '', variantId: c.variantId ?? null })))}
+            variants={product.variants.map((v) => ({ id: v.id, name: v.name, isActive: v.isActive !== false }))}
         />
     )
 }
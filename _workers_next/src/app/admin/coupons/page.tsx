@@ -0,0 +1,27 @@
+import { getCategories, getProducts } from "@/lib/db/queries"
+import { getCoupons } from "@/lib/coupons"
+import { AdminCouponsContent } from "@/components/admin/coupons-content"
+import { unstable_noStore } from "next/cache"
+
+export default async function AdminCouponsPage() {
+  unstable_noStore()
+  const [coupons, categories, products] = await Promise.all([
+    getCoupons(),
+    getCategories(),
+    getProducts(),
+  ])
+
+  return (
+    <AdminCouponsContent
+      coupons={coupons.map((c) => ({
+        ...c,
+        startsAt: c.startsAt ? c.startsAt.getTime() : null,
+        endsAt: c.endsAt ? c.endsAt.getTime() : null,
+        createdAt: c.createdAt ? c.createdAt.getTime() : null,
+        updatedAt: c.updatedAt ? c.updatedAt.getTime() : null,
+      }))}
+      categories={categories.map((c) => c.name)}
+      products={products.map((p: any) => ({ id: p.id, name: p.name }))}
+    />
+  )
+}
@@ -1,16 +1,11 @@
 import { NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
 import { db } from "@/lib/db"
-import { orders, reviews, settings, products, cards, loginUsers, categories, refundRequests, dailyCheckins } from "@/lib/db/schema"
+import { orders, orderItems, reviews, settings, products, cards, loginUsers, categories, refundRequests, dailyCheckins, coupons, couponRedemptions, paymentEvents, orderEvents, productVariants, productPriceTiers, memberDiscounts, pointsTransactions, referrals, adminRoles, adminAuditLog, webhookEndpoints, notificationChannels } from "@/lib/db/schema"
 import { and, desc, eq, or, sql } from "drizzle-orm"
 import { getProducts, normalizeTimestampMs } from "@/lib/db/queries"
-
-function requireAdminUsername(username?: string | null) {
-  const adminUsers = process.env.ADMIN_USERS?.toLowerCase().split(",") || []
-  if (!username || !adminUsers.includes(username.toLowerCase())) {
-    throw new Error("Unauthorized")
-  }
-}
+import { getAdminAccess, hasCapability } from "@/lib/admin-auth"
+import { decryptCardKey } from "@/lib/card-crypto"
 
 function isMissingTable(error: any) {
   const errorString = JSON.stringify(error)
@@ -64,12 +59,21 @@ function rowToInsertOrIgnore(table: string, row: Record<string, any>): string {
 
 export async function GET(req: Request) {
   const session = await auth()
-  requireAdminUsername(session?.user?.username ?? null)
+  const access = await getAdminAccess(session?.user)
+  if (!access) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasCapability(access, "export_data")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
 
   const { searchParams } = new URL(req.url)
   const type = (searchParams.get("type") || "").toLowerCase()
   const format = (searchParams.get("format") || "").toLowerCase()
   const includeSecrets = searchParams.get("includeSecrets") === "1"
+  if (includeSecrets && !hasCapability(access, "view_card_keys")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
   const q = (searchParams.get("q") || "").trim()
   const status = (searchParams.get("status") || "all").trim()
   const fulfillment = (searchParams.get("fulfillment") || "all").trim()
@@ -95,22 +99,25 @@ export async function GET(req: Request) {
         where: whereExpr,
         orderBy: [desc(normalizeTimestampMs(orders.createdAt))],
       })
-      const mapped = orderRows.map((o: any) => ({
+      // Explicit secret exports are the one place keys leave the database decrypted
+      const mapped = await Promise.all(orderRows.map(async (o: any) => ({
         orderId: o.orderId,
         username: o.username,
         email: includeSecrets ? o.email : null,
         productId: o.productId,
         productName: o.productName,
+        variantName: o.variantName,
         amount: o.amount,
+        refundedAmount: o.refundedAmount,
         status: o.status,
         tradeNo: includeSecrets ? o.tradeNo : null,
-        cardKey: includeSecrets ? o.cardKey : null,
+        cardKey: includeSecrets ? await decryptCardKey(o.cardKey) : null,
         cardIds: includeSecrets ? o.cardIds : null,
         createdAt: o.createdAt,
         paidAt: o.paidAt,
         deliveredAt: o.deliveredAt,
         userId: o.userId,
-      }))
+      })))
 
       if (format === "json") {
         return NextResponse.json(mapped, {
@@ -127,7 +134,9 @@ export async function GET(req: Request) {
           "email",
           "productId",
           "productName",
+          "variantName",
           "amount",
+          "refundedAmount",
           "status",
           "tradeNo",
           "cardKey",
@@ -242,6 +251,10 @@ export async function GET(req: Request) {
     }
 
     if (type === "settings") {
+      // Settings hold transport passwords, API keys and bot secrets in plain text
+      if (!hasCapability(access, "edit_settings")) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
       const rows = await db.query.settings.findMany({
         orderBy: [desc(settings.updatedAt)],
       })
@@ -258,17 +271,37 @@ export async function GET(req: Request) {
     }
 
     if (type === "full") {
+      // The full dump carries every card key (encrypted ones stay encrypted; restore with the same CARD_KEY_SECRET)
+      // plus settings, webhook signing secrets and notification channel credentials
+      if (!hasCapability(access, "view_card_keys") || !hasCapability(access, "edit_settings")) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
       const full: Record<string, any[]> = {}
       const tables: Array<[string, () => Promise<any[]>]> = [
         ["products", () => db.select().from(products).all()],
+        ["product_variants", () => db.select().from(productVariants).all()],
+        ["product_price_tiers", () => db.select().from(productPriceTiers).all()],
+        ["member_discounts", () => db.select().from(memberDiscounts).all()],
         ["cards", () => db.select().from(cards).all()],
         ["orders", () => db.select().from(orders).all()],
+        ["order_items", () => db.select().from(orderItems).all()],
         ["reviews", () => db.select().from(reviews).all()],
         ["settings", () => db.select().from(settings).all()],
         ["login_users", () => db.select().from(loginUsers).all()],
         ["categories", () => db.select().from(categories).all()],
         ["refund_requests", () => db.select().from(refundRequests).all()],
         ["daily_checkins_v2", () => db.select().from(dailyCheckins).all()],
+        ["points_transactions", () => db.select().from(pointsTransactions).all()],
+        ["referrals", () => db.select().from(referrals).all()],
+        ["admin_roles", () => db.select().from(adminRoles).all()],
+        ["admin_audit_log", () => db.select().from(adminAuditLog).all()],
+        // Endpoint config only; the delivery log is a transient queue
+        ["webhook_endpoints", () => db.select().from(webhookEndpoints).all()],
+        ["notification_channels", () => db.select().from(notificationChannels).all()],
+        ["coupons", () => db.select().from(coupons).all()],
+        ["coupon_redemptions", () => db.select().from(couponRedemptions).all()],
+        ["payment_events", () => db.select().from(paymentEvents).all()],
+        ["order_events", () => db.select().from(orderEvents).all()],
       ]
 
       for (const [tableName, fetcher] of tables) {
@@ -310,6 +343,7 @@ export async function GET(req: Request) {
           // Cards
           productId: 'product_id',
           cardKey: 'card_key',
+          keyHash: 'key_hash',
           isUsed: 'is_used',
           reservedOrderId: 'reserved_order_id',
           reservedAt: 'reserved_at',
@@ -323,6 +357,20 @@ export async function GET(req: Request) {
           userId: 'user_id',
           pointsUsed: 'points_used',
           currentPaymentId: 'current_payment_id',
+          cardIds: 'card_ids',
+          couponCode: 'coupon_code',
+          discountAmount: 'discount_amount',
+          paymentProvider: 'payment_provider',
+          // Payment Events
+          outTradeNo: 'out_trade_no',
+          rawParams: 'raw_params',
+          signatureValid: 'signature_valid',
+          tradeStatus: 'trade_status',
+          statusBefore: 'status_before',
+          statusAfter: 'status_after',
+          // Order Events
+          fromStatus: 'from_status',
+          toStatus: 'to_status',
           // Reviews
           // orderId, productId, userId already covered
           // Settings
@@ -330,12 +378,75 @@ export async function GET(req: Request) {
           // Login Users
           lastLoginAt: 'last_login_at',
           isBlocked: 'is_blocked',
+          referralCode: 'referral_code',
           // Categories
           // icon, sortOrder already covered or simple
           // Refund Requests
           adminUsername: 'admin_username',
           adminNote: 'admin_note',
           processedAt: 'processed_at',
+          // Coupons
+          scopeValue: 'scope_value',
+          minSpend: 'min_spend',
+          maxUses: 'max_uses',
+          perUserLimit: 'per_user_limit',
+          usedCount: 'used_count',
+          allowPoints: 'allow_points',
+          startsAt: 'starts_at',
+          endsAt: 'ends_at',
+          couponId: 'coupon_id',
+          // Product Variants
+          variantId: 'variant_id',
+          variantName: 'variant_name',
+          stockCount: 'stock_count',
+          lockedCount: 'locked_count',
+          soldCount: 'sold_count',
+          // Price Tiers
+          minQuantity: 'min_quantity',
+          // Member Discounts
+          minTrustLevel: 'min_trust_level',
+          userTag: 'user_tag',
+          percentOff: 'percent_off',
+          memberDiscount: 'member_discount',
+          memberDiscountRule: 'member_discount_rule',
+          // Product schedule / flash sale
+          publishAt: 'publish_at',
+          unpublishAt: 'unpublish_at',
+          salePrice: 'sale_price',
+          saleStartsAt: 'sale_starts_at',
+          saleEndsAt: 'sale_ends_at',
+          saleQuantity: 'sale_quantity',
+          // Stock alerts
+          lowStockThreshold: 'low_stock_threshold',
+          stockAlert: 'stock_alert',
+          soldOutState: 'sold_out_state',
+          // Partial refunds
+          refundedAmount: 'refunded_amount',
+          refundedQuantity: 'refunded_quantity',
+          refundedPoints: 'refunded_points',
+          refundedCardIds: 'refunded_card_ids',
+          refundAmount: 'refund_amount',
+          refundQuantity: 'refund_quantity',
+          refundMethod: 'refund_method',
+          refundPoints: 'refund_points',
+          // Points ledger
+          balanceAfter: 'balance_after',
+          expiresAt: 'expires_at',
+          expiryNotifiedAt: 'expiry_notified_at',
+          // Check-ins
+          isMakeup: 'is_makeup',
+          // Referrals
+          inviterId: 'inviter_id',
+          inviteeId: 'invitee_id',
+          inviterPoints: 'inviter_points',
+          inviteePoints: 'invitee_points',
+          rewardedAt: 'rewarded_at',
+          // Admin roles
+          grantedBy: 'granted_by',
+          // Audit log
+          adminId: 'admin_id',
+          targetType: 'target_type',
+          targetId: 'target_id',
         }
 
         for (const [tableName, rows] of Object.entries(full)) {
@@ -1,7 +1,10 @@
 import { getSetting } from "@/lib/db/queries"
 import { AdminDataContent } from "@/components/admin/export-content"
+import { requireAdminPage } from "@/lib/admin-auth"
+import { getCardKeyStorageStatus } from "@/lib/card-keys"
 
 export default async function AdminDataPage() {
+  await requireAdminPage('export_data')
   let shopName: string | null = null
   try {
     shopName = await getSetting("shop_name")
@@ -9,6 +12,8 @@ export default async function AdminDataPage() {
     shopName = null
   }
 
-  return <AdminDataContent shopName={shopName} />
+  const cardKeyStatus = await getCardKeyStorageStatus().catch(() => null)
+
+  return <AdminDataContent shopName={shopName} cardKeyStatus={cardKeyStatus} />
 }
 
@@ -5,19 +5,20 @@ import { UpdateNotification } from "@/components/admin/update-notification"
 import { getSetting, setSetting } from "@/lib/db/queries"
 import { RegistryPrompt } from "@/components/admin/registry-prompt"
 import { isRegistryEnabled } from "@/lib/registry"
+import { getAdminAccess } from "@/lib/admin-auth"
 import { Suspense } from "react"
 
 async function AdminLayoutContent({ children }: { children: React.ReactNode }) {
     const session = await auth()
     const user = session?.user
 
-    // Admin Check - redirect to home if not admin
-    const adminUsers = process.env.ADMIN_USERS?.toLowerCase().split(',') || []
-    if (!user || !user.username || !adminUsers.includes(user.username.toLowerCase())) {
+    // Admin Check - redirect to home if not staff
+    const access = await getAdminAccess(user)
+    if (!user || !user.username || !access) {
         redirect("/")
     }
 
-    if (user?.avatar_url) {
+    if (access.role === 'owner' && user?.avatar_url) {
         try {
             const currentLogo = await getSetting("shop_logo")
             if (!currentLogo || !currentLogo.trim()) {
@@ -53,7 +54,7 @@ async function AdminLayoutContent({ children }: { children: React.ReactNode }) {
             <UpdateNotification />
             <RegistryPrompt shouldPrompt={shouldPrompt} registryEnabled={registryEnabled} />
             <div className="flex flex-1 flex-col md:flex-row">
-                <AdminSidebar username={user.username} />
+                <AdminSidebar username={user.username} role={access.role} capabilities={access.capabilities} />
                 <main className="flex-1 p-6 md:p-12 overflow-y-auto">
                     {children}
                 </main>
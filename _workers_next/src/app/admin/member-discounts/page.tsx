@@ -0,0 +1,27 @@
+import { getProducts } from "@/lib/db/queries"
+import { getMemberDiscounts } from "@/lib/member-discounts"
+import { AdminMemberDiscountsContent } from "@/components/admin/member-discounts-content"
+import { unstable_noStore } from "next/cache"
+
+export default async function AdminMemberDiscountsPage() {
+  unstable_noStore()
+  const [rules, products] = await Promise.all([
+    getMemberDiscounts(),
+    getProducts(),
+  ])
+
+  return (
+    <AdminMemberDiscountsContent
+      rules={rules.map((r) => ({
+        id: r.id,
+        name: r.name,
+        productId: r.productId,
+        minTrustLevel: r.minTrustLevel,
+        userTag: r.userTag,
+        percentOff: r.percentOff,
+        isActive: r.isActive,
+      }))}
+      products={products.map((p: any) => ({ id: p.id, name: p.name }))}
+    />
+  )
+}
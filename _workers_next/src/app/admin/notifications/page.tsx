@@ -1,25 +1,85 @@
-import { checkAdmin } from "@/actions/admin"
+import { requireAdminPage } from "@/lib/admin-auth"
 import { NotificationsContent } from "@/components/admin/notifications-content"
-import { getNotificationSettings } from "@/lib/notifications"
-import { getEmailSettings } from "@/lib/email"
+import { getNotificationChannels } from "@/lib/notifications"
+import { getEmailSettings, getEmailTemplates, getRecentOutboxEmails, processEmailOutbox } from "@/lib/email"
+import { getSetting } from "@/lib/db/queries"
+import { WEBHOOK_EVENTS, getRecentWebhookDeliveries, getWebhookEndpoints, parseWebhookEvents, processWebhookQueue } from "@/lib/webhooks"
 
 export default async function NotificationsPage() {
-    await checkAdmin()
-    const [settings, emailSettings] = await Promise.all([
-        getNotificationSettings(),
-        getEmailSettings()
+    await requireAdminPage('edit_settings')
+    // No cron on Workers: opening the page also sends any retries that are due
+    await processWebhookQueue().catch(() => 0)
+    await processEmailOutbox().catch(() => 0)
+    const [channels, emailSettings, emailTemplates, outbox, shopName, endpoints, deliveries, botChannelId, botChatIds] = await Promise.all([
+        getNotificationChannels(),
+        getEmailSettings(),
+        getEmailTemplates(),
+        getRecentOutboxEmails(),
+        getSetting('shop_name'),
+        getWebhookEndpoints(),
+        getRecentWebhookDeliveries(),
+        getSetting('telegram_bot_channel_id'),
+        getSetting('telegram_bot_chat_ids')
     ])
 
     return (
-        <NotificationsContent settings={{
-            telegramBotToken: settings.token || '',
-            telegramChatId: settings.chatId || '',
-            telegramLanguage: settings.language || 'zh',
-            resendApiKey: emailSettings.apiKey || '',
-            resendFromEmail: emailSettings.fromEmail || '',
-            resendFromName: emailSettings.fromName || '',
-            resendEnabled: emailSettings.enabled,
-            emailLanguage: emailSettings.language || 'zh'
-        }} />
+        <NotificationsContent
+            settings={{
+                resendApiKey: emailSettings.apiKey || '',
+                resendFromEmail: emailSettings.fromEmail || '',
+                resendFromName: emailSettings.fromName || '',
+                resendEnabled: emailSettings.enabled,
+                emailLanguage: emailSettings.language || 'zh',
+                emailTransport: emailSettings.transport,
+                smtpHost: emailSettings.smtp.host,
+                smtpPort: emailSettings.smtp.port,
+                smtpSecure: emailSettings.smtp.secure,
+                smtpUsername: emailSettings.smtp.username,
+                smtpPassword: emailSettings.smtp.password,
+                emailHttpUrl: emailSettings.http.url,
+                emailHttpToken: emailSettings.http.token
+            }}
+            siteName={shopName || ''}
+            emailTemplates={emailTemplates}
+            outbox={outbox.map((m) => ({
+                id: m.id,
+                kind: m.kind,
+                toAddress: m.toAddress,
+                subject: m.subject,
+                status: m.status || 'pending',
+                attempts: m.attempts || 0,
+                transport: m.transport,
+                error: m.error,
+                nextAttemptAt: m.nextAttemptAt ? m.nextAttemptAt.getTime() : null,
+                sentAt: m.sentAt ? m.sentAt.getTime() : null,
+                createdAt: m.createdAt ? m.createdAt.getTime() : null
+            }))}
+            channels={channels}
+            telegramBot={{
+                channelId: botChannelId ? Number(botChannelId) : null,
+                chatIds: (botChatIds || '').split(',').filter(Boolean).join(', ')
+            }}
+            webhookEvents={[...WEBHOOK_EVENTS]}
+            webhooks={endpoints.map((e) => ({
+                id: e.id,
+                url: e.url,
+                secret: e.secret,
+                description: e.description,
+                events: parseWebhookEvents(e.events),
+                isActive: e.isActive !== false
+            }))}
+            deliveries={deliveries.map((d) => ({
+                id: d.id,
+                endpointId: d.endpointId,
+                event: d.event,
+                status: d.status || 'pending',
+                attempts: d.attempts || 0,
+                responseStatus: d.responseStatus,
+                error: d.error,
+                durationMs: d.durationMs,
+                nextAttemptAt: d.nextAttemptAt ? d.nextAttemptAt.getTime() : null,
+                createdAt: d.createdAt ? d.createdAt.getTime() : null
+            }))}
+        />
     )
 }
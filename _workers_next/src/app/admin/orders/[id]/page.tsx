@@ -4,12 +4,22 @@ import { orders } from "@/lib/db/schema"
 import { eq } from "drizzle-orm"
 import { AdminOrderDetailContent } from "@/components/admin/order-detail-content"
 import { unstable_noStore } from "next/cache"
+import { getOrderItems } from "@/lib/db/queries"
+import { isCartOrder } from "@/lib/cart"
+import { getOrderEvents } from "@/lib/order-status"
+import { getOrderRefundCards } from "@/lib/refunds"
+import { cardKeyForAdmin, hasCapability, maskCardKey, requireAdminPage } from "@/lib/admin-auth"
 
 export default async function AdminOrderDetailPage({ params }: { params: Promise<{ id: string }> }) {
   unstable_noStore()
   const { id } = await params
+  const access = await requireAdminPage()
+  const showKeys = hasCapability(access, 'view_card_keys')
   const order = await db.query.orders.findFirst({ where: eq(orders.orderId, id) })
   if (!order) return notFound()
+  const items = isCartOrder(order.productId) ? await getOrderItems(id).catch(() => []) : []
+  const events = await getOrderEvents(id)
+  const refundCards = await getOrderRefundCards(order).catch(() => [])
 
   return (
     <AdminOrderDetailContent
@@ -20,14 +30,34 @@ export default async function AdminOrderDetailPage({ params }: { params: Promise
         email: order.email,
         productId: order.productId,
         productName: order.productName,
+        variantName: order.variantName,
         amount: order.amount,
+        quantity: order.quantity,
+        refundedAmount: order.refundedAmount,
+        refundedQuantity: order.refundedQuantity,
+        refundedPoints: order.refundedPoints,
+        couponCode: order.couponCode,
+        discountAmount: order.discountAmount,
+        memberDiscount: order.memberDiscount,
+        memberDiscountRule: order.memberDiscountRule,
+        paymentProvider: order.paymentProvider,
         status: order.status,
         tradeNo: order.tradeNo,
-        cardKey: order.cardKey,
+        cardKey: await cardKeyForAdmin(access, order.cardKey),
         createdAt: order.createdAt,
         paidAt: order.paidAt,
         deliveredAt: order.deliveredAt,
       }}
+      items={await Promise.all(items.map(async (item) => ({ ...item, cardKey: await cardKeyForAdmin(access, item.cardKey) })))}
+      refundCards={showKeys ? refundCards : refundCards.map((c) => ({ ...c, key: maskCardKey(c.key) }))}
+      events={events.map((e) => ({
+        id: e.id,
+        fromStatus: e.fromStatus,
+        toStatus: e.toStatus,
+        actor: e.actor,
+        reason: e.reason,
+        createdAt: e.createdAt,
+      }))}
     />
   )
 }
@@ -5,6 +5,7 @@ import { AdminOrdersContent } from "@/components/admin/orders-content"
 import { cancelExpiredOrders, normalizeTimestampMs, withOrderColumnFallback } from "@/lib/db/queries"
 import { PAYMENT_PRODUCT_ID } from "@/lib/payment"
 import { unstable_noStore } from "next/cache"
+import { cardKeyForAdmin, requireAdminPage } from "@/lib/admin-auth"
 
 function parseIntParam(value: unknown, fallback: number) {
     const num = typeof value === 'string' ? Number.parseInt(value, 10) : NaN
@@ -20,6 +21,7 @@ export default async function AdminOrdersPage(props: {
     searchParams: Promise<Record<string, string | string[] | undefined>>
 }) {
     unstable_noStore()
+    const access = await requireAdminPage()
     const searchParams = await props.searchParams
     try {
         await cancelExpiredOrders()
@@ -69,17 +71,17 @@ export default async function AdminOrdersPage(props: {
 
     return (
         <AdminOrdersContent
-            orders={rows.map((o: any) => ({
+            orders={await Promise.all(rows.map(async (o: any) => ({
                 orderId: o.orderId,
                 username: o.username,
                 email: o.email,
                 productName: o.productName,
                 amount: o.amount,
                 status: o.status,
-                cardKey: o.cardKey,
+                cardKey: await cardKeyForAdmin(access, o.cardKey),
                 tradeNo: o.tradeNo,
                 createdAt: o.createdAt
-            }))}
+            })))}
             total={total}
             page={page}
             pageSize={pageSize}
@@ -0,0 +1,55 @@
+import { getPaymentEvents } from "@/lib/payment-events"
+import { AdminPaymentEventsContent } from "@/components/admin/payment-events-content"
+import { unstable_noStore } from "next/cache"
+
+function parseIntParam(value: unknown, fallback: number) {
+    const num = typeof value === 'string' ? Number.parseInt(value, 10) : NaN
+    return Number.isFinite(num) && num > 0 ? num : fallback
+}
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+    if (!value) return undefined
+    return Array.isArray(value) ? value[0] : value
+}
+
+export default async function AdminPaymentEventsPage(props: {
+    searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+    unstable_noStore()
+    const searchParams = await props.searchParams
+
+    const orderId = (firstParam(searchParams.order) || '').trim()
+    const result = (firstParam(searchParams.result) || 'all').trim()
+    const page = parseIntParam(firstParam(searchParams.page), 1)
+    const pageSize = 50
+
+    const { rows, total } = await getPaymentEvents({ orderId, result, page, pageSize })
+
+    return (
+        <AdminPaymentEventsContent
+            events={rows.map((e) => ({
+                id: e.id,
+                orderId: e.orderId,
+                outTradeNo: e.outTradeNo,
+                provider: e.provider,
+                source: e.source,
+                method: e.method,
+                rawParams: e.rawParams,
+                signatureValid: !!e.signatureValid,
+                tradeStatus: e.tradeStatus,
+                tradeNo: e.tradeNo,
+                amount: e.amount,
+                result: e.result,
+                statusBefore: e.statusBefore,
+                statusAfter: e.statusAfter,
+                error: e.error,
+                createdAt: e.createdAt ? e.createdAt.getTime() : null,
+            }))}
+            total={total}
+            page={page}
+            pageSize={pageSize}
+            orderId={orderId}
+            result={result}
+        />
+    )
+}
@@ -2,6 +2,7 @@ import { cleanupExpiredCardsIfNeeded, getProducts, getSetting, getLiveCardStats
 import { cookies } from "next/headers"
 import { AdminProductsContent } from "@/components/admin/products-content"
 import { INFINITE_STOCK } from "@/lib/constants"
+import { getFlashSaleState, getPublishState } from "@/lib/flash-sale"
 
 export default async function AdminPage() {
     await cookies()
@@ -46,7 +47,11 @@ export default async function AdminPage() {
                 isActive: p.isActive ?? true,
                 isHot: p.isHot ?? false,
                 sortOrder: p.sortOrder ?? 0,
-                fulfillmentType: p.fulfillmentType ?? 'card'
+                fulfillmentType: p.fulfillmentType ?? 'card',
+                publishState: getPublishState(p),
+                flashSaleStatus: getFlashSaleState(p)?.status ?? null,
+                lowStockThreshold: p.lowStockThreshold ?? null,
+                soldOutState: p.soldOutState ?? null
             }})}
             lowStockThreshold={lowStockThreshold}
         />
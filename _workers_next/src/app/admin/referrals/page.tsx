@@ -0,0 +1,44 @@
+import { getReferralReport, getReferralSettings } from "@/lib/referrals"
+import { AdminReferralsContent } from "@/components/admin/referrals-content"
+import { unstable_noStore } from "next/cache"
+
+export default async function AdminReferralsPage() {
+  unstable_noStore()
+  const [settings, report] = await Promise.all([
+    getReferralSettings(),
+    getReferralReport(100),
+  ])
+
+  return (
+    <AdminReferralsContent
+      settings={settings}
+      totals={report.totals.map((row) => ({
+        status: row.status || 'pending',
+        count: Number(row.count) || 0,
+        inviterPoints: Number(row.inviterPoints) || 0,
+        inviteePoints: Number(row.inviteePoints) || 0,
+      }))}
+      topInviters={report.topInviters.map((row) => ({
+        inviterId: row.inviterId,
+        username: row.username,
+        invited: Number(row.invited) || 0,
+        rewarded: Number(row.rewarded) || 0,
+        points: Number(row.points) || 0,
+      }))}
+      recent={report.recent.map((row) => ({
+        id: row.id,
+        inviterId: row.inviterId,
+        inviterName: row.inviterName,
+        inviteeId: row.inviteeId,
+        inviteeName: row.inviteeName,
+        status: row.status || 'pending',
+        orderId: row.orderId,
+        inviterPoints: row.inviterPoints || 0,
+        inviteePoints: row.inviteePoints || 0,
+        note: row.note,
+        createdAt: row.createdAt ? row.createdAt.getTime() : null,
+        rewardedAt: row.rewardedAt ? row.rewardedAt.getTime() : null,
+      }))}
+    />
+  )
+}
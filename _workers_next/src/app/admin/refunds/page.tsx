@@ -3,6 +3,7 @@ import { orders, refundRequests } from "@/lib/db/schema"
 import { desc, eq } from "drizzle-orm"
 import { AdminRefundsContent } from "@/components/admin/refunds-content"
 import { unstable_noStore } from "next/cache"
+import { cardKeyForAdmin, requireAdminPage } from "@/lib/admin-auth"
 
 function isMissingTable(error: any) {
   const errorString = JSON.stringify(error)
@@ -16,6 +17,7 @@ function isMissingTable(error: any) {
 
 export default async function AdminRefundsPage() {
   unstable_noStore()
+  const access = await requireAdminPage()
   let rows: any[] = []
   try {
     rows = await db
@@ -31,9 +33,15 @@ export default async function AdminRefundsPage() {
         createdAt: refundRequests.createdAt,
         updatedAt: refundRequests.updatedAt,
         processedAt: refundRequests.processedAt,
+        refundAmount: refundRequests.refundAmount,
+        refundQuantity: refundRequests.refundQuantity,
+        requestCardIds: refundRequests.cardIds,
+        refundMethod: refundRequests.refundMethod,
+        refundPoints: refundRequests.refundPoints,
         orderStatus: orders.status,
         tradeNo: orders.tradeNo,
         amount: orders.amount,
+        quantity: orders.quantity,
         productName: orders.productName,
         cardKey: orders.cardKey,
       })
@@ -46,5 +54,7 @@ export default async function AdminRefundsPage() {
     rows = []
   }
 
+  rows = await Promise.all(rows.map(async (r) => ({ ...r, cardKey: await cardKeyForAdmin(access, r.cardKey) })))
+
   return <AdminRefundsContent requests={rows} />
 }
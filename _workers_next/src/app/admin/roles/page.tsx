@@ -0,0 +1,24 @@
+import { getAdminRoleAssignments, getAdminUsernames, requireAdminPage } from "@/lib/admin-auth"
+import { ROLE_CAPABILITIES } from "@/lib/admin-roles"
+import { AdminRolesContent } from "@/components/admin/roles-content"
+import { unstable_noStore } from "next/cache"
+
+export default async function AdminRolesPage() {
+  unstable_noStore()
+  await requireAdminPage('manage_roles')
+  const assignments = await getAdminRoleAssignments()
+
+  return (
+    <AdminRolesContent
+      envOwners={getAdminUsernames()}
+      assignments={assignments.map((a) => ({
+        userId: a.userId,
+        username: a.username,
+        role: a.role,
+        grantedBy: a.grantedBy,
+        updatedAt: a.updatedAt ? a.updatedAt.getTime() : null,
+      }))}
+      matrix={ROLE_CAPABILITIES}
+    />
+  )
+}
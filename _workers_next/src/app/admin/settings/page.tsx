@@ -1,5 +1,7 @@
 import { getDashboardStats, getSetting, getAllSettings, getVisitorCount } from "@/lib/db/queries"
 import { isRegistryEnabled } from "@/lib/registry"
+import { formatStreakBonuses, parseStreakBonuses } from "@/lib/checkin"
+import { parseSoldOutAction } from "@/lib/stock-levels"
 import { AdminSettingsContent } from "@/components/admin/settings-content"
 import { unstable_noStore } from "next/cache"
 import { cookies } from "next/headers"
@@ -22,13 +24,26 @@ export default async function AdminSettingsPage() {
     const themeColor = settingsMap['theme_color'] || null
 
     const lowStockThreshold = Number.parseInt(settingsMap['low_stock_threshold'] || '5', 10) || 5
+    const soldOutAction = parseSoldOutAction(settingsMap['sold_out_action'])
     const checkinReward = Number.parseInt(settingsMap['checkin_reward'] || '10', 10) || 10
     const checkinEnabled = settingsMap['checkin_enabled'] !== 'false'
+    const checkinTimeZone = settingsMap['checkin_timezone'] || 'UTC'
+    const checkinStreakBonuses = formatStreakBonuses(parseStreakBonuses(settingsMap['checkin_streak_bonuses']))
+    const checkinMakeUpCost = Number.parseInt(settingsMap['checkin_makeup_cost'] || '0', 10) || 0
+    const checkinMakeUpDays = Number.parseInt(settingsMap['checkin_makeup_days'] || '7', 10) || 0
+    const pointsCashbackPercent = Number.parseInt(settingsMap['points_cashback_percent'] || '0', 10) || 0
+    const pointsExpiryDays = Number.parseInt(settingsMap['points_expiry_days'] || '0', 10) || 0
+    const pointsReminderDays = Number.parseInt(settingsMap['points_expiry_reminder_days'] || '7', 10) || 0
     const wishlistEnabled = settingsMap['wishlist_enabled'] === 'true'
     const noIndexEnabled = settingsMap['noindex_enabled'] === 'true'
     const registryOptIn = settingsMap['registry_opt_in'] === 'true'
     const refundReclaimCards = settingsMap['refund_reclaim_cards'] !== 'false'
+    const refundPointsRate = Number(settingsMap['refund_points_rate']) > 0 ? Number(settingsMap['refund_points_rate']) : 1
     const registryHideNav = settingsMap['registry_hide_nav'] === 'true'
+    const paymentProvider = settingsMap['payment_provider'] || 'linuxdo'
+    const epayGatewayUrl = settingsMap['epay_gateway_url'] || ''
+    const epayPayType = settingsMap['epay_pay_type'] || 'alipay'
+    const epayCredentialsSet = !!(process.env.EPAY_MERCHANT_ID && process.env.EPAY_MERCHANT_KEY)
 
     return (
         <AdminSettingsContent
@@ -40,13 +55,26 @@ export default async function AdminSettingsPage() {
             themeColor={themeColor}
             visitorCount={visitorCount}
             lowStockThreshold={lowStockThreshold}
+            soldOutAction={soldOutAction}
             checkinReward={checkinReward}
             checkinEnabled={checkinEnabled}
+            checkinTimeZone={checkinTimeZone}
+            checkinStreakBonuses={checkinStreakBonuses}
+            checkinMakeUpCost={checkinMakeUpCost}
+            checkinMakeUpDays={checkinMakeUpDays}
+            pointsCashbackPercent={pointsCashbackPercent}
+            pointsExpiryDays={pointsExpiryDays}
+            pointsReminderDays={pointsReminderDays}
             wishlistEnabled={wishlistEnabled}
             noIndexEnabled={noIndexEnabled}
             registryOptIn={registryOptIn}
             refundReclaimCards={refundReclaimCards}
+            refundPointsRate={refundPointsRate}
             registryHideNav={registryHideNav}
+            paymentProvider={paymentProvider}
+            epayGatewayUrl={epayGatewayUrl}
+            epayPayType={epayPayType}
+            epayCredentialsSet={epayCredentialsSet}
             registryEnabled={isRegistryEnabled()}
         />
     )
@@ -1,6 +1,7 @@
 import { getUsers } from "@/lib/db/queries"
 import { UsersContent } from "@/components/admin/users-content"
 import { checkAdmin } from "@/actions/admin"
+import { reconcilePointsLedgerIfDue, runPointsMaintenanceIfDue } from "@/lib/points"
 import { Suspense } from "react"
 
 async function UsersContentLoader(props: { searchParams: Promise<{ page?: string; q?: string }> }) {
@@ -11,9 +12,11 @@ async function UsersContentLoader(props: { searchParams: Promise<{ page?: string
     const q = searchParams.q || ''
     const pageSize = 20
 
+    await runPointsMaintenanceIfDue()
     const data = await getUsers(page, pageSize, q)
+    const reconcile = await reconcilePointsLedgerIfDue()
 
-    return <UsersContent data={data} />
+    return <UsersContent data={data} reconcile={reconcile} />
 }
 
 function UsersFallback() {
@@ -1,8 +1,9 @@
 import { db } from "@/lib/db";
-import { orders, cards } from "@/lib/db/schema";
-import { md5 } from "@/lib/crypto";
-import { eq, sql } from "drizzle-orm";
+import { orders } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
 import { withOrderColumnFallback } from "@/lib/db/queries";
+import { getOrderPaymentProvider, orderIdFromTradeNo } from "@/lib/payment-providers";
+import { recordPaymentEvent, type PaymentEventInput } from "@/lib/payment-events";
 
 const LOG_NOTIFY_DETAILS = process.env.NODE_ENV !== 'production';
 
@@ -14,44 +15,63 @@ function summarizeNotifyParams(params: Record<string, any>) {
     }
 }
 
-async function processNotify(params: Record<string, any>) {
+async function getOrderStatus(orderId: string) {
+    try {
+        const row = await db.query.orders.findFirst({
+            where: eq(orders.orderId, orderId),
+            columns: { status: true }
+        });
+        return row?.status || null;
+    } catch {
+        return null;
+    }
+}
+
+async function processNotify(params: Record<string, any>, method: string) {
     if (LOG_NOTIFY_DETAILS) {
         console.log("[Notify] Processing params:", JSON.stringify(params));
     } else {
         console.log("[Notify] Processing:", summarizeNotifyParams(params));
     }
 
-    // Verify Sign
-    const sign = params.sign;
-    const sorted = Object.keys(params)
-        .filter(k => k !== 'sign' && k !== 'sign_type' && params[k] !== '' && params[k] !== null && params[k] !== undefined)
-        .sort()
-        .map(k => `${k}=${params[k]}`)
-        .join('&');
+    const outTradeNo = String(params.out_trade_no || '');
+    const event: PaymentEventInput = {
+        orderId: outTradeNo ? orderIdFromTradeNo(outTradeNo) : null,
+        outTradeNo,
+        method,
+        rawParams: params,
+        tradeStatus: params.trade_status || null,
+        tradeNo: params.trade_no || null,
+        amount: params.money ?? null,
+        result: 'ignored'
+    };
+    const finish = async (response: Response, patch: Partial<PaymentEventInput>) => {
+        await recordPaymentEvent({ ...event, ...patch });
+        return response;
+    };
 
-    const mySign = md5(`${sorted}${process.env.MERCHANT_KEY}`);
+    try {
+        // Verify Sign with the gateway the order was created on
+        const provider = await getOrderPaymentProvider(event.orderId || '');
+        const notify = provider.verifyNotify(params);
+        event.provider = provider.id;
+        event.signatureValid = notify.valid;
 
-    if (LOG_NOTIFY_DETAILS) {
-        console.log("[Notify] Signature check - received:", sign, "computed:", mySign);
-    } else {
-        console.log("[Notify] Signature check");
-    }
+        console.log("[Notify] Signature check via", provider.id);
 
-    if (sign !== mySign) {
-        console.log("[Notify] Signature mismatch!");
-        return new Response('fail', { status: 400 });
-    }
+        if (!notify.valid) {
+            console.log("[Notify] Signature mismatch!");
+            return await finish(new Response('fail', { status: 400 }), { result: 'rejected', error: 'Signature mismatch' });
+        }
 
-    console.log("[Notify] Signature verified OK. trade_status:", params.trade_status);
+        console.log("[Notify] Signature verified OK. trade_status:", params.trade_status);
 
-    if (params.trade_status === 'TRADE_SUCCESS') {
-        let orderId = params.out_trade_no;
-        // Strip retry suffix if present (e.g. ORDER123_retry173654)
-        if (orderId.includes('_retry')) {
-            orderId = orderId.split('_retry')[0];
+        if (!notify.paid) {
+            return await finish(new Response('success'), { result: 'ignored', error: `trade_status ${params.trade_status || '-'}` });
         }
 
-        const tradeNo = params.trade_no;
+        const orderId = notify.orderId;
+        const tradeNo = notify.tradeNo;
 
         console.log("[Notify] Processing order:", orderId);
 
@@ -64,37 +84,49 @@ async function processNotify(params: Record<string, any>) {
 
         console.log("[Notify] Order found:", order ? "YES" : "NO", "status:", order?.status);
 
-        if (order) {
-            // Verify Amount (Prevent penny-dropping)
-            const notifyMoney = parseFloat(params.money);
-            const orderMoney = parseFloat(order.amount);
+        if (!order) {
+            return await finish(new Response('success'), { result: 'ignored', error: 'Order not found' });
+        }
+        event.statusBefore = order.status;
+
+        // Verify Amount (Prevent penny-dropping)
+        const notifyMoney = notify.money;
+        const orderMoney = parseFloat(order.amount);
+
+        // Allow small float epsilon difference
+        if (Math.abs(notifyMoney - orderMoney) > 0.01) {
+            console.error(`[Notify] Amount mismatch! Order: ${orderMoney}, Notify: ${notifyMoney}`);
+            return await finish(new Response('fail', { status: 400 }), {
+                result: 'rejected',
+                statusAfter: order.status,
+                error: `Amount mismatch: order ${orderMoney}, notify ${notifyMoney}`
+            });
+        }
 
-            // Allow small float epsilon difference
-            if (Math.abs(notifyMoney - orderMoney) > 0.01) {
-                console.error(`[Notify] Amount mismatch! Order: ${orderMoney}, Notify: ${notifyMoney}`);
-                return new Response('fail', { status: 400 });
-            }
+        if (order.status !== 'pending' && order.status !== 'cancelled') {
+            return await finish(new Response('success'), { result: 'ignored', statusAfter: order.status, error: 'Order already processed' });
+        }
 
-            if (order.status === 'pending' || order.status === 'cancelled') {
-                try {
-                    const { processOrderFulfillment } = await import("@/lib/order-processing");
-                    await processOrderFulfillment(orderId, notifyMoney, tradeNo);
-                } catch (e: any) {
-                    console.error("[Notify] Fulfillment error:", e);
-                    // Don't error the callback if it's already processed or internal error, 
-                    // otherwise payment gateway retries. 
-                    // Ideally we should differentiate idempotent errors vs hard errors.
-                    // But for now, if fulfillment fails, maybe log it.
-                    // If shared validation fails (amount mismatch), processOrderFulfillment throws.
-                    if (e.message.includes('Amount mismatch')) {
-                        return new Response('fail', { status: 400 });
-                    }
-                }
+        try {
+            const { processOrderFulfillment } = await import("@/lib/order-processing");
+            await processOrderFulfillment(orderId, notifyMoney, tradeNo || '');
+        } catch (e: any) {
+            console.error("[Notify] Fulfillment error:", e);
+            // Don't error the callback if it's already processed or internal error,
+            // otherwise payment gateway retries. The event log keeps it for replay.
+            // If shared validation fails (amount mismatch), processOrderFulfillment throws.
+            const statusAfter = await getOrderStatus(orderId);
+            if (e.message?.includes('Amount mismatch')) {
+                return await finish(new Response('fail', { status: 400 }), { result: 'rejected', statusAfter, error: e.message });
             }
+            return await finish(new Response('success'), { result: 'error', statusAfter, error: e?.message || String(e) });
         }
-    }
 
-    return new Response('success');
+        return await finish(new Response('success'), { result: 'processed', statusAfter: await getOrderStatus(orderId) });
+    } catch (e: any) {
+        await recordPaymentEvent({ ...event, result: 'error', error: e?.message || String(e) });
+        throw e;
+    }
 }
 
 // Handle GET requests (Linux DO Credit sends GET)
@@ -108,7 +140,7 @@ export async function GET(request: Request) {
             params[key] = value;
         });
 
-        return await processNotify(params);
+        return await processNotify(params, 'GET');
     } catch (e) {
         console.error("[Notify] Error:", e);
         return new Response('error', { status: 500 });
@@ -126,7 +158,7 @@ export async function POST(request: Request) {
             params[key] = value;
         });
 
-        return await processNotify(params);
+        return await processNotify(params, 'POST');
     } catch (e) {
         console.error("[Notify] Error:", e);
         return new Response('error', { status: 500 });
@@ -0,0 +1,27 @@
+import { getTelegramBot, handleTelegramUpdate, matchesBotSecret } from "@/lib/telegram-bot";
+
+export async function POST(request: Request) {
+    const bot = await getTelegramBot().catch(() => null);
+    if (!bot) {
+        return new Response('Not found', { status: 404 });
+    }
+    // Set with setWebhook's secret_token, so only Telegram knows it
+    if (!matchesBotSecret(bot, request.headers.get('x-telegram-bot-api-secret-token'))) {
+        return new Response('Forbidden', { status: 403 });
+    }
+
+    let update: any;
+    try {
+        update = await request.json();
+    } catch {
+        return new Response('Bad request', { status: 400 });
+    }
+
+    try {
+        await handleTelegramUpdate(bot, update);
+    } catch (e) {
+        console.error('[TelegramBot] Update failed:', e);
+    }
+    // Anything but 200 makes Telegram redeliver the same update
+    return Response.json({ ok: true });
+}
@@ -2,9 +2,11 @@ import { notFound } from "next/navigation"
 import { auth } from "@/lib/auth"
 import { BuyContent } from "@/components/buy-content"
 import { BuyRestricted } from "@/components/buy-restricted"
-import { cancelExpiredOrders, cleanupExpiredCardsIfNeeded, getProduct, getProductReviews, getProductRating, canUserReview, getProductVisibility, getLiveCardStats } from "@/lib/db/queries"
-import { getEmailSettings } from "@/lib/email"
+import { cancelExpiredOrders, cleanupExpiredCardsIfNeeded, getProduct, getProductReviews, getProductRating, canUserReview, getProductVisibility, getLiveCardStats, getProductVariants, getLiveVariantCardStats, getProductPriceTiers, getFlashSales } from "@/lib/db/queries"
+import { getEmailSettings, isEmailConfigured } from "@/lib/email"
 import { INFINITE_STOCK } from "@/lib/constants"
+import { isWithinPublishWindow } from "@/lib/flash-sale"
+import { getActiveMemberDiscounts, getMemberContext, pickMemberDiscount } from "@/lib/member-discounts"
 
 interface BuyPageProps {
     params: Promise<{ id: string }>
@@ -28,13 +30,13 @@ export default async function BuyPage({ params }: BuyPageProps) {
     const [product, reviews, emailSettings] = await Promise.all([
         getProduct(id, { isLoggedIn, trustLevel }).catch(() => null),
         getProductReviews(id).catch(() => []),
-        getEmailSettings().catch(() => ({ apiKey: null, fromEmail: null, enabled: false, fromName: null }))
+        getEmailSettings().catch(() => null)
     ])
 
     // Return 404 if product doesn't exist or is inactive
     if (!product) {
         const visibility = await getProductVisibility(id).catch(() => null)
-        if (!visibility || visibility.isActive === false) {
+        if (!visibility || visibility.isActive === false || !isWithinPublishWindow(visibility)) {
             notFound()
         }
         const requiredLevel = Number.isFinite(Number(visibility.visibilityLevel))
@@ -68,9 +70,37 @@ export default async function BuyPage({ params }: BuyPageProps) {
         : 0
     const liveLocked = product ? stat.locked : 0
 
+    const [variantRows, variantStats, priceTiers, flashSales] = await Promise.all([
+        getProductVariants(product.id, { activeOnly: true }).catch(() => []),
+        getLiveVariantCardStats(product.id).catch(() => new Map()),
+        getProductPriceTiers(product.id).catch(() => []),
+        getFlashSales([product]).catch(() => new Map())
+    ])
+    const member = await getMemberContext(session?.user)
+    const memberRule = member ? pickMemberDiscount(await getActiveMemberDiscounts(), product.id, member) : null
+
+    const variants = variantRows.map((variant) => {
+        const vStat = variantStats.get(variant.id) || { unused: 0, available: 0, locked: 0 }
+        return {
+            id: variant.id,
+            name: variant.name,
+            price: variant.price,
+            compareAtPrice: variant.compareAtPrice,
+            purchaseLimit: variant.purchaseLimit,
+            stockCount: isDynamic
+                ? INFINITE_STOCK
+                : (product.isShared ? (vStat.unused > 0 ? INFINITE_STOCK : 0) : vStat.available),
+            lockedCount: vStat.locked
+        }
+    })
+
     return (
         <BuyContent
             product={product}
+            variants={variants}
+            priceTiers={variants.length ? [] : priceTiers}
+            flashSale={variants.length ? null : flashSales.get(product.id) || null}
+            memberDiscount={memberRule ? { percentOff: memberRule.percentOff, name: memberRule.name } : null}
             stockCount={liveAvailable}
             lockedStockCount={liveLocked}
             isLoggedIn={!!session?.user}
@@ -79,7 +109,8 @@ export default async function BuyPage({ params }: BuyPageProps) {
             reviewCount={Number(product.reviewCount || 0)}
             canReview={userCanReview.canReview}
             reviewOrderId={userCanReview.orderId}
-            emailEnabled={!!(emailSettings?.enabled && emailSettings?.apiKey && emailSettings?.fromEmail)}
+            emailEnabled={isEmailConfigured(emailSettings)}
+            cartEnabled={!isDynamic && variants.length === 0}
         />
     )
 }
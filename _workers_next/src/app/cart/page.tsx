@@ -0,0 +1,57 @@
+import { auth } from "@/lib/auth"
+import { cookies } from "next/headers"
+import { unstable_noStore } from "next/cache"
+import { CartContent } from "@/components/cart-content"
+import { getCartItems, getLiveCardStats, mergeGuestCart } from "@/lib/db/queries"
+import { getEmailSettings, isEmailConfigured } from "@/lib/email"
+import { CART_COOKIE } from "@/lib/cart"
+import { INFINITE_STOCK } from "@/lib/constants"
+import { getActiveMemberDiscounts, getMemberContext, pickMemberDiscount } from "@/lib/member-discounts"
+
+export default async function CartPage() {
+    unstable_noStore()
+    const session = await auth()
+    const userId = session?.user?.id || null
+    const cookieStore = await cookies()
+    const sessionId = cookieStore.get(CART_COOKIE)?.value || null
+
+    if (userId && sessionId) {
+        try {
+            await mergeGuestCart(sessionId, userId)
+        } catch {
+            // best effort
+        }
+    }
+
+    const [items, emailSettings] = await Promise.all([
+        getCartItems(userId ? { userId } : { sessionId }).catch(() => []),
+        getEmailSettings().catch(() => null)
+    ])
+
+    const stats = await getLiveCardStats(items.map((item) => item.productId)).catch(() => new Map())
+    const member = await getMemberContext(session?.user)
+    const memberRules = member ? await getActiveMemberDiscounts() : []
+
+    return (
+        <CartContent
+            items={items.map((item) => {
+                const stat = stats.get(item.productId) || { unused: 0, available: 0, locked: 0 }
+                return {
+                    id: item.id,
+                    productId: item.productId,
+                    name: item.name,
+                    price: item.price,
+                    basePrice: item.basePrice,
+                    memberPercentOff: pickMemberDiscount(memberRules, item.productId, member)?.percentOff ?? 0,
+                    image: item.image,
+                    quantity: item.quantity,
+                    purchaseLimit: item.purchaseLimit,
+                    available: item.isActive !== false && item.fulfillmentType !== 'siyuan_token',
+                    stock: item.isShared ? (stat.unused > 0 ? INFINITE_STOCK : 0) : stat.available
+                }
+            })}
+            isLoggedIn={!!userId}
+            emailEnabled={isEmailConfigured(emailSettings)}
+        />
+    )
+}
@@ -5,6 +5,7 @@ import { SiteHeader } from "@/components/site-header";
 import { SiteFooter } from "@/components/site-footer";
 import { MobileNavWrapper } from "@/components/mobile-nav-wrapper";
 import { Providers } from "@/components/providers";
+import { ReferralTracker } from "@/components/referral-tracker";
 import { cn } from "@/lib/utils";
 import { getSetting } from "@/lib/db/queries";
 import { Suspense } from "react";
@@ -128,6 +129,7 @@ async function RootLayoutContent({
             <SiteFooter />
             <MobileNavWrapper />
           </div>
+          <ReferralTracker />
         </Providers>
       </body>
     </html>
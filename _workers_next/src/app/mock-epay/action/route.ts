@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import {
+  MOCK_EPAY_PATH,
+  escapeHtml,
+  getMockPayment,
+  isMockEpayEnabled,
+  renderMockPage,
+  sendMockNotify,
+  setMockPaymentStatus,
+} from "@/lib/payment-providers/mock"
+
+export async function POST(request: Request) {
+  if (!isMockEpayEnabled()) return new Response("Not Found", { status: 404 })
+
+  const formData = await request.formData()
+  const tradeNo = String(formData.get("trade_no") || "")
+  const action = String(formData.get("action") || "")
+  const payment = await getMockPayment(tradeNo)
+  if (!payment) return renderMockPage("Payment not found", `<p class="muted">${escapeHtml(tradeNo)}</p>`, 404)
+
+  const backTo = (url: string) => NextResponse.redirect(new URL(url || "/", request.url), 303)
+
+  if (action === "pay") {
+    if (payment.status !== 0) return renderMockPage("Already processed", `<p class="muted">This payment is no longer unpaid.</p>`, 409)
+    await setMockPaymentStatus(payment.tradeNo, 1)
+    const notify = await sendMockNotify({ ...payment, status: 1 })
+    if (!notify.ok) {
+      return renderMockPage("Notify failed", `
+        <p>The payment is marked paid, but the shop did not answer <code>success</code>:</p>
+        <pre>${escapeHtml(notify.body)}</pre>
+        <p><a href="${escapeHtml(payment.returnUrl)}">Return to shop</a> · <a href="${MOCK_EPAY_PATH}">All mock payments</a></p>
+      `, 502)
+    }
+    return backTo(payment.returnUrl)
+  }
+
+  if (action === "fail") {
+    if (payment.status === 0) await setMockPaymentStatus(payment.tradeNo, 2)
+    return backTo(payment.returnUrl)
+  }
+
+  // Gateway-side refund: the shop only learns about it by querying (status 0)
+  if (action === "refund") {
+    if (payment.status === 1) await setMockPaymentStatus(payment.tradeNo, 3)
+    return backTo(MOCK_EPAY_PATH)
+  }
+
+  if (action === "notify") {
+    if (payment.status === 1) await sendMockNotify(payment)
+    return backTo(MOCK_EPAY_PATH)
+  }
+
+  return renderMockPage("Unknown action", `<p class="muted">${escapeHtml(action)}</p>`, 400)
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { findMockPayment, getMockMerchantKey, isMockEpayEnabled, refundMockPayment, toCents } from "@/lib/payment-providers/mock"
+
+function authenticate(params: Record<string, any>) {
+  const pid = String(params.pid || "")
+  const key = getMockMerchantKey(pid)
+  return key && key === params.key ? pid : null
+}
+
+// act=order: EPay order query (status 1 = paid, 0 = anything else)
+async function handleQuery(params: Record<string, any>) {
+  const pid = authenticate(params)
+  if (!pid) return NextResponse.json({ code: -1, msg: "merchant key mismatch" })
+
+  const payment = await findMockPayment(pid, params.out_trade_no, params.trade_no)
+  if (!payment) return NextResponse.json({ code: -1, msg: "order not found" })
+
+  return NextResponse.json({
+    code: 1,
+    msg: "success",
+    pid: payment.pid,
+    trade_no: payment.tradeNo,
+    out_trade_no: payment.outTradeNo,
+    type: payment.type,
+    name: payment.name,
+    money: payment.money,
+    status: payment.status === 1 ? 1 : 0,
+  })
+}
+
+// Refund, with or without act=refund (Linux DO Credit omits it)
+async function handleRefund(params: Record<string, any>) {
+  const pid = authenticate(params)
+  if (!pid) return NextResponse.json({ code: -1, msg: "merchant key mismatch" })
+
+  const payment = await findMockPayment(pid, params.out_trade_no, params.trade_no)
+  if (!payment) return NextResponse.json({ code: -1, msg: "order not found" })
+  if (payment.status !== 1) return NextResponse.json({ code: -1, msg: "order is not paid" })
+
+  // Partial refunds are allowed up to what is left of the payment
+  const cents = toCents(params.money)
+  const remaining = toCents(payment.money) - payment.refundedCents
+  if (!Number.isFinite(cents) || cents <= 0 || cents > remaining) {
+    return NextResponse.json({ code: -1, msg: "refund amount exceeds the refundable balance" })
+  }
+  if (!await refundMockPayment(payment.tradeNo, cents)) {
+    return NextResponse.json({ code: -1, msg: "refund amount exceeds the refundable balance" })
+  }
+  return NextResponse.json({ code: 1, msg: "success" })
+}
+
+async function handle(params: Record<string, any>) {
+  if (!isMockEpayEnabled()) return new Response("Not Found", { status: 404 })
+  if (params.act === "order") return await handleQuery(params)
+  if (!params.act || params.act === "refund") return await handleRefund(params)
+  return NextResponse.json({ code: -1, msg: "unsupported act" })
+}
+
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams.entries())
+  return await handle(params)
+}
+
+export async function POST(request: Request) {
+  const url = new URL(request.url)
+  const params: Record<string, any> = Object.fromEntries(url.searchParams.entries())
+  const formData = await request.formData()
+  formData.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value
+  })
+  return await handle(params)
+}
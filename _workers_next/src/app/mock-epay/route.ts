@@ -0,0 +1,32 @@
+import {
+  MOCK_EPAY_PATH,
+  escapeHtml,
+  isMockEpayEnabled,
+  listMockPayments,
+  mockStatusLabel,
+  renderMockPage,
+} from "@/lib/payment-providers/mock"
+
+export async function GET() {
+  if (!isMockEpayEnabled()) return new Response("Not Found", { status: 404 })
+
+  const payments = await listMockPayments()
+  const button = (tradeNo: string, action: string, label: string) => `
+    <form method="POST" action="${MOCK_EPAY_PATH}/action">
+      <input type="hidden" name="trade_no" value="${escapeHtml(tradeNo)}" />
+      <input type="hidden" name="action" value="${action}" />
+      <button type="submit" class="secondary">${label}</button>
+    </form>`
+
+  const rows = payments.map((p) => `
+    <tr>
+      <td>${escapeHtml(p.outTradeNo)}<div class="muted">${escapeHtml(p.tradeNo)}</div></td>
+      <td>${escapeHtml(p.money)}${p.refundedCents > 0 ? `<div class="muted">refunded ${(p.refundedCents / 100).toFixed(2)}</div>` : ""}</td>
+      <td>${mockStatusLabel(p.status)}</td>
+      <td>${p.status === 1 ? button(p.tradeNo, "notify", "Resend notify") + button(p.tradeNo, "refund", "Refund") : ""}</td>
+    </tr>`).join("")
+
+  return renderMockPage("Mock payments", payments.length
+    ? `<table><tr><th>Order</th><th>Amount</th><th>Status</th><th></th></tr>${rows}</table>`
+    : `<p class="muted">No mock payments yet.</p>`)
+}
@@ -0,0 +1,61 @@
+import { generateSign } from "@/lib/crypto"
+import {
+  MOCK_EPAY_PATH,
+  createMockPayment,
+  escapeHtml,
+  getMockMerchantKey,
+  isMockEpayEnabled,
+  renderMockPage,
+} from "@/lib/payment-providers/mock"
+
+async function handleSubmit(params: Record<string, any>) {
+  if (!isMockEpayEnabled()) return new Response("Not Found", { status: 404 })
+
+  const key = getMockMerchantKey(String(params.pid || ""))
+  if (!key) return renderMockPage("Unknown merchant", `<p>pid <code>${escapeHtml(String(params.pid || ""))}</code> is not configured.</p>`, 400)
+  if (params.sign !== generateSign(params, key)) {
+    return renderMockPage("Signature mismatch", `<p class="muted">The submitted parameters were not signed with this merchant's key.</p>`, 400)
+  }
+  if (!params.out_trade_no || !(Number(params.money) > 0)) {
+    return renderMockPage("Invalid order", `<p class="muted">out_trade_no and a positive money are required.</p>`, 400)
+  }
+
+  const payment = await createMockPayment(params)
+  if (!payment) return renderMockPage("Error", `<p class="muted">Could not create mock payment.</p>`, 500)
+
+  const action = (name: string, label: string, secondary = false) => `
+    <form method="POST" action="${MOCK_EPAY_PATH}/action">
+      <input type="hidden" name="trade_no" value="${escapeHtml(payment.tradeNo)}" />
+      <input type="hidden" name="action" value="${name}" />
+      <button type="submit"${secondary ? ' class="secondary"' : ""}>${label}</button>
+    </form>`
+
+  return renderMockPage("Confirm payment", `
+    <table>
+      <tr><th>Merchant</th><td>${escapeHtml(payment.pid)}</td></tr>
+      <tr><th>Order</th><td>${escapeHtml(payment.outTradeNo)}</td></tr>
+      <tr><th>Trade No</th><td>${escapeHtml(payment.tradeNo)}</td></tr>
+      <tr><th>Item</th><td>${escapeHtml(payment.name)}</td></tr>
+      <tr><th>Type</th><td>${escapeHtml(payment.type)}</td></tr>
+      <tr><th>Amount</th><td>${escapeHtml(payment.money)}</td></tr>
+    </table>
+    ${action("pay", "Pay")}
+    ${action("fail", "Fail", true)}
+    <p class="muted">Pay sends the signed async notify, then returns to the shop. Fail returns without notifying.
+    <a href="${MOCK_EPAY_PATH}">All mock payments</a></p>
+  `)
+}
+
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams.entries())
+  return await handleSubmit(params)
+}
+
+export async function POST(request: Request) {
+  const formData = await request.formData()
+  const params: Record<string, any> = {}
+  formData.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value
+  })
+  return await handleSubmit(params)
+}
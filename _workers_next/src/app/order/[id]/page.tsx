@@ -5,7 +5,10 @@ import { and, desc, eq } from "drizzle-orm"
 import { notFound } from "next/navigation"
 import { cookies } from "next/headers"
 import { OrderContent } from "@/components/order-content"
-import { cancelExpiredOrders } from "@/lib/db/queries"
+import { cancelExpiredOrders, getOrderItems } from "@/lib/db/queries"
+import { isCartOrder } from "@/lib/cart"
+import { getOrderRefundCards, getRefundPointsRate } from "@/lib/refunds"
+import { decryptCardKey } from "@/lib/card-crypto"
 
 export default async function OrderPage({ params }: { params: Promise<{ id: string }> }) {
     const { id } = await params
@@ -34,6 +37,8 @@ export default async function OrderPage({ params }: { params: Promise<{ id: stri
         isDynamic = product?.fulfillmentType === 'siyuan_token'
     }
 
+    const items = isCartOrder(order.productId) ? await getOrderItems(id).catch(() => []) : []
+
     // Access Control
     let canViewKey = false
     const isOwner = !!(user && (user.id === order.userId || user.username === order.username))
@@ -57,6 +62,16 @@ export default async function OrderPage({ params }: { params: Promise<{ id: stri
         }
     }
 
+    // Owners can ask for individual keys back
+    const refundCards = isOwner && !isDynamic
+        ? (await getOrderRefundCards(order).catch(() => [])).filter((card) => !card.refunded)
+        : []
+    const refundPointsRate = isOwner ? await getRefundPointsRate() : 1
+
+    // Keys are only decrypted for someone allowed to see them
+    const cardKey = canViewKey ? await decryptCardKey(order.cardKey) : null
+    const itemKeys = canViewKey ? await Promise.all(items.map((item) => decryptCardKey(item.cardKey))) : []
+
     return (
         <OrderContent
             order={{
@@ -65,15 +80,23 @@ export default async function OrderPage({ params }: { params: Promise<{ id: stri
                 productName: order.productName,
                 amount: order.amount,
                 status: order.status || 'pending',
-                cardKey: order.cardKey,
+                cardKey,
                 payee: order.payee,
                 createdAt: order.createdAt,
                 paidAt: order.paidAt
             }}
+            items={items.map((item, index) => ({
+                productName: item.productName,
+                quantity: item.quantity,
+                amount: item.amount,
+                cardKey: itemKeys[index] ?? null
+            }))}
             canViewKey={canViewKey}
             isOwner={isOwner}
             isDynamic={isDynamic}
             refundRequest={refundRequest ? { status: refundRequest.status, reason: refundRequest.reason } : null}
+            refundCards={refundCards}
+            refundPointsRate={refundPointsRate}
         />
     )
 }
@@ -1,8 +1,10 @@
-import { getActiveProductCategories, getCategories, getActiveProducts, getVisitorCount, getUserPendingOrders, getSetting, getLiveCardStats } from "@/lib/db/queries";
+import { getActiveProductCategories, getCategories, getActiveProducts, getVisitorCount, getUserPendingOrders, getSetting, getLiveCardStats, getFlashSales } from "@/lib/db/queries";
 import { getActiveAnnouncement } from "@/actions/settings";
 import { auth } from "@/lib/auth";
 import { HomeContent } from "@/components/home-content";
 import { INFINITE_STOCK } from "@/lib/constants";
+import { flashSalePrice } from "@/lib/flash-sale";
+import { getActiveMemberDiscounts, getMemberContext, memberPrice, pickMemberDiscount } from "@/lib/member-discounts";
 
 const PAGE_SIZE = 24;
 
@@ -51,6 +53,11 @@ export default async function Home({
   const total = products.length;
 
   const liveStats = await getLiveCardStats(products.map((p: any) => p.id)).catch(() => new Map());
+  const flashSales = await getFlashSales(products).catch(() => new Map());
+
+  // Personalised prices for members matching a trust level / tag discount
+  const member = await getMemberContext(session?.user);
+  const memberRules = member ? await getActiveMemberDiscounts() : [];
 
   /* REMOVED: Separate ratings fetch - using pre-computed values in product table
   const productIds = products.map((p: any) => p.id).filter(Boolean);
@@ -78,8 +85,14 @@ export default async function Home({
     const locked = stat.locked;
     const stockTotal = available >= INFINITE_STOCK ? INFINITE_STOCK : (available + locked);
     // const rating = ratingsMap.get(p.id) || { average: 0, count: 0 };
+    const memberRule = pickMemberDiscount(memberRules, p.id, member);
+    const flashSale = flashSales.get(p.id);
+    const listPrice = flashSalePrice(p.price, flashSale);
     return {
       ...p,
+      salePrice: flashSale?.status === 'active' ? listPrice : null,
+      flashSale: flashSale && (flashSale.status === 'active' || flashSale.status === 'upcoming') ? flashSale : null,
+      memberPrice: memberPrice(listPrice, memberRule),
       stockCount: stockTotal,
       soldCount: p.sold || 0,
       descriptionPlain: stripMarkdown(p.description || ''),
@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server"
-
-const DEFAULT_PAY_URL = "https://credit.linux.do/epay/pay/submit.php"
+import { getOrderPaymentProvider, orderIdFromTradeNo } from "@/lib/payment-providers"
 
 function escapeHtml(value: string) {
   return value
@@ -18,7 +17,9 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   const formData = await request.formData()
-  const payUrl = process.env.PAY_URL || DEFAULT_PAY_URL
+  const outTradeNo = formData.get("out_trade_no")
+  const provider = await getOrderPaymentProvider(orderIdFromTradeNo(typeof outTradeNo === "string" ? outTradeNo : ""))
+  const payUrl = provider.submitUrl
 
   let inputs = ""
   for (const [key, value] of formData.entries()) {
@@ -5,6 +5,8 @@ import { orders, loginUsers } from "@/lib/db/schema"
 import { eq, sql } from "drizzle-orm"
 import { getLoginUserEmail, getLoginUserDesktopNotificationsEnabled, getSetting, getUserNotifications } from "@/lib/db/queries"
 import { ProfileContent } from "@/components/profile-content"
+import { getReferralCode, getReferralSettings, getReferralSummary } from "@/lib/referrals"
+import { expireUserPoints, getExpiringPoints, runPointsMaintenanceIfDue, type ExpiringPoints } from "@/lib/points"
 import { unstable_noStore } from "next/cache"
 
 export default async function ProfilePage() {
@@ -17,8 +19,13 @@ export default async function ProfilePage() {
 
     const userId = session.user.id
 
+    // Lapsed points come off before the balance is shown
+    await expireUserPoints(userId)
+    await runPointsMaintenanceIfDue()
+
     // Get user points
     let userPoints = 0
+    let expiringPoints: ExpiringPoints | null = null
     let profileEmail: string | null = null
     let checkinEnabled = true
     let desktopNotificationsEnabled = false
@@ -31,6 +38,9 @@ export default async function ProfilePage() {
     } catch {
         userPoints = 0
     }
+    if (userPoints > 0) {
+        expiringPoints = await getExpiringPoints(userId)
+    }
 
     try {
         profileEmail = await getLoginUserEmail(userId)
@@ -49,6 +59,19 @@ export default async function ProfilePage() {
         checkinEnabled = true
     }
 
+    let referral: { code: string; invited: number; rewarded: number; pending: number; points: number; inviterReward: number; inviteeReward: number } | null = null
+    try {
+        const settings = await getReferralSettings()
+        if (settings.enabled) {
+            const [code, summary] = await Promise.all([getReferralCode(userId), getReferralSummary(userId)])
+            if (code) {
+                referral = { code, ...summary, inviterReward: settings.inviterReward, inviteeReward: settings.inviteeReward }
+            }
+        }
+    } catch {
+        referral = null
+    }
+
     // Get order statistics
     let orderStats = { total: 0, pending: 0, delivered: 0 }
     try {
@@ -107,10 +130,12 @@ export default async function ProfilePage() {
                 trustLevel: session.user.trustLevel ?? 0
             }}
             points={userPoints}
+            expiringPoints={expiringPoints}
             checkinEnabled={checkinEnabled}
             orderStats={orderStats}
             notifications={notifications}
             desktopNotificationsEnabled={desktopNotificationsEnabled}
+            referral={referral}
         />
     )
 }
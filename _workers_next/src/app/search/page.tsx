@@ -1,8 +1,9 @@
-import { searchActiveProducts, getCategories, getLiveCardStats } from "@/lib/db/queries"
+import { searchActiveProducts, getCategories, getLiveCardStats, getFlashSales } from "@/lib/db/queries"
 import { SearchContent } from "@/components/search-content"
 import { unstable_noStore } from "next/cache"
 import { auth } from "@/lib/auth"
 import { INFINITE_STOCK } from "@/lib/constants"
+import { flashSalePrice } from "@/lib/flash-sale"
 
 function firstParam(value: string | string[] | undefined): string | undefined {
   if (!value) return undefined
@@ -35,6 +36,7 @@ export default async function SearchPage(props: {
   ])
 
   const liveStats = await getLiveCardStats(result.items.map((p: any) => p.id)).catch(() => new Map())
+  const flashSales = await getFlashSales(result.items).catch(() => new Map())
 
   return (
     <SearchContent
@@ -54,17 +56,20 @@ export default async function SearchPage(props: {
             : stat.available)
         const locked = stat.locked
         const stockCount = available >= INFINITE_STOCK ? INFINITE_STOCK : (available + locked)
+        const flashSale = flashSales.get(p.id)
         return {
         id: p.id,
         name: p.name,
         description: p.description,
         price: p.price,
         compareAtPrice: p.compareAtPrice ?? null,
+        salePrice: flashSale?.status === 'active' ? flashSalePrice(p.price, flashSale) : null,
         image: p.image,
         category: p.category,
         isHot: p.isHot ?? false,
         stockCount,
-        soldCount: p.sold || 0
+        soldCount: p.sold || 0,
+        soldOutState: p.soldOutState ?? null
       }})}
       categories={categories.map((c: any) => ({ name: c.name, icon: c.icon, sortOrder: c.sortOrder }))}
     />
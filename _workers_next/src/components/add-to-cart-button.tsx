@@ -0,0 +1,56 @@
+'use client'
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { addToCart } from "@/actions/cart"
+import { Button } from "@/components/ui/button"
+import { Loader2, ShoppingCart } from "lucide-react"
+import { toast } from "sonner"
+import { useI18n } from "@/lib/i18n/context"
+
+interface AddToCartButtonProps {
+    productId: string
+    quantity?: number
+    disabled?: boolean
+}
+
+export function AddToCartButton({ productId, quantity = 1, disabled }: AddToCartButtonProps) {
+    const [loading, setLoading] = useState(false)
+    const router = useRouter()
+    const { t } = useI18n()
+
+    const handleAdd = async () => {
+        setLoading(true)
+        try {
+            const result = await addToCart(productId, quantity)
+            if (!result?.success) {
+                toast.error(result?.error ? t(result.error) : t('common.error'))
+                return
+            }
+            toast.success(t('cart.added'), {
+                action: {
+                    label: t('cart.view'),
+                    onClick: () => router.push('/cart')
+                }
+            })
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <Button
+            size="lg"
+            variant="outline"
+            className="w-full md:w-auto cursor-pointer"
+            onClick={handleAdd}
+            disabled={disabled || loading}
+        >
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="mr-2 h-4 w-4" />}
+            {t('cart.addToCart')}
+        </Button>
+    )
+}
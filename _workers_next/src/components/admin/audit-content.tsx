@@ -0,0 +1,259 @@
+'use client'
+
+import { Fragment, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ClientDate } from "@/components/client-date"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download } from "lucide-react"
+
+type AuditRow = {
+  id: number
+  adminUsername: string | null
+  action: string
+  targetType: string | null
+  targetId: string | null
+  changes: string | null
+  createdAt: number | null
+}
+
+interface AuditFilterValues {
+  admin: string
+  action: string
+  q: string
+  from: string
+  to: string
+}
+
+interface AdminAuditContentProps {
+  entries: AuditRow[]
+  admins: string[]
+  total: number
+  page: number
+  pageSize: number
+  filters: AuditFilterValues
+  canExport: boolean
+}
+
+const ACTION_GROUPS = ['all', 'products', 'cards', 'categories', 'orders', 'refunds', 'users', 'messages', 'coupons', 'member_discounts', 'reviews', 'wishlist', 'settings', 'notifications', 'webhooks', 'roles', 'data']
+
+const selectClass = "h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+function buildQuery(params: Record<string, string | number | undefined | null>) {
+  const sp = new URLSearchParams()
+  Object.entries(params).forEach(([k, v]) => {
+    if (v === undefined || v === null) return
+    const str = String(v).trim()
+    if (!str || (k === 'action' && str === 'all') || (k === 'page' && str === '1')) return
+    sp.set(k, str)
+  })
+  return sp.toString()
+}
+
+function buildUrl(params: Record<string, string | number | undefined | null>) {
+  const qs = buildQuery(params)
+  return qs ? `/admin/audit?${qs}` : '/admin/audit'
+}
+
+function parseChanges(raw: string | null): { diff?: Record<string, [any, any]>; details?: Record<string, any> } {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return { details: { raw } }
+  }
+}
+
+function formatValue(value: any) {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function AdminAuditContent({ entries, admins, total, page, pageSize, filters, canExport }: AdminAuditContentProps) {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [values, setValues] = useState<AuditFilterValues>(filters)
+  const [expanded, setExpanded] = useState<number | null>(null)
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+  const set = (key: keyof AuditFilterValues, value: string) => setValues((prev) => ({ ...prev, [key]: value }))
+  const apply = () => router.push(buildUrl({ ...values }))
+  const exportQuery = buildQuery({ ...filters })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-3xl font-bold tracking-tight">{t('admin.audit.title')}</h1>
+          <p className="text-sm text-muted-foreground">{t('admin.audit.subtitle')}</p>
+        </div>
+        {canExport && (
+          <Button asChild variant="outline" size="sm">
+            <a href={exportQuery ? `/admin/audit/export?${exportQuery}` : '/admin/audit/export'}>
+              <Download className="mr-2 h-4 w-4" />
+              {t('admin.audit.export')}
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 md:flex-row md:flex-wrap md:items-center">
+        <select value={values.admin} onChange={(e) => set('admin', e.target.value)} className={selectClass} aria-label={t('admin.audit.admin')}>
+          <option value="">{t('admin.audit.allAdmins')}</option>
+          {admins.map((name) => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select value={values.action} onChange={(e) => set('action', e.target.value)} className={selectClass} aria-label={t('admin.audit.action')}>
+          {ACTION_GROUPS.map((group) => <option key={group} value={group}>{t(`admin.audit.groups.${group}`)}</option>)}
+        </select>
+        <Input
+          type="date"
+          value={values.from}
+          onChange={(e) => set('from', e.target.value)}
+          className="md:w-[160px]"
+          aria-label={t('admin.audit.from')}
+        />
+        <Input
+          type="date"
+          value={values.to}
+          onChange={(e) => set('to', e.target.value)}
+          className="md:w-[160px]"
+          aria-label={t('admin.audit.to')}
+        />
+        <Input
+          value={values.q}
+          onChange={(e) => set('q', e.target.value)}
+          placeholder={t('admin.audit.searchPlaceholder')}
+          className="md:w-[240px]"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') apply()
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={apply}>
+          {t('admin.orders.search')}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => router.push('/admin/audit')}>
+          {t('admin.audit.reset')}
+        </Button>
+      </div>
+
+      <div className="rounded-md border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('admin.audit.time')}</TableHead>
+              <TableHead>{t('admin.audit.admin')}</TableHead>
+              <TableHead>{t('admin.audit.action')}</TableHead>
+              <TableHead>{t('admin.audit.target')}</TableHead>
+              <TableHead className="text-right">{t('admin.audit.changes')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  {t('admin.audit.empty')}
+                </TableCell>
+              </TableRow>
+            )}
+            {entries.map((e) => {
+              const changes = parseChanges(e.changes)
+              const diffKeys = Object.keys(changes.diff || {})
+              const hasChanges = diffKeys.length > 0 || Object.keys(changes.details || {}).length > 0
+              return (
+                <Fragment key={e.id}>
+                  <TableRow>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      <ClientDate value={e.createdAt ? new Date(e.createdAt) : null} format="dateTime" />
+                    </TableCell>
+                    <TableCell className="text-sm">{e.adminUsername || '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono">{e.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {e.targetType || e.targetId ? (
+                        <>
+                          <span className="text-muted-foreground">{e.targetType || '-'}</span>
+                          {e.targetId && <span className="ml-1 font-mono break-all">{e.targetId}</span>}
+                        </>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {hasChanges ? (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setExpanded(expanded === e.id ? null : e.id)}>
+                          {diffKeys.length > 0
+                            ? t('admin.audit.fieldsChanged', { count: diffKeys.length })
+                            : (expanded === e.id ? t('admin.audit.hideDetails') : t('admin.audit.showDetails'))}
+                        </Button>
+                      ) : <span className="text-xs text-muted-foreground">-</span>}
+                    </TableCell>
+                  </TableRow>
+                  {expanded === e.id && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="bg-muted/40">
+                        <div className="space-y-2 text-xs">
+                          {diffKeys.length > 0 && (
+                            <table className="w-full">
+                              <thead>
+                                <tr className="text-muted-foreground">
+                                  <th className="text-left font-medium pr-4">{t('admin.audit.field')}</th>
+                                  <th className="text-left font-medium pr-4">{t('admin.audit.before')}</th>
+                                  <th className="text-left font-medium">{t('admin.audit.after')}</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {diffKeys.map((key) => (
+                                  <tr key={key} className="align-top">
+                                    <td className="pr-4 font-mono">{key}</td>
+                                    <td className="pr-4 break-all text-destructive">{formatValue(changes.diff![key][0])}</td>
+                                    <td className="break-all text-green-600 dark:text-green-400">{formatValue(changes.diff![key][1])}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                          {changes.details && (
+                            <pre className="whitespace-pre-wrap break-all">{JSON.stringify(changes.details, null, 2)}</pre>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {t('admin.audit.total', { total })} · {t('admin.orders.page', { page, totalPages })}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => router.push(buildUrl({ ...filters, page: page - 1 }))}
+          >
+            {t('admin.orders.prev')}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => router.push(buildUrl({ ...filters, page: page + 1 }))}
+          >
+            {t('admin.orders.next')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
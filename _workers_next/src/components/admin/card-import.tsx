@@ -0,0 +1,388 @@
+'use client'
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { useI18n } from "@/lib/i18n/context"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { importCards, previewCardImport } from "@/actions/admin-cards"
+import {
+    CARD_IMPORT_CHUNK_SIZE,
+    CARD_PREVIEW_CHUNK_SIZE,
+    MAX_CARD_KEY_LENGTH,
+    detectCardImportFormat,
+    parseCardImport,
+    type CardImportFormat,
+    type CardImportIssue,
+    type CardImportSeparator,
+    type ParsedCardRecord,
+} from "@/lib/card-import"
+
+type RecordStatus = 'ready' | 'batch_duplicate' | 'in_stock' | 'sold' | 'expired'
+
+interface PreviewState {
+    records: Array<ParsedCardRecord & { status: RecordStatus }>
+    issues: CardImportIssue[]
+    columns: string[]
+    keyColumn: string | null
+    expiryColumn: string | null
+}
+
+interface CardImportProps {
+    productId: string
+    variants: { id: number; name: string; isActive: boolean }[]
+}
+
+const PREVIEW_ROWS = 100
+const SEPARATORS: CardImportSeparator[] = ['newline', 'blank_line', 'comma', 'custom']
+const FORMATS: CardImportFormat[] = ['text', 'csv', 'json']
+const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+function statusVariant(status: RecordStatus): "default" | "secondary" | "destructive" | "outline" {
+    if (status === 'ready') return 'default'
+    if (status === 'sold' || status === 'expired') return 'destructive'
+    return 'secondary'
+}
+
+export function CardImport({ productId, variants }: CardImportProps) {
+    const { t } = useI18n()
+    const router = useRouter()
+    const [source, setSource] = useState<'paste' | 'file'>('paste')
+    const [pasted, setPasted] = useState('')
+    const [file, setFile] = useState<{ name: string; text: string } | null>(null)
+    const [format, setFormat] = useState<CardImportFormat>('text')
+    const [separator, setSeparator] = useState<CardImportSeparator>('newline')
+    const [customSeparator, setCustomSeparator] = useState('')
+    const [keyColumn, setKeyColumn] = useState<string | undefined>(undefined)
+    const [expiryColumn, setExpiryColumn] = useState<string | undefined>(undefined)
+    const [variantId, setVariantId] = useState('')
+    const [expiryHours, setExpiryHours] = useState('')
+    const [expiryMinutes, setExpiryMinutes] = useState('')
+    const [skipDuplicates, setSkipDuplicates] = useState(true)
+    const [preview, setPreview] = useState<PreviewState | null>(null)
+    const [previewing, setPreviewing] = useState(false)
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+    // Any change to the input or how it is read makes the preview stale
+    const reset = <T,>(setter: (value: T) => void) => (value: T) => {
+        setter(value)
+        setPreview(null)
+    }
+
+    const counts = useMemo(() => {
+        const result: Record<RecordStatus, number> = { ready: 0, batch_duplicate: 0, in_stock: 0, sold: 0, expired: 0 }
+        preview?.records.forEach((r) => { result[r.status]++ })
+        return result
+    }, [preview])
+
+    const importable = preview
+        ? preview.records.filter((r) => r.status !== 'expired' && (!skipDuplicates || r.status === 'ready'))
+        : []
+
+    const readDefaultExpiry = (): { minutes: number | null } | { error: string } => {
+        if (expiryHours === '' && expiryMinutes === '') return { minutes: null }
+        const hours = expiryHours === '' ? 0 : Number(expiryHours)
+        const minutes = expiryMinutes === '' ? 0 : Number(expiryMinutes)
+        if (!Number.isInteger(hours) || !Number.isInteger(minutes) || hours < 0 || minutes < 0 || minutes > 59 || hours * 60 + minutes <= 0) {
+            return { error: 'admin.cards.expiryInvalid' }
+        }
+        return { minutes: hours * 60 + minutes }
+    }
+
+    const handleFile = async (selected: File | null) => {
+        setPreview(null)
+        if (!selected) {
+            setFile(null)
+            return
+        }
+        try {
+            const text = await selected.text()
+            setFile({ name: selected.name, text })
+            setFormat(detectCardImportFormat(selected.name))
+            setKeyColumn(undefined)
+            setExpiryColumn(undefined)
+        } catch {
+            toast.error(t('admin.cards.import.errors.readFailed'))
+        }
+    }
+
+    const handlePreview = async () => {
+        const text = source === 'file' ? file?.text || '' : pasted
+        const parsed = parseCardImport(text, { format, separator, customSeparator, keyColumn, expiryColumn })
+        if (!parsed.records.length) {
+            setPreview({ ...parsed, records: [] })
+            if (!parsed.issues.length) toast.error(t('admin.cards.import.errors.empty'))
+            return
+        }
+
+        const now = Date.now()
+        const firstIndex = new Map<string, number>()
+        const records = parsed.records.map((record, index): PreviewState['records'][number] => {
+            let status: RecordStatus = 'ready'
+            if (record.expiresAt !== null && record.expiresAt <= now) status = 'expired'
+            else if (firstIndex.has(record.key)) status = 'batch_duplicate'
+            else firstIndex.set(record.key, index)
+            return { ...record, status }
+        })
+
+        setPreviewing(true)
+        try {
+            const unique = Array.from(firstIndex.keys())
+            for (let i = 0; i < unique.length; i += CARD_PREVIEW_CHUNK_SIZE) {
+                const chunk = unique.slice(i, i + CARD_PREVIEW_CHUNK_SIZE)
+                const res = await previewCardImport(productId, chunk)
+                if (!res.success) {
+                    toast.error(t(res.error))
+                    return
+                }
+                for (const match of res.existing) {
+                    const index = firstIndex.get(chunk[match.index])
+                    if (index !== undefined) records[index].status = match.used ? 'sold' : 'in_stock'
+                }
+            }
+            setPreview({ ...parsed, records })
+        } catch (e: any) {
+            toast.error(e?.message || t('common.error'))
+        } finally {
+            setPreviewing(false)
+        }
+    }
+
+    const handleImport = async () => {
+        if (!preview || !importable.length) return
+        if (variants.length > 0 && !variantId) {
+            toast.error(t('admin.cards.variantRequired'))
+            return
+        }
+        const expiry = readDefaultExpiry()
+        if ('error' in expiry) {
+            toast.error(t(expiry.error))
+            return
+        }
+
+        const total = importable.length
+        let inserted = 0
+        let skipped = 0
+        setProgress({ done: 0, total })
+        try {
+            for (let i = 0; i < total; i += CARD_IMPORT_CHUNK_SIZE) {
+                const chunk = importable.slice(i, i + CARD_IMPORT_CHUNK_SIZE)
+                const res = await importCards({
+                    productId,
+                    variantId: variantId || null,
+                    cards: chunk.map((r) => ({ key: r.key, expiresAt: r.expiresAt })),
+                    defaultExpiryMinutes: expiry.minutes,
+                    skipDuplicates,
+                })
+                if (!res.success) {
+                    toast.error(t(res.error))
+                    break
+                }
+                inserted += res.inserted
+                skipped += res.skipped + res.invalid
+                setProgress({ done: Math.min(total, i + chunk.length), total })
+            }
+            toast.success(t('admin.cards.import.done', { inserted, skipped }))
+            if (inserted > 0) {
+                setPreview(null)
+                setPasted('')
+                setFile(null)
+            }
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e?.message || t('common.error'))
+        } finally {
+            setProgress(null)
+        }
+    }
+
+    const busy = previewing || progress !== null
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                {(['paste', 'file'] as const).map((value) => (
+                    <Button
+                        key={value}
+                        type="button"
+                        size="sm"
+                        variant={source === value ? 'default' : 'outline'}
+                        onClick={() => reset(setSource)(value)}
+                        disabled={busy}
+                    >
+                        {t(`admin.cards.import.source.${value}`)}
+                    </Button>
+                ))}
+            </div>
+
+            {variants.length > 0 && (
+                <div className="space-y-1">
+                    <label className="text-sm font-medium">{t('admin.cards.variantLabel')}</label>
+                    <select value={variantId} onChange={(e) => setVariantId(e.target.value)} disabled={busy} className={selectClass}>
+                        <option value="" disabled>{t('admin.cards.variantPlaceholder')}</option>
+                        {variants.map((v) => (
+                            <option key={v.id} value={v.id}>
+                                {v.isActive ? v.name : `${v.name} (${t('admin.cards.variantInactive')})`}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {source === 'paste' ? (
+                <Textarea
+                    value={pasted}
+                    onChange={(e) => reset(setPasted)(e.target.value)}
+                    placeholder={t('admin.cards.placeholder')}
+                    rows={10}
+                    className="font-mono text-sm"
+                    disabled={busy}
+                />
+            ) : (
+                <div className="space-y-1">
+                    <Input
+                        type="file"
+                        accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+                        onChange={(e) => handleFile(e.target.files?.[0] || null)}
+                        disabled={busy}
+                    />
+                    <p className="text-xs text-muted-foreground">{t('admin.cards.import.fileHint')}</p>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                    <label className="text-xs text-muted-foreground">{t('admin.cards.import.format')}</label>
+                    <select value={format} onChange={(e) => reset(setFormat)(e.target.value as CardImportFormat)} disabled={busy} className={selectClass}>
+                        {FORMATS.map((f) => <option key={f} value={f}>{t(`admin.cards.import.formats.${f}`)}</option>)}
+                    </select>
+                </div>
+                {format === 'text' && (
+                    <div className="space-y-1">
+                        <label className="text-xs text-muted-foreground">{t('admin.cards.import.separator')}</label>
+                        <select value={separator} onChange={(e) => reset(setSeparator)(e.target.value as CardImportSeparator)} disabled={busy} className={selectClass}>
+                            {SEPARATORS.map((s) => <option key={s} value={s}>{t(`admin.cards.import.separators.${s}`)}</option>)}
+                        </select>
+                    </div>
+                )}
+                {format === 'text' && separator === 'custom' && (
+                    <div className="space-y-1 col-span-2">
+                        <label className="text-xs text-muted-foreground">{t('admin.cards.import.customSeparator')}</label>
+                        <Input
+                            value={customSeparator}
+                            onChange={(e) => reset(setCustomSeparator)(e.target.value)}
+                            placeholder="----"
+                            className="font-mono"
+                            disabled={busy}
+                        />
+                    </div>
+                )}
+                {format === 'csv' && preview && preview.columns.length > 0 && (
+                    <>
+                        <div className="space-y-1">
+                            <label className="text-xs text-muted-foreground">{t('admin.cards.import.keyColumn')}</label>
+                            <select value={preview.keyColumn ?? ''} onChange={(e) => reset(setKeyColumn)(e.target.value)} disabled={busy} className={selectClass}>
+                                {preview.columns.map((c) => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-xs text-muted-foreground">{t('admin.cards.import.expiryColumn')}</label>
+                            <select value={preview.expiryColumn ?? ''} onChange={(e) => reset(setExpiryColumn)(e.target.value)} disabled={busy} className={selectClass}>
+                                <option value="">{t('admin.cards.import.noExpiryColumn')}</option>
+                                {preview.columns.map((c) => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="space-y-2">
+                <label className="text-sm font-medium">{t('admin.cards.expiryLabel')}</label>
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                        <label className="text-xs text-muted-foreground">{t('admin.cards.expiryHours')}</label>
+                        <Input type="number" min="0" step="1" value={expiryHours} onChange={(e) => setExpiryHours(e.target.value)} disabled={busy} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs text-muted-foreground">{t('admin.cards.expiryMinutes')}</label>
+                        <Input type="number" min="0" max="59" step="1" value={expiryMinutes} onChange={(e) => setExpiryMinutes(e.target.value)} disabled={busy} />
+                    </div>
+                </div>
+                <p className="text-xs text-muted-foreground">{t('admin.cards.import.expiryDefaultHint')}</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <Checkbox id="card-import-skip" checked={skipDuplicates} onCheckedChange={(v) => setSkipDuplicates(v === true)} disabled={busy} />
+                <label htmlFor="card-import-skip" className="text-sm cursor-pointer select-none">{t('admin.cards.import.skipDuplicates')}</label>
+            </div>
+
+            <Button type="button" variant="outline" className="w-full" onClick={handlePreview} disabled={busy}>
+                {previewing ? t('admin.cards.import.previewing') : t('admin.cards.import.preview')}
+            </Button>
+
+            {preview && (
+                <div className="space-y-3 rounded-md border p-3">
+                    <div className="flex flex-wrap gap-2 text-xs">
+                        <Badge variant="outline">{t('admin.cards.import.summary.parsed', { count: preview.records.length })}</Badge>
+                        <Badge>{t('admin.cards.import.summary.ready', { count: counts.ready })}</Badge>
+                        {counts.batch_duplicate > 0 && <Badge variant="secondary">{t('admin.cards.import.summary.batch_duplicate', { count: counts.batch_duplicate })}</Badge>}
+                        {counts.in_stock > 0 && <Badge variant="secondary">{t('admin.cards.import.summary.in_stock', { count: counts.in_stock })}</Badge>}
+                        {counts.sold > 0 && <Badge variant="destructive">{t('admin.cards.import.summary.sold', { count: counts.sold })}</Badge>}
+                        {counts.expired > 0 && <Badge variant="destructive">{t('admin.cards.import.summary.expired', { count: counts.expired })}</Badge>}
+                        {preview.issues.length > 0 && <Badge variant="destructive">{t('admin.cards.import.summary.issues', { count: preview.issues.length })}</Badge>}
+                    </div>
+
+                    {preview.issues.length > 0 && (
+                        <ul className="text-xs text-destructive space-y-0.5 max-h-24 overflow-y-auto">
+                            {preview.issues.slice(0, 20).map((issue, index) => (
+                                <li key={index}>
+                                    {issue.record > 0 && `#${issue.record} `}
+                                    {t(`admin.cards.import.errors.${issue.error}`, { max: MAX_CARD_KEY_LENGTH })}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {preview.records.length > 0 && (
+                        <div className="max-h-64 overflow-y-auto space-y-1">
+                            {preview.records.slice(0, PREVIEW_ROWS).map((r, index) => (
+                                <div key={index} className="flex items-start justify-between gap-2 rounded bg-muted/40 p-2 text-xs">
+                                    <div className="min-w-0">
+                                        <span className="text-muted-foreground mr-2">#{r.record}</span>
+                                        <span className="font-mono whitespace-pre-wrap break-all">{r.key.length > 200 ? `${r.key.slice(0, 200)}…` : r.key}</span>
+                                        {r.expiresAt !== null && (
+                                            <div className="text-muted-foreground">{t('admin.cards.import.expires', { date: new Date(r.expiresAt).toLocaleString() })}</div>
+                                        )}
+                                    </div>
+                                    <Badge variant={statusVariant(r.status)} className="shrink-0">{t(`admin.cards.import.status.${r.status}`)}</Badge>
+                                </div>
+                            ))}
+                            {preview.records.length > PREVIEW_ROWS && (
+                                <p className="text-xs text-muted-foreground text-center">
+                                    {t('admin.cards.import.moreRows', { shown: PREVIEW_ROWS, total: preview.records.length })}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {progress && (
+                        <div className="space-y-1">
+                            <div className="h-2 w-full rounded bg-muted overflow-hidden">
+                                <div className="h-full bg-primary transition-all" style={{ width: `${Math.round((progress.done / Math.max(1, progress.total)) * 100)}%` }} />
+                            </div>
+                            <p className="text-xs text-muted-foreground">{t('admin.cards.import.progress', { done: progress.done, total: progress.total })}</p>
+                        </div>
+                    )}
+
+                    <Button type="button" className="w-full" onClick={handleImport} disabled={busy || importable.length === 0}>
+                        {progress ? t('common.processing') : t('admin.cards.import.importBtn', { count: importable.length })}
+                    </Button>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -2,10 +2,9 @@
 
 import { useI18n } from "@/lib/i18n/context"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
-import { Textarea } from "@/components/ui/textarea"
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
-import { addCards, deleteCard, deleteCards } from "@/actions/admin"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { deleteCard, deleteCards } from "@/actions/admin"
+import { CardImport } from "@/components/admin/card-import"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useRef, useState } from "react"
 import { Badge } from "@/components/ui/badge"
@@ -13,33 +12,29 @@ import { toast } from "sonner"
 import { CopyButton } from "@/components/copy-button"
 import { Trash2 } from "lucide-react"
 import { useRouter } from "next/navigation"
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 
 interface CardData {
     id: number
     cardKey: string
+    variantId?: number | null
 }
 
 interface CardsContentProps {
     productId: string
     productName: string
     unusedCards: CardData[]
+    variants?: { id: number; name: string; isActive: boolean }[]
 }
 
-export function CardsContent({ productId, productName, unusedCards }: CardsContentProps) {
+export function CardsContent({ productId, productName, unusedCards, variants = [] }: CardsContentProps) {
     const { t } = useI18n()
     const router = useRouter()
     const [selectedIds, setSelectedIds] = useState<number[]>([])
-    const [submitting, setSubmitting] = useState(false)
     const [batchDeleting, setBatchDeleting] = useState(false)
     const [deletingId, setDeletingId] = useState<number | null>(null)
-    const [confirmOpen, setConfirmOpen] = useState(false)
-    const [pendingCount, setPendingCount] = useState(0)
-    const submitLock = useRef(false)
     const batchDeleteLock = useRef(false)
     const deleteLock = useRef<number | null>(null)
-    const formRef = useRef<HTMLFormElement | null>(null)
-    const pendingFormRef = useRef<FormData | null>(null)
+    const variantNames = new Map(variants.map((v) => [v.id, v.name]))
 
     const toggleSelectAll = () => {
         if (selectedIds.length === unusedCards.length) {
@@ -77,50 +72,6 @@ export function CardsContent({ productId, productName, unusedCards }: CardsConte
         }
     }
 
-    const handleSubmit = async (formData: FormData) => {
-        if (submitLock.current) return
-        submitLock.current = true
-        setSubmitting(true)
-        try {
-            const result = await addCards(formData)
-            if (result && result.success === false) {
-                toast.error(t(result.error || 'common.error'))
-                return
-            }
-            toast.success(t('common.success'))
-            router.refresh()
-            formRef.current?.reset()
-            setPendingCount(0)
-        } catch (e: any) {
-            toast.error(e?.message || t('common.error'))
-        } finally {
-            setSubmitting(false)
-            submitLock.current = false
-        }
-    }
-
-    const handleConfirmSubmit = async () => {
-        const formData = pendingFormRef.current
-        if (!formData) {
-            setConfirmOpen(false)
-            return
-        }
-        setConfirmOpen(false)
-        pendingFormRef.current = null
-        await handleSubmit(formData)
-    }
-
-    const handleOpenConfirm = (formData: FormData) => {
-        const raw = String(formData.get('cards') || '')
-        const count = raw
-            .split(/\r?\n|,/)
-            .map((item) => item.trim())
-            .filter(Boolean).length
-        setPendingCount(count)
-        pendingFormRef.current = formData
-        setConfirmOpen(true)
-    }
-
     return (
         <div className="space-y-8 max-w-4xl mx-auto">
             <div className="flex items-center justify-between">
@@ -139,36 +90,7 @@ export function CardsContent({ productId, productName, unusedCards }: CardsConte
                         <CardTitle>{t('admin.cards.addCards')}</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <form
-                            ref={formRef}
-                            onSubmit={(event) => {
-                                event.preventDefault()
-                                if (submitting) return
-                                const formData = new FormData(event.currentTarget)
-                                handleOpenConfirm(formData)
-                            }}
-                            className="space-y-4"
-                        >
-                            <input type="hidden" name="product_id" value={productId} />
-                            <Textarea name="cards" placeholder={t('admin.cards.placeholder')} rows={10} className="font-mono text-sm" required disabled={submitting} />
-                            <div className="space-y-2">
-                                <label className="text-sm font-medium">{t('admin.cards.expiryLabel')}</label>
-                                <div className="grid grid-cols-2 gap-3">
-                                    <div className="space-y-1">
-                                        <label className="text-xs text-muted-foreground">{t('admin.cards.expiryHours')}</label>
-                                        <Input name="expires_hours" type="number" min="0" step="1" disabled={submitting} />
-                                    </div>
-                                    <div className="space-y-1">
-                                        <label className="text-xs text-muted-foreground">{t('admin.cards.expiryMinutes')}</label>
-                                        <Input name="expires_minutes" type="number" min="0" max="59" step="1" disabled={submitting} />
-                                    </div>
-                                </div>
-                                <p className="text-xs text-muted-foreground">{t('admin.cards.expiryHint')}</p>
-                            </div>
-                            <Button type="submit" className="w-full" disabled={submitting}>
-                                {submitting ? t('common.processing') : t('common.add')}
-                            </Button>
-                        </form>
+                        <CardImport productId={productId} variants={variants} />
                     </CardContent>
                 </Card>
 
@@ -214,6 +136,9 @@ export function CardsContent({ productId, productName, unusedCards }: CardsConte
                                             onCheckedChange={() => toggleSelect(c.id)}
                                         />
                                         <CopyButton text={c.cardKey} truncate maxLength={30} />
+                                        {c.variantId && variantNames.get(c.variantId) && (
+                                            <Badge variant="secondary" className="font-sans text-xs">{variantNames.get(c.variantId)}</Badge>
+                                        )}
                                     </div>
                                     <Button
                                         variant="ghost"
@@ -246,25 +171,6 @@ export function CardsContent({ productId, productName, unusedCards }: CardsConte
                     </CardContent>
                 </Card>
             </div>
-
-            <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
-                <DialogContent>
-                    <DialogHeader>
-                        <DialogTitle>{t('admin.cards.confirmAddTitle')}</DialogTitle>
-                        <DialogDescription>
-                            {t('admin.cards.confirmAddDescription', { count: pendingCount })}
-                        </DialogDescription>
-                    </DialogHeader>
-                    <DialogFooter>
-                        <Button variant="outline" onClick={() => setConfirmOpen(false)}>
-                            {t('common.cancel')}
-                        </Button>
-                        <Button onClick={handleConfirmSubmit} disabled={submitting}>
-                            {t('common.confirm')}
-                        </Button>
-                    </DialogFooter>
-                </DialogContent>
-            </Dialog>
         </div>
     )
 }
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { saveCoupon, deleteCoupon, toggleCouponActive } from "@/actions/admin-coupons"
+import { toast } from "sonner"
+
+type CouponRow = {
+  id: number
+  code: string
+  type: string
+  value: string
+  scope: string
+  scopeValue: string | null
+  minSpend: string | null
+  maxUses: number | null
+  perUserLimit: number | null
+  usedCount: number
+  allowPoints: boolean | null
+  isActive: boolean | null
+  startsAt: number | null
+  endsAt: number | null
+}
+
+interface AdminCouponsContentProps {
+  coupons: CouponRow[]
+  categories: string[]
+  products: { id: string; name: string }[]
+}
+
+const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+function toLocalInput(value: number | null) {
+  if (!value) return ""
+  const d = new Date(value)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+const emptyForm = {
+  id: "",
+  code: "",
+  type: "percent",
+  value: "",
+  scope: "all",
+  scopeValue: "",
+  minSpend: "",
+  maxUses: "",
+  perUserLimit: "",
+  allowPoints: true,
+  isActive: true,
+  startsAt: "",
+  endsAt: "",
+}
+
+export function AdminCouponsContent({ coupons, categories, products }: AdminCouponsContentProps) {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const set = (key: keyof typeof emptyForm, value: string | boolean) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const handleEdit = (c: CouponRow) => {
+    setForm({
+      id: String(c.id),
+      code: c.code,
+      type: c.type,
+      value: c.value,
+      scope: c.scope,
+      scopeValue: c.scopeValue || "",
+      minSpend: c.minSpend || "",
+      maxUses: c.maxUses ? String(c.maxUses) : "",
+      perUserLimit: c.perUserLimit ? String(c.perUserLimit) : "",
+      allowPoints: c.allowPoints !== false,
+      isActive: c.isActive !== false,
+      startsAt: toLocalInput(c.startsAt),
+      endsAt: toLocalInput(c.endsAt),
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const formData = new FormData()
+      Object.entries(form).forEach(([k, v]) => formData.set(k, String(v)))
+      // datetime-local has no zone, send an absolute timestamp instead
+      formData.set('startsAt', form.startsAt ? new Date(form.startsAt).toISOString() : '')
+      formData.set('endsAt', form.endsAt ? new Date(form.endsAt).toISOString() : '')
+      await saveCoupon(formData)
+      toast.success(t('common.success'))
+      setForm(emptyForm)
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (c: CouponRow) => {
+    setBusyId(c.id)
+    try {
+      await toggleCouponActive(c.id, c.isActive === false)
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (c: CouponRow) => {
+    if (!confirm(t('admin.coupons.confirmDelete'))) return
+    setBusyId(c.id)
+    try {
+      await deleteCoupon(c.id)
+      toast.success(t('common.success'))
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const describeValue = (c: CouponRow) => c.type === 'fixed' ? `-${Number(c.value).toFixed(2)}` : `-${Number(c.value)}%`
+
+  const describeScope = (c: CouponRow) => {
+    if (c.scope === 'product') return `${t('admin.coupons.scopeProduct')}: ${c.scopeValue || ''}`
+    if (c.scope === 'category') return `${t('admin.coupons.scopeCategory')}: ${c.scopeValue || ''}`
+    return t('admin.coupons.scopeAll')
+  }
+
+  const describeStatus = (c: CouponRow) => {
+    const now = Date.now()
+    if (c.isActive === false) return <Badge variant="secondary">{t('admin.coupons.disabled')}</Badge>
+    if (c.endsAt && c.endsAt <= now) return <Badge variant="outline">{t('admin.coupons.expired')}</Badge>
+    if (c.startsAt && c.startsAt > now) return <Badge variant="outline">{t('admin.coupons.scheduled')}</Badge>
+    if (c.maxUses && c.usedCount >= c.maxUses) return <Badge variant="outline">{t('admin.coupons.exhausted')}</Badge>
+    return <Badge>{t('admin.coupons.active')}</Badge>
+  }
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <h1 className="text-3xl font-bold tracking-tight">{t('admin.coupons.title')}</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{form.id ? t('admin.coupons.edit') : t('admin.coupons.create')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="floating-field">
+            <Input id="coupon-code" value={form.code} onChange={(e) => set('code', e.target.value.toUpperCase())} placeholder=" " />
+            <Label htmlFor="coupon-code" className="floating-label">{t('admin.coupons.code')}</Label>
+          </div>
+          <div className="grid gap-2">
+            <select id="coupon-type" value={form.type} onChange={(e) => set('type', e.target.value)} className={selectClass}>
+              <option value="percent">{t('admin.coupons.typePercent')}</option>
+              <option value="fixed">{t('admin.coupons.typeFixed')}</option>
+            </select>
+          </div>
+          <div className="floating-field">
+            <Input id="coupon-value" type="number" min="0" step="0.01" value={form.value} onChange={(e) => set('value', e.target.value)} placeholder=" " />
+            <Label htmlFor="coupon-value" className="floating-label">{t('admin.coupons.value')}</Label>
+          </div>
+
+          <div className="grid gap-2">
+            <select id="coupon-scope" value={form.scope} onChange={(e) => set('scope', e.target.value)} className={selectClass}>
+              <option value="all">{t('admin.coupons.scopeAll')}</option>
+              <option value="product">{t('admin.coupons.scopeProduct')}</option>
+              <option value="category">{t('admin.coupons.scopeCategory')}</option>
+            </select>
+          </div>
+          <div className="floating-field md:col-span-2">
+            <Input
+              id="coupon-scope-value"
+              value={form.scopeValue}
+              onChange={(e) => set('scopeValue', e.target.value)}
+              placeholder=" "
+              disabled={form.scope === 'all'}
+              list={form.scope === 'product' ? 'coupon-products' : form.scope === 'category' ? 'coupon-categories' : undefined}
+            />
+            <Label htmlFor="coupon-scope-value" className="floating-label">{t('admin.coupons.scopeValue')}</Label>
+            <datalist id="coupon-products">
+              {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </datalist>
+            <datalist id="coupon-categories">
+              {categories.map((c) => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+
+          <div className="floating-field">
+            <Input id="coupon-min-spend" type="number" min="0" step="0.01" value={form.minSpend} onChange={(e) => set('minSpend', e.target.value)} placeholder=" " />
+            <Label htmlFor="coupon-min-spend" className="floating-label">{t('admin.coupons.minSpend')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="coupon-max-uses" type="number" min="0" value={form.maxUses} onChange={(e) => set('maxUses', e.target.value)} placeholder=" " />
+            <Label htmlFor="coupon-max-uses" className="floating-label">{t('admin.coupons.maxUses')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="coupon-per-user" type="number" min="0" value={form.perUserLimit} onChange={(e) => set('perUserLimit', e.target.value)} placeholder=" " />
+            <Label htmlFor="coupon-per-user" className="floating-label">{t('admin.coupons.perUserLimit')}</Label>
+          </div>
+
+          <div className="grid gap-1">
+            <Label htmlFor="coupon-starts" className="text-xs text-muted-foreground">{t('admin.coupons.startsAt')}</Label>
+            <Input id="coupon-starts" type="datetime-local" value={form.startsAt} onChange={(e) => set('startsAt', e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="coupon-ends" className="text-xs text-muted-foreground">{t('admin.coupons.endsAt')}</Label>
+            <Input id="coupon-ends" type="datetime-local" value={form.endsAt} onChange={(e) => set('endsAt', e.target.value)} />
+          </div>
+          <div className="flex flex-col justify-end gap-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="coupon-allow-points" checked={form.allowPoints} onCheckedChange={(v) => set('allowPoints', v === true)} />
+              <Label htmlFor="coupon-allow-points">{t('admin.coupons.allowPoints')}</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="coupon-active" checked={form.isActive} onCheckedChange={(v) => set('isActive', v === true)} />
+              <Label htmlFor="coupon-active">{t('admin.coupons.active')}</Label>
+            </div>
+          </div>
+
+          <div className="md:col-span-3 flex justify-end gap-2">
+            {form.id && (
+              <Button variant="outline" onClick={() => setForm(emptyForm)} disabled={saving}>
+                {t('common.cancel')}
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || !form.code.trim() || !form.value}>
+              {saving ? t('common.processing') : form.id ? t('common.save') : t('common.add')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="rounded-md border bg-card overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('admin.coupons.code')}</TableHead>
+              <TableHead>{t('admin.coupons.value')}</TableHead>
+              <TableHead>{t('admin.coupons.scope')}</TableHead>
+              <TableHead>{t('admin.coupons.usage')}</TableHead>
+              <TableHead>{t('admin.coupons.status')}</TableHead>
+              <TableHead className="text-right">{t('admin.categories.actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {coupons.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">{t('admin.coupons.empty')}</TableCell>
+              </TableRow>
+            )}
+            {coupons.map((c) => (
+              <TableRow key={c.id}>
+                <TableCell className="font-mono">{c.code}</TableCell>
+                <TableCell>
+                  {describeValue(c)}
+                  {c.minSpend && Number(c.minSpend) > 0 && (
+                    <div className="text-xs text-muted-foreground">{t('admin.coupons.minSpendShort', { amount: Number(c.minSpend).toFixed(2) })}</div>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[220px] truncate" title={describeScope(c)}>{describeScope(c)}</TableCell>
+                <TableCell>
+                  {c.usedCount}{c.maxUses ? ` / ${c.maxUses}` : ''}
+                  {c.perUserLimit ? <div className="text-xs text-muted-foreground">{t('admin.coupons.perUserShort', { count: c.perUserLimit })}</div> : null}
+                </TableCell>
+                <TableCell>{describeStatus(c)}</TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(c)} disabled={busyId === c.id}>
+                    {t('common.edit')}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleToggle(c)} disabled={busyId === c.id}>
+                    {c.isActive === false ? t('admin.coupons.enable') : t('admin.coupons.disable')}
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(c)} disabled={busyId === c.id}>
+                    {t('common.delete')}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card"
+import { toast } from "sonner"
+import { resetEmailTemplate, saveEmailTemplate } from "@/actions/admin-email"
+import {
+    DEFAULT_EMAIL_TEMPLATES,
+    EMAIL_TEMPLATE_KINDS,
+    EMAIL_TEMPLATE_VARIABLES,
+    SAMPLE_EMAIL_VARIABLES,
+    renderEmailTemplate,
+    type EmailLanguage,
+    type EmailTemplate,
+    type EmailTemplateKind
+} from "@/lib/email-templates"
+import { FileText } from "lucide-react"
+
+const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+type SavedTemplates = Record<EmailTemplateKind, Record<EmailLanguage, EmailTemplate & { custom: boolean }>>
+
+export function EmailTemplatesCard({ templates, siteName }: { templates: SavedTemplates; siteName: string }) {
+    const { t } = useI18n()
+    const router = useRouter()
+    const [kind, setKind] = useState<EmailTemplateKind>('order_delivered')
+    const [language, setLanguage] = useState<EmailLanguage>('zh')
+    const [subject, setSubject] = useState(templates.order_delivered.zh.subject)
+    const [body, setBody] = useState(templates.order_delivered.zh.body)
+    const [busy, setBusy] = useState(false)
+
+    const saved = templates[kind][language]
+    const dirty = subject !== saved.subject || body !== saved.body
+
+    const select = (nextKind: EmailTemplateKind, nextLanguage: EmailLanguage) => {
+        if (dirty && !confirm(t('admin.emailTemplates.confirmDiscard'))) return
+        setKind(nextKind)
+        setLanguage(nextLanguage)
+        setSubject(templates[nextKind][nextLanguage].subject)
+        setBody(templates[nextKind][nextLanguage].body)
+    }
+
+    const preview = useMemo(
+        () => renderEmailTemplate({ subject, body }, { ...SAMPLE_EMAIL_VARIABLES, siteName: siteName || SAMPLE_EMAIL_VARIABLES.siteName }, language),
+        [subject, body, language, siteName]
+    )
+
+    async function handleSave() {
+        setBusy(true)
+        try {
+            const res = await saveEmailTemplate({ kind, language, subject, body })
+            if (!res.success) {
+                toast.error(t(res.error))
+                return
+            }
+            toast.success(t('common.success'))
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    async function handleReset() {
+        if (!confirm(t('admin.emailTemplates.confirmReset'))) return
+        setBusy(true)
+        try {
+            const res = await resetEmailTemplate(kind, language)
+            if (!res.success) {
+                toast.error(t(res.error))
+                return
+            }
+            const fallback = DEFAULT_EMAIL_TEMPLATES[kind][language]
+            setSubject(fallback.subject)
+            setBody(fallback.body)
+            toast.success(t('common.success'))
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    {t('admin.emailTemplates.title')}
+                </CardTitle>
+                <CardDescription>{t('admin.emailTemplates.desc')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-3 md:grid-cols-[1fr_auto]">
+                    <select
+                        value={kind}
+                        onChange={(e) => select(e.target.value as EmailTemplateKind, language)}
+                        className={selectClass}
+                        aria-label={t('admin.emailTemplates.kind')}
+                    >
+                        {EMAIL_TEMPLATE_KINDS.map((k) => (
+                            <option key={k} value={k}>
+                                {t(`admin.emailTemplates.kinds.${k}`)}{templates[k].zh.custom || templates[k].en.custom ? ' *' : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <div className="flex gap-2">
+                        {(['zh', 'en'] as const).map((lang) => (
+                            <Button key={lang} type="button" size="sm" variant={language === lang ? 'default' : 'outline'} onClick={() => select(kind, lang)}>
+                                {lang === 'zh' ? '中文' : 'English'}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <Badge variant={saved.custom ? 'default' : 'outline'}>
+                        {saved.custom ? t('admin.emailTemplates.custom') : t('admin.emailTemplates.default')}
+                    </Badge>
+                    <span className="text-muted-foreground">{t('admin.emailTemplates.variables')}</span>
+                    {EMAIL_TEMPLATE_VARIABLES[kind].map((name) => (
+                        <code key={name} className="rounded bg-muted px-1.5 py-0.5 font-mono">{`{{${name}}}`}</code>
+                    ))}
+                </div>
+
+                <div className="grid gap-4 lg:grid-cols-2">
+                    <div className="space-y-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="emailTemplateSubject">{t('admin.emailTemplates.subject')}</Label>
+                            <Input id="emailTemplateSubject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="emailTemplateBody">{t('admin.emailTemplates.body')}</Label>
+                            <Textarea
+                                id="emailTemplateBody"
+                                value={body}
+                                onChange={(e) => setBody(e.target.value)}
+                                rows={18}
+                                className="font-mono text-xs"
+                            />
+                            <p className="text-xs text-muted-foreground">{t('admin.emailTemplates.bodyHint')}</p>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <Button onClick={handleSave} disabled={busy || !dirty}>
+                                {busy ? t('common.processing') : t('common.save')}
+                            </Button>
+                            <Button variant="outline" onClick={handleReset} disabled={busy || !saved.custom}>
+                                {t('admin.emailTemplates.reset')}
+                            </Button>
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>{t('admin.emailTemplates.preview')}</Label>
+                        <div className="rounded-md border bg-muted/30 px-3 py-2 text-sm">
+                            <span className="text-muted-foreground">{t('admin.emailTemplates.subject')}: </span>
+                            <span className="font-medium">{preview.subject}</span>
+                        </div>
+                        {/* Sandboxed so template markup cannot run scripts in the admin page */}
+                        <iframe
+                            title={t('admin.emailTemplates.preview')}
+                            srcDoc={preview.html}
+                            sandbox=""
+                            className="h-[480px] w-full rounded-md border bg-white"
+                        />
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
@@ -6,8 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Download, Upload, FileUp, AlertCircle, CheckCircle2 } from "lucide-react"
-import { importData, repairDataAction } from "@/actions/data"
+import { Download, Upload, FileUp, AlertCircle, CheckCircle2, Lock } from "lucide-react"
+import { encryptCardKeysAction, importData, repairDataAction } from "@/actions/data"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 
@@ -17,12 +17,44 @@ function downloadUrl(params: Record<string, string>) {
   return `/admin/export/download?${search.toString()}`.replace('/export/', '/data/')
 }
 
-export function AdminDataContent({ shopName }: { shopName: string | null }) {
+interface CardKeyStatus {
+  enabled: boolean
+  pendingCards: number
+  pendingOrders: number
+}
+
+export function AdminDataContent({ shopName, cardKeyStatus }: { shopName: string | null; cardKeyStatus: CardKeyStatus | null }) {
   const { t } = useI18n()
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export')
   const [importing, setImporting] = useState(false)
   const [importResult, setImportResult] = useState<{ count: number, errors: number } | null>(null)
   const [repairing, setRepairing] = useState(false)
+  const [keyStatus, setKeyStatus] = useState<CardKeyStatus | null>(cardKeyStatus)
+  const [encrypting, setEncrypting] = useState(false)
+
+  const pendingKeys = keyStatus ? keyStatus.pendingCards + keyStatus.pendingOrders : 0
+
+  // Each call handles one batch; keep going until nothing is left or a batch makes no progress
+  const handleEncryptKeys = async () => {
+    if (!confirm(t(keyStatus?.enabled ? 'admin.export.cardKeysConfirm' : 'admin.export.cardKeysHashConfirm'))) return
+    setEncrypting(true)
+    try {
+      for (;;) {
+        const result = await encryptCardKeysAction()
+        if (!result.success) {
+          toast.error(result.error || t('common.error'))
+          return
+        }
+        setKeyStatus({ enabled: result.enabled, pendingCards: result.pendingCards, pendingOrders: result.pendingOrders })
+        if (result.pendingCards + result.pendingOrders === 0 || result.processed === 0) break
+      }
+      toast.success(t('common.success'))
+    } catch (err: any) {
+      toast.error(err.message)
+    } finally {
+      setEncrypting(false)
+    }
+  }
 
   const handleRepair = async () => {
     if (!confirm(t('admin.export.repairConfirm') || "Repair timestamps? This will convert Vercel-style text dates to Workers-style numbers.")) return
@@ -188,6 +220,37 @@ export function AdminDataContent({ shopName }: { shopName: string | null }) {
                 </Button>
               </CardContent>
             </Card>
+
+            {keyStatus && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2"><Lock className="h-4 w-4" />{t('admin.export.cardKeysTitle')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {keyStatus.enabled ? t('admin.export.cardKeysEnabled') : t('admin.export.cardKeysDisabled')}
+                  </p>
+                  <p className="text-sm">
+                    {pendingKeys > 0
+                      ? t('admin.export.cardKeysPending', { cards: keyStatus.pendingCards, orders: keyStatus.pendingOrders })
+                      : t('admin.export.cardKeysDone')}
+                  </p>
+                  <Button variant="outline" onClick={handleEncryptKeys} disabled={encrypting || pendingKeys === 0}>
+                    {encrypting ? (
+                      <>
+                        <Upload className="mr-2 h-4 w-4 animate-bounce" />
+                        {t('common.processing')}
+                      </>
+                    ) : (
+                      <>
+                        <Lock className="mr-2 h-4 w-4" />
+                        {keyStatus.enabled ? t('admin.export.cardKeysBtn') : t('admin.export.cardKeysHashBtn')}
+                      </>
+                    )}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
       </div>
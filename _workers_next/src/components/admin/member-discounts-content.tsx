@@ -0,0 +1,223 @@
+'use client'
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { saveMemberDiscount, deleteMemberDiscount, toggleMemberDiscountActive } from "@/actions/admin-member-discounts"
+import { toast } from "sonner"
+
+type RuleRow = {
+  id: number
+  name: string
+  productId: string | null
+  minTrustLevel: number | null
+  userTag: string | null
+  percentOff: number
+  isActive: boolean | null
+}
+
+interface AdminMemberDiscountsContentProps {
+  rules: RuleRow[]
+  products: { id: string; name: string }[]
+}
+
+const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+const emptyForm = {
+  id: "",
+  name: "",
+  productId: "",
+  minTrustLevel: "",
+  userTag: "",
+  percentOff: "",
+  isActive: true,
+}
+
+export function AdminMemberDiscountsContent({ rules, products }: AdminMemberDiscountsContentProps) {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const productNames = new Map(products.map((p) => [p.id, p.name]))
+
+  const set = (key: keyof typeof emptyForm, value: string | boolean) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const handleEdit = (r: RuleRow) => {
+    setForm({
+      id: String(r.id),
+      name: r.name,
+      productId: r.productId || "",
+      minTrustLevel: r.minTrustLevel === null ? "" : String(r.minTrustLevel),
+      userTag: r.userTag || "",
+      percentOff: String(r.percentOff),
+      isActive: r.isActive !== false,
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const formData = new FormData()
+      Object.entries(form).forEach(([k, v]) => formData.set(k, String(v)))
+      await saveMemberDiscount(formData)
+      toast.success(t('common.success'))
+      setForm(emptyForm)
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (r: RuleRow) => {
+    setBusyId(r.id)
+    try {
+      await toggleMemberDiscountActive(r.id, r.isActive === false)
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (r: RuleRow) => {
+    if (!confirm(t('admin.memberDiscounts.confirmDelete'))) return
+    setBusyId(r.id)
+    try {
+      await deleteMemberDiscount(r.id)
+      toast.success(t('common.success'))
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const describeCondition = (r: RuleRow) => {
+    const parts: string[] = []
+    if (r.minTrustLevel !== null) parts.push(t('admin.memberDiscounts.trustLevelShort', { level: r.minTrustLevel }))
+    if (r.userTag) parts.push(t('admin.memberDiscounts.tagShort', { tag: r.userTag }))
+    return parts.join(' + ')
+  }
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('admin.memberDiscounts.title')}</h1>
+        <p className="text-sm text-muted-foreground mt-1">{t('admin.memberDiscounts.subtitle')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{form.id ? t('admin.memberDiscounts.edit') : t('admin.memberDiscounts.create')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="floating-field">
+            <Input id="member-discount-name" value={form.name} onChange={(e) => set('name', e.target.value)} placeholder=" " />
+            <Label htmlFor="member-discount-name" className="floating-label">{t('admin.memberDiscounts.name')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="member-discount-percent" type="number" min="1" max="100" step="1" value={form.percentOff} onChange={(e) => set('percentOff', e.target.value)} placeholder=" " />
+            <Label htmlFor="member-discount-percent" className="floating-label">{t('admin.memberDiscounts.percentOff')}</Label>
+          </div>
+          <div className="grid gap-2">
+            <select id="member-discount-product" value={form.productId} onChange={(e) => set('productId', e.target.value)} className={selectClass}>
+              <option value="">{t('admin.memberDiscounts.allProducts')}</option>
+              {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+
+          <div className="grid gap-2">
+            <select id="member-discount-level" value={form.minTrustLevel} onChange={(e) => set('minTrustLevel', e.target.value)} className={selectClass}>
+              <option value="">{t('admin.memberDiscounts.anyTrustLevel')}</option>
+              {[0, 1, 2, 3, 4].map((level) => (
+                <option key={level} value={level}>{t('admin.memberDiscounts.trustLevelShort', { level })}</option>
+              ))}
+            </select>
+          </div>
+          <div className="floating-field">
+            <Input id="member-discount-tag" value={form.userTag} onChange={(e) => set('userTag', e.target.value)} placeholder=" " />
+            <Label htmlFor="member-discount-tag" className="floating-label">{t('admin.memberDiscounts.userTag')}</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="member-discount-active" checked={form.isActive} onCheckedChange={(v) => set('isActive', v === true)} />
+            <Label htmlFor="member-discount-active">{t('admin.coupons.active')}</Label>
+          </div>
+
+          <p className="md:col-span-3 text-xs text-muted-foreground">{t('admin.memberDiscounts.hint')}</p>
+
+          <div className="md:col-span-3 flex justify-end gap-2">
+            {form.id && (
+              <Button variant="outline" onClick={() => setForm(emptyForm)} disabled={saving}>
+                {t('common.cancel')}
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || !form.name.trim() || !form.percentOff}>
+              {saving ? t('common.processing') : form.id ? t('common.save') : t('common.add')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="rounded-md border bg-card overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('admin.memberDiscounts.name')}</TableHead>
+              <TableHead>{t('admin.memberDiscounts.condition')}</TableHead>
+              <TableHead>{t('admin.memberDiscounts.scope')}</TableHead>
+              <TableHead>{t('admin.memberDiscounts.percentOff')}</TableHead>
+              <TableHead>{t('admin.coupons.status')}</TableHead>
+              <TableHead className="text-right">{t('admin.categories.actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">{t('admin.memberDiscounts.empty')}</TableCell>
+              </TableRow>
+            )}
+            {rules.map((r) => (
+              <TableRow key={r.id}>
+                <TableCell className="font-medium">{r.name}</TableCell>
+                <TableCell>{describeCondition(r)}</TableCell>
+                <TableCell className="max-w-[220px] truncate">
+                  {r.productId ? (productNames.get(r.productId) || r.productId) : t('admin.memberDiscounts.allProducts')}
+                </TableCell>
+                <TableCell>-{r.percentOff}%</TableCell>
+                <TableCell>
+                  {r.isActive === false
+                    ? <Badge variant="secondary">{t('admin.coupons.disabled')}</Badge>
+                    : <Badge>{t('admin.coupons.active')}</Badge>}
+                </TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(r)} disabled={busyId === r.id}>
+                    {t('common.edit')}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleToggle(r)} disabled={busyId === r.id}>
+                    {r.isActive === false ? t('admin.coupons.enable') : t('admin.coupons.disable')}
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(r)} disabled={busyId === r.id}>
+                    {t('common.delete')}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -22,6 +22,7 @@ export function AdminMessagesContent({ history, inbox }: { history: any[]; inbox
     const [targetValue, setTargetValue] = useState("")
     const [title, setTitle] = useState("")
     const [body, setBody] = useState("")
+    const [sendEmail, setSendEmail] = useState(false)
     const [sending, setSending] = useState(false)
     const [deleting, setDeleting] = useState<number | null>(null)
     const [clearingHistory, setClearingHistory] = useState(false)
@@ -118,6 +119,16 @@ export function AdminMessagesContent({ history, inbox }: { history: any[]; inbox
                             />
                             <Label className="floating-label">{t('admin.messages.bodyLabel')}</Label>
                         </div>
+                        <div className="flex items-center gap-2">
+                            <input
+                                id="messageSendEmail"
+                                type="checkbox"
+                                checked={sendEmail}
+                                onChange={(e) => setSendEmail(e.target.checked)}
+                                className="h-4 w-4 accent-primary"
+                            />
+                            <Label htmlFor="messageSendEmail" className="cursor-pointer">{t('admin.messages.sendEmail')}</Label>
+                        </div>
                     </div>
                     <div className="flex justify-end">
                         <Button
@@ -130,10 +141,12 @@ export function AdminMessagesContent({ history, inbox }: { history: any[]; inbox
                                         targetType,
                                         targetValue,
                                         title,
-                                        body
+                                        body,
+                                        sendEmail
                                     })
                                     if (res?.success) {
                                         toast.success(t('admin.messages.sent', { count: res.count ?? 0 }))
+                                        if (sendEmail) toast.info(t('admin.messages.emailQueued', { count: res.emailed ?? 0 }))
                                         setTitle("")
                                         setBody("")
                                         if (targetType !== "all") setTargetValue("")
@@ -1,44 +1,138 @@
 'use client'
 
 import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
 import { useI18n } from "@/lib/i18n/context"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { CopyButton } from "@/components/copy-button"
+import { ClientDate } from "@/components/client-date"
 import { toast } from "sonner"
-import { saveNotificationSettings, testNotification, testEmailNotification } from "@/actions/admin"
-import { Bell, CreditCard, RotateCcw, ExternalLink, Mail } from "lucide-react"
+import { saveNotificationSettings, testEmailNotification } from "@/actions/admin"
+import { connectTelegramBot, deleteNotificationChannel, disconnectTelegramBot, saveNotificationChannel, saveTelegramBotChats, testNotificationChannel, toggleNotificationChannel } from "@/actions/admin-notification-channels"
+import { flushEmailOutbox, retryOutboxEmailAction } from "@/actions/admin-email"
+import { EmailTemplatesCard } from "@/components/admin/email-templates"
+import { EMAIL_TRANSPORTS, type EmailLanguage, type EmailTemplate, type EmailTemplateKind, type EmailTransportId } from "@/lib/email-templates"
+import { deleteWebhookEndpoint, retryWebhookDelivery, rotateWebhookSecret, saveWebhookEndpoint, testWebhookEndpoint, toggleWebhookEndpoint } from "@/actions/admin-webhooks"
+import { CHANNEL_FIELDS, CHANNEL_TYPES, NOTIFICATION_EVENTS, type ChannelType, type NotificationEvent } from "@/lib/notification-channels"
+import { Bell, CreditCard, RotateCcw, ExternalLink, Mail, Webhook } from "lucide-react"
 
 interface NotificationsContentProps {
     settings: {
-        telegramBotToken: string
-        telegramChatId: string
-        telegramLanguage: string
         resendApiKey: string
         resendFromEmail: string
         resendFromName: string
         resendEnabled: boolean
         emailLanguage?: string | null
+        emailTransport: EmailTransportId
+        smtpHost: string
+        smtpPort: number
+        smtpSecure: 'tls' | 'starttls'
+        smtpUsername: string
+        smtpPassword: string
+        emailHttpUrl: string
+        emailHttpToken: string
     }
+    siteName: string
+    emailTemplates: Record<EmailTemplateKind, Record<EmailLanguage, EmailTemplate & { custom: boolean }>>
+    outbox: Array<{
+        id: number
+        kind: string
+        toAddress: string
+        subject: string
+        status: string
+        attempts: number
+        transport: string | null
+        error: string | null
+        nextAttemptAt: number | null
+        sentAt: number | null
+        createdAt: number | null
+    }>
+    channels: Array<{
+        id: number
+        type: ChannelType
+        name: string
+        config: Record<string, string>
+        events: NotificationEvent[]
+        language: string
+        isActive: boolean
+    }>
+    telegramBot: {
+        /** Telegram channel whose bot token receives admin commands */
+        channelId: number | null
+        chatIds: string
+    }
+    webhookEvents: string[]
+    webhooks: Array<{
+        id: number
+        url: string
+        secret: string
+        description: string | null
+        events: string[]
+        isActive: boolean
+    }>
+    deliveries: Array<{
+        id: number
+        endpointId: number
+        event: string
+        status: string
+        attempts: number
+        responseStatus: number | null
+        error: string | null
+        durationMs: number | null
+        nextAttemptAt: number | null
+        createdAt: number | null
+    }>
+}
+
+const emptyChannelForm = {
+    id: null as number | null,
+    type: 'telegram' as ChannelType,
+    name: '',
+    config: {} as Record<string, string>,
+    events: [...NOTIFICATION_EVENTS] as NotificationEvent[],
+    language: 'zh'
+}
+
+const emptyWebhookForm = { id: null as number | null, url: '', description: '', events: [] as string[] }
+
+function deliveryVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+    if (status === 'delivered' || status === 'sent') return 'default'
+    if (status === 'failed') return 'destructive'
+    return 'secondary'
 }
 
-export function NotificationsContent({ settings }: NotificationsContentProps) {
+export function NotificationsContent({ settings, siteName, emailTemplates, outbox, channels, telegramBot, webhookEvents, webhooks, deliveries }: NotificationsContentProps) {
     const { t } = useI18n()
-    const [token, setToken] = useState(settings.telegramBotToken || '')
-    const [chatId, setChatId] = useState(settings.telegramChatId || '')
-    const [language, setLanguage] = useState(settings.telegramLanguage || 'zh')
+    const router = useRouter()
     const [isLoading, setIsLoading] = useState(false)
-    const [isTesting, setIsTesting] = useState(false)
+
+    // Admin notification channels
+    const [channelForm, setChannelForm] = useState(emptyChannelForm)
+    const [savingChannel, setSavingChannel] = useState(false)
+    const [botChatIds, setBotChatIds] = useState(telegramBot.chatIds)
 
     // Email settings
     const [resendApiKey, setResendApiKey] = useState(settings.resendApiKey || '')
     const [resendFromEmail, setResendFromEmail] = useState(settings.resendFromEmail || '')
     const [resendFromName, setResendFromName] = useState(settings.resendFromName || '')
     const [emailLanguage, setEmailLanguage] = useState(settings.emailLanguage || 'zh')
+    const [emailTransport, setEmailTransport] = useState<EmailTransportId>(settings.emailTransport)
+    const [smtpSecure, setSmtpSecure] = useState(settings.smtpSecure)
     const [isTestingEmail, setIsTestingEmail] = useState(false)
     const [testEmail, setTestEmail] = useState('')
 
+    // Row buttons (channels, webhooks, deliveries) share one busy marker, e.g. `channel:3`
+    const [busyKey, setBusyKey] = useState<string | null>(null)
+
+    // Webhooks
+    const [webhookForm, setWebhookForm] = useState(emptyWebhookForm)
+    const [savingWebhook, setSavingWebhook] = useState(false)
+    const endpointUrls = new Map(webhooks.map((w) => [w.id, w.url]))
 
 
     async function handleSave(formData: FormData) {
@@ -53,22 +147,54 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
         }
     }
 
-    async function handleTest() {
-        setIsTesting(true)
+    async function handleSaveChannel() {
+        setSavingChannel(true)
         try {
-            const res = await testNotification()
-            if (res.success) {
-                toast.success(t('admin.settings.notifications.testSuccess'))
-            } else {
-                toast.error(t('admin.settings.notifications.testFailed', { error: res.error }))
+            const res = await saveNotificationChannel(channelForm)
+            if (!res.success) {
+                const field = 'field' in res && res.field ? t(`admin.notificationChannels.fields.${res.field}`) : ''
+                toast.error(t(res.error, { field }))
+                return
             }
+            toast.success(t('common.success'))
+            setChannelForm(emptyChannelForm)
+            router.refresh()
         } catch (e: any) {
-            toast.error(t('common.error'))
+            toast.error(e.message || t('common.error'))
         } finally {
-            setIsTesting(false)
+            setSavingChannel(false)
         }
     }
 
+    async function handleConnectBot(id: number) {
+        await runRowAction(`channel:${id}`, async () => {
+            const res = await connectTelegramBot(id)
+            if (res.success) {
+                toast.success(t('admin.telegramBot.connected'))
+            } else {
+                toast.error(t(res.error, { error: 'detail' in res ? res.detail || '' : '' }))
+            }
+        })
+    }
+
+    async function handleSaveBotChats() {
+        await runRowAction('bot', async () => {
+            await saveTelegramBotChats(botChatIds)
+            toast.success(t('common.success'))
+        })
+    }
+
+    async function handleTestChannel(id: number) {
+        await runRowAction(`channel:${id}`, async () => {
+            const res = await testNotificationChannel(id)
+            if (res.success) {
+                toast.success(t('admin.notificationChannels.testSuccess'))
+            } else {
+                toast.error(t('admin.notificationChannels.testFailed', { error: res.error }))
+            }
+        })
+    }
+
     async function handleTestEmail() {
         if (!testEmail) {
             toast.error(t('admin.settings.email.enterTestEmail'))
@@ -82,6 +208,7 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
             } else {
                 toast.error(t('admin.settings.email.testFailed', { error: res.error }))
             }
+            router.refresh()
         } catch (e: any) {
             toast.error(t('common.error'))
         } finally {
@@ -89,6 +216,72 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
         }
     }
 
+    async function handleFlushOutbox() {
+        await runRowAction('outbox', async () => {
+            const res = await flushEmailOutbox()
+            toast.success(t('admin.emailOutbox.flushed', { count: res.attempted }))
+        })
+    }
+
+    async function handleRetryEmail(id: number) {
+        await runRowAction(`email:${id}`, async () => {
+            const res = await retryOutboxEmailAction(id)
+            if (res.success) {
+                toast.success(t('admin.emailOutbox.sent'))
+            } else {
+                toast.error(t('admin.settings.email.testFailed', { error: res.error }))
+            }
+        })
+    }
+
+    async function handleSaveWebhook() {
+        setSavingWebhook(true)
+        try {
+            const res = await saveWebhookEndpoint(webhookForm)
+            if (!res.success) {
+                toast.error(t(res.error))
+                return
+            }
+            toast.success(t('common.success'))
+            setWebhookForm(emptyWebhookForm)
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setSavingWebhook(false)
+        }
+    }
+
+    async function runRowAction(key: string, action: () => Promise<unknown>) {
+        setBusyKey(key)
+        try {
+            await action()
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setBusyKey(null)
+        }
+    }
+
+    async function handleTestWebhook(id: number) {
+        await runRowAction(`webhook:${id}`, async () => {
+            const res = await testWebhookEndpoint(id)
+            if (res.success) {
+                toast.success(t('admin.webhooks.testSuccess', { status: res.status ?? '' }))
+            } else {
+                toast.error(t('admin.webhooks.testFailed', { error: res.error }))
+            }
+        })
+    }
+
+    function toggleWebhookEvent(event: string, checked: boolean) {
+        setWebhookForm((prev) => ({
+            ...prev,
+            events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event)
+        }))
+    }
+
     return (
         <div className="space-y-6">
             <h2 className="text-3xl font-bold tracking-tight">{t('admin.settings.notifications.title')}</h2>
@@ -122,72 +315,184 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
                 </CardContent>
             </Card>
 
-            {/* 配置表单 */}
+            {/* 通知渠道 */}
             <Card>
                 <CardHeader>
-                    <CardTitle>Telegram Bot {t('admin.settings.notifications.configTitle')}</CardTitle>
-                    <CardDescription>{t('admin.settings.notifications.configDesc')}</CardDescription>
+                    <CardTitle>{t('admin.notificationChannels.title')}</CardTitle>
+                    <CardDescription>{t('admin.notificationChannels.desc')}</CardDescription>
                 </CardHeader>
-                <CardContent>
-                    <form action={handleSave} className="space-y-4">
-                        <div className="floating-field">
-                            <Input
-                                name="telegramBotToken"
-                                value={token}
-                                onChange={e => setToken(e.target.value)}
-                                placeholder=" "
-                                type="password"
-                            />
-                            <Label className="floating-label">{t('admin.settings.notifications.telegramBotToken')}</Label>
+                <CardContent className="space-y-6">
+                    {channels.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{t('admin.notificationChannels.empty')}</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {channels.map((c) => (
+                                <div key={c.id} className="rounded-lg border p-3 space-y-2">
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className="font-medium truncate">{c.name}</span>
+                                            <Badge variant="outline">{t(`admin.notificationChannels.types.${c.type}`)}</Badge>
+                                            <Badge variant="outline">{c.language === 'en' ? 'English' : '中文'}</Badge>
+                                            {telegramBot.channelId === c.id && <Badge variant="secondary">{t('admin.telegramBot.badge')}</Badge>}
+                                        </div>
+                                        <Badge variant={c.isActive ? 'default' : 'outline'}>
+                                            {c.isActive ? t('admin.notificationChannels.active') : t('admin.notificationChannels.disabled')}
+                                        </Badge>
+                                    </div>
+                                    <div className="flex flex-wrap gap-1">
+                                        {c.events.length === 0 ? (
+                                            <span className="text-xs text-muted-foreground">{t('admin.notificationChannels.noEvents')}</span>
+                                        ) : c.events.map((e) => (
+                                            <Badge key={e} variant="secondary" className="text-xs">{t(`admin.notificationChannels.eventNames.${e}`)}</Badge>
+                                        ))}
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <Button size="sm" variant="secondary" onClick={() => handleTestChannel(c.id)} disabled={busyKey === `channel:${c.id}`}>
+                                            {busyKey === `channel:${c.id}` ? t('common.processing') : t('admin.notificationChannels.sendTest')}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => setChannelForm({ id: c.id, type: c.type, name: c.name, config: c.config, events: c.events, language: c.language })}
+                                        >
+                                            {t('common.edit')}
+                                        </Button>
+                                        <Button size="sm" variant="outline" onClick={() => runRowAction(`channel:${c.id}`, () => toggleNotificationChannel(c.id, !c.isActive))} disabled={busyKey === `channel:${c.id}`}>
+                                            {c.isActive ? t('admin.notificationChannels.disable') : t('admin.notificationChannels.enable')}
+                                        </Button>
+                                        {c.type === 'telegram' && (telegramBot.channelId === c.id ? (
+                                            <Button size="sm" variant="outline" onClick={() => runRowAction(`channel:${c.id}`, () => disconnectTelegramBot())} disabled={busyKey === `channel:${c.id}`}>
+                                                {t('admin.telegramBot.disconnect')}
+                                            </Button>
+                                        ) : (
+                                            <Button size="sm" variant="outline" onClick={() => handleConnectBot(c.id)} disabled={busyKey === `channel:${c.id}`}>
+                                                {t('admin.telegramBot.connect')}
+                                            </Button>
+                                        ))}
+                                        <Button
+                                            size="sm"
+                                            variant="destructive"
+                                            onClick={() => confirm(t('admin.notificationChannels.confirmDelete')) && runRowAction(`channel:${c.id}`, () => deleteNotificationChannel(c.id))}
+                                            disabled={busyKey === `channel:${c.id}`}
+                                        >
+                                            {t('common.delete')}
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
                         </div>
-                        <div className="space-y-2">
+                    )}
+
+                    {telegramBot.channelId && (
+                        <div className="space-y-3 rounded-lg bg-muted/50 p-4">
+                            <div>
+                                <p className="font-medium">{t('admin.telegramBot.title')}</p>
+                                <p className="text-sm text-muted-foreground">{t('admin.telegramBot.desc')}</p>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {['/stats', '/order', '/stock', '/refunds', '/addcards'].map((command) => (
+                                    <code key={command} className="rounded bg-background px-1.5 py-0.5 text-xs">{command}</code>
+                                ))}
+                            </div>
                             <div className="floating-field">
+                                <Input value={botChatIds} onChange={e => setBotChatIds(e.target.value)} placeholder=" " />
+                                <Label className="floating-label">{t('admin.telegramBot.chatIds')}</Label>
+                            </div>
+                            <p className="text-xs text-muted-foreground">{t('admin.telegramBot.chatIdsHint')}</p>
+                            <Button size="sm" onClick={handleSaveBotChats} disabled={busyKey === 'bot'}>
+                                {busyKey === 'bot' ? t('common.processing') : t('common.save')}
+                            </Button>
+                        </div>
+                    )}
+
+                    <div className="space-y-4 border-t pt-4">
+                        <p className="font-medium">{channelForm.id ? t('admin.notificationChannels.editTitle') : t('admin.notificationChannels.addTitle')}</p>
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label>{t('admin.notificationChannels.type')}</Label>
+                                <select
+                                    value={channelForm.type}
+                                    onChange={e => setChannelForm({ ...channelForm, type: e.target.value as ChannelType, config: {} })}
+                                    className="h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+                                >
+                                    {CHANNEL_TYPES.map((type) => <option key={type} value={type}>{t(`admin.notificationChannels.types.${type}`)}</option>)}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>{t('admin.notificationChannels.name')}</Label>
                                 <Input
-                                    name="telegramChatId"
-                                    value={chatId}
-                                    onChange={e => setChatId(e.target.value)}
-                                    placeholder=" "
+                                    value={channelForm.name}
+                                    onChange={e => setChannelForm({ ...channelForm, name: e.target.value })}
+                                    placeholder={t(`admin.notificationChannels.types.${channelForm.type}`)}
                                 />
-                                <Label className="floating-label">{t('admin.settings.notifications.telegramChatId')}</Label>
                             </div>
                         </div>
+                        {CHANNEL_FIELDS[channelForm.type].map((field) => (
+                            <div key={field.key} className="floating-field">
+                                <Input
+                                    value={channelForm.config[field.key] || ''}
+                                    onChange={e => setChannelForm({ ...channelForm, config: { ...channelForm.config, [field.key]: e.target.value } })}
+                                    placeholder={field.defaultValue || ' '}
+                                    type={field.secret ? 'password' : 'text'}
+                                    autoComplete="off"
+                                />
+                                <Label className="floating-label">
+                                    {t(`admin.notificationChannels.fields.${field.key}`)}{field.required ? ' *' : ''}
+                                </Label>
+                            </div>
+                        ))}
                         <div className="space-y-2">
-                            <Label>{t('admin.settings.notifications.language')}</Label>
+                            <Label>{t('admin.notificationChannels.language')}</Label>
                             <div className="flex gap-2">
                                 <Button
                                     type="button"
-                                    variant={language === 'zh' ? 'default' : 'outline'}
+                                    variant={channelForm.language === 'zh' ? 'default' : 'outline'}
                                     size="sm"
-                                    onClick={() => setLanguage('zh')}
+                                    onClick={() => setChannelForm({ ...channelForm, language: 'zh' })}
                                 >
                                     中文
                                 </Button>
                                 <Button
                                     type="button"
-                                    variant={language === 'en' ? 'default' : 'outline'}
+                                    variant={channelForm.language === 'en' ? 'default' : 'outline'}
                                     size="sm"
-                                    onClick={() => setLanguage('en')}
+                                    onClick={() => setChannelForm({ ...channelForm, language: 'en' })}
                                 >
                                     English
                                 </Button>
                             </div>
-                            <input type="hidden" name="telegramLanguage" value={language} />
-                            <input type="hidden" name="emailLanguage" value={emailLanguage} />
-                            <p className="text-xs text-muted-foreground">{t('admin.settings.notifications.languageHint')}</p>
                         </div>
-
+                        <div className="space-y-2">
+                            <Label>{t('admin.notificationChannels.events')}</Label>
+                            <div className="grid gap-2 sm:grid-cols-2">
+                                {NOTIFICATION_EVENTS.map((event) => (
+                                    <div key={event} className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`channel-event-${event}`}
+                                            checked={channelForm.events.includes(event)}
+                                            onCheckedChange={(v) => setChannelForm({
+                                                ...channelForm,
+                                                events: v === true ? [...channelForm.events, event] : channelForm.events.filter((e) => e !== event)
+                                            })}
+                                        />
+                                        <label htmlFor={`channel-event-${event}`} className="text-sm cursor-pointer select-none">
+                                            {t(`admin.notificationChannels.eventNames.${event}`)}
+                                        </label>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
                         <div className="flex gap-4">
-                            <Button type="submit" disabled={isLoading}>
-                                {isLoading ? t('common.processing') : t('admin.settings.notifications.save')}
+                            <Button onClick={handleSaveChannel} disabled={savingChannel}>
+                                {savingChannel ? t('common.processing') : t('common.save')}
                             </Button>
-
-                            {token && chatId && (
-                                <Button type="button" variant="secondary" onClick={handleTest} disabled={isTesting}>
-                                    {isTesting ? t('common.processing') : t('admin.settings.notifications.test')}
+                            {channelForm.id && (
+                                <Button variant="outline" onClick={() => setChannelForm(emptyChannelForm)}>
+                                    {t('common.cancel')}
                                 </Button>
                             )}
                         </div>
-                    </form>
+                    </div>
                 </CardContent>
             </Card>
 
@@ -214,7 +519,26 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
                             <Label htmlFor="resendEnabledCheckbox">{t('admin.settings.email.enabled')}</Label>
                         </div>
 
-                        <div className="floating-field">
+                        <div className="space-y-2">
+                            <Label>{t('admin.settings.email.transport')}</Label>
+                            <div className="flex flex-wrap gap-2">
+                                {EMAIL_TRANSPORTS.map((id) => (
+                                    <Button
+                                        key={id}
+                                        type="button"
+                                        variant={emailTransport === id ? 'default' : 'outline'}
+                                        size="sm"
+                                        onClick={() => setEmailTransport(id)}
+                                    >
+                                        {t(`admin.settings.email.transports.${id}`)}
+                                    </Button>
+                                ))}
+                            </div>
+                            <input type="hidden" name="emailTransport" value={emailTransport} />
+                        </div>
+
+                        {/* Every transport's fields stay in the form so switching does not wipe saved values */}
+                        <div className={emailTransport === 'resend' ? 'floating-field' : 'hidden'}>
                             <Input
                                 name="resendApiKey"
                                 value={resendApiKey}
@@ -228,6 +552,51 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
                             </p>
                         </div>
 
+                        <div className={emailTransport === 'smtp' ? 'space-y-4' : 'hidden'}>
+                            <div className="grid gap-4 md:grid-cols-[1fr_120px]">
+                                <div className="floating-field">
+                                    <Input name="smtpHost" defaultValue={settings.smtpHost} placeholder=" " />
+                                    <Label className="floating-label">{t('admin.settings.email.smtpHost')}</Label>
+                                </div>
+                                <div className="floating-field">
+                                    <Input name="smtpPort" type="number" min={1} max={65535} defaultValue={settings.smtpPort} placeholder=" " />
+                                    <Label className="floating-label">{t('admin.settings.email.smtpPort')}</Label>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex gap-2">
+                                    <Button type="button" size="sm" variant={smtpSecure === 'tls' ? 'default' : 'outline'} onClick={() => setSmtpSecure('tls')}>
+                                        {t('admin.settings.email.smtpTls')}
+                                    </Button>
+                                    <Button type="button" size="sm" variant={smtpSecure === 'starttls' ? 'default' : 'outline'} onClick={() => setSmtpSecure('starttls')}>
+                                        STARTTLS
+                                    </Button>
+                                </div>
+                                <input type="hidden" name="smtpSecure" value={smtpSecure} />
+                                <p className="text-xs text-muted-foreground">{t('admin.settings.email.smtpHint')}</p>
+                            </div>
+                            <div className="floating-field">
+                                <Input name="smtpUsername" defaultValue={settings.smtpUsername} placeholder=" " autoComplete="off" />
+                                <Label className="floating-label">{t('admin.settings.email.smtpUsername')}</Label>
+                            </div>
+                            <div className="floating-field">
+                                <Input name="smtpPassword" type="password" defaultValue={settings.smtpPassword} placeholder=" " autoComplete="new-password" />
+                                <Label className="floating-label">{t('admin.settings.email.smtpPassword')}</Label>
+                            </div>
+                        </div>
+
+                        <div className={emailTransport === 'http' ? 'space-y-4' : 'hidden'}>
+                            <div className="floating-field">
+                                <Input name="emailHttpUrl" defaultValue={settings.emailHttpUrl} placeholder=" " />
+                                <Label className="floating-label">{t('admin.settings.email.httpUrl')}</Label>
+                                <p className="text-xs text-muted-foreground">{t('admin.settings.email.httpUrlHint')}</p>
+                            </div>
+                            <div className="floating-field">
+                                <Input name="emailHttpToken" type="password" defaultValue={settings.emailHttpToken} placeholder=" " />
+                                <Label className="floating-label">{t('admin.settings.email.httpToken')}</Label>
+                            </div>
+                        </div>
+
                         <div className="floating-field">
                             <Input
                                 name="resendFromEmail"
@@ -273,11 +642,6 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
                             <p className="text-xs text-muted-foreground">{t('admin.settings.email.languageHint')}</p>
                         </div>
 
-                        {/* Hidden fields for telegram settings */}
-                        <input type="hidden" name="telegramBotToken" value={token} />
-                        <input type="hidden" name="telegramChatId" value={chatId} />
-                        <input type="hidden" name="telegramLanguage" value={language} />
-
                         <div className="flex gap-4">
                             <Button type="submit" disabled={isLoading}>
                                 {isLoading ? t('common.processing') : t('admin.settings.notifications.save')}
@@ -285,7 +649,7 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
                         </div>
                     </form>
 
-                    {resendApiKey && resendFromEmail && (
+                    {resendFromEmail && (
                         <div className="mt-4 pt-4 border-t">
                             <Label>{t('admin.settings.email.testLabel')}</Label>
                             <div className="flex gap-2 mt-2">
@@ -303,6 +667,255 @@ export function NotificationsContent({ settings }: NotificationsContentProps) {
                             </div>
                         </div>
                     )}
+
+                    <div className="mt-4 pt-4 border-t space-y-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <div>
+                                <p className="font-medium">{t('admin.emailOutbox.title')}</p>
+                                <p className="text-xs text-muted-foreground">{t('admin.emailOutbox.desc')}</p>
+                            </div>
+                            <Button size="sm" variant="outline" onClick={handleFlushOutbox} disabled={busyKey === 'outbox'}>
+                                {busyKey === 'outbox' ? t('common.processing') : t('admin.emailOutbox.flush')}
+                            </Button>
+                        </div>
+                        {outbox.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">{t('admin.emailOutbox.empty')}</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-xs text-muted-foreground">
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.time')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.emailOutbox.kind')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.emailOutbox.recipient')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.status')}</th>
+                                            <th className="py-2 font-medium" />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {outbox.map((m) => (
+                                            <tr key={m.id} className="border-b last:border-0 align-top">
+                                                <td className="py-2 pr-3 whitespace-nowrap text-xs">
+                                                    <ClientDate value={m.createdAt ? new Date(m.createdAt) : null} format="dateTime" />
+                                                </td>
+                                                <td className="py-2 pr-3 text-xs">
+                                                    <div>{t(`admin.emailOutbox.kinds.${m.kind}`)}</div>
+                                                    <div className="text-muted-foreground break-all max-w-[240px]">{m.subject}</div>
+                                                </td>
+                                                <td className="py-2 pr-3 font-mono text-xs break-all">{m.toAddress}</td>
+                                                <td className="py-2 pr-3">
+                                                    <Badge variant={deliveryVariant(m.status)}>{t(`admin.emailOutbox.statuses.${m.status}`)}</Badge>
+                                                    <div className="text-xs text-muted-foreground mt-1">
+                                                        {t('admin.webhooks.attempts', { count: m.attempts })}{m.transport ? ` · ${t(`admin.settings.email.transports.${m.transport}`)}` : ''}
+                                                    </div>
+                                                    {m.status === 'pending' && m.nextAttemptAt && (
+                                                        <div className="text-xs text-muted-foreground">
+                                                            {t('admin.webhooks.nextAttempt')} <ClientDate value={new Date(m.nextAttemptAt)} format="dateTime" />
+                                                        </div>
+                                                    )}
+                                                    {m.error && <div className="text-xs text-destructive break-all">{m.error}</div>}
+                                                </td>
+                                                <td className="py-2 text-right">
+                                                    {m.status !== 'sent' && m.kind !== 'test' && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            className="h-7 text-xs"
+                                                            onClick={() => handleRetryEmail(m.id)}
+                                                            disabled={busyKey === `email:${m.id}`}
+                                                        >
+                                                            {t('admin.webhooks.retry')}
+                                                        </Button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <EmailTemplatesCard templates={emailTemplates} siteName={siteName} />
+
+            {/* Webhooks */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Webhook className="h-5 w-5" />
+                        {t('admin.webhooks.title')}
+                    </CardTitle>
+                    <CardDescription>{t('admin.webhooks.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {webhooks.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{t('admin.webhooks.empty')}</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {webhooks.map((w) => (
+                                <div key={w.id} className="rounded-lg border p-3 space-y-2">
+                                    <div className="flex flex-wrap items-start justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p className="font-mono text-sm break-all">{w.url}</p>
+                                            {w.description && <p className="text-xs text-muted-foreground">{w.description}</p>}
+                                        </div>
+                                        <Badge variant={w.isActive ? 'default' : 'outline'}>
+                                            {w.isActive ? t('admin.webhooks.active') : t('admin.webhooks.disabled')}
+                                        </Badge>
+                                    </div>
+                                    <div className="flex flex-wrap gap-1">
+                                        {w.events.map((e) => <Badge key={e} variant="secondary" className="font-mono text-xs">{e}</Badge>)}
+                                    </div>
+                                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                        <span>{t('admin.webhooks.secret')}:</span>
+                                        <CopyButton text={w.secret} truncate maxLength={14} />
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <Button size="sm" variant="secondary" onClick={() => handleTestWebhook(w.id)} disabled={busyKey === `webhook:${w.id}`}>
+                                            {busyKey === `webhook:${w.id}` ? t('common.processing') : t('admin.webhooks.sendTest')}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => setWebhookForm({ id: w.id, url: w.url, description: w.description || '', events: w.events })}
+                                        >
+                                            {t('common.edit')}
+                                        </Button>
+                                        <Button size="sm" variant="outline" onClick={() => runRowAction(`webhook:${w.id}`, () => toggleWebhookEndpoint(w.id, !w.isActive))} disabled={busyKey === `webhook:${w.id}`}>
+                                            {w.isActive ? t('admin.webhooks.disable') : t('admin.webhooks.enable')}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => confirm(t('admin.webhooks.confirmRotate')) && runRowAction(`webhook:${w.id}`, () => rotateWebhookSecret(w.id))}
+                                            disabled={busyKey === `webhook:${w.id}`}
+                                        >
+                                            {t('admin.webhooks.rotateSecret')}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="destructive"
+                                            onClick={() => confirm(t('admin.webhooks.confirmDelete')) && runRowAction(`webhook:${w.id}`, () => deleteWebhookEndpoint(w.id))}
+                                            disabled={busyKey === `webhook:${w.id}`}
+                                        >
+                                            {t('common.delete')}
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="space-y-4 border-t pt-4">
+                        <p className="font-medium">{webhookForm.id ? t('admin.webhooks.editTitle') : t('admin.webhooks.addTitle')}</p>
+                        <div className="floating-field">
+                            <Input
+                                value={webhookForm.url}
+                                onChange={e => setWebhookForm({ ...webhookForm, url: e.target.value })}
+                                placeholder=" "
+                            />
+                            <Label className="floating-label">{t('admin.webhooks.url')}</Label>
+                        </div>
+                        <div className="floating-field">
+                            <Input
+                                value={webhookForm.description}
+                                onChange={e => setWebhookForm({ ...webhookForm, description: e.target.value })}
+                                placeholder=" "
+                            />
+                            <Label className="floating-label">{t('admin.webhooks.description')}</Label>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>{t('admin.webhooks.events')}</Label>
+                            <div className="grid gap-2 sm:grid-cols-2">
+                                {webhookEvents.map((event) => (
+                                    <div key={event} className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`webhook-event-${event}`}
+                                            checked={webhookForm.events.includes(event)}
+                                            onCheckedChange={(v) => toggleWebhookEvent(event, v === true)}
+                                        />
+                                        <label htmlFor={`webhook-event-${event}`} className="text-sm cursor-pointer select-none">
+                                            <span className="font-mono">{event}</span>
+                                            <span className="text-muted-foreground"> · {t(`admin.webhooks.eventNames.${event.replace('.', '_')}`)}</span>
+                                        </label>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t('admin.webhooks.signatureHint')}</p>
+                        <div className="flex gap-4">
+                            <Button onClick={handleSaveWebhook} disabled={savingWebhook}>
+                                {savingWebhook ? t('common.processing') : t('common.save')}
+                            </Button>
+                            {webhookForm.id && (
+                                <Button variant="outline" onClick={() => setWebhookForm(emptyWebhookForm)}>
+                                    {t('common.cancel')}
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2 border-t pt-4">
+                        <p className="font-medium">{t('admin.webhooks.deliveries')}</p>
+                        {deliveries.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">{t('admin.webhooks.noDeliveries')}</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-xs text-muted-foreground">
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.time')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.event')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.endpoint')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.status')}</th>
+                                            <th className="py-2 pr-3 font-medium">{t('admin.webhooks.response')}</th>
+                                            <th className="py-2 font-medium" />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {deliveries.map((d) => (
+                                            <tr key={d.id} className="border-b last:border-0 align-top">
+                                                <td className="py-2 pr-3 whitespace-nowrap text-xs">
+                                                    <ClientDate value={d.createdAt ? new Date(d.createdAt) : null} format="dateTime" />
+                                                </td>
+                                                <td className="py-2 pr-3 font-mono text-xs">{d.event}</td>
+                                                <td className="py-2 pr-3 font-mono text-xs break-all max-w-[220px]">{endpointUrls.get(d.endpointId) || `#${d.endpointId}`}</td>
+                                                <td className="py-2 pr-3">
+                                                    <Badge variant={deliveryVariant(d.status)}>{t(`admin.webhooks.statuses.${d.status}`)}</Badge>
+                                                    <div className="text-xs text-muted-foreground mt-1">{t('admin.webhooks.attempts', { count: d.attempts })}</div>
+                                                    {d.status === 'pending' && d.nextAttemptAt && (
+                                                        <div className="text-xs text-muted-foreground">
+                                                            {t('admin.webhooks.nextAttempt')} <ClientDate value={new Date(d.nextAttemptAt)} format="dateTime" />
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="py-2 pr-3 text-xs">
+                                                    {d.responseStatus !== null && <span className="font-mono">HTTP {d.responseStatus}</span>}
+                                                    {d.durationMs !== null && <span className="text-muted-foreground"> · {d.durationMs}ms</span>}
+                                                    {d.error && <div className="text-destructive break-all">{d.error}</div>}
+                                                </td>
+                                                <td className="py-2 text-right">
+                                                    {d.status !== 'delivered' && d.event !== 'webhook.test' && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            className="h-7 text-xs"
+                                                            onClick={() => runRowAction(`delivery:${d.id}`, () => retryWebhookDelivery(d.id))}
+                                                            disabled={busyKey === `delivery:${d.id}`}
+                                                        >
+                                                            {t('admin.webhooks.retry')}
+                                                        </Button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
                 </CardContent>
             </Card>
 
@@ -12,20 +12,32 @@ import { Label } from "@/components/ui/label"
 import { CopyButton } from "@/components/copy-button"
 import { ClientDate } from "@/components/client-date"
 import { RefundButton } from "@/components/admin/refund-button"
+import { AdminPartialRefund } from "@/components/admin/partial-refund"
+import type { OrderRefundCard } from "@/lib/refunds"
 import { toast } from "sonner"
-import { markOrderDelivered, markOrderPaid, cancelOrder, updateOrderEmail, deleteOrder } from "@/actions/admin-orders"
+import { markOrderDelivered, markOrderPaid, cancelOrder, updateOrderEmail, deleteOrder, sendPaymentReminder } from "@/actions/admin-orders"
 
 function statusVariant(status: string | null) {
   switch (status) {
     case 'delivered': return 'default' as const
     case 'paid': return 'secondary' as const
     case 'refunded': return 'destructive' as const
+    case 'partially_refunded': return 'destructive' as const
     case 'cancelled': return 'secondary' as const
     default: return 'outline' as const
   }
 }
 
-export function AdminOrderDetailContent({ order }: { order: any }) {
+function describeActor(actor: string, t: (key: string, params?: Record<string, string | number>) => string) {
+  const [kind, ...rest] = actor.split(':')
+  const name = rest.join(':')
+  if (kind === 'admin' || kind === 'user' || kind === 'gateway') {
+    return t(`admin.orders.timeline.actor.${kind}`, { name: kind === 'gateway' ? t(`admin.settings.payment.${name}`) : name })
+  }
+  return t('admin.orders.timeline.actor.system')
+}
+
+export function AdminOrderDetailContent({ order, items = [], events = [], refundCards = [] }: { order: any; items?: any[]; events?: any[]; refundCards?: OrderRefundCard[] }) {
   const { t } = useI18n()
   const router = useRouter()
   const [email, setEmail] = useState(order.email || '')
@@ -37,9 +49,10 @@ export function AdminOrderDetailContent({ order }: { order: any }) {
   const canMarkPaid = status === 'pending'
   const canMarkDelivered = status === 'paid' && !!order.cardKey
   const canCancel = status === 'pending'
+  const canRemind = status === 'pending' && !!order.email
   const canDelete = true
 
-  const handleStatus = async (action: 'paid' | 'delivered' | 'cancel') => {
+  const handleStatus = async (action: 'paid' | 'delivered' | 'cancel' | 'remind') => {
     if (actionLock.current) return
     try {
       actionLock.current = true
@@ -56,6 +69,11 @@ export function AdminOrderDetailContent({ order }: { order: any }) {
         toast.success(t('common.success'))
         return
       }
+      if (action === 'remind') {
+        await sendPaymentReminder(order.orderId)
+        toast.success(t('admin.orders.reminderSent'))
+        return
+      }
       if (action === 'cancel') {
         if (!confirm(t('admin.orders.confirmCancel'))) return
         await cancelOrder(order.orderId)
@@ -106,6 +124,9 @@ export function AdminOrderDetailContent({ order }: { order: any }) {
             {canMarkDelivered && (
               <Button variant="outline" onClick={() => handleStatus('delivered')} disabled={actionLoading}>{t('admin.orders.markDelivered')}</Button>
             )}
+            {canRemind && (
+              <Button variant="outline" onClick={() => handleStatus('remind')} disabled={actionLoading}>{t('admin.orders.sendReminder')}</Button>
+            )}
             {canCancel && (
               <Button variant="destructive" onClick={() => handleStatus('cancel')} disabled={actionLoading}>{t('admin.orders.cancel')}</Button>
             )}
@@ -142,13 +163,69 @@ export function AdminOrderDetailContent({ order }: { order: any }) {
               <div className="text-sm text-muted-foreground">{t('admin.orders.product')}</div>
               <div className="font-medium">{order.productName}</div>
               <div className="text-xs text-muted-foreground font-mono">{order.productId}</div>
+              {order.variantName && (
+                <div className="text-xs text-muted-foreground">{t('admin.orders.variant')}: {order.variantName}</div>
+              )}
+              {items.length > 0 && (
+                <div className="pt-2 space-y-1">
+                  {items.map((item: any) => (
+                    <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                      <Link href={`/admin/product/edit/${item.productId}`} className="truncate hover:underline">
+                        {item.productName} <span className="text-muted-foreground">x{item.quantity}</span>
+                      </Link>
+                      <span className="shrink-0 text-muted-foreground">{Number(item.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground">{t('admin.orders.amount')}</div>
               <div className="font-medium">{Number(order.amount)} {t('common.credits')}</div>
+              {Number(order.refundedAmount || 0) > 0 || Number(order.refundedQuantity || 0) > 0 ? (
+                <div className="text-xs text-muted-foreground">
+                  {t('admin.orders.refundedSoFar', {
+                    amount: Number(order.refundedAmount || 0),
+                    quantity: Number(order.refundedQuantity || 0),
+                    points: Number(order.refundedPoints || 0)
+                  })}
+                </div>
+              ) : null}
             </div>
 
+            {order.paymentProvider && (
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">{t('admin.orders.paymentProvider')}</div>
+                <div className="font-medium text-sm">
+                  {t(`admin.settings.payment.${order.paymentProvider}`)}
+                  <Link href={`/admin/payment-events?order=${encodeURIComponent(order.orderId)}`} className="ml-2 text-xs text-muted-foreground hover:underline">
+                    {t('admin.paymentEvents.viewLog')}
+                  </Link>
+                </div>
+              </div>
+            )}
+
+            {order.memberDiscountRule && (
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">{t('admin.orders.memberDiscount')}</div>
+                <div className="font-medium text-sm">
+                  {order.memberDiscountRule}
+                  {order.memberDiscount && <span className="ml-2 text-muted-foreground">-{Number(order.memberDiscount)}</span>}
+                </div>
+              </div>
+            )}
+
+            {order.couponCode && (
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">{t('coupon.code')}</div>
+                <div className="font-medium text-sm">
+                  <span className="font-mono">{order.couponCode}</span>
+                  {order.discountAmount && <span className="ml-2 text-muted-foreground">-{Number(order.discountAmount)}</span>}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground">{t('admin.orders.user')}</div>
               {order.username ? (
@@ -208,6 +285,42 @@ export function AdminOrderDetailContent({ order }: { order: any }) {
           </div>
         </CardContent>
       </Card>
+
+      <AdminPartialRefund order={order} cards={refundCards} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('admin.orders.timeline.title')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{t('admin.orders.timeline.empty')}</div>
+          ) : (
+            <ol className="relative ml-2 space-y-4 border-l pl-6">
+              {events.map((event) => (
+                <li key={event.id} className="relative">
+                  <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {event.fromStatus ? (
+                      <>
+                        <Badge variant="outline" className="text-xs">{t(`order.status.${event.fromStatus}`)}</Badge>
+                        <span className="text-muted-foreground">→</span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">{t('admin.orders.timeline.created')}</span>
+                    )}
+                    <Badge variant={statusVariant(event.toStatus)} className="text-xs">{t(`order.status.${event.toStatus}`)}</Badge>
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    <ClientDate value={event.createdAt} format="dateTime" /> · {describeActor(event.actor, t)}
+                  </div>
+                  {event.reason && <div className="mt-1 text-sm break-words">{event.reason}</div>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
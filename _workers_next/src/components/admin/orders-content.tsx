@@ -78,6 +78,7 @@ export function AdminOrdersContent({
             case 'delivered': return 'default' as const
             case 'paid': return 'secondary' as const
             case 'refunded': return 'destructive' as const
+            case 'partially_refunded': return 'destructive' as const
             case 'cancelled': return 'secondary' as const
             default: return 'outline' as const
         }
@@ -105,6 +106,7 @@ export function AdminOrdersContent({
         { key: 'pending', label: t('order.status.pending') },
         { key: 'paid', label: t('order.status.paid') },
         { key: 'delivered', label: t('order.status.delivered') },
+        { key: 'partially_refunded', label: t('order.status.partially_refunded') },
         { key: 'refunded', label: t('order.status.refunded') },
         { key: 'cancelled', label: t('order.status.cancelled') },
     ]
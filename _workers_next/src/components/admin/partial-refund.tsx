@@ -0,0 +1,146 @@
+'use client'
+
+import { useMemo, useState } from "react"
+import { useI18n } from "@/lib/i18n/context"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RefundButton } from "@/components/admin/refund-button"
+import { markOrderPartiallyRefunded } from "@/actions/refund"
+import type { OrderRefundCard, RefundSelection } from "@/lib/refunds"
+import { toast } from "sonner"
+
+const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+interface PartialRefundProps {
+  order: any
+  cards: OrderRefundCard[]
+}
+
+export function AdminPartialRefund({ order, cards }: PartialRefundProps) {
+  const { t } = useI18n()
+  const [selected, setSelected] = useState<number[]>([])
+  const [quantity, setQuantity] = useState('')
+  const [amount, setAmount] = useState('')
+  const [cardAction, setCardAction] = useState<'reclaim' | 'void'>('void')
+  const [saving, setSaving] = useState(false)
+
+  const orderQuantity = Math.max(1, Number(order.quantity || 1))
+  const remainingQuantity = Math.max(0, orderQuantity - Number(order.refundedQuantity || 0))
+  const remainingAmount = Math.max(0, Number(order.amount) - Number(order.refundedAmount || 0))
+  const units = quantity.trim() ? Number(quantity) : selected.length
+  const suggestedAmount = Math.round(Number(order.amount) * units / orderQuantity * 100) / 100
+
+  const selection = useMemo<RefundSelection>(() => ({
+    cardIds: selected,
+    quantity: quantity.trim() ? Number(quantity) : undefined,
+    amount: amount.trim() || undefined,
+    cardAction,
+  }), [selected, quantity, amount, cardAction])
+
+  const status = order.status || 'pending'
+  if (status !== 'paid' && status !== 'delivered' && status !== 'partially_refunded') return null
+  if (remainingQuantity <= 0) return null
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelected((prev) => checked ? [...prev, id] : prev.filter((x) => x !== id))
+  }
+
+  const handleManual = async () => {
+    if (units <= 0) return
+    if (!confirm(t('admin.orders.partialRefund.confirmManual'))) return
+    setSaving(true)
+    try {
+      await markOrderPartiallyRefunded(order.orderId, selection)
+      toast.success(t('admin.orders.refundSuccess'))
+      setSelected([])
+      setQuantity('')
+      setAmount('')
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('admin.orders.partialRefund.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          {t('admin.orders.partialRefund.remaining', { amount: remainingAmount.toFixed(2), quantity: remainingQuantity })}
+        </div>
+
+        {cards.length > 0 && (
+          <div className="space-y-2">
+            <Label>{t('admin.orders.partialRefund.cards')}</Label>
+            <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2">
+              {cards.map((card) => (
+                <label key={card.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={card.refunded || selected.includes(card.id)}
+                    disabled={card.refunded || saving}
+                    onCheckedChange={(v) => toggle(card.id, v === true)}
+                  />
+                  <span className={card.refunded ? "font-mono break-all text-muted-foreground line-through" : "font-mono break-all"}>{card.key}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="partial-refund-quantity">{t('admin.orders.partialRefund.quantity')}</Label>
+            <Input
+              id="partial-refund-quantity"
+              type="number"
+              min={0}
+              max={remainingQuantity}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={String(selected.length)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="partial-refund-amount">{t('admin.orders.partialRefund.amount')}</Label>
+            <Input
+              id="partial-refund-amount"
+              type="number"
+              min={0}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={suggestedAmount.toFixed(2)}
+            />
+          </div>
+          {cards.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="partial-refund-card-action">{t('admin.orders.partialRefund.cardAction')}</Label>
+              <select
+                id="partial-refund-card-action"
+                value={cardAction}
+                onChange={(e) => setCardAction(e.target.value === 'reclaim' ? 'reclaim' : 'void')}
+                className={selectClass}
+              >
+                <option value="void">{t('admin.orders.partialRefund.void')}</option>
+                <option value="reclaim">{t('admin.orders.partialRefund.reclaim')}</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {units > 0 && <RefundButton order={order} selection={selection} />}
+          <Button variant="outline" size="sm" onClick={handleManual} disabled={saving || units <= 0}>
+            {t('admin.orders.partialRefund.markManual')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
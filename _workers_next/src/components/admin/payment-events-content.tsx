@@ -0,0 +1,245 @@
+'use client'
+
+import { Fragment, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ClientDate } from "@/components/client-date"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { replayPaymentEvent } from "@/actions/admin-payment-events"
+import { toast } from "sonner"
+
+type PaymentEventRow = {
+  id: number
+  orderId: string | null
+  outTradeNo: string | null
+  provider: string | null
+  source: string | null
+  method: string | null
+  rawParams: string | null
+  signatureValid: boolean
+  tradeStatus: string | null
+  tradeNo: string | null
+  amount: string | null
+  result: string
+  statusBefore: string | null
+  statusAfter: string | null
+  error: string | null
+  createdAt: number | null
+}
+
+interface AdminPaymentEventsContentProps {
+  events: PaymentEventRow[]
+  total: number
+  page: number
+  pageSize: number
+  orderId: string
+  result: string
+}
+
+const RESULTS = ['all', 'processed', 'ignored', 'rejected', 'error']
+
+function buildUrl(params: Record<string, string | number | undefined | null>) {
+  const sp = new URLSearchParams()
+  Object.entries(params).forEach(([k, v]) => {
+    if (v === undefined || v === null) return
+    const str = String(v).trim()
+    if (!str || (k === 'result' && str === 'all') || (k === 'page' && str === '1')) return
+    sp.set(k, str)
+  })
+  const qs = sp.toString()
+  return qs ? `/admin/payment-events?${qs}` : '/admin/payment-events'
+}
+
+function formatParams(raw: string | null) {
+  if (!raw) return ""
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2)
+  } catch {
+    return raw
+  }
+}
+
+function resultVariant(result: string): "default" | "secondary" | "destructive" | "outline" {
+  if (result === 'processed') return 'default'
+  if (result === 'ignored') return 'secondary'
+  if (result === 'rejected' || result === 'error') return 'destructive'
+  return 'outline'
+}
+
+export function AdminPaymentEventsContent({ events, total, page, pageSize, orderId, result }: AdminPaymentEventsContentProps) {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [orderValue, setOrderValue] = useState(orderId)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  const canReplay = (e: PaymentEventRow) => e.signatureValid && e.tradeStatus === 'TRADE_SUCCESS' && !!e.orderId
+
+  const handleReplay = async (e: PaymentEventRow) => {
+    if (!confirm(t('admin.paymentEvents.confirmReplay', { orderId: e.orderId || '' }))) return
+    setBusyId(e.id)
+    try {
+      const res = await replayPaymentEvent(e.id)
+      if (res.success) {
+        toast.success(t('admin.paymentEvents.replayed', { status: res.status || '-' }))
+      } else {
+        toast.error(t(res.error || 'common.error'))
+      }
+      router.refresh()
+    } catch (err: any) {
+      toast.error(err.message || t('common.error'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-1">
+        <h1 className="text-3xl font-bold tracking-tight">{t('admin.paymentEvents.title')}</h1>
+        <p className="text-sm text-muted-foreground">{t('admin.paymentEvents.subtitle')}</p>
+      </div>
+
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Input
+            value={orderValue}
+            onChange={(e) => setOrderValue(e.target.value)}
+            placeholder={t('admin.paymentEvents.searchPlaceholder')}
+            className="md:w-[320px]"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') router.push(buildUrl({ order: orderValue, result }))
+            }}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={() => router.push(buildUrl({ order: orderValue, result }))}>
+            {t('admin.orders.search')}
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {RESULTS.map((r) => (
+            <Button
+              key={r}
+              type="button"
+              variant={result === r ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => router.push(buildUrl({ order: orderId, result: r }))}
+            >
+              {t(`admin.paymentEvents.results.${r}`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-md border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('admin.paymentEvents.time')}</TableHead>
+              <TableHead>{t('admin.orders.orderId')}</TableHead>
+              <TableHead>{t('admin.paymentEvents.source')}</TableHead>
+              <TableHead>{t('admin.paymentEvents.signature')}</TableHead>
+              <TableHead>{t('admin.paymentEvents.tradeStatus')}</TableHead>
+              <TableHead>{t('admin.orders.amount')}</TableHead>
+              <TableHead>{t('admin.paymentEvents.result')}</TableHead>
+              <TableHead>{t('admin.paymentEvents.transition')}</TableHead>
+              <TableHead className="text-right">{t('admin.orders.actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                  {t('admin.paymentEvents.empty')}
+                </TableCell>
+              </TableRow>
+            )}
+            {events.map((e) => (
+              <Fragment key={e.id}>
+                <TableRow>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                    <ClientDate value={e.createdAt ? new Date(e.createdAt) : null} format="dateTime" />
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {e.orderId ? (
+                      <Link href={`/admin/orders/${e.orderId}`} className="hover:underline">{e.orderId}</Link>
+                    ) : (e.outTradeNo || '-')}
+                    {e.tradeNo && <div className="text-muted-foreground">{e.tradeNo}</div>}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <div>{e.source === 'replay' ? t('admin.paymentEvents.sourceReplay') : t('admin.paymentEvents.sourceNotify')}</div>
+                    <div className="text-muted-foreground">{[e.provider, e.method].filter(Boolean).join(' · ')}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={e.signatureValid ? 'outline' : 'destructive'}>
+                      {e.signatureValid ? t('admin.paymentEvents.signatureValid') : t('admin.paymentEvents.signatureInvalid')}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{e.tradeStatus || '-'}</TableCell>
+                  <TableCell>{e.amount || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant={resultVariant(e.result)}>{t(`admin.paymentEvents.results.${e.result}`)}</Badge>
+                    {e.error && <div className="mt-1 max-w-[240px] text-xs text-destructive break-words">{e.error}</div>}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {e.statusBefore || e.statusAfter ? `${e.statusBefore || '-'} → ${e.statusAfter || '-'}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setExpanded(expanded === e.id ? null : e.id)}>
+                        {expanded === e.id ? t('admin.paymentEvents.hideParams') : t('admin.paymentEvents.showParams')}
+                      </Button>
+                      {canReplay(e) && (
+                        <Button type="button" variant="outline" size="sm" disabled={busyId === e.id} onClick={() => handleReplay(e)}>
+                          {t('admin.paymentEvents.replay')}
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+                {expanded === e.id && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="bg-muted/40">
+                      <pre className="text-xs whitespace-pre-wrap break-all">{formatParams(e.rawParams) || '-'}</pre>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {t('admin.orders.page', { page, totalPages })}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => router.push(buildUrl({ order: orderId, result, page: page - 1 }))}
+          >
+            {t('admin.orders.prev')}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => router.push(buildUrl({ order: orderId, result, page: page + 1 }))}
+          >
+            {t('admin.orders.next')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,65 @@ import { useEffect, useRef, useState } from "react"
 import { toast } from "sonner"
 import { useRouter } from "next/navigation"
 import { useI18n } from "@/lib/i18n/context"
+import { Plus, Trash2 } from "lucide-react"
+
+interface VariantRow {
+    id?: number
+    name: string
+    price: string
+    compareAtPrice: string
+    purchaseLimit: string
+    isActive: boolean
+}
+
+interface TierRow {
+    minQuantity: string
+    price: string
+}
+
+function toTierRows(tiers: any[] | undefined): TierRow[] {
+    return (tiers || []).map((tier) => ({ minQuantity: String(tier.minQuantity), price: String(tier.price) }))
+}
+
+interface ScheduleFields {
+    publishAt: string
+    unpublishAt: string
+    saleStartsAt: string
+    saleEndsAt: string
+}
+
+function toLocalInput(value: unknown) {
+    if (!value) return ''
+    const d = new Date(value as any)
+    if (Number.isNaN(d.getTime())) return ''
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+// datetime-local values are in the admin's timezone, so they are sent as ISO strings
+function toIsoInput(value: string) {
+    return value ? new Date(value).toISOString() : ''
+}
+
+function toScheduleFields(product: any): ScheduleFields {
+    return {
+        publishAt: toLocalInput(product?.publishAt),
+        unpublishAt: toLocalInput(product?.unpublishAt),
+        saleStartsAt: toLocalInput(product?.saleStartsAt),
+        saleEndsAt: toLocalInput(product?.saleEndsAt)
+    }
+}
+
+function toVariantRows(variants: any[] | undefined): VariantRow[] {
+    return (variants || []).map((v) => ({
+        id: v.id,
+        name: v.name || '',
+        price: v.price ?? '',
+        compareAtPrice: v.compareAtPrice || '',
+        purchaseLimit: v.purchaseLimit ? String(v.purchaseLimit) : '',
+        isActive: v.isActive !== false
+    }))
+}
 
 export default function ProductForm({ product, categories = [] }: { product?: any; categories?: Array<{ name: string }> }) {
     const router = useRouter()
@@ -21,12 +80,28 @@ export default function ProductForm({ product, categories = [] }: { product?: an
     // Only show warning section if purchaseWarning has actual content
     const [showWarning, setShowWarning] = useState(Boolean(product?.purchaseWarning && String(product.purchaseWarning).trim()))
     const [visibilityLevel, setVisibilityLevel] = useState(String(product?.visibilityLevel ?? -1))
+    const [variants, setVariants] = useState<VariantRow[]>(() => toVariantRows(product?.variants))
+    const [tiers, setTiers] = useState<TierRow[]>(() => toTierRows(product?.priceTiers))
+    const [schedule, setSchedule] = useState<ScheduleFields>(() => toScheduleFields(product))
     const { t } = useI18n()
 
+    const updateSchedule = (patch: Partial<ScheduleFields>) => setSchedule((prev) => ({ ...prev, ...patch }))
+
+    const updateTier = (index: number, patch: Partial<TierRow>) => {
+        setTiers((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+    }
+
+    const updateVariant = (index: number, patch: Partial<VariantRow>) => {
+        setVariants((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+    }
+
     useEffect(() => {
         setCurrentProduct(product)
         setShowWarning(Boolean(product?.purchaseWarning && String(product.purchaseWarning).trim()))
         setVisibilityLevel(String(product?.visibilityLevel ?? -1))
+        setVariants(toVariantRows(product?.variants))
+        setTiers(toTierRows(product?.priceTiers))
+        setSchedule(toScheduleFields(product))
         setFormSeed((s) => s + 1)
     }, [product?.id])
 
@@ -40,6 +115,9 @@ export default function ProductForm({ product, categories = [] }: { product?: an
                     setCurrentProduct(latest as any)
                     setShowWarning(Boolean(latest?.purchaseWarning && String(latest.purchaseWarning).trim()))
                     setVisibilityLevel(String(latest?.visibilityLevel ?? -1))
+                    setVariants(toVariantRows((latest as any)?.variants))
+                    setTiers(toTierRows((latest as any)?.priceTiers))
+                    setSchedule(toScheduleFields(latest))
                     setFormSeed((s) => s + 1)
                 } catch {
                     // ignore
@@ -117,11 +195,172 @@ export default function ProductForm({ product, categories = [] }: { product?: an
                         />
                     </div>
 
+                    <div className="space-y-3 p-3 border rounded-md bg-muted/30">
+                        <input type="hidden" name="priceTiers" value={JSON.stringify(tiers)} />
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <Label>{t('admin.productForm.tiersLabel')}</Label>
+                                <p className="text-xs text-muted-foreground">{t('admin.productForm.tiersHint')}</p>
+                            </div>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setTiers((rows) => [...rows, { minQuantity: '', price: '' }])}
+                            >
+                                <Plus className="h-4 w-4 mr-1" />
+                                {t('admin.productForm.tierAdd')}
+                            </Button>
+                        </div>
+                        {tiers.map((tier, index) => (
+                            <div key={index} className="grid gap-2 grid-cols-[1fr_1fr_auto] items-center">
+                                <Input
+                                    type="number"
+                                    min="2"
+                                    step="1"
+                                    value={tier.minQuantity}
+                                    onChange={(e) => updateTier(index, { minQuantity: e.target.value })}
+                                    placeholder={t('admin.productForm.tierMinQuantity')}
+                                    required
+                                />
+                                <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={tier.price}
+                                    onChange={(e) => updateTier(index, { price: e.target.value })}
+                                    placeholder={t('admin.productForm.tierPrice')}
+                                    required
+                                />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setTiers((rows) => rows.filter((_, i) => i !== index))}
+                                    title={t('common.delete')}
+                                >
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-3 p-3 border rounded-md bg-muted/30">
+                        <input type="hidden" name="saleStartsAt" value={toIsoInput(schedule.saleStartsAt)} />
+                        <input type="hidden" name="saleEndsAt" value={toIsoInput(schedule.saleEndsAt)} />
+                        <div>
+                            <Label>{t('admin.productForm.flashSaleLabel')}</Label>
+                            <p className="text-xs text-muted-foreground">{t('admin.productForm.flashSaleHint')}</p>
+                        </div>
+                        <div className="grid gap-2 grid-cols-2">
+                            <Input
+                                id="salePrice"
+                                name="salePrice"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                defaultValue={currentProduct?.salePrice || ''}
+                                placeholder={t('admin.productForm.salePrice')}
+                            />
+                            <Input
+                                id="saleQuantity"
+                                name="saleQuantity"
+                                type="number"
+                                step="1"
+                                min="0"
+                                defaultValue={currentProduct?.saleQuantity || ''}
+                                placeholder={t('admin.productForm.saleQuantity')}
+                            />
+                        </div>
+                        <div className="grid gap-2 grid-cols-2">
+                            <div className="grid gap-1">
+                                <Label htmlFor="saleStartsAt" className="text-xs text-muted-foreground">{t('admin.productForm.saleStartsAt')}</Label>
+                                <Input id="saleStartsAt" type="datetime-local" value={schedule.saleStartsAt} onChange={(e) => updateSchedule({ saleStartsAt: e.target.value })} />
+                            </div>
+                            <div className="grid gap-1">
+                                <Label htmlFor="saleEndsAt" className="text-xs text-muted-foreground">{t('admin.productForm.saleEndsAt')}</Label>
+                                <Input id="saleEndsAt" type="datetime-local" value={schedule.saleEndsAt} onChange={(e) => updateSchedule({ saleEndsAt: e.target.value })} />
+                            </div>
+                        </div>
+                    </div>
+
                     <div className="grid gap-2">
                         <Label htmlFor="purchaseLimit">{t('admin.productForm.purchaseLimitLabel') || "Purchase Limit (0 or empty for unlimited)"}</Label>
                         <Input id="purchaseLimit" name="purchaseLimit" type="number" defaultValue={currentProduct?.purchaseLimit} placeholder={t('admin.productForm.purchaseLimitPlaceholder') || "e.g. 1"} />
                     </div>
 
+                    <div className="grid gap-2">
+                        <Label htmlFor="lowStockThreshold">{t('admin.productForm.lowStockThreshold')}</Label>
+                        <Input id="lowStockThreshold" name="lowStockThreshold" type="number" min="0" defaultValue={currentProduct?.lowStockThreshold ?? ''} placeholder={t('admin.productForm.lowStockThresholdPlaceholder')} />
+                    </div>
+
+                    <div className="space-y-3 p-3 border rounded-md bg-muted/30">
+                        <input type="hidden" name="variants" value={JSON.stringify(variants)} />
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <Label>{t('admin.productForm.variantsLabel')}</Label>
+                                <p className="text-xs text-muted-foreground">{t('admin.productForm.variantsHint')}</p>
+                            </div>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setVariants((rows) => [...rows, { name: '', price: '', compareAtPrice: '', purchaseLimit: '', isActive: true }])}
+                            >
+                                <Plus className="h-4 w-4 mr-1" />
+                                {t('admin.productForm.variantAdd')}
+                            </Button>
+                        </div>
+                        {variants.map((variant, index) => (
+                            <div key={variant.id ?? `new-${index}`} className="grid gap-2 grid-cols-2 md:grid-cols-[2fr_1fr_1fr_1fr_auto_auto] items-center">
+                                <Input
+                                    value={variant.name}
+                                    onChange={(e) => updateVariant(index, { name: e.target.value })}
+                                    placeholder={t('admin.productForm.variantName')}
+                                    required
+                                />
+                                <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={variant.price}
+                                    onChange={(e) => updateVariant(index, { price: e.target.value })}
+                                    placeholder={t('admin.productForm.variantPrice')}
+                                    required
+                                />
+                                <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={variant.compareAtPrice}
+                                    onChange={(e) => updateVariant(index, { compareAtPrice: e.target.value })}
+                                    placeholder={t('admin.productForm.variantCompareAt')}
+                                />
+                                <Input
+                                    type="number"
+                                    value={variant.purchaseLimit}
+                                    onChange={(e) => updateVariant(index, { purchaseLimit: e.target.value })}
+                                    placeholder={t('admin.productForm.variantLimit')}
+                                />
+                                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <input
+                                        type="checkbox"
+                                        checked={variant.isActive}
+                                        onChange={(e) => updateVariant(index, { isActive: e.target.checked })}
+                                        className="h-4 w-4 accent-primary"
+                                    />
+                                    {t('admin.productForm.variantActive')}
+                                </label>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setVariants((rows) => rows.filter((_, i) => i !== index))}
+                                    title={t('common.delete')}
+                                >
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+
                     <div className="grid gap-2">
                         <Label htmlFor="category">{t('admin.productForm.categoryLabel')}</Label>
                         <Input id="category" name="category" list="ldc-category-list" defaultValue={currentProduct?.category} placeholder={t('admin.productForm.categoryPlaceholder')} />
@@ -150,6 +389,25 @@ export default function ProductForm({ product, categories = [] }: { product?: an
                         <p className="text-xs text-muted-foreground">{t('admin.productForm.visibilityHint')}</p>
                     </div>
 
+                    <div className="space-y-3 p-3 border rounded-md bg-muted/30">
+                        <input type="hidden" name="publishAt" value={toIsoInput(schedule.publishAt)} />
+                        <input type="hidden" name="unpublishAt" value={toIsoInput(schedule.unpublishAt)} />
+                        <div>
+                            <Label>{t('admin.productForm.scheduleLabel')}</Label>
+                            <p className="text-xs text-muted-foreground">{t('admin.productForm.scheduleHint')}</p>
+                        </div>
+                        <div className="grid gap-2 grid-cols-2">
+                            <div className="grid gap-1">
+                                <Label htmlFor="publishAt" className="text-xs text-muted-foreground">{t('admin.productForm.publishAt')}</Label>
+                                <Input id="publishAt" type="datetime-local" value={schedule.publishAt} onChange={(e) => updateSchedule({ publishAt: e.target.value })} />
+                            </div>
+                            <div className="grid gap-1">
+                                <Label htmlFor="unpublishAt" className="text-xs text-muted-foreground">{t('admin.productForm.unpublishAt')}</Label>
+                                <Input id="unpublishAt" type="datetime-local" value={schedule.unpublishAt} onChange={(e) => updateSchedule({ unpublishAt: e.target.value })} />
+                            </div>
+                        </div>
+                    </div>
+
                     <div className="flex items-center space-x-2">
                         <Checkbox
                             id="isShared"
@@ -10,6 +10,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { Plus, Eye, EyeOff, ArrowUp, ArrowDown } from "lucide-react"
 import { deleteProduct, toggleProductStatus, reorderProduct } from "@/actions/admin"
+import type { FlashSaleStatus } from "@/lib/flash-sale"
 import { toast } from "sonner"
 
 interface Product {
@@ -23,6 +24,10 @@ interface Product {
     isHot: boolean
     sortOrder: number
     fulfillmentType: string
+    publishState: 'scheduled' | 'live' | 'expired' | null
+    flashSaleStatus: FlashSaleStatus | null
+    lowStockThreshold: number | null
+    soldOutState: string | null
 }
 
 interface AdminProductsContentProps {
@@ -177,7 +182,7 @@ export function AdminProductsContent({ products, lowStockThreshold }: AdminProdu
                                         ) : (
                                             <>
                                                 <span>{product.stockCount}</span>
-                                                {product.stockCount <= threshold && (
+                                                {product.stockCount <= (product.lowStockThreshold ?? threshold) && (
                                                     <Badge variant="destructive" className="text-[10px]">{t('admin.products.lowStock')}</Badge>
                                                 )}
                                             </>
@@ -185,9 +190,23 @@ export function AdminProductsContent({ products, lowStockThreshold }: AdminProdu
                                     </div>
                                 </TableCell>
                                 <TableCell>
-                                    <Badge variant={product.isActive ? 'default' : 'secondary'}>
-                                        {product.isActive ? t('admin.products.active') : t('admin.products.inactive')}
-                                    </Badge>
+                                    <div className="flex flex-wrap gap-1">
+                                        <Badge variant={product.isActive ? 'default' : 'secondary'}>
+                                            {product.isActive ? t('admin.products.active') : t('admin.products.inactive')}
+                                        </Badge>
+                                        {product.soldOutState === 'hidden' && (
+                                            <Badge variant="outline" className="text-amber-600 border-amber-300">{t('admin.products.autoHidden')}</Badge>
+                                        )}
+                                        {product.soldOutState === 'restocking' && (
+                                            <Badge variant="outline">{t('admin.products.restocking')}</Badge>
+                                        )}
+                                        {(product.publishState === 'scheduled' || product.publishState === 'expired') && (
+                                            <Badge variant="outline">{t(`admin.products.publish.${product.publishState}`)}</Badge>
+                                        )}
+                                        {(product.flashSaleStatus === 'active' || product.flashSaleStatus === 'upcoming') && (
+                                            <Badge variant="outline" className="text-destructive border-destructive/30">{t(`admin.products.flashSale.${product.flashSaleStatus}`)}</Badge>
+                                        )}
+                                    </div>
                                 </TableCell>
                                 <TableCell className="text-right space-x-2">
                                     <Button
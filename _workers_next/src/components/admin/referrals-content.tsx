@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ClientDate } from "@/components/client-date"
+import { saveReferralSettings } from "@/actions/admin-referrals"
+import { toast } from "sonner"
+
+type ReferralSettings = {
+  enabled: boolean
+  inviterReward: number
+  inviteeReward: number
+  minOrderAmount: number
+  minTrustLevel: number
+  monthlyCap: number
+}
+
+type TotalRow = {
+  status: string
+  count: number
+  inviterPoints: number
+  inviteePoints: number
+}
+
+type InviterRow = {
+  inviterId: string
+  username: string | null
+  invited: number
+  rewarded: number
+  points: number
+}
+
+type ReferralRow = {
+  id: number
+  inviterId: string
+  inviterName: string | null
+  inviteeId: string
+  inviteeName: string | null
+  status: string
+  orderId: string | null
+  inviterPoints: number
+  inviteePoints: number
+  note: string | null
+  createdAt: number | null
+  rewardedAt: number | null
+}
+
+interface AdminReferralsContentProps {
+  settings: ReferralSettings
+  totals: TotalRow[]
+  topInviters: InviterRow[]
+  recent: ReferralRow[]
+}
+
+const statusVariant: Record<string, "default" | "secondary" | "destructive"> = {
+  rewarded: "default",
+  pending: "secondary",
+  rejected: "destructive",
+}
+
+export function AdminReferralsContent({ settings, totals, topInviters, recent }: AdminReferralsContentProps) {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [form, setForm] = useState({
+    enabled: settings.enabled,
+    inviterReward: String(settings.inviterReward),
+    inviteeReward: String(settings.inviteeReward),
+    minOrderAmount: String(settings.minOrderAmount),
+    minTrustLevel: String(settings.minTrustLevel),
+    monthlyCap: String(settings.monthlyCap),
+  })
+  const [saving, setSaving] = useState(false)
+
+  const set = (key: keyof typeof form, value: string | boolean) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await saveReferralSettings({
+        enabled: form.enabled,
+        inviterReward: Number(form.inviterReward),
+        inviteeReward: Number(form.inviteeReward),
+        minOrderAmount: Number(form.minOrderAmount),
+        minTrustLevel: Number(form.minTrustLevel),
+        monthlyCap: Number(form.monthlyCap),
+      })
+      toast.success(t('common.success'))
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const total = (status?: string) => totals
+    .filter((row) => !status || row.status === status)
+    .reduce((sum, row) => sum + row.count, 0)
+  const pointsPaid = totals.reduce((sum, row) => sum + row.inviterPoints + row.inviteePoints, 0)
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('admin.referrals.title')}</h1>
+        <p className="text-sm text-muted-foreground mt-1">{t('admin.referrals.subtitle')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('admin.referrals.settings')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="flex items-center space-x-2 md:col-span-3">
+            <Checkbox id="referral-enabled" checked={form.enabled} onCheckedChange={(v) => set('enabled', v === true)} />
+            <Label htmlFor="referral-enabled">{t('admin.referrals.enabled')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="referral-inviter-reward" type="number" min="0" step="1" value={form.inviterReward} onChange={(e) => set('inviterReward', e.target.value)} placeholder=" " />
+            <Label htmlFor="referral-inviter-reward" className="floating-label">{t('admin.referrals.inviterReward')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="referral-invitee-reward" type="number" min="0" step="1" value={form.inviteeReward} onChange={(e) => set('inviteeReward', e.target.value)} placeholder=" " />
+            <Label htmlFor="referral-invitee-reward" className="floating-label">{t('admin.referrals.inviteeReward')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="referral-min-order" type="number" min="0" step="0.01" value={form.minOrderAmount} onChange={(e) => set('minOrderAmount', e.target.value)} placeholder=" " />
+            <Label htmlFor="referral-min-order" className="floating-label">{t('admin.referrals.minOrderAmount')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="referral-min-trust" type="number" min="0" max="4" step="1" value={form.minTrustLevel} onChange={(e) => set('minTrustLevel', e.target.value)} placeholder=" " />
+            <Label htmlFor="referral-min-trust" className="floating-label">{t('admin.referrals.minTrustLevel')}</Label>
+          </div>
+          <div className="floating-field">
+            <Input id="referral-monthly-cap" type="number" min="0" step="1" value={form.monthlyCap} onChange={(e) => set('monthlyCap', e.target.value)} placeholder=" " />
+            <Label htmlFor="referral-monthly-cap" className="floating-label">{t('admin.referrals.monthlyCap')}</Label>
+          </div>
+
+          <p className="md:col-span-3 text-xs text-muted-foreground">{t('admin.referrals.hint')}</p>
+
+          <div className="md:col-span-3 flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? t('common.processing') : t('common.save')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        {[
+          { label: t('admin.referrals.totalInvites'), value: total() },
+          { label: t('admin.referrals.status.rewarded'), value: total('rewarded') },
+          { label: t('admin.referrals.status.pending'), value: total('pending') },
+          { label: t('admin.referrals.pointsPaid'), value: pointsPaid },
+        ].map((item) => (
+          <Card key={item.label}>
+            <CardContent className="pt-6">
+              <p className="text-2xl font-bold">{item.value}</p>
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('admin.referrals.topInviters')}</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('admin.referrals.inviter')}</TableHead>
+                <TableHead>{t('admin.referrals.invited')}</TableHead>
+                <TableHead>{t('admin.referrals.status.rewarded')}</TableHead>
+                <TableHead>{t('admin.referrals.points')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {topInviters.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">{t('admin.referrals.empty')}</TableCell>
+                </TableRow>
+              )}
+              {topInviters.map((row) => (
+                <TableRow key={row.inviterId}>
+                  <TableCell className="font-medium">{row.username || row.inviterId}</TableCell>
+                  <TableCell>{row.invited}</TableCell>
+                  <TableCell>{row.rewarded}</TableCell>
+                  <TableCell className="font-mono">{row.points}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('admin.referrals.recent')}</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('admin.referrals.inviter')}</TableHead>
+                <TableHead>{t('admin.referrals.invitee')}</TableHead>
+                <TableHead>{t('admin.coupons.status')}</TableHead>
+                <TableHead>{t('admin.referrals.points')}</TableHead>
+                <TableHead>{t('admin.referrals.order')}</TableHead>
+                <TableHead>{t('admin.referrals.createdAt')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recent.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">{t('admin.referrals.empty')}</TableCell>
+                </TableRow>
+              )}
+              {recent.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>{row.inviterName || row.inviterId}</TableCell>
+                  <TableCell>{row.inviteeName || row.inviteeId}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1 items-start">
+                      <Badge variant={statusVariant[row.status] || "secondary"}>{t(`admin.referrals.status.${row.status}`)}</Badge>
+                      {row.note && <span className="text-xs text-muted-foreground">{t(`admin.referrals.notes.${row.note}`)}</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs whitespace-nowrap">
+                    {row.status === 'rewarded' ? `+${row.inviterPoints} / +${row.inviteePoints}` : '-'}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{row.orderId || '-'}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                    {row.createdAt ? <ClientDate value={new Date(row.createdAt)} format="dateTime" /> : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
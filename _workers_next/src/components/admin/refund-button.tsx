@@ -1,19 +1,21 @@
 'use client'
 
 import { Button } from "@/components/ui/button"
-import { markOrderRefunded, proxyRefund } from "@/actions/refund"
+import { markOrderPartiallyRefunded, markOrderRefunded, proxyPartialRefund, proxyRefund } from "@/actions/refund"
 import { verifyOrderRefundStatus } from "@/actions/admin-orders"
 import { useState } from "react"
 import { toast } from "sonner"
 import { Loader2, ExternalLink, CheckCircle, RefreshCcw } from "lucide-react"
 import { useI18n } from "@/lib/i18n/context"
+import type { RefundSelection } from "@/lib/refunds"
 
-export function RefundButton({ order }: { order: any }) {
+/** Refunds the whole remaining order, or only `selection` when one is given */
+export function RefundButton({ order, selection }: { order: any; selection?: RefundSelection | null }) {
     const [loading, setLoading] = useState(false)
     const [showMarkDone, setShowMarkDone] = useState(false)
     const { t } = useI18n()
 
-    if (order.status !== 'delivered' && order.status !== 'paid') return null
+    if (order.status !== 'delivered' && order.status !== 'paid' && order.status !== 'partially_refunded') return null
     if (!order.tradeNo) return null
     if (Number(order.amount) <= 0) return null // No refund for orders paid entirely with points
 
@@ -21,7 +23,9 @@ export function RefundButton({ order }: { order: any }) {
         if (!confirm(t('admin.orders.refundProxyConfirm'))) return
         setLoading(true)
         try {
-            const result = await proxyRefund(order.orderId)
+            const result = selection
+                ? await proxyPartialRefund(order.orderId, selection)
+                : await proxyRefund(order.orderId)
             if (result.processed) {
                 toast.success(t('admin.orders.verifySuccessRefunded'))
             } else {
@@ -41,7 +45,8 @@ export function RefundButton({ order }: { order: any }) {
 
         setLoading(true)
         try {
-            await markOrderRefunded(order.orderId)
+            if (selection) await markOrderPartiallyRefunded(order.orderId, selection)
+            else await markOrderRefunded(order.orderId)
             toast.success(t('admin.orders.refundSuccess'))
             setShowMarkDone(false)
         } catch (e: any) {
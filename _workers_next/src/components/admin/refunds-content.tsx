@@ -11,6 +11,16 @@ import { adminApproveRefund, adminRejectRefund } from "@/actions/refund-requests
 import { RefundButton } from "@/components/admin/refund-button"
 import { toast } from "sonner"
 
+// A request for fewer units than the order refunds just that part
+function requestSelection(r: any) {
+  if (!r.refundQuantity || Number(r.refundQuantity) >= Number(r.quantity || 1)) return null
+  return {
+    amount: r.refundAmount,
+    quantity: Number(r.refundQuantity),
+    cardIds: String(r.requestCardIds || '').split(',').map(Number).filter((id) => id > 0),
+  }
+}
+
 function statusVariant(status: string | null) {
   switch (status) {
     case 'approved': return 'secondary' as const
@@ -42,14 +52,14 @@ export function AdminRefundsContent({ requests }: { requests: any[] }) {
     })
   }, [query, requests])
 
-  const handle = async (id: number, action: 'approve' | 'reject') => {
+  const handle = async (id: number, action: 'approve' | 'approvePoints' | 'reject') => {
     if (processingRef.current === id) return
     const note = prompt(t('admin.refunds.adminNotePrompt')) || ''
     try {
       processingRef.current = id
       setProcessingId(id)
-      if (action === 'approve') {
-        const result = await adminApproveRefund(id, note)
+      if (action === 'approve' || action === 'approvePoints') {
+        const result = await adminApproveRefund(id, note, action === 'approvePoints' ? 'points' : undefined)
         if (result?.processed) {
           toast.success(t('admin.refunds.autoRefundSuccess'))
         } else {
@@ -106,7 +116,21 @@ export function AdminRefundsContent({ requests }: { requests: any[] }) {
                     <span className="text-muted-foreground">-</span>
                   )}
                 </TableCell>
-                <TableCell className="max-w-[220px] truncate">{r.productName || '-'}</TableCell>
+                <TableCell className="max-w-[220px]">
+                  <div className="truncate">{r.productName || '-'}</div>
+                  {r.refundAmount && (
+                    <div className="text-xs text-muted-foreground">
+                      {t('admin.refunds.requested', { amount: r.refundAmount, quantity: r.refundQuantity || 1 })}
+                    </div>
+                  )}
+                  {r.refundMethod === 'points' && (
+                    <div className="text-xs text-muted-foreground">
+                      {r.refundPoints !== null && r.refundPoints !== undefined
+                        ? t('admin.refunds.creditedPoints', { points: r.refundPoints })
+                        : t('admin.refunds.wantsPoints')}
+                    </div>
+                  )}
+                </TableCell>
                 <TableCell className="max-w-[320px]">
                   <div className="text-sm whitespace-pre-wrap break-words">{r.reason || '-'}</div>
                   {r.adminNote && (
@@ -126,6 +150,9 @@ export function AdminRefundsContent({ requests }: { requests: any[] }) {
                     {(r.status === 'pending' || !r.status) && (
                       <>
                         <Button variant="outline" size="sm" onClick={() => handle(r.id, 'approve')} disabled={processingId === r.id}>{t('admin.refunds.approve')}</Button>
+                        {r.userId && (
+                          <Button variant="outline" size="sm" onClick={() => handle(r.id, 'approvePoints')} disabled={processingId === r.id}>{t('admin.refunds.approvePoints')}</Button>
+                        )}
                         <Button variant="destructive" size="sm" onClick={() => handle(r.id, 'reject')} disabled={processingId === r.id}>{t('admin.refunds.reject')}</Button>
                       </>
                     )}
@@ -136,7 +163,7 @@ export function AdminRefundsContent({ requests }: { requests: any[] }) {
                         amount: r.amount,
                         status: r.orderStatus,
                         cardKey: r.cardKey
-                      }} />
+                      }} selection={requestSelection(r)} />
                     )}
                   </div>
                 </TableCell>
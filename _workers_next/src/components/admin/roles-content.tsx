@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ClientDate } from "@/components/client-date"
+import { grantAdminRole, revokeAdminRole } from "@/actions/admin-roles"
+import { ADMIN_CAPABILITIES, ADMIN_ROLES, type AdminCapability, type AdminRole } from "@/lib/admin-roles"
+import { Check } from "lucide-react"
+import { toast } from "sonner"
+
+type AssignmentRow = {
+  userId: string
+  username: string | null
+  role: string
+  grantedBy: string | null
+  updatedAt: number | null
+}
+
+interface AdminRolesContentProps {
+  envOwners: string[]
+  assignments: AssignmentRow[]
+  matrix: Record<AdminRole, readonly AdminCapability[]>
+}
+
+const selectClass = "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+
+export function AdminRolesContent({ envOwners, assignments, matrix }: AdminRolesContentProps) {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [username, setUsername] = useState("")
+  const [role, setRole] = useState<AdminRole>("support")
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handleGrant = async () => {
+    setSaving(true)
+    try {
+      await grantAdminRole(username, role)
+      toast.success(t('common.success'))
+      setUsername("")
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleChange = async (row: AssignmentRow, next: string) => {
+    if (!row.username) return
+    setBusyId(row.userId)
+    try {
+      await grantAdminRole(row.username, next)
+      toast.success(t('common.success'))
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRevoke = async (row: AssignmentRow) => {
+    if (!confirm(t('admin.roles.confirmRevoke', { username: row.username || row.userId }))) return
+    setBusyId(row.userId)
+    try {
+      await revokeAdminRole(row.userId)
+      toast.success(t('common.success'))
+      router.refresh()
+    } catch (e: any) {
+      toast.error(e.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('admin.roles.title')}</h1>
+        <p className="text-sm text-muted-foreground mt-1">{t('admin.roles.subtitle')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('admin.roles.grant')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="floating-field md:col-span-2">
+            <Input id="admin-role-username" value={username} onChange={(e) => setUsername(e.target.value)} placeholder=" " />
+            <Label htmlFor="admin-role-username" className="floating-label">{t('admin.roles.username')}</Label>
+          </div>
+          <div className="grid gap-2">
+            <select id="admin-role-role" value={role} onChange={(e) => setRole(e.target.value as AdminRole)} className={selectClass}>
+              {ADMIN_ROLES.map((r) => <option key={r} value={r}>{t(`admin.roles.names.${r}`)}</option>)}
+            </select>
+          </div>
+          <p className="md:col-span-3 text-xs text-muted-foreground">{t('admin.roles.hint')}</p>
+          <div className="md:col-span-3 flex justify-end">
+            <Button onClick={handleGrant} disabled={saving || !username.trim()}>
+              {saving ? t('common.processing') : t('admin.roles.grant')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="rounded-md border bg-card overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('admin.roles.username')}</TableHead>
+              <TableHead>{t('admin.roles.role')}</TableHead>
+              <TableHead>{t('admin.roles.grantedBy')}</TableHead>
+              <TableHead>{t('admin.roles.updatedAt')}</TableHead>
+              <TableHead className="text-right">{t('admin.categories.actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {envOwners.map((name) => (
+              <TableRow key={`env-${name}`}>
+                <TableCell className="font-medium">{name}</TableCell>
+                <TableCell><Badge>{t('admin.roles.names.owner')}</Badge></TableCell>
+                <TableCell className="text-muted-foreground">{t('admin.roles.fromEnv')}</TableCell>
+                <TableCell>-</TableCell>
+                <TableCell />
+              </TableRow>
+            ))}
+            {assignments.map((row) => (
+              <TableRow key={row.userId}>
+                <TableCell className="font-medium">{row.username || row.userId}</TableCell>
+                <TableCell>
+                  <select
+                    value={row.role}
+                    onChange={(e) => handleChange(row, e.target.value)}
+                    disabled={busyId === row.userId || !row.username}
+                    className={`${selectClass} max-w-[160px]`}
+                  >
+                    {ADMIN_ROLES.map((r) => <option key={r} value={r}>{t(`admin.roles.names.${r}`)}</option>)}
+                  </select>
+                </TableCell>
+                <TableCell>{row.grantedBy || '-'}</TableCell>
+                <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                  {row.updatedAt ? <ClientDate value={new Date(row.updatedAt)} format="dateTime" /> : '-'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="destructive" size="sm" onClick={() => handleRevoke(row)} disabled={busyId === row.userId}>
+                    {t('admin.roles.revoke')}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('admin.roles.matrix')}</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('admin.roles.capability')}</TableHead>
+                {ADMIN_ROLES.map((r) => <TableHead key={r} className="text-center">{t(`admin.roles.names.${r}`)}</TableHead>)}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ADMIN_CAPABILITIES.map((capability) => (
+                <TableRow key={capability}>
+                  <TableCell>{t(`admin.roles.capabilities.${capability}`)}</TableCell>
+                  {ADMIN_ROLES.map((r) => (
+                    <TableCell key={r} className="text-center">
+                      {matrix[r].includes(capability) ? <Check className="h-4 w-4 mx-auto text-green-600" /> : <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="mt-3 text-xs text-muted-foreground">{t('admin.roles.viewerHint')}</p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
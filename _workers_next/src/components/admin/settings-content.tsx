@@ -8,10 +8,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { TrendingUp, ShoppingCart, CreditCard, Package, Users } from "lucide-react"
-import { saveShopName, saveShopDescription, saveShopLogo, saveShopFooter, saveThemeColor, saveLowStockThreshold, saveCheckinReward, saveCheckinEnabled, saveWishlistEnabled, saveNoIndex, saveRefundReclaimCards, saveRegistryHideNav } from "@/actions/admin"
+import { saveShopName, saveShopDescription, saveShopLogo, saveShopFooter, saveThemeColor, saveLowStockThreshold, saveSoldOutAction, saveCheckinReward, saveCheckinEnabled, saveCheckinRules, savePointsRewards, saveWishlistEnabled, saveNoIndex, saveRefundReclaimCards, saveRefundPointsRate, saveRegistryHideNav, savePaymentSettings } from "@/actions/admin"
 import { checkForUpdates } from "@/actions/update-check"
 import { joinRegistry } from "@/actions/registry"
 import { toast } from "sonner"
+import { SOLD_OUT_ACTIONS, type SoldOutAction } from "@/lib/stock-levels"
 
 interface Stats {
     today: { count: number; revenue: number }
@@ -29,12 +30,25 @@ interface AdminSettingsContentProps {
     themeColor: string | null
     visitorCount: number
     lowStockThreshold: number
+    soldOutAction: SoldOutAction
     checkinReward: number
     checkinEnabled: boolean
+    checkinTimeZone: string
+    checkinStreakBonuses: string
+    checkinMakeUpCost: number
+    checkinMakeUpDays: number
+    pointsCashbackPercent: number
+    pointsExpiryDays: number
+    pointsReminderDays: number
     wishlistEnabled: boolean
     noIndexEnabled: boolean
     refundReclaimCards: boolean
+    refundPointsRate: number
     registryHideNav: boolean
+    paymentProvider: string
+    epayGatewayUrl: string
+    epayPayType: string
+    epayCredentialsSet: boolean
     registryOptIn: boolean
     registryEnabled: boolean
 }
@@ -63,7 +77,7 @@ const THEME_COLORS = [
     { value: 'pink', hue: 330 },
 ]
 
-export function AdminSettingsContent({ stats, shopName, shopDescription, shopLogo, shopFooter, themeColor, visitorCount, lowStockThreshold, checkinReward, checkinEnabled, wishlistEnabled, noIndexEnabled, refundReclaimCards, registryHideNav, registryOptIn, registryEnabled }: AdminSettingsContentProps) {
+export function AdminSettingsContent({ stats, shopName, shopDescription, shopLogo, shopFooter, themeColor, visitorCount, lowStockThreshold, soldOutAction, checkinReward, checkinEnabled, checkinTimeZone, checkinStreakBonuses, checkinMakeUpCost, checkinMakeUpDays, pointsCashbackPercent, pointsExpiryDays, pointsReminderDays, wishlistEnabled, noIndexEnabled, refundReclaimCards, refundPointsRate, registryHideNav, paymentProvider, epayGatewayUrl, epayPayType, epayCredentialsSet, registryOptIn, registryEnabled }: AdminSettingsContentProps) {
     const { t } = useI18n()
 
     // State
@@ -79,16 +93,33 @@ export function AdminSettingsContent({ stats, shopName, shopDescription, shopLog
     const [savingTheme, setSavingTheme] = useState(false)
     const [thresholdValue, setThresholdValue] = useState(String(lowStockThreshold || 5))
     const [savingThreshold, setSavingThreshold] = useState(false)
+    const [soldOutActionValue, setSoldOutActionValue] = useState(soldOutAction)
+    const [savingSoldOutAction, setSavingSoldOutAction] = useState(false)
     const [rewardValue, setRewardValue] = useState(String(checkinReward || 10))
     const [savingReward, setSavingReward] = useState(false)
     const [enabledCheckin, setEnabledCheckin] = useState(checkinEnabled)
     const [savingEnabled, setSavingEnabled] = useState(false)
+    const [timeZoneValue, setTimeZoneValue] = useState(checkinTimeZone || 'UTC')
+    const [streakBonusesValue, setStreakBonusesValue] = useState(checkinStreakBonuses || '')
+    const [makeUpCostValue, setMakeUpCostValue] = useState(String(checkinMakeUpCost || 0))
+    const [makeUpDaysValue, setMakeUpDaysValue] = useState(String(checkinMakeUpDays || 0))
+    const [savingCheckinRules, setSavingCheckinRules] = useState(false)
+    const [cashbackValue, setCashbackValue] = useState(String(pointsCashbackPercent || 0))
+    const [expiryDaysValue, setExpiryDaysValue] = useState(String(pointsExpiryDays || 0))
+    const [reminderDaysValue, setReminderDaysValue] = useState(String(pointsReminderDays || 0))
+    const [savingPointsRewards, setSavingPointsRewards] = useState(false)
     const [enabledWishlist, setEnabledWishlist] = useState(wishlistEnabled)
     const [savingWishlist, setSavingWishlist] = useState(false)
     const [enabledNoIndex, setEnabledNoIndex] = useState(noIndexEnabled)
     const [savingNoIndex, setSavingNoIndex] = useState(false)
     const [refundReclaimEnabled, setRefundReclaimEnabled] = useState(refundReclaimCards)
     const [savingRefundReclaim, setSavingRefundReclaim] = useState(false)
+    const [pointsRateValue, setPointsRateValue] = useState(String(refundPointsRate || 1))
+    const [savingPointsRate, setSavingPointsRate] = useState(false)
+    const [providerValue, setProviderValue] = useState(paymentProvider)
+    const [gatewayValue, setGatewayValue] = useState(epayGatewayUrl)
+    const [payTypeValue, setPayTypeValue] = useState(epayPayType)
+    const [savingPayment, setSavingPayment] = useState(false)
     const [checkingUpdate, setCheckingUpdate] = useState(false)
     const [updateInfo, setUpdateInfo] = useState<UpdateInfo | null>(null)
     const [submittingRegistry, setSubmittingRegistry] = useState(false)
@@ -149,6 +180,19 @@ export function AdminSettingsContent({ stats, shopName, shopDescription, shopLog
         }
     }
 
+    const handleSoldOutAction = async (value: SoldOutAction) => {
+        setSavingSoldOutAction(true)
+        try {
+            await saveSoldOutAction(value)
+            setSoldOutActionValue(value)
+            toast.success(t('common.success'))
+        } catch (e: any) {
+            toast.error(e.message)
+        } finally {
+            setSavingSoldOutAction(false)
+        }
+    }
+
     const handleSaveReward = async () => {
         setSavingReward(true)
         try {
@@ -187,6 +231,54 @@ export function AdminSettingsContent({ stats, shopName, shopDescription, shopLog
         }
     }
 
+    const handleSavePointsRate = async () => {
+        setSavingPointsRate(true)
+        try {
+            await saveRefundPointsRate(pointsRateValue)
+            toast.success(t('common.success'))
+        } catch (e: any) {
+            toast.error(e.message)
+        } finally {
+            setSavingPointsRate(false)
+        }
+    }
+
+    const handleSaveCheckinRules = async () => {
+        setSavingCheckinRules(true)
+        try {
+            await saveCheckinRules({ timeZone: timeZoneValue, streakBonuses: streakBonusesValue, makeUpCost: makeUpCostValue, makeUpDays: makeUpDaysValue })
+            toast.success(t('common.success'))
+        } catch (e: any) {
+            toast.error(e.message)
+        } finally {
+            setSavingCheckinRules(false)
+        }
+    }
+
+    const handleSavePointsRewards = async () => {
+        setSavingPointsRewards(true)
+        try {
+            await savePointsRewards({ cashbackPercent: cashbackValue, expiryDays: expiryDaysValue, reminderDays: reminderDaysValue })
+            toast.success(t('common.success'))
+        } catch (e: any) {
+            toast.error(e.message)
+        } finally {
+            setSavingPointsRewards(false)
+        }
+    }
+
+    const handleSavePayment = async () => {
+        setSavingPayment(true)
+        try {
+            await savePaymentSettings({ provider: providerValue, gatewayUrl: gatewayValue, payType: payTypeValue })
+            toast.success(t('common.success'))
+        } catch (e: any) {
+            toast.error(e.message)
+        } finally {
+            setSavingPayment(false)
+        }
+    }
+
     const handleToggleNoIndex = async (checked: boolean) => {
         setSavingNoIndex(true)
         try {
@@ -425,6 +517,24 @@ export function AdminSettingsContent({ stats, shopName, shopDescription, shopLog
                                 {savingThreshold ? t('common.processing') : t('common.save')}
                             </Button>
                         </div>
+                        <p className="text-xs text-muted-foreground">{t('admin.settings.lowStockThresholdHint')}</p>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label>{t('admin.settings.soldOutAction')}</Label>
+                        <div className="flex flex-wrap gap-2">
+                            {SOLD_OUT_ACTIONS.map((action) => (
+                                <Button
+                                    key={action}
+                                    variant={soldOutActionValue === action ? "default" : "outline"}
+                                    size="sm"
+                                    onClick={() => handleSoldOutAction(action)}
+                                    disabled={savingSoldOutAction}
+                                >
+                                    {t(`admin.settings.soldOutActions.${action}`)}
+                                </Button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t('admin.settings.soldOutActionHint')}</p>
                     </div>
                 </CardContent>
             </Card>
@@ -467,6 +577,104 @@ export function AdminSettingsContent({ stats, shopName, shopDescription, shopLog
                             </div>
                         </div>
                     )}
+                    {enabledCheckin && (
+                        <div className="space-y-2">
+                            <div className="grid gap-3 md:grid-cols-2">
+                            <div className="floating-field">
+                                <Input
+                                    id="checkin-timezone"
+                                    value={timeZoneValue}
+                                    onChange={(e) => setTimeZoneValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="checkin-timezone" className="floating-label">{t('admin.settings.checkin.timeZone')}</Label>
+                            </div>
+                            <div className="floating-field">
+                                <Input
+                                    id="checkin-streak-bonuses"
+                                    value={streakBonusesValue}
+                                    onChange={(e) => setStreakBonusesValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="checkin-streak-bonuses" className="floating-label">{t('admin.settings.checkin.streakBonuses')}</Label>
+                            </div>
+                            <div className="floating-field">
+                                <Input
+                                    id="checkin-makeup-cost"
+                                    type="number"
+                                    min={0}
+                                    value={makeUpCostValue}
+                                    onChange={(e) => setMakeUpCostValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="checkin-makeup-cost" className="floating-label">{t('admin.settings.checkin.makeUpCost')}</Label>
+                            </div>
+                            <div className="floating-field">
+                                <Input
+                                    id="checkin-makeup-days"
+                                    type="number"
+                                    min={0}
+                                    value={makeUpDaysValue}
+                                    onChange={(e) => setMakeUpDaysValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="checkin-makeup-days" className="floating-label">{t('admin.settings.checkin.makeUpDays')}</Label>
+                            </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">{t('admin.settings.checkin.rulesHint')}</p>
+                            <Button variant="outline" onClick={handleSaveCheckinRules} disabled={savingCheckinRules}>
+                                {savingCheckinRules ? t('common.processing') : t('common.save')}
+                            </Button>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Points Rewards */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.settings.points.title')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                    <div className="grid gap-3 md:grid-cols-3">
+                        <div className="floating-field">
+                            <Input
+                                id="points-cashback"
+                                type="number"
+                                min={0}
+                                value={cashbackValue}
+                                onChange={(e) => setCashbackValue(e.target.value)}
+                                placeholder=" "
+                            />
+                            <Label htmlFor="points-cashback" className="floating-label">{t('admin.settings.points.cashbackPercent')}</Label>
+                        </div>
+                        <div className="floating-field">
+                            <Input
+                                id="points-expiry-days"
+                                type="number"
+                                min={0}
+                                value={expiryDaysValue}
+                                onChange={(e) => setExpiryDaysValue(e.target.value)}
+                                placeholder=" "
+                            />
+                            <Label htmlFor="points-expiry-days" className="floating-label">{t('admin.settings.points.expiryDays')}</Label>
+                        </div>
+                        <div className="floating-field">
+                            <Input
+                                id="points-reminder-days"
+                                type="number"
+                                min={0}
+                                value={reminderDaysValue}
+                                onChange={(e) => setReminderDaysValue(e.target.value)}
+                                placeholder=" "
+                            />
+                            <Label htmlFor="points-reminder-days" className="floating-label">{t('admin.settings.points.reminderDays')}</Label>
+                        </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t('admin.settings.points.hint')}</p>
+                    <Button variant="outline" onClick={handleSavePointsRewards} disabled={savingPointsRewards}>
+                        {savingPointsRewards ? t('common.processing') : t('common.save')}
+                    </Button>
                 </CardContent>
             </Card>
 
@@ -489,6 +697,79 @@ export function AdminSettingsContent({ stats, shopName, shopDescription, shopLog
                         </Button>
                     </div>
                     <p className="text-xs text-muted-foreground">{t('admin.settings.refund.reclaimHint')}</p>
+                    <div className="grid gap-2 pt-2 md:max-w-xs">
+                        <div className="flex gap-2">
+                            <div className="floating-field flex-1 min-w-0">
+                                <Input
+                                    id="refund-points-rate"
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    value={pointsRateValue}
+                                    onChange={(e) => setPointsRateValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="refund-points-rate" className="floating-label">{t('admin.settings.refund.pointsRate')}</Label>
+                            </div>
+                            <Button variant="outline" onClick={handleSavePointsRate} disabled={savingPointsRate}>
+                                {savingPointsRate ? t('common.processing') : t('common.save')}
+                            </Button>
+                        </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t('admin.settings.refund.pointsRateHint')}</p>
+                </CardContent>
+            </Card>
+
+            {/* Payment Provider */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.settings.payment.title')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-2 md:max-w-xl">
+                        <Label htmlFor="payment-provider">{t('admin.settings.payment.provider')}</Label>
+                        <select
+                            id="payment-provider"
+                            value={providerValue}
+                            onChange={(e) => setProviderValue(e.target.value)}
+                            className="h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-2"
+                        >
+                            <option value="linuxdo">{t('admin.settings.payment.linuxdo')}</option>
+                            <option value="epay">{t('admin.settings.payment.epay')}</option>
+                        </select>
+                    </div>
+                    {providerValue === 'epay' && (
+                        <div className="grid gap-4 md:max-w-xl">
+                            <div className="floating-field">
+                                <Input
+                                    id="epay-gateway"
+                                    value={gatewayValue}
+                                    onChange={(e) => setGatewayValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="epay-gateway" className="floating-label">{t('admin.settings.payment.gatewayUrl')}</Label>
+                            </div>
+                            <div className="floating-field">
+                                <Input
+                                    id="epay-type"
+                                    value={payTypeValue}
+                                    onChange={(e) => setPayTypeValue(e.target.value)}
+                                    placeholder=" "
+                                />
+                                <Label htmlFor="epay-type" className="floating-label">{t('admin.settings.payment.payType')}</Label>
+                            </div>
+                            <p className="text-xs text-muted-foreground">{t('admin.settings.payment.epayHint')}</p>
+                            {!epayCredentialsSet && (
+                                <p className="text-xs text-destructive">{t('admin.settings.payment.credentialsMissing')}</p>
+                            )}
+                        </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">{t('admin.settings.payment.hint')}</p>
+                    <div>
+                        <Button variant="outline" onClick={handleSavePayment} disabled={savingPayment}>
+                            {savingPayment ? t('common.processing') : t('common.save')}
+                        </Button>
+                    </div>
                 </CardContent>
             </Card>
 
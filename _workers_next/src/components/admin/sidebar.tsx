@@ -6,8 +6,9 @@ import { useEffect, useState } from "react"
 import { usePathname } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger, SheetClose } from "@/components/ui/sheet"
-import { Package, CreditCard, Megaphone, Star, Download, Tags, RotateCcw, Users, Settings, QrCode, Bell, Menu, MessageSquare } from "lucide-react"
+import { Package, CreditCard, Megaphone, Star, Download, Tags, RotateCcw, Users, Settings, QrCode, Bell, Menu, MessageSquare, Ticket, ScrollText, BadgePercent, UserPlus, ShieldCheck, History } from "lucide-react"
 import { useI18n } from "@/lib/i18n/context"
+import type { AdminCapability, AdminRole } from "@/lib/admin-roles"
 import { getPendingRefundRequestCount } from "@/actions/refund-requests"
 import { getUnreadUserMessageCount } from "@/actions/user-messages"
 
@@ -47,11 +48,14 @@ interface SidebarContentProps {
     closeOnNavigate?: boolean
     showTitle?: boolean
     username?: string
+    role: AdminRole
+    capabilities: AdminCapability[]
     t: (key: string) => string
 }
 
-function SidebarContent({ closeOnNavigate = false, showTitle = true, username, t }: SidebarContentProps) {
+function SidebarContent({ closeOnNavigate = false, showTitle = true, username, role, capabilities, t }: SidebarContentProps) {
     const pathname = usePathname()
+    const can = (capability: AdminCapability) => capabilities.includes(capability)
     const [pendingRefunds, setPendingRefunds] = useState(0)
     const [unreadMessages, setUnreadMessages] = useState(0)
 
@@ -123,6 +127,7 @@ function SidebarContent({ closeOnNavigate = false, showTitle = true, username, t
             {showTitle && (
                 <div className="flex items-center gap-2 font-bold text-xl px-2 mb-6">
                     <span>{t('common.adminTitle')}</span>
+                    <span className="text-xs font-normal text-muted-foreground">{t(`admin.roles.names.${role}`)}</span>
                 </div>
             )}
             <nav className="flex flex-col gap-2">
@@ -130,21 +135,27 @@ function SidebarContent({ closeOnNavigate = false, showTitle = true, username, t
                 <NavLink href="/admin/products" icon={<Package className="mr-2 h-4 w-4" />} label={t('common.productManagement')} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/orders" icon={<CreditCard className="mr-2 h-4 w-4" />} label={t('common.ordersRefunds')} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/refunds" icon={<RotateCcw className="mr-2 h-4 w-4" />} label={t('common.refundRequests')} badge={refundBadge} closeOnNavigate={closeOnNavigate} />
+                <NavLink href="/admin/payment-events" icon={<ScrollText className="mr-2 h-4 w-4" />} label={t('common.paymentEvents')} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/messages" icon={<MessageSquare className="mr-2 h-4 w-4" />} label={t('common.adminMessages')} badge={messageBadge} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/categories" icon={<Tags className="mr-2 h-4 w-4" />} label={t('common.categoriesManage')} closeOnNavigate={closeOnNavigate} />
+                <NavLink href="/admin/coupons" icon={<Ticket className="mr-2 h-4 w-4" />} label={t('common.coupons')} closeOnNavigate={closeOnNavigate} />
+                <NavLink href="/admin/member-discounts" icon={<BadgePercent className="mr-2 h-4 w-4" />} label={t('common.memberDiscounts')} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/users" icon={<Users className="mr-2 h-4 w-4" />} label={t('common.customers')} closeOnNavigate={closeOnNavigate} />
+                <NavLink href="/admin/referrals" icon={<UserPlus className="mr-2 h-4 w-4" />} label={t('common.referrals')} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/reviews" icon={<Star className="mr-2 h-4 w-4" />} label={t('common.reviews')} closeOnNavigate={closeOnNavigate} />
                 <NavLink href="/admin/announcement" icon={<Megaphone className="mr-2 h-4 w-4" />} label={t('announcement.title')} closeOnNavigate={closeOnNavigate} />
-                <NavLink href="/admin/data" icon={<Download className="mr-2 h-4 w-4" />} label={t('common.dataExport')} closeOnNavigate={closeOnNavigate} />
+                {can('export_data') && <NavLink href="/admin/data" icon={<Download className="mr-2 h-4 w-4" />} label={t('common.dataExport')} closeOnNavigate={closeOnNavigate} />}
                 <NavLink href="/admin/collect" icon={<QrCode className="mr-2 h-4 w-4" />} label={t('payment.adminMenu')} closeOnNavigate={closeOnNavigate} />
-                <NavLink href="/admin/notifications" icon={<Bell className="mr-2 h-4 w-4" />} label={t('admin.settings.notifications.title')} closeOnNavigate={closeOnNavigate} />
+                {can('edit_settings') && <NavLink href="/admin/notifications" icon={<Bell className="mr-2 h-4 w-4" />} label={t('admin.settings.notifications.title')} closeOnNavigate={closeOnNavigate} />}
+                {can('manage_roles') && <NavLink href="/admin/roles" icon={<ShieldCheck className="mr-2 h-4 w-4" />} label={t('common.adminRoles')} closeOnNavigate={closeOnNavigate} />}
+                {can('manage_roles') && <NavLink href="/admin/audit" icon={<History className="mr-2 h-4 w-4" />} label={t('common.auditLog')} closeOnNavigate={closeOnNavigate} />}
             </nav>
             {/* Removed footer logout block to avoid duplicate exit entry */}
         </>
     )
 }
 
-export function AdminSidebar({ username }: { username: string }) {
+export function AdminSidebar({ username, role, capabilities }: { username: string; role: AdminRole; capabilities: AdminCapability[] }) {
     const { t } = useI18n()
 
     return (
@@ -162,7 +173,7 @@ export function AdminSidebar({ username }: { username: string }) {
                         </SheetTrigger>
                         <SheetContent side="left" className="w-4/5 max-w-sm">
                             <div className="flex flex-1 flex-col gap-4 px-4 pb-4 pt-6">
-                                <SidebarContent closeOnNavigate showTitle={false} username={username} t={t} />
+                                <SidebarContent closeOnNavigate showTitle={false} username={username} role={role} capabilities={capabilities} t={t} />
                             </div>
                         </SheetContent>
                     </Sheet>
@@ -171,7 +182,7 @@ export function AdminSidebar({ username }: { username: string }) {
 
             {/* Desktop sidebar */}
             <aside className="hidden md:flex md:flex-col md:w-64 bg-muted/40 border-r md:min-h-screen p-6 gap-4">
-                <SidebarContent username={username} t={t} />
+                <SidebarContent username={username} role={role} capabilities={capabilities} t={t} />
             </aside>
         </>
     )
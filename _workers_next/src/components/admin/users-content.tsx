@@ -9,8 +9,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
-import { saveUserPoints, toggleBlock } from "@/actions/admin-users"
-import { Loader2, Search, ArrowLeft, ArrowRight, Edit, Ban, CheckCircle } from "lucide-react"
+import { getUserPointsHistory, runPointsReconciliation, saveUserPoints, saveUserTag, toggleBlock } from "@/actions/admin-users"
+import { Loader2, Search, ArrowLeft, ArrowRight, Edit, Ban, CheckCircle, Tag, History } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { ClientDate } from "@/components/client-date"
+import type { PointsReconcileResult } from "@/lib/points"
 
 interface User {
     userId: string
@@ -20,6 +23,7 @@ interface User {
     createdAt: Date | null
     orderCount: number
     isBlocked: boolean
+    tag?: string | null
 }
 
 interface UsersContentProps {
@@ -29,9 +33,12 @@ interface UsersContentProps {
         page: number
         pageSize: number
     }
+    reconcile?: PointsReconcileResult | null
 }
 
-export function UsersContent({ data }: UsersContentProps) {
+type HistoryItem = Awaited<ReturnType<typeof getUserPointsHistory>>[number]
+
+export function UsersContent({ data, reconcile }: UsersContentProps) {
     const { t } = useI18n()
     const router = useRouter()
     const searchParams = useSearchParams()
@@ -47,6 +54,14 @@ export function UsersContent({ data }: UsersContentProps) {
     const [blockingId, setBlockingId] = useState<string | null>(null)
     const blockLock = useRef<string | null>(null)
 
+    // Points history state
+    const [historyUser, setHistoryUser] = useState<User | null>(null)
+    const [history, setHistory] = useState<HistoryItem[]>([])
+    const [historyLoading, setHistoryLoading] = useState(false)
+    const [reconciling, setReconciling] = useState(false)
+
+    const mismatches = new Map((reconcile?.mismatches || []).map((m) => [m.userId, m]))
+
     const handleSearch = (e: React.FormEvent) => {
         e.preventDefault()
         setIsSearching(true)
@@ -90,6 +105,44 @@ export function UsersContent({ data }: UsersContentProps) {
         }
     }
 
+    const handleEditTag = async (user: User) => {
+        const next = window.prompt(t('admin.users.tagPrompt'), user.tag || '')
+        if (next === null) return
+        try {
+            await saveUserTag(user.userId, next)
+            toast.success(t('common.success'))
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        }
+    }
+
+    const openHistory = async (user: User) => {
+        setHistoryUser(user)
+        setHistory([])
+        setHistoryLoading(true)
+        try {
+            setHistory(await getUserPointsHistory(user.userId))
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setHistoryLoading(false)
+        }
+    }
+
+    const handleReconcile = async () => {
+        setReconciling(true)
+        try {
+            const result = await runPointsReconciliation()
+            toast.success(t('admin.users.ledger.checked', { count: result.mismatches.length }))
+            router.refresh()
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setReconciling(false)
+        }
+    }
+
     const handleToggleBlock = async (user: User) => {
         if (blockLock.current === user.userId) return
         const action = user.isBlocked ? 'unblock' : 'block'
@@ -132,6 +185,19 @@ export function UsersContent({ data }: UsersContentProps) {
                         {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : t('admin.users.search')}
                     </Button>
                 </form>
+                <div className="ml-auto flex items-center gap-3 text-xs text-muted-foreground">
+                    {reconcile && (
+                        <span className={reconcile.mismatches.length ? "text-destructive" : undefined}>
+                            {t('admin.users.ledger.summary', { count: reconcile.mismatches.length })}
+                            {' · '}
+                            <ClientDate value={new Date(reconcile.checkedAt)} format="dateTime" />
+                        </span>
+                    )}
+                    <Button variant="outline" size="sm" onClick={handleReconcile} disabled={reconciling}>
+                        {reconciling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('admin.users.ledger.run')}
+                    </Button>
+                </div>
             </div>
 
             <div className="rounded-md border bg-card">
@@ -140,6 +206,7 @@ export function UsersContent({ data }: UsersContentProps) {
                         <TableRow>
                             <TableHead>{t('admin.users.userId')}</TableHead>
                             <TableHead>{t('admin.users.username')}</TableHead>
+                            <TableHead>{t('admin.users.tag')}</TableHead>
                             <TableHead>{t('admin.users.points')}</TableHead>
                             <TableHead>{t('admin.users.orders')}</TableHead>
                             <TableHead>{t('admin.users.lastLogin')}</TableHead>
@@ -150,7 +217,7 @@ export function UsersContent({ data }: UsersContentProps) {
                     <TableBody>
                         {data.items.length === 0 ? (
                             <TableRow>
-                                <TableCell colSpan={7} className="text-center h-24 text-muted-foreground">
+                                <TableCell colSpan={8} className="text-center h-24 text-muted-foreground">
                                     {t('search.noResults')}
                                 </TableCell>
                             </TableRow>
@@ -159,7 +226,21 @@ export function UsersContent({ data }: UsersContentProps) {
                                 <TableRow key={user.userId}>
                                     <TableCell className="font-mono text-xs">{user.userId}</TableCell>
                                     <TableCell>{user.username || '-'}</TableCell>
-                                    <TableCell className="font-bold">{user.points}</TableCell>
+                                    <TableCell>
+                                        {user.tag ? <Badge variant="secondary">{user.tag}</Badge> : <span className="text-muted-foreground">-</span>}
+                                    </TableCell>
+                                    <TableCell className="font-bold">
+                                        {user.points}
+                                        {mismatches.has(user.userId) && (
+                                            <Badge
+                                                variant="destructive"
+                                                className="ml-2 text-[10px]"
+                                                title={t('admin.users.ledger.mismatchHint', { ledger: mismatches.get(user.userId)!.ledger })}
+                                            >
+                                                {t('admin.users.ledger.mismatch')}
+                                            </Badge>
+                                        )}
+                                    </TableCell>
                                     <TableCell>{user.orderCount}</TableCell>
                                     <TableCell className="text-muted-foreground text-xs">
                                         {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleDateString() : '-'}
@@ -176,6 +257,22 @@ export function UsersContent({ data }: UsersContentProps) {
                                             <Edit className="h-4 w-4 mr-2" />
                                             {t('admin.users.editPoints')}
                                         </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => openHistory(user)}
+                                            title={t('admin.users.ledger.history')}
+                                        >
+                                            <History className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleEditTag(user)}
+                                            title={t('admin.users.editTag')}
+                                        >
+                                            <Tag className="h-4 w-4" />
+                                        </Button>
                                         <Button
                                             variant={user.isBlocked ? "default" : "destructive"}
                                             size="sm"
@@ -254,6 +351,57 @@ export function UsersContent({ data }: UsersContentProps) {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {/* Points History Dialog */}
+            <Dialog open={!!historyUser} onOpenChange={(open) => !open && setHistoryUser(null)}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {t('admin.users.ledger.history')}
+                            {historyUser && <span className="ml-2 text-sm font-normal text-muted-foreground">{historyUser.username || historyUser.userId}</span>}
+                        </DialogTitle>
+                    </DialogHeader>
+                    {historyLoading ? (
+                        <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin" /></div>
+                    ) : history.length === 0 ? (
+                        <div className="py-8 text-center text-sm text-muted-foreground">{t('admin.users.ledger.empty')}</div>
+                    ) : (
+                        <div className="max-h-[60vh] overflow-y-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>{t('admin.users.ledger.date')}</TableHead>
+                                        <TableHead>{t('admin.users.ledger.reason')}</TableHead>
+                                        <TableHead className="text-right">{t('admin.users.ledger.delta')}</TableHead>
+                                        <TableHead className="text-right">{t('admin.users.ledger.balance')}</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {history.map((item) => (
+                                        <TableRow key={item.id}>
+                                            <TableCell className="text-xs text-muted-foreground">
+                                                <ClientDate value={item.createdAt} format="dateTime" />
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                <div>{t(`points.reasons.${item.reason}`)}</div>
+                                                <div className="text-xs text-muted-foreground">
+                                                    {item.actor}
+                                                    {item.orderId && <span className="ml-2 font-mono">{item.orderId}</span>}
+                                                </div>
+                                                {item.note && <div className="text-xs text-muted-foreground break-words">{item.note}</div>}
+                                            </TableCell>
+                                            <TableCell className={`text-right font-mono ${item.delta < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                                                {item.delta > 0 ? `+${item.delta}` : item.delta}
+                                            </TableCell>
+                                            <TableCell className="text-right font-mono text-muted-foreground">{item.balanceAfter ?? '-'}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
         </div>
     )
 }
@@ -10,10 +10,14 @@ import { Label } from "@/components/ui/label"
 import { Loader2, Coins } from "lucide-react"
 import { toast } from "sonner"
 import { useI18n } from "@/lib/i18n/context"
+import { CouponField, type AppliedCoupon } from "@/components/coupon-field"
 
 interface BuyButtonProps {
     productId: string
+    variantId?: number | null
     price: string | number
+    /** Member discount percent the server will apply before coupons */
+    memberPercentOff?: number
     productName: string
     disabled?: boolean
     quantity?: number
@@ -21,7 +25,7 @@ interface BuyButtonProps {
     emailEnabled?: boolean
 }
 
-export function BuyButton({ productId, price, productName, disabled, quantity = 1, autoOpen = false, emailEnabled = true }: BuyButtonProps) {
+export function BuyButton({ productId, variantId, price, memberPercentOff = 0, productName, disabled, quantity = 1, autoOpen = false, emailEnabled = true }: BuyButtonProps) {
     const [loading, setLoading] = useState(false)
     const [open, setOpen] = useState(false)
     const [points, setPoints] = useState(0)
@@ -29,6 +33,7 @@ export function BuyButton({ productId, price, productName, disabled, quantity =
     const [pointsLoading, setPointsLoading] = useState(false)
     const [hasAutoOpened, setHasAutoOpened] = useState(false)
     const [email, setEmail] = useState('')
+    const [coupon, setCoupon] = useState<AppliedCoupon | null>(null)
     const isNavigatingRef = useRef(false)
     const { t } = useI18n()
 
@@ -65,7 +70,7 @@ export function BuyButton({ productId, price, productName, disabled, quantity =
 
         try {
             setLoading(true)
-            const result = await createOrder(productId, quantity, emailEnabled ? email : '', usePoints)
+            const result = await createOrder(productId, quantity, emailEnabled ? email : '', usePoints && (coupon?.allowPoints ?? true), coupon?.code, variantId)
 
             if (!result?.success) {
                 const message = result?.error ? t(result.error) : t('common.error')
@@ -121,8 +126,13 @@ export function BuyButton({ productId, price, productName, disabled, quantity =
     }
 
     // Calculation for UI
-    const pointsToUse = usePoints ? Math.min(points, Math.ceil(numericalPrice)) : 0
-    const finalPrice = Math.max(0, numericalPrice - pointsToUse)
+    const memberDiscount = Math.round(numericalPrice * memberPercentOff) / 100
+    const afterMember = Math.max(0, numericalPrice - memberDiscount)
+    const discount = coupon ? Math.min(coupon.discount, afterMember) : 0
+    const afterDiscount = Math.max(0, afterMember - discount)
+    const canUsePoints = coupon?.allowPoints ?? true
+    const pointsToUse = usePoints && canUsePoints ? Math.min(points, Math.ceil(afterDiscount)) : 0
+    const finalPrice = Math.max(0, afterDiscount - pointsToUse)
 
     return (
         <>
@@ -161,7 +171,31 @@ export function BuyButton({ productId, price, productName, disabled, quantity =
                         </div>
                     )}
 
-                        {points > 0 && (
+                        <CouponField
+                            id="coupon-code"
+                            productId={productId}
+                            variantId={variantId}
+                            quantity={quantity}
+                            email={emailEnabled ? email : ''}
+                            applied={coupon}
+                            onChange={setCoupon}
+                        />
+
+                        {memberDiscount > 0 && (
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-muted-foreground">{t('buy.memberDiscount')}</span>
+                                <span className="text-green-600">-{memberDiscount.toFixed(2)}</span>
+                            </div>
+                        )}
+
+                        {discount > 0 && (
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-muted-foreground">{t('coupon.discount')}</span>
+                                <span className="text-green-600">-{discount.toFixed(2)}</span>
+                            </div>
+                        )}
+
+                        {points > 0 && canUsePoints && (
                             <div className="flex items-center space-x-2 border p-3 rounded-md">
                                 <input
                                     type="checkbox"
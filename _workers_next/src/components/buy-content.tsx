@@ -6,11 +6,13 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/componen
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { BuyButton } from "@/components/buy-button"
+import { AddToCartButton } from "@/components/add-to-cart-button"
 import { StarRating } from "@/components/star-rating"
 import { ReviewForm } from "@/components/review-form"
 import { ReviewList } from "@/components/review-list"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import {
     Dialog,
     DialogContent,
@@ -24,6 +26,9 @@ import { Loader2, Minus, Plus, Share2 } from "lucide-react"
 import { toast } from "sonner"
 import Image from "next/image"
 import { INFINITE_STOCK } from "@/lib/constants"
+import { priceTierRanges, resolveUnitPrice, type PriceTier } from "@/lib/pricing"
+import { flashSalePrice, type FlashSaleState } from "@/lib/flash-sale"
+import { FlashSaleCountdown } from "@/components/flash-sale-countdown"
 
 interface Product {
     id: string
@@ -36,6 +41,17 @@ interface Product {
     purchaseLimit?: number | null
     purchaseWarning?: string | null
     isHot?: boolean | null
+    soldOutState?: string | null
+}
+
+export interface BuyVariant {
+    id: number
+    name: string
+    price: string
+    compareAtPrice?: string | null
+    purchaseLimit?: number | null
+    stockCount: number
+    lockedCount: number
 }
 
 interface Review {
@@ -48,6 +64,10 @@ interface Review {
 
 interface BuyContentProps {
     product: Product
+    variants?: BuyVariant[]
+    priceTiers?: PriceTier[]
+    flashSale?: FlashSaleState | null
+    memberDiscount?: { percentOff: number; name: string } | null
     stockCount: number
     lockedStockCount?: number
     isLoggedIn: boolean
@@ -57,25 +77,52 @@ interface BuyContentProps {
     canReview?: boolean
     reviewOrderId?: string
     emailEnabled?: boolean
+    cartEnabled?: boolean
 }
 
 export function BuyContent({
     product,
-    stockCount,
-    lockedStockCount = 0,
+    variants = [],
+    priceTiers = [],
+    flashSale = null,
+    memberDiscount = null,
+    stockCount: productStockCount,
+    lockedStockCount: productLockedCount = 0,
     isLoggedIn,
     reviews = [],
     averageRating = 0,
     reviewCount = 0,
     canReview = false,
     reviewOrderId,
-    emailEnabled = true
+    emailEnabled = true,
+    cartEnabled = false
 }: BuyContentProps) {
     const { t } = useI18n()
     const [shareUrl, setShareUrl] = useState('')
     const [quantity, setQuantity] = useState(1)
     const [showWarningDialog, setShowWarningDialog] = useState(false)
     const [warningConfirmed, setWarningConfirmed] = useState(false)
+    const [selectedVariantId, setSelectedVariantId] = useState<number | null>(
+        () => (variants.find((v) => v.stockCount > 0) || variants[0])?.id ?? null
+    )
+
+    // The selected variant overrides the product's price, limit and stock
+    const selectedVariant = variants.find((v) => v.id === selectedVariantId) || null
+    const price = selectedVariant ? selectedVariant.price : product.price
+    const compareAtPrice = selectedVariant ? selectedVariant.compareAtPrice : product.compareAtPrice
+    const purchaseLimit = selectedVariant?.purchaseLimit && selectedVariant.purchaseLimit > 0
+        ? selectedVariant.purchaseLimit
+        : product.purchaseLimit
+    const stockCount = selectedVariant ? selectedVariant.stockCount : productStockCount
+    const lockedStockCount = selectedVariant ? selectedVariant.lockedCount : productLockedCount
+    const orderName = selectedVariant ? `${product.name} - ${selectedVariant.name}` : product.name
+    // A running flash sale replaces the price and the volume tiers
+    const onFlashSale = flashSale?.status === 'active'
+    const unitPrice = onFlashSale ? flashSalePrice(price, flashSale) : resolveUnitPrice(price, priceTiers, quantity)
+    const tierRanges = priceTiers.length && !onFlashSale ? priceTierRanges(price, priceTiers) : []
+    const memberPercentOff = memberDiscount?.percentOff || 0
+    const subtotal = unitPrice * quantity
+    const total = subtotal - Math.round(subtotal * memberPercentOff) / 100
 
     useEffect(() => {
         if (typeof window !== 'undefined') {
@@ -135,11 +182,15 @@ export function BuyContent({
                             </div>
                             <div className="text-right shrink-0">
                                 <div className="text-4xl font-semibold text-foreground">
-                                    {Number(product.price)}
+                                    {onFlashSale ? unitPrice : Number(price)}
                                 </div>
-                                {product.compareAtPrice && Number(product.compareAtPrice) > Number(product.price) && (
+                                {onFlashSale ? (
+                                    <div className="text-sm text-muted-foreground line-through">
+                                        {Number(price)}
+                                    </div>
+                                ) : compareAtPrice && Number(compareAtPrice) > Number(price) && (
                                     <div className="text-sm text-muted-foreground line-through">
-                                        {Number(product.compareAtPrice)}
+                                        {Number(compareAtPrice)}
                                     </div>
                                 )}
                                 <span className="text-sm text-muted-foreground">{t('common.credits')}</span>
@@ -148,11 +199,29 @@ export function BuyContent({
                                         variant={stockCount > 0 ? "outline" : "destructive"}
                                         className={stockCount > 0 ? "border-primary/30 text-primary" : ""}
                                     >
-                                        {stockCount >= INFINITE_STOCK ? `${t('common.stock')}: ${t('common.unlimited')}` : (stockCount > 0 ? `${t('common.stock')}: ${stockCount}` : t('common.outOfStock'))}
+                                        {stockCount >= INFINITE_STOCK ? `${t('common.stock')}: ${t('common.unlimited')}` : (stockCount > 0 ? `${t('common.stock')}: ${stockCount}` : (product.soldOutState === 'restocking' ? t('common.restocking') : t('common.outOfStock')))}
                                     </Badge>
-                                    {typeof product.purchaseLimit === 'number' && product.purchaseLimit > 0 && (
+                                    {flashSale && (flashSale.status === 'active' || flashSale.status === 'upcoming') && (
+                                        <div className="mt-2 flex flex-col items-end gap-1 text-xs">
+                                            <Badge variant="default" className="bg-destructive/15 text-destructive border border-destructive/30">
+                                                {flashSale.status === 'active'
+                                                    ? t('flashSale.badge')
+                                                    : t('flashSale.upcomingPrice', { price: Number(flashSale.price) })}
+                                            </Badge>
+                                            <FlashSaleCountdown sale={flashSale} className="text-muted-foreground" />
+                                            {flashSale.status === 'active' && flashSale.remaining !== null && (
+                                                <span className="text-muted-foreground">{t('flashSale.remaining', { count: flashSale.remaining })}</span>
+                                            )}
+                                        </div>
+                                    )}
+                                    {memberDiscount && (
+                                        <Badge variant="default" className="mt-2 ml-1 bg-primary/15 text-primary border border-primary/30" title={memberDiscount.name}>
+                                            {t('buy.memberPrice', { price: (Math.round(Number(unitPrice) * (100 - memberPercentOff)) / 100).toString(), percent: memberPercentOff })}
+                                        </Badge>
+                                    )}
+                                    {typeof purchaseLimit === 'number' && purchaseLimit > 0 && (
                                         <Badge variant="secondary" className="mt-2">
-                                            {t('buy.purchaseLimit', { limit: product.purchaseLimit })}
+                                            {t('buy.purchaseLimit', { limit: purchaseLimit })}
                                         </Badge>
                                     )}
                                 </div>
@@ -178,6 +247,39 @@ export function BuyContent({
 
 
 
+                        {tierRanges.length > 0 && (
+                            <div className="space-y-3">
+                                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+                                    {t('buy.priceTiers')}
+                                </h3>
+                                <div className="overflow-hidden rounded-xl border border-border/30">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>{t('buy.tierQuantity')}</TableHead>
+                                                <TableHead className="text-right">{t('buy.tierUnitPrice')}</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {tierRanges.map((tier) => {
+                                                const active = quantity >= tier.minQuantity && (tier.maxQuantity === null || quantity <= tier.maxQuantity)
+                                                return (
+                                                    <TableRow key={tier.minQuantity} className={active ? "bg-primary/10 text-primary font-medium" : ""}>
+                                                        <TableCell>
+                                                            {tier.maxQuantity === null
+                                                                ? `${tier.minQuantity}+`
+                                                                : (tier.maxQuantity === tier.minQuantity ? tier.minQuantity : `${tier.minQuantity} - ${tier.maxQuantity}`)}
+                                                        </TableCell>
+                                                        <TableCell className="text-right">{Number(tier.price)}</TableCell>
+                                                    </TableRow>
+                                                )
+                                            })}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Description */}
                         <div className="space-y-4">
                             <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
@@ -194,6 +296,32 @@ export function BuyContent({
                     <Separator className="bg-border/20" />
 
                     <CardFooter className="pt-6 flex flex-col gap-3">
+                        {variants.length > 0 && (
+                            <div className="w-full space-y-2">
+                                <div className="text-sm font-medium text-muted-foreground">{t('buy.variant')}</div>
+                                <div className="flex flex-wrap gap-2">
+                                    {variants.map((variant) => {
+                                        const soldOut = variant.stockCount <= 0
+                                        return (
+                                            <Button
+                                                key={variant.id}
+                                                type="button"
+                                                size="sm"
+                                                variant={variant.id === selectedVariantId ? "default" : "outline"}
+                                                className={soldOut ? "opacity-60" : ""}
+                                                onClick={() => {
+                                                    setSelectedVariantId(variant.id)
+                                                    setQuantity(1)
+                                                }}
+                                            >
+                                                {variant.name}
+                                                {soldOut && <span className="ml-1 text-xs">({t('common.outOfStock')})</span>}
+                                            </Button>
+                                        )
+                                    })}
+                                </div>
+                            </div>
+                        )}
                         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4">
                             <div className="flex-1">
                                 {isLoggedIn ? (
@@ -217,8 +345,8 @@ export function BuyContent({
                                                             const val = parseInt(e.target.value) || 1
                                                             // For shared products (infinite stock), max is only limited by purchaseLimit
                                                             const maxStock = stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount)
-                                                            const max = product.purchaseLimit && product.purchaseLimit > 0
-                                                                ? Math.min(maxStock, product.purchaseLimit)
+                                                            const max = purchaseLimit && purchaseLimit > 0
+                                                                ? Math.min(maxStock, purchaseLimit)
                                                                 : maxStock
 
                                                             if (val >= 1 && val <= max) {
@@ -230,7 +358,7 @@ export function BuyContent({
                                                             if (isNaN(val) || val < 1) val = 1
 
                                                             const maxStock = stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount)
-                                                            const limit = product.purchaseLimit && product.purchaseLimit > 0 ? product.purchaseLimit : INFINITE_STOCK
+                                                            const limit = purchaseLimit && purchaseLimit > 0 ? purchaseLimit : INFINITE_STOCK
                                                             const max = Math.min(maxStock, limit)
 
                                                             if (val > max) {
@@ -243,8 +371,8 @@ export function BuyContent({
                                                         className="w-16 h-8 rounded-none border-x-0 text-center px-1 focus-visible:ring-0 focus-visible:border-primary"
                                                         min={1}
                                                         max={
-                                                            product.purchaseLimit && product.purchaseLimit > 0
-                                                                ? Math.min(stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount), product.purchaseLimit)
+                                                            purchaseLimit && purchaseLimit > 0
+                                                                ? Math.min(stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount), purchaseLimit)
                                                                 : (stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount))
                                                         }
                                                     />
@@ -254,7 +382,7 @@ export function BuyContent({
                                                         className="h-8 w-8 rounded-none border-l border-border"
                                                         onClick={() => {
                                                             const maxStock = stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount)
-                                                            const limit = product.purchaseLimit && product.purchaseLimit > 0 ? product.purchaseLimit : INFINITE_STOCK
+                                                            const limit = purchaseLimit && purchaseLimit > 0 ? purchaseLimit : INFINITE_STOCK
                                                             const max = Math.min(maxStock, limit)
 
                                                             if (quantity < max) {
@@ -262,8 +390,8 @@ export function BuyContent({
                                                             }
                                                         }}
                                                         disabled={
-                                                            quantity >= (product.purchaseLimit && product.purchaseLimit > 0
-                                                                ? Math.min(stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount), product.purchaseLimit)
+                                                            quantity >= (purchaseLimit && purchaseLimit > 0
+                                                                ? Math.min(stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount), purchaseLimit)
                                                                 : (stockCount >= INFINITE_STOCK ? INFINITE_STOCK : (stockCount - lockedStockCount)))
                                                         }
                                                     >
@@ -271,52 +399,60 @@ export function BuyContent({
                                                     </Button>
                                                 </div>
                                                 <div className="text-sm font-medium text-muted-foreground">
-                                                    {t('buy.modal.total')}: <span className="text-primary font-bold">{(Number(product.price) * quantity).toFixed(2)}</span>
+                                                    {t('buy.modal.total')}: <span className="text-primary font-bold">{total.toFixed(2)}</span>
                                                 </div>
                                             </div>
-                                            {/* Purchase Warning Dialog */}
-                                            {product.purchaseWarning && !warningConfirmed ? (
-                                                <Dialog open={showWarningDialog} onOpenChange={setShowWarningDialog}>
-                                                    <DialogTrigger asChild>
-                                                        <Button size="lg" className="w-full md:w-auto bg-primary text-primary-foreground hover:bg-primary/90">
-                                                            {t('common.buyNow')}
-                                                        </Button>
-                                                    </DialogTrigger>
-                                                    <DialogContent>
-                                                        <DialogHeader>
-                                                            <DialogTitle className="flex items-center gap-2 text-amber-600">
-                                                                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                                                                </svg>
-                                                                {t('buy.warningTitle')}
-                                                            </DialogTitle>
-                                                        </DialogHeader>
-                                                        <div className="py-4 text-sm whitespace-pre-wrap">
-                                                            {product.purchaseWarning}
-                                                        </div>
-                                                        <div className="flex gap-2 justify-end">
-                                                            <Button variant="outline" onClick={() => setShowWarningDialog(false)}>
-                                                                {t('common.cancel')}
-                                                            </Button>
-                                                            <Button onClick={() => {
-                                                                setWarningConfirmed(true)
-                                                                setShowWarningDialog(false)
-                                                            }} className="bg-primary text-primary-foreground hover:bg-primary/90">
-                                                                {t('buy.confirmWarning')}
+                                            <div className="flex flex-col sm:flex-row gap-3">
+                                                {/* Purchase Warning Dialog */}
+                                                {product.purchaseWarning && !warningConfirmed ? (
+                                                    <Dialog open={showWarningDialog} onOpenChange={setShowWarningDialog}>
+                                                        <DialogTrigger asChild>
+                                                            <Button size="lg" className="w-full md:w-auto bg-primary text-primary-foreground hover:bg-primary/90">
+                                                                {t('common.buyNow')}
                                                             </Button>
-                                                        </div>
-                                                    </DialogContent>
-                                                </Dialog>
-                                            ) : (
-                                                <BuyButton
-                                                    productId={product.id}
-                                                    price={product.price}
-                                                    productName={product.name}
-                                                    quantity={quantity}
-                                                    autoOpen={warningConfirmed && !!product.purchaseWarning}
-                                                    emailEnabled={emailEnabled}
-                                                />
-                                            )}
+                                                        </DialogTrigger>
+                                                        <DialogContent>
+                                                            <DialogHeader>
+                                                                <DialogTitle className="flex items-center gap-2 text-amber-600">
+                                                                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                                                                    </svg>
+                                                                    {t('buy.warningTitle')}
+                                                                </DialogTitle>
+                                                            </DialogHeader>
+                                                            <div className="py-4 text-sm whitespace-pre-wrap">
+                                                                {product.purchaseWarning}
+                                                            </div>
+                                                            <div className="flex gap-2 justify-end">
+                                                                <Button variant="outline" onClick={() => setShowWarningDialog(false)}>
+                                                                    {t('common.cancel')}
+                                                                </Button>
+                                                                <Button onClick={() => {
+                                                                    setWarningConfirmed(true)
+                                                                    setShowWarningDialog(false)
+                                                                }} className="bg-primary text-primary-foreground hover:bg-primary/90">
+                                                                    {t('buy.confirmWarning')}
+                                                                </Button>
+                                                            </div>
+                                                        </DialogContent>
+                                                    </Dialog>
+                                                ) : (
+                                                    <BuyButton
+                                                        key={selectedVariantId ?? 'product'}
+                                                        productId={product.id}
+                                                        variantId={selectedVariantId}
+                                                        price={unitPrice}
+                                                        memberPercentOff={memberPercentOff}
+                                                        productName={orderName}
+                                                        quantity={quantity}
+                                                        autoOpen={warningConfirmed && !!product.purchaseWarning}
+                                                        emailEnabled={emailEnabled}
+                                                    />
+                                                )}
+                                                {cartEnabled && (
+                                                    <AddToCartButton productId={product.id} quantity={quantity} />
+                                                )}
+                                            </div>
                                         </div>
                                     ) : (
                                         lockedStockCount > 0 ? (
@@ -333,7 +469,7 @@ export function BuyContent({
                                                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                                                 </svg>
-                                                <p className="font-medium">{t('buy.outOfStockMessage')}</p>
+                                                <p className="font-medium">{product.soldOutState === 'restocking' ? t('buy.restockingMessage') : t('buy.outOfStockMessage')}</p>
                                             </div>
                                         )
                                     )
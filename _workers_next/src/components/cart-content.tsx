@@ -0,0 +1,310 @@
+'use client'
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Coins, Loader2, Minus, Package, Plus, ShoppingCart, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { updateCartItem, removeFromCart, clearCart } from "@/actions/cart"
+import { checkoutCart } from "@/actions/checkout"
+import { getUserPoints } from "@/actions/points"
+import { INFINITE_STOCK } from "@/lib/constants"
+import { CouponField, type AppliedCoupon } from "@/components/coupon-field"
+
+interface CartItem {
+    id: number
+    productId: string
+    name: string
+    price: string
+    basePrice?: string
+    memberPercentOff?: number
+    image: string | null
+    quantity: number
+    purchaseLimit: number | null
+    available: boolean
+    stock: number
+}
+
+interface CartContentProps {
+    items: CartItem[]
+    isLoggedIn: boolean
+    emailEnabled?: boolean
+}
+
+export function CartContent({ items, isLoggedIn, emailEnabled = true }: CartContentProps) {
+    const { t } = useI18n()
+    const router = useRouter()
+    const [pendingId, setPendingId] = useState<number | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [email, setEmail] = useState('')
+    const [points, setPoints] = useState(0)
+    const [usePoints, setUsePoints] = useState(false)
+    const [coupon, setCoupon] = useState<AppliedCoupon | null>(null)
+    const isNavigatingRef = useRef(false)
+
+    useEffect(() => {
+        if (!isLoggedIn) return
+        getUserPoints().then(setPoints).catch(() => setPoints(0))
+    }, [isLoggedIn])
+
+    const subtotal = items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0)
+    const memberDiscount = items.reduce((sum, item) => (
+        sum + Math.round(Number(item.price) * item.quantity * (item.memberPercentOff || 0)) / 100
+    ), 0)
+    const afterMember = Math.max(0, subtotal - memberDiscount)
+    const discount = coupon ? Math.min(coupon.discount, afterMember) : 0
+    const afterDiscount = Math.max(0, afterMember - discount)
+    const canUsePoints = coupon?.allowPoints ?? true
+    const pointsToUse = usePoints && canUsePoints ? Math.min(points, Math.ceil(afterDiscount)) : 0
+    const finalPrice = Math.max(0, afterDiscount - pointsToUse)
+    const hasProblem = items.some((item) => !item.available || (item.stock < INFINITE_STOCK && item.quantity > item.stock))
+
+    const maxFor = (item: CartItem) => {
+        const limit = item.purchaseLimit && item.purchaseLimit > 0 ? item.purchaseLimit : INFINITE_STOCK
+        return Math.max(1, Math.min(limit, item.stock))
+    }
+
+    const handleQuantity = async (item: CartItem, quantity: number) => {
+        if (quantity < 1 || quantity > maxFor(item)) return
+        setPendingId(item.id)
+        try {
+            const result = await updateCartItem(item.id, quantity)
+            setCoupon(null)
+            if (!result?.success) {
+                toast.error(result?.error ? t(result.error) : t('common.error'))
+                return
+            }
+            router.refresh()
+        } finally {
+            setPendingId(null)
+        }
+    }
+
+    const handleRemove = async (item: CartItem) => {
+        setPendingId(item.id)
+        try {
+            await removeFromCart(item.id)
+            setCoupon(null)
+            router.refresh()
+        } finally {
+            setPendingId(null)
+        }
+    }
+
+    const handleClear = async () => {
+        if (!confirm(t('cart.confirmClear'))) return
+        await clearCart()
+        router.refresh()
+    }
+
+    const handleCheckout = async () => {
+        if (isNavigatingRef.current) return
+        setLoading(true)
+        try {
+            const result = await checkoutCart(emailEnabled ? email : '', usePoints && canUsePoints, coupon?.code)
+
+            if (!result?.success) {
+                toast.error(result?.error ? t(result.error) : t('common.error'))
+                setLoading(false)
+                return
+            }
+
+            if (result.isZeroPrice && result.url) {
+                isNavigatingRef.current = true
+                toast.success(t('buy.paymentSuccessPoints'))
+                window.location.href = result.url
+                return
+            }
+
+            if (!result.params) {
+                toast.error(t('common.error'))
+                setLoading(false)
+                return
+            }
+
+            isNavigatingRef.current = true
+            const form = document.createElement('form')
+            form.method = 'POST'
+            form.action = '/paying'
+            Object.entries(result.params as Record<string, any>).forEach(([k, v]) => {
+                const input = document.createElement('input')
+                input.type = 'hidden'
+                input.name = k
+                input.value = String(v)
+                form.appendChild(input)
+            })
+            document.body.appendChild(form)
+            form.submit()
+        } catch (e: any) {
+            if (!isNavigatingRef.current) {
+                toast.error(e.message || t('common.error'))
+                setLoading(false)
+            }
+        }
+    }
+
+    if (items.length === 0) {
+        return (
+            <main className="container py-12 max-w-3xl">
+                <Card className="tech-card">
+                    <CardContent className="py-16 flex flex-col items-center gap-4 text-center">
+                        <ShoppingCart className="h-10 w-10 text-muted-foreground" />
+                        <p className="text-muted-foreground">{t('cart.empty')}</p>
+                        <Link href="/">
+                            <Button variant="outline">{t('cart.continueShopping')}</Button>
+                        </Link>
+                    </CardContent>
+                </Card>
+            </main>
+        )
+    }
+
+    return (
+        <main className="container py-12 max-w-3xl">
+            <Card className="tech-card">
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-xl">{t('cart.title')}</CardTitle>
+                    <Button variant="ghost" size="sm" onClick={handleClear}>
+                        {t('cart.clear')}
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {items.map((item) => {
+                        const busy = pendingId === item.id
+                        const outOfStock = item.stock < INFINITE_STOCK && item.quantity > item.stock
+                        return (
+                            <div key={item.id} className="flex items-center gap-4 p-3 rounded-xl border border-border/30 bg-muted/20">
+                                <div className="h-14 w-14 shrink-0 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
+                                    {item.image ? (
+                                        <img src={item.image} alt={item.name} className="h-full w-full object-cover" />
+                                    ) : (
+                                        <Package className="h-5 w-5 text-muted-foreground" />
+                                    )}
+                                </div>
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <Link href={`/buy/${item.productId}`} className="font-medium truncate block hover:text-primary">
+                                        {item.name}
+                                    </Link>
+                                    <p className="text-xs text-muted-foreground">
+                                        {Number(item.price).toFixed(2)}
+                                        {item.basePrice && Number(item.basePrice) > Number(item.price) && (
+                                            <span className="ml-1 line-through">{Number(item.basePrice).toFixed(2)}</span>
+                                        )}
+                                    </p>
+                                    {!item.available && <p className="text-xs text-destructive">{t('cart.unavailable')}</p>}
+                                    {item.available && outOfStock && <p className="text-xs text-destructive">{t('buy.outOfStock')}</p>}
+                                </div>
+                                <div className="flex items-center border border-border rounded-md">
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 rounded-none border-r border-border"
+                                        onClick={() => handleQuantity(item, item.quantity - 1)}
+                                        disabled={busy || item.quantity <= 1}
+                                    >
+                                        <Minus className="h-4 w-4" />
+                                    </Button>
+                                    <span className="w-10 text-center text-sm">{item.quantity}</span>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 rounded-none border-l border-border"
+                                        onClick={() => handleQuantity(item, item.quantity + 1)}
+                                        disabled={busy || item.quantity >= maxFor(item)}
+                                    >
+                                        <Plus className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <div className="w-20 text-right font-semibold">
+                                    {(Number(item.price) * item.quantity).toFixed(2)}
+                                </div>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemove(item)} disabled={busy}>
+                                    {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                </Button>
+                            </div>
+                        )
+                    })}
+
+                    <Separator className="bg-border/20" />
+
+                    {emailEnabled && (
+                        <div className="floating-field">
+                            <Input
+                                id="cart-email"
+                                type="email"
+                                placeholder=" "
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                            />
+                            <Label htmlFor="cart-email" className="floating-label">{t('buy.modal.emailLabel')}</Label>
+                        </div>
+                    )}
+
+                    <CouponField
+                        id="cart-coupon-code"
+                        email={emailEnabled ? email : ''}
+                        applied={coupon}
+                        onChange={setCoupon}
+                    />
+
+                    {memberDiscount > 0 && (
+                        <div className="flex justify-between items-center text-sm">
+                            <span className="text-muted-foreground">{t('buy.memberDiscount')}</span>
+                            <span className="text-green-600">-{memberDiscount.toFixed(2)}</span>
+                        </div>
+                    )}
+
+                    {discount > 0 && (
+                        <div className="flex justify-between items-center text-sm">
+                            <span className="text-muted-foreground">{t('coupon.discount')}</span>
+                            <span className="text-green-600">-{discount.toFixed(2)}</span>
+                        </div>
+                    )}
+
+                    {points > 0 && canUsePoints && (
+                        <div className="flex items-center space-x-2 border p-3 rounded-md">
+                            <input
+                                type="checkbox"
+                                id="cart-use-points"
+                                checked={usePoints}
+                                onChange={(e) => setUsePoints(e.target.checked)}
+                                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                            />
+                            <Label htmlFor="cart-use-points" className="flex-1 flex justify-between cursor-pointer">
+                                <span className="flex items-center gap-1">
+                                    {t('buy.modal.usePoints')} <Coins className="w-3 h-3 text-yellow-500" />
+                                </span>
+                                <span className="text-muted-foreground">
+                                    {t('buy.modal.pointsDetails', { points: pointsToUse, available: points })}
+                                </span>
+                            </Label>
+                        </div>
+                    )}
+
+                    <div className="flex justify-between items-center pt-2 font-bold text-lg">
+                        <span>{t('buy.modal.total')}</span>
+                        <span>{finalPrice.toFixed(2)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t('buy.paymentTimeoutNotice')}</p>
+                </CardContent>
+                <CardFooter className="justify-end">
+                    <Button
+                        size="lg"
+                        onClick={handleCheckout}
+                        disabled={loading || hasProblem}
+                        className="bg-primary text-primary-foreground hover:bg-primary/90"
+                    >
+                        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {finalPrice === 0 ? t('buy.modal.payWithPoints') : t('cart.checkout')}
+                    </Button>
+                </CardFooter>
+            </Card>
+        </main>
+    )
+}
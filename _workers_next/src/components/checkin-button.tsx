@@ -51,7 +51,9 @@ export function CheckInButton({
         try {
             const res = await checkIn()
             if (res.success) {
-                toast.success(t('checkin.success', { points: res.points || 0 }))
+                toast.success(res.bonus
+                    ? t('checkin.successWithBonus', { points: res.points || 0, days: res.consecutiveDays || 0, bonus: res.bonus })
+                    : t('checkin.success', { points: res.points || 0 }))
                 setPoints(prev => {
                     const next = prev + (res.points || 0)
                     onPointsChange?.(next)
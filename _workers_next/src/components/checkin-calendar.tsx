@@ -0,0 +1,146 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { getCheckinCalendar, makeUpCheckIn } from "@/actions/points"
+import { toast } from "sonner"
+import { ChevronLeft, ChevronRight, Flame } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useI18n } from "@/lib/i18n/context"
+
+type CalendarData = Extract<Awaited<ReturnType<typeof getCheckinCalendar>>, { success: true }>
+
+function shiftMonth(month: string, delta: number) {
+    const [y, m] = month.split('-').map(Number)
+    const date = new Date(Date.UTC(y, m - 1 + delta, 1))
+    return date.toISOString().slice(0, 7)
+}
+
+export function CheckinCalendar({
+    refreshKey = 0,
+    onPointsChange,
+}: {
+    refreshKey?: number
+    onPointsChange?: (points: number) => void
+}) {
+    const { t, locale } = useI18n()
+    const [month, setMonth] = useState<string | undefined>(undefined)
+    const [data, setData] = useState<CalendarData | null>(null)
+    const [busyDay, setBusyDay] = useState<string | null>(null)
+
+    const load = async (target?: string) => {
+        try {
+            const res = await getCheckinCalendar(target)
+            if (res.success) setData(res)
+        } catch (e) {
+            console.error(e)
+        }
+    }
+
+    useEffect(() => {
+        void load(month)
+    }, [month, refreshKey])
+
+    if (!data) return null
+
+    const intlLocale = locale === 'zh' ? 'zh-CN' : 'en-US'
+    const [year, monthIndex] = data.month.split('-').map(Number)
+    const firstWeekday = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay()
+    const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()
+    const checked = new Map(data.days.map((d) => [d.day, d.makeUp]))
+    const weekdays = Array.from({ length: 7 }, (_, i) =>
+        new Intl.DateTimeFormat(intlLocale, { weekday: 'narrow', timeZone: 'UTC' }).format(new Date(Date.UTC(2024, 0, 7 + i)))
+    )
+    const monthLabel = new Intl.DateTimeFormat(intlLocale, { year: 'numeric', month: 'long', timeZone: 'UTC' })
+        .format(new Date(Date.UTC(year, monthIndex - 1, 1)))
+
+    const handleMakeUp = async (day: string) => {
+        if (!confirm(t('checkin.calendar.confirmMakeUp', { day, cost: data.makeUpCost }))) return
+        setBusyDay(day)
+        try {
+            const res = await makeUpCheckIn(day)
+            if (res.success) {
+                toast.success(res.bonus
+                    ? t('checkin.calendar.makeUpBonus', { days: res.consecutiveDays || 0, bonus: res.bonus })
+                    : t('checkin.calendar.makeUpDone', { days: res.consecutiveDays || 0 }))
+                if (typeof res.points === 'number') onPointsChange?.(res.points)
+                await load(data.month)
+            } else {
+                toast.error(res.error ? t(`checkin.${res.error}`) : t('checkin.failed'))
+            }
+        } catch {
+            toast.error(t('checkin.networkError'))
+        } finally {
+            setBusyDay(null)
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1 text-sm font-medium">
+                    <Flame className="h-4 w-4 text-orange-500" />
+                    {t('checkin.calendar.streak', { days: data.streak })}
+                </div>
+                <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setMonth(shiftMonth(data.month, -1))}>
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="text-sm tabular-nums min-w-24 text-center">{monthLabel}</span>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setMonth(shiftMonth(data.month, 1))}
+                        disabled={data.month >= data.today.slice(0, 7)}
+                    >
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                {weekdays.map((w, i) => (
+                    <div key={i} className="text-muted-foreground py-1">{w}</div>
+                ))}
+                {Array.from({ length: firstWeekday }, (_, i) => <div key={`blank-${i}`} />)}
+                {Array.from({ length: daysInMonth }, (_, i) => {
+                    const day = `${data.month}-${String(i + 1).padStart(2, '0')}`
+                    const isChecked = checked.has(day)
+                    const isMakeUp = checked.get(day) === true
+                    const canMakeUp = !isChecked && !!data.makeUpFrom && day >= data.makeUpFrom && day < data.today
+                    return (
+                        <button
+                            key={day}
+                            type="button"
+                            disabled={!canMakeUp || busyDay !== null}
+                            onClick={() => handleMakeUp(day)}
+                            title={canMakeUp ? t('checkin.calendar.makeUp', { cost: data.makeUpCost }) : undefined}
+                            className={cn(
+                                "h-8 rounded-md tabular-nums transition-colors",
+                                isChecked && !isMakeUp && "bg-amber-500 text-white",
+                                isMakeUp && "bg-amber-200 text-amber-900 dark:bg-amber-800 dark:text-amber-100",
+                                day === data.today && !isChecked && "ring-1 ring-amber-500",
+                                canMakeUp && "border border-dashed border-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/40",
+                                !isChecked && !canMakeUp && day > data.today && "text-muted-foreground/50",
+                                busyDay === day && "animate-pulse"
+                            )}
+                        >
+                            {i + 1}
+                        </button>
+                    )
+                })}
+            </div>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {data.streakBonuses.length > 0 && (
+                    <span>
+                        {t('checkin.calendar.bonuses')}{' '}
+                        {data.streakBonuses.map((b) => t('checkin.calendar.bonusItem', { days: b.days, bonus: b.bonus })).join(' · ')}
+                    </span>
+                )}
+                {data.makeUpCost > 0 && <span>{t('checkin.calendar.makeUpHint', { cost: data.makeUpCost })}</span>}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState } from "react"
+import { previewCoupon } from "@/actions/checkout"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, Ticket, X } from "lucide-react"
+import { toast } from "sonner"
+import { useI18n } from "@/lib/i18n/context"
+
+export interface AppliedCoupon {
+    code: string
+    discount: number
+    allowPoints: boolean
+}
+
+interface CouponFieldProps {
+    id: string
+    productId?: string
+    variantId?: number | null
+    quantity?: number
+    email?: string
+    applied: AppliedCoupon | null
+    onChange: (coupon: AppliedCoupon | null) => void
+}
+
+export function CouponField({ id, productId, variantId, quantity = 1, email, applied, onChange }: CouponFieldProps) {
+    const { t } = useI18n()
+    const [code, setCode] = useState('')
+    const [loading, setLoading] = useState(false)
+
+    const handleApply = async () => {
+        if (!code.trim()) return
+        setLoading(true)
+        try {
+            const result = await previewCoupon(code, productId, quantity, email, variantId)
+            if (!result?.success || !('code' in result)) {
+                toast.error(result?.error ? t(result.error) : t('common.error'))
+                onChange(null)
+                return
+            }
+            onChange({ code: result.code!, discount: result.discount!, allowPoints: result.allowPoints! })
+            toast.success(t('coupon.applied'))
+        } catch (e: any) {
+            toast.error(e.message || t('common.error'))
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    if (applied) {
+        return (
+            <div className="flex items-center justify-between border p-3 rounded-md text-sm">
+                <span className="flex items-center gap-2">
+                    <Ticket className="h-4 w-4 text-primary" />
+                    <span className="font-mono">{applied.code}</span>
+                </span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onChange(null)} title={t('coupon.remove')}>
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex gap-2">
+            <div className="floating-field flex-1">
+                <Input
+                    id={id}
+                    placeholder=" "
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault()
+                            handleApply()
+                        }
+                    }}
+                />
+                <Label htmlFor={id} className="floating-label">{t('coupon.code')}</Label>
+            </div>
+            <Button variant="outline" onClick={handleApply} disabled={loading || !code.trim()} className="h-auto">
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('coupon.apply')}
+            </Button>
+        </div>
+    )
+}
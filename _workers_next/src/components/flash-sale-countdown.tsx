@@ -0,0 +1,50 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useI18n } from "@/lib/i18n/context"
+import { cn } from "@/lib/utils"
+import type { FlashSaleState } from "@/lib/flash-sale"
+
+interface FlashSaleCountdownProps {
+    sale: FlashSaleState
+    className?: string
+}
+
+function formatRemaining(ms: number) {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+    const days = Math.floor(totalSeconds / 86400)
+    const hh = String(Math.floor((totalSeconds % 86400) / 3600)).padStart(2, '0')
+    const mm = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0')
+    const ss = String(totalSeconds % 60).padStart(2, '0')
+    return days > 0 ? `${days}d ${hh}:${mm}:${ss}` : `${hh}:${mm}:${ss}`
+}
+
+/** Ticks down to the next sale boundary and refreshes the page once it is reached */
+export function FlashSaleCountdown({ sale, className }: FlashSaleCountdownProps) {
+    const { t } = useI18n()
+    const router = useRouter()
+    const [now, setNow] = useState<number | null>(null)
+
+    const target = sale.status === 'upcoming' ? sale.startsAt : sale.endsAt
+    const counting = sale.status === 'upcoming' || sale.status === 'active'
+
+    useEffect(() => {
+        if (!counting) return
+        setNow(Date.now())
+        const timer = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(timer)
+    }, [counting])
+
+    useEffect(() => {
+        if (counting && now !== null && now >= target) router.refresh()
+    }, [counting, now, target, router])
+
+    if (!counting || now === null) return null
+
+    return (
+        <span className={cn("tabular-nums", className)}>
+            {t(sale.status === 'upcoming' ? 'flashSale.startsIn' : 'flashSale.endsIn', { time: formatRemaining(target - now) })}
+        </span>
+    )
+}
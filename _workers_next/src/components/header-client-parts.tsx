@@ -3,8 +3,9 @@
 import Link from "next/link"
 import { useI18n } from "@/lib/i18n/context"
 import { DropdownMenuItem } from "@/components/ui/dropdown-menu"
+import { Button } from "@/components/ui/button"
 import { LanguageSwitcher } from "@/components/language-switcher"
-import { ShoppingBag } from "lucide-react"
+import { ShoppingBag, ShoppingCart } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { usePathname, useRouter } from "next/navigation"
 import { useCallback, useEffect, useRef, useState } from "react"
@@ -122,6 +123,23 @@ export function HeaderUserMenuItems({ isAdmin, showNav = true }: { isAdmin: bool
 
 export { LanguageSwitcher }
 
+export function HeaderCartLink({ count = 0 }: { count?: number }) {
+    const { t } = useI18n()
+
+    return (
+        <Button variant="ghost" size="sm" className="relative" asChild>
+            <Link href="/cart" title={t('cart.title')} aria-label={t('cart.title')}>
+                <ShoppingCart className="h-4 w-4" />
+                {count > 0 && (
+                    <span className="absolute -top-1 -right-1 inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+                        {count > 99 ? "99+" : count}
+                    </span>
+                )}
+            </Link>
+        </Button>
+    )
+}
+
 export function HeaderUnreadBadge({ initialCount = 0, desktopEnabled = false, className }: { initialCount?: number; desktopEnabled?: boolean; className?: string }) {
     const { t } = useI18n()
     const [count, setCount] = useState(initialCount)
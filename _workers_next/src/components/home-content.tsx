@@ -12,6 +12,8 @@ import { StarRatingStatic } from "@/components/star-rating-static"
 import { NavigationPill } from "@/components/navigation-pill"
 import { useI18n } from "@/lib/i18n/context"
 import { INFINITE_STOCK } from "@/lib/constants"
+import type { FlashSaleState } from "@/lib/flash-sale"
+import { FlashSaleCountdown } from "@/components/flash-sale-countdown"
 
 interface Product {
     id: string
@@ -19,11 +21,15 @@ interface Product {
     description: string | null
     descriptionPlain?: string | null
     price: string
+    memberPrice?: number | null
+    salePrice?: number | null
+    flashSale?: FlashSaleState | null
     compareAtPrice?: string | null
     image: string | null
     category: string | null
     stockCount: number
     soldCount: number
+    soldOutState?: string | null
     isHot?: boolean | null
     rating?: number
     reviewCount?: number
@@ -292,6 +298,15 @@ export function HomeContent({ products, announcement, visitorCount, categories =
                                         </div>
                                     )}
 
+                                    {product.flashSale && (
+                                        <div className="mb-2 flex items-center gap-2">
+                                            <Badge variant="default" className="text-[10px] h-4 px-1.5 bg-destructive text-white border-0 shadow-sm">
+                                                ⚡ {t('flashSale.badge')}
+                                            </Badge>
+                                            <FlashSaleCountdown sale={product.flashSale} className="text-[10px] text-muted-foreground" />
+                                        </div>
+                                    )}
+
                                     {/* Rating */}
                                     {product.reviewCount !== undefined && product.reviewCount > 0 && (
                                         <div className="flex items-center gap-1.5 mb-2.5">
@@ -309,9 +324,13 @@ export function HomeContent({ products, announcement, visitorCount, categories =
                                 <CardFooter className="relative z-20 px-5 py-4 flex flex-wrap items-center gap-3 mt-auto border-t border-border/15 bg-transparent pointer-events-none">
                                     <div className="flex min-w-0 flex-1 flex-col">
                                         <div className="flex items-baseline gap-2">
-                                            <span className="text-xl font-black text-primary tabular-nums whitespace-nowrap tracking-tight">{Number(product.price)}</span>
+                                            <span className="text-xl font-black text-primary tabular-nums whitespace-nowrap tracking-tight">{product.memberPrice ?? product.salePrice ?? Number(product.price)}</span>
                                             <span className="text-xs text-muted-foreground font-medium uppercase">{t('common.credits')}</span>
-                                            {product.compareAtPrice && Number(product.compareAtPrice) > Number(product.price) && (
+                                            {typeof product.memberPrice === 'number' || typeof product.salePrice === 'number' ? (
+                                                <span className="text-xs text-muted-foreground/70 line-through tabular-nums" title={typeof product.memberPrice === 'number' ? t('buy.memberDiscount') : t('flashSale.badge')}>
+                                                    {Number(product.price)}
+                                                </span>
+                                            ) : product.compareAtPrice && Number(product.compareAtPrice) > Number(product.price) && (
                                                 <span className="text-xs text-muted-foreground/70 line-through tabular-nums">
                                                     {Number(product.compareAtPrice)}
                                                 </span>
@@ -338,7 +357,7 @@ export function HomeContent({ products, announcement, visitorCount, categories =
                                             )}
                                             disabled={product.stockCount <= 0}
                                         >
-                                            {product.stockCount > 0 ? t('common.buy') : t('common.outOfStock')}
+                                            {product.stockCount > 0 ? t('common.buy') : (product.soldOutState === 'restocking' ? t('common.restocking') : t('common.outOfStock'))}
                                         </Button>
                                     </Link>
                                 </CardFooter>
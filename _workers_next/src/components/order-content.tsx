@@ -10,6 +10,7 @@ import { CopyButton } from "@/components/copy-button"
 import { ClientDate } from "@/components/client-date"
 import { Textarea } from "@/components/ui/textarea"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { requestRefund } from "@/actions/refund-requests"
 import { toast } from "sonner"
@@ -17,6 +18,7 @@ import { useEffect } from "react"
 import { checkOrderStatus, cancelPendingOrder } from "@/actions/order"
 import { useRouter } from "next/navigation"
 import { isPaymentOrder } from "@/lib/payment"
+import type { OrderRefundCard } from "@/lib/refunds"
 
 interface Order {
     orderId: string
@@ -30,17 +32,29 @@ interface Order {
     paidAt: Date | null
 }
 
+interface OrderItem {
+    productName: string
+    quantity: number
+    amount: string
+    cardKey: string | null
+}
+
 interface OrderContentProps {
     order: Order
+    items?: OrderItem[]
     canViewKey: boolean
     isOwner: boolean
     isDynamic?: boolean
     refundRequest: { status: string | null; reason: string | null } | null
+    refundCards?: OrderRefundCard[]
+    refundPointsRate?: number
 }
 
-export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, refundRequest }: OrderContentProps) {
+export function OrderContent({ order, items = [], canViewKey, isOwner, isDynamic = false, refundRequest, refundCards = [], refundPointsRate = 1 }: OrderContentProps) {
     const { t } = useI18n()
     const [reason, setReason] = useState("")
+    const [refundCardIds, setRefundCardIds] = useState<number[]>([])
+    const [refundAsPoints, setRefundAsPoints] = useState(false)
     const [submitting, setSubmitting] = useState(false)
     const [confirmOpen, setConfirmOpen] = useState(false)
     const submitLock = useRef(false)
@@ -51,7 +65,7 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
         submitLock.current = true
         setSubmitting(true)
         try {
-            await requestRefund(order.orderId, reason)
+            await requestRefund(order.orderId, reason, refundCardIds, refundAsPoints ? 'points' : 'gateway')
             toast.success(t('refund.requested'))
             setConfirmOpen(false)
         } catch (e: any) {
@@ -67,11 +81,19 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
             case 'delivered': return 'default'
             case 'paid': return 'secondary'
             case 'refunded': return 'destructive'
+            case 'partially_refunded': return 'destructive'
             case 'cancelled': return 'secondary'
             default: return 'outline'
         }
     }
 
+    const isDelivered = order.status === 'delivered' || order.status === 'partially_refunded'
+    // A processed request on an order that is still refundable was a partial one
+    const refundLocked = !!refundRequest?.status && refundRequest.status !== 'processed'
+    const toggleRefundCard = (id: number, checked: boolean) => {
+        setRefundCardIds((prev) => checked ? [...prev, id] : prev.filter((x) => x !== id))
+    }
+
     const getStatusText = (status: string) => {
         return t(`order.status.${status}`) || status.toUpperCase()
     }
@@ -184,6 +206,18 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
                             </div>
                         </div>
 
+                        {items.length > 0 && (
+                            <div className="p-4 bg-muted/20 rounded-xl border border-border/20 space-y-2">
+                                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{t('cart.items')}</p>
+                                {items.map((item, index) => (
+                                    <div key={index} className="flex justify-between gap-4 text-sm">
+                                        <span className="truncate">{item.productName} <span className="text-muted-foreground">x{item.quantity}</span></span>
+                                        <span className="font-medium shrink-0">{Number(item.amount)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         {isPayment && order.payee && (
                             <div className="flex justify-between items-center p-4 bg-gradient-to-r from-muted/40 to-muted/20 rounded-xl border border-border/30">
                                 <div className="space-y-1">
@@ -232,7 +266,7 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
                     <Separator className="bg-border/50" />
 
                     {/* Content Display */}
-                    {order.status === 'delivered' && !isPayment ? (
+                    {isDelivered && !isPayment ? (
                         canViewKey ? (
                             <div className="space-y-4">
                                 <h3 className="font-semibold flex items-center gap-2">
@@ -249,7 +283,12 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
                                             <div className="w-2.5 h-2.5 rounded-full bg-green-500/80" />
                                         </div>
                                         <div className="mt-4">
-                                            {order.cardKey}
+                                            {items.length > 0 ? items.map((item, index) => (
+                                                <div key={index} className="mb-3 last:mb-0">
+                                                    <div className="text-slate-400"># {item.productName} x{item.quantity}</div>
+                                                    {item.cardKey || '-'}
+                                                </div>
+                                            )) : order.cardKey}
                                         </div>
                                         <div className="absolute top-3 right-3">
                                             <CopyButton text={order.cardKey || ''} iconOnly />
@@ -359,7 +398,7 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
                         </div>
                     )}
 
-                    {isOwner && (order.status === 'paid' || order.status === 'delivered') && Number(order.amount) > 0 && (
+                    {isOwner && (order.status === 'paid' || isDelivered) && Number(order.amount) > 0 && (
                         <>
                             <Separator className="bg-border/50" />
                             <div className="space-y-3">
@@ -379,14 +418,41 @@ export function OrderContent({ order, canViewKey, isOwner, isDynamic = false, re
                                     placeholder={t('refund.reasonPlaceholder')}
                                     rows={3}
                                     className="resize-none"
-                                    disabled={submitting || !!refundRequest?.status}
+                                    disabled={submitting || refundLocked}
                                 />
+                                {refundCards.length > 1 && !refundLocked && (
+                                    <div className="space-y-2">
+                                        <div className="text-sm text-muted-foreground">{t('refund.selectCards')}</div>
+                                        <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                                            {refundCards.map((card) => (
+                                                <label key={card.id} className="flex items-center gap-2 text-sm">
+                                                    <Checkbox
+                                                        checked={refundCardIds.includes(card.id)}
+                                                        disabled={submitting}
+                                                        onCheckedChange={(v) => toggleRefundCard(card.id, v === true)}
+                                                    />
+                                                    <span className="font-mono break-all">{card.key}</span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                {!refundLocked && (
+                                    <label className="flex items-center gap-2 text-sm">
+                                        <Checkbox
+                                            checked={refundAsPoints}
+                                            disabled={submitting}
+                                            onCheckedChange={(v) => setRefundAsPoints(v === true)}
+                                        />
+                                        <span>{t('refund.asPoints', { rate: refundPointsRate })}</span>
+                                    </label>
+                                )}
                                 <div className="flex justify-end">
                                     <Button
                                         onClick={async () => {
                                             setConfirmOpen(true)
                                         }}
-                                        disabled={submitting || !!refundRequest?.status}
+                                        disabled={submitting || refundLocked}
                                     >
                                         {submitting ? t('common.processing') : t('refund.requestButton')}
                                     </Button>
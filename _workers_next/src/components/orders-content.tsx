@@ -45,6 +45,7 @@ export function OrdersContent({ orders }: { orders: Order[] }) {
         { key: 'pending', label: t('order.status.pending') },
         { key: 'paid', label: t('order.status.paid') },
         { key: 'delivered', label: t('order.status.delivered') },
+        { key: 'partially_refunded', label: t('order.status.partially_refunded') },
         { key: 'refunded', label: t('order.status.refunded') },
         { key: 'cancelled', label: t('order.status.cancelled') },
     ]
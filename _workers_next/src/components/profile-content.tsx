@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
-import { Coins, Package, Clock, CheckCircle, ChevronRight, User, LogOut, Bell } from "lucide-react"
+import { Coins, Package, Clock, CheckCircle, ChevronRight, User, LogOut, Bell, History, UserPlus } from "lucide-react"
 import { signOut } from "next-auth/react"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -15,6 +15,10 @@ import { toast } from "sonner"
 import { updateDesktopNotifications, updateProfileEmail } from "@/actions/profile"
 import { useEffect, useRef, useState } from "react"
 import { CheckInButton } from "@/components/checkin-button"
+import { CheckinCalendar } from "@/components/checkin-calendar"
+import { ClientDate } from "@/components/client-date"
+import { CopyButton } from "@/components/copy-button"
+import { getMyPointsHistory } from "@/actions/points"
 import { clearMyNotifications, getMyNotifications, markAllNotificationsRead, markNotificationRead } from "@/actions/user-notifications"
 import { sendUserMessage } from "@/actions/user-messages"
 import { cn } from "@/lib/utils"
@@ -29,6 +33,7 @@ interface ProfileContentProps {
         trustLevel?: number
     }
     points: number
+    expiringPoints?: { points: number; expiresAt: number } | null
     checkinEnabled: boolean
     orderStats: {
         total: number
@@ -45,10 +50,22 @@ interface ProfileContentProps {
         createdAt: number | null
     }>
     desktopNotificationsEnabled: boolean
+    referral?: {
+        code: string
+        invited: number
+        rewarded: number
+        pending: number
+        points: number
+        inviterReward: number
+        inviteeReward: number
+    } | null
 }
 
-export function ProfileContent({ user, points, checkinEnabled, orderStats, notifications: initialNotifications, desktopNotificationsEnabled }: ProfileContentProps) {
+type PointsHistoryItem = Awaited<ReturnType<typeof getMyPointsHistory>>['items'][number]
+
+export function ProfileContent({ user, points, expiringPoints, checkinEnabled, orderStats, notifications: initialNotifications, desktopNotificationsEnabled, referral }: ProfileContentProps) {
     const { t } = useI18n()
+    const [origin, setOrigin] = useState('')
     const [email, setEmail] = useState(user.email || '')
     const [savingEmail, setSavingEmail] = useState(false)
     const [pointsValue, setPointsValue] = useState(points)
@@ -63,6 +80,11 @@ export function ProfileContent({ user, points, checkinEnabled, orderStats, notif
     const [desktopEnabled, setDesktopEnabled] = useState(desktopNotificationsEnabled)
     const [desktopSaving, setDesktopSaving] = useState(false)
     const notifiedIdsRef = useRef<Set<number>>(new Set())
+    const [showHistory, setShowHistory] = useState(false)
+    const [pointsHistory, setPointsHistory] = useState<PointsHistoryItem[]>([])
+    const [historyLoading, setHistoryLoading] = useState(false)
+    const [historyDone, setHistoryDone] = useState(false)
+    const [calendarKey, setCalendarKey] = useState(0)
 
     const unreadCount = notifications.filter((n) => !n.isRead).length
 
@@ -113,6 +135,10 @@ export function ProfileContent({ user, points, checkinEnabled, orderStats, notif
         refresh()
     }, [])
 
+    useEffect(() => {
+        setOrigin(window.location.origin)
+    }, [])
+
     useEffect(() => {
         if (!desktopEnabled) return
         if (typeof window === "undefined" || !("Notification" in window)) return
@@ -132,6 +158,30 @@ export function ProfileContent({ user, points, checkinEnabled, orderStats, notif
         })
     }, [desktopEnabled, notifications, t])
 
+    const loadPointsHistory = async (reset = false) => {
+        if (historyLoading) return
+        setHistoryLoading(true)
+        try {
+            const res = await getMyPointsHistory(reset ? 0 : pointsHistory.length)
+            if (res?.success) {
+                setPointsHistory((prev) => reset ? res.items : [...prev, ...res.items])
+                setHistoryDone(res.items.length < 20)
+            } else {
+                toast.error(t('common.error'))
+            }
+        } catch {
+            toast.error(t('common.error'))
+        } finally {
+            setHistoryLoading(false)
+        }
+    }
+
+    const togglePointsHistory = () => {
+        const next = !showHistory
+        setShowHistory(next)
+        if (next) void loadPointsHistory(true)
+    }
+
     const ensureNotificationPermission = async () => {
         if (typeof window === "undefined" || !("Notification" in window)) {
             toast.error(t('profile.desktopNotifications.unsupported'))
@@ -280,19 +330,106 @@ export function ProfileContent({ user, points, checkinEnabled, orderStats, notif
                             <div>
                                 <p className="text-sm text-muted-foreground">{t('common.credits')}</p>
                                 <p className="text-2xl font-bold text-amber-600">{pointsValue}</p>
+                                {expiringPoints && (
+                                    <p className="text-xs text-muted-foreground">
+                                        {t('points.expiring', { points: expiringPoints.points })} <ClientDate value={new Date(expiringPoints.expiresAt)} />
+                                    </p>
+                                )}
                             </div>
                         </div>
-                        <CheckInButton
-                            enabled={checkinEnabled}
-                            showPoints={false}
-                            showCheckedInLabel
-                            className="shrink-0"
-                            onPointsChange={setPointsValue}
-                        />
+                        <div className="flex items-center gap-2 shrink-0">
+                            <Button variant="ghost" size="sm" onClick={togglePointsHistory}>
+                                <History className="h-4 w-4 mr-1" />
+                                {t('points.history')}
+                            </Button>
+                            <CheckInButton
+                                enabled={checkinEnabled}
+                                showPoints={false}
+                                showCheckedInLabel
+                                className="shrink-0"
+                                onPointsChange={setPointsValue}
+                                onCheckedInChange={(checkedIn) => checkedIn && setCalendarKey((k) => k + 1)}
+                            />
+                        </div>
                     </div>
+                    {checkinEnabled && (
+                        <div className="mt-4 border-t border-amber-200 dark:border-amber-800 pt-4">
+                            <CheckinCalendar refreshKey={calendarKey} onPointsChange={setPointsValue} />
+                        </div>
+                    )}
+                    {showHistory && (
+                        <div className="mt-4 border-t border-amber-200 dark:border-amber-800 pt-4">
+                            {pointsHistory.length === 0 && !historyLoading ? (
+                                <p className="text-sm text-muted-foreground">{t('points.historyEmpty')}</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {pointsHistory.map((item) => (
+                                        <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                                            <div className="min-w-0">
+                                                <div className="truncate">
+                                                    {t(`points.reasons.${item.reason}`)}
+                                                    {item.orderId && (
+                                                        <Link href={`/order/${item.orderId}`} className="ml-2 font-mono text-xs text-muted-foreground hover:underline">
+                                                            {item.orderId}
+                                                        </Link>
+                                                    )}
+                                                </div>
+                                                <div className="text-xs text-muted-foreground">
+                                                    <ClientDate value={item.createdAt} format="dateTime" />
+                                                </div>
+                                            </div>
+                                            <span className={cn("font-mono shrink-0", item.delta < 0 ? "text-destructive" : "text-green-600")}>
+                                                {item.delta > 0 ? `+${item.delta}` : item.delta}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {!historyDone && pointsHistory.length > 0 && (
+                                <Button variant="ghost" size="sm" className="mt-2 w-full" onClick={() => loadPointsHistory()} disabled={historyLoading}>
+                                    {historyLoading ? t('common.processing') : t('points.loadMore')}
+                                </Button>
+                            )}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
+            {/* Referral Card */}
+            {referral && (
+                <Card className="mb-6">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-base flex items-center gap-2">
+                            <UserPlus className="h-4 w-4" />
+                            {t('profile.referral.title')}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            {t('profile.referral.desc', { inviter: referral.inviterReward, invitee: referral.inviteeReward })}
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <Input readOnly value={origin ? `${origin}/?ref=${referral.code}` : referral.code} className="font-mono text-xs" />
+                            <CopyButton text={origin ? `${origin}/?ref=${referral.code}` : referral.code} iconOnly />
+                        </div>
+                        <div className="grid grid-cols-3 gap-4 text-center">
+                            <div className="p-3 rounded-lg bg-muted/50">
+                                <p className="text-2xl font-bold">{referral.invited}</p>
+                                <p className="text-xs text-muted-foreground">{t('profile.referral.invited')}</p>
+                            </div>
+                            <div className="p-3 rounded-lg bg-muted/50">
+                                <p className="text-2xl font-bold">{referral.rewarded}</p>
+                                <p className="text-xs text-muted-foreground">{t('profile.referral.rewarded')}</p>
+                            </div>
+                            <div className="p-3 rounded-lg bg-muted/50">
+                                <p className="text-2xl font-bold text-amber-600">{referral.points}</p>
+                                <p className="text-xs text-muted-foreground">{t('profile.referral.points')}</p>
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Order Stats */}
             <Card className="mb-6">
                 <CardHeader className="pb-2">
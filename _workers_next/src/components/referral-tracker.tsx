@@ -0,0 +1,16 @@
+'use client'
+
+import { useEffect } from "react"
+import { REFERRAL_COOKIE, REFERRAL_COOKIE_MAX_AGE } from "@/lib/constants"
+
+// Remember `?ref=CODE` until the visitor signs in; the first link followed wins
+export function ReferralTracker() {
+    useEffect(() => {
+        const code = new URLSearchParams(window.location.search).get('ref')?.trim()
+        if (!code || !/^[A-Za-z0-9]{4,16}$/.test(code)) return
+        if (document.cookie.split('; ').some((c) => c.startsWith(`${REFERRAL_COOKIE}=`))) return
+        document.cookie = `${REFERRAL_COOKIE}=${encodeURIComponent(code.toUpperCase())}; path=/; max-age=${REFERRAL_COOKIE_MAX_AGE}; samesite=lax`
+    }, [])
+
+    return null
+}
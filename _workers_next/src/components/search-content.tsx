@@ -18,11 +18,13 @@ type Product = {
   description: string | null
   price: string
   compareAtPrice: string | null
+  salePrice: number | null
   image: string | null
   category: string | null
   isHot: boolean
   stockCount: number
   soldCount: number
+  soldOutState?: string | null
 }
 
 function buildUrl(params: Record<string, string | number | undefined | null>) {
@@ -158,8 +160,10 @@ export function SearchContent(props: {
                 <div className="shrink-0 flex flex-col">
                   <span className="text-xs text-muted-foreground font-medium uppercase tracking-wider">{t('common.credits')}</span>
                   <div className="flex items-end gap-2">
-                    <span className="text-2xl font-bold font-mono tracking-tight">{Number(product.price)}</span>
-                    {product.compareAtPrice && Number(product.compareAtPrice) > Number(product.price) && (
+                    <span className="text-2xl font-bold font-mono tracking-tight">{product.salePrice ?? Number(product.price)}</span>
+                    {product.salePrice !== null ? (
+                      <span className="text-xs text-muted-foreground line-through" title={t('flashSale.badge')}>{Number(product.price)}</span>
+                    ) : product.compareAtPrice && Number(product.compareAtPrice) > Number(product.price) && (
                       <span className="text-xs text-muted-foreground line-through">{Number(product.compareAtPrice)}</span>
                     )}
                   </div>
@@ -173,7 +177,7 @@ export function SearchContent(props: {
                       variant={product.stockCount > 0 ? "secondary" : "destructive"}
                       className={cn("text-[10px] h-5 px-2 whitespace-nowrap min-w-max overflow-visible")}
                     >
-                      {product.stockCount > 0 ? `${t('common.stock')} ${product.stockCount}` : t('common.outOfStock')}
+                      {product.stockCount > 0 ? `${t('common.stock')} ${product.stockCount}` : (product.soldOutState === 'restocking' ? t('common.restocking') : t('common.outOfStock'))}
                     </Badge>
                   </div>
                   <Link href={`/buy/${product.id}`} className="w-full">
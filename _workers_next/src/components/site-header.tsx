@@ -12,11 +12,14 @@ import {
 import { User } from "lucide-react"
 import { SignInButton } from "@/components/signin-button"
 import { SignOutButton } from "@/components/signout-button"
-import { HeaderLogo, HeaderNav, HeaderSearch, HeaderUserMenuItems, HeaderUnreadBadge, LanguageSwitcher } from "@/components/header-client-parts"
+import { HeaderLogo, HeaderNav, HeaderSearch, HeaderUserMenuItems, HeaderUnreadBadge, HeaderCartLink, LanguageSwitcher } from "@/components/header-client-parts"
 import { ModeToggle } from "@/components/mode-toggle"
-import { getSetting, recordLoginUser, setSetting, getUserUnreadNotificationCount, getLoginUserDesktopNotificationsEnabled } from "@/lib/db/queries"
+import { getSetting, recordLoginUser, setSetting, getUserUnreadNotificationCount, getLoginUserDesktopNotificationsEnabled, getCartItemCount } from "@/lib/db/queries"
+import { cookies } from "next/headers"
+import { CART_COOKIE } from "@/lib/cart"
 import { isRegistryEnabled } from "@/lib/registry"
 import { CheckInButton } from "@/components/checkin-button"
+import { getAdminAccess } from "@/lib/admin-auth"
 
 export async function SiteHeader() {
     const session = await auth()
@@ -25,10 +28,10 @@ export async function SiteHeader() {
         await recordLoginUser(user.id, user.username || user.name || null, user.email || null)
     }
 
-    // Check if admin (case-insensitive)
+    // Env admins plus anyone granted a role in the dashboard
     const rawAdminUsers = process.env.ADMIN_USERS?.split(',') || []
-    const adminUsers = rawAdminUsers.map(u => u.toLowerCase())
-    const isAdmin = user?.username && adminUsers.includes(user.username.toLowerCase()) || false
+    const adminAccess = await getAdminAccess(user)
+    const isAdmin = !!adminAccess
     const firstAdminName = rawAdminUsers[0]?.trim() // Get first admin name for branding
     let shopNameOverride: string | null = null
     let shopLogoOverride: string | null = null
@@ -43,7 +46,7 @@ export async function SiteHeader() {
         shopNameOverride = null
         shopLogoOverride = null
     }
-    if (isAdmin && user?.avatar_url && (!shopLogoOverride || !shopLogoOverride.trim())) {
+    if (adminAccess?.role === 'owner' && user?.avatar_url && (!shopLogoOverride || !shopLogoOverride.trim())) {
         try {
             await setSetting('shop_logo', user.avatar_url)
             await setSetting('shop_logo_updated_at', String(Date.now()))
@@ -94,6 +97,16 @@ export async function SiteHeader() {
         }
     }
 
+    let cartCount = 0
+    try {
+        const cookieStore = await cookies()
+        cartCount = await getCartItemCount(user?.id
+            ? { userId: user.id }
+            : { sessionId: cookieStore.get(CART_COOKIE)?.value || null })
+    } catch {
+        cartCount = 0
+    }
+
     return (
         <header className="sticky top-0 z-40 w-full border-b border-border/20 bg-gradient-to-b from-background/90 via-background/70 to-background/55 backdrop-blur-xl supports-[backdrop-filter]:bg-background/70 relative after:pointer-events-none after:absolute after:inset-x-0 after:bottom-0 after:h-px after:bg-gradient-to-r after:from-transparent after:via-primary/25 after:to-transparent">
             <div className="container flex h-16 items-center gap-2 md:gap-3">
@@ -106,6 +119,7 @@ export async function SiteHeader() {
                 </div>
                 <div className="ml-auto flex items-center justify-end gap-2 md:gap-3">
                     <nav className="flex items-center space-x-1 rounded-full border border-border/20 bg-muted/20 px-1.5 py-1 md:px-2">
+                        <HeaderCartLink count={cartCount} />
                         <LanguageSwitcher />
                         <ModeToggle />
                         {user ? (
@@ -1,3 +1,21 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+import { cache } from "react"
+import { redirect } from "next/navigation"
+import { auth } from "@/lib/auth"
+import { db } from "@/lib/db"
+import { adminRoles, loginUsers } from "@/lib/db/schema"
+import { ensureAdminRolesTable } from "@/lib/db/queries"
+import { asc, eq } from "drizzle-orm"
+import { isAdminRole, ROLE_CAPABILITIES, type AdminCapability, type AdminRole } from "@/lib/admin-roles"
+import { decryptCardKey, isEncryptedCardKey } from "@/lib/card-crypto"
+
+export interface AdminAccess {
+    role: AdminRole
+    capabilities: AdminCapability[]
+    /** Owners listed in ADMIN_USERS cannot be changed from the dashboard */
+    fromEnv: boolean
+}
+
 export function getAdminUsernames() {
     return (process.env.ADMIN_USERS || '')
         .split(',')
@@ -10,3 +28,85 @@ export function isAdminUsername(username?: string | null) {
     const adminUsers = getAdminUsernames()
     return adminUsers.some((name) => name.toLowerCase() === username.toLowerCase())
 }
+
+export function hasCapability(access: AdminAccess | null | undefined, capability: AdminCapability) {
+    return !!access && access.capabilities.includes(capability)
+}
+
+/** First and last two characters only, for admins without `view_card_keys`; encrypted keys are not decrypted for this */
+export function maskCardKey<T extends string | null | undefined>(key: T): T {
+    if (!key) return key
+    if (isEncryptedCardKey(key)) return '••••••' as T
+    return key.split('\n').map((line) => {
+        const value = line.trim()
+        if (value.length <= 4) return '••••'
+        return `${value.slice(0, 2)}••••${value.slice(-2)}`
+    }).join('\n') as T
+}
+
+/** A stored card key as this admin may see it: decrypted with `view_card_keys`, masked otherwise */
+export async function cardKeyForAdmin(access: AdminAccess | null | undefined, key: string | null | undefined) {
+    if (!key) return key ?? null
+    return hasCapability(access, 'view_card_keys') ? decryptCardKey(key) : maskCardKey(key)
+}
+
+/** Staff acting without a browser session, e.g. commands sent to the Telegram admin bot */
+export interface ActingAdmin {
+    user: { id: string; username: string; name: string }
+    access: AdminAccess
+}
+
+const actingAdmin = new AsyncLocalStorage<ActingAdmin>()
+
+/** Run `fn` so that `checkAdmin` inside it resolves to `actor` instead of the session */
+export function runAsAdmin<T>(actor: ActingAdmin, fn: () => Promise<T>) {
+    return actingAdmin.run(actor, fn)
+}
+
+export function getActingAdmin() {
+    return actingAdmin.getStore() ?? null
+}
+
+const lookupAdminAccess = cache(async (userId: string | null, username: string | null): Promise<AdminAccess | null> => {
+    if (isAdminUsername(username)) {
+        return { role: 'owner', capabilities: [...ROLE_CAPABILITIES.owner], fromEnv: true }
+    }
+    if (!userId) return null
+    try {
+        await ensureAdminRolesTable()
+        const row = await db.query.adminRoles.findFirst({ where: eq(adminRoles.userId, userId) })
+        if (!row || !isAdminRole(row.role)) return null
+        return { role: row.role, capabilities: [...ROLE_CAPABILITIES[row.role]], fromEnv: false }
+    } catch {
+        return null
+    }
+})
+
+/** Role of a signed-in user, or null when they are not staff */
+export async function getAdminAccess(user?: { id?: string | null; username?: string | null } | null) {
+    if (!user) return null
+    return lookupAdminAccess(user.id || null, user.username || null)
+}
+
+/** Page guard: non-staff go home, staff without `capability` go to the dashboard */
+export async function requireAdminPage(capability?: AdminCapability) {
+    const session = await auth()
+    const access = await getAdminAccess(session?.user)
+    if (!access) redirect('/')
+    if (capability && !hasCapability(access, capability)) redirect('/admin')
+    return access
+}
+
+export async function getAdminRoleAssignments() {
+    await ensureAdminRolesTable()
+    return db.select({
+        userId: adminRoles.userId,
+        username: loginUsers.username,
+        role: adminRoles.role,
+        grantedBy: adminRoles.grantedBy,
+        updatedAt: adminRoles.updatedAt,
+    })
+        .from(adminRoles)
+        .leftJoin(loginUsers, eq(loginUsers.userId, adminRoles.userId))
+        .orderBy(asc(adminRoles.createdAt))
+}
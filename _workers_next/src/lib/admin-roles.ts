@@ -0,0 +1,26 @@
+export const ADMIN_ROLES = ['owner', 'operator', 'support', 'viewer'] as const
+export type AdminRole = typeof ADMIN_ROLES[number]
+
+export const ADMIN_CAPABILITIES = [
+    'manage_products',
+    'manage_orders',
+    'manage_users',
+    'view_card_keys',
+    'approve_refunds',
+    'export_data',
+    'edit_settings',
+    'manage_roles',
+] as const
+export type AdminCapability = typeof ADMIN_CAPABILITIES[number]
+
+// Viewers can open every admin page but change nothing
+export const ROLE_CAPABILITIES: Record<AdminRole, readonly AdminCapability[]> = {
+    owner: ADMIN_CAPABILITIES,
+    operator: ['manage_products', 'manage_orders', 'manage_users', 'view_card_keys', 'approve_refunds', 'export_data'],
+    support: ['manage_orders', 'manage_users', 'approve_refunds'],
+    viewer: [],
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+    return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value)
+}
@@ -0,0 +1,178 @@
+import { db } from "@/lib/db"
+import { adminAuditLog, settings } from "@/lib/db/schema"
+import { ensureAdminAuditLogTable, normalizeTimestampMs } from "@/lib/db/queries"
+import { and, desc, eq, gte, inArray, lt, sql } from "drizzle-orm"
+
+export interface AuditActor {
+    id?: string | null
+    username?: string | null
+}
+
+export interface AuditEntry {
+    targetType?: string | null
+    targetId?: string | number | null
+    /** Snapshots for edits; only the fields that differ are stored */
+    before?: Record<string, any> | null
+    after?: Record<string, any> | null
+    /** Free-form context for actions that are not edits (ids deleted, amounts, ...) */
+    details?: Record<string, any> | null
+}
+
+export interface AuditFilters {
+    admin?: string
+    action?: string
+    q?: string
+    /** Inclusive lower bound, ms */
+    from?: number | null
+    /** Exclusive upper bound, ms */
+    to?: number | null
+}
+
+const SECRET_KEY_PATTERN = /(token|secret|password|api_?key|merchant_?key|card_?key)/i
+
+function redact(key: string, value: any) {
+    if (value === null || value === undefined || value === '') return value
+    return SECRET_KEY_PATTERN.test(key) ? '[redacted]' : value
+}
+
+function normalizeValue(value: any) {
+    if (value instanceof Date) return value.getTime()
+    return value === undefined ? null : value
+}
+
+/** Keys whose values differ, as { key: [before, after] } */
+export function diffSnapshots(before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined) {
+    const changes: Record<string, [any, any]> = {}
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+    for (const key of keys) {
+        const a = normalizeValue(before?.[key])
+        const b = normalizeValue(after?.[key])
+        if (JSON.stringify(a) === JSON.stringify(b)) continue
+        changes[key] = [redact(key, a), redact(key, b)]
+    }
+    return changes
+}
+
+// Never let auditing break the action itself
+export async function recordAdminAudit(admin: AuditActor, action: string, entry: AuditEntry = {}) {
+    try {
+        await ensureAdminAuditLogTable()
+        const payload: Record<string, any> = {}
+        if (entry.before !== undefined || entry.after !== undefined) {
+            const diff = diffSnapshots(entry.before, entry.after)
+            // Saving without changing anything is not worth a row
+            if (!Object.keys(diff).length && !entry.details && entry.before && entry.after) return
+            payload.diff = diff
+        }
+        if (entry.details) {
+            payload.details = Object.fromEntries(
+                Object.entries(entry.details).map(([key, value]) => [key, redact(key, normalizeValue(value))])
+            )
+        }
+        await db.insert(adminAuditLog).values({
+            adminId: admin.id || null,
+            adminUsername: admin.username || null,
+            action,
+            targetType: entry.targetType || null,
+            targetId: entry.targetId === null || entry.targetId === undefined ? null : String(entry.targetId),
+            changes: Object.keys(payload).length ? JSON.stringify(payload).slice(0, 20000) : null,
+            createdAt: new Date(),
+        })
+    } catch (error) {
+        console.error('[Audit] Failed to record admin action:', error)
+    }
+}
+
+/** Current values of `keys`, read straight from the table (getSetting is per-request cached) */
+export async function snapshotSettings(keys: string[]) {
+    const snapshot: Record<string, string | null> = Object.fromEntries(keys.map((key) => [key, null]))
+    if (!keys.length) return snapshot
+    try {
+        const rows = await db.select({ key: settings.key, value: settings.value })
+            .from(settings)
+            .where(inArray(settings.key, keys))
+        for (const row of rows) snapshot[row.key] = row.value
+    } catch {
+        // settings table missing: everything counts as new
+    }
+    return snapshot
+}
+
+/** Record a settings change; call before writing so the old values can be read */
+export async function auditSettings(admin: AuditActor, action: string, values: Record<string, string | null>) {
+    const before = await snapshotSettings(Object.keys(values))
+    await recordAdminAudit(admin, action, { targetType: 'settings', before, after: values })
+}
+
+function buildWhere(filters: AuditFilters) {
+    const parts: any[] = []
+    if (filters.admin) parts.push(sql`lower(COALESCE(${adminAuditLog.adminUsername}, '')) = ${filters.admin.toLowerCase()}`)
+    if (filters.action && filters.action !== 'all') {
+        // "orders" matches every orders.* action
+        parts.push(filters.action.includes('.')
+            ? eq(adminAuditLog.action, filters.action)
+            : sql`${adminAuditLog.action} LIKE ${`${filters.action}.%`}`)
+    }
+    if (filters.q) {
+        const like = `%${filters.q}%`
+        parts.push(sql`(COALESCE(${adminAuditLog.targetId}, '') LIKE ${like} OR COALESCE(${adminAuditLog.changes}, '') LIKE ${like})`)
+    }
+    if (filters.from) parts.push(gte(normalizeTimestampMs(adminAuditLog.createdAt), filters.from))
+    if (filters.to) parts.push(lt(normalizeTimestampMs(adminAuditLog.createdAt), filters.to))
+    return parts.length ? and(...parts) : undefined
+}
+
+export async function getAdminAuditLog(filters: AuditFilters & { page: number; pageSize: number }) {
+    await ensureAdminAuditLogTable()
+    const whereExpr = buildWhere(filters)
+    const countQuery = db.select({ count: sql<number>`count(*)` }).from(adminAuditLog)
+    const [rows, countRes] = await Promise.all([
+        db.select().from(adminAuditLog)
+            .where(whereExpr)
+            .orderBy(desc(normalizeTimestampMs(adminAuditLog.createdAt)), desc(adminAuditLog.id))
+            .limit(filters.pageSize)
+            .offset((filters.page - 1) * filters.pageSize),
+        whereExpr ? countQuery.where(whereExpr) : countQuery,
+    ])
+    return { rows, total: Number(countRes[0]?.count || 0) }
+}
+
+/** Everything matching the filters, newest first, for CSV export */
+export async function exportAdminAuditLog(filters: AuditFilters, limit = 10000) {
+    await ensureAdminAuditLogTable()
+    return db.select().from(adminAuditLog)
+        .where(buildWhere(filters))
+        .orderBy(desc(normalizeTimestampMs(adminAuditLog.createdAt)), desc(adminAuditLog.id))
+        .limit(limit)
+}
+
+/** Admins that appear in the log, for the filter dropdown */
+export async function getAuditAdmins() {
+    await ensureAdminAuditLogTable()
+    const rows = await db.selectDistinct({ username: adminAuditLog.adminUsername })
+        .from(adminAuditLog)
+        .orderBy(adminAuditLog.adminUsername)
+    return rows.map((r) => r.username).filter((name): name is string => !!name)
+}
+
+function parseDay(value: string | null | undefined) {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+    const ms = Date.parse(`${value}T00:00:00Z`)
+    return Number.isFinite(ms) ? ms : null
+}
+
+/** Filters from `?admin=&action=&q=&from=YYYY-MM-DD&to=YYYY-MM-DD`; `to` includes the whole day */
+export function parseAuditFilters(get: (key: string) => string | null | undefined): AuditFilters & { fromDay: string; toDay: string } {
+    const fromDay = (get('from') || '').trim()
+    const toDay = (get('to') || '').trim()
+    const toStart = parseDay(toDay)
+    return {
+        admin: (get('admin') || '').trim(),
+        action: (get('action') || 'all').trim(),
+        q: (get('q') || '').trim(),
+        from: parseDay(fromDay),
+        to: toStart === null ? null : toStart + 24 * 60 * 60 * 1000,
+        fromDay: parseDay(fromDay) === null ? '' : fromDay,
+        toDay: toStart === null ? '' : toDay,
+    }
+}
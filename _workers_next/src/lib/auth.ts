@@ -1,4 +1,7 @@
 import NextAuth from "next-auth"
+import { cookies } from "next/headers"
+import { REFERRAL_COOKIE } from "@/lib/constants"
+import { captureReferral } from "@/lib/referrals"
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
     providers: [
@@ -30,6 +33,23 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
                 token.username = profile.username
                 token.trustLevel = profile.trust_level
                 token.avatar_url = profile.avatar_url
+
+                // First sign-in after following an invite link
+                try {
+                    const cookieStore = await cookies()
+                    const ref = cookieStore.get(REFERRAL_COOKIE)?.value
+                    if (ref) {
+                        await captureReferral({
+                            id: String(profile.id),
+                            username: profile.username as string | undefined,
+                            email: profile.email as string | undefined,
+                            trustLevel: profile.trust_level as number | undefined
+                        }, ref)
+                        cookieStore.delete(REFERRAL_COOKIE)
+                    }
+                } catch (error) {
+                    console.error('[Referral] Capture failed:', error)
+                }
             }
             return token
         },
@@ -0,0 +1,119 @@
+/**
+ * Card keys at rest. With `CARD_KEY_SECRET` set, `cards.card_key`,
+ * `orders.card_key` and `order_items.card_key` hold `enc:v1:<base64 iv+ciphertext>`
+ * (AES-256-GCM via WebCrypto, so it runs on Workers and Node alike); without it
+ * they stay plaintext. Rows written before the secret was set keep working and
+ * are converted by `encryptExistingCardKeys` (lib/card-keys).
+ */
+
+const PREFIX = 'enc:v1:'
+const IV_BYTES = 12
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+let cachedSecret: string | null = null
+let cachedKeys: Promise<{ aes: CryptoKey; hmac: CryptoKey }> | null = null
+
+function getSecret() {
+    return (process.env.CARD_KEY_SECRET || '').trim()
+}
+
+export function isCardEncryptionEnabled() {
+    return !!getSecret()
+}
+
+export function isEncryptedCardKey(value: string | null | undefined) {
+    return typeof value === 'string' && value.startsWith(PREFIX)
+}
+
+// Separate keys for encryption and hashing, both derived from the one env secret
+function getKeys() {
+    const secret = getSecret()
+    if (!secret) throw new Error('CARD_KEY_SECRET is not set; encrypted card keys cannot be read')
+    if (cachedKeys && cachedSecret === secret) return cachedKeys
+    cachedSecret = secret
+    cachedKeys = (async () => {
+        const base = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey'])
+        const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) => crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode('ldc-shop-card-keys'), info: encoder.encode(info) },
+            base,
+            algorithm,
+            false,
+            usages
+        )
+        const [aes, hmac] = await Promise.all([
+            derive('encrypt', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+            derive('hash', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']),
+        ])
+        return { aes, hmac }
+    })()
+    cachedKeys.catch(() => { cachedKeys = null })
+    return cachedKeys
+}
+
+function toBase64(bytes: Uint8Array) {
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return btoa(binary)
+}
+
+function fromBase64(value: string) {
+    const binary = atob(value)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
+
+function toHex(buffer: ArrayBuffer) {
+    return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Encrypt for storage; a no-op without a secret or when already encrypted */
+export async function encryptCardKey(value: string): Promise<string>
+export async function encryptCardKey(value: string | null | undefined): Promise<string | null>
+export async function encryptCardKey(value: string | null | undefined) {
+    if (value === null || value === undefined || value === '') return value ?? null
+    if (isEncryptedCardKey(value) || !isCardEncryptionEnabled()) return value
+    const { aes } = await getKeys()
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+    const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aes, encoder.encode(value)))
+    const packed = new Uint8Array(iv.length + cipher.length)
+    packed.set(iv)
+    packed.set(cipher, iv.length)
+    return PREFIX + toBase64(packed)
+}
+
+/** Plaintext of a stored value; legacy plaintext rows pass through unchanged */
+export async function decryptCardKey(value: string): Promise<string>
+export async function decryptCardKey(value: string | null | undefined): Promise<string | null>
+export async function decryptCardKey(value: string | null | undefined) {
+    if (!value || !isEncryptedCardKey(value)) return value ?? null
+    const { aes } = await getKeys()
+    const packed = fromBase64(value.slice(PREFIX.length))
+    const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: packed.subarray(0, IV_BYTES) },
+        aes,
+        packed.subarray(IV_BYTES)
+    )
+    return decoder.decode(plain)
+}
+
+export async function decryptCardKeys(values: string[]) {
+    return Promise.all(values.map((value) => decryptCardKey(value)))
+}
+
+/**
+ * Stable lookup hash of a plaintext key, stored in `cards.key_hash` so
+ * duplicates can be found without decrypting. Keyed (HMAC) when a secret is
+ * set so the column cannot be brute-forced from a dump.
+ */
+export async function hashCardKey(value: string) {
+    const data = encoder.encode(value.trim())
+    if (!isCardEncryptionEnabled()) {
+        return 'sha256:' + toHex(await crypto.subtle.digest('SHA-256', data))
+    }
+    const { hmac } = await getKeys()
+    return 'hmac:' + toHex(await crypto.subtle.sign('HMAC', hmac, data))
+}
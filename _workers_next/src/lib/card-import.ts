@@ -0,0 +1,211 @@
+/**
+ * Parsing for bulk card imports. Pure and dependency-free so the admin page can
+ * preview a file in the browser and the server can re-check what it receives.
+ */
+
+export type CardImportFormat = 'text' | 'csv' | 'json'
+
+/** How records are split in text input: one per line, blank-line blocks, commas (legacy) or a custom marker */
+export type CardImportSeparator = 'newline' | 'blank_line' | 'comma' | 'custom'
+
+export interface CardImportOptions {
+    format: CardImportFormat
+    separator?: CardImportSeparator
+    customSeparator?: string
+    /** CSV column holding the key; auto-detected from the header when empty */
+    keyColumn?: string
+    /** CSV column holding a per-card expiry; auto-detected, `''` for none */
+    expiryColumn?: string
+}
+
+export interface ParsedCardRecord {
+    /** 1-based position in the source, for pointing at problems */
+    record: number
+    key: string
+    /** Absolute expiry in ms, when the source gives one */
+    expiresAt: number | null
+}
+
+export interface CardImportIssue {
+    record: number
+    /** i18n key under admin.cards.import.errors */
+    error: string
+}
+
+export interface CardImportParseResult {
+    records: ParsedCardRecord[]
+    issues: CardImportIssue[]
+    /** CSV header, for choosing columns */
+    columns: string[]
+    keyColumn: string | null
+    expiryColumn: string | null
+}
+
+export const MAX_CARD_KEY_LENGTH = 4000
+/** Cards sent per server call; each call inserts in D1-sized batches */
+export const CARD_IMPORT_CHUNK_SIZE = 200
+/** Keys per duplicate-check call during preview */
+export const CARD_PREVIEW_CHUNK_SIZE = 1000
+
+const KEY_COLUMNS = ['card_key', 'cardkey', 'key', 'card', 'code', 'content', '卡密']
+const EXPIRY_COLUMNS = ['expires_at', 'expiresat', 'expiry', 'expires', 'expire_at', '过期时间']
+
+export function detectCardImportFormat(fileName: string): CardImportFormat {
+    const name = fileName.toLowerCase()
+    if (name.endsWith('.csv')) return 'csv'
+    if (name.endsWith('.json')) return 'json'
+    return 'text'
+}
+
+/** ms timestamp from seconds, ms or a date string; `undefined` when the value is not a date */
+export function parseCardExpiry(value: unknown): number | null | undefined {
+    if (value === null || value === undefined) return null
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value) || value <= 0) return undefined
+        return value < 1e11 ? value * 1000 : value
+    }
+    const str = String(value).trim()
+    if (!str) return null
+    if (/^\d+$/.test(str)) return parseCardExpiry(Number(str))
+    const ms = Date.parse(str.includes('T') || !/\d{2}:\d{2}/.test(str) ? str : str.replace(' ', 'T'))
+    return Number.isFinite(ms) ? ms : undefined
+}
+
+function splitText(text: string, options: CardImportOptions) {
+    switch (options.separator) {
+        case 'blank_line':
+            return text.split(/\n[ \t]*\n/)
+        case 'comma':
+            return text.split(',')
+        case 'custom':
+            return options.customSeparator ? text.split(options.customSeparator) : [text]
+        default:
+            return text.split('\n')
+    }
+}
+
+/** RFC 4180 rows; quoted fields may contain commas, quotes and newlines */
+export function parseCsvRows(text: string) {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if (quoted) {
+            if (ch === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"'
+                    i++
+                } else {
+                    quoted = false
+                }
+            } else {
+                field += ch
+            }
+        } else if (ch === '"' && field === '') {
+            quoted = true
+        } else if (ch === ',') {
+            row.push(field)
+            field = ''
+        } else if (ch === '\n') {
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ''
+        } else {
+            field += ch
+        }
+    }
+    if (field !== '' || row.length) {
+        row.push(field)
+        rows.push(row)
+    }
+    return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+function findColumn(columns: string[], wanted: string | undefined, candidates: string[]) {
+    if (wanted !== undefined && wanted !== '') return columns.includes(wanted) ? wanted : null
+    const normalized = columns.map((c) => c.trim().toLowerCase())
+    for (const candidate of candidates) {
+        const index = normalized.indexOf(candidate)
+        if (index >= 0) return columns[index]
+    }
+    return null
+}
+
+function pushRecord(result: CardImportParseResult, record: number, rawKey: unknown, rawExpiry: unknown) {
+    const key = typeof rawKey === 'string' ? rawKey.trim() : rawKey === null || rawKey === undefined ? '' : String(rawKey).trim()
+    if (!key) {
+        // Blank entries are just skipped in text; elsewhere they point at a broken row
+        return false
+    }
+    if (key.length > MAX_CARD_KEY_LENGTH) {
+        result.issues.push({ record, error: 'tooLong' })
+        return false
+    }
+    const expiresAt = parseCardExpiry(rawExpiry)
+    if (expiresAt === undefined) {
+        result.issues.push({ record, error: 'invalidExpiry' })
+        return false
+    }
+    result.records.push({ record, key, expiresAt })
+    return true
+}
+
+export function parseCardImport(input: string, options: CardImportOptions): CardImportParseResult {
+    const text = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+    const result: CardImportParseResult = { records: [], issues: [], columns: [], keyColumn: null, expiryColumn: null }
+
+    if (options.format === 'json') {
+        let data: unknown
+        try {
+            data = JSON.parse(text)
+        } catch {
+            result.issues.push({ record: 0, error: 'invalidJson' })
+            return result
+        }
+        const list = Array.isArray(data) ? data : (data as any)?.cards
+        if (!Array.isArray(list)) {
+            result.issues.push({ record: 0, error: 'invalidJson' })
+            return result
+        }
+        list.forEach((item, index) => {
+            if (typeof item === 'string') {
+                pushRecord(result, index + 1, item, null)
+                return
+            }
+            const key = item?.key ?? item?.cardKey ?? item?.card_key
+            if (typeof key !== 'string' || !key.trim()) {
+                result.issues.push({ record: index + 1, error: 'missingKey' })
+                return
+            }
+            pushRecord(result, index + 1, key, item?.expiresAt ?? item?.expires_at ?? null)
+        })
+        return result
+    }
+
+    if (options.format === 'csv') {
+        const rows = parseCsvRows(text)
+        if (!rows.length) return result
+        const header = rows[0].map((cell) => cell.trim())
+        result.columns = header
+        result.keyColumn = findColumn(header, options.keyColumn, KEY_COLUMNS) ?? header[0] ?? null
+        result.expiryColumn = options.expiryColumn === '' ? null : findColumn(header, options.expiryColumn, EXPIRY_COLUMNS)
+        const keyIndex = result.keyColumn ? header.indexOf(result.keyColumn) : -1
+        const expiryIndex = result.expiryColumn ? header.indexOf(result.expiryColumn) : -1
+        rows.slice(1).forEach((row, index) => {
+            const record = index + 1
+            const key = keyIndex >= 0 ? row[keyIndex] : undefined
+            if (!key || !key.trim()) {
+                result.issues.push({ record, error: 'missingKey' })
+                return
+            }
+            pushRecord(result, record, key, expiryIndex >= 0 ? row[expiryIndex] : null)
+        })
+        return result
+    }
+
+    splitText(text, options).forEach((chunk, index) => pushRecord(result, index + 1, chunk, null))
+    return result
+}
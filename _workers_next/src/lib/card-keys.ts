@@ -0,0 +1,84 @@
+import { db } from "@/lib/db"
+import { cards, orderItems, orders } from "@/lib/db/schema"
+import { eq, sql } from "drizzle-orm"
+import { decryptCardKey, encryptCardKey, hashCardKey, isCardEncryptionEnabled } from "@/lib/card-crypto"
+
+const ENCRYPTED_PATTERN = 'enc:v1:%'
+
+// Rows the migration still has to touch; without a secret only missing hashes are filled in
+function pendingCardsWhere() {
+    return isCardEncryptionEnabled()
+        ? sql`(${cards.cardKey} NOT LIKE ${ENCRYPTED_PATTERN} OR ${cards.keyHash} IS NULL OR ${cards.keyHash} NOT LIKE 'hmac:%')`
+        : sql`${cards.keyHash} IS NULL`
+}
+
+function pendingOrdersWhere() {
+    return sql`${orders.cardKey} IS NOT NULL AND ${orders.cardKey} != '' AND ${orders.cardKey} NOT LIKE ${ENCRYPTED_PATTERN}`
+}
+
+function pendingOrderItemsWhere() {
+    return sql`${orderItems.cardKey} IS NOT NULL AND ${orderItems.cardKey} != '' AND ${orderItems.cardKey} NOT LIKE ${ENCRYPTED_PATTERN}`
+}
+
+export async function getCardKeyStorageStatus() {
+    const enabled = isCardEncryptionEnabled()
+    const count = async (query: Promise<Array<{ count: number }>>) => Number((await query)[0]?.count || 0)
+    const [pendingCards, pendingOrders, pendingItems] = await Promise.all([
+        count(db.select({ count: sql<number>`count(*)` }).from(cards).where(pendingCardsWhere())),
+        enabled ? count(db.select({ count: sql<number>`count(*)` }).from(orders).where(pendingOrdersWhere())) : 0,
+        enabled ? count(db.select({ count: sql<number>`count(*)` }).from(orderItems).where(pendingOrderItemsWhere())).catch(() => 0) : 0,
+    ])
+    return { enabled, pendingCards, pendingOrders: pendingOrders + pendingItems }
+}
+
+/**
+ * One pass of the at-rest migration: encrypt plaintext keys (stock, delivered
+ * orders and cart lines) and (re)hash stock. Runs in small batches so a single
+ * request stays inside the Workers CPU budget; call until nothing is left.
+ */
+export async function encryptExistingCardKeys(batchSize = 100) {
+    const enabled = isCardEncryptionEnabled()
+    let processed = 0
+
+    const stock = await db.select({ id: cards.id, cardKey: cards.cardKey })
+        .from(cards)
+        .where(pendingCardsWhere())
+        .limit(batchSize)
+    for (const row of stock) {
+        const plain = await decryptCardKey(row.cardKey)
+        await db.update(cards)
+            .set({ cardKey: await encryptCardKey(plain), keyHash: await hashCardKey(plain) })
+            .where(eq(cards.id, row.id))
+        processed++
+    }
+
+    if (enabled) {
+        const delivered = await db.select({ orderId: orders.orderId, cardKey: orders.cardKey })
+            .from(orders)
+            .where(pendingOrdersWhere())
+            .limit(batchSize)
+        for (const row of delivered) {
+            await db.update(orders)
+                .set({ cardKey: await encryptCardKey(row.cardKey) })
+                .where(eq(orders.orderId, row.orderId))
+            processed++
+        }
+
+        try {
+            const lines = await db.select({ id: orderItems.id, cardKey: orderItems.cardKey })
+                .from(orderItems)
+                .where(pendingOrderItemsWhere())
+                .limit(batchSize)
+            for (const row of lines) {
+                await db.update(orderItems)
+                    .set({ cardKey: await encryptCardKey(row.cardKey) })
+                    .where(eq(orderItems.id, row.id))
+                processed++
+            }
+        } catch {
+            // order_items may not exist on old databases
+        }
+    }
+
+    return { processed, ...(await getCardKeyStorageStatus()) }
+}
@@ -0,0 +1,7 @@
+export const CART_PRODUCT_ID = 'cart'
+export const CART_COOKIE = 'ldc_cart'
+export const MAX_CART_LINES = 20
+
+export function isCartOrder(productId?: string | null) {
+    return productId === CART_PRODUCT_ID
+}
@@ -0,0 +1,144 @@
+import { db } from "@/lib/db"
+import { dailyCheckins } from "@/lib/db/schema"
+import { ensureDailyCheckinsSchema, getSetting } from "@/lib/db/queries"
+import { and, desc, eq, gte, lte } from "drizzle-orm"
+
+export interface StreakBonus {
+    /** Streak length (in days) that earns the bonus */
+    days: number
+    bonus: number
+}
+
+export interface CheckinRules {
+    timeZone: string
+    reward: number
+    streakBonuses: StreakBonus[]
+    /** Points a make-up check-in costs; 0 turns make-ups off */
+    makeUpCost: number
+    /** How many days back a missed day can still be made up */
+    makeUpDays: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_STREAK_LOOKBACK = 400
+
+export function isValidTimeZone(timeZone: string) {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone }).format(0)
+        return true
+    } catch {
+        return false
+    }
+}
+
+/** Calendar day (YYYY-MM-DD) of `ms` in `timeZone` */
+export function checkinDay(ms: number, timeZone: string) {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).formatToParts(new Date(ms))
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || ''
+    return `${get('year')}-${get('month')}-${get('day')}`
+}
+
+export function shiftDay(day: string, days: number) {
+    const [y, m, d] = day.split('-').map(Number)
+    return new Date(Date.UTC(y, m - 1, d) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+export function isDayString(value: string) {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && shiftDay(value, 0) === value
+}
+
+/** "7:20, 30:100" → [{ days: 7, bonus: 20 }, { days: 30, bonus: 100 }] */
+export function parseStreakBonuses(raw: string | null | undefined): StreakBonus[] {
+    const text = String(raw || '').trim()
+    if (!text) return []
+    let entries: StreakBonus[] = []
+    if (text.startsWith('[')) {
+        try {
+            const parsed = JSON.parse(text)
+            if (Array.isArray(parsed)) {
+                entries = parsed.map((e: any) => ({ days: Number(e?.days), bonus: Number(e?.bonus) }))
+            }
+        } catch {
+            return []
+        }
+    } else {
+        entries = text.split(/[,\n]/).map((part) => {
+            const [days, bonus] = part.split(':').map((v) => Number(v.trim()))
+            return { days, bonus }
+        })
+    }
+    const byDays = new Map<number, number>()
+    for (const { days, bonus } of entries) {
+        if (Number.isInteger(days) && days > 1 && Number.isInteger(bonus) && bonus > 0) byDays.set(days, bonus)
+    }
+    return Array.from(byDays, ([days, bonus]) => ({ days, bonus })).sort((a, b) => a.days - b.days)
+}
+
+export function formatStreakBonuses(bonuses: StreakBonus[]) {
+    return bonuses.map((b) => `${b.days}:${b.bonus}`).join(', ')
+}
+
+export function getStreakBonus(streak: number, bonuses: StreakBonus[]) {
+    return bonuses.find((b) => b.days === streak)?.bonus || 0
+}
+
+/**
+ * Bonuses a make-up earns once it joins two runs. Each run was already paid the
+ * thresholds it reached on its own, so only days past the longer run count.
+ */
+export function getMakeUpStreakBonuses(joined: number, runs: number[], bonuses: StreakBonus[]) {
+    const reached = Math.max(0, ...runs)
+    return bonuses.filter((b) => b.days > reached && b.days <= joined)
+}
+
+export async function getCheckinRules(): Promise<CheckinRules> {
+    const [tz, reward, bonuses, cost, window] = await Promise.all([
+        getSetting('checkin_timezone').catch(() => null),
+        getSetting('checkin_reward').catch(() => null),
+        getSetting('checkin_streak_bonuses').catch(() => null),
+        getSetting('checkin_makeup_cost').catch(() => null),
+        getSetting('checkin_makeup_days').catch(() => null),
+    ])
+    const timeZone = tz && isValidTimeZone(tz) ? tz : 'UTC'
+    const makeUpCost = Number.parseInt(cost || '0', 10)
+    const makeUpDays = Number.parseInt(window || '7', 10)
+    return {
+        timeZone,
+        reward: Number.parseInt(reward || '10', 10) || 10,
+        streakBonuses: parseStreakBonuses(bonuses),
+        makeUpCost: Number.isFinite(makeUpCost) && makeUpCost > 0 ? makeUpCost : 0,
+        makeUpDays: Number.isFinite(makeUpDays) && makeUpDays > 0 ? Math.min(makeUpDays, 31) : 0,
+    }
+}
+
+/** Days the user checked in between `from` and `to` (inclusive) */
+export async function getCheckinDays(userId: string, from: string, to: string) {
+    await ensureDailyCheckinsSchema()
+    const rows = await db.select({ day: dailyCheckins.day, isMakeup: dailyCheckins.isMakeup })
+        .from(dailyCheckins)
+        .where(and(eq(dailyCheckins.userId, userId), gte(dailyCheckins.day, from), lte(dailyCheckins.day, to)))
+    return rows.filter((r): r is { day: string; isMakeup: boolean | null } => !!r.day)
+}
+
+/** Length of the unbroken run of check-ins ending on `endDay` */
+export async function countStreak(userId: string, endDay: string) {
+    await ensureDailyCheckinsSchema()
+    const rows = await db.select({ day: dailyCheckins.day })
+        .from(dailyCheckins)
+        .where(and(eq(dailyCheckins.userId, userId), lte(dailyCheckins.day, endDay)))
+        .orderBy(desc(dailyCheckins.day))
+        .limit(MAX_STREAK_LOOKBACK)
+    let expected = endDay
+    let streak = 0
+    for (const row of rows) {
+        if (row.day !== expected) break
+        streak++
+        expected = shiftDay(expected, -1)
+    }
+    return streak
+}
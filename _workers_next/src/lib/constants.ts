@@ -1,2 +1,4 @@
 export const INFINITE_STOCK = 999999;
 export const RESERVATION_TTL_MS = 5 * 60 * 1000;
+export const REFERRAL_COOKIE = 'ldc_ref';
+export const REFERRAL_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
@@ -0,0 +1,175 @@
+import { db } from "@/lib/db"
+import { coupons, couponRedemptions } from "@/lib/db/schema"
+import { ensureCouponTables } from "@/lib/db/queries"
+import { and, desc, eq, or, sql } from "drizzle-orm"
+
+export type CouponType = 'percent' | 'fixed'
+export type CouponScope = 'all' | 'product' | 'category'
+
+export interface CouponLine {
+    productId: string
+    category?: string | null
+    amount: number
+}
+
+export interface CouponQuote {
+    couponId: number
+    code: string
+    discount: number
+    allowPoints: boolean
+}
+
+export type CouponQuoteResult =
+    | { success: true; quote: CouponQuote }
+    | { success: false; error: string }
+
+export function normalizeCouponCode(code?: string | null) {
+    return (code || '').trim().toUpperCase()
+}
+
+function splitScopeValues(value?: string | null) {
+    return (value || '').split(',').map((v) => v.trim()).filter(Boolean)
+}
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100
+}
+
+export async function getCoupons() {
+    await ensureCouponTables()
+    return await db.select().from(coupons).orderBy(desc(coupons.createdAt))
+}
+
+/**
+ * Validate a code against the lines being bought and work out the discount.
+ * Does not consume a use; call `claimCouponUse` once the order is about to be created.
+ */
+export async function quoteCoupon(params: {
+    code: string
+    lines: CouponLine[]
+    userId?: string | null
+    email?: string | null
+}): Promise<CouponQuoteResult> {
+    const code = normalizeCouponCode(params.code)
+    if (!code) return { success: false, error: 'coupon.invalid' }
+
+    await ensureCouponTables()
+    const coupon = await db.query.coupons.findFirst({ where: eq(coupons.code, code) })
+    if (!coupon || coupon.isActive === false) return { success: false, error: 'coupon.invalid' }
+
+    const now = Date.now()
+    if (coupon.startsAt && coupon.startsAt.getTime() > now) return { success: false, error: 'coupon.notStarted' }
+    if (coupon.endsAt && coupon.endsAt.getTime() <= now) return { success: false, error: 'coupon.expired' }
+    if (coupon.maxUses && coupon.maxUses > 0 && (coupon.usedCount || 0) >= coupon.maxUses) {
+        return { success: false, error: 'coupon.exhausted' }
+    }
+
+    if (coupon.perUserLimit && coupon.perUserLimit > 0) {
+        const owners = []
+        if (params.userId) owners.push(eq(couponRedemptions.userId, params.userId))
+        if (params.email) owners.push(eq(couponRedemptions.email, params.email))
+        if (owners.length === 0) return { success: false, error: 'coupon.loginRequired' }
+
+        const rows = await db.select({ count: sql<number>`count(*)` })
+            .from(couponRedemptions)
+            .where(and(
+                eq(couponRedemptions.couponId, coupon.id),
+                eq(couponRedemptions.status, 'active'),
+                or(...owners)
+            ))
+        if (Number(rows[0]?.count || 0) >= coupon.perUserLimit) {
+            return { success: false, error: 'coupon.userLimitReached' }
+        }
+    }
+
+    const scopeValues = splitScopeValues(coupon.scopeValue)
+    const eligible = params.lines.filter((line) => {
+        if (coupon.scope === 'product') return scopeValues.includes(line.productId)
+        if (coupon.scope === 'category') return !!line.category && scopeValues.includes(line.category)
+        return true
+    })
+    if (eligible.length === 0) return { success: false, error: 'coupon.notApplicable' }
+
+    const eligibleTotal = eligible.reduce((sum, line) => sum + line.amount, 0)
+    const minSpend = Number(coupon.minSpend || 0)
+    if (minSpend > 0 && eligibleTotal < minSpend) return { success: false, error: 'coupon.minSpendNotMet' }
+
+    const value = Number(coupon.value)
+    const rawDiscount = coupon.type === 'fixed' ? value : eligibleTotal * value / 100
+    const discount = roundMoney(Math.min(Math.max(0, rawDiscount), eligibleTotal))
+    if (!(discount > 0)) return { success: false, error: 'coupon.notApplicable' }
+
+    return {
+        success: true,
+        quote: {
+            couponId: coupon.id,
+            code: coupon.code,
+            discount,
+            allowPoints: coupon.allowPoints !== false
+        }
+    }
+}
+
+// Atomically take one use, respecting the global cap
+export async function claimCouponUse(couponId: number) {
+    const result: any = await db.run(sql`
+        UPDATE coupons
+        SET used_count = used_count + 1, updated_at = ${Date.now()}
+        WHERE id = ${couponId}
+          AND (max_uses IS NULL OR max_uses <= 0 OR used_count < max_uses)
+        RETURNING id
+    `)
+    const rows = result?.results || result?.rows || []
+    return rows.length > 0
+}
+
+export async function unclaimCouponUse(couponId: number) {
+    await db.run(sql`
+        UPDATE coupons
+        SET used_count = MAX(used_count - 1, 0), updated_at = ${Date.now()}
+        WHERE id = ${couponId}
+    `)
+}
+
+export async function recordCouponRedemption(params: {
+    couponId: number
+    orderId: string
+    userId?: string | null
+    email?: string | null
+    discount: number
+}) {
+    await db.insert(couponRedemptions).values({
+        couponId: params.couponId,
+        orderId: params.orderId,
+        userId: params.userId || null,
+        email: params.email || null,
+        discount: params.discount.toFixed(2),
+        status: 'active',
+        createdAt: new Date()
+    })
+}
+
+/**
+ * Give the coupon use back when an order is cancelled or refunded.
+ * Safe to call repeatedly: only active redemptions are restored.
+ */
+export async function releaseCouponForOrder(orderId: string) {
+    try {
+        await ensureCouponTables()
+        const result: any = await db.run(sql`
+            UPDATE coupon_redemptions
+            SET status = 'restored'
+            WHERE order_id = ${orderId} AND status = 'active'
+            RETURNING coupon_id
+        `)
+        const rows = result?.results || result?.rows || []
+        for (const row of rows) {
+            const couponId = Number(row.coupon_id ?? row.couponId)
+            if (couponId) await unclaimCouponUse(couponId)
+        }
+        return rows.length
+    } catch (error) {
+        console.error('[Coupon] Release failed for order', orderId, error)
+        return 0
+    }
+}
@@ -1,7 +1,10 @@
 import { db } from "./index";
-import { products, cards, orders, settings, reviews, loginUsers, categories, userNotifications, wishlistItems, wishlistVotes } from "./schema";
+import { products, productVariants, productPriceTiers, cards, orders, orderItems, cartItems, settings, reviews, loginUsers, categories, userNotifications, wishlistItems, wishlistVotes } from "./schema";
+import { isCartOrder } from "@/lib/cart";
+import { resolveUnitPrice, type PriceTier } from "@/lib/pricing";
+import { flashSalePrice, getFlashSaleState, type FlashSaleFields, type FlashSaleState } from "@/lib/flash-sale";
 import { INFINITE_STOCK, RESERVATION_TTL_MS } from "@/lib/constants";
-import { eq, sql, desc, and, asc, gte, or, inArray, lte, lt } from "drizzle-orm";
+import { eq, sql, desc, and, asc, gte, or, inArray, lte, lt, isNull } from "drizzle-orm";
 import { updateTag, revalidatePath } from "next/cache";
 import { cache } from "react";
 
@@ -9,7 +12,22 @@ import { cache } from "react";
 let dbInitialized = false;
 let loginUsersSchemaReady = false;
 let wishlistTablesReady = false;
-const CURRENT_SCHEMA_VERSION = 15;
+let cartTablesReady = false;
+let couponTablesReady = false;
+let paymentEventsTableReady = false;
+let orderEventsTableReady = false;
+let productVariantsTableReady = false;
+let priceTiersTableReady = false;
+let memberDiscountsTableReady = false;
+let pointsTransactionsTableReady = false;
+let dailyCheckinsSchemaReady = false;
+let referralsTableReady = false;
+let adminRolesTableReady = false;
+let adminAuditLogTableReady = false;
+let webhookTablesReady = false;
+let notificationChannelsTableReady = false;
+let emailOutboxTableReady = false;
+const CURRENT_SCHEMA_VERSION = 37;
 
 async function ensureCardKeyDuplicatesAllowed() {
     try {
@@ -39,6 +57,7 @@ async function ensureIndexes() {
         `CREATE INDEX IF NOT EXISTS cards_product_used_reserved_idx ON cards(product_id, is_used, reserved_at)`,
         `CREATE INDEX IF NOT EXISTS cards_reserved_order_idx ON cards(reserved_order_id)`,
         `CREATE INDEX IF NOT EXISTS cards_expires_at_idx ON cards(expires_at)`,
+        `CREATE INDEX IF NOT EXISTS cards_product_key_hash_idx ON cards(product_id, key_hash)`,
         `CREATE INDEX IF NOT EXISTS orders_status_paid_at_idx ON orders(status, paid_at)`,
         `CREATE INDEX IF NOT EXISTS orders_status_created_at_idx ON orders(status, created_at)`,
         `CREATE INDEX IF NOT EXISTS orders_user_status_created_at_idx ON orders(user_id, status, created_at)`,
@@ -56,6 +75,34 @@ async function ensureIndexes() {
         `CREATE INDEX IF NOT EXISTS wishlist_items_created_idx ON wishlist_items(created_at)`,
         `CREATE INDEX IF NOT EXISTS wishlist_votes_item_idx ON wishlist_votes(item_id, created_at)`,
         `CREATE UNIQUE INDEX IF NOT EXISTS wishlist_votes_item_user_uq ON wishlist_votes(item_id, user_id)`,
+        `CREATE INDEX IF NOT EXISTS order_items_order_idx ON order_items(order_id)`,
+        `CREATE INDEX IF NOT EXISTS order_items_product_idx ON order_items(product_id)`,
+        `CREATE INDEX IF NOT EXISTS cart_items_user_idx ON cart_items(user_id, product_id)`,
+        `CREATE INDEX IF NOT EXISTS cart_items_session_idx ON cart_items(session_id, product_id)`,
+        `CREATE INDEX IF NOT EXISTS coupon_redemptions_coupon_idx ON coupon_redemptions(coupon_id, status)`,
+        `CREATE INDEX IF NOT EXISTS coupon_redemptions_order_idx ON coupon_redemptions(order_id)`,
+        `CREATE INDEX IF NOT EXISTS payment_events_order_idx ON payment_events(order_id, created_at)`,
+        `CREATE INDEX IF NOT EXISTS payment_events_created_idx ON payment_events(created_at)`,
+        `CREATE INDEX IF NOT EXISTS order_events_order_idx ON order_events(order_id, created_at)`,
+        `CREATE INDEX IF NOT EXISTS product_variants_product_idx ON product_variants(product_id, sort_order)`,
+        `CREATE INDEX IF NOT EXISTS cards_product_variant_idx ON cards(product_id, variant_id, is_used)`,
+        `CREATE INDEX IF NOT EXISTS orders_variant_idx ON orders(variant_id)`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS product_price_tiers_product_qty_uq ON product_price_tiers(product_id, min_quantity)`,
+        `CREATE INDEX IF NOT EXISTS member_discounts_active_idx ON member_discounts(is_active, product_id)`,
+        `CREATE INDEX IF NOT EXISTS points_transactions_user_created_idx ON points_transactions(user_id, created_at)`,
+        `CREATE INDEX IF NOT EXISTS points_transactions_order_idx ON points_transactions(order_id)`,
+        `CREATE INDEX IF NOT EXISTS points_transactions_expires_idx ON points_transactions(expires_at, remaining)`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS daily_checkins_user_day_uq ON daily_checkins_v2(user_id, day)`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS referrals_invitee_uq ON referrals(invitee_id)`,
+        `CREATE INDEX IF NOT EXISTS referrals_inviter_idx ON referrals(inviter_id, status, rewarded_at)`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS login_users_referral_code_uq ON login_users(referral_code)`,
+        `CREATE INDEX IF NOT EXISTS admin_audit_log_created_idx ON admin_audit_log(created_at)`,
+        `CREATE INDEX IF NOT EXISTS admin_audit_log_admin_idx ON admin_audit_log(admin_username, created_at)`,
+        `CREATE INDEX IF NOT EXISTS admin_audit_log_action_idx ON admin_audit_log(action, created_at)`,
+        `CREATE INDEX IF NOT EXISTS webhook_deliveries_status_next_idx ON webhook_deliveries(status, next_attempt_at)`,
+        `CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_created_idx ON webhook_deliveries(endpoint_id, created_at)`,
+        `CREATE INDEX IF NOT EXISTS email_outbox_status_next_idx ON email_outbox(status, next_attempt_at)`,
+        `CREATE INDEX IF NOT EXISTS email_outbox_created_idx ON email_outbox(created_at)`,
     ];
 
     // ... rest of ensureIndexes ...
@@ -109,6 +156,7 @@ async function ensureDatabaseInitialized() {
         // IMPORTANT: Even if table exists, ensure columns exist!
         await ensureProductsColumns();
         await ensureOrdersColumns();
+        await ensureRefundColumns();
         await ensureCardsColumns();
         await ensureCardKeyDuplicatesAllowed();
         await ensureLoginUsersTable();
@@ -119,6 +167,21 @@ async function ensureDatabaseInitialized() {
         await ensureUserMessagesTable();
         await ensureBroadcastTables();
         await ensureWishlistTables();
+        await ensureCartTables();
+        await ensureCouponTables();
+        await ensurePaymentEventsTable();
+        await ensureOrderEventsTable();
+        await ensureProductVariantsTable();
+        await ensurePriceTiersTable();
+        await ensureMemberDiscountsTable();
+        await ensurePointsTransactionsTable();
+        await ensureDailyCheckinsSchema();
+        await ensureReferralsTable();
+        await ensureAdminRolesTable();
+        await ensureAdminAuditLogTable();
+        await ensureWebhookTables();
+        await ensureNotificationChannelsTable();
+        await ensureEmailOutboxTable();
         await migrateTimestampColumnsToMs();
         await ensureIndexes();
         await backfillProductAggregates();
@@ -156,6 +219,15 @@ async function ensureDatabaseInitialized() {
             stock_count INTEGER DEFAULT 0,
             locked_count INTEGER DEFAULT 0,
             sold_count INTEGER DEFAULT 0,
+            publish_at INTEGER,
+            unpublish_at INTEGER,
+            sale_price TEXT,
+            sale_starts_at INTEGER,
+            sale_ends_at INTEGER,
+            sale_quantity INTEGER,
+            low_stock_threshold INTEGER,
+            stock_alert TEXT,
+            sold_out_state TEXT,
             created_at INTEGER DEFAULT (unixepoch() * 1000)
         );
         
@@ -164,11 +236,13 @@ async function ensureDatabaseInitialized() {
             id INTEGER PRIMARY KEY AUTOINCREMENT,
             product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
             card_key TEXT NOT NULL,
+            key_hash TEXT,
             is_used INTEGER DEFAULT 0,
             reserved_order_id TEXT,
             reserved_at INTEGER,
             expires_at INTEGER,
             used_at INTEGER,
+            variant_id INTEGER,
             created_at INTEGER DEFAULT (unixepoch() * 1000)
         );
         
@@ -191,6 +265,17 @@ async function ensureDatabaseInitialized() {
             points_used INTEGER DEFAULT 0,
             quantity INTEGER DEFAULT 1,
             current_payment_id TEXT,
+            coupon_code TEXT,
+            discount_amount TEXT,
+            payment_provider TEXT,
+            variant_id INTEGER,
+            variant_name TEXT,
+            member_discount TEXT,
+            member_discount_rule TEXT,
+            refunded_amount TEXT,
+            refunded_quantity INTEGER DEFAULT 0,
+            refunded_points INTEGER DEFAULT 0,
+            refunded_card_ids TEXT,
             created_at INTEGER DEFAULT (unixepoch() * 1000)
         );
         
@@ -201,6 +286,8 @@ async function ensureDatabaseInitialized() {
             points INTEGER DEFAULT 0,
             is_blocked INTEGER DEFAULT 0,
             desktop_notifications_enabled INTEGER DEFAULT 0,
+            tag TEXT,
+            referral_code TEXT,
             created_at INTEGER DEFAULT (unixepoch() * 1000),
             last_login_at INTEGER DEFAULT (unixepoch() * 1000)
         );
@@ -209,6 +296,8 @@ async function ensureDatabaseInitialized() {
         CREATE TABLE IF NOT EXISTS daily_checkins_v2 (
             id INTEGER PRIMARY KEY AUTOINCREMENT,
             user_id TEXT NOT NULL REFERENCES login_users(user_id) ON DELETE CASCADE,
+            day TEXT,
+            is_makeup INTEGER DEFAULT 0,
             created_at INTEGER DEFAULT (unixepoch() * 1000)
         );
         
@@ -252,6 +341,11 @@ async function ensureDatabaseInitialized() {
             status TEXT DEFAULT 'pending',
             admin_username TEXT,
             admin_note TEXT,
+            refund_amount TEXT,
+            refund_quantity INTEGER,
+            refund_method TEXT,
+            refund_points INTEGER,
+            card_ids TEXT,
             created_at INTEGER DEFAULT (unixepoch() * 1000),
             updated_at INTEGER DEFAULT (unixepoch() * 1000),
             processed_at INTEGER
@@ -327,6 +421,232 @@ async function ensureDatabaseInitialized() {
         );
 
         CREATE UNIQUE INDEX IF NOT EXISTS wishlist_votes_item_user_uq ON wishlist_votes(item_id, user_id);
+
+        -- Order line items
+        CREATE TABLE IF NOT EXISTS order_items (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+            product_id TEXT NOT NULL,
+            product_name TEXT NOT NULL,
+            price TEXT NOT NULL,
+            quantity INTEGER NOT NULL DEFAULT 1,
+            amount TEXT NOT NULL,
+            card_key TEXT,
+            card_ids TEXT,
+            refunded_quantity INTEGER DEFAULT 0,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        -- Shopping cart
+        CREATE TABLE IF NOT EXISTS cart_items (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT,
+            session_id TEXT,
+            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+            quantity INTEGER NOT NULL DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        -- Coupons
+        CREATE TABLE IF NOT EXISTS coupons (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            code TEXT NOT NULL UNIQUE,
+            type TEXT NOT NULL DEFAULT 'percent',
+            value TEXT NOT NULL,
+            scope TEXT NOT NULL DEFAULT 'all',
+            scope_value TEXT,
+            min_spend TEXT,
+            max_uses INTEGER,
+            per_user_limit INTEGER,
+            used_count INTEGER NOT NULL DEFAULT 0,
+            allow_points INTEGER DEFAULT 1,
+            is_active INTEGER DEFAULT 1,
+            starts_at INTEGER,
+            ends_at INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+        
+        -- Coupon redemptions
+        CREATE TABLE IF NOT EXISTS coupon_redemptions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            coupon_id INTEGER NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+            order_id TEXT NOT NULL,
+            user_id TEXT,
+            email TEXT,
+            discount TEXT NOT NULL,
+            status TEXT DEFAULT 'active',
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS payment_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT,
+            out_trade_no TEXT,
+            provider TEXT,
+            source TEXT DEFAULT 'notify',
+            method TEXT,
+            raw_params TEXT,
+            signature_valid INTEGER DEFAULT 0,
+            trade_status TEXT,
+            trade_no TEXT,
+            amount TEXT,
+            result TEXT NOT NULL,
+            status_before TEXT,
+            status_after TEXT,
+            error TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS order_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT NOT NULL,
+            from_status TEXT,
+            to_status TEXT NOT NULL,
+            actor TEXT NOT NULL DEFAULT 'system',
+            reason TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS product_variants (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+            name TEXT NOT NULL,
+            price TEXT NOT NULL,
+            compare_at_price TEXT,
+            purchase_limit INTEGER,
+            sort_order INTEGER DEFAULT 0,
+            is_active INTEGER DEFAULT 1,
+            stock_count INTEGER DEFAULT 0,
+            locked_count INTEGER DEFAULT 0,
+            sold_count INTEGER DEFAULT 0,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS product_price_tiers (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+            min_quantity INTEGER NOT NULL,
+            price TEXT NOT NULL,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS member_discounts (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            name TEXT NOT NULL,
+            product_id TEXT,
+            min_trust_level INTEGER,
+            user_tag TEXT,
+            percent_off INTEGER NOT NULL,
+            is_active INTEGER DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS points_transactions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL,
+            delta INTEGER NOT NULL,
+            balance_after INTEGER,
+            reason TEXT NOT NULL,
+            order_id TEXT,
+            actor TEXT NOT NULL DEFAULT 'system',
+            note TEXT,
+            remaining INTEGER,
+            expires_at INTEGER,
+            expiry_notified_at INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS referrals (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            inviter_id TEXT NOT NULL,
+            invitee_id TEXT NOT NULL,
+            code TEXT,
+            status TEXT DEFAULT 'pending',
+            order_id TEXT,
+            inviter_points INTEGER DEFAULT 0,
+            invitee_points INTEGER DEFAULT 0,
+            note TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            rewarded_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS admin_roles (
+            user_id TEXT PRIMARY KEY,
+            role TEXT NOT NULL,
+            granted_by TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS admin_audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            admin_id TEXT,
+            admin_username TEXT,
+            action TEXT NOT NULL,
+            target_type TEXT,
+            target_id TEXT,
+            changes TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS webhook_endpoints (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            url TEXT NOT NULL,
+            secret TEXT NOT NULL,
+            events TEXT NOT NULL,
+            description TEXT,
+            is_active INTEGER DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            endpoint_id INTEGER NOT NULL,
+            event TEXT NOT NULL,
+            event_id TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            status TEXT DEFAULT 'pending',
+            attempts INTEGER DEFAULT 0,
+            next_attempt_at INTEGER,
+            response_status INTEGER,
+            response_body TEXT,
+            error TEXT,
+            duration_ms INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS notification_channels (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            type TEXT NOT NULL,
+            name TEXT NOT NULL,
+            config TEXT NOT NULL,
+            events TEXT NOT NULL,
+            language TEXT DEFAULT 'zh',
+            is_active INTEGER DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+
+        CREATE TABLE IF NOT EXISTS email_outbox (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            kind TEXT NOT NULL,
+            to_address TEXT NOT NULL,
+            subject TEXT NOT NULL,
+            html TEXT,
+            status TEXT DEFAULT 'pending',
+            attempts INTEGER DEFAULT 0,
+            next_attempt_at INTEGER,
+            transport TEXT,
+            provider_id TEXT,
+            error TEXT,
+            sent_at INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
     `);
 
     await migrateTimestampColumnsToMs();
@@ -358,6 +678,15 @@ async function ensureProductsColumns() {
     await safeAddColumn('products', 'sold_count', 'INTEGER DEFAULT 0');
     await safeAddColumn('products', 'rating', 'REAL DEFAULT 0');
     await safeAddColumn('products', 'review_count', 'INTEGER DEFAULT 0');
+    await safeAddColumn('products', 'publish_at', 'INTEGER');
+    await safeAddColumn('products', 'unpublish_at', 'INTEGER');
+    await safeAddColumn('products', 'sale_price', 'TEXT');
+    await safeAddColumn('products', 'sale_starts_at', 'INTEGER');
+    await safeAddColumn('products', 'sale_ends_at', 'INTEGER');
+    await safeAddColumn('products', 'sale_quantity', 'INTEGER');
+    await safeAddColumn('products', 'low_stock_threshold', 'INTEGER');
+    await safeAddColumn('products', 'stock_alert', 'TEXT');
+    await safeAddColumn('products', 'sold_out_state', 'TEXT');
 }
 
 async function ensureOrdersColumns() {
@@ -365,18 +694,51 @@ async function ensureOrdersColumns() {
     await safeAddColumn('orders', 'current_payment_id', 'TEXT');
     await safeAddColumn('orders', 'payee', 'TEXT');
     await safeAddColumn('orders', 'card_ids', 'TEXT');
+    await safeAddColumn('orders', 'coupon_code', 'TEXT');
+    await safeAddColumn('orders', 'discount_amount', 'TEXT');
+    await safeAddColumn('orders', 'payment_provider', 'TEXT');
+    await safeAddColumn('orders', 'variant_id', 'INTEGER');
+    await safeAddColumn('orders', 'variant_name', 'TEXT');
+    await safeAddColumn('orders', 'member_discount', 'TEXT');
+    await safeAddColumn('orders', 'member_discount_rule', 'TEXT');
+    await safeAddColumn('orders', 'refunded_amount', 'TEXT');
+    await safeAddColumn('orders', 'refunded_quantity', 'INTEGER DEFAULT 0');
+    await safeAddColumn('orders', 'refunded_points', 'INTEGER DEFAULT 0');
+    await safeAddColumn('orders', 'refunded_card_ids', 'TEXT');
+}
+
+// Tables created lazily elsewhere; only touched once they exist
+export async function ensureRefundColumns() {
+    for (const [table, column, definition] of [
+        ['refund_requests', 'refund_amount', 'TEXT'],
+        ['refund_requests', 'refund_quantity', 'INTEGER'],
+        ['refund_requests', 'card_ids', 'TEXT'],
+        ['refund_requests', 'refund_method', 'TEXT'],
+        ['refund_requests', 'refund_points', 'INTEGER'],
+        ['order_items', 'refunded_quantity', 'INTEGER DEFAULT 0'],
+    ]) {
+        try {
+            await safeAddColumn(table, column, definition);
+        } catch (error: any) {
+            if (!isMissingTable(error)) throw error;
+        }
+    }
 }
 
 async function ensureCardsColumns() {
     await safeAddColumn('cards', 'reserved_order_id', 'TEXT');
     await safeAddColumn('cards', 'reserved_at', 'INTEGER');
     await safeAddColumn('cards', 'expires_at', 'INTEGER');
+    await safeAddColumn('cards', 'variant_id', 'INTEGER');
+    await safeAddColumn('cards', 'key_hash', 'TEXT');
 }
 
 async function ensureLoginUsersColumns() {
     await safeAddColumn('login_users', 'last_checkin_at', 'INTEGER');
     await safeAddColumn('login_users', 'consecutive_days', 'INTEGER DEFAULT 0');
     await safeAddColumn('login_users', 'desktop_notifications_enabled', 'INTEGER DEFAULT 0');
+    await safeAddColumn('login_users', 'tag', 'TEXT');
+    await safeAddColumn('login_users', 'referral_code', 'TEXT');
 }
 
 export async function ensureLoginUsersSchema() {
@@ -430,7 +792,7 @@ export async function recalcProductAggregates(productId: string) {
 
     const product = await db.query.products.findFirst({
         where: eq(products.id, pid),
-        columns: { isShared: true, fulfillmentType: true }
+        columns: { name: true, isShared: true, fulfillmentType: true, stockCount: true, lockedCount: true }
     });
     if (!product) return;
 
@@ -460,7 +822,7 @@ export async function recalcProductAggregates(productId: string) {
     let soldCount = 0;
     try {
         const soldRows = await db.select({
-            total: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'delivered') THEN ${orders.quantity} ELSE 0 END), 0)`
+            total: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'delivered', 'partially_refunded') THEN ${orders.quantity} - COALESCE(${orders.refundedQuantity}, 0) ELSE 0 END), 0)`
         })
             .from(orders)
             .where(eq(orders.productId, pid));
@@ -469,6 +831,19 @@ export async function recalcProductAggregates(productId: string) {
         if (!isMissingTableOrColumn(error)) throw error;
     }
 
+    try {
+        await ensureCartTables();
+        const itemRows = await db.select({
+            total: sql<number>`COALESCE(SUM(${orderItems.quantity} - COALESCE(${orderItems.refundedQuantity}, 0)), 0)`
+        })
+            .from(orderItems)
+            .innerJoin(orders, eq(orderItems.orderId, orders.orderId))
+            .where(and(eq(orderItems.productId, pid), inArray(orders.status, ['paid', 'delivered', 'partially_refunded'])));
+        soldCount += Number(itemRows[0]?.total || 0);
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+
     let rating = 0;
     let reviewCount = 0;
     try {
@@ -488,7 +863,12 @@ export async function recalcProductAggregates(productId: string) {
     // Shared card = infinite stock if at least 1 unused card
     // Regular card = available count
     const isDynamic = product.fulfillmentType === 'siyuan_token';
-    const stockCount = isDynamic ? INFINITE_STOCK : (product.isShared ? (unusedCount > 0 ? INFINITE_STOCK : 0) : availableCount);
+    // Products with variants sell from the variant pools only
+    const variantTotals = await recalcVariantAggregates(pid, { isShared: !!product.isShared, isDynamic });
+    const stockCount = variantTotals
+        ? variantTotals.stockCount
+        : (isDynamic ? INFINITE_STOCK : (product.isShared ? (unusedCount > 0 ? INFINITE_STOCK : 0) : availableCount));
+    if (variantTotals) lockedCount = variantTotals.lockedCount;
 
     await db.update(products)
         .set({
@@ -499,6 +879,28 @@ export async function recalcProductAggregates(productId: string) {
             reviewCount
         })
         .where(eq(products.id, pid));
+
+    await checkStockAfterRecalc([{
+        id: pid,
+        previous: sellableStock(Number(product.stockCount ?? 0), Number(product.lockedCount ?? 0)),
+        current: sellableStock(stockCount, lockedCount),
+        locked: lockedCount
+    }]);
+}
+
+// Reserved cards still count, so checkouts in progress do not flap the alert level
+function sellableStock(stock: number, locked: number) {
+    return stock >= INFINITE_STOCK ? INFINITE_STOCK : stock + locked;
+}
+
+async function checkStockAfterRecalc(changes: Array<{ id: string; previous: number; current: number; locked: number }>) {
+    try {
+        const { checkStockLevels } = await import("@/lib/stock-alerts");
+        await checkStockLevels(changes);
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return;
+        console.error('[StockAlert] Check failed:', error);
+    }
 }
 
 export async function recalcProductAggregatesForMany(productIds: string[]) {
@@ -521,6 +923,7 @@ export async function recalcProductAggregatesForMany(productIds: string[]) {
     const aggregates = new Map<string, {
         isShared: boolean;
         fulfillmentType: string | null;
+        previous: number;
         unused: number;
         available: number;
         locked: number;
@@ -531,13 +934,14 @@ export async function recalcProductAggregatesForMany(productIds: string[]) {
 
     for (let i = 0; i < ids.length; i += QUERY_BATCH_SIZE) {
         const batch = ids.slice(i, i + QUERY_BATCH_SIZE);
-        const rows = await db.select({ id: products.id, isShared: products.isShared, fulfillmentType: products.fulfillmentType })
+        const rows = await db.select({ id: products.id, isShared: products.isShared, fulfillmentType: products.fulfillmentType, stockCount: products.stockCount, lockedCount: products.lockedCount })
             .from(products)
             .where(inArray(products.id, batch));
         for (const row of rows) {
             aggregates.set(row.id, {
                 isShared: !!row.isShared,
                 fulfillmentType: row.fulfillmentType || 'card',
+                previous: sellableStock(Number(row.stockCount ?? 0), Number(row.lockedCount ?? 0)),
                 unused: 0,
                 available: 0,
                 locked: 0,
@@ -581,7 +985,7 @@ export async function recalcProductAggregatesForMany(productIds: string[]) {
             const batch = existingIds.slice(i, i + QUERY_BATCH_SIZE);
             const soldRows = await db.select({
                 productId: orders.productId,
-                total: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'delivered') THEN ${orders.quantity} ELSE 0 END), 0)`
+                total: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'delivered', 'partially_refunded') THEN ${orders.quantity} - COALESCE(${orders.refundedQuantity}, 0) ELSE 0 END), 0)`
             })
                 .from(orders)
                 .where(inArray(orders.productId, batch))
@@ -597,6 +1001,29 @@ export async function recalcProductAggregatesForMany(productIds: string[]) {
         if (!isMissingTableOrColumn(error)) throw error;
     }
 
+    try {
+        await ensureCartTables();
+        for (let i = 0; i < existingIds.length; i += QUERY_BATCH_SIZE) {
+            const batch = existingIds.slice(i, i + QUERY_BATCH_SIZE);
+            const itemRows = await db.select({
+                productId: orderItems.productId,
+                total: sql<number>`COALESCE(SUM(${orderItems.quantity} - COALESCE(${orderItems.refundedQuantity}, 0)), 0)`
+            })
+                .from(orderItems)
+                .innerJoin(orders, eq(orderItems.orderId, orders.orderId))
+                .where(and(inArray(orderItems.productId, batch), inArray(orders.status, ['paid', 'delivered', 'partially_refunded'])))
+                .groupBy(orderItems.productId);
+
+            for (const row of itemRows) {
+                const agg = aggregates.get(row.productId);
+                if (!agg) continue;
+                agg.sold += Number(row.total || 0);
+            }
+        }
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+
     try {
         for (let i = 0; i < existingIds.length; i += QUERY_BATCH_SIZE) {
             const batch = existingIds.slice(i, i + QUERY_BATCH_SIZE);
@@ -620,14 +1047,39 @@ export async function recalcProductAggregatesForMany(productIds: string[]) {
         if (!isMissingTableOrColumn(error)) throw error;
     }
 
+    const variantTotals = new Map<string, { stockCount: number; lockedCount: number }>();
+    try {
+        await ensureProductVariantsTable();
+        for (let i = 0; i < existingIds.length; i += QUERY_BATCH_SIZE) {
+            const batch = existingIds.slice(i, i + QUERY_BATCH_SIZE);
+            const variantRows = await db.selectDistinct({ productId: productVariants.productId })
+                .from(productVariants)
+                .where(inArray(productVariants.productId, batch));
+            for (const row of variantRows) {
+                const agg = aggregates.get(row.productId);
+                if (!agg) continue;
+                const totals = await recalcVariantAggregates(row.productId, {
+                    isShared: agg.isShared,
+                    isDynamic: agg.fulfillmentType === 'siyuan_token'
+                });
+                if (totals) variantTotals.set(row.productId, totals);
+            }
+        }
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+
     const updates = existingIds.map((id) => {
         const agg = aggregates.get(id)!;
         const isDynamic = agg.fulfillmentType === 'siyuan_token';
-        const stockCount = isDynamic ? INFINITE_STOCK : (agg.isShared ? (agg.unused > 0 ? INFINITE_STOCK : 0) : agg.available);
+        const totals = variantTotals.get(id);
+        const stockCount = totals
+            ? totals.stockCount
+            : (isDynamic ? INFINITE_STOCK : (agg.isShared ? (agg.unused > 0 ? INFINITE_STOCK : 0) : agg.available));
         return {
             id,
             stockCount,
-            lockedCount: agg.locked,
+            lockedCount: totals ? totals.lockedCount : agg.locked,
             soldCount: agg.sold,
             rating: agg.rating,
             reviewCount: agg.reviewCount
@@ -669,6 +1121,41 @@ export async function recalcProductAggregatesForMany(productIds: string[]) {
             WHERE ${inArray(products.id, idsBatch)}
         `);
     }
+
+    await checkStockAfterRecalc(updates.map((row) => ({
+        id: row.id,
+        previous: aggregates.get(row.id)!.previous,
+        current: sellableStock(row.stockCount, row.lockedCount),
+        locked: row.lockedCount
+    })));
+}
+
+export async function getOrderItems(orderId: string) {
+    try {
+        await ensureCartTables();
+        return await db.select()
+            .from(orderItems)
+            .where(eq(orderItems.orderId, orderId))
+            .orderBy(asc(orderItems.id));
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return [];
+        throw error;
+    }
+}
+
+// Cart orders carry their products on order_items rather than orders.product_id
+export async function getOrderProductIds(orderId: string, productId: string | null | undefined) {
+    if (!isCartOrder(productId)) return productId ? [productId] : [];
+    const items = await getOrderItems(orderId);
+    return Array.from(new Set(items.map((item) => item.productId)));
+}
+
+export async function recalcOrderProductAggregates(orderId: string, productId: string | null | undefined) {
+    if (!isCartOrder(productId)) {
+        if (productId) await recalcProductAggregates(productId);
+        return;
+    }
+    await recalcProductAggregatesForMany(await getOrderProductIds(orderId, productId));
 }
 
 export async function getLiveCardStats(productIds: string[]): Promise<Map<string, { unused: number; available: number; locked: number }>> {
@@ -716,6 +1203,218 @@ export async function getLiveCardStats(productIds: string[]): Promise<Map<string
     return stats;
 }
 
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+export async function getProductVariants(productId: string, options: { activeOnly?: boolean } = {}): Promise<ProductVariant[]> {
+    try {
+        await ensureProductVariantsTable();
+        return await db.select()
+            .from(productVariants)
+            .where(and(
+                eq(productVariants.productId, productId),
+                options.activeOnly ? eq(productVariants.isActive, true) : sql`1=1`
+            ))
+            .orderBy(asc(productVariants.sortOrder), asc(productVariants.id));
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return [];
+        throw error;
+    }
+}
+
+export async function getProductVariant(productId: string, variantId: number) {
+    try {
+        await ensureProductVariantsTable();
+        const rows = await db.select()
+            .from(productVariants)
+            .where(and(eq(productVariants.productId, productId), eq(productVariants.id, variantId)))
+            .limit(1);
+        return rows[0] || null;
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return null;
+        throw error;
+    }
+}
+
+export async function getProductPriceTiers(productId: string): Promise<PriceTier[]> {
+    const map = await getPriceTiersForProducts([productId]);
+    return map.get(productId) || [];
+}
+
+export async function getPriceTiersForProducts(productIds: string[]): Promise<Map<string, PriceTier[]>> {
+    const result = new Map<string, PriceTier[]>();
+    const ids = Array.from(new Set(productIds.filter(Boolean)));
+    if (!ids.length) return result;
+    try {
+        await ensurePriceTiersTable();
+        const rows = await db.select({
+            productId: productPriceTiers.productId,
+            minQuantity: productPriceTiers.minQuantity,
+            price: productPriceTiers.price,
+        })
+            .from(productPriceTiers)
+            .where(inArray(productPriceTiers.productId, ids))
+            .orderBy(asc(productPriceTiers.minQuantity));
+        for (const row of rows) {
+            const list = result.get(row.productId) || [];
+            list.push({ minQuantity: Number(row.minQuantity), price: row.price });
+            result.set(row.productId, list);
+        }
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+    return result;
+}
+
+/**
+ * Units ordered since each product's flash sale opened, single and cart orders
+ * alike. Only live orders count, so cancelled or refunded ones free their units.
+ */
+export async function getFlashSaleSoldCounts(productIds: string[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+    const ids = Array.from(new Set(productIds.filter(Boolean)));
+    if (!ids.length) return result;
+    const liveOrder = sql`COALESCE(${orders.status}, 'pending') IN ('pending', 'paid', 'delivered', 'partially_refunded')`;
+    const inSaleWindow = sql`${products.saleStartsAt} IS NOT NULL AND ${normalizeTimestampMs(orders.createdAt)} >= ${products.saleStartsAt}`;
+    try {
+        const direct = await db.select({
+            productId: orders.productId,
+            sold: sql<number>`COALESCE(SUM(${orders.quantity}), 0)`
+        })
+            .from(orders)
+            .innerJoin(products, eq(orders.productId, products.id))
+            .where(and(inArray(orders.productId, ids), liveOrder, inSaleWindow))
+            .groupBy(orders.productId);
+        for (const row of direct) {
+            result.set(row.productId, Number(row.sold || 0));
+        }
+
+        const lines = await db.select({
+            productId: orderItems.productId,
+            sold: sql<number>`COALESCE(SUM(${orderItems.quantity}), 0)`
+        })
+            .from(orderItems)
+            .innerJoin(orders, eq(orderItems.orderId, orders.orderId))
+            .innerJoin(products, eq(orderItems.productId, products.id))
+            .where(and(inArray(orderItems.productId, ids), liveOrder, inSaleWindow))
+            .groupBy(orderItems.productId);
+        for (const row of lines) {
+            result.set(row.productId, (result.get(row.productId) || 0) + Number(row.sold || 0));
+        }
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+    return result;
+}
+
+/** Flash sale state of each product that has one configured, keyed by product id */
+export async function getFlashSales(rows: Array<FlashSaleFields & { id: string }>, now = Date.now()): Promise<Map<string, FlashSaleState>> {
+    const result = new Map<string, FlashSaleState>();
+    // Sold units only matter for running sales with a quantity cap
+    const capped = rows.filter((row) => {
+        const state = getFlashSaleState(row, 0, now);
+        return state?.status === 'active' && state.quantity !== null;
+    });
+    const sold = capped.length ? await getFlashSaleSoldCounts(capped.map((row) => row.id)) : new Map<string, number>();
+    for (const row of rows) {
+        const state = getFlashSaleState(row, sold.get(row.id) || 0, now);
+        if (state) result.set(row.id, state);
+    }
+    return result;
+}
+
+/** Live card counts of a product's variant pools, keyed by variant id */
+export async function getLiveVariantCardStats(productId: string): Promise<Map<number, { unused: number; available: number; locked: number }>> {
+    const stats = new Map<number, { unused: number; available: number; locked: number }>();
+    try {
+        await ensureCardsColumns();
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return stats;
+        throw error;
+    }
+
+    const nowMs = Date.now();
+    const fiveMinutesAgo = nowMs - RESERVATION_TTL_MS;
+
+    try {
+        const rows = await db.select({
+            variantId: cards.variantId,
+            unused: sql<number>`COALESCE(SUM(CASE WHEN COALESCE(${cards.isUsed}, 0) = 0 AND (${cards.expiresAt} IS NULL OR ${cards.expiresAt} > ${nowMs}) THEN 1 ELSE 0 END), 0)`,
+            available: sql<number>`COALESCE(SUM(CASE WHEN COALESCE(${cards.isUsed}, 0) = 0 AND (${cards.expiresAt} IS NULL OR ${cards.expiresAt} > ${nowMs}) AND (${cards.reservedAt} IS NULL OR ${cards.reservedAt} < ${fiveMinutesAgo}) THEN 1 ELSE 0 END), 0)`,
+            locked: sql<number>`COALESCE(SUM(CASE WHEN COALESCE(${cards.isUsed}, 0) = 0 AND (${cards.expiresAt} IS NULL OR ${cards.expiresAt} > ${nowMs}) AND ${cards.reservedAt} IS NOT NULL AND ${cards.reservedAt} >= ${fiveMinutesAgo} THEN 1 ELSE 0 END), 0)`
+        })
+            .from(cards)
+            .where(and(eq(cards.productId, productId), sql`${cards.variantId} IS NOT NULL`))
+            .groupBy(cards.variantId);
+
+        for (const row of rows) {
+            if (row.variantId === null || row.variantId === undefined) continue;
+            stats.set(Number(row.variantId), {
+                unused: Number(row.unused || 0),
+                available: Number(row.available || 0),
+                locked: Number(row.locked || 0),
+            });
+        }
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+
+    return stats;
+}
+
+/**
+ * Refresh stock/locked/sold on each variant of a product and return the totals
+ * over its active variants, or null when the product has no variants.
+ */
+async function recalcVariantAggregates(productId: string, options: { isShared: boolean; isDynamic: boolean }) {
+    let variants: { id: number; isActive: boolean | null }[] = [];
+    try {
+        await ensureProductVariantsTable();
+        variants = await db.select({ id: productVariants.id, isActive: productVariants.isActive })
+            .from(productVariants)
+            .where(eq(productVariants.productId, productId));
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return null;
+        throw error;
+    }
+    if (!variants.length) return null;
+
+    const cardStats = await getLiveVariantCardStats(productId);
+
+    const sold = new Map<number, number>();
+    try {
+        const soldRows = await db.select({
+            variantId: orders.variantId,
+            total: sql<number>`COALESCE(SUM(CASE WHEN ${orders.status} IN ('paid', 'delivered', 'partially_refunded') THEN ${orders.quantity} - COALESCE(${orders.refundedQuantity}, 0) ELSE 0 END), 0)`
+        })
+            .from(orders)
+            .where(and(eq(orders.productId, productId), sql`${orders.variantId} IS NOT NULL`))
+            .groupBy(orders.variantId);
+        for (const row of soldRows) {
+            if (row.variantId !== null && row.variantId !== undefined) sold.set(Number(row.variantId), Number(row.total || 0));
+        }
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+
+    let stockTotal = 0;
+    let lockedTotal = 0;
+    for (const variant of variants) {
+        const stat = cardStats.get(variant.id) || { unused: 0, available: 0, locked: 0 };
+        const stockCount = options.isDynamic
+            ? INFINITE_STOCK
+            : (options.isShared ? (stat.unused > 0 ? INFINITE_STOCK : 0) : stat.available);
+        await db.update(productVariants)
+            .set({ stockCount, lockedCount: stat.locked, soldCount: sold.get(variant.id) || 0 })
+            .where(eq(productVariants.id, variant.id));
+        if (variant.isActive !== false) {
+            stockTotal = Math.min(INFINITE_STOCK, stockTotal + stockCount);
+            lockedTotal += stat.locked;
+        }
+    }
+
+    return { stockCount: stockTotal, lockedCount: lockedTotal };
+}
+
 async function backfillProductAggregates() {
     const already = await isProductAggregatesBackfilled();
     if (already) return;
@@ -776,6 +1475,13 @@ export async function getProducts() {
             visibilityLevel: products.visibilityLevel,
             sortOrder: products.sortOrder,
             purchaseLimit: products.purchaseLimit,
+            publishAt: products.publishAt,
+            unpublishAt: products.unpublishAt,
+            salePrice: products.salePrice,
+            saleStartsAt: products.saleStartsAt,
+            saleEndsAt: products.saleEndsAt,
+            lowStockThreshold: products.lowStockThreshold,
+            soldOutState: products.soldOutState,
             stock: sql<number>`COALESCE(${products.stockCount}, 0)`,
             locked: sql<number>`COALESCE(${products.lockedCount}, 0)`,
             sold: sql<number>`COALESCE(${products.soldCount}, 0)`
@@ -796,6 +1502,14 @@ function visibilityCondition(isLoggedIn?: boolean, trustLevel?: number | null) {
     return lte(sql<number>`COALESCE(${products.visibilityLevel}, -1)`, threshold);
 }
 
+// Scheduled products only show up between publish_at and unpublish_at
+function publishWindowCondition(now = Date.now()) {
+    return and(
+        sql`(${products.publishAt} IS NULL OR ${products.publishAt} <= ${now})`,
+        sql`(${products.unpublishAt} IS NULL OR ${products.unpublishAt} > ${now})`
+    );
+}
+
 // Get only active products (for home page)
 export async function getActiveProducts(options?: { isLoggedIn?: boolean; trustLevel?: number | null }) {
     // Auto-initialize database on first access
@@ -819,10 +1533,15 @@ export async function getActiveProducts(options?: { isLoggedIn?: boolean; trustL
             locked: sql<number>`COALESCE(${products.lockedCount}, 0)`,
             sold: sql<number>`COALESCE(${products.soldCount}, 0)`,
             rating: sql<number>`COALESCE(${products.rating}, 0)`,
-            reviewCount: sql<number>`COALESCE(${products.reviewCount}, 0)`
+            reviewCount: sql<number>`COALESCE(${products.reviewCount}, 0)`,
+            salePrice: products.salePrice,
+            saleStartsAt: products.saleStartsAt,
+            saleEndsAt: products.saleEndsAt,
+            saleQuantity: products.saleQuantity,
+            soldOutState: products.soldOutState
         })
             .from(products)
-            .where(and(eq(products.isActive, true), visibilityCondition(options?.isLoggedIn, options?.trustLevel)))
+            .where(and(eq(products.isActive, true), visibilityCondition(options?.isLoggedIn, options?.trustLevel), publishWindowCondition()))
             .orderBy(asc(products.sortOrder), desc(products.createdAt));
     })
 }
@@ -897,6 +1616,153 @@ export async function getWishlistItems(userId: string | null, limit = 10) {
     }
 }
 
+export type CartOwner = { userId?: string | null; sessionId?: string | null }
+
+function cartOwnerCondition(owner: CartOwner) {
+    if (owner.userId) return eq(cartItems.userId, owner.userId);
+    if (owner.sessionId) return and(eq(cartItems.sessionId, owner.sessionId), isNull(cartItems.userId));
+    return null;
+}
+
+export async function getCartItems(owner: CartOwner) {
+    const condition = cartOwnerCondition(owner);
+    if (!condition) return [];
+    await ensureCartTables();
+    const items = await db.select({
+        id: cartItems.id,
+        productId: cartItems.productId,
+        quantity: cartItems.quantity,
+        name: products.name,
+        price: products.price,
+        image: products.image,
+        category: products.category,
+        isActive: products.isActive,
+        isShared: products.isShared,
+        fulfillmentType: products.fulfillmentType,
+        purchaseLimit: products.purchaseLimit,
+        stockCount: products.stockCount,
+        visibilityLevel: products.visibilityLevel,
+        publishAt: products.publishAt,
+        unpublishAt: products.unpublishAt,
+        salePrice: products.salePrice,
+        saleStartsAt: products.saleStartsAt,
+        saleEndsAt: products.saleEndsAt,
+        saleQuantity: products.saleQuantity,
+    })
+        .from(cartItems)
+        .innerJoin(products, eq(cartItems.productId, products.id))
+        .where(condition)
+        .orderBy(asc(cartItems.createdAt), asc(cartItems.id));
+
+    // `price` is the unit price for the line's quantity: a running flash sale wins over volume tiers
+    const [tiers, sales] = await Promise.all([
+        getPriceTiersForProducts(items.map((item) => item.productId)),
+        getFlashSales(items.map((item) => ({ ...item, id: item.productId }))),
+    ]);
+    return items.map((item) => {
+        const productTiers = tiers.get(item.productId);
+        const sale = sales.get(item.productId) || null;
+        let price = item.price;
+        if (sale?.status === 'active') {
+            price = flashSalePrice(item.price, sale).toFixed(2);
+        } else if (productTiers?.length) {
+            price = resolveUnitPrice(item.price, productTiers, Number(item.quantity)).toFixed(2);
+        }
+        return {
+            ...item,
+            basePrice: item.price,
+            price,
+            flashSale: sale,
+        };
+    });
+}
+
+export async function getCartItemCount(owner: CartOwner) {
+    const condition = cartOwnerCondition(owner);
+    if (!condition) return 0;
+    try {
+        const rows = await db.select({ count: sql<number>`COALESCE(SUM(${cartItems.quantity}), 0)` })
+            .from(cartItems)
+            .where(condition);
+        return Number(rows[0]?.count || 0);
+    } catch (error: any) {
+        if (isMissingTableOrColumn(error)) return 0;
+        throw error;
+    }
+}
+
+export async function addCartItem(owner: CartOwner, productId: string, quantity: number) {
+    const condition = cartOwnerCondition(owner);
+    if (!condition) return;
+    await ensureCartTables();
+    const existing = await db.select({ id: cartItems.id })
+        .from(cartItems)
+        .where(and(condition, eq(cartItems.productId, productId)))
+        .limit(1);
+    if (existing.length) {
+        await db.update(cartItems)
+            .set({ quantity: sql`${cartItems.quantity} + ${quantity}`, updatedAt: new Date() })
+            .where(eq(cartItems.id, existing[0].id));
+        return;
+    }
+    await db.insert(cartItems).values({
+        userId: owner.userId || null,
+        sessionId: owner.userId ? null : (owner.sessionId || null),
+        productId,
+        quantity,
+        createdAt: new Date(),
+        updatedAt: new Date()
+    });
+}
+
+export async function setCartItemQuantity(owner: CartOwner, itemId: number, quantity: number) {
+    const condition = cartOwnerCondition(owner);
+    if (!condition) return;
+    await ensureCartTables();
+    if (quantity <= 0) {
+        await db.delete(cartItems).where(and(condition, eq(cartItems.id, itemId)));
+        return;
+    }
+    await db.update(cartItems)
+        .set({ quantity, updatedAt: new Date() })
+        .where(and(condition, eq(cartItems.id, itemId)));
+}
+
+export async function clearCartItems(owner: CartOwner, productIds?: string[]) {
+    const condition = cartOwnerCondition(owner);
+    if (!condition) return;
+    await ensureCartTables();
+    await db.delete(cartItems).where(
+        productIds ? and(condition, inArray(cartItems.productId, productIds)) : condition
+    );
+}
+
+// Move a guest cookie cart onto the signed-in user, summing duplicate products
+export async function mergeGuestCart(sessionId: string, userId: string) {
+    if (!sessionId || !userId) return;
+    await ensureCartTables();
+    const guestRows = await db.select()
+        .from(cartItems)
+        .where(and(eq(cartItems.sessionId, sessionId), isNull(cartItems.userId)));
+
+    for (const row of guestRows) {
+        const existing = await db.select({ id: cartItems.id })
+            .from(cartItems)
+            .where(and(eq(cartItems.userId, userId), eq(cartItems.productId, row.productId)))
+            .limit(1);
+        if (existing.length) {
+            await db.update(cartItems)
+                .set({ quantity: sql`${cartItems.quantity} + ${row.quantity}`, updatedAt: new Date() })
+                .where(eq(cartItems.id, existing[0].id));
+            await db.delete(cartItems).where(eq(cartItems.id, row.id));
+        } else {
+            await db.update(cartItems)
+                .set({ userId, sessionId: null, updatedAt: new Date() })
+                .where(eq(cartItems.id, row.id));
+        }
+    }
+}
+
 export async function getProduct(id: string, options?: { isLoggedIn?: boolean; trustLevel?: number | null }) {
     return await withProductColumnFallback(async () => {
         const result = await db.select({
@@ -917,10 +1783,15 @@ export async function getProduct(id: string, options?: { isLoggedIn?: boolean; t
             stock: sql<number>`COALESCE(${products.stockCount}, 0)`,
             locked: sql<number>`COALESCE(${products.lockedCount}, 0)`,
             rating: sql<number>`COALESCE(${products.rating}, 0)`,
-            reviewCount: sql<number>`COALESCE(${products.reviewCount}, 0)`
+            reviewCount: sql<number>`COALESCE(${products.reviewCount}, 0)`,
+            salePrice: products.salePrice,
+            saleStartsAt: products.saleStartsAt,
+            saleEndsAt: products.saleEndsAt,
+            saleQuantity: products.saleQuantity,
+            soldOutState: products.soldOutState
         })
             .from(products)
-            .where(and(eq(products.id, id), visibilityCondition(options?.isLoggedIn, options?.trustLevel)))
+            .where(and(eq(products.id, id), visibilityCondition(options?.isLoggedIn, options?.trustLevel), publishWindowCondition()))
             ;
 
         // Return null if product doesn't exist or is inactive
@@ -938,6 +1809,8 @@ export async function getProductVisibility(id: string) {
             id: products.id,
             isActive: products.isActive,
             visibilityLevel: products.visibilityLevel,
+            publishAt: products.publishAt,
+            unpublishAt: products.unpublishAt,
         })
             .from(products)
             .where(eq(products.id, id));
@@ -963,11 +1836,20 @@ export async function getProductForAdmin(id: string) {
             purchaseLimit: products.purchaseLimit,
             purchaseWarning: products.purchaseWarning,
             visibilityLevel: products.visibilityLevel,
+            publishAt: products.publishAt,
+            unpublishAt: products.unpublishAt,
+            salePrice: products.salePrice,
+            saleStartsAt: products.saleStartsAt,
+            saleEndsAt: products.saleEndsAt,
+            saleQuantity: products.saleQuantity,
+            lowStockThreshold: products.lowStockThreshold,
         })
             .from(products)
             .where(eq(products.id, id));
 
-        return result[0] || null;
+        if (!result[0]) return null;
+        const [variants, priceTiers] = await Promise.all([getProductVariants(id), getProductPriceTiers(id)]);
+        return { ...result[0], variants, priceTiers };
     });
 }
 
@@ -982,18 +1864,20 @@ export async function getDashboardStats(nowMs: number) {
         const todayStartMs = todayStart.getTime();
         const weekStartMs = weekStart.getTime();
         const monthStartMs = monthStart.getTime();
+        // Net of partial refunds; fully refunded orders drop out entirely
+        const netAmount = sql`(CAST(${orders.amount} AS REAL) - COALESCE(CAST(${orders.refundedAmount} AS REAL), 0))`;
         const stats = await db.select({
             totalCount: sql<number>`count(*)`,
-            totalRevenue: sql<number>`COALESCE(sum(CAST(${orders.amount} AS REAL)), 0)`,
+            totalRevenue: sql<number>`COALESCE(sum(${netAmount}), 0)`,
             todayCount: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${todayStartMs} THEN 1 ELSE 0 END), 0)`,
-            todayRevenue: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${todayStartMs} THEN CAST(${orders.amount} AS REAL) ELSE 0 END), 0)`,
+            todayRevenue: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${todayStartMs} THEN ${netAmount} ELSE 0 END), 0)`,
             weekCount: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${weekStartMs} THEN 1 ELSE 0 END), 0)`,
-            weekRevenue: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${weekStartMs} THEN CAST(${orders.amount} AS REAL) ELSE 0 END), 0)`,
+            weekRevenue: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${weekStartMs} THEN ${netAmount} ELSE 0 END), 0)`,
             monthCount: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${monthStartMs} THEN 1 ELSE 0 END), 0)`,
-            monthRevenue: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${monthStartMs} THEN CAST(${orders.amount} AS REAL) ELSE 0 END), 0)`,
+            monthRevenue: sql<number>`COALESCE(sum(CASE WHEN ${orders.paidAt} >= ${monthStartMs} THEN ${netAmount} ELSE 0 END), 0)`,
         })
             .from(orders)
-            .where(eq(orders.status, 'delivered'));
+            .where(inArray(orders.status, ['delivered', 'partially_refunded']));
 
         const row = stats[0] || {
             totalCount: 0,
@@ -1231,7 +2115,7 @@ export async function searchActiveProducts(params: {
     const pageSize = Math.min(params.pageSize && params.pageSize > 0 ? params.pageSize : 24, 60)
     const offset = (page - 1) * pageSize
 
-    const whereParts: any[] = [eq(products.isActive, true), visibilityCondition(params.isLoggedIn, params.trustLevel)]
+    const whereParts: any[] = [eq(products.isActive, true), visibilityCondition(params.isLoggedIn, params.trustLevel), publishWindowCondition()]
     if (category && category !== 'all') whereParts.push(eq(products.category, category))
     if (q) {
         const like = `%${q}%`
@@ -1282,7 +2166,12 @@ export async function searchActiveProducts(params: {
             locked: sql<number>`COALESCE(${products.lockedCount}, 0)`,
             sold: sql<number>`COALESCE(${products.soldCount}, 0)`,
             rating: sql<number>`COALESCE(${products.rating}, 0)`,
-            reviewCount: sql<number>`COALESCE(${products.reviewCount}, 0)`
+            reviewCount: sql<number>`COALESCE(${products.reviewCount}, 0)`,
+            salePrice: products.salePrice,
+            saleStartsAt: products.saleStartsAt,
+            saleEndsAt: products.saleEndsAt,
+            saleQuantity: products.saleQuantity,
+            soldOutState: products.soldOutState
         })
             .from(products)
             .where(whereExpr)
@@ -1311,6 +2200,7 @@ export async function getActiveProductCategories(options?: { isLoggedIn?: boolea
             .where(and(
                 eq(products.isActive, true),
                 visibilityCondition(options?.isLoggedIn, options?.trustLevel),
+                publishWindowCondition(),
                 sql`${products.category} IS NOT NULL`,
                 sql`TRIM(${products.category}) <> ''`
             ))
@@ -1472,7 +2362,7 @@ export function normalizeTimestampMs(column: any) {
 
 async function migrateTimestampColumnsToMs() {
     const tableColumns = [
-        { table: 'products', columns: ['created_at'] },
+        { table: 'products', columns: ['created_at', 'publish_at', 'unpublish_at', 'sale_starts_at', 'sale_ends_at'] },
         { table: 'cards', columns: ['reserved_at', 'used_at', 'created_at'] },
         { table: 'orders', columns: ['paid_at', 'delivered_at', 'created_at'] },
         { table: 'login_users', columns: ['created_at', 'last_login_at'] },
@@ -1488,6 +2378,23 @@ async function migrateTimestampColumnsToMs() {
         { table: 'broadcast_reads', columns: ['created_at'] },
         { table: 'wishlist_items', columns: ['created_at'] },
         { table: 'wishlist_votes', columns: ['created_at'] },
+        { table: 'order_items', columns: ['created_at'] },
+        { table: 'cart_items', columns: ['created_at', 'updated_at'] },
+        { table: 'coupons', columns: ['starts_at', 'ends_at', 'created_at', 'updated_at'] },
+        { table: 'coupon_redemptions', columns: ['created_at'] },
+        { table: 'payment_events', columns: ['created_at'] },
+        { table: 'order_events', columns: ['created_at'] },
+        { table: 'product_variants', columns: ['created_at'] },
+        { table: 'product_price_tiers', columns: ['created_at'] },
+        { table: 'member_discounts', columns: ['created_at', 'updated_at'] },
+        { table: 'points_transactions', columns: ['created_at'] },
+        { table: 'referrals', columns: ['created_at', 'rewarded_at'] },
+        { table: 'admin_roles', columns: ['created_at', 'updated_at'] },
+        { table: 'admin_audit_log', columns: ['created_at'] },
+        { table: 'webhook_endpoints', columns: ['created_at', 'updated_at'] },
+        { table: 'webhook_deliveries', columns: ['created_at', 'updated_at', 'next_attempt_at'] },
+        { table: 'notification_channels', columns: ['created_at', 'updated_at'] },
+        { table: 'email_outbox', columns: ['created_at', 'updated_at', 'next_attempt_at', 'sent_at'] },
     ];
 
     for (const { table, columns } of tableColumns) {
@@ -1512,6 +2419,8 @@ async function ensureLoginUsersTable() {
         points INTEGER DEFAULT 0 NOT NULL,
         is_blocked BOOLEAN DEFAULT FALSE,
         desktop_notifications_enabled INTEGER DEFAULT 0,
+        tag TEXT,
+        referral_code TEXT,
         created_at INTEGER DEFAULT (unixepoch() * 1000),
         last_login_at INTEGER DEFAULT (unixepoch() * 1000)
     )
@@ -1615,6 +2524,394 @@ async function ensureWishlistTables() {
     wishlistTablesReady = true;
 }
 
+export async function ensureCartTables() {
+    if (cartTablesReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS order_items(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+            product_id TEXT NOT NULL,
+            product_name TEXT NOT NULL,
+            price TEXT NOT NULL,
+            quantity INTEGER NOT NULL DEFAULT 1,
+            amount TEXT NOT NULL,
+            card_key TEXT,
+            card_ids TEXT,
+            refunded_quantity INTEGER DEFAULT 0,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+        CREATE TABLE IF NOT EXISTS cart_items(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT,
+            session_id TEXT,
+            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+            quantity INTEGER NOT NULL DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    cartTablesReady = true;
+}
+
+export async function ensureCouponTables() {
+    if (couponTablesReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS coupons(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            code TEXT NOT NULL UNIQUE,
+            type TEXT NOT NULL DEFAULT 'percent',
+            value TEXT NOT NULL,
+            scope TEXT NOT NULL DEFAULT 'all',
+            scope_value TEXT,
+            min_spend TEXT,
+            max_uses INTEGER,
+            per_user_limit INTEGER,
+            used_count INTEGER NOT NULL DEFAULT 0,
+            allow_points INTEGER DEFAULT 1,
+            is_active INTEGER DEFAULT 1,
+            starts_at INTEGER,
+            ends_at INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+        CREATE TABLE IF NOT EXISTS coupon_redemptions(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            coupon_id INTEGER NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+            order_id TEXT NOT NULL,
+            user_id TEXT,
+            email TEXT,
+            discount TEXT NOT NULL,
+            status TEXT DEFAULT 'active',
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    couponTablesReady = true;
+}
+
+export async function ensurePaymentEventsTable() {
+    if (paymentEventsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS payment_events(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT,
+            out_trade_no TEXT,
+            provider TEXT,
+            source TEXT DEFAULT 'notify',
+            method TEXT,
+            raw_params TEXT,
+            signature_valid INTEGER DEFAULT 0,
+            trade_status TEXT,
+            trade_no TEXT,
+            amount TEXT,
+            result TEXT NOT NULL,
+            status_before TEXT,
+            status_after TEXT,
+            error TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    paymentEventsTableReady = true;
+}
+
+export async function ensureOrderEventsTable() {
+    if (orderEventsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS order_events(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            order_id TEXT NOT NULL,
+            from_status TEXT,
+            to_status TEXT NOT NULL,
+            actor TEXT NOT NULL DEFAULT 'system',
+            reason TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    orderEventsTableReady = true;
+}
+
+export async function ensureProductVariantsTable() {
+    if (productVariantsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS product_variants(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+            name TEXT NOT NULL,
+            price TEXT NOT NULL,
+            compare_at_price TEXT,
+            purchase_limit INTEGER,
+            sort_order INTEGER DEFAULT 0,
+            is_active INTEGER DEFAULT 1,
+            stock_count INTEGER DEFAULT 0,
+            locked_count INTEGER DEFAULT 0,
+            sold_count INTEGER DEFAULT 0,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    productVariantsTableReady = true;
+}
+
+export async function ensurePriceTiersTable() {
+    if (priceTiersTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS product_price_tiers(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+            min_quantity INTEGER NOT NULL,
+            price TEXT NOT NULL,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    priceTiersTableReady = true;
+}
+
+export async function ensureMemberDiscountsTable() {
+    if (memberDiscountsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS member_discounts(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            name TEXT NOT NULL,
+            product_id TEXT,
+            min_trust_level INTEGER,
+            user_tag TEXT,
+            percent_off INTEGER NOT NULL,
+            is_active INTEGER DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    memberDiscountsTableReady = true;
+}
+
+export async function ensurePointsTransactionsTable() {
+    if (pointsTransactionsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS points_transactions(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL,
+            delta INTEGER NOT NULL,
+            balance_after INTEGER,
+            reason TEXT NOT NULL,
+            order_id TEXT,
+            actor TEXT NOT NULL DEFAULT 'system',
+            note TEXT,
+            remaining INTEGER,
+            expires_at INTEGER,
+            expiry_notified_at INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    await safeAddColumn('points_transactions', 'remaining', 'INTEGER');
+    await safeAddColumn('points_transactions', 'expires_at', 'INTEGER');
+    await safeAddColumn('points_transactions', 'expiry_notified_at', 'INTEGER');
+    // Balances from before the ledger existed become each user's opening entry
+    try {
+        await db.run(sql`
+            INSERT INTO points_transactions (user_id, delta, balance_after, reason, actor, remaining, created_at)
+            SELECT user_id, points, points, 'opening_balance', 'system', CASE WHEN points > 0 THEN points END, ${Date.now()}
+            FROM login_users
+            WHERE points != 0 AND NOT EXISTS (SELECT 1 FROM points_transactions)
+        `);
+    } catch (error: any) {
+        if (!isMissingTable(error)) throw error;
+    }
+    // Credits recorded before lots were tracked: the newest ones are what is left of the balance
+    try {
+        await db.run(sql`
+            UPDATE points_transactions SET remaining = COALESCE((
+                SELECT MAX(0, MIN(points_transactions.delta, COALESCE(u.points, 0) - COALESCE((
+                    SELECT SUM(n.delta) FROM points_transactions n
+                    WHERE n.user_id = points_transactions.user_id AND n.delta > 0 AND n.id > points_transactions.id
+                ), 0)))
+                FROM login_users u WHERE u.user_id = points_transactions.user_id
+            ), 0)
+            WHERE delta > 0 AND remaining IS NULL
+        `);
+    } catch (error: any) {
+        if (!isMissingTable(error)) throw error;
+    }
+    pointsTransactionsTableReady = true;
+}
+
+/**
+ * Check-ins are keyed by calendar day (in the shop's check-in time zone) so
+ * one row per user and day is enforced by the database. Rows written before
+ * that get their UTC day, and streaks that only lived in login_users are
+ * written out as rows once so calendars and streak counts agree.
+ */
+export async function ensureDailyCheckinsSchema() {
+    if (dailyCheckinsSchemaReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS daily_checkins_v2(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL REFERENCES login_users(user_id) ON DELETE CASCADE,
+            day TEXT,
+            is_makeup INTEGER DEFAULT 0,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    await safeAddColumn('daily_checkins_v2', 'day', 'TEXT');
+    await safeAddColumn('daily_checkins_v2', 'is_makeup', 'INTEGER DEFAULT 0');
+    await db.run(sql`
+        UPDATE daily_checkins_v2 SET day = date(created_at / 1000, 'unixepoch')
+        WHERE day IS NULL AND created_at IS NOT NULL
+    `);
+    await db.run(sql`
+        DELETE FROM daily_checkins_v2
+        WHERE id NOT IN (SELECT MIN(id) FROM daily_checkins_v2 GROUP BY user_id, day)
+    `);
+    await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS daily_checkins_user_day_uq ON daily_checkins_v2(user_id, day)`);
+
+    if (await getSetting('checkin_days_backfilled') !== '1') {
+        try {
+            await db.run(sql`
+                WITH RECURSIVE streak(user_id, day, n) AS (
+                    SELECT user_id, date(last_checkin_at / 1000, 'unixepoch'), MIN(consecutive_days, 400)
+                    FROM login_users
+                    WHERE last_checkin_at IS NOT NULL AND consecutive_days > 0
+                    UNION ALL
+                    SELECT user_id, date(day, '-1 day'), n - 1 FROM streak WHERE n > 1
+                )
+                INSERT OR IGNORE INTO daily_checkins_v2 (user_id, day, is_makeup, created_at)
+                SELECT user_id, day, 0, (unixepoch(day) + 43200) * 1000 FROM streak
+            `);
+        } catch (error: any) {
+            if (!isMissingTableOrColumn(error)) throw error;
+        }
+        await setSetting('checkin_days_backfilled', '1');
+    }
+    dailyCheckinsSchemaReady = true;
+}
+
+export async function ensureReferralsTable() {
+    if (referralsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS referrals(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            inviter_id TEXT NOT NULL,
+            invitee_id TEXT NOT NULL,
+            code TEXT,
+            status TEXT DEFAULT 'pending',
+            order_id TEXT,
+            inviter_points INTEGER DEFAULT 0,
+            invitee_points INTEGER DEFAULT 0,
+            note TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            rewarded_at INTEGER
+        );
+    `);
+    await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS referrals_invitee_uq ON referrals(invitee_id)`);
+    // Every member gets a code; new ones get theirs in recordLoginUser
+    await safeAddColumn('login_users', 'referral_code', 'TEXT');
+    await db.run(sql`UPDATE login_users SET referral_code = upper(hex(randomblob(4))) WHERE referral_code IS NULL`);
+    await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS login_users_referral_code_uq ON login_users(referral_code)`);
+    referralsTableReady = true;
+}
+
+export async function ensureAdminRolesTable() {
+    if (adminRolesTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS admin_roles(
+            user_id TEXT PRIMARY KEY,
+            role TEXT NOT NULL,
+            granted_by TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    adminRolesTableReady = true;
+}
+
+export async function ensureAdminAuditLogTable() {
+    if (adminAuditLogTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS admin_audit_log(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            admin_id TEXT,
+            admin_username TEXT,
+            action TEXT NOT NULL,
+            target_type TEXT,
+            target_id TEXT,
+            changes TEXT,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    adminAuditLogTableReady = true;
+}
+
+export async function ensureWebhookTables() {
+    if (webhookTablesReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS webhook_endpoints(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            url TEXT NOT NULL,
+            secret TEXT NOT NULL,
+            events TEXT NOT NULL,
+            description TEXT,
+            is_active INTEGER DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+        CREATE TABLE IF NOT EXISTS webhook_deliveries(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            endpoint_id INTEGER NOT NULL,
+            event TEXT NOT NULL,
+            event_id TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            status TEXT DEFAULT 'pending',
+            attempts INTEGER DEFAULT 0,
+            next_attempt_at INTEGER,
+            response_status INTEGER,
+            response_body TEXT,
+            error TEXT,
+            duration_ms INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    webhookTablesReady = true;
+}
+
+export async function ensureNotificationChannelsTable() {
+    if (notificationChannelsTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS notification_channels(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            type TEXT NOT NULL,
+            name TEXT NOT NULL,
+            config TEXT NOT NULL,
+            events TEXT NOT NULL,
+            language TEXT DEFAULT 'zh',
+            is_active INTEGER DEFAULT 1,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    notificationChannelsTableReady = true;
+}
+
+export async function ensureEmailOutboxTable() {
+    if (emailOutboxTableReady) return;
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS email_outbox(
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            kind TEXT NOT NULL,
+            to_address TEXT NOT NULL,
+            subject TEXT NOT NULL,
+            html TEXT,
+            status TEXT DEFAULT 'pending',
+            attempts INTEGER DEFAULT 0,
+            next_attempt_at INTEGER,
+            transport TEXT,
+            provider_id TEXT,
+            error TEXT,
+            sent_at INTEGER,
+            created_at INTEGER DEFAULT (unixepoch() * 1000),
+            updated_at INTEGER DEFAULT (unixepoch() * 1000)
+        );
+    `);
+    emailOutboxTableReady = true;
+}
+
 async function ensureWishlistColumns() {
     await safeAddColumn('wishlist_items', 'description', 'TEXT');
     await safeAddColumn('wishlist_items', 'user_id', 'TEXT');
@@ -1675,6 +2972,10 @@ async function backfillLoginUsersFromOrdersAndReviews() {
     await markLoginUsersBackfilled();
 }
 
+export function newReferralCode() {
+    return crypto.randomUUID().replace(/-/g, '').slice(0, 8).toUpperCase();
+}
+
 export async function recordLoginUser(userId: string, username?: string | null, email?: string | null) {
     if (!userId) return;
 
@@ -1683,6 +2984,7 @@ export async function recordLoginUser(userId: string, username?: string | null,
             userId,
             username: username || null,
             email: email || null,
+            referralCode: newReferralCode(),
             lastLoginAt: new Date()
         }).onConflictDoUpdate({
             target: loginUsers.userId,
@@ -1710,6 +3012,7 @@ export async function recordLoginUser(userId: string, username?: string | null,
                 userId,
                 username: username || null,
                 email: email || null,
+                referralCode: newReferralCode(),
                 lastLoginAt: new Date()
             }).onConflictDoUpdate({
                 target: loginUsers.userId,
@@ -1865,6 +3168,49 @@ export async function cleanupExpiredCardsIfNeeded(throttleMs: number = 10 * 60 *
     return true;
 }
 
+/**
+ * Publish and sale windows change what the storefront shows without any write.
+ * The next window boundary is kept in settings; once it has passed, the product
+ * caches are dropped and the following boundary is looked up. Tags can only be
+ * invalidated from actions, so the boundary is kept until that succeeds.
+ */
+export async function syncProductScheduleIfNeeded(now = Date.now()) {
+    let nextAt = 0;
+    try {
+        nextAt = Number(await getSetting('product_schedule_next_at') || 0);
+    } catch {
+        return false;
+    }
+    if (!nextAt || now < nextAt) return false;
+
+    try {
+        updateTag('home:products');
+        updateTag('home:product-categories');
+        revalidatePath('/');
+    } catch {
+        return false;
+    }
+    await refreshProductScheduleBoundary(now);
+    return true;
+}
+
+export async function refreshProductScheduleBoundary(now = Date.now()) {
+    try {
+        const result: any = await db.run(sql`
+            SELECT MIN(t) AS next_at FROM (
+                SELECT publish_at AS t FROM products
+                UNION ALL SELECT unpublish_at FROM products
+                UNION ALL SELECT sale_starts_at FROM products
+                UNION ALL SELECT sale_ends_at FROM products
+            ) WHERE t IS NOT NULL AND t > ${now}
+        `);
+        const rows = result?.results || result?.rows || [];
+        await setSetting('product_schedule_next_at', String(Number(rows[0]?.next_at || 0)));
+    } catch (error: any) {
+        if (!isMissingTableOrColumn(error)) throw error;
+    }
+}
+
 export async function getVisitorCount(): Promise<number> {
     try {
         await backfillLoginUsersFromOrdersAndReviews();
@@ -1913,9 +3259,17 @@ export async function cancelExpiredOrders(filters: { productId?: string; userId?
             await db.run(sql.raw(`ALTER TABLE cards ADD COLUMN reserved_at INTEGER`));
         } catch { /* duplicate column */ }
 
+        const { transitionOrderStatus, systemActor } = await import("@/lib/order-status");
         for (const expired of candidates) {
             const expiredOrderId = expired.orderId;
             if (!expiredOrderId) continue;
+            // Skip orders that got paid between the select and now
+            const { changed } = await transitionOrderStatus(expiredOrderId, 'cancelled', {
+                actor: systemActor,
+                reason: 'Payment window expired',
+                from: ['pending']
+            });
+            if (!changed) continue;
             try {
                 // Mirror manual cancel behavior to guarantee release
                 await db.update(cards)
@@ -1924,12 +3278,24 @@ export async function cancelExpiredOrders(filters: { productId?: string; userId?
             } catch (error: any) {
                 if (!isMissingTableOrColumn(error)) throw error;
             }
-            await db.update(orders)
-                .set({ status: 'cancelled' })
-                .where(eq(orders.orderId, expiredOrderId));
+            try {
+                const { releaseCouponForOrder } = await import("@/lib/coupons");
+                await releaseCouponForOrder(expiredOrderId);
+            } catch {
+                // best effort
+            }
         }
 
-        const productIds = Array.from(new Set(candidates.map((row) => row.productId).filter(Boolean)));
+        const productIds = new Set<string>();
+        for (const row of candidates) {
+            try {
+                for (const pid of await getOrderProductIds(row.orderId, row.productId)) {
+                    productIds.add(pid);
+                }
+            } catch {
+                // best effort
+            }
+        }
         for (const pid of productIds) {
             try {
                 await recalcProductAggregates(pid);
@@ -1985,9 +3351,10 @@ export async function getUsers(page = 1, pageSize = 20, q = '') {
             username: loginUsers.username,
             points: loginUsers.points,
             isBlocked: sql<boolean>`COALESCE(${loginUsers.isBlocked}, FALSE)`,
+            tag: loginUsers.tag,
             lastLoginAt: loginUsers.lastLoginAt,
             createdAt: loginUsers.createdAt,
-            orderCount: sql<number>`count(CASE WHEN ${orders.status} IN ('paid', 'delivered', 'refunded') THEN 1 END)`
+            orderCount: sql<number>`count(CASE WHEN ${orders.status} IN ('paid', 'delivered', 'partially_refunded', 'refunded') THEN 1 END)`
         })
             .from(loginUsers)
             .leftJoin(orders, eq(loginUsers.userId, orders.userId))
@@ -2017,10 +3384,10 @@ export async function getUsers(page = 1, pageSize = 20, q = '') {
     }
 }
 
-export async function updateUserPoints(userId: string, points: number) {
-    await ensureLoginUsersTable();
+export async function updateUserTag(userId: string, tag: string | null) {
+    await ensureLoginUsersSchema();
     await db.update(loginUsers)
-        .set({ points })
+        .set({ tag })
         .where(eq(loginUsers.userId, userId));
 }
 
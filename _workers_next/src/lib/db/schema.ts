@@ -22,6 +22,19 @@ export const products = sqliteTable('products', {
     soldCount: integer('sold_count').default(0),
     rating: integer('rating', { mode: 'number' }).default(0), // Average rating (stored as integer/real but using number mode for safety with existing code if it was float. Actually sqliteTable 'integer' is usually int. Better use 'real' for average, but Drizzle sqlite-core uses 'real' or 'numeric'. Let's check imports.)
     reviewCount: integer('review_count').default(0),
+    // Scheduled launch: hidden from the storefront outside [publishAt, unpublishAt)
+    publishAt: integer('publish_at', { mode: 'timestamp_ms' }),
+    unpublishAt: integer('unpublish_at', { mode: 'timestamp_ms' }),
+    // Flash sale: salePrice replaces the price inside the window, for at most saleQuantity units
+    salePrice: text('sale_price'),
+    saleStartsAt: integer('sale_starts_at', { mode: 'timestamp_ms' }),
+    saleEndsAt: integer('sale_ends_at', { mode: 'timestamp_ms' }),
+    saleQuantity: integer('sale_quantity'),
+    // Stock alerts: lowStockThreshold overrides the shop setting; stockAlert is the last level
+    // admins were told about ('low' | 'out') so each crossing alerts once
+    lowStockThreshold: integer('low_stock_threshold'),
+    stockAlert: text('stock_alert'),
+    soldOutState: text('sold_out_state'), // 'hidden' | 'restocking' while sold out, see lib/stock-alerts
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()), // Use integer timestamp (ms)
 });
 
@@ -29,12 +42,39 @@ export const products = sqliteTable('products', {
 export const cards = sqliteTable('cards', {
     id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
     productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
-    cardKey: text('card_key').notNull(),
+    cardKey: text('card_key').notNull(), // `enc:v1:...` when CARD_KEY_SECRET is set, see lib/card-crypto
+    keyHash: text('key_hash'), // hashCardKey(plaintext), for duplicate checks without decrypting
     isUsed: integer('is_used', { mode: 'boolean' }).default(false),
     reservedOrderId: text('reserved_order_id'),
     reservedAt: integer('reserved_at', { mode: 'timestamp_ms' }),
     expiresAt: integer('expires_at', { mode: 'timestamp_ms' }),
     usedAt: integer('used_at', { mode: 'timestamp_ms' }),
+    variantId: integer('variant_id'), // null for products without variants
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Product variants (SKUs); each has its own price, limit and card pool
+export const productVariants = sqliteTable('product_variants', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    price: text('price').notNull(),
+    compareAtPrice: text('compare_at_price'),
+    purchaseLimit: integer('purchase_limit'),
+    sortOrder: integer('sort_order').default(0),
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    stockCount: integer('stock_count').default(0),
+    lockedCount: integer('locked_count').default(0),
+    soldCount: integer('sold_count').default(0),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Volume pricing: unit price once the quantity reaches minQuantity
+export const productPriceTiers = sqliteTable('product_price_tiers', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+    minQuantity: integer('min_quantity').notNull(),
+    price: text('price').notNull(),
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
 });
 
@@ -57,7 +97,45 @@ export const orders = sqliteTable('orders', {
     pointsUsed: integer('points_used').default(0),
     quantity: integer('quantity').default(1).notNull(),
     currentPaymentId: text('current_payment_id'),
+    couponCode: text('coupon_code'),
+    discountAmount: text('discount_amount'),
+    paymentProvider: text('payment_provider'), // 'linuxdo' | 'epay'; null = linuxdo
+    variantId: integer('variant_id'),
+    variantName: text('variant_name'),
+    memberDiscount: text('member_discount'),
+    memberDiscountRule: text('member_discount_rule'),
+    // Partial refund accounting; a full refund moves the order to 'refunded'
+    refundedAmount: text('refunded_amount'),
+    refundedQuantity: integer('refunded_quantity').default(0),
+    refundedPoints: integer('refunded_points').default(0),
+    refundedCardIds: text('refunded_card_ids'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Order line items (multi-product cart orders)
+export const orderItems = sqliteTable('order_items', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    orderId: text('order_id').notNull().references(() => orders.orderId, { onDelete: 'cascade' }),
+    productId: text('product_id').notNull(),
+    productName: text('product_name').notNull(),
+    price: text('price').notNull(), // Unit price at checkout time
+    quantity: integer('quantity').default(1).notNull(),
+    amount: text('amount').notNull(), // Line subtotal (price * quantity)
+    cardKey: text('card_key'),
+    cardIds: text('card_ids'),
+    refundedQuantity: integer('refunded_quantity').default(0),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Shopping cart (per user, or per guest cookie session)
+export const cartItems = sqliteTable('cart_items', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    userId: text('user_id'),
+    sessionId: text('session_id'),
+    productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+    quantity: integer('quantity').default(1).notNull(),
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
 });
 
 // Logged-in users (for visitor counts)
@@ -68,16 +146,149 @@ export const loginUsers = sqliteTable('login_users', {
     points: integer('points').default(0).notNull(),
     isBlocked: integer('is_blocked', { mode: 'boolean' }).default(false),
     desktopNotificationsEnabled: integer('desktop_notifications_enabled', { mode: 'boolean' }).default(false),
+    tag: text('tag'),
+    referralCode: text('referral_code'),
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
     lastLoginAt: integer('last_login_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
     lastCheckinAt: integer('last_checkin_at', { mode: 'timestamp_ms' }),
     consecutiveDays: integer('consecutive_days').default(0),
 });
 
+// Invites: one row per referred member; rewards are paid once their first qualifying order is delivered
+export const referrals = sqliteTable('referrals', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    inviterId: text('inviter_id').notNull(),
+    inviteeId: text('invitee_id').notNull(),
+    code: text('code'),
+    status: text('status').default('pending'), // pending, rewarded, rejected
+    orderId: text('order_id'),
+    inviterPoints: integer('inviter_points').default(0),
+    inviteePoints: integer('invitee_points').default(0),
+    note: text('note'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    rewardedAt: integer('rewarded_at', { mode: 'timestamp_ms' }),
+});
+
+// Admin roles granted from the dashboard; ADMIN_USERS from the env are always owners.
+export const adminRoles = sqliteTable('admin_roles', {
+    userId: text('user_id').primaryKey(),
+    role: text('role').notNull(), // owner, operator, support, viewer
+    grantedBy: text('granted_by'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// One row per admin mutation; `changes` is JSON ({ before, after } for edits, details otherwise)
+export const adminAuditLog = sqliteTable('admin_audit_log', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    adminId: text('admin_id'),
+    adminUsername: text('admin_username'),
+    action: text('action').notNull(),
+    targetType: text('target_type'),
+    targetId: text('target_id'),
+    changes: text('changes'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Admin notification targets (Telegram, Discord, ...); `config` holds the channel's credentials as JSON
+export const notificationChannels = sqliteTable('notification_channels', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    type: text('type').notNull(),
+    name: text('name').notNull(),
+    config: text('config').notNull(),
+    events: text('events').notNull(),
+    language: text('language').default('zh'),
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Outbound webhooks; `events` is a JSON array of subscribed event names
+export const webhookEndpoints = sqliteTable('webhook_endpoints', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(),
+    events: text('events').notNull(),
+    description: text('description'),
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Delivery queue and log: one row per (event, endpoint), retried until delivered or given up
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    endpointId: integer('endpoint_id').notNull(),
+    event: text('event').notNull(),
+    eventId: text('event_id').notNull(),
+    payload: text('payload').notNull(),
+    status: text('status').default('pending'), // pending, delivered, failed
+    attempts: integer('attempts').default(0),
+    nextAttemptAt: integer('next_attempt_at', { mode: 'timestamp_ms' }),
+    responseStatus: integer('response_status'),
+    responseBody: text('response_body'),
+    error: text('error'),
+    durationMs: integer('duration_ms'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Every customer email goes through here first; html is cleared once sent since it can hold card keys
+export const emailOutbox = sqliteTable('email_outbox', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    kind: text('kind').notNull(), // order_delivered, refund_approved, refund_rejected, payment_reminder, broadcast, test
+    toAddress: text('to_address').notNull(),
+    subject: text('subject').notNull(),
+    html: text('html'), // encrypted like card keys when CARD_KEY_SECRET is set
+    status: text('status').default('pending'), // pending, sent, failed
+    attempts: integer('attempts').default(0),
+    nextAttemptAt: integer('next_attempt_at', { mode: 'timestamp_ms' }),
+    transport: text('transport'),
+    providerId: text('provider_id'),
+    error: text('error'),
+    sentAt: integer('sent_at', { mode: 'timestamp_ms' }),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Member pricing: percent off for a minimum trust level and/or an admin-assigned user tag.
+// productId null applies to every product.
+export const memberDiscounts = sqliteTable('member_discounts', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    name: text('name').notNull(),
+    productId: text('product_id'),
+    minTrustLevel: integer('min_trust_level'),
+    userTag: text('user_tag'),
+    percentOff: integer('percent_off').notNull(),
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Points ledger: every change to loginUsers.points, so balances can be audited
+export const pointsTransactions = sqliteTable('points_transactions', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    userId: text('user_id').notNull(),
+    delta: integer('delta').notNull(),
+    balanceAfter: integer('balance_after'),
+    reason: text('reason').notNull(), // checkin, order_payment, order_cashback, points_expired, admin_adjust, ...
+    orderId: text('order_id'),
+    actor: text('actor').notNull().default('system'),
+    note: text('note'),
+    // Credits are lots: what is left of them after FIFO spending, and when that expires
+    remaining: integer('remaining'),
+    expiresAt: integer('expires_at', { mode: 'timestamp_ms' }),
+    expiryNotifiedAt: integer('expiry_notified_at', { mode: 'timestamp_ms' }),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
 // Daily Check-ins
 export const dailyCheckins = sqliteTable('daily_checkins_v2', {
     id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
     userId: text('user_id').notNull().references(() => loginUsers.userId, { onDelete: 'cascade' }),
+    // YYYY-MM-DD in the check-in time zone; unique per user
+    day: text('day'),
+    isMakeup: integer('is_makeup', { mode: 'boolean' }).default(false),
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
 });
 // Note: Unique index logic for 'userDateUnique' needs Drizzle SQLite specific syntax or raw SQL if not supported directly in schema builder yet, 
@@ -127,6 +338,13 @@ export const refundRequests = sqliteTable('refund_requests', {
     status: text('status').default('pending'),
     adminUsername: text('admin_username'),
     adminNote: text('admin_note'),
+    // Set for partial refund requests; empty means the whole order
+    refundAmount: text('refund_amount'),
+    refundQuantity: integer('refund_quantity'),
+    cardIds: text('card_ids'),
+    // 'gateway' (default) or 'points' for store credit; refundPoints is what was credited
+    refundMethod: text('refund_method'),
+    refundPoints: integer('refund_points'),
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
     updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
     processedAt: integer('processed_at', { mode: 'timestamp_ms' }),
@@ -200,3 +418,66 @@ export const wishlistVotes = sqliteTable('wishlist_votes', {
     userId: text('user_id').notNull().references(() => loginUsers.userId, { onDelete: 'cascade' }),
     createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
 });
+
+// Coupons / discount codes
+export const coupons = sqliteTable('coupons', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    code: text('code').notNull().unique(), // Stored upper-case
+    type: text('type').notNull().default('percent'), // 'percent' | 'fixed'
+    value: text('value').notNull(),
+    scope: text('scope').notNull().default('all'), // 'all' | 'product' | 'category'
+    scopeValue: text('scope_value'), // Comma separated product ids or category names
+    minSpend: text('min_spend'),
+    maxUses: integer('max_uses'),
+    perUserLimit: integer('per_user_limit'),
+    usedCount: integer('used_count').default(0).notNull(),
+    allowPoints: integer('allow_points', { mode: 'boolean' }).default(true), // Can be combined with points
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    startsAt: integer('starts_at', { mode: 'timestamp_ms' }),
+    endsAt: integer('ends_at', { mode: 'timestamp_ms' }),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Coupon usage per order (restored on cancel/refund)
+export const couponRedemptions = sqliteTable('coupon_redemptions', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    couponId: integer('coupon_id').notNull().references(() => coupons.id, { onDelete: 'cascade' }),
+    orderId: text('order_id').notNull(),
+    userId: text('user_id'),
+    email: text('email'),
+    discount: text('discount').notNull(),
+    status: text('status').default('active'), // 'active' | 'restored'
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Order status history
+export const orderEvents = sqliteTable('order_events', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    orderId: text('order_id').notNull(),
+    fromStatus: text('from_status'), // null when the order was created
+    toStatus: text('to_status').notNull(),
+    actor: text('actor').notNull().default('system'), // 'system' | 'gateway:<provider>' | 'admin:<username>' | 'user:<username>'
+    reason: text('reason'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
+
+// Every inbound payment callback, kept for auditing and replay
+export const paymentEvents = sqliteTable('payment_events', {
+    id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
+    orderId: text('order_id'),
+    outTradeNo: text('out_trade_no'),
+    provider: text('provider'),
+    source: text('source').default('notify'), // 'notify' | 'replay'
+    method: text('method'), // 'GET' | 'POST'
+    rawParams: text('raw_params'), // JSON
+    signatureValid: integer('signature_valid', { mode: 'boolean' }).default(false),
+    tradeStatus: text('trade_status'),
+    tradeNo: text('trade_no'),
+    amount: text('amount'),
+    result: text('result').notNull(), // 'processed' | 'ignored' | 'rejected' | 'error'
+    statusBefore: text('status_before'),
+    statusAfter: text('status_after'),
+    error: text('error'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).$defaultFn(() => new Date()),
+});
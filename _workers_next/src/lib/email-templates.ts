@@ -0,0 +1,215 @@
+/**
+ * Customer email templates and transports. Client-safe: the admin editor
+ * renders previews with the same code lib/email uses to send.
+ */
+
+export const EMAIL_TRANSPORTS = ['resend', 'smtp', 'http'] as const
+
+export type EmailTransportId = typeof EMAIL_TRANSPORTS[number]
+
+export const EMAIL_TEMPLATE_KINDS = ['order_delivered', 'refund_approved', 'refund_rejected', 'payment_reminder', 'broadcast'] as const
+
+export type EmailTemplateKind = typeof EMAIL_TEMPLATE_KINDS[number]
+
+export type EmailLanguage = 'zh' | 'en'
+
+export interface EmailTemplate {
+    subject: string
+    /** HTML placed inside the shared layout; `{{name}}` is replaced with the escaped value */
+    body: string
+}
+
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateKind, string[]> = {
+    order_delivered: ['siteName', 'orderId', 'productName', 'cardKeys', 'orderUrl'],
+    refund_approved: ['siteName', 'orderId', 'productName', 'amount', 'orderUrl'],
+    refund_rejected: ['siteName', 'orderId', 'productName', 'adminNote', 'orderUrl'],
+    payment_reminder: ['siteName', 'orderId', 'productName', 'amount', 'payUrl'],
+    broadcast: ['siteName', 'title', 'content'],
+}
+
+/** Filler values for the admin preview */
+export const SAMPLE_EMAIL_VARIABLES: Record<string, string> = {
+    siteName: 'LDC Shop',
+    orderId: 'ORD20260101ABCD',
+    productName: 'Sample Product',
+    cardKeys: 'XXXX-YYYY-ZZZZ\nAAAA-BBBB-CCCC',
+    orderUrl: 'https://example.com/order/ORD20260101ABCD',
+    payUrl: 'https://example.com/order/ORD20260101ABCD',
+    amount: '9.90',
+    adminNote: 'Keys were already redeemed.',
+    title: 'Store announcement',
+    content: 'New products are in stock this week.',
+}
+
+export function isEmailTransport(value: unknown): value is EmailTransportId {
+    return typeof value === 'string' && (EMAIL_TRANSPORTS as readonly string[]).includes(value)
+}
+
+export function isEmailTemplateKind(value: unknown): value is EmailTemplateKind {
+    return typeof value === 'string' && (EMAIL_TEMPLATE_KINDS as readonly string[]).includes(value)
+}
+
+export function emailLanguage(value: string | null | undefined): EmailLanguage {
+    return value === 'en' ? 'en' : 'zh'
+}
+
+const header = (title: string) => `<div style="background: linear-gradient(135deg, #7c3aed 0%, #6366f1 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 24px;">${title}</h1>
+</div>`
+
+const panel = (content: string) => `<div style="background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; border: 1px solid #e5e7eb; border-top: none;">
+${content}
+</div>`
+
+const box = (content: string, tone: 'plain' | 'notice' = 'plain') => tone === 'notice'
+    ? `<div style="background: #fef3c7; padding: 20px; border-radius: 8px; border: 1px solid #fcd34d; margin: 20px 0;">${content}</div>`
+    : `<div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">${content}</div>`
+
+const row = (label: string, value: string) => `<p style="margin: 0 0 10px 0;"><strong>${label}</strong> ${value}</p>`
+
+const code = (value: string) => `<code style="background: #f3f4f6; padding: 2px 6px; border-radius: 4px;">${value}</code>`
+
+const button = (href: string, label: string) => `<p style="text-align: center; margin: 24px 0;"><a href="${href}" style="background: #6366f1; color: white; padding: 10px 20px; border-radius: 6px; text-decoration: none;">${label}</a></p>`
+
+const pre = (value: string) => `<pre style="background: white; padding: 15px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; margin: 0; font-family: 'Courier New', monospace; font-size: 14px;">${value}</pre>`
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKind, Record<EmailLanguage, EmailTemplate>> = {
+    order_delivered: {
+        zh: {
+            subject: '您的订单 {{orderId}} 已完成',
+            body: header('🎉 订单已完成') + panel([
+                '<p style="margin-top: 0;">您好！</p>',
+                '<p>感谢您的购买，以下是您的订单信息：</p>',
+                box(row('商品：', '{{productName}}') + row('订单号：', code('{{orderId}}'))),
+                box('<p style="margin: 0 0 10px 0; font-weight: bold;">📦 您的卡密：</p>' + pre('{{cardKeys}}'), 'notice'),
+                '<p style="color: #6b7280; font-size: 14px;">请妥善保管您的卡密信息。如有任何问题，请联系客服。</p>'
+            ].join('\n'))
+        },
+        en: {
+            subject: 'Your Order {{orderId}} is Complete',
+            body: header('🎉 Order Complete') + panel([
+                '<p style="margin-top: 0;">Hello!</p>',
+                '<p>Thank you for your purchase. Here is your order information:</p>',
+                box(row('Product:', '{{productName}}') + row('Order ID:', code('{{orderId}}'))),
+                box('<p style="margin: 0 0 10px 0; font-weight: bold;">📦 Your Card Key(s):</p>' + pre('{{cardKeys}}'), 'notice'),
+                '<p style="color: #6b7280; font-size: 14px;">Please keep your card key(s) safe. If you have any questions, please contact support.</p>'
+            ].join('\n'))
+        }
+    },
+    refund_approved: {
+        zh: {
+            subject: '订单 {{orderId}} 的退款已通过',
+            body: header('✅ 退款已通过') + panel([
+                '<p style="margin-top: 0;">您好！</p>',
+                '<p>您的退款申请已通过审核，款项将按原支付方式退回。</p>',
+                box(row('商品：', '{{productName}}') + row('订单号：', code('{{orderId}}')) + row('退款金额：', '{{amount}}')),
+                button('{{orderUrl}}', '查看订单')
+            ].join('\n'))
+        },
+        en: {
+            subject: 'Refund approved for order {{orderId}}',
+            body: header('✅ Refund Approved') + panel([
+                '<p style="margin-top: 0;">Hello!</p>',
+                '<p>Your refund request was approved and the money is on its way back to your original payment method.</p>',
+                box(row('Product:', '{{productName}}') + row('Order ID:', code('{{orderId}}')) + row('Refund amount:', '{{amount}}')),
+                button('{{orderUrl}}', 'View order')
+            ].join('\n'))
+        }
+    },
+    refund_rejected: {
+        zh: {
+            subject: '订单 {{orderId}} 的退款申请未通过',
+            body: header('退款申请未通过') + panel([
+                '<p style="margin-top: 0;">您好！</p>',
+                '<p>很抱歉，您的退款申请未通过审核。</p>',
+                box(row('商品：', '{{productName}}') + row('订单号：', code('{{orderId}}')) + row('说明：', '{{adminNote}}')),
+                '<p style="color: #6b7280; font-size: 14px;">如有疑问，请联系客服。</p>',
+                button('{{orderUrl}}', '查看订单')
+            ].join('\n'))
+        },
+        en: {
+            subject: 'Refund request for order {{orderId}} was declined',
+            body: header('Refund Request Declined') + panel([
+                '<p style="margin-top: 0;">Hello!</p>',
+                '<p>Sorry, your refund request was not approved.</p>',
+                box(row('Product:', '{{productName}}') + row('Order ID:', code('{{orderId}}')) + row('Note:', '{{adminNote}}')),
+                '<p style="color: #6b7280; font-size: 14px;">If you have any questions, please contact support.</p>',
+                button('{{orderUrl}}', 'View order')
+            ].join('\n'))
+        }
+    },
+    payment_reminder: {
+        zh: {
+            subject: '订单 {{orderId}} 尚未支付',
+            body: header('⏰ 订单待支付') + panel([
+                '<p style="margin-top: 0;">您好！</p>',
+                '<p>您的订单还未完成支付，库存有限，请尽快付款。</p>',
+                box(row('商品：', '{{productName}}') + row('订单号：', code('{{orderId}}')) + row('金额：', '{{amount}}')),
+                button('{{payUrl}}', '立即支付')
+            ].join('\n'))
+        },
+        en: {
+            subject: 'Order {{orderId}} is waiting for payment',
+            body: header('⏰ Payment Pending') + panel([
+                '<p style="margin-top: 0;">Hello!</p>',
+                '<p>Your order has not been paid yet. Stock is limited, so please complete the payment soon.</p>',
+                box(row('Product:', '{{productName}}') + row('Order ID:', code('{{orderId}}')) + row('Amount:', '{{amount}}')),
+                button('{{payUrl}}', 'Pay now')
+            ].join('\n'))
+        }
+    },
+    broadcast: {
+        zh: {
+            subject: '{{title}}',
+            body: header('{{title}}') + panel('<div style="white-space: pre-wrap;">{{content}}</div>')
+        },
+        en: {
+            subject: '{{title}}',
+            body: header('{{title}}') + panel('<div style="white-space: pre-wrap;">{{content}}</div>')
+        }
+    },
+}
+
+function escapeHtml(value: string) {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+const footer: Record<EmailLanguage, string> = {
+    zh: '此邮件由系统自动发送，请勿直接回复。',
+    en: 'This is an automated email. Please do not reply directly.',
+}
+
+/** Fill a template; unknown `{{names}}` are left in place so typos show up in the preview */
+export function renderEmailTemplate(template: EmailTemplate, variables: Record<string, string>, language: EmailLanguage) {
+    const fill = (text: string, escape: boolean) => text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => {
+        if (!(name in variables)) return match
+        return escape ? escapeHtml(variables[name]) : variables[name]
+    })
+    const subject = fill(template.subject, false).replace(/[\r\n]+/g, ' ').trim()
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(subject)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+${fill(template.body, true)}
+<p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 20px 0 0 0;">${footer[language]}</p>
+</body>
+</html>`
+    return { subject, html }
+}
+
+/** Plain-text part for clients that do not render HTML */
+export function htmlToText(html: string) {
+    return html
+        .replace(/<(style|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h\d|pre|li)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
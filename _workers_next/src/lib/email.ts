@@ -1,139 +1,94 @@
-import { getSetting } from "./db/queries"
+import { db } from "./db"
+import { emailOutbox } from "./db/schema"
+import { ensureEmailOutboxTable, getSetting, normalizeTimestampMs } from "./db/queries"
+import { decryptCardKey, encryptCardKey } from "./card-crypto"
+import { runAfterResponse } from "./webhooks"
+import { sendSmtpMail } from "./smtp"
+import {
+    DEFAULT_EMAIL_TEMPLATES,
+    EMAIL_TEMPLATE_KINDS,
+    emailLanguage,
+    htmlToText,
+    isEmailTransport,
+    renderEmailTemplate,
+    type EmailLanguage,
+    type EmailTemplate,
+    type EmailTemplateKind,
+    type EmailTransportId,
+} from "./email-templates"
+import { and, desc, eq, lte, sql } from "drizzle-orm"
+
+/**
+ * Customer email. Messages are rendered from the admin-editable templates,
+ * written to `email_outbox` and sent after the response through the
+ * configured transport. Failed sends are retried with backoff whenever the
+ * queue is next processed (new mail, or the admin opening the page).
+ */
 
 export async function getEmailSettings() {
-    const [apiKey, fromEmail, fromName, enabled, language] = await Promise.all([
+    const [transport, apiKey, fromEmail, fromName, enabled, language, smtpHost, smtpPort, smtpSecure, smtpUsername, smtpPassword, httpUrl, httpToken] = await Promise.all([
+        getSetting('email_transport'),
         getSetting('resend_api_key'),
         getSetting('resend_from_email'),
         getSetting('resend_from_name'),
         getSetting('resend_enabled'),
-        getSetting('email_language')
+        getSetting('email_language'),
+        getSetting('smtp_host'),
+        getSetting('smtp_port'),
+        getSetting('smtp_secure'),
+        getSetting('smtp_username'),
+        getSetting('smtp_password'),
+        getSetting('email_http_url'),
+        getSetting('email_http_token')
     ])
 
     return {
+        transport: (isEmailTransport(transport) ? transport : 'resend') as EmailTransportId,
         apiKey,
         fromEmail,
         fromName: fromName || 'LDC Shop',
         enabled: enabled === 'true',
-        language: language || null
+        language: language || null,
+        smtp: {
+            host: smtpHost || '',
+            port: Number.parseInt(smtpPort || '', 10) || 465,
+            secure: (smtpSecure === 'starttls' ? 'starttls' : 'tls') as 'tls' | 'starttls',
+            username: smtpUsername || '',
+            password: smtpPassword || ''
+        },
+        http: {
+            url: httpUrl || '',
+            token: httpToken || ''
+        }
     }
 }
 
-interface OrderEmailParams {
-    to: string
-    orderId: string
-    productName: string
-    cardKeys: string
-    language?: 'zh' | 'en'
-}
+export type EmailSettings = Awaited<ReturnType<typeof getEmailSettings>>
 
-const emailTemplates = {
-    zh: {
-        subject: (orderId: string) => `您的订单 ${orderId} 已完成`,
-        body: (params: OrderEmailParams) => `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>订单确认</title>
-</head>
-<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-    <div style="background: linear-gradient(135deg, #7c3aed 0%, #6366f1 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
-        <h1 style="margin: 0; font-size: 24px;">🎉 订单已完成</h1>
-    </div>
-    
-    <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; border: 1px solid #e5e7eb; border-top: none;">
-        <p style="margin-top: 0;">您好！</p>
-        <p>感谢您的购买，以下是您的订单信息：</p>
-        
-        <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">
-            <p style="margin: 0 0 10px 0;"><strong>商品：</strong>${params.productName}</p>
-            <p style="margin: 0 0 10px 0;"><strong>订单号：</strong><code style="background: #f3f4f6; padding: 2px 6px; border-radius: 4px;">${params.orderId}</code></p>
-        </div>
-        
-        <div style="background: #fef3c7; padding: 20px; border-radius: 8px; border: 1px solid #fcd34d; margin: 20px 0;">
-            <p style="margin: 0 0 10px 0; font-weight: bold;">📦 您的卡密：</p>
-            <pre style="background: white; padding: 15px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; margin: 0; font-family: 'Courier New', monospace; font-size: 14px;">${params.cardKeys}</pre>
-        </div>
-        
-        <p style="color: #6b7280; font-size: 14px;">请妥善保管您的卡密信息。如有任何问题，请联系客服。</p>
-        
-        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
-        
-        <p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 0;">此邮件由系统自动发送，请勿直接回复。</p>
-    </div>
-</body>
-</html>
-        `.trim()
-    },
-    en: {
-        subject: (orderId: string) => `Your Order ${orderId} is Complete`,
-        body: (params: OrderEmailParams) => `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Order Confirmation</title>
-</head>
-<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-    <div style="background: linear-gradient(135deg, #7c3aed 0%, #6366f1 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
-        <h1 style="margin: 0; font-size: 24px;">🎉 Order Complete</h1>
-    </div>
-    
-    <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; border: 1px solid #e5e7eb; border-top: none;">
-        <p style="margin-top: 0;">Hello!</p>
-        <p>Thank you for your purchase. Here is your order information:</p>
-        
-        <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">
-            <p style="margin: 0 0 10px 0;"><strong>Product:</strong> ${params.productName}</p>
-            <p style="margin: 0 0 10px 0;"><strong>Order ID:</strong> <code style="background: #f3f4f6; padding: 2px 6px; border-radius: 4px;">${params.orderId}</code></p>
-        </div>
-        
-        <div style="background: #fef3c7; padding: 20px; border-radius: 8px; border: 1px solid #fcd34d; margin: 20px 0;">
-            <p style="margin: 0 0 10px 0; font-weight: bold;">📦 Your Card Key(s):</p>
-            <pre style="background: white; padding: 15px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; margin: 0; font-family: 'Courier New', monospace; font-size: 14px;">${params.cardKeys}</pre>
-        </div>
-        
-        <p style="color: #6b7280; font-size: 14px;">Please keep your card key(s) safe. If you have any questions, please contact support.</p>
-        
-        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
-        
-        <p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 0;">This is an automated email. Please do not reply directly.</p>
-    </div>
-</body>
-</html>
-        `.trim()
+/** Enabled, with a sender and whatever the chosen transport needs */
+export function isEmailConfigured(settings: EmailSettings | null | undefined) {
+    if (!settings?.enabled || !settings.fromEmail) return false
+    switch (settings.transport) {
+        case 'smtp': return !!settings.smtp.host
+        case 'http': return !!settings.http.url
+        default: return !!settings.apiKey
     }
 }
 
-export async function sendOrderEmail(params: OrderEmailParams) {
-    try {
-        const settings = await getEmailSettings()
-
-        if (!settings.enabled) {
-            console.log('[Email] Skipped: Email sending is disabled')
-            return { success: false, error: 'Email sending is disabled' }
-        }
-
-        if (!settings.apiKey || !settings.fromEmail) {
-            console.log('[Email] Skipped: Missing API key or from email')
-            return { success: false, error: 'Missing configuration' }
-        }
+interface OutgoingEmail {
+    to: string
+    subject: string
+    html: string
+}
 
-        if (!params.to) {
-            console.log('[Email] Skipped: No recipient email')
-            return { success: false, error: 'No recipient email' }
-        }
+type TransportResult = { success: true; id: string | null } | { success: false; error: string }
 
-        // Prefer dedicated email language setting, fallback to telegram language for backward compatibility
-        const [emailLang, telegramLang] = await Promise.all([
-            getSetting('email_language'),
-            getSetting('telegram_language')
-        ])
-        const lang = params.language || emailLang || telegramLang || 'zh'
-        const template = emailTemplates[lang as keyof typeof emailTemplates] || emailTemplates.zh
+async function readError(response: Response) {
+    return (await response.text().catch(() => '')).slice(0, 500) || `HTTP ${response.status}`
+}
 
+const transports: Record<EmailTransportId, (settings: EmailSettings, email: OutgoingEmail) => Promise<TransportResult>> = {
+    resend: async (settings, email) => {
         const response = await fetch('https://api.resend.com/emails', {
             method: 'POST',
             headers: {
@@ -142,62 +97,364 @@ export async function sendOrderEmail(params: OrderEmailParams) {
             },
             body: JSON.stringify({
                 from: `${settings.fromName} <${settings.fromEmail}>`,
-                to: params.to,
-                subject: template.subject(params.orderId),
-                html: template.body(params)
-            })
+                to: email.to,
+                subject: email.subject,
+                html: email.html
+            }),
+            signal: AbortSignal.timeout(15000)
+        })
+        if (!response.ok) return { success: false, error: await readError(response) }
+        const result = await response.json().catch(() => ({}))
+        return { success: true, id: result?.id || null }
+    },
+    smtp: async (settings, email) => {
+        const result = await sendSmtpMail(settings.smtp, {
+            fromEmail: settings.fromEmail!,
+            fromName: settings.fromName,
+            to: email.to,
+            subject: email.subject,
+            html: email.html,
+            text: htmlToText(email.html)
         })
-
-        if (!response.ok) {
-            const error = await response.text()
-            console.error('[Email] Resend API Error:', error)
-            return { success: false, error }
-        }
-
-        const result = await response.json()
-        console.log('[Email] Sent successfully:', result.id)
         return { success: true, id: result.id }
+    },
+    // Generic JSON mail API: {from, fromName, to, subject, html, text} with an optional bearer token
+    http: async (settings, email) => {
+        const response = await fetch(settings.http.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(settings.http.token ? { 'Authorization': `Bearer ${settings.http.token}` } : {})
+            },
+            body: JSON.stringify({
+                from: settings.fromEmail,
+                fromName: settings.fromName,
+                to: email.to,
+                subject: email.subject,
+                html: email.html,
+                text: htmlToText(email.html)
+            }),
+            signal: AbortSignal.timeout(15000)
+        })
+        if (!response.ok) return { success: false, error: await readError(response) }
+        const result = await response.json().catch(() => ({}))
+        return { success: true, id: result?.id || result?.messageId || null }
+    },
+}
+
+async function deliver(settings: EmailSettings, email: OutgoingEmail): Promise<TransportResult> {
+    try {
+        return await transports[settings.transport](settings, email)
     } catch (e: any) {
-        console.error('[Email] Send Error:', e)
-        return { success: false, error: e.message }
+        return { success: false, error: String(e?.message || e).slice(0, 500) }
     }
 }
 
-export async function testResendEmail(to: string) {
-    const settings = await getEmailSettings()
+// Templates
 
-    if (!settings.apiKey || !settings.fromEmail) {
-        return { success: false, error: 'Missing API key or from email' }
-    }
+export function emailTemplateSettingKey(kind: EmailTemplateKind, language: EmailLanguage) {
+    return `email_template_${kind}_${language}`
+}
 
+/** The admin's version of a template if saved, else the built-in one */
+export async function getEmailTemplate(kind: EmailTemplateKind, language: EmailLanguage): Promise<EmailTemplate & { custom: boolean }> {
+    const fallback = DEFAULT_EMAIL_TEMPLATES[kind][language]
     try {
-        const response = await fetch('https://api.resend.com/emails', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${settings.apiKey}`
-            },
-            body: JSON.stringify({
-                from: `${settings.fromName} <${settings.fromEmail}>`,
-                to: to,
-                subject: '🔔 LDC Shop Email Test',
-                html: `
-                    <div style="font-family: sans-serif; padding: 20px;">
-                        <h2>✅ Email Configuration Successful!</h2>
-                        <p>If you're reading this, your email settings are working correctly.</p>
-                        <p style="color: #666; font-size: 14px;">This is a test email from LDC Shop.</p>
-                    </div>
-                `
+        const raw = await getSetting(emailTemplateSettingKey(kind, language))
+        const saved = raw ? JSON.parse(raw) : null
+        if (saved?.subject && saved?.body) return { subject: String(saved.subject), body: String(saved.body), custom: true }
+    } catch {
+        // fall through to the default
+    }
+    return { ...fallback, custom: false }
+}
+
+export async function getEmailTemplates() {
+    const entries = await Promise.all(EMAIL_TEMPLATE_KINDS.map(async (kind) => [kind, {
+        zh: await getEmailTemplate(kind, 'zh'),
+        en: await getEmailTemplate(kind, 'en')
+    }] as const))
+    return Object.fromEntries(entries) as Record<EmailTemplateKind, Record<EmailLanguage, EmailTemplate & { custom: boolean }>>
+}
+
+// Outbox
+
+export const EMAIL_MAX_ATTEMPTS = 5
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000]
+const QUEUE_BATCH = 10
+// A claimed row is skipped by other queue runs for this long
+const CLAIM_MS = 60_000
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/
+
+async function resolveLanguage(language?: string | null) {
+    if (language) return emailLanguage(language)
+    // Prefer dedicated email language setting, fallback to telegram language for backward compatibility
+    const [emailLang, telegramLang] = await Promise.all([
+        getSetting('email_language'),
+        getSetting('telegram_language')
+    ])
+    return emailLanguage(emailLang || telegramLang)
+}
+
+/** Store the emails and send the first `batch` of due ones after the response */
+async function enqueueEmails(kind: string, emails: OutgoingEmail[], transport: EmailTransportId, batch = QUEUE_BATCH) {
+    await ensureEmailOutboxTable()
+    const now = new Date()
+    // Drizzle binds ~13 columns per row; D1 allows ~100 variables per statement
+    for (let i = 0; i < emails.length; i += 7) {
+        const batch = emails.slice(i, i + 7)
+        await db.insert(emailOutbox).values(await Promise.all(batch.map(async (email) => ({
+            kind,
+            toAddress: email.to,
+            subject: email.subject,
+            // Delivery mail can carry card keys, so keep it encrypted like the cards themselves
+            html: await encryptCardKey(email.html),
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            transport,
+            createdAt: now,
+            updatedAt: now
+        }))))
+    }
+    await runAfterResponse(async () => {
+        await processEmailOutbox(batch).catch((e) => console.error('[Email] Queue failed:', e))
+    })
+}
+
+/**
+ * Render `kind` for each recipient and queue it. Returns false when email is
+ * off or not configured, so nothing undeliverable piles up in the outbox.
+ */
+export async function queueTemplateEmail(
+    kind: EmailTemplateKind,
+    recipients: Array<{ to: string; variables: Record<string, string> }>,
+    options: { language?: string | null; batch?: number } = {}
+) {
+    const settings = await getEmailSettings()
+    if (!isEmailConfigured(settings)) {
+        console.log(`[Email] Skipped ${kind}: email is disabled or not configured`)
+        return { success: false as const, error: 'Email is disabled or not configured' }
+    }
+    const valid = recipients.filter((r) => EMAIL_PATTERN.test(r.to || ''))
+    if (!valid.length) return { success: false as const, error: 'No recipient email' }
+
+    const language = await resolveLanguage(options.language)
+    const [template, siteName] = await Promise.all([getEmailTemplate(kind, language), getSetting('shop_name')])
+    const emails = valid.map((r) => ({
+        to: r.to,
+        ...renderEmailTemplate(template, { siteName: siteName || settings.fromName, ...r.variables }, language)
+    }))
+    await enqueueEmails(kind, emails, settings.transport, options.batch)
+    return { success: true as const, queued: emails.length }
+}
+
+type OutboxRow = typeof emailOutbox.$inferSelect
+
+async function attempt(row: OutboxRow, settings: EmailSettings, retry = true) {
+    const now = Date.now()
+    // Claim the row so overlapping queue runs do not send it twice
+    const claimed = await db.update(emailOutbox)
+        .set({ nextAttemptAt: new Date(now + CLAIM_MS), updatedAt: new Date(now) })
+        .where(and(
+            eq(emailOutbox.id, row.id),
+            eq(emailOutbox.status, 'pending'),
+            lte(normalizeTimestampMs(emailOutbox.nextAttemptAt), now)
+        ))
+        .returning({ id: emailOutbox.id })
+    if (!claimed.length) return null
+
+    const result: TransportResult = isEmailConfigured(settings)
+        ? await deliver(settings, { to: row.toAddress, subject: row.subject, html: await decryptCardKey(row.html || '') })
+        : { success: false, error: 'Email is disabled or not configured' }
+    const attempts = Number(row.attempts || 0) + 1
+    const giveUp = !result.success && (!retry || attempts >= EMAIL_MAX_ATTEMPTS)
+    await db.update(emailOutbox)
+        .set(result.success
+            ? { status: 'sent', attempts, nextAttemptAt: null, transport: settings.transport, providerId: result.id, error: null, html: null, sentAt: new Date(), updatedAt: new Date() }
+            : {
+                status: giveUp ? 'failed' : 'pending',
+                attempts,
+                nextAttemptAt: giveUp ? null : new Date(Date.now() + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1]),
+                transport: settings.transport,
+                error: result.error,
+                updatedAt: new Date()
             })
-        })
+        .where(eq(emailOutbox.id, row.id))
+    if (!result.success) console.error(`[Email] ${row.kind} to ${row.toAddress} failed (attempt ${attempts}):`, result.error)
+    return result
+}
 
-        if (!response.ok) {
-            const error = await response.text()
-            return { success: false, error }
+/** Send outbox rows that are due, oldest first. Returns how many were attempted. */
+export async function processEmailOutbox(limit = QUEUE_BATCH) {
+    await ensureEmailOutboxTable()
+    const due = await db.select().from(emailOutbox)
+        .where(and(
+            eq(emailOutbox.status, 'pending'),
+            lte(normalizeTimestampMs(emailOutbox.nextAttemptAt), Date.now())
+        ))
+        .orderBy(emailOutbox.nextAttemptAt)
+        .limit(limit)
+    if (!due.length) return 0
+    const settings = await getEmailSettings()
+    for (const row of due) {
+        try {
+            await attempt(row, settings)
+        } catch (error) {
+            console.error(`[Email] Outbox ${row.id} failed:`, error)
         }
+    }
+    return due.length
+}
+
+/** Put a failed or waiting row back at the front of the queue and try it now */
+export async function retryOutboxEmail(id: number) {
+    await ensureEmailOutboxTable()
+    const [row] = await db.update(emailOutbox)
+        .set({ status: 'pending', nextAttemptAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(emailOutbox.id, id), sql`${emailOutbox.status} != 'sent'`))
+        .returning()
+    if (!row) return null
+    return attempt(row, await getEmailSettings())
+}
 
-        return { success: true }
+export async function getRecentOutboxEmails(limit = 50) {
+    try {
+        await ensureEmailOutboxTable()
+        return await db.select({
+            id: emailOutbox.id,
+            kind: emailOutbox.kind,
+            toAddress: emailOutbox.toAddress,
+            subject: emailOutbox.subject,
+            status: emailOutbox.status,
+            attempts: emailOutbox.attempts,
+            nextAttemptAt: emailOutbox.nextAttemptAt,
+            transport: emailOutbox.transport,
+            error: emailOutbox.error,
+            sentAt: emailOutbox.sentAt,
+            createdAt: emailOutbox.createdAt,
+        }).from(emailOutbox)
+            .orderBy(desc(normalizeTimestampMs(emailOutbox.createdAt)), desc(emailOutbox.id))
+            .limit(limit)
+    } catch {
+        return []
+    }
+}
+
+// Senders
+
+interface OrderEmailParams {
+    to: string
+    orderId: string
+    productName: string
+    cardKeys: string
+    language?: 'zh' | 'en'
+}
+
+function orderUrl(orderId: string) {
+    return `${process.env.NEXT_PUBLIC_APP_URL || ''}/order/${orderId}`
+}
+
+export async function sendOrderEmail(params: OrderEmailParams) {
+    try {
+        return await queueTemplateEmail('order_delivered', [{
+            to: params.to,
+            variables: {
+                orderId: params.orderId,
+                productName: params.productName,
+                cardKeys: params.cardKeys,
+                orderUrl: orderUrl(params.orderId)
+            }
+        }], { language: params.language })
+    } catch (e: any) {
+        console.error('[Email] Send Error:', e)
+        return { success: false as const, error: e.message }
+    }
+}
+
+export async function sendRefundResultEmail(params: {
+    to: string | null | undefined
+    orderId: string
+    productName: string
+    approved: boolean
+    amount?: string | null
+    adminNote?: string | null
+}) {
+    if (!params.to) return { success: false as const, error: 'No recipient email' }
+    try {
+        return await queueTemplateEmail(params.approved ? 'refund_approved' : 'refund_rejected', [{
+            to: params.to,
+            variables: {
+                orderId: params.orderId,
+                productName: params.productName,
+                amount: params.amount || '',
+                adminNote: params.adminNote || '-',
+                orderUrl: orderUrl(params.orderId)
+            }
+        }])
     } catch (e: any) {
-        return { success: false, error: e.message }
+        console.error('[Email] Refund email failed:', e)
+        return { success: false as const, error: e.message }
     }
 }
+
+export async function sendPaymentReminderEmail(params: { to: string; orderId: string; productName: string; amount: string }) {
+    return queueTemplateEmail('payment_reminder', [{
+        to: params.to,
+        variables: {
+            orderId: params.orderId,
+            productName: params.productName,
+            amount: params.amount,
+            payUrl: orderUrl(params.orderId)
+        }
+    }])
+}
+
+/** Admin broadcast by email; large lists drain over several queue runs */
+export async function queueBroadcastEmails(title: string, content: string, recipients: string[]) {
+    const unique = Array.from(new Set(recipients.map((to) => to.trim().toLowerCase()).filter(Boolean)))
+    return queueTemplateEmail('broadcast', unique.map((to) => ({ to, variables: { title, content } })), { batch: 50 })
+}
+
+/** Staff alerts from the email notification channel: plain, untemplated, but still queued and retried */
+export async function queueAdminEmail(to: string, subject: string, html: string) {
+    const settings = await getEmailSettings()
+    if (!isEmailConfigured(settings)) return { success: false as const, error: 'Email is disabled or not configured' }
+    const recipients = to.split(/[,\s]+/).filter((address) => EMAIL_PATTERN.test(address))
+    if (!recipients.length) return { success: false as const, error: 'Invalid email address' }
+    await enqueueEmails('admin_alert', recipients.map((address) => ({ to: address, subject, html })), settings.transport)
+    return { success: true as const }
+}
+
+/** Send straight away (still logged in the outbox) so the admin sees the transport's answer */
+export async function sendTestEmail(to: string) {
+    const settings = await getEmailSettings()
+    if (!isEmailConfigured({ ...settings, enabled: true })) {
+        return { success: false as const, error: 'Missing sender address or transport settings' }
+    }
+    if (!EMAIL_PATTERN.test(to)) return { success: false as const, error: 'Invalid email address' }
+
+    const html = `
+        <div style="font-family: sans-serif; padding: 20px;">
+            <h2>✅ Email Configuration Successful!</h2>
+            <p>If you're reading this, your email settings are working correctly.</p>
+            <p style="color: #666; font-size: 14px;">This is a test email from LDC Shop, sent via ${settings.transport}.</p>
+        </div>
+    `
+    await ensureEmailOutboxTable()
+    const now = new Date()
+    const [row] = await db.insert(emailOutbox).values({
+        kind: 'test',
+        toAddress: to,
+        subject: '🔔 LDC Shop Email Test',
+        html,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        transport: settings.transport,
+        createdAt: now,
+        updatedAt: now
+    }).returning()
+    const result = await attempt(row, { ...settings, enabled: true }, false)
+    return result?.success ? { success: true as const } : { success: false as const, error: result && !result.success ? result.error : 'Not sent' }
+}
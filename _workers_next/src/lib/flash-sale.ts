@@ -0,0 +1,75 @@
+export type FlashSaleStatus = 'upcoming' | 'active' | 'soldOut' | 'ended'
+
+export interface FlashSaleFields {
+    salePrice?: string | null
+    saleStartsAt?: Date | number | null
+    saleEndsAt?: Date | number | null
+    saleQuantity?: number | null
+}
+
+export interface FlashSaleState {
+    status: FlashSaleStatus
+    price: string
+    startsAt: number
+    endsAt: number
+    /** Units offered at the sale price, null when unlimited */
+    quantity: number | null
+    /** Units left at the sale price, null when unlimited */
+    remaining: number | null
+}
+
+export interface PublishWindow {
+    publishAt?: Date | number | null
+    unpublishAt?: Date | number | null
+}
+
+export function toTimestampMs(value: Date | number | string | null | undefined) {
+    if (value === null || value === undefined || value === '') return null
+    const ms = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : new Date(value).getTime()
+    return Number.isFinite(ms) ? ms : null
+}
+
+export function isWithinPublishWindow(window: PublishWindow, now = Date.now()) {
+    const publishAt = toTimestampMs(window.publishAt)
+    const unpublishAt = toTimestampMs(window.unpublishAt)
+    if (publishAt !== null && publishAt > now) return false
+    if (unpublishAt !== null && unpublishAt <= now) return false
+    return true
+}
+
+/** Where a product stands relative to its publish window, null when it has none */
+export function getPublishState(window: PublishWindow, now = Date.now()): 'scheduled' | 'live' | 'expired' | null {
+    const publishAt = toTimestampMs(window.publishAt)
+    const unpublishAt = toTimestampMs(window.unpublishAt)
+    if (publishAt === null && unpublishAt === null) return null
+    if (publishAt !== null && publishAt > now) return 'scheduled'
+    if (unpublishAt !== null && unpublishAt <= now) return 'expired'
+    return 'live'
+}
+
+/**
+ * Sale state for a product, or null when no sale is configured. `sold` is the
+ * number of units already ordered since the window opened.
+ */
+export function getFlashSaleState(fields: FlashSaleFields, sold = 0, now = Date.now()): FlashSaleState | null {
+    const startsAt = toTimestampMs(fields.saleStartsAt)
+    const endsAt = toTimestampMs(fields.saleEndsAt)
+    const price = Number(fields.salePrice)
+    if (!fields.salePrice || !Number.isFinite(price) || startsAt === null || endsAt === null || endsAt <= startsAt) {
+        return null
+    }
+
+    const quantity = fields.saleQuantity && fields.saleQuantity > 0 ? fields.saleQuantity : null
+    const remaining = quantity === null ? null : Math.max(0, quantity - Math.max(0, sold))
+    let status: FlashSaleStatus = 'active'
+    if (now < startsAt) status = 'upcoming'
+    else if (now >= endsAt) status = 'ended'
+    else if (remaining === 0) status = 'soldOut'
+
+    return { status, price: fields.salePrice, startsAt, endsAt, quantity, remaining }
+}
+
+/** Unit price after the sale is taken into account */
+export function flashSalePrice(basePrice: string | number, sale: FlashSaleState | null | undefined) {
+    return sale?.status === 'active' ? Number(sale.price) : Number(basePrice)
+}
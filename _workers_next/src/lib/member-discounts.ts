@@ -0,0 +1,99 @@
+import { db } from "@/lib/db"
+import { loginUsers, memberDiscounts } from "@/lib/db/schema"
+import { ensureMemberDiscountsTable } from "@/lib/db/queries"
+import { desc, eq } from "drizzle-orm"
+
+export type MemberDiscount = typeof memberDiscounts.$inferSelect
+
+/** What a buyer is matched on: trust level from the Linux DO session, tag from admin */
+export interface MemberContext {
+    trustLevel: number | null
+    tag: string | null
+}
+
+export interface MemberDiscountQuote {
+    ruleId: number
+    percentOff: number
+    discount: number
+    label: string
+}
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100
+}
+
+export function normalizeUserTag(tag?: string | null) {
+    return (tag || '').trim().toLowerCase() || null
+}
+
+export async function getMemberDiscounts() {
+    await ensureMemberDiscountsTable()
+    return await db.select().from(memberDiscounts).orderBy(desc(memberDiscounts.createdAt))
+}
+
+export async function getActiveMemberDiscounts(): Promise<MemberDiscount[]> {
+    try {
+        await ensureMemberDiscountsTable()
+        return await db.select().from(memberDiscounts).where(eq(memberDiscounts.isActive, true))
+    } catch {
+        return []
+    }
+}
+
+export async function getMemberContext(user?: { id?: string | null; trustLevel?: unknown } | null): Promise<MemberContext | null> {
+    if (!user?.id) return null
+    const level = Number(user.trustLevel)
+    let tag: string | null = null
+    try {
+        const row = await db.query.loginUsers.findFirst({
+            where: eq(loginUsers.userId, user.id),
+            columns: { tag: true }
+        })
+        tag = normalizeUserTag(row?.tag)
+    } catch {
+        tag = null
+    }
+    return { trustLevel: Number.isFinite(level) ? level : null, tag }
+}
+
+function ruleMatches(rule: MemberDiscount, productId: string, member: MemberContext) {
+    if (rule.isActive === false) return false
+    if (rule.productId && rule.productId !== productId) return false
+
+    const needsLevel = rule.minTrustLevel !== null && rule.minTrustLevel !== undefined
+    const needsTag = !!normalizeUserTag(rule.userTag)
+    // A rule without any condition would be a storewide sale, which is not what this is for
+    if (!needsLevel && !needsTag) return false
+    if (needsLevel && (member.trustLevel === null || member.trustLevel < rule.minTrustLevel!)) return false
+    if (needsTag && normalizeUserTag(rule.userTag) !== member.tag) return false
+    return true
+}
+
+/** Best matching rule for a product; member discounts never stack */
+export function pickMemberDiscount(rules: MemberDiscount[], productId: string, member: MemberContext | null) {
+    if (!member) return null
+    let best: MemberDiscount | null = null
+    for (const rule of rules) {
+        if (!ruleMatches(rule, productId, member)) continue
+        if (!best || rule.percentOff > best.percentOff) best = rule
+    }
+    return best
+}
+
+export function describeMemberDiscount(rule: MemberDiscount) {
+    return `${rule.name} (-${rule.percentOff}%)`
+}
+
+export function quoteMemberDiscount(rule: MemberDiscount | null, amount: number): MemberDiscountQuote | null {
+    if (!rule || amount <= 0) return null
+    const percentOff = Math.min(100, Math.max(0, rule.percentOff))
+    const discount = roundMoney(amount * percentOff / 100)
+    if (discount <= 0) return null
+    return { ruleId: rule.id, percentOff, discount, label: describeMemberDiscount(rule) }
+}
+
+/** Personalised unit price for listings */
+export function memberPrice(price: string | number, rule: MemberDiscount | null) {
+    if (!rule) return null
+    return roundMoney(Number(price) * (100 - Math.min(100, Math.max(0, rule.percentOff))) / 100)
+}
@@ -0,0 +1,83 @@
+/**
+ * Admin notification channels: what each type needs to be configured and which
+ * events it can subscribe to. Shared by the admin form and the server-side
+ * senders in lib/notifications.
+ */
+
+export const NOTIFICATION_EVENTS = ['payment_success', 'refund_request', 'fulfillment_failed', 'stock_alert'] as const
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number]
+
+export const CHANNEL_TYPES = ['telegram', 'discord', 'slack', 'bark', 'ntfy', 'gotify', 'email', 'webhook'] as const
+
+export type ChannelType = typeof CHANNEL_TYPES[number]
+
+export interface ChannelField {
+    key: string
+    /** Shown as a password input */
+    secret?: boolean
+    required?: boolean
+    /** Prefilled when left empty */
+    defaultValue?: string
+}
+
+export type ChannelConfig = Record<string, string>
+
+export const CHANNEL_FIELDS: Record<ChannelType, ChannelField[]> = {
+    telegram: [
+        { key: 'botToken', secret: true, required: true },
+        { key: 'chatId', required: true },
+    ],
+    discord: [
+        { key: 'webhookUrl', secret: true, required: true },
+    ],
+    slack: [
+        { key: 'webhookUrl', secret: true, required: true },
+    ],
+    bark: [
+        { key: 'serverUrl', defaultValue: 'https://api.day.app' },
+        { key: 'deviceKey', secret: true, required: true },
+    ],
+    ntfy: [
+        { key: 'serverUrl', defaultValue: 'https://ntfy.sh' },
+        { key: 'topic', required: true },
+        { key: 'accessToken', secret: true },
+    ],
+    gotify: [
+        { key: 'serverUrl', required: true },
+        { key: 'appToken', secret: true, required: true },
+    ],
+    // Sent through the shop's email transport (Notifications → Email)
+    email: [
+        { key: 'to', required: true },
+    ],
+    webhook: [
+        { key: 'url', required: true },
+        { key: 'secret', secret: true },
+    ],
+}
+
+export function isChannelType(value: string): value is ChannelType {
+    return (CHANNEL_TYPES as readonly string[]).includes(value)
+}
+
+export function isNotificationEvent(value: string): value is NotificationEvent {
+    return (NOTIFICATION_EVENTS as readonly string[]).includes(value)
+}
+
+/** Keep only the fields the type knows, trimmed, with defaults filled in */
+export function normalizeChannelConfig(type: ChannelType, config: Record<string, unknown>): ChannelConfig {
+    const result: ChannelConfig = {}
+    for (const field of CHANNEL_FIELDS[type]) {
+        let value = String(config[field.key] ?? '').trim() || field.defaultValue || ''
+        // Server bases get paths appended, so drop trailing slashes
+        if (field.key === 'serverUrl') value = value.replace(/\/+$/, '')
+        if (value) result[field.key] = value
+    }
+    return result
+}
+
+/** First required field left empty, if any */
+export function missingChannelField(type: ChannelType, config: ChannelConfig) {
+    return CHANNEL_FIELDS[type].find((field) => field.required && !config[field.key])?.key ?? null
+}
@@ -1,52 +1,17 @@
-import { getSetting } from "./db/queries"
-
-export async function getNotificationSettings() {
-    const token = await getSetting('telegram_bot_token')
-    const chatId = await getSetting('telegram_chat_id')
-    const language = await getSetting('telegram_language') || 'zh' // 默认中文
-    return {
-        token,
-        chatId,
-        language
-    }
-}
-
-export async function sendTelegramMessage(text: string) {
-    try {
-        const { token, chatId } = await getNotificationSettings()
-
-        if (!token || !chatId) {
-            console.log('[Notification] Skipped: Missing token or chat_id')
-            return { success: false, error: 'Missing configuration' }
-        }
-
-        const url = `https://api.telegram.org/bot${token}/sendMessage`
-        const body = {
-            chat_id: chatId,
-            text: text,
-            parse_mode: 'HTML'
-        }
-
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(body)
-        })
-
-        if (!response.ok) {
-            const error = await response.text()
-            console.error('[Notification] Telegram API Error:', error)
-            return { success: false, error }
-        }
-
-        return { success: true }
-    } catch (e: any) {
-        console.error('[Notification] Send Error:', e)
-        return { success: false, error: e.message }
-    }
-}
+import { db } from "./db"
+import { notificationChannels } from "./db/schema"
+import { ensureNotificationChannelsTable, getSetting, setSetting } from "./db/queries"
+import { signWebhookPayload } from "./webhooks"
+import { queueAdminEmail } from "./email"
+import {
+    NOTIFICATION_EVENTS,
+    isChannelType,
+    isNotificationEvent,
+    type ChannelConfig,
+    type ChannelType,
+    type NotificationEvent,
+} from "./notification-channels"
+import { eq } from "drizzle-orm"
 
 // 消息模板
 const messages = {
@@ -65,7 +30,20 @@ const messages = {
         manageRefunds: '管理退款',
         fulfillmentFailedTitle: '⚠️ Token生成失败！',
         error: '错误',
-        manualFulfill: '需要手动发货'
+        manualFulfill: '需要手动发货',
+        refundStatus: '退款状态',
+        autoRefunded: '✅ 已自动退款',
+        refundFailed: '❌ 退款失败，需手动处理',
+        testTitle: '🔔 测试通知',
+        channel: '渠道',
+        lowStockTitle: '📉 库存不足',
+        soldOutTitle: '🚫 商品已售罄',
+        stock: '剩余库存',
+        threshold: '预警阈值',
+        soldOutAction: '售罄处理',
+        autoHidden: '已自动下架，补货后自动上架',
+        markedRestocking: '已标记为补货中',
+        manageCards: '管理库存'
     },
     en: {
         paymentTitle: '💰 New Payment Received!',
@@ -82,10 +60,237 @@ const messages = {
         manageRefunds: 'Manage Refunds',
         fulfillmentFailedTitle: '⚠️ Token Generation Failed!',
         error: 'Error',
-        manualFulfill: 'Manual fulfillment required'
+        manualFulfill: 'Manual fulfillment required',
+        refundStatus: 'Refund status',
+        autoRefunded: '✅ Refunded automatically',
+        refundFailed: '❌ Refund failed, handle manually',
+        testTitle: '🔔 Test Notification',
+        channel: 'Channel',
+        lowStockTitle: '📉 Low Stock',
+        soldOutTitle: '🚫 Sold Out',
+        stock: 'Stock left',
+        threshold: 'Alert threshold',
+        soldOutAction: 'Sold-out action',
+        autoHidden: 'Hidden until restocked',
+        markedRestocking: 'Marked as restocking',
+        manageCards: 'Manage Stock'
     }
 }
 
+type Templates = typeof messages.zh
+
+/** Channel-neutral message; each sender renders it in its own markup */
+export interface NotificationMessage {
+    title: string
+    fields: Array<{ label: string; value: string; code?: boolean }>
+    link?: { url: string; label: string }
+}
+
+export interface NotificationChannel {
+    id: number
+    type: ChannelType
+    name: string
+    config: ChannelConfig
+    events: NotificationEvent[]
+    language: string
+    isActive: boolean
+}
+
+type SendResult = { success: true } | { success: false; error: string }
+
+function templatesFor(language: string | null | undefined): Templates {
+    return messages[language as keyof typeof messages] || messages.zh
+}
+
+export function escapeHtml(value: string) {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function renderHtml(message: NotificationMessage) {
+    const lines = message.fields.map((f) => `<b>${escapeHtml(f.label)}:</b> ${f.code ? `<code>${escapeHtml(f.value)}</code>` : escapeHtml(f.value)}`)
+    const link = message.link ? `\n\n<a href="${escapeHtml(message.link.url)}">${escapeHtml(message.link.label)}</a>` : ''
+    return `<b>${escapeHtml(message.title)}</b>\n\n${lines.join('\n')}${link}`
+}
+
+// Slack's mrkdwn uses single asterisks and <url|label> links
+function renderMarkdownBody(message: NotificationMessage, slack = false) {
+    const bold = slack ? '*' : '**'
+    const lines = message.fields.map((f) => `${bold}${f.label}:${bold} ${f.code ? `\`${f.value}\`` : f.value}`)
+    if (message.link) {
+        lines.push('', slack ? `<${message.link.url}|${message.link.label}>` : `[${message.link.label}](${message.link.url})`)
+    }
+    return lines.join('\n')
+}
+
+function renderMarkdown(message: NotificationMessage, slack = false) {
+    const bold = slack ? '*' : '**'
+    return `${bold}${message.title}${bold}\n\n${renderMarkdownBody(message, slack)}`
+}
+
+function renderText(message: NotificationMessage) {
+    return message.fields.map((f) => `${f.label}: ${f.value}`).join('\n') + (message.link ? `\n${message.link.url}` : '')
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<SendResult> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+        signal: AbortSignal.timeout(10000)
+    })
+    if (response.ok) return { success: true }
+    const error = (await response.text().catch(() => '')).slice(0, 500) || `HTTP ${response.status}`
+    return { success: false, error }
+}
+
+export async function callTelegramApi(token: string, method: string, body: Record<string, unknown>) {
+    return postJson(`https://api.telegram.org/bot${token}/${method}`, body)
+}
+
+// Channel registry: one sender per type, each taking the channel's own config
+const senders: Record<ChannelType, (config: ChannelConfig, message: NotificationMessage, event: string) => Promise<SendResult>> = {
+    telegram: (config, message) => callTelegramApi(config.botToken, 'sendMessage', {
+        chat_id: config.chatId,
+        text: renderHtml(message),
+        parse_mode: 'HTML',
+        disable_web_page_preview: true
+    }),
+    discord: (config, message) => postJson(config.webhookUrl, { content: renderMarkdown(message).slice(0, 2000) }),
+    slack: (config, message) => postJson(config.webhookUrl, { text: renderMarkdown(message, true) }),
+    bark: (config, message) => postJson(`${config.serverUrl}/push`, {
+        device_key: config.deviceKey,
+        title: message.title,
+        body: renderText(message),
+        group: 'ldc-shop',
+        ...(message.link ? { url: message.link.url } : {})
+    }),
+    ntfy: (config, message) => postJson(config.serverUrl, {
+        topic: config.topic,
+        title: message.title,
+        message: renderMarkdownBody(message),
+        markdown: true,
+        ...(message.link ? { click: message.link.url } : {})
+    }, config.accessToken ? { Authorization: `Bearer ${config.accessToken}` } : {}),
+    gotify: (config, message) => postJson(`${config.serverUrl}/message`, {
+        title: message.title,
+        message: renderMarkdownBody(message),
+        priority: 5,
+        extras: { 'client::display': { contentType: 'text/markdown' } }
+    }, { 'X-Gotify-Key': config.appToken }),
+    email: (config, message) => queueAdminEmail(
+        config.to,
+        message.title,
+        `<div style="font-family: sans-serif; line-height: 1.6; white-space: pre-wrap;">${renderHtml(message)}</div>`
+    ),
+    webhook: async (config, message, event) => {
+        const body = JSON.stringify({ event, ...message, text: renderText(message), sentAt: new Date().toISOString() })
+        const headers: Record<string, string> = {}
+        if (config.secret) {
+            const timestamp = Math.floor(Date.now() / 1000)
+            headers['X-Webhook-Timestamp'] = String(timestamp)
+            headers['X-Webhook-Signature'] = `sha256=${await signWebhookPayload(config.secret, timestamp, body)}`
+        }
+        return postJson(config.url, body, headers)
+    },
+}
+
+async function sendToChannel(channel: NotificationChannel, message: NotificationMessage, event: string): Promise<SendResult> {
+    try {
+        return await senders[channel.type](channel.config, message, event)
+    } catch (e: any) {
+        return { success: false, error: e?.message || String(e) }
+    }
+}
+
+function parseChannel(row: typeof notificationChannels.$inferSelect): NotificationChannel | null {
+    if (!isChannelType(row.type)) return null
+    const parse = (raw: string) => {
+        try {
+            return JSON.parse(raw)
+        } catch {
+            return null
+        }
+    }
+    const config = parse(row.config)
+    const events = parse(row.events)
+    return {
+        id: row.id,
+        type: row.type,
+        name: row.name,
+        config: config && typeof config === 'object' ? config : {},
+        events: Array.isArray(events) ? events.filter(isNotificationEvent) : [],
+        language: row.language || 'zh',
+        isActive: row.isActive !== false
+    }
+}
+
+// Before channels existed the single Telegram chat lived in settings; carry it over once
+async function migrateLegacyTelegram() {
+    if (await getSetting('notification_channels_migrated')) return
+    const [token, chatId, language] = await Promise.all([
+        getSetting('telegram_bot_token'),
+        getSetting('telegram_chat_id'),
+        getSetting('telegram_language')
+    ])
+    if (token && chatId) {
+        await db.insert(notificationChannels).values({
+            type: 'telegram',
+            name: 'Telegram',
+            config: JSON.stringify({ botToken: token, chatId }),
+            events: JSON.stringify(NOTIFICATION_EVENTS),
+            language: language || 'zh',
+            isActive: true,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        })
+    }
+    await setSetting('notification_channels_migrated', '1')
+}
+
+export async function getNotificationChannels() {
+    try {
+        await ensureNotificationChannelsTable()
+        await migrateLegacyTelegram()
+        const rows = await db.select().from(notificationChannels).orderBy(notificationChannels.id)
+        return rows.map(parseChannel).filter((c): c is NotificationChannel => !!c)
+    } catch (e) {
+        console.error('[Notification] Failed to load channels:', e)
+        return []
+    }
+}
+
+export async function getNotificationChannel(id: number) {
+    await ensureNotificationChannelsTable()
+    const row = await db.query.notificationChannels.findFirst({ where: eq(notificationChannels.id, id) })
+    return row ? parseChannel(row) : null
+}
+
+/**
+ * Send an admin notification to every active channel subscribed to `event`,
+ * built in each channel's language. Failures are logged, never thrown.
+ */
+export async function dispatchAdminNotification(event: NotificationEvent, build: (t: Templates) => NotificationMessage) {
+    const channels = (await getNotificationChannels()).filter((c) => c.isActive && c.events.includes(event))
+    if (!channels.length) {
+        console.log(`[Notification] Skipped ${event}: no subscribed channels`)
+        return { sent: 0, failed: 0 }
+    }
+    const results = await Promise.all(channels.map(async (channel) => {
+        const result = await sendToChannel(channel, build(templatesFor(channel.language)), event)
+        if (!result.success) console.error(`[Notification] ${channel.type} "${channel.name}" failed:`, result.error)
+        return result.success
+    }))
+    return { sent: results.filter(Boolean).length, failed: results.filter((ok) => !ok).length }
+}
+
+export async function sendTestNotification(channel: NotificationChannel) {
+    const t = templatesFor(channel.language)
+    return sendToChannel(channel, {
+        title: t.testTitle,
+        fields: [{ label: t.channel, value: `${channel.name} (${channel.type})` }]
+    }, 'test')
+}
+
 export async function notifyAdminPaymentSuccess(order: {
     orderId: string,
     productName: string,
@@ -94,20 +299,16 @@ export async function notifyAdminPaymentSuccess(order: {
     username?: string | null,
     tradeNo?: string | null
 }) {
-    const { language } = await getNotificationSettings()
-    const t = messages[language as keyof typeof messages] || messages.zh
-
-    const text = `
-<b>${t.paymentTitle}</b>
-
-<b>${t.order}:</b> <code>${order.orderId}</code>
-<b>${t.product}:</b> ${order.productName}
-<b>${t.amount}:</b> ${order.amount}
-<b>${t.user}:</b> ${order.username || t.guest} (${order.email || t.noEmail})
-<b>${t.tradeNo}:</b> <code>${order.tradeNo || 'N/A'}</code>
-`.trim()
-
-    return sendTelegramMessage(text)
+    return dispatchAdminNotification('payment_success', (t) => ({
+        title: t.paymentTitle,
+        fields: [
+            { label: t.order, value: order.orderId, code: true },
+            { label: t.product, value: order.productName },
+            { label: t.amount, value: order.amount },
+            { label: t.user, value: `${order.username || t.guest} (${order.email || t.noEmail})` },
+            { label: t.tradeNo, value: order.tradeNo || 'N/A', code: true }
+        ]
+    }))
 }
 
 export async function notifyAdminRefundRequest(order: {
@@ -117,22 +318,17 @@ export async function notifyAdminRefundRequest(order: {
     username?: string | null,
     reason?: string | null
 }) {
-    const { language } = await getNotificationSettings()
-    const t = messages[language as keyof typeof messages] || messages.zh
-
-    const text = `
-<b>${t.refundTitle}</b>
-
-<b>${t.order}:</b> <code>${order.orderId}</code>
-<b>${t.product}:</b> ${order.productName}
-<b>${t.amount}:</b> ${order.amount}
-<b>${t.user}:</b> ${order.username || t.guest}
-<b>${t.reason}:</b> ${order.reason || t.noReason}
-
-<a href="${process.env.NEXT_PUBLIC_APP_URL}/admin/refunds">${t.manageRefunds}</a>
-`.trim()
-
-    return sendTelegramMessage(text)
+    return dispatchAdminNotification('refund_request', (t) => ({
+        title: t.refundTitle,
+        fields: [
+            { label: t.order, value: order.orderId, code: true },
+            { label: t.product, value: order.productName },
+            { label: t.amount, value: order.amount },
+            { label: t.user, value: order.username || t.guest },
+            { label: t.reason, value: order.reason || t.noReason }
+        ],
+        link: { url: `${process.env.NEXT_PUBLIC_APP_URL}/admin/refunds`, label: t.manageRefunds }
+    }))
 }
 
 export async function notifyAdminFulfillmentFailed(order: {
@@ -143,24 +339,37 @@ export async function notifyAdminFulfillmentFailed(order: {
     error: string,
     refunded: boolean
 }) {
-    const { language } = await getNotificationSettings()
-    const t = messages[language as keyof typeof messages] || messages.zh
-
-    const refundStatus = order.refunded ? '✅ 已自动退款' : '❌ 退款失败，需手动处理'
-
-    const text = `
-<b>${t.fulfillmentFailedTitle}</b>
-
-<b>${t.order}:</b> <code>${order.orderId}</code>
-<b>${t.product}:</b> ${order.productName}
-<b>${t.amount}:</b> ${order.amount}
-<b>${t.user}:</b> ${order.username || t.guest}
-<b>${t.error}:</b> ${order.error}
-<b>退款状态:</b> ${refundStatus}
-
-<a href="${process.env.NEXT_PUBLIC_APP_URL}/admin/orders">${t.manualFulfill}</a>
-`.trim()
-
-    return sendTelegramMessage(text)
+    return dispatchAdminNotification('fulfillment_failed', (t) => ({
+        title: t.fulfillmentFailedTitle,
+        fields: [
+            { label: t.order, value: order.orderId, code: true },
+            { label: t.product, value: order.productName },
+            { label: t.amount, value: order.amount },
+            { label: t.user, value: order.username || t.guest },
+            { label: t.error, value: order.error },
+            { label: t.refundStatus, value: order.refunded ? t.autoRefunded : t.refundFailed }
+        ],
+        link: { url: `${process.env.NEXT_PUBLIC_APP_URL}/admin/orders`, label: t.manualFulfill }
+    }))
 }
 
+export async function notifyAdminStockAlert(product: {
+    id: string,
+    name: string,
+    level: 'low' | 'out',
+    stock: number,
+    threshold: number,
+    soldOutState?: string | null
+}) {
+    return dispatchAdminNotification('stock_alert', (t) => ({
+        title: product.level === 'out' ? t.soldOutTitle : t.lowStockTitle,
+        fields: [
+            { label: t.product, value: product.name },
+            { label: t.stock, value: String(product.stock) },
+            { label: t.threshold, value: String(product.threshold) },
+            ...(product.soldOutState === 'hidden' ? [{ label: t.soldOutAction, value: t.autoHidden }] : []),
+            ...(product.soldOutState === 'restocking' ? [{ label: t.soldOutAction, value: t.markedRestocking }] : [])
+        ],
+        link: { url: `${process.env.NEXT_PUBLIC_APP_URL}/admin/cards/${product.id}`, label: t.manageCards }
+    }))
+}
@@ -1,17 +1,31 @@
 import { db } from "@/lib/db";
-import { orders, cards, products, loginUsers as users } from "@/lib/db/schema";
+import { orders, orderItems, cards, products, loginUsers as users } from "@/lib/db/schema";
 import { eq, sql } from "drizzle-orm";
 import { isPaymentOrder } from "@/lib/payment";
+import { isCartOrder } from "@/lib/cart";
 import { notifyAdminPaymentSuccess, notifyAdminFulfillmentFailed } from "@/lib/notifications";
 import { sendOrderEmail } from "@/lib/email";
-import { recalcProductAggregates, createUserNotification } from "@/lib/db/queries";
+import { recalcOrderProductAggregates, createUserNotification, getOrderItems } from "@/lib/db/queries";
 import { RESERVATION_TTL_MS } from "@/lib/constants";
 import { updateTag } from "next/cache";
 import { after } from "next/server";
 import { generateSiyuanShareToken, isSiyuanShareConfigured } from "@/lib/siyuan-share";
 import { internalAutoRefund } from "@/actions/refund";
+import { gatewayActor, recordOrderNote, systemActor, transitionOrderStatus } from "@/lib/order-status";
+import { awardOrderCashback } from "@/lib/points";
+import { rewardReferralForOrder } from "@/lib/referrals";
+import { decryptCardKey, encryptCardKey } from "@/lib/card-crypto";
+
+/** Cashback and invite rewards are both paid once per order, on delivery */
+export async function rewardOrderDelivery(order: { orderId: string; userId: string | null; username?: string | null; amount: string }, actor: string) {
+    await awardOrderCashback(order, actor);
+    await rewardReferralForOrder(order, actor);
+}
 
-export async function processOrderFulfillment(orderId: string, paidAmount: number, tradeNo: string) {
+/**
+ * `actor` is recorded on the order timeline; it defaults to the gateway the order was paid through.
+ */
+export async function processOrderFulfillment(orderId: string, paidAmount: number, tradeNo: string, actor?: string) {
     const order = await db.query.orders.findFirst({
         where: eq(orders.orderId, orderId)
     });
@@ -20,6 +34,9 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
         throw new Error(`Order ${orderId} not found`);
     }
 
+    const eventActor = actor || gatewayActor(order.paymentProvider);
+    const payableStatuses: ('pending' | 'cancelled')[] = ['pending', 'cancelled'];
+
     // Verify Amount (Prevent penny-dropping)
     const orderMoney = parseFloat(order.amount);
 
@@ -30,7 +47,7 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
 
     const refreshAggregates = async () => {
         try {
-            await recalcProductAggregates(order.productId);
+            await recalcOrderProductAggregates(orderId, order.productId);
         } catch {
             // best effort
         }
@@ -42,6 +59,8 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
         }
     };
 
+    const rewardDelivery = (rewardActor: string) => rewardOrderDelivery(order, rewardActor);
+
     const notifyUserDelivered = async (productName: string | null | undefined) => {
         if (!order.userId) return
         await createUserNotification({
@@ -60,15 +79,13 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
     }
 
     if (isPaymentOrder(order.productId)) {
-        if (order.status === 'pending' || order.status === 'cancelled') {
-            await db.update(orders)
-                .set({
-                    status: 'paid',
-                    paidAt: new Date(),
-                    tradeNo: tradeNo
-                })
-                .where(eq(orders.orderId, orderId));
-
+        const { changed } = await transitionOrderStatus(orderId, 'paid', {
+            actor: eventActor,
+            reason: `Payment received (${tradeNo})`,
+            from: payableStatuses,
+            set: { paidAt: new Date(), tradeNo: tradeNo }
+        });
+        if (changed) {
             // Notify Admin
             after(async () => {
                 try {
@@ -94,6 +111,185 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
         return { success: true, status: 'processed' };
     }
 
+    if (isCartOrder(order.productId)) {
+        if (order.status !== 'pending' && order.status !== 'cancelled') {
+            return { success: true, status: 'already_processed' };
+        }
+
+        // Claim the payment before touching any card, so a duplicate notify cannot consume stock
+        const { changed: claimed } = await transitionOrderStatus(orderId, 'paid', {
+            actor: eventActor,
+            reason: `Payment received (${tradeNo})`,
+            from: payableStatuses,
+            set: {
+                paidAt: new Date(),
+                tradeNo: tradeNo,
+                currentPaymentId: null
+            }
+        });
+        if (!claimed) {
+            return { success: true, status: 'already_processed' };
+        }
+
+        const items = await getOrderItems(orderId);
+        const allKeys: string[] = [];
+        const allCardIds: number[] = [];
+        const emailSections: string[] = [];
+        const shortfalls: string[] = [];
+        const fiveMinutesAgo = Date.now() - RESERVATION_TTL_MS;
+
+        for (const item of items) {
+            const product = await db.query.products.findFirst({
+                where: eq(products.id, item.productId),
+                columns: { isShared: true }
+            });
+            const keys: string[] = [];
+            const ids: number[] = [];
+
+            if (product?.isShared) {
+                const availableCard = await db.select({ id: cards.id, cardKey: cards.cardKey })
+                    .from(cards)
+                    .where(sql`${cards.productId} = ${item.productId} AND COALESCE(${cards.isUsed}, 0) = 0`)
+                    .orderBy(sql`RANDOM()`)
+                    .limit(1);
+                if (availableCard.length > 0) {
+                    keys.push(...Array(item.quantity).fill(await decryptCardKey(availableCard[0].cardKey)));
+                    ids.push(availableCard[0].id);
+                }
+            } else {
+                // Reserved cards first, then top up from free stock
+                const reservedCards = await db.select({ id: cards.id, cardKey: cards.cardKey })
+                    .from(cards)
+                    .where(sql`${cards.reservedOrderId} = ${orderId} AND ${cards.productId} = ${item.productId} AND COALESCE(${cards.isUsed}, 0) = 0`)
+                    .limit(item.quantity);
+                let candidates = reservedCards;
+                if (reservedCards.length < item.quantity) {
+                    const availableCards = await db.select({ id: cards.id, cardKey: cards.cardKey })
+                        .from(cards)
+                        .where(sql`${cards.productId} = ${item.productId} AND COALESCE(${cards.isUsed}, 0) = 0 AND (${cards.reservedAt} IS NULL OR ${cards.reservedAt} < ${fiveMinutesAgo})`)
+                        .limit(item.quantity - reservedCards.length);
+                    candidates = [...reservedCards, ...availableCards];
+                }
+
+                for (const card of candidates) {
+                    const taken = await db.update(cards)
+                        .set({
+                            isUsed: true,
+                            usedAt: new Date(),
+                            reservedOrderId: null,
+                            reservedAt: null
+                        })
+                        .where(sql`${cards.id} = ${card.id} AND COALESCE(${cards.isUsed}, 0) = 0`)
+                        .returning({ id: cards.id });
+                    if (!taken.length) continue;
+                    keys.push(await decryptCardKey(card.cardKey));
+                    ids.push(card.id);
+                }
+            }
+
+            if (keys.length < item.quantity) {
+                shortfalls.push(`${item.productName} x${item.quantity - keys.length}`);
+                console.log(`[Fulfill] Cart order ${orderId}: ${item.productId} short by ${item.quantity - keys.length}`);
+            }
+
+            await db.update(orderItems)
+                .set({
+                    cardKey: keys.length > 0 ? await encryptCardKey(keys.join('\n')) : null,
+                    cardIds: ids.length > 0 ? Array.from(new Set(ids)).join(',') : null
+                })
+                .where(eq(orderItems.id, item.id));
+
+            allKeys.push(...keys);
+            allCardIds.push(...ids);
+            if (keys.length > 0) {
+                emailSections.push(`${item.productName} x${item.quantity}\n${keys.join('\n')}`);
+            }
+        }
+
+        // Release anything still held by this order (e.g. lines that were trimmed)
+        await db.update(cards)
+            .set({ reservedOrderId: null, reservedAt: null })
+            .where(sql`${cards.reservedOrderId} = ${orderId} AND COALESCE(${cards.isUsed}, 0) = 0`);
+
+        // A line that came up short keeps the whole order paid so an admin finishes or refunds it
+        const delivered = allKeys.length > 0 && shortfalls.length === 0;
+        const uniqueCardIds = Array.from(new Set(allCardIds));
+        const issued = {
+            cardKey: allKeys.length > 0 ? await encryptCardKey(allKeys.join('\n')) : null,
+            cardIds: uniqueCardIds.length > 0 ? uniqueCardIds.join(',') : null
+        };
+        let cartChanged = true;
+        if (delivered) {
+            ({ changed: cartChanged } = await transitionOrderStatus(orderId, 'delivered', {
+                actor: eventActor,
+                reason: 'Cards delivered',
+                from: ['paid'],
+                set: { ...issued, deliveredAt: new Date() }
+            }));
+        } else {
+            await db.update(orders).set(issued).where(eq(orders.orderId, orderId));
+            await recordOrderNote(orderId, 'paid', eventActor, `Out of stock: ${shortfalls.join(', ')}`);
+        }
+        console.log(`[Fulfill] Cart order ${orderId} ${delivered ? 'delivered' : 'marked as paid (short on stock)'} (${items.length} lines)`);
+
+        if (delivered && cartChanged) {
+            try {
+                await notifyUserDelivered(order.productName);
+            } catch (err) {
+                console.error('[Notification] User delivery notify failed:', err);
+            }
+            await rewardDelivery(eventActor);
+        }
+
+        // Only the notify that claimed the payment gets here, so admins hear about it once
+        after(async () => {
+            try {
+                const user = await db.query.loginUsers.findFirst({
+                    where: eq(users.userId, order.userId || ''),
+                    columns: { username: true }
+                }).catch(() => null);
+
+                await notifyAdminPaymentSuccess({
+                    orderId: orderId,
+                    productName: items.map((item) => `${item.productName} x${item.quantity}`).join(', '),
+                    amount: order.amount,
+                    username: user?.username,
+                    email: order.email,
+                    tradeNo: tradeNo
+                });
+            } catch (err) {
+                console.error('[Notification] Cart order notify failed:', err);
+            }
+
+            if (shortfalls.length > 0) {
+                try {
+                    await notifyAdminFulfillmentFailed({
+                        orderId: orderId,
+                        productName: order.productName,
+                        amount: order.amount,
+                        username: order.username,
+                        error: `Out of stock: ${shortfalls.join(', ')}`,
+                        refunded: false
+                    });
+                } catch (err) {
+                    console.error('[Notification] Cart shortfall notify failed:', err);
+                }
+            }
+
+            if (delivered && cartChanged && order.email) {
+                await sendOrderEmail({
+                    to: order.email,
+                    orderId: orderId,
+                    productName: order.productName,
+                    cardKeys: emailSections.join('\n\n')
+                }).catch(err => console.error('[Email] Send failed:', err));
+            }
+        })
+
+        await refreshAggregates();
+        return { success: true, status: 'processed' };
+    }
+
     if (order.status === 'pending' || order.status === 'cancelled') {
         // Check if product is shared (infinite stock) or dynamic fulfillment
         const product = await db.query.products.findFirst({
@@ -107,18 +303,21 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
 
         const isShared = product?.isShared;
         const isDynamic = product?.fulfillmentType === 'siyuan_token';
+        // Variant orders only draw from their own card pool
+        const variantFilter = order.variantId ? sql` AND ${cards.variantId} = ${order.variantId}` : sql``;
 
         // Handle dynamic fulfillment (siyuan_token)
         if (isDynamic) {
             // First mark as paid immediately to respond to payment gateway quickly
-            await db.update(orders)
-                .set({
-                    status: 'paid',
-                    paidAt: new Date(),
-                    tradeNo: tradeNo,
-                    currentPaymentId: null
-                })
-                .where(eq(orders.orderId, orderId));
+            const { changed } = await transitionOrderStatus(orderId, 'paid', {
+                actor: eventActor,
+                reason: `Payment received (${tradeNo})`,
+                from: payableStatuses,
+                set: { paidAt: new Date(), tradeNo: tradeNo, currentPaymentId: null }
+            });
+            if (!changed) {
+                return { success: true, status: 'already_processed' };
+            }
 
             console.log(`[Fulfill] Dynamic order ${orderId} marked as paid, generating token async...`);
 
@@ -146,16 +345,14 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
 
                     const joinedKeys = tokens.join('\n');
 
-                    await db.update(orders)
-                        .set({
-                            status: 'delivered',
-                            deliveredAt: new Date(),
-                            cardKey: joinedKeys,
-                            cardIds: null
-                        })
-                        .where(eq(orders.orderId, orderId));
+                    await transitionOrderStatus(orderId, 'delivered', {
+                        actor: systemActor,
+                        reason: 'Share token generated',
+                        set: { deliveredAt: new Date(), cardKey: await encryptCardKey(joinedKeys), cardIds: null }
+                    });
 
                     console.log(`[Fulfill] Dynamic order ${orderId} delivered. Tokens: ${tokens.length}`);
+                    await rewardDelivery(systemActor);
 
                     // Notify user
                     try {
@@ -211,28 +408,31 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
             // For shared products:
             const availableCard = await db.select({ id: cards.id, cardKey: cards.cardKey })
                 .from(cards)
-                .where(sql`${cards.productId} = ${order.productId} AND COALESCE(${cards.isUsed}, 0) = 0`)
+                .where(sql`${cards.productId} = ${order.productId} AND COALESCE(${cards.isUsed}, 0) = 0${variantFilter}`)
                 .orderBy(sql`RANDOM()`)
                 .limit(1);
 
             if (availableCard.length > 0) {
-                const key = availableCard[0].cardKey;
+                const key = await decryptCardKey(availableCard[0].cardKey);
                 const cardKeys = Array(order.quantity || 1).fill(key);
                 const cardIdsValue = String(availableCard[0].id);
 
-                await db.update(orders)
-                    .set({
-                        status: 'delivered',
+                const { changed } = await transitionOrderStatus(orderId, 'delivered', {
+                    actor: eventActor,
+                    reason: `Payment received (${tradeNo}), shared card delivered`,
+                    from: payableStatuses,
+                    set: {
                         paidAt: new Date(),
                         deliveredAt: new Date(),
                         tradeNo: tradeNo,
-                        cardKey: cardKeys.join('\n'),
+                        cardKey: await encryptCardKey(cardKeys.join('\n')),
                         cardIds: cardIdsValue,
                         currentPaymentId: null
-                    })
-                    .where(eq(orders.orderId, orderId));
+                    }
+                });
 
-                console.log(`[Fulfill] Shared product order ${orderId} delivered. Card: ${key}`);
+                console.log(`[Fulfill] Shared product order ${orderId} delivered. Card #${cardIdsValue}`);
+                if (changed) await rewardDelivery(eventActor);
 
                 try {
                     await notifyUserDelivered(product?.name);
@@ -273,9 +473,12 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
                 return { success: true, status: 'processed' };
             } else {
                 // No stock for shared product
-                await db.update(orders)
-                    .set({ status: 'paid', paidAt: new Date(), tradeNo: tradeNo })
-                    .where(eq(orders.orderId, orderId));
+                await transitionOrderStatus(orderId, 'paid', {
+                    actor: eventActor,
+                    reason: `Payment received (${tradeNo}), out of stock`,
+                    from: payableStatuses,
+                    set: { paidAt: new Date(), tradeNo: tradeNo }
+                });
                 console.log(`[Fulfill] Order ${orderId} marked as paid (no stock for shared product)`);
 
                 after(async () => {
@@ -316,6 +519,7 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
                 .limit(quantity);
 
             for (const card of reservedCards) {
+                const key = await decryptCardKey(card.cardKey);
                 await db.update(cards)
                     .set({
                         isUsed: true,
@@ -324,7 +528,7 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
                         reservedAt: null
                     })
                     .where(eq(cards.id, card.id));
-                cardKeys.push(card.cardKey);
+                cardKeys.push(key);
                 usedCardIds.push(card.id);
             }
         } catch (error: any) {
@@ -336,17 +540,18 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
             const needed = quantity - cardKeys.length;
             const availableCards = await db.select({ id: cards.id, cardKey: cards.cardKey })
                 .from(cards)
-                .where(sql`${cards.productId} = ${order.productId} AND COALESCE(${cards.isUsed}, 0) = 0 AND (${cards.reservedAt} IS NULL OR ${cards.reservedAt} < ${fiveMinutesAgo})`)
+                .where(sql`${cards.productId} = ${order.productId} AND COALESCE(${cards.isUsed}, 0) = 0 AND (${cards.reservedAt} IS NULL OR ${cards.reservedAt} < ${fiveMinutesAgo})${variantFilter}`)
                 .limit(needed);
 
             for (const card of availableCards) {
+                const key = await decryptCardKey(card.cardKey);
                 await db.update(cards)
                     .set({
                         isUsed: true,
                         usedAt: new Date()
                     })
                     .where(eq(cards.id, card.id));
-                cardKeys.push(card.cardKey);
+                cardKeys.push(key);
                 usedCardIds.push(card.id);
             }
         }
@@ -356,17 +561,20 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
             const uniqueCardIds = Array.from(new Set(usedCardIds));
             const cardIdsValue = uniqueCardIds.length > 0 ? uniqueCardIds.join(',') : null;
 
-            await db.update(orders)
-                .set({
-                    status: 'delivered',
+            const { changed } = await transitionOrderStatus(orderId, 'delivered', {
+                actor: eventActor,
+                reason: `Payment received (${tradeNo}), cards delivered`,
+                from: payableStatuses,
+                set: {
                     paidAt: new Date(),
                     deliveredAt: new Date(),
                     tradeNo: tradeNo,
-                    cardKey: joinedKeys,
+                    cardKey: await encryptCardKey(joinedKeys),
                     cardIds: cardIdsValue
-                })
-                .where(eq(orders.orderId, orderId));
+                }
+            });
             console.log(`[Fulfill] Order ${orderId} delivered successfully!`);
+            if (changed) await rewardDelivery(eventActor);
 
             try {
                 await notifyUserDelivered(product?.name || order.productName);
@@ -409,9 +617,12 @@ export async function processOrderFulfillment(orderId: string, paidAmount: numbe
             })
         } else {
             // Paid but no stock
-            await db.update(orders)
-                .set({ status: 'paid', paidAt: new Date(), tradeNo: tradeNo })
-                .where(eq(orders.orderId, orderId));
+            await transitionOrderStatus(orderId, 'paid', {
+                actor: eventActor,
+                reason: `Payment received (${tradeNo}), out of stock`,
+                from: payableStatuses,
+                set: { paidAt: new Date(), tradeNo: tradeNo }
+            });
             console.log(`[Fulfill] Order ${orderId} marked as paid (no stock)`);
 
             after(async () => {
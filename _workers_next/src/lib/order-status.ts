@@ -0,0 +1,133 @@
+import { db } from "@/lib/db"
+import { orders, orderEvents } from "@/lib/db/schema"
+import { ensureOrderEventsTable, normalizeTimestampMs } from "@/lib/db/queries"
+import { emitOrderWebhooks } from "@/lib/webhooks"
+import { and, asc, eq, sql } from "drizzle-orm"
+
+export type OrderStatus = 'pending' | 'paid' | 'delivered' | 'failed' | 'refunded' | 'partially_refunded' | 'cancelled'
+
+/**
+ * Allowed order status moves. Cancelled orders can still be paid because a
+ * late gateway callback may arrive after the reservation expired.
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    // Admins may still mark an unpaid or cancelled order as refunded, e.g. after a payment settled off-site
+    pending: ['paid', 'delivered', 'failed', 'cancelled', 'refunded'],
+    paid: ['delivered', 'failed', 'refunded', 'partially_refunded'],
+    delivered: ['refunded', 'partially_refunded'],
+    failed: ['refunded', 'cancelled'],
+    refunded: [],
+    partially_refunded: ['refunded'],
+    cancelled: ['paid', 'delivered', 'refunded'],
+}
+
+type OrderUpdate = Partial<typeof orders.$inferInsert>
+
+export class IllegalOrderTransitionError extends Error {
+    constructor(orderId: string, from: string, to: string) {
+        super(`Order ${orderId} cannot move from ${from} to ${to}`)
+        this.name = 'IllegalOrderTransitionError'
+    }
+}
+
+export function canTransitionOrder(from: string | null | undefined, to: OrderStatus) {
+    const allowed = ORDER_TRANSITIONS[(from || 'pending') as OrderStatus]
+    return !!allowed && allowed.includes(to)
+}
+
+export const systemActor = 'system'
+export const gatewayActor = (provider?: string | null) => `gateway:${provider || 'linuxdo'}`
+export const adminActor = (username?: string | null) => `admin:${username || 'unknown'}`
+export const userActor = (username?: string | null) => `user:${username || 'guest'}`
+
+// History is informational; a failed insert must not undo a status change
+async function insertOrderEvent(orderId: string, fromStatus: string | null, toStatus: string, actor: string, reason?: string | null) {
+    try {
+        await ensureOrderEventsTable()
+        await db.insert(orderEvents).values({
+            orderId,
+            fromStatus,
+            toStatus,
+            actor,
+            reason: reason ? String(reason).slice(0, 500) : null,
+            createdAt: new Date()
+        })
+    } catch (error) {
+        console.error('[OrderEvents] Failed to record event:', error)
+    }
+}
+
+/** First timeline entry, written right after an order row is inserted */
+export async function recordOrderCreated(orderId: string, status: OrderStatus, actor: string, reason?: string | null) {
+    await insertOrderEvent(orderId, null, status, actor, reason)
+    await emitOrderWebhooks(orderId, null, status)
+}
+
+/** Timeline entry for something that happened without a status change, e.g. a further partial refund */
+export async function recordOrderNote(orderId: string, status: OrderStatus, actor: string, reason: string) {
+    await insertOrderEvent(orderId, status, status, actor, reason)
+}
+
+/**
+ * The only place order status should change. Checks the move against
+ * ORDER_TRANSITIONS, applies it with a compare-and-set on the current status
+ * (so concurrent callbacks cannot both win), records it in order_events and
+ * queues the matching order.* webhooks.
+ *
+ * `from` restricts which current statuses the caller expects; anything else is
+ * a quiet no-op rather than an error. Returns `changed: false` when nothing moved.
+ */
+export async function transitionOrderStatus(
+    orderId: string,
+    to: OrderStatus,
+    options: { actor: string; reason?: string | null; from?: OrderStatus[]; set?: OrderUpdate }
+): Promise<{ changed: boolean; from: string | null }> {
+    const order = await db.query.orders.findFirst({
+        where: eq(orders.orderId, orderId),
+        columns: { status: true }
+    })
+    if (!order) throw new Error(`Order ${orderId} not found`)
+
+    const current = order.status || 'pending'
+    if (options.from && !options.from.includes(current as OrderStatus)) {
+        return { changed: false, from: current }
+    }
+    if (current === to) {
+        return { changed: false, from: current }
+    }
+    if (!canTransitionOrder(current, to)) {
+        throw new IllegalOrderTransitionError(orderId, current, to)
+    }
+
+    const updated = await db.update(orders)
+        .set({ ...(options.set || {}), status: to })
+        .where(and(eq(orders.orderId, orderId), sql`COALESCE(${orders.status}, 'pending') = ${current}`))
+        .returning({ orderId: orders.orderId })
+    if (!updated.length) {
+        return { changed: false, from: current }
+    }
+
+    await insertOrderEvent(orderId, current, to, options.actor, options.reason)
+    await emitOrderWebhooks(orderId, current, to)
+    return { changed: true, from: current }
+}
+
+export async function getOrderEvents(orderId: string) {
+    try {
+        await ensureOrderEventsTable()
+        return await db.select().from(orderEvents)
+            .where(eq(orderEvents.orderId, orderId))
+            .orderBy(asc(normalizeTimestampMs(orderEvents.createdAt)), asc(orderEvents.id))
+    } catch {
+        return []
+    }
+}
+
+export async function deleteOrderEvents(orderId: string) {
+    try {
+        await ensureOrderEventsTable()
+        await db.delete(orderEvents).where(eq(orderEvents.orderId, orderId))
+    } catch {
+        // best effort
+    }
+}
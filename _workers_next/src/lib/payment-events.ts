@@ -0,0 +1,80 @@
+import { db } from "@/lib/db"
+import { paymentEvents } from "@/lib/db/schema"
+import { ensurePaymentEventsTable, normalizeTimestampMs } from "@/lib/db/queries"
+import { and, desc, eq, sql } from "drizzle-orm"
+
+export type PaymentEventResult = 'processed' | 'ignored' | 'rejected' | 'error'
+
+export interface PaymentEventInput {
+    orderId?: string | null
+    outTradeNo?: string | null
+    provider?: string | null
+    source?: 'notify' | 'replay'
+    method?: string | null
+    rawParams?: Record<string, any> | null
+    signatureValid?: boolean
+    tradeStatus?: string | null
+    tradeNo?: string | null
+    amount?: string | number | null
+    result: PaymentEventResult
+    statusBefore?: string | null
+    statusAfter?: string | null
+    error?: string | null
+}
+
+// Never let logging break the callback itself
+export async function recordPaymentEvent(input: PaymentEventInput) {
+    try {
+        await ensurePaymentEventsTable()
+        await db.insert(paymentEvents).values({
+            orderId: input.orderId || null,
+            outTradeNo: input.outTradeNo || null,
+            provider: input.provider || null,
+            source: input.source || 'notify',
+            method: input.method || null,
+            rawParams: input.rawParams ? JSON.stringify(input.rawParams) : null,
+            signatureValid: !!input.signatureValid,
+            tradeStatus: input.tradeStatus || null,
+            tradeNo: input.tradeNo || null,
+            amount: input.amount === null || input.amount === undefined ? null : String(input.amount),
+            result: input.result,
+            statusBefore: input.statusBefore || null,
+            statusAfter: input.statusAfter || null,
+            error: input.error ? String(input.error).slice(0, 1000) : null,
+            createdAt: new Date()
+        })
+    } catch (error) {
+        console.error('[PaymentEvents] Failed to record event:', error)
+    }
+}
+
+export async function getPaymentEvents(options: { orderId?: string; result?: string; page: number; pageSize: number }) {
+    await ensurePaymentEventsTable()
+    const whereParts: any[] = []
+    if (options.orderId) {
+        const like = `%${options.orderId}%`
+        whereParts.push(sql`(COALESCE(${paymentEvents.orderId}, '') LIKE ${like} OR COALESCE(${paymentEvents.outTradeNo}, '') LIKE ${like})`)
+    }
+    if (options.result && options.result !== 'all') {
+        whereParts.push(eq(paymentEvents.result, options.result))
+    }
+    const whereExpr = whereParts.length ? and(...whereParts) : undefined
+
+    const countQuery = db.select({ count: sql<number>`count(*)` }).from(paymentEvents)
+    const [rows, countRes] = await Promise.all([
+        db.select().from(paymentEvents)
+            .where(whereExpr)
+            .orderBy(desc(normalizeTimestampMs(paymentEvents.createdAt)), desc(paymentEvents.id))
+            .limit(options.pageSize)
+            .offset((options.page - 1) * options.pageSize),
+        whereExpr ? countQuery.where(whereExpr) : countQuery,
+    ])
+
+    return { rows, total: Number(countRes[0]?.count || 0) }
+}
+
+export async function getPaymentEvent(id: number) {
+    await ensurePaymentEventsTable()
+    const rows = await db.select().from(paymentEvents).where(eq(paymentEvents.id, id)).limit(1)
+    return rows[0] || null
+}
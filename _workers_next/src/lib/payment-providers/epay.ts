@@ -0,0 +1,138 @@
+import { generateSign } from "@/lib/crypto"
+import type { PaymentProvider, PaymentProviderId, PaymentStatusResult, RefundResult } from "./types"
+
+export interface EpayConfig {
+    id: PaymentProviderId
+    merchantId: string
+    merchantKey: string
+    submitUrl: string
+    apiUrl: string
+    payType: string
+    /** Standard EPay needs `act=refund`; Linux DO Credit takes the bare request */
+    refundAct?: string
+}
+
+export function getAppBaseUrl() {
+    return process.env.NEXT_PUBLIC_APP_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000')
+}
+
+// Strip retry suffix if present (e.g. ORDER123_retry173654)
+export function orderIdFromTradeNo(outTradeNo: string) {
+    return outTradeNo.includes('_retry') ? outTradeNo.split('_retry')[0] : outTradeNo
+}
+
+/**
+ * Derive the merchant api.php from a submit url:
+ * `.../pay/submit.php` and `.../submit.php` both map to the sibling `api.php`.
+ */
+export function deriveEpayApiUrl(submitUrl: string, fallback: string) {
+    try {
+        const urlObj = new URL(submitUrl)
+        const apiUrl = `${urlObj.protocol}//${urlObj.host}${urlObj.pathname.replace('/pay/submit.php', '/api.php').replace('/submit.php', '/api.php')}`
+        if (apiUrl.endsWith('api.php')) return apiUrl
+        return `${urlObj.protocol}//${urlObj.host}/epay/api.php`
+    } catch {
+        return fallback
+    }
+}
+
+function isRefundSuccess(text: string) {
+    try {
+        const json = JSON.parse(text)
+        return json?.code === 1 || json?.status === 'success' || json?.msg === 'success'
+    } catch {
+        return /success/i.test(text)
+    }
+}
+
+/**
+ * Any gateway speaking the EPay protocol (MD5 signed form submit, api.php for
+ * query and refund). Linux DO Credit and self-hosted EPay only differ in config.
+ */
+export function createEpayProvider(config: EpayConfig): PaymentProvider {
+    const ensureConfigured = () => {
+        if (!config.merchantId || !config.merchantKey) throw new Error("Missing merchant config")
+    }
+
+    return {
+        id: config.id,
+        submitUrl: config.submitUrl,
+
+        createPayment(input) {
+            const baseUrl = getAppBaseUrl()
+            const params: Record<string, any> = {
+                pid: config.merchantId,
+                type: config.payType,
+                out_trade_no: input.outTradeNo,
+                notify_url: `${baseUrl}/api/notify`,
+                return_url: `${baseUrl}/callback/${input.orderId}`,
+                name: input.name,
+                money: input.money,
+                sign_type: 'MD5'
+            }
+            params.sign = generateSign(params, config.merchantKey)
+            return { url: config.submitUrl, params }
+        },
+
+        verifyNotify(params) {
+            const outTradeNo = String(params.out_trade_no || '')
+            const valid = !!config.merchantKey && params.sign === generateSign(params, config.merchantKey)
+            return {
+                valid,
+                paid: params.trade_status === 'TRADE_SUCCESS',
+                outTradeNo,
+                orderId: orderIdFromTradeNo(outTradeNo),
+                tradeNo: params.trade_no ? String(params.trade_no) : null,
+                money: parseFloat(params.money)
+            }
+        },
+
+        async queryStatus(outTradeNo): Promise<PaymentStatusResult> {
+            ensureConfigured()
+            const query = new URLSearchParams({
+                act: 'order',
+                pid: config.merchantId,
+                key: config.merchantKey,
+                out_trade_no: outTradeNo
+            })
+
+            try {
+                const res = await fetch(`${config.apiUrl}?${query.toString()}`)
+                const data = await res.json()
+
+                // code=1, status=1 => Paid; code=1, status=0 => Refunded (or unpaid/closed)
+                if (data.code === 1) {
+                    return { success: true, status: data.status, msg: data.msg || 'Query success', data }
+                }
+                return { success: false, error: data.msg || 'Query failed' }
+            } catch (e: any) {
+                console.error('Query order error', e)
+                return { success: false, error: e.message }
+            }
+        },
+
+        async refund(input): Promise<RefundResult> {
+            ensureConfigured()
+            const body = new URLSearchParams({
+                ...(config.refundAct ? { act: config.refundAct } : {}),
+                pid: config.merchantId,
+                key: config.merchantKey,
+                trade_no: input.tradeNo,
+                out_trade_no: input.outTradeNo,
+                money: input.money,
+            })
+
+            const resp = await fetch(config.apiUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body
+            })
+            const text = await resp.text()
+
+            if (!resp.ok) {
+                return { success: false, message: `Refund request failed (${resp.status}): ${text.slice(0, 200)}` }
+            }
+            return { success: isRefundSuccess(text), message: text.slice(0, 500) }
+        }
+    }
+}
@@ -0,0 +1,97 @@
+import { db } from "@/lib/db"
+import { orders } from "@/lib/db/schema"
+import { getSetting } from "@/lib/db/queries"
+import { eq } from "drizzle-orm"
+import { createEpayProvider, deriveEpayApiUrl, getAppBaseUrl } from "./epay"
+import { getMockMerchant, isMockEpayEnabled, MOCK_EPAY_PATH } from "./mock"
+import type { PaymentProvider, PaymentProviderId } from "./types"
+
+export type { PaymentProvider, PaymentProviderId, NotifyResult, PaymentRequest, PaymentStatusResult, RefundResult } from "./types"
+export { orderIdFromTradeNo } from "./epay"
+
+export const PAYMENT_PROVIDER_IDS: PaymentProviderId[] = ['linuxdo', 'epay']
+export const DEFAULT_PAYMENT_PROVIDER: PaymentProviderId = 'linuxdo'
+
+const LINUXDO_SUBMIT_URL = 'https://credit.linux.do/epay/pay/submit.php'
+const LINUXDO_API_URL = 'https://credit.linux.do/epay/api.php'
+
+export function isPaymentProviderId(value?: string | null): value is PaymentProviderId {
+    return !!value && (PAYMENT_PROVIDER_IDS as string[]).includes(value)
+}
+
+async function readSetting(key: string) {
+    try {
+        return await getSetting(key)
+    } catch {
+        return null
+    }
+}
+
+function createLinuxDoProvider() {
+    if (isMockEpayEnabled()) {
+        const mockBase = `${getAppBaseUrl()}${MOCK_EPAY_PATH}`
+        return createEpayProvider({
+            id: 'linuxdo',
+            ...getMockMerchant(),
+            submitUrl: `${mockBase}/submit.php`,
+            apiUrl: `${mockBase}/api.php`,
+            payType: 'epay'
+        })
+    }
+
+    const submitUrl = process.env.PAY_URL || LINUXDO_SUBMIT_URL
+    return createEpayProvider({
+        id: 'linuxdo',
+        merchantId: process.env.MERCHANT_ID || '',
+        merchantKey: process.env.MERCHANT_KEY || '',
+        submitUrl,
+        apiUrl: deriveEpayApiUrl(submitUrl, LINUXDO_API_URL),
+        payType: 'epay'
+    })
+}
+
+// Self-hosted / third-party EPay: host and channel come from admin settings, credentials from env
+async function createStandardEpayProvider() {
+    const gateway = ((await readSetting('epay_gateway_url')) || process.env.EPAY_GATEWAY_URL || '').trim().replace(/\/+$/, '')
+    const payType = ((await readSetting('epay_pay_type')) || 'alipay').trim() || 'alipay'
+    const submitUrl = gateway.endsWith('.php') ? gateway : `${gateway}/submit.php`
+    return createEpayProvider({
+        id: 'epay',
+        merchantId: process.env.EPAY_MERCHANT_ID || '',
+        merchantKey: process.env.EPAY_MERCHANT_KEY || '',
+        submitUrl,
+        apiUrl: deriveEpayApiUrl(submitUrl, `${gateway}/api.php`),
+        payType,
+        refundAct: 'refund'
+    })
+}
+
+export async function getPaymentProvider(id?: string | null): Promise<PaymentProvider> {
+    if (id === 'epay') return await createStandardEpayProvider()
+    return createLinuxDoProvider()
+}
+
+/** Provider new orders are created with, chosen in admin settings */
+export async function getActivePaymentProviderId(): Promise<PaymentProviderId> {
+    const value = await readSetting('payment_provider')
+    return isPaymentProviderId(value) ? value : DEFAULT_PAYMENT_PROVIDER
+}
+
+export async function getActivePaymentProvider() {
+    return await getPaymentProvider(await getActivePaymentProviderId())
+}
+
+/** Provider an existing order was paid through; orders from before providers existed are Linux DO */
+export async function getOrderPaymentProvider(orderId: string) {
+    let providerId: string | null = null
+    try {
+        const order = await db.query.orders.findFirst({
+            where: eq(orders.orderId, orderId),
+            columns: { paymentProvider: true }
+        })
+        providerId = order?.paymentProvider || null
+    } catch {
+        providerId = null
+    }
+    return await getPaymentProvider(providerId)
+}
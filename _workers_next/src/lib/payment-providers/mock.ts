@@ -0,0 +1,227 @@
+import { db } from "@/lib/db"
+import { generateSign } from "@/lib/crypto"
+import { sql } from "drizzle-orm"
+
+/**
+ * Built-in EPay gateway for offline end-to-end testing, served under /mock-epay.
+ * Only reachable when MOCK_EPAY=true; it speaks the same submit.php / api.php
+ * protocol as the real gateways so notify, query and refund run unchanged.
+ */
+
+export const MOCK_EPAY_PATH = '/mock-epay'
+const MOCK_MERCHANT_ID = 'mock'
+const MOCK_MERCHANT_KEY = 'mock-key'
+
+// 0 = unpaid, 1 = paid, 2 = failed, 3 = refunded
+export type MockPaymentStatus = 0 | 1 | 2 | 3
+
+export interface MockPayment {
+    tradeNo: string
+    outTradeNo: string
+    pid: string
+    type: string
+    name: string
+    money: string
+    notifyUrl: string
+    returnUrl: string
+    status: MockPaymentStatus
+    /** Sum of refunds so far, in cents; a partial refund leaves the payment paid */
+    refundedCents: number
+    createdAt: number
+}
+
+export function isMockEpayEnabled() {
+    return process.env.MOCK_EPAY === 'true'
+}
+
+/** Credentials the Linux DO provider falls back to while mocking without real merchant config */
+export function getMockMerchant() {
+    return {
+        merchantId: process.env.MERCHANT_ID || MOCK_MERCHANT_ID,
+        merchantKey: process.env.MERCHANT_KEY || MOCK_MERCHANT_KEY
+    }
+}
+
+// Any merchant the shop can be configured with is accepted, so both providers can point here
+export function getMockMerchantKey(pid: string) {
+    const merchants: Record<string, string> = { [MOCK_MERCHANT_ID]: MOCK_MERCHANT_KEY }
+    if (process.env.MERCHANT_ID && process.env.MERCHANT_KEY) merchants[process.env.MERCHANT_ID] = process.env.MERCHANT_KEY
+    if (process.env.EPAY_MERCHANT_ID && process.env.EPAY_MERCHANT_KEY) merchants[process.env.EPAY_MERCHANT_ID] = process.env.EPAY_MERCHANT_KEY
+    return merchants[pid] || null
+}
+
+let mockTableReady = false
+
+async function ensureMockTable() {
+    if (mockTableReady) return
+    await db.run(sql`
+        CREATE TABLE IF NOT EXISTS mock_epay_payments (
+            trade_no TEXT PRIMARY KEY,
+            out_trade_no TEXT NOT NULL,
+            pid TEXT NOT NULL,
+            type TEXT,
+            name TEXT,
+            money TEXT NOT NULL,
+            notify_url TEXT,
+            return_url TEXT,
+            status INTEGER DEFAULT 0,
+            refunded_cents INTEGER DEFAULT 0,
+            created_at INTEGER DEFAULT (unixepoch() * 1000)
+        )
+    `)
+    try {
+        await db.run(sql`ALTER TABLE mock_epay_payments ADD COLUMN refunded_cents INTEGER DEFAULT 0`)
+    } catch {
+        // already there
+    }
+    mockTableReady = true
+}
+
+function rowToPayment(row: any): MockPayment {
+    return {
+        tradeNo: String(row.trade_no),
+        outTradeNo: String(row.out_trade_no),
+        pid: String(row.pid),
+        type: String(row.type || ''),
+        name: String(row.name || ''),
+        money: String(row.money),
+        notifyUrl: String(row.notify_url || ''),
+        returnUrl: String(row.return_url || ''),
+        status: Number(row.status || 0) as MockPaymentStatus,
+        refundedCents: Number(row.refunded_cents || 0),
+        createdAt: Number(row.created_at || 0)
+    }
+}
+
+async function selectRows(query: ReturnType<typeof sql>) {
+    const result: any = await db.run(query)
+    return (result?.results || result?.rows || []) as any[]
+}
+
+export async function createMockPayment(params: Record<string, any>) {
+    await ensureMockTable()
+    const tradeNo = `MOCK${Date.now()}${Math.random().toString(36).slice(2, 8)}`.toUpperCase()
+    await db.run(sql`
+        INSERT INTO mock_epay_payments (trade_no, out_trade_no, pid, type, name, money, notify_url, return_url, status, created_at)
+        VALUES (${tradeNo}, ${String(params.out_trade_no)}, ${String(params.pid)}, ${String(params.type || '')}, ${String(params.name || '')},
+                ${String(params.money)}, ${String(params.notify_url || '')}, ${String(params.return_url || '')}, 0, ${Date.now()})
+    `)
+    return await getMockPayment(tradeNo)
+}
+
+export async function getMockPayment(tradeNo: string) {
+    await ensureMockTable()
+    const rows = await selectRows(sql`SELECT * FROM mock_epay_payments WHERE trade_no = ${tradeNo} LIMIT 1`)
+    return rows[0] ? rowToPayment(rows[0]) : null
+}
+
+export async function findMockPayment(pid: string, outTradeNo?: string | null, tradeNo?: string | null) {
+    await ensureMockTable()
+    const rows = tradeNo
+        ? await selectRows(sql`SELECT * FROM mock_epay_payments WHERE pid = ${pid} AND trade_no = ${tradeNo} LIMIT 1`)
+        : await selectRows(sql`SELECT * FROM mock_epay_payments WHERE pid = ${pid} AND out_trade_no = ${outTradeNo || ''} ORDER BY created_at DESC LIMIT 1`)
+    return rows[0] ? rowToPayment(rows[0]) : null
+}
+
+export async function listMockPayments(limit = 50) {
+    await ensureMockTable()
+    const rows = await selectRows(sql`SELECT * FROM mock_epay_payments ORDER BY created_at DESC LIMIT ${limit}`)
+    return rows.map(rowToPayment)
+}
+
+export async function setMockPaymentStatus(tradeNo: string, status: MockPaymentStatus) {
+    await ensureMockTable()
+    await db.run(sql`UPDATE mock_epay_payments SET status = ${status} WHERE trade_no = ${tradeNo}`)
+}
+
+export function toCents(money: string | number) {
+    return Math.round(Number(money) * 100)
+}
+
+/**
+ * Refund part or all of a paid payment. The guard in the UPDATE keeps the
+ * running total within what was paid, even with concurrent requests; the
+ * payment turns refunded once nothing is left.
+ */
+export async function refundMockPayment(tradeNo: string, cents: number) {
+    await ensureMockTable()
+    const rows = await selectRows(sql`
+        UPDATE mock_epay_payments
+        SET refunded_cents = COALESCE(refunded_cents, 0) + ${cents},
+            status = CASE WHEN COALESCE(refunded_cents, 0) + ${cents} >= CAST(ROUND(CAST(money AS REAL) * 100) AS INTEGER) THEN 3 ELSE status END
+        WHERE trade_no = ${tradeNo}
+          AND status = 1
+          AND COALESCE(refunded_cents, 0) + ${cents} <= CAST(ROUND(CAST(money AS REAL) * 100) AS INTEGER)
+        RETURNING trade_no
+    `)
+    return rows.length > 0
+}
+
+/** Signed async notification, sent as GET like Linux DO Credit does */
+export async function sendMockNotify(payment: MockPayment) {
+    const key = getMockMerchantKey(payment.pid)
+    if (!key || !payment.notifyUrl) return { ok: false, body: 'missing notify config' }
+
+    const params: Record<string, any> = {
+        pid: payment.pid,
+        trade_no: payment.tradeNo,
+        out_trade_no: payment.outTradeNo,
+        type: payment.type,
+        name: payment.name,
+        money: payment.money,
+        trade_status: 'TRADE_SUCCESS',
+        sign_type: 'MD5'
+    }
+    params.sign = generateSign(params, key)
+
+    try {
+        const res = await fetch(`${payment.notifyUrl}?${new URLSearchParams(params).toString()}`)
+        const body = await res.text()
+        return { ok: res.ok && body.trim() === 'success', body: body.slice(0, 200) }
+    } catch (e: any) {
+        return { ok: false, body: e?.message || 'notify failed' }
+    }
+}
+
+export function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;")
+}
+
+export function renderMockPage(title: string, body: string, status = 200) {
+    const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Arial, sans-serif; margin: 0; padding: 32px; color: #111; }
+      .box { max-width: 560px; margin: 0 auto; }
+      .tag { display: inline-block; padding: 2px 8px; border-radius: 999px; background: #fde68a; font-size: 12px; }
+      table { width: 100%; border-collapse: collapse; margin: 16px 0; font-size: 14px; }
+      td, th { text-align: left; padding: 6px 4px; border-bottom: 1px solid #eee; }
+      form { display: inline-block; margin: 0 8px 8px 0; }
+      button { padding: 8px 14px; border: 0; border-radius: 8px; background: #111; color: #fff; cursor: pointer; }
+      button.secondary { background: #e5e7eb; color: #111; }
+      .muted { color: #666; font-size: 13px; }
+    </style>
+  </head>
+  <body>
+    <div class="box">
+      <span class="tag">MOCK EPAY</span>
+      <h2>${escapeHtml(title)}</h2>
+      ${body}
+    </div>
+  </body>
+</html>`
+    return new Response(html, { status, headers: { "content-type": "text/html; charset=utf-8" } })
+}
+
+export function mockStatusLabel(status: MockPaymentStatus) {
+    return ['unpaid', 'paid', 'failed', 'refunded'][status] || 'unknown'
+}
@@ -0,0 +1,49 @@
+export type PaymentProviderId = 'linuxdo' | 'epay'
+
+export interface CreatePaymentInput {
+    /** Id sent to the gateway, may carry a `_retry` suffix */
+    outTradeNo: string
+    orderId: string
+    name: string
+    money: string
+}
+
+export interface PaymentRequest {
+    url: string
+    params: Record<string, any>
+}
+
+export interface NotifyResult {
+    valid: boolean
+    paid: boolean
+    outTradeNo: string
+    orderId: string
+    tradeNo: string | null
+    money: number
+}
+
+// status: 1 = paid, 0 = refunded / unpaid (EPay semantics)
+export type PaymentStatusResult =
+    | { success: true; status: number; msg: string; data: any }
+    | { success: false; error: string }
+
+export interface RefundInput {
+    tradeNo: string
+    outTradeNo: string
+    money: string
+}
+
+export interface RefundResult {
+    success: boolean
+    message: string
+}
+
+export interface PaymentProvider {
+    id: PaymentProviderId
+    /** Where the browser form is posted to */
+    submitUrl: string
+    createPayment(input: CreatePaymentInput): PaymentRequest
+    verifyNotify(params: Record<string, any>): NotifyResult
+    queryStatus(outTradeNo: string): Promise<PaymentStatusResult>
+    refund(input: RefundInput): Promise<RefundResult>
+}
@@ -0,0 +1,484 @@
+import { db } from "@/lib/db"
+import { loginUsers, pointsTransactions } from "@/lib/db/schema"
+import { createUserNotification, ensurePointsTransactionsTable, getSetting, setSetting } from "@/lib/db/queries"
+import { systemActor } from "@/lib/order-status"
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm"
+
+export type PointsReason =
+    | 'opening_balance'
+    | 'checkin'
+    | 'checkin_streak'
+    | 'checkin_makeup'
+    | 'order_payment'
+    | 'order_rollback'
+    | 'order_cancel'
+    | 'order_delete'
+    | 'order_refund'
+    | 'refund_credit'
+    | 'order_cashback'
+    | 'cashback_clawback'
+    | 'points_expired'
+    | 'referral_inviter'
+    | 'referral_invitee'
+    | 'admin_adjust'
+
+export interface PointsEntry {
+    reason: PointsReason
+    /** Who caused the change, in the same `kind:name` form as order events */
+    actor: string
+    orderId?: string | null
+    note?: string | null
+}
+
+export type PointsTransaction = typeof pointsTransactions.$inferSelect
+
+export interface PointsSettings {
+    /** Share of a paid order's amount credited back after delivery; 0 turns cashback off */
+    cashbackPercent: number
+    /** Days a credit stays spendable; 0 means points never expire */
+    expiryDays: number
+    /** How many days ahead of expiry the owner is reminded; 0 turns reminders off */
+    reminderDays: number
+}
+
+export interface ExpiringPoints {
+    points: number
+    expiresAt: number
+}
+
+export interface PointsMismatch {
+    userId: string
+    username: string | null
+    balance: number
+    ledger: number
+}
+
+export interface PointsReconcileResult {
+    checkedAt: number
+    mismatches: PointsMismatch[]
+}
+
+const RECONCILE_INTERVAL_MS = 6 * 60 * 60 * 1000
+const RECONCILE_RESULT_KEY = 'points_reconcile_result'
+const MAX_REPORTED_MISMATCHES = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000
+const MAINTENANCE_RUN_KEY = 'points_maintenance_at'
+const MAX_LOTS_PER_PASS = 500
+
+function readWholeNumber(raw: string | null | undefined, fallback: number, max: number) {
+    const n = Number.parseInt(String(raw ?? '').trim(), 10)
+    if (!Number.isFinite(n) || n < 0) return fallback
+    return Math.min(n, max)
+}
+
+export async function getPointsSettings(): Promise<PointsSettings> {
+    const [cashback, expiry, reminder] = await Promise.all([
+        getSetting('points_cashback_percent').catch(() => null),
+        getSetting('points_expiry_days').catch(() => null),
+        getSetting('points_expiry_reminder_days').catch(() => null),
+    ])
+    return {
+        cashbackPercent: readWholeNumber(cashback, 0, 100),
+        expiryDays: readWholeNumber(expiry, 0, 3650),
+        reminderDays: readWholeNumber(reminder, 7, 365),
+    }
+}
+
+/**
+ * Write a ledger row for a balance change that already happened. D1 has no
+ * transactions, so this is best effort; reconciliation catches what is missed.
+ */
+export async function recordPointsTransaction(userId: string, delta: number, balanceAfter: number | null, entry: PointsEntry) {
+    if (!userId || !delta) return
+    try {
+        await ensurePointsTransactionsTable()
+        // Every credit is a lot that spending draws down; expiry is fixed when it is earned
+        let expiresAt: Date | null = null
+        if (delta > 0) {
+            const { expiryDays } = await getPointsSettings()
+            if (expiryDays > 0) expiresAt = new Date(Date.now() + expiryDays * DAY_MS)
+        }
+        await db.insert(pointsTransactions).values({
+            userId,
+            delta,
+            balanceAfter,
+            reason: entry.reason,
+            orderId: entry.orderId || null,
+            actor: entry.actor,
+            note: entry.note ? entry.note.slice(0, 500) : null,
+            remaining: delta > 0 ? delta : null,
+            expiresAt,
+            createdAt: new Date(),
+        })
+        // Expiry already emptied its own lots
+        if (delta < 0 && entry.reason !== 'points_expired') {
+            await consumePointsLots(userId, -delta)
+        }
+    } catch (error) {
+        console.error('[Points] Failed to record transaction:', error)
+    }
+}
+
+/** Draw spending from the oldest live lots first; lots that never expire go last */
+async function consumePointsLots(userId: string, amount: number, now = Date.now()) {
+    const lots = await db.select({ id: pointsTransactions.id, remaining: pointsTransactions.remaining })
+        .from(pointsTransactions)
+        .where(and(
+            eq(pointsTransactions.userId, userId),
+            sql`${pointsTransactions.remaining} > 0`,
+            sql`(${pointsTransactions.expiresAt} IS NULL OR ${pointsTransactions.expiresAt} > ${now})`
+        ))
+        .orderBy(sql`${pointsTransactions.expiresAt} IS NULL`, asc(pointsTransactions.expiresAt), asc(pointsTransactions.id))
+        .limit(MAX_LOTS_PER_PASS)
+
+    let left = amount
+    for (const lot of lots) {
+        if (left <= 0) break
+        const take = Math.min(left, Number(lot.remaining || 0))
+        if (take <= 0) continue
+        await db.update(pointsTransactions)
+            .set({ remaining: sql`MAX(${pointsTransactions.remaining} - ${take}, 0)` })
+            .where(eq(pointsTransactions.id, lot.id))
+        left -= take
+    }
+}
+
+/**
+ * Add `delta` (negative to spend) to a user's balance and record it. With
+ * `requireBalance` a spend only happens when the balance covers it; returns
+ * the new balance, or null when nothing was changed.
+ */
+export async function changePoints(userId: string, delta: number, entry: PointsEntry, options: { requireBalance?: boolean } = {}) {
+    if (!userId || !delta) return null
+    // Create (and seed) the ledger before touching the balance so the seed never includes this change
+    await ensurePointsTransactionsTable()
+    const conditions = [eq(loginUsers.userId, userId)]
+    if (options.requireBalance && delta < 0) {
+        conditions.push(sql`${loginUsers.points} >= ${-delta}`)
+    }
+    const updated = await db.update(loginUsers)
+        .set({ points: sql`${loginUsers.points} + ${delta}` })
+        .where(and(...conditions))
+        .returning({ points: loginUsers.points })
+    if (!updated.length) return null
+
+    const balance = Number(updated[0].points)
+    await recordPointsTransaction(userId, delta, balance, entry)
+    return balance
+}
+
+/** Set a balance outright (admin override), recording the difference */
+export async function setPointsBalance(userId: string, points: number, entry: PointsEntry) {
+    await ensurePointsTransactionsTable()
+    const current = await db.query.loginUsers.findFirst({
+        where: eq(loginUsers.userId, userId),
+        columns: { points: true }
+    })
+    await db.update(loginUsers)
+        .set({ points })
+        .where(eq(loginUsers.userId, userId))
+    await recordPointsTransaction(userId, points - Number(current?.points || 0), points, entry)
+}
+
+export async function getPointsTransactions(userId: string, limit = 20, offset = 0): Promise<PointsTransaction[]> {
+    try {
+        await ensurePointsTransactionsTable()
+        return await db.select()
+            .from(pointsTransactions)
+            .where(eq(pointsTransactions.userId, userId))
+            .orderBy(desc(pointsTransactions.createdAt), desc(pointsTransactions.id))
+            .limit(limit)
+            .offset(offset)
+    } catch (error) {
+        console.error('[Points] Failed to load transactions:', error)
+        return []
+    }
+}
+
+/** Soonest-expiring live points of a user, for the profile card */
+export async function getExpiringPoints(userId: string, now = Date.now()): Promise<ExpiringPoints | null> {
+    try {
+        await ensurePointsTransactionsTable()
+        const rows = await db.select({
+            expiresAt: sql<number>`MIN(${pointsTransactions.expiresAt})`,
+        })
+            .from(pointsTransactions)
+            .where(and(
+                eq(pointsTransactions.userId, userId),
+                sql`${pointsTransactions.remaining} > 0`,
+                sql`${pointsTransactions.expiresAt} > ${now}`
+            ))
+        const expiresAt = Number(rows[0]?.expiresAt || 0)
+        if (!expiresAt) return null
+        const due = await db.select({ points: sql<number>`COALESCE(SUM(${pointsTransactions.remaining}), 0)` })
+            .from(pointsTransactions)
+            .where(and(
+                eq(pointsTransactions.userId, userId),
+                sql`${pointsTransactions.remaining} > 0`,
+                sql`${pointsTransactions.expiresAt} = ${expiresAt}`
+            ))
+        const points = Number(due[0]?.points || 0)
+        return points > 0 ? { points, expiresAt } : null
+    } catch (error) {
+        console.error('[Points] Failed to load expiring points:', error)
+        return null
+    }
+}
+
+/**
+ * Take lapsed lots off their owners' balances. Only what is still on the
+ * balance is deducted, so a balance never goes below zero through expiry.
+ */
+export async function expireDuePoints(now = Date.now(), userId?: string) {
+    await ensurePointsTransactionsTable()
+    const conditions = [
+        sql`${pointsTransactions.remaining} > 0`,
+        sql`${pointsTransactions.expiresAt} IS NOT NULL AND ${pointsTransactions.expiresAt} <= ${now}`,
+    ]
+    if (userId) conditions.push(eq(pointsTransactions.userId, userId))
+    const lots = await db.select({
+        id: pointsTransactions.id,
+        userId: pointsTransactions.userId,
+        remaining: pointsTransactions.remaining,
+    })
+        .from(pointsTransactions)
+        .where(and(...conditions))
+        .limit(MAX_LOTS_PER_PASS)
+    if (!lots.length) return 0
+
+    const byUser = new Map<string, { ids: number[]; points: number }>()
+    for (const lot of lots) {
+        const entry = byUser.get(lot.userId) || { ids: [], points: 0 }
+        entry.ids.push(lot.id)
+        entry.points += Number(lot.remaining || 0)
+        byUser.set(lot.userId, entry)
+    }
+
+    let expired = 0
+    for (const [owner, { ids, points }] of byUser) {
+        await db.update(pointsTransactions).set({ remaining: 0 }).where(inArray(pointsTransactions.id, ids))
+        const user = await db.query.loginUsers.findFirst({
+            where: eq(loginUsers.userId, owner),
+            columns: { points: true }
+        })
+        const deduct = Math.min(points, Math.max(0, Number(user?.points || 0)))
+        if (deduct <= 0) continue
+        const balance = await changePoints(owner, -deduct, { reason: 'points_expired', actor: systemActor }, { requireBalance: true })
+        if (balance !== null) expired += deduct
+    }
+    if (expired > 0) console.log(`[Points] Expired ${expired} point(s) across ${byUser.size} user(s)`)
+    return expired
+}
+
+/** Expire one user's lapsed points before their balance is shown or spent */
+export async function expireUserPoints(userId: string, now = Date.now()) {
+    try {
+        const { expiryDays } = await getPointsSettings()
+        if (expiryDays <= 0) return 0
+        return await expireDuePoints(now, userId)
+    } catch (error) {
+        console.error('[Points] Failed to expire user points:', error)
+        return 0
+    }
+}
+
+/** Remind owners once per lot that points are about to lapse */
+export async function sendPointsExpiryReminders(reminderDays: number, now = Date.now()) {
+    if (reminderDays <= 0) return 0
+    await ensurePointsTransactionsTable()
+    const windowEnd = now + reminderDays * DAY_MS
+    const window = and(
+        sql`${pointsTransactions.remaining} > 0`,
+        sql`${pointsTransactions.expiryNotifiedAt} IS NULL`,
+        sql`${pointsTransactions.expiresAt} > ${now} AND ${pointsTransactions.expiresAt} <= ${windowEnd}`
+    )
+    const due = await db.select({
+        userId: pointsTransactions.userId,
+        points: sql<number>`SUM(${pointsTransactions.remaining})`,
+        expiresAt: sql<number>`MIN(${pointsTransactions.expiresAt})`,
+    })
+        .from(pointsTransactions)
+        .where(window)
+        .groupBy(pointsTransactions.userId)
+        .limit(MAX_REPORTED_MISMATCHES)
+
+    for (const row of due) {
+        const days = Math.max(1, Math.ceil((Number(row.expiresAt) - now) / DAY_MS))
+        await createUserNotification({
+            userId: row.userId,
+            type: 'points_expiring',
+            titleKey: 'profile.notifications.pointsExpiringTitle',
+            contentKey: 'profile.notifications.pointsExpiringBody',
+            data: {
+                params: { points: Number(row.points || 0), days },
+                href: '/profile'
+            }
+        })
+        await db.update(pointsTransactions)
+            .set({ expiryNotifiedAt: new Date(now) })
+            .where(and(eq(pointsTransactions.userId, row.userId), window))
+    }
+    return due.length
+}
+
+/**
+ * Expire lapsed points and send reminders, at most once an hour. There is no
+ * scheduler, so this runs from pages users and admins visit anyway.
+ */
+export async function runPointsMaintenanceIfDue(now = Date.now()) {
+    try {
+        const lastRun = Number(await getSetting(MAINTENANCE_RUN_KEY) || 0)
+        if (lastRun && now - lastRun < MAINTENANCE_INTERVAL_MS) return false
+        await setSetting(MAINTENANCE_RUN_KEY, String(now))
+
+        const { expiryDays, reminderDays } = await getPointsSettings()
+        if (expiryDays <= 0) return true
+        await expireDuePoints(now)
+        await sendPointsExpiryReminders(reminderDays, now)
+        return true
+    } catch (error) {
+        console.error('[Points] Maintenance failed:', error)
+        return false
+    }
+}
+
+async function getOrderCashback(orderId: string) {
+    const rows = await db.select({
+        earned: sql<number>`COALESCE(SUM(CASE WHEN ${pointsTransactions.reason} = 'order_cashback' THEN ${pointsTransactions.delta} ELSE 0 END), 0)`,
+        net: sql<number>`COALESCE(SUM(${pointsTransactions.delta}), 0)`,
+    })
+        .from(pointsTransactions)
+        .where(and(
+            eq(pointsTransactions.orderId, orderId),
+            inArray(pointsTransactions.reason, ['order_cashback', 'cashback_clawback'])
+        ))
+    return { earned: Number(rows[0]?.earned || 0), net: Number(rows[0]?.net || 0) }
+}
+
+/** Points an admin cancellation already gave back for the order */
+export async function getCancelReturnedPoints(orderId: string) {
+    await ensurePointsTransactionsTable()
+    const rows = await db.select({ total: sql<number>`COALESCE(SUM(${pointsTransactions.delta}), 0)` })
+        .from(pointsTransactions)
+        .where(and(eq(pointsTransactions.orderId, orderId), eq(pointsTransactions.reason, 'order_cancel')))
+    return Number(rows[0]?.total || 0)
+}
+
+interface CashbackOrder {
+    orderId: string
+    userId: string | null
+    amount: string | number | null
+}
+
+/** Credit the configured cashback for a delivered order, once per order */
+export async function awardOrderCashback(order: CashbackOrder, actor: string = systemActor) {
+    if (!order.userId) return 0
+    try {
+        const { cashbackPercent } = await getPointsSettings()
+        if (cashbackPercent <= 0) return 0
+        const points = Math.floor(Number(order.amount || 0) * cashbackPercent / 100)
+        if (points <= 0) return 0
+
+        await ensurePointsTransactionsTable()
+        const { earned } = await getOrderCashback(order.orderId)
+        if (earned > 0) return 0
+
+        await changePoints(order.userId, points, {
+            reason: 'order_cashback',
+            orderId: order.orderId,
+            actor,
+            note: `${cashbackPercent}% of ${Number(order.amount).toFixed(2)}`
+        })
+        return points
+    } catch (error) {
+        console.error('[Points] Failed to award cashback:', error)
+        return 0
+    }
+}
+
+/**
+ * Take back cashback for refunded money: everything still outstanding, or the
+ * share matching `refundedAmount`. Points already spent stay spent, so at most
+ * the current balance is taken.
+ */
+export async function clawbackOrderCashback(order: CashbackOrder, refundedAmount: number | 'all', actor: string) {
+    if (!order.userId) return 0
+    try {
+        await ensurePointsTransactionsTable()
+        const { earned, net } = await getOrderCashback(order.orderId)
+        if (net <= 0) return 0
+
+        const orderAmount = Number(order.amount || 0)
+        let points = refundedAmount === 'all' || orderAmount <= 0
+            ? net
+            : Math.min(net, Math.round(earned * refundedAmount / orderAmount))
+        const user = await db.query.loginUsers.findFirst({
+            where: eq(loginUsers.userId, order.userId),
+            columns: { points: true }
+        })
+        points = Math.min(points, Math.max(0, Number(user?.points || 0)))
+        if (points <= 0) return 0
+
+        const balance = await changePoints(order.userId, -points, {
+            reason: 'cashback_clawback',
+            orderId: order.orderId,
+            actor
+        }, { requireBalance: true })
+        return balance === null ? 0 : points
+    } catch (error) {
+        console.error('[Points] Failed to claw back cashback:', error)
+        return 0
+    }
+}
+
+/** Compare every balance with the sum of its ledger rows and keep the outliers */
+export async function reconcilePointsLedger(now = Date.now()): Promise<PointsReconcileResult> {
+    await ensurePointsTransactionsTable()
+    const result: any = await db.run(sql`
+        SELECT u.user_id AS user_id, u.username AS username, u.points AS balance, COALESCE(SUM(t.delta), 0) AS ledger
+        FROM login_users u
+        LEFT JOIN points_transactions t ON t.user_id = u.user_id
+        GROUP BY u.user_id
+        HAVING COALESCE(u.points, 0) != COALESCE(SUM(t.delta), 0)
+        LIMIT ${MAX_REPORTED_MISMATCHES}
+    `)
+    const rows = result?.results || result?.rows || []
+    const report: PointsReconcileResult = {
+        checkedAt: now,
+        mismatches: rows.map((row: any) => ({
+            userId: String(row.user_id),
+            username: row.username || null,
+            balance: Number(row.balance || 0),
+            ledger: Number(row.ledger || 0),
+        })),
+    }
+    await setSetting(RECONCILE_RESULT_KEY, JSON.stringify(report))
+    if (report.mismatches.length) {
+        console.warn(`[Points] ${report.mismatches.length} balance(s) differ from the ledger`)
+    }
+    return report
+}
+
+export async function getPointsReconcileResult(): Promise<PointsReconcileResult | null> {
+    try {
+        const raw = await getSetting(RECONCILE_RESULT_KEY)
+        if (!raw) return null
+        const parsed = JSON.parse(raw)
+        return Array.isArray(parsed?.mismatches) ? parsed : null
+    } catch {
+        return null
+    }
+}
+
+/** Run reconciliation when the last report is stale; called lazily from admin pages */
+export async function reconcilePointsLedgerIfDue(now = Date.now()) {
+    const last = await getPointsReconcileResult()
+    if (last && now - Number(last.checkedAt || 0) < RECONCILE_INTERVAL_MS) return last
+    try {
+        return await reconcilePointsLedger(now)
+    } catch (error) {
+        console.error('[Points] Reconciliation failed:', error)
+        return last
+    }
+}
@@ -0,0 +1,36 @@
+export interface PriceTier {
+    minQuantity: number
+    price: string
+}
+
+export interface PriceTierRange extends PriceTier {
+    /** Inclusive upper bound, null for the last (open-ended) range */
+    maxQuantity: number | null
+}
+
+export function sortPriceTiers(tiers: PriceTier[]) {
+    return [...tiers].sort((a, b) => a.minQuantity - b.minQuantity)
+}
+
+/** Unit price for a quantity: the largest tier it reaches, otherwise the base price */
+export function resolveUnitPrice(basePrice: string | number, tiers: PriceTier[] | null | undefined, quantity: number) {
+    let unitPrice = Number(basePrice)
+    for (const tier of sortPriceTiers(tiers || [])) {
+        if (quantity >= tier.minQuantity) unitPrice = Number(tier.price)
+    }
+    return unitPrice
+}
+
+export function tieredTotal(basePrice: string | number, tiers: PriceTier[] | null | undefined, quantity: number) {
+    return Number((resolveUnitPrice(basePrice, tiers, quantity) * quantity).toFixed(2))
+}
+
+/** Tiers as quantity ranges for display, starting with the base price from 1 */
+export function priceTierRanges(basePrice: string | number, tiers: PriceTier[] | null | undefined): PriceTierRange[] {
+    const sorted = sortPriceTiers(tiers || []).filter((tier) => tier.minQuantity > 1)
+    const rows: PriceTier[] = [{ minQuantity: 1, price: String(basePrice) }, ...sorted]
+    return rows.map((row, i) => ({
+        ...row,
+        maxQuantity: i + 1 < rows.length ? rows[i + 1].minQuantity - 1 : null
+    }))
+}
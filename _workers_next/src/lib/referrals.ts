@@ -0,0 +1,258 @@
+import { db } from "@/lib/db"
+import { loginUsers, referrals } from "@/lib/db/schema"
+import { createUserNotification, ensureReferralsTable, getSetting, newReferralCode, recordLoginUser } from "@/lib/db/queries"
+import { changePoints } from "@/lib/points"
+import { and, desc, eq, gte, sql } from "drizzle-orm"
+
+export type ReferralStatus = 'pending' | 'rewarded' | 'rejected'
+export type ReferralRow = typeof referrals.$inferSelect
+
+export interface ReferralSettings {
+    enabled: boolean
+    inviterReward: number
+    inviteeReward: number
+    /** The invitee's first order must be at least this much to count */
+    minOrderAmount: number
+    /** Linux DO trust level an invitee needs at sign-up */
+    minTrustLevel: number
+    /** Rewarded invites per inviter in a rolling 30 days; 0 means no limit */
+    monthlyCap: number
+}
+
+const CAP_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
+function readNumber(raw: string | null, fallback: number) {
+    const n = Number(raw)
+    return raw !== null && raw !== '' && Number.isFinite(n) && n >= 0 ? n : fallback
+}
+
+export async function getReferralSettings(): Promise<ReferralSettings> {
+    const keys = ['referral_enabled', 'referral_inviter_reward', 'referral_invitee_reward', 'referral_min_order_amount', 'referral_min_trust_level', 'referral_monthly_cap']
+    const [enabled, inviter, invitee, minOrder, minTrust, cap] = await Promise.all(keys.map((key) => getSetting(key).catch(() => null)))
+    return {
+        enabled: enabled === 'true',
+        inviterReward: Math.floor(readNumber(inviter, 50)),
+        inviteeReward: Math.floor(readNumber(invitee, 20)),
+        minOrderAmount: readNumber(minOrder, 0),
+        minTrustLevel: Math.floor(readNumber(minTrust, 1)),
+        monthlyCap: Math.floor(readNumber(cap, 10)),
+    }
+}
+
+export function normalizeReferralCode(raw: string | null | undefined) {
+    const code = String(raw || '').trim().toUpperCase()
+    return /^[A-Z0-9]{4,16}$/.test(code) ? code : null
+}
+
+export async function getReferralCode(userId: string) {
+    await ensureReferralsTable()
+    const user = await db.query.loginUsers.findFirst({
+        where: eq(loginUsers.userId, userId),
+        columns: { referralCode: true }
+    })
+    if (!user) return null
+    if (user.referralCode) return user.referralCode
+
+    const code = newReferralCode()
+    await db.update(loginUsers)
+        .set({ referralCode: code })
+        .where(and(eq(loginUsers.userId, userId), sql`${loginUsers.referralCode} IS NULL`))
+    const fresh = await db.query.loginUsers.findFirst({
+        where: eq(loginUsers.userId, userId),
+        columns: { referralCode: true }
+    })
+    return fresh?.referralCode || null
+}
+
+/**
+ * Link a member signing in for the first time to whoever invited them. Only
+ * brand-new accounts can be referred, never by themselves; invites that fail
+ * the trust level check are kept as rejected so they show up in the report.
+ */
+export async function captureReferral(user: { id: string; username?: string | null; email?: string | null; trustLevel?: number | null }, rawCode: string | null | undefined) {
+    const code = normalizeReferralCode(rawCode)
+    if (!code || !user.id) return null
+
+    const settings = await getReferralSettings()
+    if (!settings.enabled) return null
+
+    await ensureReferralsTable()
+    const existing = await db.query.loginUsers.findFirst({
+        where: eq(loginUsers.userId, user.id),
+        columns: { userId: true }
+    })
+    if (existing) return null
+
+    const inviter = await db.query.loginUsers.findFirst({
+        where: eq(loginUsers.referralCode, code),
+        columns: { userId: true, isBlocked: true }
+    })
+    if (!inviter || inviter.userId === user.id) return null
+
+    await recordLoginUser(user.id, user.username || null, user.email || null)
+
+    let status: ReferralStatus = 'pending'
+    let note: string | null = null
+    if (inviter.isBlocked) {
+        status = 'rejected'
+        note = 'inviter_blocked'
+    } else if (Number(user.trustLevel ?? 0) < settings.minTrustLevel) {
+        status = 'rejected'
+        note = 'trust_level'
+    }
+
+    const inserted = await db.insert(referrals).values({
+        inviterId: inviter.userId,
+        inviteeId: user.id,
+        code,
+        status,
+        note,
+        createdAt: new Date(),
+    }).onConflictDoNothing().returning({ id: referrals.id })
+    return inserted[0]?.id ?? null
+}
+
+interface ReferralOrder {
+    orderId: string
+    userId: string | null
+    username?: string | null
+    amount: string | number | null
+}
+
+/**
+ * Pay both sides once the invitee's first qualifying order is delivered. The
+ * inviter's share is skipped (but the invite still settles) when they hit the
+ * rolling cap or have been blocked since.
+ */
+export async function rewardReferralForOrder(order: ReferralOrder, actor: string) {
+    if (!order.userId) return false
+    try {
+        await ensureReferralsTable()
+        const referral = await db.query.referrals.findFirst({
+            where: and(eq(referrals.inviteeId, order.userId), eq(referrals.status, 'pending'))
+        })
+        if (!referral) return false
+
+        const settings = await getReferralSettings()
+        if (!settings.enabled) return false
+        if (Number(order.amount || 0) < settings.minOrderAmount) return false
+
+        let inviterPoints = settings.inviterReward
+        let note: string | null = null
+        const inviter = await db.query.loginUsers.findFirst({
+            where: eq(loginUsers.userId, referral.inviterId),
+            columns: { isBlocked: true }
+        })
+        if (!inviter || inviter.isBlocked) {
+            inviterPoints = 0
+            note = 'inviter_blocked'
+        } else if (settings.monthlyCap > 0) {
+            const rows = await db.select({ count: sql<number>`count(*)` })
+                .from(referrals)
+                .where(and(
+                    eq(referrals.inviterId, referral.inviterId),
+                    eq(referrals.status, 'rewarded'),
+                    sql`${referrals.inviterPoints} > 0`,
+                    gte(referrals.rewardedAt, new Date(Date.now() - CAP_WINDOW_MS))
+                ))
+            if (Number(rows[0]?.count || 0) >= settings.monthlyCap) {
+                inviterPoints = 0
+                note = 'inviter_cap'
+            }
+        }
+        const inviteePoints = settings.inviteeReward
+
+        // Claim the invite first so a second delivery cannot pay it again
+        const claimed = await db.update(referrals)
+            .set({ status: 'rewarded', orderId: order.orderId, inviterPoints, inviteePoints, note, rewardedAt: new Date() })
+            .where(and(eq(referrals.id, referral.id), eq(referrals.status, 'pending')))
+            .returning({ id: referrals.id })
+        if (!claimed.length) return false
+
+        if (inviteePoints > 0) {
+            await changePoints(order.userId, inviteePoints, { reason: 'referral_invitee', orderId: order.orderId, actor })
+        }
+        if (inviterPoints > 0) {
+            await changePoints(referral.inviterId, inviterPoints, {
+                reason: 'referral_inviter',
+                orderId: order.orderId,
+                actor,
+                note: order.username ? `Invited ${order.username}` : null
+            })
+            await createUserNotification({
+                userId: referral.inviterId,
+                type: 'referral_rewarded',
+                titleKey: 'profile.notifications.referralRewardedTitle',
+                contentKey: 'profile.notifications.referralRewardedBody',
+                data: {
+                    params: { username: order.username || '-', points: inviterPoints },
+                    href: '/profile'
+                }
+            })
+        }
+        return true
+    } catch (error) {
+        console.error('[Referral] Failed to reward referral:', error)
+        return false
+    }
+}
+
+export async function getReferralSummary(userId: string) {
+    await ensureReferralsTable()
+    const rows = await db.select({
+        invited: sql<number>`count(*)`,
+        rewarded: sql<number>`COALESCE(SUM(CASE WHEN ${referrals.status} = 'rewarded' THEN 1 ELSE 0 END), 0)`,
+        pending: sql<number>`COALESCE(SUM(CASE WHEN ${referrals.status} = 'pending' THEN 1 ELSE 0 END), 0)`,
+        points: sql<number>`COALESCE(SUM(${referrals.inviterPoints}), 0)`,
+    })
+        .from(referrals)
+        .where(eq(referrals.inviterId, userId))
+    return {
+        invited: Number(rows[0]?.invited || 0),
+        rewarded: Number(rows[0]?.rewarded || 0),
+        pending: Number(rows[0]?.pending || 0),
+        points: Number(rows[0]?.points || 0),
+    }
+}
+
+export async function getReferralReport(limit = 50) {
+    await ensureReferralsTable()
+    const [totals, topInviters, recent] = await Promise.all([
+        db.select({
+            status: referrals.status,
+            count: sql<number>`count(*)`,
+            inviterPoints: sql<number>`COALESCE(SUM(${referrals.inviterPoints}), 0)`,
+            inviteePoints: sql<number>`COALESCE(SUM(${referrals.inviteePoints}), 0)`,
+        }).from(referrals).groupBy(referrals.status),
+        db.select({
+            inviterId: referrals.inviterId,
+            username: loginUsers.username,
+            invited: sql<number>`count(*)`,
+            rewarded: sql<number>`SUM(CASE WHEN ${referrals.status} = 'rewarded' THEN 1 ELSE 0 END)`,
+            points: sql<number>`COALESCE(SUM(${referrals.inviterPoints}), 0)`,
+        })
+            .from(referrals)
+            .leftJoin(loginUsers, eq(loginUsers.userId, referrals.inviterId))
+            .groupBy(referrals.inviterId)
+            .orderBy(desc(sql`count(*)`))
+            .limit(20),
+        db.select({
+            id: referrals.id,
+            inviterId: referrals.inviterId,
+            inviteeId: referrals.inviteeId,
+            inviteeName: sql<string | null>`(SELECT username FROM login_users WHERE user_id = ${referrals.inviteeId})`,
+            inviterName: sql<string | null>`(SELECT username FROM login_users WHERE user_id = ${referrals.inviterId})`,
+            status: referrals.status,
+            orderId: referrals.orderId,
+            inviterPoints: referrals.inviterPoints,
+            inviteePoints: referrals.inviteePoints,
+            note: referrals.note,
+            createdAt: referrals.createdAt,
+            rewardedAt: referrals.rewardedAt,
+        })
+            .from(referrals)
+            .orderBy(desc(referrals.createdAt), desc(referrals.id))
+            .limit(limit),
+    ])
+    return { totals, topInviters, recent }
+}
@@ -0,0 +1,171 @@
+import { db } from "@/lib/db"
+import { cards, orderItems } from "@/lib/db/schema"
+import { ensureRefundColumns, getSetting } from "@/lib/db/queries"
+import { eq, inArray } from "drizzle-orm"
+import { decryptCardKey } from "@/lib/card-crypto"
+
+type RefundableOrder = {
+    orderId: string
+    amount: string
+    quantity: number | null
+    pointsUsed: number | null
+    cardIds: string | null
+    cardKey: string | null
+    refundedAmount?: string | null
+    refundedQuantity?: number | null
+    refundedPoints?: number | null
+    refundedCardIds?: string | null
+}
+
+/** Thrown when a refund request is no longer pending; callers match on it to tell races apart from failures */
+export const REFUND_ALREADY_HANDLED = 'Refund request already handled'
+
+export interface RefundSelection {
+    /** Money to send back; defaults to the proportional share of the selected units */
+    amount?: number | string | null
+    /** Units being refunded; defaults to the number of selected cards */
+    quantity?: number | null
+    cardIds?: number[] | null
+    /** What happens to the selected cards: back into stock, or removed for good */
+    cardAction?: 'reclaim' | 'void'
+}
+
+export interface RefundQuote {
+    amount: number
+    quantity: number
+    points: number
+    cardIds: number[]
+    /** True when nothing would be left to refund afterwards */
+    isFull: boolean
+}
+
+export interface OrderRefundCard {
+    id: number
+    key: string
+    refunded: boolean
+}
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100
+}
+
+export function parseCardIdList(raw: string | null | undefined) {
+    return Array.from(new Set(
+        String(raw || '')
+            .split(',')
+            .map((id) => Number(id.trim()))
+            .filter((id) => Number.isInteger(id) && id > 0)
+    ))
+}
+
+/** What is still refundable on an order after earlier partial refunds */
+export function getRefundRemaining(order: RefundableOrder) {
+    const quantity = Math.max(1, Number(order.quantity || 1))
+    return {
+        amount: Math.max(0, roundMoney(Number(order.amount || 0) - Number(order.refundedAmount || 0))),
+        quantity: Math.max(0, quantity - Number(order.refundedQuantity || 0)),
+        points: Math.max(0, Number(order.pointsUsed || 0) - Number(order.refundedPoints || 0)),
+        refundedCardIds: new Set(parseCardIdList(order.refundedCardIds)),
+    }
+}
+
+/**
+ * Work out a partial refund. Units are priced proportionally to the order, and
+ * points paid are returned in the same proportion as the money refunded.
+ * Throws with an English message when the selection does not fit the order.
+ */
+export function quoteRefund(order: RefundableOrder, selection: RefundSelection): RefundQuote {
+    const remaining = getRefundRemaining(order)
+    const orderQuantity = Math.max(1, Number(order.quantity || 1))
+    const orderAmount = Number(order.amount || 0)
+    const deliveredIds = new Set(parseCardIdList(order.cardIds))
+
+    const cardIds = Array.from(new Set((selection.cardIds || []).map(Number)))
+    for (const id of cardIds) {
+        if (!deliveredIds.has(id)) throw new Error(`Card ${id} does not belong to this order`)
+        if (remaining.refundedCardIds.has(id)) throw new Error(`Card ${id} has already been refunded`)
+    }
+
+    const quantity = selection.quantity !== null && selection.quantity !== undefined
+        ? Number(selection.quantity)
+        : cardIds.length
+    if (!Number.isInteger(quantity) || quantity < 0) throw new Error("Invalid refund quantity")
+    if (quantity < cardIds.length) throw new Error("Refund quantity is smaller than the selected cards")
+    if (quantity > remaining.quantity) throw new Error("Refund quantity exceeds what is left on the order")
+
+    const rawAmount = selection.amount === null || selection.amount === undefined || selection.amount === ''
+        ? roundMoney(orderAmount * quantity / orderQuantity)
+        : Number(selection.amount)
+    if (!Number.isFinite(rawAmount) || rawAmount < 0) throw new Error("Invalid refund amount")
+    const amount = roundMoney(rawAmount)
+    if (amount > remaining.amount) throw new Error("Refund amount exceeds what is left on the order")
+    if (amount <= 0 && quantity <= 0) throw new Error("Nothing to refund")
+
+    const isFull = quantity >= remaining.quantity && amount >= remaining.amount
+    const share = orderAmount > 0 ? amount / orderAmount : quantity / orderQuantity
+    const points = isFull
+        ? remaining.points
+        : Math.min(remaining.points, Math.round(Number(order.pointsUsed || 0) * share))
+
+    return { amount, quantity, points, cardIds, isFull }
+}
+
+/** Points credited per unit of currency when refunding as store credit */
+export async function getRefundPointsRate() {
+    try {
+        const rate = Number(await getSetting('refund_points_rate'))
+        return Number.isFinite(rate) && rate > 0 ? rate : 1
+    } catch {
+        return 1
+    }
+}
+
+/** Store credit for a refunded amount; `rate` is points per unit of currency */
+export function toStoreCredit(amount: number, rate: number) {
+    return Math.max(0, Math.round(amount * rate))
+}
+
+/** Delivered cards of an order with their refund state, for picking what to refund */
+export async function getOrderRefundCards(order: RefundableOrder): Promise<OrderRefundCard[]> {
+    const ids = parseCardIdList(order.cardIds)
+    if (!ids.length) return []
+    const refunded = new Set(parseCardIdList(order.refundedCardIds))
+    const rows = await db.select({ id: cards.id, key: cards.cardKey })
+        .from(cards)
+        .where(inArray(cards.id, ids))
+    const keys = new Map(await Promise.all(rows.map(async (row) => [row.id, await decryptCardKey(row.key)] as const)))
+    return ids.map((id) => ({ id, key: keys.get(id) || `#${id}`, refunded: refunded.has(id) }))
+}
+
+/** Put refunded cards back into stock or delete them */
+export async function releaseRefundedCards(cardIds: number[], action: 'reclaim' | 'void') {
+    if (!cardIds.length) return
+    if (action === 'void') {
+        await db.delete(cards).where(inArray(cards.id, cardIds))
+        return
+    }
+    await db.update(cards)
+        .set({ isUsed: false, usedAt: null, reservedOrderId: null, reservedAt: null })
+        .where(inArray(cards.id, cardIds))
+}
+
+/** Cart orders: attribute refunded cards to their lines so per-product sold counts stay right */
+export async function recordRefundedLineQuantities(orderId: string, cardIds: number[]) {
+    if (!cardIds.length) return
+    try {
+        await ensureRefundColumns()
+        const lines = await db.select({ id: orderItems.id, cardIds: orderItems.cardIds, refundedQuantity: orderItems.refundedQuantity })
+            .from(orderItems)
+            .where(eq(orderItems.orderId, orderId))
+        const selected = new Set(cardIds)
+        for (const line of lines) {
+            const count = parseCardIdList(line.cardIds).filter((id) => selected.has(id)).length
+            if (!count) continue
+            await db.update(orderItems)
+                .set({ refundedQuantity: Number(line.refundedQuantity || 0) + count })
+                .where(eq(orderItems.id, line.id))
+        }
+    } catch (error) {
+        console.error('[Refund] Failed to record refunded line quantities:', error)
+    }
+}
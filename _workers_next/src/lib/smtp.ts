@@ -0,0 +1,171 @@
+import type { Socket } from "cloudflare:sockets"
+
+/**
+ * Minimal SMTP client over Workers TCP sockets: implicit TLS (465) or
+ * STARTTLS (587), AUTH PLAIN, one recipient per message.
+ */
+
+export interface SmtpConfig {
+    host: string
+    port: number
+    /** 'tls' connects encrypted; 'starttls' upgrades after EHLO */
+    secure: 'tls' | 'starttls'
+    username?: string | null
+    password?: string | null
+}
+
+export interface SmtpMessage {
+    fromEmail: string
+    fromName: string
+    to: string
+    subject: string
+    html: string
+    text: string
+}
+
+const SMTP_TIMEOUT_MS = 20000
+
+class SmtpError extends Error {
+    constructor(public code: number, message: string) {
+        super(`SMTP ${code}: ${message}`)
+    }
+}
+
+function base64(value: string) {
+    const bytes = new TextEncoder().encode(value)
+    let binary = ''
+    for (const byte of bytes) binary += String.fromCharCode(byte)
+    return btoa(binary)
+}
+
+// RFC 2047 encoded-word, so non-ASCII names and subjects survive
+function encodeHeader(value: string) {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`
+}
+
+// Base64 bodies never start a line with '.', so no dot-stuffing is needed
+function wrapBase64(value: string) {
+    return base64(value).replace(/.{1,76}/g, '$&\r\n')
+}
+
+export function buildMimeMessage(message: SmtpMessage) {
+    const boundary = `ldc-${crypto.randomUUID()}`
+    const domain = message.fromEmail.split('@')[1] || 'localhost'
+    const messageId = `<${crypto.randomUUID()}@${domain}>`
+    const lines = [
+        `From: ${encodeHeader(message.fromName)} <${message.fromEmail}>`,
+        `To: <${message.to}>`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: ${messageId}`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(message.text),
+        `--${boundary}`,
+        'Content-Type: text/html; charset=UTF-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(message.html),
+        `--${boundary}--`,
+        ''
+    ]
+    return { messageId, data: lines.join('\r\n') }
+}
+
+class SmtpConnection {
+    private reader: ReadableStreamDefaultReader<Uint8Array>
+    private writer: WritableStreamDefaultWriter<Uint8Array>
+    private buffer = ''
+    private decoder = new TextDecoder()
+    private encoder = new TextEncoder()
+
+    constructor(public socket: Socket) {
+        this.reader = socket.readable.getReader()
+        this.writer = socket.writable.getWriter()
+    }
+
+    /** Read one reply, following `250-` continuation lines to the final `250 ` */
+    async reply(expected: number[]) {
+        const lines: string[] = []
+        while (true) {
+            const newline = this.buffer.indexOf('\r\n')
+            if (newline === -1) {
+                const { value, done } = await this.reader.read()
+                if (done) throw new Error('SMTP connection closed')
+                this.buffer += this.decoder.decode(value, { stream: true })
+                continue
+            }
+            const line = this.buffer.slice(0, newline)
+            this.buffer = this.buffer.slice(newline + 2)
+            lines.push(line)
+            if (line.length < 4 || line[3] !== '-') break
+        }
+        const code = Number.parseInt(lines[lines.length - 1].slice(0, 3), 10)
+        const text = lines.map((l) => l.slice(4)).join(' ')
+        if (!expected.includes(code)) throw new SmtpError(code, text)
+        return { code, text }
+    }
+
+    async command(line: string, expected: number[]) {
+        await this.writer.write(this.encoder.encode(`${line}\r\n`))
+        return this.reply(expected)
+    }
+
+    async write(data: string) {
+        await this.writer.write(this.encoder.encode(data))
+    }
+
+    /** Hand the socket over to TLS; the old streams must be released first */
+    upgrade(host: string) {
+        this.reader.releaseLock()
+        this.writer.releaseLock()
+        return new SmtpConnection(this.socket.startTls({ expectedServerHostname: host }))
+    }
+}
+
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage) {
+    const { connect } = await import(/* webpackIgnore: true */ "cloudflare:sockets")
+    const socket = connect(
+        { hostname: config.host, port: config.port },
+        { secureTransport: config.secure === 'tls' ? 'on' : 'starttls', allowHalfOpen: false }
+    )
+    let conn = new SmtpConnection(socket)
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('SMTP timed out')), SMTP_TIMEOUT_MS)
+    })
+
+    const session = async () => {
+        const hostname = message.fromEmail.split('@')[1] || 'localhost'
+        await conn.reply([220])
+        await conn.command(`EHLO ${hostname}`, [250])
+        if (config.secure === 'starttls') {
+            await conn.command('STARTTLS', [220])
+            conn = conn.upgrade(config.host)
+            await conn.command(`EHLO ${hostname}`, [250])
+        }
+        if (config.username) {
+            await conn.command(`AUTH PLAIN ${base64(`\0${config.username}\0${config.password || ''}`)}`, [235])
+        }
+        await conn.command(`MAIL FROM:<${message.fromEmail}>`, [250])
+        await conn.command(`RCPT TO:<${message.to}>`, [250, 251])
+        await conn.command('DATA', [354])
+        const mime = buildMimeMessage(message)
+        await conn.write(mime.data)
+        await conn.command('.', [250])
+        await conn.command('QUIT', [221]).catch(() => null)
+        return { id: mime.messageId }
+    }
+
+    try {
+        return await Promise.race([session(), timeout])
+    } finally {
+        clearTimeout(timer)
+        await conn.socket.close().catch(() => null)
+    }
+}
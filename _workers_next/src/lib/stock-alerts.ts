@@ -0,0 +1,166 @@
+import { db } from "@/lib/db"
+import { adminRoles, loginUsers, products } from "@/lib/db/schema"
+import { createUserNotification, ensureAdminRolesTable, getSetting } from "@/lib/db/queries"
+import { DEFAULT_LOW_STOCK_THRESHOLD, parseSoldOutAction, stockLevel, type StockLevel } from "@/lib/stock-levels"
+import { ROLE_CAPABILITIES, isAdminRole } from "@/lib/admin-roles"
+import { getAdminUsernames } from "@/lib/admin-auth"
+import { notifyAdminStockAlert } from "@/lib/notifications"
+import { emitWebhookEvent, runAfterResponse } from "@/lib/webhooks"
+import { and, eq, inArray, sql } from "drizzle-orm"
+import { updateTag } from "next/cache"
+
+/**
+ * Low-stock and sold-out alerts. After stock is recalculated, each product's
+ * level (ok / low / out) is compared with the last level admins were told
+ * about (`products.stock_alert`). Only a drop into a worse level alerts, so a
+ * product sitting at 0 is reported once, not on every recalculation; rising
+ * back above the threshold re-arms it.
+ *
+ * When a product runs out, the `sold_out_action` setting can hide it or mark
+ * it as restocking on the storefront; both are undone once cards are back.
+ */
+
+export interface StockChange {
+    id: string
+    /** Sellable stock (available + reserved) before and after the recalculation */
+    previous: number
+    current: number
+    /** Reserved part of `current` */
+    locked: number
+}
+
+const LEVEL_RANK: Record<StockLevel, number> = { ok: 0, low: 1, out: 2 }
+
+export async function getLowStockThreshold() {
+    return Number.parseInt(await getSetting('low_stock_threshold') || '', 10) || DEFAULT_LOW_STOCK_THRESHOLD
+}
+
+// Staff who can restock: env owners plus dashboard roles with manage_products
+async function stockManagerUserIds() {
+    const ids = new Set<string>()
+    const owners = getAdminUsernames().map((name) => name.toLowerCase())
+    if (owners.length) {
+        const rows = await db.select({ userId: loginUsers.userId })
+            .from(loginUsers)
+            .where(inArray(sql`LOWER(${loginUsers.username})`, owners))
+        rows.forEach((row) => ids.add(row.userId))
+    }
+    try {
+        await ensureAdminRolesTable()
+        const rows = await db.select({ userId: adminRoles.userId, role: adminRoles.role }).from(adminRoles)
+        for (const row of rows) {
+            if (isAdminRole(row.role) && ROLE_CAPABILITIES[row.role].includes('manage_products')) ids.add(row.userId)
+        }
+    } catch {
+        // roles table is optional
+    }
+    return Array.from(ids)
+}
+
+async function sendStockAlert(product: { id: string; name: string; level: 'low' | 'out'; stock: number; threshold: number; soldOutState: string | null }) {
+    await notifyAdminStockAlert(product)
+    const userIds = await stockManagerUserIds()
+    for (const userId of userIds) {
+        await createUserNotification({
+            userId,
+            type: 'stock_alert',
+            titleKey: product.level === 'out' ? 'profile.notifications.soldOutTitle' : 'profile.notifications.lowStockTitle',
+            contentKey: product.level === 'out' ? 'profile.notifications.soldOutBody' : 'profile.notifications.lowStockBody',
+            data: {
+                params: { productName: product.name, stock: product.stock, threshold: product.threshold },
+                href: `/admin/cards/${product.id}`
+            }
+        })
+    }
+}
+
+/**
+ * Act on stock level changes from a recalculation. Called by
+ * recalcProductAggregates / recalcProductAggregatesForMany.
+ */
+export async function checkStockLevels(changes: StockChange[]) {
+    const relevant = changes.filter((c) => c.previous !== c.current || c.current <= 0)
+    if (!relevant.length) return
+
+    const rows = await db.select({
+        id: products.id,
+        name: products.name,
+        isActive: products.isActive,
+        lowStockThreshold: products.lowStockThreshold,
+        stockAlert: products.stockAlert,
+        soldOutState: products.soldOutState
+    })
+        .from(products)
+        .where(inArray(products.id, relevant.map((c) => c.id)))
+    if (!rows.length) return
+
+    const [defaultThreshold, soldOutAction] = await Promise.all([
+        getLowStockThreshold(),
+        getSetting('sold_out_action').then(parseSoldOutAction)
+    ])
+    const byId = new Map(relevant.map((c) => [c.id, c]))
+    let visibilityChanged = false
+
+    for (const row of rows) {
+        const change = byId.get(row.id)!
+        const threshold = row.lowStockThreshold ?? defaultThreshold
+        const level = stockLevel(change.current, threshold)
+        const alerted: StockLevel = row.stockAlert === 'low' || row.stockAlert === 'out' ? row.stockAlert : 'ok'
+        if (level === alerted) continue
+
+        // Only a drop in this recalculation alerts; products that were already empty before
+        // alerts existed just have their level recorded
+        const worse = LEVEL_RANK[level] > LEVEL_RANK[alerted] && change.current < change.previous
+        let soldOutState = row.soldOutState
+        let isActive = row.isActive
+        if (level === 'out' && worse && !soldOutState) {
+            if (soldOutAction === 'hide' && row.isActive !== false) {
+                soldOutState = 'hidden'
+                isActive = false
+            } else if (soldOutAction === 'restocking') {
+                soldOutState = 'restocking'
+            }
+        } else if (level !== 'out' && soldOutState) {
+            // Restocked: undo what the sold-out action did
+            if (soldOutState === 'hidden') isActive = true
+            soldOutState = null
+        }
+
+        // Claim the transition so concurrent recalculations alert once
+        const claimed = await db.update(products)
+            .set({ stockAlert: level === 'ok' ? null : level, soldOutState, isActive })
+            .where(and(
+                eq(products.id, row.id),
+                row.stockAlert === null ? sql`${products.stockAlert} IS NULL` : eq(products.stockAlert, row.stockAlert)
+            ))
+            .returning({ id: products.id })
+        if (!claimed.length) continue
+        if (isActive !== row.isActive) visibilityChanged = true
+
+        if (worse && level !== 'ok') {
+            const alert = { id: row.id, name: row.name, level, stock: change.current, threshold, soldOutState }
+            await runAfterResponse(async () => {
+                try {
+                    await sendStockAlert(alert)
+                } catch (error) {
+                    console.error(`[StockAlert] ${row.id} failed:`, error)
+                }
+            })
+            if (alerted === 'ok') {
+                await emitWebhookEvent('stock.low', {
+                    product: { id: row.id, name: row.name, stockCount: change.current - change.locked, lockedCount: change.locked },
+                    threshold
+                })
+            }
+        }
+    }
+
+    if (visibilityChanged) {
+        try {
+            updateTag('home:products')
+            updateTag('home:product-categories')
+        } catch {
+            // best effort
+        }
+    }
+}
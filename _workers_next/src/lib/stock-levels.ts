@@ -0,0 +1,24 @@
+import { INFINITE_STOCK } from "@/lib/constants"
+
+/**
+ * Stock levels and the sold-out rule. Client-safe: the admin settings and
+ * product list use these too; lib/stock-alerts acts on them server-side.
+ */
+
+export type StockLevel = 'ok' | 'low' | 'out'
+
+export const SOLD_OUT_ACTIONS = ['none', 'hide', 'restocking'] as const
+
+export type SoldOutAction = typeof SOLD_OUT_ACTIONS[number]
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5
+
+export function stockLevel(stock: number, threshold: number): StockLevel {
+    if (stock >= INFINITE_STOCK) return 'ok'
+    if (stock <= 0) return 'out'
+    return stock <= threshold ? 'low' : 'ok'
+}
+
+export function parseSoldOutAction(value: string | null | undefined): SoldOutAction {
+    return value === 'hide' || value === 'restocking' ? value : 'none'
+}
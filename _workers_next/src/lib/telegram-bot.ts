@@ -0,0 +1,497 @@
+import { db } from "./db"
+import { orders, products, refundRequests } from "./db/schema"
+import { getDashboardStats, getProductVariants, getSetting } from "./db/queries"
+import { callTelegramApi, escapeHtml, getNotificationChannel, type NotificationChannel } from "./notifications"
+import { runAsAdmin, type ActingAdmin } from "./admin-auth"
+import { ROLE_CAPABILITIES } from "./admin-roles"
+import { INFINITE_STOCK } from "./constants"
+import { CARD_IMPORT_CHUNK_SIZE } from "./card-import"
+import { getLowStockThreshold } from "./stock-alerts"
+import { adminApproveRefund, adminRejectRefund } from "@/actions/refund-requests"
+import { REFUND_ALREADY_HANDLED } from "@/lib/refunds"
+import { importCards } from "@/actions/admin-cards"
+import { and, asc, desc, eq, lt, lte, or, sql } from "drizzle-orm"
+
+/**
+ * Interactive admin bot: Telegram posts updates to /api/telegram, and
+ * commands from allowlisted chats run as an operator-level admin.
+ */
+
+const messages = {
+    zh: {
+        help: '可用命令：',
+        commands: { stats: '销售统计', order: '查询订单', stock: '低库存商品', refunds: '待处理退款', addcards: '添加卡密' },
+        commandArgs: { order: '&lt;订单号&gt;', addcards: '&lt;商品ID&gt; [规格ID]' } as Record<string, string>,
+        unknown: '未知命令，发送 /help 查看可用命令。',
+        statsTitle: '📊 销售统计',
+        today: '今日',
+        week: '近 7 天',
+        month: '本月',
+        total: '累计',
+        orders: '单',
+        orderUsage: '用法：/order &lt;订单号&gt;',
+        orderNotFound: '未找到订单 {id}',
+        status: '状态',
+        product: '商品',
+        quantity: '数量',
+        amount: '金额',
+        refunded: '已退款',
+        user: '用户',
+        guest: '访客',
+        tradeNo: '交易号',
+        createdAt: '创建时间',
+        paidAt: '支付时间',
+        stockTitle: '📦 低库存商品（默认阈值 {threshold}）',
+        stockEmpty: '✅ 所有在售商品库存均高于预警阈值。',
+        refundsEmpty: '✅ 没有待处理的退款申请。',
+        refundTitle: '↩️ 退款申请 #{id}',
+        order: '订单号',
+        reason: '原因',
+        noReason: '未提供原因',
+        method: '方式',
+        methodGateway: '原路退款',
+        methodPoints: '退为积分',
+        approve: '✅ 同意',
+        reject: '❌ 拒绝',
+        approved: '✅ 已由 {admin} 同意并退款',
+        approvedPending: '⚠️ 已由 {admin} 同意，但退款未完成：{error}',
+        rejected: '❌ 已由 {admin} 拒绝',
+        alreadyHandled: '该申请已处理（{status}）',
+        addUsage: '用法：/addcards &lt;商品ID&gt; [规格ID]，卡密可写在命令下方，每行一个',
+        productNotFound: '未找到商品 {id}',
+        variantRequired: '该商品有多个规格，请指定规格ID：',
+        addPrompt: '请回复此消息，粘贴 <b>{name}</b> 的卡密，每行一个。',
+        added: '已为 <b>{name}</b> 添加 {inserted} 个卡密（跳过重复 {skipped}，无效 {invalid}）。',
+        keysRemoved: '包含卡密的消息已从聊天中删除。',
+        failed: '操作失败：{error}'
+    },
+    en: {
+        help: 'Commands:',
+        commands: { stats: 'Sales stats', order: 'Look up an order', stock: 'Low-stock products', refunds: 'Pending refunds', addcards: 'Add card keys' },
+        commandArgs: { order: '&lt;id&gt;', addcards: '&lt;productId&gt; [variantId]' } as Record<string, string>,
+        unknown: 'Unknown command. Send /help for the list.',
+        statsTitle: '📊 Sales Stats',
+        today: 'Today',
+        week: 'Last 7 days',
+        month: 'This month',
+        total: 'All time',
+        orders: 'orders',
+        orderUsage: 'Usage: /order &lt;id&gt;',
+        orderNotFound: 'Order {id} not found',
+        status: 'Status',
+        product: 'Product',
+        quantity: 'Quantity',
+        amount: 'Amount',
+        refunded: 'Refunded',
+        user: 'User',
+        guest: 'Guest',
+        tradeNo: 'Trade No',
+        createdAt: 'Created',
+        paidAt: 'Paid',
+        stockTitle: '📦 Low Stock (default threshold {threshold})',
+        stockEmpty: '✅ Every active product is above its low-stock threshold.',
+        refundsEmpty: '✅ No pending refund requests.',
+        refundTitle: '↩️ Refund Request #{id}',
+        order: 'Order',
+        reason: 'Reason',
+        noReason: 'No reason provided',
+        method: 'Method',
+        methodGateway: 'Original payment',
+        methodPoints: 'Store credit',
+        approve: '✅ Approve',
+        reject: '❌ Reject',
+        approved: '✅ Approved and refunded by {admin}',
+        approvedPending: '⚠️ Approved by {admin}, refund not completed: {error}',
+        rejected: '❌ Rejected by {admin}',
+        alreadyHandled: 'This request was already handled ({status})',
+        addUsage: 'Usage: /addcards &lt;productId&gt; [variantId], with keys on the following lines, one per line',
+        productNotFound: 'Product {id} not found',
+        variantRequired: 'This product has variants; add a variant ID:',
+        addPrompt: 'Reply to this message with the card keys for <b>{name}</b>, one per line.',
+        added: 'Added {inserted} card keys to <b>{name}</b> ({skipped} duplicates skipped, {invalid} invalid).',
+        keysRemoved: 'The message with the keys was removed from the chat.',
+        failed: 'Failed: {error}'
+    }
+}
+
+type Templates = typeof messages.zh
+
+// Replies to the /addcards prompt are matched by this tag in the prompt text
+const ADD_CARDS_TAG = '#addcards'
+const LIST_LIMIT = 30
+
+interface TelegramChat { id: number }
+interface TelegramUser { id: number; username?: string; first_name?: string }
+interface TelegramMessage {
+    message_id: number
+    chat: TelegramChat
+    from?: TelegramUser
+    text?: string
+    reply_to_message?: TelegramMessage
+}
+interface TelegramUpdate {
+    message?: TelegramMessage
+    callback_query?: { id: string; from: TelegramUser; message?: TelegramMessage; data?: string }
+}
+
+export interface TelegramBot {
+    channel: NotificationChannel
+    secret: string
+    /** The channel's own chat plus any extra chats allowed in settings */
+    chatIds: string[]
+}
+
+export const TELEGRAM_BOT_COMMANDS = ['stats', 'order', 'stock', 'refunds', 'addcards'] as const
+
+export function telegramBotWebhookUrl() {
+    return `${process.env.NEXT_PUBLIC_APP_URL}/api/telegram`
+}
+
+export function parseTelegramChatIds(raw: string | null | undefined) {
+    return Array.from(new Set((raw || '').split(/[\s,]+/).map((id) => id.trim()).filter((id) => /^-?\d+$/.test(id))))
+}
+
+export async function getTelegramBot(): Promise<TelegramBot | null> {
+    const [channelId, secret, extraChatIds] = await Promise.all([
+        getSetting('telegram_bot_channel_id'),
+        getSetting('telegram_bot_secret'),
+        getSetting('telegram_bot_chat_ids')
+    ])
+    if (!channelId || !secret) return null
+    const channel = await getNotificationChannel(Number(channelId))
+    if (!channel || channel.type !== 'telegram' || !channel.config.botToken) return null
+    return {
+        channel,
+        secret,
+        chatIds: Array.from(new Set([String(channel.config.chatId || ''), ...parseTelegramChatIds(extraChatIds)].filter(Boolean)))
+    }
+}
+
+/** Compare without an early exit, so the header check does not leak the secret's prefix */
+export function matchesBotSecret(bot: TelegramBot, header: string | null) {
+    const value = header || ''
+    let diff = value.length ^ bot.secret.length
+    for (let i = 0; i < bot.secret.length; i++) {
+        diff |= bot.secret.charCodeAt(i) ^ (value.charCodeAt(i) || 0)
+    }
+    return diff === 0
+}
+
+function fill(template: string, params: Record<string, string | number>) {
+    return template.replace(/\{(\w+)\}/g, (match, key) => key in params ? String(params[key]) : match)
+}
+
+function formatTime(value: Date | null | undefined) {
+    return value ? `${value.toISOString().slice(0, 16).replace('T', ' ')} UTC` : '-'
+}
+
+function line(label: string, value: string | number, code = false) {
+    const text = escapeHtml(String(value))
+    return `<b>${escapeHtml(label)}:</b> ${code ? `<code>${text}</code>` : text}`
+}
+
+function actorFor(user: TelegramUser): ActingAdmin {
+    const name = `telegram:${user.username || user.id}`
+    return {
+        user: { id: `telegram:${user.id}`, username: name, name: user.first_name || name },
+        access: { role: 'operator', capabilities: [...ROLE_CAPABILITIES.operator], fromEnv: false }
+    }
+}
+
+export async function registerTelegramBot(token: string, secret: string, language: string) {
+    const t = messages[language as keyof typeof messages] || messages.zh
+    const result = await callTelegramApi(token, 'setWebhook', {
+        url: telegramBotWebhookUrl(),
+        secret_token: secret,
+        allowed_updates: ['message', 'callback_query'],
+        drop_pending_updates: true
+    })
+    if (!result.success) return result
+    // The command menu is a nicety; the webhook is what matters
+    await callTelegramApi(token, 'setMyCommands', {
+        commands: TELEGRAM_BOT_COMMANDS.map((command) => ({ command, description: t.commands[command] }))
+    }).catch(() => null)
+    return result
+}
+
+export async function unregisterTelegramBot(token: string) {
+    return callTelegramApi(token, 'deleteWebhook', { drop_pending_updates: true })
+}
+
+export async function handleTelegramUpdate(bot: TelegramBot, update: TelegramUpdate) {
+    const t = messages[bot.channel.language as keyof typeof messages] || messages.zh
+    const token = bot.channel.config.botToken
+    const chatId = update.message?.chat.id ?? update.callback_query?.message?.chat.id
+    if (chatId === undefined || !bot.chatIds.includes(String(chatId))) {
+        console.log('[TelegramBot] Ignored update from chat', chatId)
+        return
+    }
+
+    const reply = (text: string, extra: Record<string, unknown> = {}) => callTelegramApi(token, 'sendMessage', {
+        chat_id: chatId,
+        text,
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+        ...extra
+    })
+
+    if (update.callback_query) {
+        await handleCallback(t, token, update.callback_query)
+        return
+    }
+
+    const message = update.message
+    if (!message?.text || !message.from) return
+
+    const prompt = message.reply_to_message?.text || ''
+    const tagged = prompt.match(new RegExp(`${ADD_CARDS_TAG} (\\S+)(?: (\\d+))?`))
+    if (tagged) {
+        await addCards(t, token, reply, message, tagged[1], tagged[2] || null, message.text)
+        return
+    }
+
+    const [head, ...rest] = message.text.split('\n')
+    const [rawCommand, ...args] = head.trim().split(/\s+/)
+    // Group chats send /command@BotName
+    const command = rawCommand.replace(/@.*$/, '').toLowerCase()
+    switch (command) {
+        case '/start':
+        case '/help':
+            await reply(helpText(t))
+            return
+        case '/stats':
+            await reply(await statsText(t))
+            return
+        case '/order':
+            await reply(args[0] ? await orderText(t, args[0]) : t.orderUsage)
+            return
+        case '/stock':
+            await reply(await stockText(t))
+            return
+        case '/refunds':
+            await sendPendingRefunds(t, reply)
+            return
+        case '/addcards':
+            if (!args[0]) {
+                await reply(t.addUsage)
+                return
+            }
+            await addCards(t, token, reply, message, args[0], args[1] || null, rest.join('\n'))
+            return
+        default:
+            if (command.startsWith('/')) await reply(t.unknown)
+    }
+}
+
+function helpText(t: Templates) {
+    return [t.help, ...TELEGRAM_BOT_COMMANDS.map((command) => {
+        const args = t.commandArgs[command]
+        return `/${command}${args ? ` ${args}` : ''} - ${t.commands[command]}`
+    })].join('\n')
+}
+
+async function statsText(t: Templates) {
+    const stats = await getDashboardStats(Date.now())
+    const row = (label: string, period: { count: number; revenue: number }) =>
+        `<b>${label}:</b> ${period.count} ${t.orders} · ${Number(period.revenue).toFixed(2)}`
+    return [
+        `<b>${t.statsTitle}</b>`,
+        '',
+        row(t.today, stats.today),
+        row(t.week, stats.week),
+        row(t.month, stats.month),
+        row(t.total, stats.total)
+    ].join('\n')
+}
+
+async function orderText(t: Templates, orderId: string) {
+    const order = await db.query.orders.findFirst({ where: eq(orders.orderId, orderId) })
+    if (!order) return fill(t.orderNotFound, { id: escapeHtml(orderId) })
+    const lines = [
+        line(t.order, order.orderId, true),
+        line(t.status, order.status || 'pending'),
+        line(t.product, order.variantName ? `${order.productName} (${order.variantName})` : order.productName),
+        line(t.quantity, order.quantity || 1),
+        line(t.amount, order.amount)
+    ]
+    if (Number(order.refundedAmount || 0) > 0) lines.push(line(t.refunded, order.refundedAmount!))
+    lines.push(
+        line(t.user, `${order.username || t.guest}${order.email ? ` (${order.email})` : ''}`),
+        line(t.tradeNo, order.tradeNo || '-', true),
+        line(t.createdAt, formatTime(order.createdAt)),
+        line(t.paidAt, formatTime(order.paidAt))
+    )
+    return lines.join('\n')
+}
+
+async function stockText(t: Templates) {
+    const threshold = await getLowStockThreshold()
+    const rows = await db.select({ id: products.id, name: products.name, stockCount: products.stockCount })
+        .from(products)
+        .where(and(
+            // Products hidden by the sold-out action are the ones most in need of cards
+            or(eq(products.isActive, true), eq(products.soldOutState, 'hidden')),
+            lte(products.stockCount, sql`COALESCE(${products.lowStockThreshold}, ${threshold})`),
+            lt(products.stockCount, INFINITE_STOCK)
+        ))
+        .orderBy(asc(products.stockCount))
+        .limit(LIST_LIMIT)
+    if (!rows.length) return fill(t.stockEmpty, { threshold })
+    return [
+        `<b>${fill(t.stockTitle, { threshold })}</b>`,
+        '',
+        ...rows.map((p) => `${p.stockCount ?? 0} · ${escapeHtml(p.name)} (<code>${escapeHtml(p.id)}</code>)`)
+    ].join('\n')
+}
+
+async function sendPendingRefunds(t: Templates, reply: (text: string, extra?: Record<string, unknown>) => Promise<unknown>) {
+    let rows: Array<{
+        id: number
+        orderId: string
+        username: string | null
+        reason: string | null
+        refundAmount: string | null
+        refundMethod: string | null
+        productName: string | null
+        amount: string | null
+    }> = []
+    try {
+        rows = await db.select({
+            id: refundRequests.id,
+            orderId: refundRequests.orderId,
+            username: refundRequests.username,
+            reason: refundRequests.reason,
+            refundAmount: refundRequests.refundAmount,
+            refundMethod: refundRequests.refundMethod,
+            productName: orders.productName,
+            amount: orders.amount,
+        })
+            .from(refundRequests)
+            .leftJoin(orders, eq(refundRequests.orderId, orders.orderId))
+            .where(eq(refundRequests.status, 'pending'))
+            .orderBy(desc(refundRequests.createdAt))
+            .limit(10)
+    } catch {
+        // Table is created with the first request
+    }
+    if (!rows.length) {
+        await reply(t.refundsEmpty)
+        return
+    }
+    // One message per request so each keeps its own buttons
+    for (const r of rows) {
+        await reply([
+            `<b>${fill(t.refundTitle, { id: r.id })}</b>`,
+            '',
+            line(t.order, r.orderId, true),
+            line(t.product, r.productName || '-'),
+            line(t.amount, r.refundAmount || r.amount || '-'),
+            line(t.user, r.username || t.guest),
+            line(t.method, r.refundMethod === 'points' ? t.methodPoints : t.methodGateway),
+            line(t.reason, r.reason || t.noReason)
+        ].join('\n'), {
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: t.approve, callback_data: `refund:approve:${r.id}` },
+                    { text: t.reject, callback_data: `refund:reject:${r.id}` }
+                ]]
+            }
+        })
+    }
+}
+
+async function handleCallback(t: Templates, token: string, query: NonNullable<TelegramUpdate['callback_query']>) {
+    const answer = (text?: string) => callTelegramApi(token, 'answerCallbackQuery', { callback_query_id: query.id, ...(text ? { text } : {}) })
+    const match = (query.data || '').match(/^refund:(approve|reject):(\d+)$/)
+    if (!match || !query.message) {
+        await answer()
+        return
+    }
+
+    const requestId = Number(match[2])
+    const actor = actorFor(query.from)
+    let status: string
+    try {
+        if (match[1] === 'approve') {
+            const result = await runAsAdmin(actor, () => adminApproveRefund(requestId))
+            status = result.processed
+                ? fill(t.approved, { admin: actor.user.username })
+                : fill(t.approvedPending, { admin: actor.user.username, error: result.error || '-' })
+        } else {
+            await runAsAdmin(actor, () => adminRejectRefund(requestId))
+            status = fill(t.rejected, { admin: actor.user.username })
+        }
+    } catch (e: any) {
+        // Buttons stay on old messages; the actions refuse a request that is no longer pending
+        if (e?.message === REFUND_ALREADY_HANDLED) {
+            const current = await db.query.refundRequests.findFirst({
+                where: eq(refundRequests.id, requestId),
+                columns: { status: true }
+            })
+            await answer(fill(t.alreadyHandled, { status: current?.status || '-' }))
+            return
+        }
+        await answer(fill(t.failed, { error: e?.message || 'error' }).slice(0, 200))
+        return
+    }
+
+    await answer()
+    await callTelegramApi(token, 'editMessageText', {
+        chat_id: query.message.chat.id,
+        message_id: query.message.message_id,
+        text: `${escapeHtml(query.message.text || '')}\n\n<b>${escapeHtml(status)}</b>`,
+        parse_mode: 'HTML'
+    })
+}
+
+async function addCards(
+    t: Templates,
+    token: string,
+    reply: (text: string, extra?: Record<string, unknown>) => Promise<unknown>,
+    message: TelegramMessage,
+    productId: string,
+    variantIdRaw: string | null,
+    body: string
+) {
+    const product = await db.query.products.findFirst({ where: eq(products.id, productId), columns: { id: true, name: true } })
+    if (!product) {
+        await reply(fill(t.productNotFound, { id: escapeHtml(productId) }))
+        return
+    }
+    const variants = await getProductVariants(productId)
+    const variant = variants.find((v) => v.id === Number(variantIdRaw))
+    if (variants.length && !variant) {
+        await reply([t.variantRequired, ...variants.map((v) => `<code>/addcards ${escapeHtml(productId)} ${v.id}</code> · ${escapeHtml(v.name)}`)].join('\n'))
+        return
+    }
+
+    const keys = body.split('\n').map((key) => key.trim()).filter(Boolean)
+    const name = escapeHtml(variant ? `${product.name} (${variant.name})` : product.name)
+    if (!keys.length) {
+        const tag = `${ADD_CARDS_TAG} ${productId}${variant ? ` ${variant.id}` : ''}`
+        await reply(`${fill(t.addPrompt, { name })}\n${escapeHtml(tag)}`, { reply_markup: { force_reply: true } })
+        return
+    }
+
+    const totals = { inserted: 0, skipped: 0, invalid: 0 }
+    const actor = actorFor(message.from!)
+    for (let i = 0; i < keys.length; i += CARD_IMPORT_CHUNK_SIZE) {
+        const result = await runAsAdmin(actor, () => importCards({
+            productId,
+            variantId: variant?.id ?? null,
+            cards: keys.slice(i, i + CARD_IMPORT_CHUNK_SIZE).map((key) => ({ key })),
+            skipDuplicates: true
+        }))
+        if (!result.success) {
+            await reply(fill(t.failed, { error: escapeHtml(result.error) }))
+            return
+        }
+        totals.inserted += result.inserted
+        totals.skipped += result.skipped
+        totals.invalid += result.invalid
+    }
+
+    // Keys should not linger in the chat history
+    const removed = await callTelegramApi(token, 'deleteMessage', { chat_id: message.chat.id, message_id: message.message_id })
+    await reply([fill(t.added, { name, ...totals }), ...(removed.success ? [t.keysRemoved] : [])].join('\n'))
+}
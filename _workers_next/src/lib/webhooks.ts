@@ -0,0 +1,362 @@
+import { db } from "@/lib/db"
+import { orders, webhookDeliveries, webhookEndpoints } from "@/lib/db/schema"
+import { ensureWebhookTables, normalizeTimestampMs } from "@/lib/db/queries"
+import { and, desc, eq, inArray, lte, sql } from "drizzle-orm"
+import { after } from "next/server"
+
+/**
+ * Outbound webhooks. Events are queued in `webhook_deliveries`, one row per
+ * subscribed endpoint, and sent after the response. Failed sends are retried
+ * with exponential backoff; there is no cron on Workers, so due retries are
+ * picked up whenever another event is sent or the admin opens the page.
+ *
+ * Each request is a JSON POST signed with the endpoint secret:
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ */
+
+export const WEBHOOK_EVENTS = [
+    'order.created',
+    'order.paid',
+    'order.delivered',
+    'order.refunded',
+    'refund.requested',
+    'stock.low',
+] as const
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+export const WEBHOOK_MAX_ATTEMPTS = 8
+const BASE_RETRY_MS = 30 * 1000
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000
+// A send in flight holds its row this long so a concurrent run skips it
+const CLAIM_MS = 60 * 1000
+const REQUEST_TIMEOUT_MS = 10 * 1000
+const RESPONSE_BODY_LIMIT = 1000
+const QUEUE_BATCH = 10
+
+const encoder = new TextEncoder()
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+    return (WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
+
+export function parseWebhookEvents(raw: string | null | undefined): WebhookEvent[] {
+    try {
+        const list = JSON.parse(raw || '[]')
+        return Array.isArray(list) ? list.filter((e): e is WebhookEvent => typeof e === 'string' && isWebhookEvent(e)) : []
+    } catch {
+        return []
+    }
+}
+
+/** i18n error key when the URL cannot be used as an endpoint */
+export function validateWebhookUrl(value: string) {
+    let url: URL
+    try {
+        url = new URL(value)
+    } catch {
+        return 'admin.webhooks.errors.invalidUrl'
+    }
+    return url.protocol === 'https:' ? null : 'admin.webhooks.errors.httpsOnly'
+}
+
+export function generateWebhookSecret() {
+    const bytes = crypto.getRandomValues(new Uint8Array(24))
+    return 'whsec_' + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Delay before attempt `attempts + 1`: 30s, 1m, 2m, ... capped at 6h */
+export function webhookRetryDelay(attempts: number) {
+    return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1))
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string) {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+    return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// after() needs a request scope; outside one (scripts, nested callbacks that lost it) just run inline
+export async function runAfterResponse(task: () => Promise<void>) {
+    try {
+        after(task)
+    } catch {
+        await task()
+    }
+}
+
+async function getSubscribedEndpoints(event: WebhookEvent) {
+    await ensureWebhookTables()
+    const endpoints = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.isActive, true))
+    return endpoints.filter((endpoint) => parseWebhookEvents(endpoint.events).includes(event))
+}
+
+function buildPayload(event: string, data: Record<string, any>) {
+    const id = crypto.randomUUID()
+    return { id, body: JSON.stringify({ id, event, createdAt: new Date().toISOString(), data }) }
+}
+
+async function enqueue(event: WebhookEvent, data: Record<string, any> | (() => Promise<Record<string, any> | null>)) {
+    const endpoints = await getSubscribedEndpoints(event)
+    if (!endpoints.length) return
+    const resolved = typeof data === 'function' ? await data() : data
+    if (!resolved) return
+    const payload = buildPayload(event, resolved)
+    const now = new Date()
+    await db.insert(webhookDeliveries).values(endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        event,
+        eventId: payload.id,
+        payload: payload.body,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+    })))
+}
+
+/**
+ * Queue an event for every endpoint subscribed to it and send after the
+ * response. `data` may be a loader so callers on hot paths only pay for the
+ * lookup when someone is listening. Never throws.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, data: Record<string, any> | (() => Promise<Record<string, any> | null>)) {
+    await runAfterResponse(async () => {
+        try {
+            await enqueue(event, data)
+            await processWebhookQueue()
+        } catch (error) {
+            console.error(`[Webhooks] Failed to emit ${event}:`, error)
+        }
+    })
+}
+
+async function loadOrderPayload(orderId: string) {
+    const order = await db.query.orders.findFirst({
+        where: eq(orders.orderId, orderId),
+        columns: {
+            orderId: true,
+            productId: true,
+            productName: true,
+            variantName: true,
+            amount: true,
+            quantity: true,
+            status: true,
+            email: true,
+            userId: true,
+            username: true,
+            tradeNo: true,
+            paymentProvider: true,
+            couponCode: true,
+            discountAmount: true,
+            pointsUsed: true,
+            refundedAmount: true,
+            refundedQuantity: true,
+            paidAt: true,
+            deliveredAt: true,
+            createdAt: true,
+        }
+    })
+    if (!order) return null
+    // Card keys are deliberately left out; receivers can look orders up if they need them
+    return {
+        order: {
+            ...order,
+            paidAt: order.paidAt?.toISOString() ?? null,
+            deliveredAt: order.deliveredAt?.toISOString() ?? null,
+            createdAt: order.createdAt?.toISOString() ?? null,
+        }
+    }
+}
+
+/**
+ * Events implied by an order status change (or creation when `from` is null).
+ * A further partial refund passes the same status as `from` and `to`.
+ */
+export function orderWebhookEvents(from: string | null, to: string): WebhookEvent[] {
+    const events: WebhookEvent[] = []
+    if (from === null) events.push('order.created')
+    const wasPaid = from === 'paid' || from === 'delivered' || from === 'partially_refunded'
+    if ((to === 'paid' || to === 'delivered') && !wasPaid) events.push('order.paid')
+    if (to === 'delivered') events.push('order.delivered')
+    if (to === 'refunded' || to === 'partially_refunded') events.push('order.refunded')
+    return events
+}
+
+export async function emitOrderWebhooks(orderId: string, from: string | null, to: string) {
+    for (const event of orderWebhookEvents(from, to)) {
+        await emitWebhookEvent(event, () => loadOrderPayload(orderId))
+    }
+}
+
+type DeliveryRow = typeof webhookDeliveries.$inferSelect
+type EndpointRow = typeof webhookEndpoints.$inferSelect
+
+async function send(endpoint: EndpointRow, delivery: Pick<DeliveryRow, 'id' | 'event' | 'eventId' | 'payload'>) {
+    const timestamp = Math.floor(Date.now() / 1000)
+    const started = Date.now()
+    try {
+        const response = await fetch(endpoint.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'ldc-shop-webhooks/1',
+                'X-Webhook-Event': delivery.event,
+                'X-Webhook-Id': delivery.eventId,
+                'X-Webhook-Delivery': String(delivery.id),
+                'X-Webhook-Timestamp': String(timestamp),
+                'X-Webhook-Signature': `sha256=${await signWebhookPayload(endpoint.secret, timestamp, delivery.payload)}`,
+            },
+            body: delivery.payload,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        })
+        const text = await response.text().catch(() => '')
+        return {
+            ok: response.ok,
+            status: response.status,
+            body: text.slice(0, RESPONSE_BODY_LIMIT) || null,
+            error: response.ok ? null : `HTTP ${response.status}`,
+            durationMs: Date.now() - started,
+        }
+    } catch (error: any) {
+        return {
+            ok: false,
+            status: null,
+            body: null,
+            error: String(error?.name === 'TimeoutError' ? 'Timed out' : error?.message || error).slice(0, 500),
+            durationMs: Date.now() - started,
+        }
+    }
+}
+
+async function attempt(delivery: DeliveryRow, endpoint: EndpointRow | undefined) {
+    const now = Date.now()
+    // Claim the row so overlapping queue runs do not send it twice
+    const claimed = await db.update(webhookDeliveries)
+        .set({ nextAttemptAt: new Date(now + CLAIM_MS), updatedAt: new Date(now) })
+        .where(and(
+            eq(webhookDeliveries.id, delivery.id),
+            eq(webhookDeliveries.status, 'pending'),
+            lte(normalizeTimestampMs(webhookDeliveries.nextAttemptAt), now)
+        ))
+        .returning({ id: webhookDeliveries.id })
+    if (!claimed.length) return
+
+    if (!endpoint || !endpoint.isActive) {
+        await db.update(webhookDeliveries)
+            .set({ status: 'failed', error: 'Endpoint removed or disabled', nextAttemptAt: null, updatedAt: new Date() })
+            .where(eq(webhookDeliveries.id, delivery.id))
+        return
+    }
+
+    const result = await send(endpoint, delivery)
+    const attempts = Number(delivery.attempts || 0) + 1
+    const giveUp = !result.ok && attempts >= WEBHOOK_MAX_ATTEMPTS
+    await db.update(webhookDeliveries)
+        .set({
+            status: result.ok ? 'delivered' : giveUp ? 'failed' : 'pending',
+            attempts,
+            nextAttemptAt: result.ok || giveUp ? null : new Date(Date.now() + webhookRetryDelay(attempts)),
+            responseStatus: result.status,
+            responseBody: result.body,
+            error: result.error,
+            durationMs: result.durationMs,
+            updatedAt: new Date(),
+        })
+        .where(eq(webhookDeliveries.id, delivery.id))
+}
+
+/** Send deliveries that are due, oldest first. Returns how many were attempted. */
+export async function processWebhookQueue(limit = QUEUE_BATCH) {
+    await ensureWebhookTables()
+    const now = Date.now()
+    const due = await db.select().from(webhookDeliveries)
+        .where(and(
+            eq(webhookDeliveries.status, 'pending'),
+            lte(normalizeTimestampMs(webhookDeliveries.nextAttemptAt), now)
+        ))
+        .orderBy(webhookDeliveries.nextAttemptAt)
+        .limit(limit)
+    if (!due.length) return 0
+
+    const endpointIds = Array.from(new Set(due.map((d) => d.endpointId)))
+    const endpoints = await db.select().from(webhookEndpoints).where(inArray(webhookEndpoints.id, endpointIds))
+    const byId = new Map(endpoints.map((e) => [e.id, e]))
+    for (const delivery of due) {
+        try {
+            await attempt(delivery, byId.get(delivery.endpointId))
+        } catch (error) {
+            console.error(`[Webhooks] Delivery ${delivery.id} failed:`, error)
+        }
+    }
+    return due.length
+}
+
+/** Put a delivery back at the front of the queue and try it now */
+export async function retryWebhookDelivery(id: number) {
+    await ensureWebhookTables()
+    const updated = await db.update(webhookDeliveries)
+        .set({ status: 'pending', nextAttemptAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(webhookDeliveries.id, id), sql`${webhookDeliveries.status} != 'delivered'`))
+        .returning({ id: webhookDeliveries.id })
+    if (!updated.length) return false
+    await processWebhookQueue()
+    return true
+}
+
+/**
+ * One-off `webhook.test` send for the admin's "send test" button. It is logged
+ * like any delivery but never retried.
+ */
+export async function sendTestWebhook(endpointId: number) {
+    await ensureWebhookTables()
+    const endpoint = await db.query.webhookEndpoints.findFirst({ where: eq(webhookEndpoints.id, endpointId) })
+    if (!endpoint) return null
+    const payload = buildPayload('webhook.test', { endpointId, message: 'Test delivery from LDC Shop' })
+    const now = new Date()
+    const [row] = await db.insert(webhookDeliveries).values({
+        endpointId,
+        event: 'webhook.test',
+        eventId: payload.id,
+        payload: payload.body,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+    }).returning()
+    const result = await send(endpoint, row)
+    await db.update(webhookDeliveries)
+        .set({
+            status: result.ok ? 'delivered' : 'failed',
+            attempts: 1,
+            responseStatus: result.status,
+            responseBody: result.body,
+            error: result.error,
+            durationMs: result.durationMs,
+            updatedAt: new Date(),
+        })
+        .where(eq(webhookDeliveries.id, row.id))
+    return result
+}
+
+export async function getWebhookEndpoints() {
+    try {
+        await ensureWebhookTables()
+        return await db.select().from(webhookEndpoints).orderBy(webhookEndpoints.id)
+    } catch {
+        return []
+    }
+}
+
+export async function getRecentWebhookDeliveries(limit = 50) {
+    try {
+        await ensureWebhookTables()
+        return await db.select().from(webhookDeliveries)
+            .orderBy(desc(normalizeTimestampMs(webhookDeliveries.createdAt)), desc(webhookDeliveries.id))
+            .limit(limit)
+    } catch {
+        return []
+    }
+}
@@ -0,0 +1,19 @@
+// The subset of the Workers TCP socket API used by lib/smtp. The full
+// @cloudflare/workers-types globals clash with the DOM lib, so only this
+// module is declared.
+declare module "cloudflare:sockets" {
+    interface SocketOptions {
+        secureTransport?: "off" | "on" | "starttls"
+        allowHalfOpen?: boolean
+    }
+
+    interface Socket {
+        readonly readable: ReadableStream<Uint8Array>
+        readonly writable: WritableStream<Uint8Array>
+        readonly closed: Promise<void>
+        close(): Promise<void>
+        startTls(options?: { expectedServerHostname?: string }): Socket
+    }
+
+    export function connect(address: string | { hostname: string; port: number }, options?: SocketOptions): Socket
+}